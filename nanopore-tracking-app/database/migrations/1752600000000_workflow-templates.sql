@@ -0,0 +1,118 @@
+-- Migration: Workflow templates
+-- Stored, versioned processing-step templates selected per sample type and library kit
+
+-- Template header - one row per template version
+CREATE TABLE workflow_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Identity and versioning
+    template_key VARCHAR(100) NOT NULL, -- Stable key shared by all versions, e.g. "ligation"
+    version INTEGER NOT NULL DEFAULT 1,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Selection criteria (NULL matches anything)
+    sample_type VARCHAR(50), -- DNA, RNA, etc.
+    library_prep_kit_pattern VARCHAR(100), -- SQL LIKE pattern, e.g. "SQK-LSK%"
+    barcoding_required BOOLEAN,
+
+    -- Lifecycle
+    status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, retired
+    created_by VARCHAR(255),
+    retired_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_template_status CHECK (status IN ('active', 'retired')),
+    CONSTRAINT unique_template_version UNIQUE (template_key, version)
+);
+
+-- Ordered steps belonging to a template version
+CREATE TABLE workflow_template_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES workflow_templates(id) ON DELETE CASCADE,
+
+    step_order INTEGER NOT NULL,
+    step_name VARCHAR(100) NOT NULL,
+    estimated_duration_hours INTEGER,
+    required_role VARCHAR(50), -- technician, lab_manager, bioinformatician
+    depends_on TEXT[] NOT NULL DEFAULT '{}', -- Names of steps that must complete first
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_template_step_order UNIQUE (template_id, step_order),
+    CONSTRAINT unique_template_step_name UNIQUE (template_id, step_name)
+);
+
+-- Samples keep the template version they were created with
+ALTER TABLE nanopore_samples
+ADD COLUMN workflow_template_id UUID REFERENCES workflow_templates(id);
+
+-- Materialized steps carry their template ordering and dependencies
+ALTER TABLE nanopore_processing_steps
+ADD COLUMN step_order INTEGER,
+ADD COLUMN required_role VARCHAR(50),
+ADD COLUMN depends_on TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_workflow_templates_key ON workflow_templates(template_key);
+CREATE INDEX idx_workflow_templates_status ON workflow_templates(status);
+CREATE INDEX idx_workflow_template_steps_template_id ON workflow_template_steps(template_id);
+CREATE INDEX idx_nanopore_samples_workflow_template_id ON nanopore_samples(workflow_template_id);
+
+CREATE TRIGGER set_timestamp_workflow_templates
+    BEFORE UPDATE ON workflow_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Seed templates
+INSERT INTO workflow_templates (id, template_key, version, name, description, sample_type, library_prep_kit_pattern, barcoding_required, created_by)
+VALUES
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 'standard', 1, 'Standard DNA workflow', 'Default eight-step workflow used when no more specific template matches', NULL, NULL, NULL, 'system'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 'ligation', 1, 'Ligation sequencing (SQK-LSK)', 'Ligation kit library prep with end-repair and adapter ligation', 'DNA', 'SQK-LSK%', NULL, 'system'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 'rapid', 1, 'Rapid sequencing (SQK-RAD/RBK)', 'Transposase-based rapid library prep', 'DNA', 'SQK-R%', NULL, 'system'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 'direct-rna', 1, 'Direct RNA sequencing (SQK-RNA)', 'Direct RNA library prep with reverse transcription', 'RNA', 'SQK-RNA%', NULL, 'system');
+
+INSERT INTO workflow_template_steps (template_id, step_order, step_name, estimated_duration_hours, required_role, depends_on)
+VALUES
+    -- standard
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 1, 'Sample QC', 1, 'technician', '{}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 2, 'Library Preparation', 4, 'technician', '{"Sample QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 3, 'Library QC', 1, 'technician', '{"Library Preparation"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 4, 'Sequencing Setup', 1, 'technician', '{"Library QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 5, 'Sequencing Run', 48, 'technician', '{"Sequencing Setup"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 6, 'Basecalling', 2, 'bioinformatician', '{"Sequencing Run"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 7, 'Quality Assessment', 1, 'bioinformatician', '{"Basecalling"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000001', 8, 'Data Delivery', 1, 'lab_manager', '{"Quality Assessment"}'),
+    -- ligation
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 1, 'Sample QC', 1, 'technician', '{}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 2, 'DNA Repair and End-prep', 2, 'technician', '{"Sample QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 3, 'Library Preparation', 3, 'technician', '{"DNA Repair and End-prep"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 4, 'Library QC', 1, 'technician', '{"Library Preparation"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 5, 'Sequencing Setup', 1, 'technician', '{"Library QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 6, 'Sequencing Run', 72, 'technician', '{"Sequencing Setup"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 7, 'Basecalling', 4, 'bioinformatician', '{"Sequencing Run"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 8, 'Quality Assessment', 1, 'bioinformatician', '{"Basecalling"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000002', 9, 'Data Delivery', 1, 'lab_manager', '{"Quality Assessment"}'),
+    -- rapid
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 1, 'Sample QC', 1, 'technician', '{}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 2, 'Library Preparation', 1, 'technician', '{"Sample QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 3, 'Sequencing Setup', 1, 'technician', '{"Library Preparation"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 4, 'Sequencing Run', 24, 'technician', '{"Sequencing Setup"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 5, 'Basecalling', 2, 'bioinformatician', '{"Sequencing Run"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 6, 'Quality Assessment', 1, 'bioinformatician', '{"Basecalling"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000003', 7, 'Data Delivery', 1, 'lab_manager', '{"Quality Assessment"}'),
+    -- direct RNA
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 1, 'Sample QC', 1, 'technician', '{}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 2, 'Reverse Transcription', 2, 'technician', '{"Sample QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 3, 'Library Preparation', 2, 'technician', '{"Reverse Transcription"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 4, 'Library QC', 1, 'technician', '{"Library Preparation"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 5, 'Sequencing Setup', 1, 'technician', '{"Library QC"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 6, 'Sequencing Run', 24, 'technician', '{"Sequencing Setup"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 7, 'Basecalling', 6, 'bioinformatician', '{"Sequencing Run"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 8, 'Quality Assessment', 1, 'bioinformatician', '{"Basecalling"}'),
+    ('7a1c0e52-0a3b-4d1e-9b61-000000000004', 9, 'Data Delivery', 1, 'lab_manager', '{"Quality Assessment"}');
+
+-- Comments for documentation
+COMMENT ON TABLE workflow_templates IS 'Versioned processing-step templates; each row is one immutable version';
+COMMENT ON TABLE workflow_template_steps IS 'Ordered steps, durations, roles and dependencies of a template version';
+COMMENT ON COLUMN nanopore_samples.workflow_template_id IS 'Template version the sample processing steps were created from';
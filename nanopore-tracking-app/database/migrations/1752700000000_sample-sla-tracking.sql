@@ -0,0 +1,14 @@
+-- Migration: Sample SLA tracking
+-- Stores the latest turnaround forecast so SLA risk changes can be detected between runs
+
+ALTER TABLE nanopore_samples
+ADD COLUMN projected_completion_at TIMESTAMPTZ,
+ADD COLUMN sla_risk VARCHAR(20) NOT NULL DEFAULT 'on_track',
+ADD COLUMN sla_risk_updated_at TIMESTAMPTZ,
+ADD CONSTRAINT valid_sla_risk CHECK (sla_risk IN ('on_track', 'at_risk', 'breached'));
+
+CREATE INDEX idx_nanopore_samples_sla_risk ON nanopore_samples(sla_risk);
+
+-- Comments for documentation
+COMMENT ON COLUMN nanopore_samples.projected_completion_at IS 'Projected completion from the latest turnaround forecast';
+COMMENT ON COLUMN nanopore_samples.sla_risk IS 'SLA risk from the latest forecast: on_track, at_risk or breached';
@@ -0,0 +1,71 @@
+-- Migration: Flow cell inventory
+-- Physical flow cell stock, pore-count checks and per-sample usage across wash cycles
+
+-- One row per physical flow cell
+CREATE TABLE flow_cells (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Identity
+    serial_number VARCHAR(50) NOT NULL UNIQUE, -- ID printed on the flow cell, e.g. "FAX12345"
+    lot_number VARCHAR(50) NOT NULL,
+    flow_cell_type VARCHAR(20) NOT NULL, -- R9.4.1, R10.4.1, Flongle, PromethION
+    expiry_date DATE NOT NULL,
+
+    -- Condition
+    status VARCHAR(20) NOT NULL DEFAULT 'in_stock', -- in_stock, reserved, in_use, washed, spent
+    last_pore_count INTEGER,
+    last_pore_check_at TIMESTAMPTZ,
+    wash_count INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+
+    -- Tracking
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_flow_cell_type CHECK (flow_cell_type IN ('R9.4.1', 'R10.4.1', 'Flongle', 'PromethION')),
+    CONSTRAINT valid_flow_cell_status CHECK (status IN ('in_stock', 'reserved', 'in_use', 'washed', 'spent')),
+    CONSTRAINT non_negative_wash_count CHECK (wash_count >= 0)
+);
+
+-- Pore-count check history
+CREATE TABLE flow_cell_pore_checks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    flow_cell_id UUID NOT NULL REFERENCES flow_cells(id) ON DELETE CASCADE,
+    pore_count INTEGER NOT NULL,
+    passed BOOLEAN NOT NULL,
+    checked_by VARCHAR(255),
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT non_negative_pore_count CHECK (pore_count >= 0)
+);
+
+-- A flow cell used for a sample; the same flow cell appears once per wash cycle
+CREATE TABLE flow_cell_usages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    flow_cell_id UUID NOT NULL REFERENCES flow_cells(id) ON DELETE CASCADE,
+    sample_id UUID NOT NULL REFERENCES nanopore_samples(id) ON DELETE CASCADE,
+    wash_cycle INTEGER NOT NULL DEFAULT 0, -- flow_cells.wash_count when the usage started
+    status VARCHAR(20) NOT NULL DEFAULT 'reserved', -- reserved, in_use, completed, released
+    reserved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    ended_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_flow_cell_usage_status CHECK (status IN ('reserved', 'in_use', 'completed', 'released'))
+);
+
+CREATE INDEX idx_flow_cells_status ON flow_cells(status);
+CREATE INDEX idx_flow_cells_type_expiry ON flow_cells(flow_cell_type, expiry_date);
+CREATE INDEX idx_flow_cell_pore_checks_flow_cell_id ON flow_cell_pore_checks(flow_cell_id);
+CREATE INDEX idx_flow_cell_usages_flow_cell_id ON flow_cell_usages(flow_cell_id);
+CREATE INDEX idx_flow_cell_usages_sample_id ON flow_cell_usages(sample_id);
+
+CREATE TRIGGER set_timestamp_flow_cells
+    BEFORE UPDATE ON flow_cells
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE flow_cells IS 'Physical flow cell stock with lot, expiry and lifecycle status';
+COMMENT ON TABLE flow_cell_pore_checks IS 'Pore-count check results recorded on receipt and before reuse';
+COMMENT ON TABLE flow_cell_usages IS 'Reservations and runs of a flow cell for a sample, one row per wash cycle';
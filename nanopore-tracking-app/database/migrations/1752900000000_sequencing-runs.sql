@@ -0,0 +1,49 @@
+-- Migration: Sequencing runs
+-- Groups barcoded samples multiplexed on one flow cell into a single run
+
+CREATE TABLE sequencing_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_name VARCHAR(255) NOT NULL,
+
+    -- Hardware
+    flow_cell_id UUID NOT NULL REFERENCES flow_cells(id),
+    device_id VARCHAR(100) NOT NULL, -- e.g. "MN12345" or "PC24B123"
+    device_position VARCHAR(20), -- PromethION position, e.g. "1A"
+    barcode_kit VARCHAR(50) NOT NULL,
+
+    -- Lifecycle
+    status VARCHAR(20) NOT NULL DEFAULT 'planned', -- planned, running, completed, failed, cancelled
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_run_status CHECK (status IN ('planned', 'running', 'completed', 'failed', 'cancelled'))
+);
+
+-- Member samples and their barcode assignments
+CREATE TABLE sequencing_run_samples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES sequencing_runs(id) ON DELETE CASCADE,
+    sample_id UUID NOT NULL REFERENCES nanopore_samples(id) ON DELETE CASCADE,
+    barcode VARCHAR(20) NOT NULL, -- Canonical MinKNOW label, e.g. "barcode07"
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_run_barcode UNIQUE (run_id, barcode),
+    CONSTRAINT unique_run_sample UNIQUE (run_id, sample_id)
+);
+
+CREATE INDEX idx_sequencing_runs_status ON sequencing_runs(status);
+CREATE INDEX idx_sequencing_runs_flow_cell_id ON sequencing_runs(flow_cell_id);
+CREATE INDEX idx_sequencing_run_samples_sample_id ON sequencing_run_samples(sample_id);
+
+CREATE TRIGGER set_timestamp_sequencing_runs
+    BEFORE UPDATE ON sequencing_runs
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE sequencing_runs IS 'A multiplexed sequencing run on one flow cell and device position';
+COMMENT ON TABLE sequencing_run_samples IS 'Samples on a run with their barcode; barcodes are unique within a run';
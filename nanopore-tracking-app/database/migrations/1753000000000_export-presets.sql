@@ -0,0 +1,32 @@
+-- Migration: Export presets
+-- Named column selections, filters and formats for the sample export engine
+
+CREATE TABLE export_presets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+
+    -- Export definition
+    columns JSONB NOT NULL, -- Ordered column keys, e.g. ["sample_name", "details.organism", "step:Basecalling:duration_hours"]
+    filters JSONB NOT NULL DEFAULT '{}', -- Status, priority, assignee, lab and submission date filters
+    format VARCHAR(10) NOT NULL DEFAULT 'csv', -- csv, tsv, xlsx, ndjson
+
+    -- Tracking
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_export_format CHECK (format IN ('csv', 'tsv', 'xlsx', 'ndjson')),
+    CONSTRAINT columns_is_array CHECK (jsonb_typeof(columns) = 'array')
+);
+
+-- Keyset pagination for streamed exports walks samples in submission order
+CREATE INDEX IF NOT EXISTS idx_nanopore_samples_submitted_at_id ON nanopore_samples(submitted_at, id);
+
+CREATE TRIGGER set_timestamp_export_presets
+    BEFORE UPDATE ON export_presets
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE export_presets IS 'Saved export configurations shown in the export dialog';
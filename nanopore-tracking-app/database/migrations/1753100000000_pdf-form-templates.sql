@@ -0,0 +1,33 @@
+-- Migration: PDF form templates
+-- Admin-registered submission form layouts used for positional PDF extraction
+
+CREATE TABLE pdf_form_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_key VARCHAR(100) NOT NULL, -- Stable identifier shared by all versions of a form
+    version INTEGER NOT NULL DEFAULT 1,
+    name VARCHAR(200) NOT NULL,
+
+    -- Fingerprint, field definitions and constants, validated by formTemplateDefinitionSchema
+    definition JSONB NOT NULL,
+
+    -- Lifecycle
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    created_by VARCHAR(255),
+    retired_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_pdf_form_template_version UNIQUE (template_key, version),
+    CONSTRAINT valid_pdf_form_template_status CHECK (status IN ('active', 'retired')),
+    CONSTRAINT definition_is_object CHECK (jsonb_typeof(definition) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS idx_pdf_form_templates_status ON pdf_form_templates(status);
+
+CREATE TRIGGER set_timestamp_pdf_form_templates
+    BEFORE UPDATE ON pdf_form_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE pdf_form_templates IS 'Submission form layouts registered from sample PDFs; builtin layouts live in code';
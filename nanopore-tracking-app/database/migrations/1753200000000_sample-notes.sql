@@ -0,0 +1,66 @@
+-- Migration: Sample notes
+-- Threaded staff notes on samples with edit history, attachment references and mention notifications
+
+CREATE TABLE sample_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sample_id UUID NOT NULL REFERENCES nanopore_samples(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES sample_notes(id) ON DELETE CASCADE, -- Set on replies
+
+    author VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    visibility VARCHAR(20) NOT NULL DEFAULT 'internal',
+    mentions TEXT[] NOT NULL DEFAULT '{}', -- Staff @mentioned in the current body
+
+    edited_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_sample_note_visibility CHECK (visibility IN ('internal', 'submitter')),
+    CONSTRAINT sample_note_body_not_empty CHECK (length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_notes_sample_id ON sample_notes(sample_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_sample_notes_parent_id ON sample_notes(parent_id);
+
+CREATE TRIGGER set_timestamp_sample_notes
+    BEFORE UPDATE ON sample_notes
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Previous versions of a note, written before each edit
+CREATE TABLE sample_note_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    note_id UUID NOT NULL REFERENCES sample_notes(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    visibility VARCHAR(20) NOT NULL,
+    edited_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sample_note_revisions_note_id ON sample_note_revisions(note_id, created_at);
+
+CREATE TABLE sample_note_attachments (
+    note_id UUID NOT NULL REFERENCES sample_notes(id) ON DELETE CASCADE,
+    attachment_id UUID NOT NULL REFERENCES nanopore_attachments(id) ON DELETE CASCADE,
+    PRIMARY KEY (note_id, attachment_id)
+);
+
+-- Per-user notifications; mentions are the first source
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recipient VARCHAR(255) NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT,
+    sample_id UUID REFERENCES nanopore_samples(id) ON DELETE CASCADE,
+    note_id UUID REFERENCES sample_notes(id) ON DELETE CASCADE,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread ON notifications(recipient, created_at DESC) WHERE read_at IS NULL;
+
+-- Comments for documentation
+COMMENT ON TABLE sample_notes IS 'Threaded notes on samples; internal notes are never shown to submitters';
+COMMENT ON TABLE sample_note_revisions IS 'Body and visibility of a note before each edit';
+COMMENT ON TABLE notifications IS 'Notifications addressed to staff members by name';
@@ -0,0 +1,23 @@
+-- Migration: Sample audit log
+-- Sample changes are audited into audit_logs. Deployments that share one database with the
+-- audit service already have the table from service-migrations/002; this creates it otherwise.
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_type VARCHAR(100) NOT NULL,
+    user_id UUID, -- Non-UUID actors (staff names, emails) are stored as details->>'actor'
+    resource_type VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    ip_address INET,
+    user_agent TEXT,
+    timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs(resource_type, resource_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
+
+-- Comments for documentation
+COMMENT ON TABLE audit_logs IS 'Audit trail of sample changes, read back for per-sample timelines and chain-of-custody reports';
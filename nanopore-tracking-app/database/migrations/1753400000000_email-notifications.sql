@@ -0,0 +1,67 @@
+-- Migration: Email notifications
+-- Editable milestone templates, per-recipient preferences and an outbox with retries
+
+-- Overrides of the templates in code; a milestone without a row uses its default
+CREATE TABLE email_templates (
+    template_key VARCHAR(50) PRIMARY KEY,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER set_timestamp_email_templates
+    BEFORE UPDATE ON email_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+CREATE TABLE email_preferences (
+    email VARCHAR(255) PRIMARY KEY, -- Stored lowercased
+    opted_out BOOLEAN NOT NULL DEFAULT false,
+    digest BOOLEAN NOT NULL DEFAULT false,
+    unsubscribe_token VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER set_timestamp_email_preferences
+    BEFORE UPDATE ON email_preferences
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+CREATE TABLE email_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recipient VARCHAR(255) NOT NULL,
+    template_key VARCHAR(50) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    sample_id UUID REFERENCES nanopore_samples(id) ON DELETE SET NULL,
+    event_id VARCHAR(100), -- Source event, so a redelivered event is not mailed twice
+
+    -- pending: waiting to send; digest: held for the recipient's digest; digested: folded into a digest
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    digest_id UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_email_outbox_status CHECK (status IN ('pending', 'sent', 'failed', 'digest', 'digested')),
+    CONSTRAINT unique_email_outbox_event UNIQUE (event_id, recipient, template_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_outbox_digest ON email_outbox(recipient, created_at) WHERE status = 'digest';
+
+CREATE TRIGGER set_timestamp_email_outbox
+    BEFORE UPDATE ON email_outbox
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE email_templates IS 'Admin edits of milestone email templates';
+COMMENT ON TABLE email_preferences IS 'Per-recipient opt-out and digest settings';
+COMMENT ON TABLE email_outbox IS 'Rendered notification emails, retried with backoff until sent or failed';
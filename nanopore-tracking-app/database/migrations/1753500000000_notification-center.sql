@@ -0,0 +1,22 @@
+-- In-app notification center: event-driven inbox entries and per-user type preferences
+
+-- Bus events can be delivered more than once; entries from the same source share a key
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR(150);
+ALTER TABLE notifications ADD CONSTRAINT unique_notification_source UNIQUE (recipient, dedupe_key);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications(lower(recipient), created_at DESC);
+
+CREATE TABLE notification_preferences (
+    recipient VARCHAR(255) PRIMARY KEY, -- Lowercased staff name
+    muted_types TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER set_timestamp_notification_preferences
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE notification_preferences IS 'Notification types each staff member has turned off';
@@ -0,0 +1,14 @@
+-- Staff roles for access control over the sample API
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'submitter';
+ALTER TABLE users ADD CONSTRAINT valid_user_role
+    CHECK (role IN ('submitter', 'technician', 'lab_manager', 'admin'));
+
+-- Staff sign in with a password an admin sets; accounts without one cannot use password sign-in
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- Comments for documentation
+COMMENT ON COLUMN users.password_hash IS 'scrypt$<salt>$<key>, both base64';
+COMMENT ON COLUMN users.role IS 'submitter: own samples only; technician: steps on assigned samples; lab_manager: assign, reprioritize and delete; admin: everything';
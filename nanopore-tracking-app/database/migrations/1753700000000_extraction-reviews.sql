@@ -0,0 +1,76 @@
+-- Migration: Extraction review queue
+-- PDF extractions held for a reviewer to accept, edit or reject each field before the sample is created,
+-- and the corrections they make, used as few-shot examples by later extractions
+
+CREATE TABLE extraction_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name VARCHAR(255) NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    page_count INTEGER NOT NULL DEFAULT 1,
+
+    -- Extraction summary
+    extraction_method VARCHAR(20) NOT NULL,
+    confidence DECIMAL(4,3) NOT NULL,
+    form_template_id VARCHAR(100), -- Builtin or registered template the form was read with
+    issues TEXT[] NOT NULL DEFAULT '{}',
+
+    -- Lifecycle
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    sample_id UUID REFERENCES nanopore_samples(id) ON DELETE SET NULL,
+    submitted_by VARCHAR(255),
+    reviewed_by VARCHAR(255),
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_extraction_review_status CHECK (status IN ('pending', 'approved', 'rejected'))
+);
+
+CREATE TABLE extraction_review_fields (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    review_id UUID NOT NULL REFERENCES extraction_reviews(id) ON DELETE CASCADE,
+    field_name VARCHAR(50) NOT NULL,
+    extracted_value TEXT, -- Null when a required field was not found
+    confidence DECIMAL(4,3) NOT NULL,
+    source VARCHAR(20) NOT NULL, -- Extraction method the value came from
+
+    -- Where the value was found; the box is a fraction of the page, measured from its top left
+    page_number INTEGER,
+    bounding_box JSONB,
+    context TEXT, -- Line of the form the value was read from
+
+    -- Reviewer decision; confident fields start accepted
+    decision VARCHAR(20) NOT NULL DEFAULT 'pending',
+    final_value TEXT,
+    decided_by VARCHAR(255),
+    decided_at TIMESTAMPTZ,
+
+    CONSTRAINT unique_extraction_review_field UNIQUE (review_id, field_name),
+    CONSTRAINT valid_extraction_review_decision CHECK (decision IN ('pending', 'accepted', 'edited', 'rejected'))
+);
+
+CREATE TABLE extraction_examples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    field_name VARCHAR(50) NOT NULL,
+    context TEXT,
+    extracted_value TEXT,
+    corrected_value TEXT, -- Null when the reviewer rejected the value outright
+    form_template_id VARCHAR(100),
+    review_id UUID REFERENCES extraction_reviews(id) ON DELETE SET NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_reviews_status ON extraction_reviews(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_review_fields_review ON extraction_review_fields(review_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_examples_created ON extraction_examples(created_at DESC);
+
+CREATE TRIGGER set_timestamp_extraction_reviews
+    BEFORE UPDATE ON extraction_reviews
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+-- Comments for documentation
+COMMENT ON TABLE extraction_reviews IS 'PDF submission forms awaiting field review before their sample is created';
+COMMENT ON TABLE extraction_review_fields IS 'Extracted values with confidence and location, and the reviewer decision on each';
+COMMENT ON TABLE extraction_examples IS 'Reviewer corrections given to later LLM extractions as few-shot examples';
@@ -0,0 +1,12 @@
+-- Submitter portal sign-in links can be used once; a redeemed link is recorded until it would have expired anyway
+
+CREATE TABLE portal_link_redemptions (
+    token_hash CHAR(64) PRIMARY KEY, -- SHA-256 of the token, so a leaked table cannot be replayed
+    email VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    redeemed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_link_redemptions_expiry ON portal_link_redemptions(expires_at);
+
+COMMENT ON TABLE portal_link_redemptions IS 'Portal sign-in links already used; rows past expires_at can be pruned';
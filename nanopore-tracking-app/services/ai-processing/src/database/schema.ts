@@ -128,14 +128,16 @@ export async function migrateAIProcessingDatabase(db: Kysely<AIProcessingDatabas
     .addColumn('updated_at', 'timestamp', (col) => col.notNull().defaultTo(sql`now()`))
     .execute()
 
-  // Create vector embeddings table
+  // Create vector embeddings table; the size must match the embedding model, see the reembed script
+  const embeddingDimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '768')
+  await sql`CREATE EXTENSION IF NOT EXISTS vector`.execute(db)
   await db.schema
     .createTable('vector_embeddings')
     .ifNotExists()
     .addColumn('id', 'uuid', (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
     .addColumn('job_id', 'uuid', (col) => col.notNull().references('processing_jobs.id').onDelete('cascade'))
     .addColumn('content', 'text', (col) => col.notNull())
-    .addColumn('embedding', 'vector(1536)', (col) => col.notNull()) // OpenAI embedding dimension
+    .addColumn('embedding', sql`vector(${sql.raw(String(embeddingDimensions))})`, (col) => col.notNull())
     .addColumn('metadata', 'jsonb')
     .addColumn('created_at', 'timestamp', (col) => col.notNull().defaultTo(sql`now()`))
     .addColumn('updated_at', 'timestamp', (col) => col.notNull().defaultTo(sql`now()`))
@@ -312,6 +314,13 @@ export async function migrateAIProcessingDatabase(db: Kysely<AIProcessingDatabas
     .column('job_id')
     .execute()
 
+  await db.schema
+    .createIndex('vector_embeddings_sample_id_idx')
+    .ifNotExists()
+    .on('vector_embeddings')
+    .expression(sql`(metadata->>'sampleId')`)
+    .execute()
+
   await db.schema
     .createIndex('processing_templates_name_idx')
     .ifNotExists()
@@ -20,7 +20,8 @@ import {
   aiExtractionRequestSchema,
   vectorSearchRequestSchema,
   formValidationRequestSchema,
-  ragRequestSchema
+  ragRequestSchema,
+  queryPlanRequestSchema
 } from './types/processing'
 
 // Initialize logger
@@ -201,6 +202,7 @@ app.post('/api/process/pdf', upload.single('file'), async (req, res) => {
     // Process the PDF
     const result = await aiProcessingService.processPDF({
       file: req.file,
+      jobId: job.id,
       sampleId: req.body.sampleId,
       processingType: req.body.processingType || ProcessingType.PDF_EXTRACTION,
       metadata: req.body.metadata ? JSON.parse(req.body.metadata) : undefined
@@ -276,7 +278,8 @@ app.post('/api/search/similar', async (req, res) => {
     const results = await aiProcessingService.searchSimilarDocuments(
       req.body.query,
       req.body.limit,
-      req.body.threshold
+      req.body.threshold,
+      req.body.filters
     )
 
     res.json({ results })
@@ -318,7 +321,7 @@ app.post('/api/rag/answer', async (req, res) => {
       return res.status(400).json({ error: 'Invalid request data', details: validation.error })
     }
 
-    const result = await aiProcessingService.answerQuestion(req.body)
+    const result = await aiProcessingService.answerQuestion(validation.data)
     res.json(result)
   } catch (error) {
     processingErrors.inc({ type: 'rag_question' })
@@ -330,6 +333,26 @@ app.post('/api/rag/answer', async (req, res) => {
   }
 })
 
+// Plan a query over sample fields for the tracking app's query assistant
+app.post('/api/query/plan', async (req, res) => {
+  try {
+    const validation = queryPlanRequestSchema.safeParse(req.body)
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid request data', details: validation.error })
+    }
+
+    const result = await aiProcessingService.planSampleQuery(validation.data)
+    res.json(result)
+  } catch (error) {
+    processingErrors.inc({ type: 'query_plan' })
+    logger.error('Sample query planning failed:', error)
+    res.status(500).json({ 
+      error: 'Sample query planning failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    })
+  }
+})
+
 // Job management endpoints
 
 // Get job by ID
@@ -0,0 +1,36 @@
+import { config } from 'dotenv'
+
+config()
+
+import { closeDatabase } from '../database/connection'
+import { createLLMProvider } from '../services/LLMProvider'
+import { VectorService } from '../services/VectorService'
+
+/**
+ * Recompute every stored embedding with the current AI_EMBEDDING_MODEL
+ * Run after changing the embedding model; set EMBEDDING_DIMENSIONS to the new model's size so later
+ * migrations and collections agree. If the run stops part way, run it again to resume from the snapshot.
+ */
+export async function main(): Promise<void> {
+  const vectors = new VectorService()
+  await vectors.initialize()
+  const llm = createLLMProvider()
+  const snapshotPath = process.env['REEMBED_SNAPSHOT'] || './data/reembed-snapshot.jsonl'
+
+  console.log(`Re-embedding documents in the ${vectors.backend} store with ${llm.name}`)
+  const result = await vectors.reembed(texts => llm.embed(texts), {
+    snapshotPath,
+    batchSize: parseInt(process.env['REEMBED_BATCH_SIZE'] || '16'),
+    onProgress: done => console.log(`  ${done} documents re-embedded`)
+  })
+  console.log(`Re-embedded ${result.documents} documents into ${result.dimensions}-dimensional vectors`)
+}
+
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error('Re-embedding failed:', error)
+      process.exitCode = 1
+    })
+    .finally(() => closeDatabase())
+}
@@ -1,6 +1,8 @@
 import { PDFProcessingService } from './PDFProcessingService'
 import { AIService } from './AIService'
+import { createLLMProvider, llmConfigFromEnv } from './LLMProvider'
 import { VectorService } from './VectorService'
+import { VectorFilter, vectorStoreConfigFromEnv } from './VectorStore'
 import { 
   ProcessingJob, 
   ProcessingResult, 
@@ -11,10 +13,13 @@ import {
   PDFProcessingRequest,
   AIExtractionRequest,
   VectorSearchRequest,
+  VectorSearchResult,
   FormValidationRequest,
   ValidationResult,
   RAGRequest,
-  RAGResult
+  RAGResult,
+  QueryPlanRequest,
+  QueryPlanResult
 } from '../types/processing'
 
 export class AIProcessingService {
@@ -27,8 +32,8 @@ export class AIProcessingService {
     qdrantUrl: string = 'http://localhost:6333'
   ) {
     this.pdfService = new PDFProcessingService()
-    this.aiService = new AIService(ollamaUrl)
-    this.vectorService = new VectorService(qdrantUrl)
+    this.aiService = new AIService(createLLMProvider(llmConfigFromEnv({ ollamaUrl })))
+    this.vectorService = new VectorService(vectorStoreConfigFromEnv({ qdrantUrl }))
   }
 
   /**
@@ -72,14 +77,15 @@ export class AIProcessingService {
       
       // Step 6: Generate embeddings and store in vector database
       const embeddings = await this.aiService.generateEmbeddings(pdfData.text)
-      const vectorId = await this.vectorService.storeEmbeddings(embeddings, {
-        text: pdfData.text,
-        extractedFields: combinedFields,
+      await this.vectorService.storeEmbeddings(embeddings, {
+        content: pdfData.text,
+        jobId: request.jobId,
+        sampleId: request.sampleId,
         metadata: {
+          extractedFields: combinedFields,
           fileName: request.file.originalname,
           fileSize: request.file.size,
           mimeType: request.file.mimetype,
-          sampleId: request.sampleId,
           processingType: request.processingType,
           pages: pdfData.pages,
           ...request.metadata
@@ -122,20 +128,15 @@ export class AIProcessingService {
   async searchSimilarDocuments(
     query: string,
     limit: number = 10,
-    threshold: number = 0.7
-  ): Promise<any[]> {
+    threshold: number = 0.7,
+    filter?: VectorFilter
+  ): Promise<VectorSearchResult[]> {
     try {
       // Generate embeddings for the query
       const queryEmbeddings = await this.aiService.generateEmbeddings(query)
       
       // Search in vector database
-      const results = await this.vectorService.searchByText(query, queryEmbeddings, {
-        query: queryEmbeddings,
-        limit,
-        threshold
-      })
-
-      return results
+      return await this.vectorService.search(queryEmbeddings, { limit, threshold, filter })
     } catch (error) {
       throw new Error(`Similar document search failed: ${error}`)
     }
@@ -171,10 +172,10 @@ export class AIProcessingService {
     try {
       // Search for relevant documents
       const queryEmbeddings = await this.aiService.generateEmbeddings(request.query)
-      const searchResults = await this.vectorService.searchByText(request.query, queryEmbeddings, {
-        query: queryEmbeddings,
+      const searchResults = await this.vectorService.search(queryEmbeddings, {
         limit: request.maxResults,
-        threshold: request.threshold
+        threshold: request.threshold,
+        filter: request.filters
       })
 
       // Build context from search results
@@ -186,7 +187,13 @@ export class AIProcessingService {
       return {
         answer: answer.answer,
         confidence: answer.confidence,
-        sources: searchResults.map(result => result.payload.text || result.payload.title || 'Unknown source'),
+        sources: searchResults.map(result => ({
+          id: result.id,
+          title: result.payload['fileName'] || result.id,
+          content: result.payload['text'] || '',
+          score: result.score,
+          ...(result.metadata && { metadata: result.metadata })
+        })),
         processingTime: answer.processingTime
       }
     } catch (error) {
@@ -194,6 +201,13 @@ export class AIProcessingService {
     }
   }
 
+  /**
+   * Plan a query over the caller's sample fields; no documents are retrieved
+   */
+  async planSampleQuery(request: QueryPlanRequest): Promise<QueryPlanResult> {
+    return await this.aiService.planSampleQuery(request)
+  }
+
   /**
    * Get processing statistics
    */
@@ -254,7 +268,7 @@ export class AIProcessingService {
     try {
       services.vector = await this.vectorService.checkHealth()
       if (!services.vector) {
-        details.push('Vector database (Qdrant) is not responding')
+        details.push(`Vector store (${this.vectorService.backend}) is not responding`)
       }
     } catch (error) {
       details.push(`Vector service error: ${error}`)
@@ -1,14 +1,18 @@
-import axios from 'axios'
-import { ExtractedField, ConfidenceLevel, AIExtractionRequest } from '../types/processing'
+import { ExtractedField, ConfidenceLevel, AIExtractionRequest, QueryPlanRequest, QueryPlanResult } from '../types/processing'
+import { LLMProvider, createLLMProvider, parseJsonOutput } from './LLMProvider'
+import {
+  DEFAULT_EXTRACTION_FIELDS,
+  extractionPrompt,
+  extractionResponseSchema,
+  ragAnswerPrompt,
+  renderPrompt,
+  sampleQueryPlanPrompt,
+  validationPrompt,
+  validationResponseSchema
+} from './PromptTemplates'
 
 export class AIService {
-  private ollamaUrl: string
-  private defaultModel: string
-
-  constructor(ollamaUrl: string = 'http://localhost:11434', defaultModel: string = 'llama2') {
-    this.ollamaUrl = ollamaUrl
-    this.defaultModel = defaultModel
-  }
+  constructor(private readonly llm: LLMProvider = createLLMProvider()) {}
 
   /**
    * Extract structured data from text using AI
@@ -22,15 +26,13 @@ export class AIService {
     const startTime = Date.now()
 
     try {
-      const prompt = this.buildExtractionPrompt(request.text, request.extractionPrompt, request.fields)
-      
-      const response = await this.callOllama(prompt, {
-        model: this.defaultModel,
-        temperature: 0.1,
-        max_tokens: 1000
-      })
+      const response = await this.llm.chat(renderPrompt(extractionPrompt, {
+        text: request.text,
+        instructions: request.extractionPrompt || 'Extract the following fields from this scientific document:',
+        fields: request.fields || DEFAULT_EXTRACTION_FIELDS
+      }))
 
-      const extractedFields = this.parseAIResponse(response.response, request.fields)
+      const extractedFields = this.parseAIResponse(response)
       const processingTime = Date.now() - startTime
       const confidence = this.calculateOverallConfidence(extractedFields)
 
@@ -38,7 +40,7 @@ export class AIService {
         extractedFields,
         confidence,
         processingTime,
-        model: this.defaultModel
+        model: this.llm.model
       }
     } catch (error) {
       throw new Error(`AI extraction failed: ${error}`)
@@ -50,18 +52,11 @@ export class AIService {
    */
   async generateEmbeddings(text: string): Promise<number[]> {
     try {
-      // For now, we'll use a simple embedding approach
-      // In production, you'd want to use a proper embedding model
-      const response = await this.callOllama(text, {
-        model: 'llama2',
-        temperature: 0,
-        max_tokens: 1,
-        embeddings: true
-      })
-
-      // Parse embeddings from response
-      // This is a placeholder - actual implementation depends on Ollama's embedding format
-      return this.parseEmbeddings(response)
+      const [embedding] = await this.llm.embed([text])
+      if (!embedding) {
+        throw new Error(`${this.llm.name} returned no embedding`)
+      }
+      return embedding
     } catch (error) {
       throw new Error(`Failed to generate embeddings: ${error}`)
     }
@@ -77,15 +72,11 @@ export class AIService {
     suggestions: string[]
   }> {
     try {
-      const validationPrompt = this.buildValidationPrompt(fields)
-      
-      const response = await this.callOllama(validationPrompt, {
-        model: this.defaultModel,
-        temperature: 0.1,
-        max_tokens: 500
-      })
+      const response = await this.llm.chat(renderPrompt(validationPrompt, {
+        fields: fields.map(f => `${f.fieldName}: ${f.value}`).join('\n')
+      }))
 
-      return this.parseValidationResponse(response.response)
+      return this.parseValidationResponse(response)
     } catch (error) {
       throw new Error(`AI validation failed: ${error}`)
     }
@@ -103,19 +94,13 @@ export class AIService {
     const startTime = Date.now()
 
     try {
-      const ragPrompt = this.buildRAGPrompt(question, context)
-      
-      const response = await this.callOllama(ragPrompt, {
-        model: this.defaultModel,
-        temperature: 0.2,
-        max_tokens: 800
-      })
+      const answer = await this.llm.chat(renderPrompt(ragAnswerPrompt, { question, context }))
 
       const processingTime = Date.now() - startTime
-      const confidence = this.calculateAnswerConfidence(response.response)
+      const confidence = this.calculateAnswerConfidence(answer)
 
       return {
-        answer: response.response,
+        answer,
         confidence,
         sources: [context], // In a real RAG system, you'd return actual sources
         processingTime
@@ -126,131 +111,48 @@ export class AIService {
   }
 
   /**
-   * Build extraction prompt for AI
-   */
-  private buildExtractionPrompt(text: string, customPrompt?: string, fields?: string[]): string {
-    const defaultFields = [
-      'sample_name',
-      'project_id',
-      'submitter_name',
-      'submitter_email',
-      'lab_name',
-      'sample_type',
-      'sample_buffer',
-      'concentration',
-      'volume',
-      'total_amount',
-      'flow_cell_type',
-      'flow_cell_count',
-      'priority',
-      'chart_field'
-    ]
-
-    const targetFields = fields || defaultFields
-    const prompt = customPrompt || 'Extract the following fields from this scientific document:'
-
-    return `
-${prompt}
-
-Target fields: ${targetFields.join(', ')}
-
-Document text:
-${text}
-
-Please extract the requested fields and return them in JSON format like this:
-{
-  "sample_name": "extracted value",
-  "project_id": "extracted value",
-  ...
-}
-
-If a field is not found, use null. Be as accurate as possible and maintain the original format of values.
-`
-  }
-
-  /**
-   * Build validation prompt for AI
+   * Turn a question about samples into a JSON query plan over the caller's fields
+   * The plan is returned as the model wrote it; the caller checks it against its own whitelist before running it.
    */
-  private buildValidationPrompt(fields: ExtractedField[]): string {
-    const fieldsText = fields.map(f => `${f.fieldName}: ${f.value}`).join('\n')
-
-    return `
-Please validate the following extracted data from a nanopore sample form:
-
-${fieldsText}
-
-Please check for:
-1. Missing required fields
-2. Invalid formats (email, numbers, etc.)
-3. Logical inconsistencies
-4. Data quality issues
-
-Return your validation in JSON format:
-{
-  "isValid": true/false,
-  "errors": ["error1", "error2"],
-  "suggestions": ["suggestion1", "suggestion2"],
-  "confidence": 0.0-1.0
-}
-`
-  }
-
-  /**
-   * Build RAG prompt for question answering
-   */
-  private buildRAGPrompt(question: string, context: string): string {
-    return `
-Based on the following context, please answer the question:
-
-Context:
-${context}
-
-Question: ${question}
-
-Please provide a clear, accurate answer based only on the information in the context. If the context doesn't contain enough information to answer the question, say so.
-`
-  }
+  async planSampleQuery(request: QueryPlanRequest): Promise<QueryPlanResult> {
+    const startTime = Date.now()
 
-  /**
-   * Call Ollama API
-   */
-  private async callOllama(prompt: string, options: any = {}): Promise<any> {
     try {
-      const response = await axios.post(`${this.ollamaUrl}/api/generate`, {
-        model: options.model || this.defaultModel,
-        prompt,
-        temperature: options.temperature || 0.1,
-        max_tokens: options.max_tokens || 1000,
-        stream: false,
-        ...options
-      }, {
-        timeout: 30000 // 30 second timeout
+      const fields = request.fields.map(field => {
+        const values = field.values ? ` (${field.values.join(' | ')})` : ''
+        const hint = field.hint ? ` - ${field.hint}` : ''
+        return `- ${field.name}: ${field.type}${values}${hint}; operators ${field.operators.join(', ')}`
       })
+      const answer = await this.llm.chat(renderPrompt(sampleQueryPlanPrompt, {
+        question: request.question,
+        today: request.today,
+        fields: fields.join('\n')
+      }))
 
-      return response.data
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Ollama API error: ${error.response?.data?.error || error.message}`)
+      return {
+        answer,
+        model: this.llm.model,
+        prompt: `${sampleQueryPlanPrompt.id}@${sampleQueryPlanPrompt.version}`,
+        processingTime: Date.now() - startTime
       }
-      throw error
+    } catch (error) {
+      throw new Error(`Sample query planning failed: ${error}`)
     }
   }
 
   /**
    * Parse AI response into structured data
    */
-  private parseAIResponse(response: string, expectedFields?: string[]): ExtractedField[] {
+  private parseAIResponse(response: string): ExtractedField[] {
     const extractedFields: ExtractedField[] = []
 
     try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0])
-        
+      if (/\{[\s\S]*\}/.test(response)) {
+        const data = parseJsonOutput(response, extractionResponseSchema, `${extractionPrompt.id}@${extractionPrompt.version}`)
+
         for (const [fieldName, value] of Object.entries(data)) {
           if (value !== null && value !== undefined && value !== '') {
-            const confidence = this.calculateFieldConfidence(value as string, fieldName)
+            const confidence = this.calculateFieldConfidence(String(value), fieldName)
             
             extractedFields.push({
               fieldName,
@@ -277,7 +179,7 @@ Please provide a clear, accurate answer based only on the information in the con
         }
       }
     } catch (error) {
-      console.warn('Failed to parse AI response as JSON, using fallback parsing')
+      console.warn(`Failed to parse AI response as JSON (${error instanceof Error ? error.message : error}), using fallback parsing`)
       // Use fallback parsing
       const pairs = this.extractKeyValuePairs(response)
       for (const [fieldName, value] of pairs) {
@@ -305,7 +207,7 @@ Please provide a clear, accurate answer based only on the information in the con
     
     for (const line of lines) {
       const match = line.match(/^([^:]+):\s*(.+)$/)
-      if (match) {
+      if (match && match[1] && match[2]) {
         const fieldName = match[1].trim().toLowerCase().replace(/\s+/g, '_')
         const value = match[2].trim()
         if (value && value !== 'null' && value !== 'undefined') {
@@ -327,18 +229,9 @@ Please provide a clear, accurate answer based only on the information in the con
     suggestions: string[]
   } {
     try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0])
-        return {
-          isValid: data.isValid || false,
-          confidence: data.confidence || 0.5,
-          errors: data.errors || [],
-          suggestions: data.suggestions || []
-        }
-      }
+      return parseJsonOutput(response, validationResponseSchema, `${validationPrompt.id}@${validationPrompt.version}`)
     } catch (error) {
-      console.warn('Failed to parse validation response as JSON')
+      console.warn(`Failed to parse validation response as JSON (${error instanceof Error ? error.message : error})`)
     }
 
     // Fallback parsing
@@ -358,25 +251,6 @@ Please provide a clear, accurate answer based only on the information in the con
     }
   }
 
-  /**
-   * Parse embeddings from Ollama response
-   */
-  private parseEmbeddings(response: any): number[] {
-    // This is a placeholder implementation
-    // Actual implementation depends on Ollama's embedding format
-    if (response.embeddings) {
-      return response.embeddings
-    }
-    
-    // Fallback: generate simple embeddings based on text length
-    const text = response.response || ''
-    const embedding = new Array(1536).fill(0)
-    for (let i = 0; i < Math.min(text.length, 1536); i++) {
-      embedding[i] = text.charCodeAt(i) / 255
-    }
-    return embedding
-  }
-
   /**
    * Calculate confidence for a single field
    */
@@ -449,27 +323,21 @@ Please provide a clear, accurate answer based only on the information in the con
   }
 
   /**
-   * Check if Ollama service is available
+   * Check if the configured model server is available
    */
   async checkHealth(): Promise<boolean> {
-    try {
-      await axios.get(`${this.ollamaUrl}/api/tags`, { timeout: 5000 })
-      return true
-    } catch (error) {
-      return false
-    }
+    return await this.llm.isAvailable()
   }
 
   /**
-   * Get available models from Ollama
+   * Get available models from the configured provider
    */
   async getAvailableModels(): Promise<string[]> {
     try {
-      const response = await axios.get(`${this.ollamaUrl}/api/tags`)
-      return response.data.models?.map((model: any) => model.name) || []
+      return await this.llm.listModels()
     } catch (error) {
-      console.warn('Failed to get available models from Ollama')
-      return [this.defaultModel]
+      console.warn(`Failed to get available models from ${this.llm.name}`)
+      return [this.llm.model]
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+  cosineSimilarity,
+  matchesFilter
+} from './VectorStore'
+
+interface StoredRecord extends Omit<VectorRecord, 'vector'> {
+  vector: Float32Array
+}
+
+interface EmbeddedIndexFile {
+  dimensions: number
+  records: Array<Omit<VectorRecord, 'vector'> & { vector: number[] }>
+}
+
+/**
+ * In-process flat index saved to a JSON file
+ * Search compares the query with every stored vector, which is exact and fast enough for the few thousand documents
+ * a single-node deployment holds. Writes replace the file atomically so a crash leaves the previous version.
+ */
+export class EmbeddedVectorStore implements VectorStore {
+  readonly name = 'embedded'
+  private records = new Map<string, StoredRecord>()
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string, private dimensions: number) {}
+
+  async initialize(): Promise<void> {
+    let file: EmbeddedIndexFile
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw new Error(`Failed to load vector index ${this.filePath}: ${error}`)
+    }
+
+    this.dimensions = file.dimensions
+    this.records = new Map(file.records.map(record => [record.id, { ...record, vector: Float32Array.from(record.vector) }]))
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      if (record.vector.length !== this.dimensions) {
+        throw new Error(`Vector for ${record.id} has ${record.vector.length} dimensions, the index expects ${this.dimensions}`)
+      }
+    }
+    for (const record of records) {
+      this.records.set(record.id, { ...record, vector: Float32Array.from(record.vector) })
+    }
+    await this.persist()
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = []
+    for (const { vector, ...record } of this.records.values()) {
+      if (!matchesFilter(record, query.filter)) continue
+      const score = cosineSimilarity(query.vector, vector)
+      if (query.threshold === undefined || score >= query.threshold) {
+        matches.push({ ...record, score })
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.limit)
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) this.records.delete(id)
+    await this.persist()
+  }
+
+  async scroll(cursor: string | null, limit: number): Promise<{ records: Omit<VectorRecord, 'vector'>[]; next: string | null }> {
+    const ids = [...this.records.keys()].sort()
+    const start = cursor === null ? 0 : ids.findIndex(id => id > cursor)
+    const page = start === -1 ? [] : ids.slice(start, start + limit)
+    return {
+      records: page.map(id => {
+        const { vector, ...record } = this.records.get(id)!
+        return record
+      }),
+      next: page.length === limit && start + limit < ids.length ? page[page.length - 1]! : null
+    }
+  }
+
+  async reset(dimensions: number): Promise<void> {
+    this.records.clear()
+    this.dimensions = dimensions
+    await this.persist()
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    return { totalPoints: this.records.size, vectorSize: this.dimensions, indexedVectors: this.records.size }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true
+  }
+
+  private persist(): Promise<void> {
+    // Chain writes so overlapping upserts cannot interleave on disk; a failed write does not block later ones
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      const file: EmbeddedIndexFile = {
+        dimensions: this.dimensions,
+        records: [...this.records.values()].map(record => ({ ...record, vector: Array.from(record.vector) }))
+      }
+      const temporary = `${this.filePath}.${process.pid}.tmp`
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(temporary, JSON.stringify(file))
+      await fs.rename(temporary, this.filePath)
+    })
+    return this.writes
+  }
+}
@@ -0,0 +1,311 @@
+import axios from 'axios'
+import { readFileSync, writeFileSync, existsSync } from 'fs'
+import { createHash } from 'crypto'
+import { z } from 'zod'
+
+/**
+ * Language model drivers for the AI processing service
+ * Ollama, any OpenAI-compatible server (llama.cpp, vLLM) and a replay stub share one interface, so AIService
+ * does not care which one AI_PROVIDER selects.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  messages: ChatMessage[]
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  // Versioned prompt the messages came from; the replay driver keys recordings on it
+  prompt?: { id: string; version: number; variables: Record<string, unknown> }
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly model: string
+  isAvailable(): Promise<boolean>
+  listModels(): Promise<string[]>
+  chat(request: LLMRequest): Promise<string>
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface LLMProviderConfig {
+  provider: 'ollama' | 'openai-compatible' | 'replay'
+  ollamaUrl: string
+  baseUrl: string
+  apiKey: string
+  model: string
+  embeddingModel: string
+  // Vector size the replay driver produces; real models have a fixed size of their own
+  embeddingDimensions: number
+  replayFile: string
+  timeout: number
+}
+
+// The parts of the Ollama and OpenAI-compatible REST APIs the drivers use
+interface OllamaTags {
+  models?: Array<{ name: string }>
+}
+
+interface OllamaChatResponse {
+  message: { content: string }
+}
+
+interface OllamaEmbedResponse {
+  embeddings: number[][]
+}
+
+interface OpenAIModelList {
+  data?: Array<{ id: string }>
+}
+
+interface OpenAIChatCompletion {
+  choices: Array<{ message?: { content?: string | null } }>
+}
+
+interface OpenAIEmbeddingList {
+  data: Array<{ index: number; embedding: number[] }>
+}
+
+// Ollama answers errors with a string, OpenAI-compatible servers with an object
+interface ErrorBody {
+  error?: string | { message?: string }
+}
+
+function describeAxiosError(provider: string, error: unknown): Error {
+  if (axios.isAxiosError<ErrorBody>(error)) {
+    const body = error.response?.data?.error
+    const detail = (typeof body === 'string' ? body : body?.message) || error.message
+    return new Error(`${provider} API error: ${detail}`)
+  }
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama'
+
+  constructor(private readonly url: string, readonly model: string, private readonly embeddingModel: string, private readonly timeout = 30000) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await axios.get(`${this.url}/api/tags`, { timeout: 5000 })
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await axios.get<OllamaTags>(`${this.url}/api/tags`, { timeout: 5000 })
+    return response.data.models?.map(model => model.name) || []
+  }
+
+  async chat(request: LLMRequest): Promise<string> {
+    try {
+      const response = await axios.post<OllamaChatResponse>(`${this.url}/api/chat`, {
+        model: request.model || this.model,
+        messages: request.messages,
+        stream: false,
+        ...(request.json && { format: 'json' }),
+        options: { temperature: request.temperature ?? 0.1, num_predict: request.maxTokens ?? 1000 }
+      }, { timeout: this.timeout })
+      return response.data.message.content
+    } catch (error) {
+      throw describeAxiosError('Ollama', error)
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post<OllamaEmbedResponse>(`${this.url}/api/embed`, { model: this.embeddingModel, input: texts }, { timeout: this.timeout })
+      return response.data.embeddings
+    } catch (error) {
+      throw describeAxiosError('Ollama', error)
+    }
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible'
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    readonly model: string,
+    private readonly embeddingModel: string,
+    private readonly timeout = 30000
+  ) {}
+
+  private get headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.listModels()
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await axios.get<OpenAIModelList>(`${this.baseUrl}/models`, { headers: this.headers, timeout: 5000 })
+    return response.data.data?.map(model => model.id) || []
+  }
+
+  async chat(request: LLMRequest): Promise<string> {
+    try {
+      const response = await axios.post<OpenAIChatCompletion>(`${this.baseUrl}/chat/completions`, {
+        model: request.model || this.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.1,
+        max_tokens: request.maxTokens ?? 1000,
+        ...(request.json && { response_format: { type: 'json_object' } })
+      }, { headers: this.headers, timeout: this.timeout })
+      return response.data.choices[0]?.message?.content || ''
+    } catch (error) {
+      throw describeAxiosError('OpenAI-compatible server', error)
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post<OpenAIEmbeddingList>(`${this.baseUrl}/embeddings`, { model: this.embeddingModel, input: texts }, { headers: this.headers, timeout: this.timeout })
+      return [...response.data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+    } catch (error) {
+      throw describeAxiosError('OpenAI-compatible server', error)
+    }
+  }
+}
+
+interface Recording {
+  key: string
+  prompt: string | null
+  response: string
+}
+
+/**
+ * Answers from a recordings file; with a live provider to record from, misses are asked and written back
+ * Embeddings are hashed from the words of each text so vector search works without a model.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay'
+  readonly model = 'replay'
+  private recordings = new Map<string, Recording>()
+
+  constructor(private readonly file: string, private readonly upstream?: LLMProvider, private readonly dimensions = 768) {
+    if (existsSync(file)) {
+      for (const recording of JSON.parse(readFileSync(file, 'utf8')) as Recording[]) {
+        this.recordings.set(recording.key, recording)
+      }
+    }
+  }
+
+  static key(request: LLMRequest): string {
+    const material = request.prompt
+      ? { prompt: `${request.prompt.id}@${request.prompt.version}`, variables: request.prompt.variables }
+      : { messages: request.messages, json: Boolean(request.json) }
+    return createHash('sha256').update(JSON.stringify(material)).digest('hex').slice(0, 16)
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async listModels(): Promise<string[]> {
+    return [this.model]
+  }
+
+  async chat(request: LLMRequest): Promise<string> {
+    const key = ReplayProvider.key(request)
+    const prompt = request.prompt ? `${request.prompt.id}@${request.prompt.version}` : null
+    const recorded = this.recordings.get(key)
+    if (recorded) return recorded.response
+
+    if (!this.upstream) {
+      throw new Error(`No recorded response for ${prompt || 'this chat'} (key ${key}) in ${this.file}`)
+    }
+    const response = await this.upstream.chat(request)
+    this.recordings.set(key, { key, prompt, response })
+    writeFileSync(this.file, JSON.stringify([...this.recordings.values()], null, 2) + '\n')
+    return response
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.dimensions).fill(0)
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        const hash = createHash('md5').update(word).digest().readUInt32BE(0)
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1
+      }
+      const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+      return length === 0 ? vector : vector.map(value => value / length)
+    })
+  }
+}
+
+export function llmConfigFromEnv(overrides: Partial<LLMProviderConfig> = {}): LLMProviderConfig {
+  return {
+    provider: (process.env['AI_PROVIDER'] as LLMProviderConfig['provider']) || 'ollama',
+    ollamaUrl: process.env['OLLAMA_URL'] || 'http://localhost:11434',
+    baseUrl: process.env['AI_BASE_URL'] || 'http://localhost:8080/v1',
+    apiKey: process.env['AI_API_KEY'] || '',
+    model: process.env['OLLAMA_MODEL'] || 'llama2',
+    embeddingModel: process.env['AI_EMBEDDING_MODEL'] || 'nomic-embed-text',
+    embeddingDimensions: parseInt(process.env['EMBEDDING_DIMENSIONS'] || '768'),
+    replayFile: process.env['AI_REPLAY_FILE'] || './llm-recordings.json',
+    timeout: parseInt(process.env['AI_TIMEOUT'] || '30000'),
+    ...overrides
+  }
+}
+
+/**
+ * Build the driver named by AI_PROVIDER; AI_RECORD=true makes the replay driver record from Ollama on a miss
+ */
+export function createLLMProvider(config: LLMProviderConfig = llmConfigFromEnv()): LLMProvider {
+  const ollama = () => new OllamaProvider(config.ollamaUrl, config.model, config.embeddingModel, config.timeout)
+
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config.baseUrl.replace(/\/+$/, ''), config.apiKey, config.model, config.embeddingModel, config.timeout)
+    case 'replay':
+      return new ReplayProvider(config.replayFile, process.env['AI_RECORD'] === 'true' ? ollama() : undefined, config.embeddingDimensions)
+    default:
+      return ollama()
+  }
+}
+
+/**
+ * Pull the JSON object out of a model answer, tolerating code fences, prose and trailing commas
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new Error('No JSON object found in the response')
+  }
+  const candidate = unfenced.slice(start, end + 1)
+  try {
+    return JSON.parse(candidate)
+  } catch (error) {
+    return JSON.parse(candidate.replace(/[“”]/g, '"').replace(/,\s*([}\]])/g, '$1'))
+  }
+}
+
+/**
+ * Parse a JSON answer and check it against the prompt's schema
+ */
+export function parseJsonOutput<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, prompt: string): T {
+  const parsed = schema.safeParse(extractJson(text))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'value'} ${issue.message.toLowerCase()}`)
+    throw new Error(`${prompt}: response does not match the expected shape (${issues.join('; ')})`)
+  }
+  return parsed.data
+}
@@ -0,0 +1,138 @@
+import { Kysely, RawBuilder, sql } from 'kysely'
+import { AIProcessingDatabase } from '../database/schema'
+import { VectorMatch, VectorQuery, VectorRecord, VectorStore, VectorStoreStats } from './VectorStore'
+
+interface EmbeddingRow {
+  id: string
+  job_id: string
+  content: string
+  metadata: Record<string, unknown> | string | null
+}
+
+const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`
+const asList = (value: string | string[]) => (Array.isArray(value) ? value : [value])
+
+/**
+ * The vector_embeddings table in the service's own Postgres, searched with pgvector's cosine distance
+ * Rows belong to a processing job; the sample id is kept in metadata.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector'
+
+  constructor(private readonly db: Kysely<AIProcessingDatabase>) {}
+
+  async initialize(): Promise<void> {
+    // The table and extension are created by the database migration
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const orphan = records.find(record => !record.jobId)
+    if (orphan) {
+      throw new Error(`Vector ${orphan.id} has no job id; pgvector rows must belong to a processing job`)
+    }
+
+    await this.db.transaction().execute(async (trx) => {
+      for (const record of records) {
+        const metadata = { ...record.metadata, ...(record.sampleId && { sampleId: record.sampleId }) }
+        await sql`
+          INSERT INTO vector_embeddings (id, job_id, content, embedding, metadata)
+          VALUES (${record.id}, ${record.jobId}, ${record.content}, ${toVectorLiteral(record.vector)}::vector, ${JSON.stringify(metadata)}::jsonb)
+          ON CONFLICT (id) DO UPDATE SET
+            content = EXCLUDED.content,
+            embedding = EXCLUDED.embedding,
+            metadata = EXCLUDED.metadata,
+            updated_at = now()
+        `.execute(trx)
+      }
+    })
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    const vector = toVectorLiteral(query.vector)
+    const conditions: RawBuilder<unknown>[] = [sql`true`]
+    if (query.filter?.jobId !== undefined) {
+      conditions.push(sql`job_id = ANY(${asList(query.filter.jobId)}::uuid[])`)
+    }
+    if (query.filter?.sampleId !== undefined) {
+      conditions.push(sql`metadata->>'sampleId' = ANY(${asList(query.filter.sampleId)}::text[])`)
+    }
+    if (query.threshold !== undefined) {
+      conditions.push(sql`1 - (embedding <=> ${vector}::vector) >= ${query.threshold}`)
+    }
+
+    try {
+      const result = await sql<EmbeddingRow & { score: number }>`
+        SELECT id, job_id, content, metadata, 1 - (embedding <=> ${vector}::vector) AS score
+        FROM vector_embeddings
+        WHERE ${sql.join(conditions, sql` AND `)}
+        ORDER BY embedding <=> ${vector}::vector
+        LIMIT ${query.limit}
+      `.execute(this.db)
+
+      return result.rows.map(row => ({ ...this.fromRow(row), score: Number(row.score) }))
+    } catch (error) {
+      throw new Error(`Vector search failed: ${error}`)
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    await this.db.deleteFrom('vector_embeddings').where('id', 'in', ids).execute()
+  }
+
+  async scroll(cursor: string | null, limit: number): Promise<{ records: Omit<VectorRecord, 'vector'>[]; next: string | null }> {
+    let query = this.db
+      .selectFrom('vector_embeddings')
+      .select(['id', 'job_id', 'content', 'metadata'])
+      .orderBy('id')
+      .limit(limit)
+    if (cursor !== null) {
+      query = query.where('id', '>', cursor)
+    }
+
+    const rows = await query.execute()
+    return {
+      records: rows.map(row => this.fromRow(row as EmbeddingRow)),
+      next: rows.length === limit ? rows[rows.length - 1]!.id : null
+    }
+  }
+
+  async reset(dimensions: number): Promise<void> {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Invalid embedding dimensions: ${dimensions}`)
+    }
+    await this.db.transaction().execute(async (trx) => {
+      await sql`TRUNCATE vector_embeddings`.execute(trx)
+      await sql`ALTER TABLE vector_embeddings ALTER COLUMN embedding TYPE vector(${sql.raw(String(dimensions))})`.execute(trx)
+    })
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    const count = await this.db
+      .selectFrom('vector_embeddings')
+      .select(sql<string>`count(*)`.as('count'))
+      .executeTakeFirstOrThrow()
+    // pgvector stores the declared dimension as the column's type modifier
+    const column = await sql<{ dimensions: number }>`
+      SELECT atttypmod AS dimensions FROM pg_attribute
+      WHERE attrelid = 'vector_embeddings'::regclass AND attname = 'embedding'
+    `.execute(this.db)
+
+    const totalPoints = Number(count.count)
+    return { totalPoints, vectorSize: column.rows[0]?.dimensions ?? 0, indexedVectors: totalPoints }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await sql`SELECT 1 FROM vector_embeddings LIMIT 1`.execute(this.db)
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  private fromRow(row: EmbeddingRow): Omit<VectorRecord, 'vector'> {
+    const { sampleId, ...metadata } = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata ?? {}
+    return { id: row.id, content: row.content, jobId: row.job_id, sampleId, metadata }
+  }
+}
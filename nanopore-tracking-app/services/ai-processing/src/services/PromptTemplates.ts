@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import { LLMRequest } from './LLMProvider'
+
+/**
+ * Versioned prompts used by AIService
+ * Bump the version whenever the wording changes so recorded responses are not replayed against a different prompt.
+ */
+
+export interface PromptTemplate<V extends Record<string, unknown>> {
+  id: string
+  version: number
+  temperature: number
+  maxTokens: number
+  json: boolean
+  render(variables: V): string
+}
+
+export const DEFAULT_EXTRACTION_FIELDS = [
+  'sample_name',
+  'project_id',
+  'submitter_name',
+  'submitter_email',
+  'lab_name',
+  'sample_type',
+  'sample_buffer',
+  'concentration',
+  'volume',
+  'total_amount',
+  'flow_cell_type',
+  'flow_cell_count',
+  'priority',
+  'chart_field'
+]
+
+// Field name to extracted value; numbers are kept as text and nulls mean "not found"
+export const extractionResponseSchema = z.record(z.union([z.string(), z.number(), z.boolean()]).nullable())
+
+export const validationResponseSchema = z.object({
+  isValid: z.boolean(),
+  errors: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1).default(0.5)
+})
+
+export const extractionPrompt: PromptTemplate<{ text: string; instructions: string; fields: string[] }> = {
+  id: 'document-field-extraction',
+  version: 1,
+  temperature: 0.1,
+  maxTokens: 1000,
+  json: true,
+  render: ({ text, instructions, fields }) => `
+${instructions}
+
+Target fields: ${fields.join(', ')}
+
+Document text:
+${text}
+
+Please extract the requested fields and return them in JSON format like this:
+{
+  "sample_name": "extracted value",
+  "project_id": "extracted value",
+  ...
+}
+
+If a field is not found, use null. Be as accurate as possible and maintain the original format of values.
+`
+}
+
+export const validationPrompt: PromptTemplate<{ fields: string }> = {
+  id: 'extracted-data-validation',
+  version: 1,
+  temperature: 0.1,
+  maxTokens: 500,
+  json: true,
+  render: ({ fields }) => `
+Please validate the following extracted data from a nanopore sample form:
+
+${fields}
+
+Please check for:
+1. Missing required fields
+2. Invalid formats (email, numbers, etc.)
+3. Logical inconsistencies
+4. Data quality issues
+
+Return your validation in JSON format:
+{
+  "isValid": true/false,
+  "errors": ["error1", "error2"],
+  "suggestions": ["suggestion1", "suggestion2"],
+  "confidence": 0.0-1.0
+}
+`
+}
+
+export const ragAnswerPrompt: PromptTemplate<{ question: string; context: string }> = {
+  id: 'rag-answer',
+  version: 1,
+  temperature: 0.2,
+  maxTokens: 800,
+  json: false,
+  render: ({ question, context }) => `
+Based on the following context, please answer the question:
+
+Context:
+${context}
+
+Question: ${question}
+
+Please provide a clear, accurate answer based only on the information in the context. If the context doesn't contain enough information to answer the question, say so.
+`
+}
+
+export const sampleQueryPlanPrompt: PromptTemplate<{ question: string; today: string; fields: string }> = {
+  id: 'sample-query-plan',
+  version: 1,
+  temperature: 0,
+  maxTokens: 800,
+  json: true,
+  render: ({ question, today, fields }) => `
+You translate questions from nanopore sequencing lab staff into query plans over their sample tracking database.
+Today is ${today}.
+
+Fields you may filter on:
+${fields}
+
+Return a JSON object:
+{
+  "filters": [{ "field": "<field>", "op": "<operator>", "value": <value> }],
+  "steps": [{ "name": "<processing step name>", "status": "pending|in_progress|completed|failed|skipped" }],
+  "output": "list|count|groupBy",
+  "groupBy": "<field to group by, only with groupBy>",
+  "sort": { "field": "<field>", "direction": "asc|desc" },
+  "limit": <number of samples to list, at most 200>
+}
+
+Rules:
+1. Use only the fields and operators listed above; leave out anything the fields cannot express
+2. "in" takes a list of values, "isNull" and "notNull" take no value, every other operator takes one value
+3. olderThanDays and withinDays take a number of days, before and after take a date such as 2026-01-31
+4. A sample "stuck in prep for more than N days" has status prep and startedAt olderThanDays N
+5. Use "count" for "how many" questions and "groupBy" for "by lab", "per status" and similar breakdowns
+6. Lab and person names are matched with "contains" on the name alone, e.g. "Smith" for "the Smith lab"
+7. Return valid JSON only
+
+Question: ${question}
+
+JSON Response:
+`
+}
+
+export function renderPrompt<V extends Record<string, unknown>>(template: PromptTemplate<V>, variables: V): LLMRequest {
+  return {
+    messages: [{ role: 'user', content: template.render(variables) }],
+    temperature: template.temperature,
+    maxTokens: template.maxTokens,
+    json: template.json,
+    prompt: { id: template.id, version: template.version, variables }
+  }
+}
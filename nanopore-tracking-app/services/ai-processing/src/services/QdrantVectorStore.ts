@@ -0,0 +1,198 @@
+import axios from 'axios'
+import { VectorFilter, VectorMatch, VectorQuery, VectorRecord, VectorStore, VectorStoreStats } from './VectorStore'
+
+interface QdrantPayload {
+  text: string
+  job_id?: string
+  sample_id?: string
+  metadata: Record<string, unknown>
+}
+
+// The parts of Qdrant's REST API this store uses; every response wraps its data in `result`
+interface QdrantResponse<T> {
+  result: T
+}
+
+interface QdrantPoint {
+  id: string | number
+  payload: QdrantPayload
+}
+
+interface QdrantScoredPoint extends QdrantPoint {
+  score: number
+}
+
+interface QdrantCondition {
+  key: 'job_id' | 'sample_id'
+  match: { value: string } | { any: string[] }
+}
+
+interface QdrantFilter {
+  must: QdrantCondition[]
+}
+
+interface QdrantCollectionInfo {
+  points_count: number
+  indexed_vectors_count: number
+  config: { params: { vectors: { size: number } } }
+}
+
+/**
+ * Qdrant collection with job_id and sample_id payload fields for filtering
+ */
+export class QdrantVectorStore implements VectorStore {
+  readonly name = 'qdrant'
+
+  constructor(private readonly url: string, private readonly collection: string, private readonly dimensions: number) {}
+
+  private get collectionUrl(): string {
+    return `${this.url}/collections/${this.collection}`
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const response = await axios.get<QdrantResponse<{ collections: Array<{ name: string }> }>>(`${this.url}/collections`)
+      const collections = response.data.result.collections.map(collection => collection.name)
+      if (!collections.includes(this.collection)) {
+        await this.createCollection(this.dimensions)
+      }
+    } catch (error) {
+      throw new Error(`Failed to initialize Qdrant collection ${this.collection}: ${error}`)
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return
+    try {
+      await axios.put(`${this.collectionUrl}/points?wait=true`, {
+        points: records.map(record => ({ id: record.id, vector: record.vector, payload: this.toPayload(record) }))
+      })
+    } catch (error) {
+      throw new Error(`Failed to store embeddings: ${error}`)
+    }
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    try {
+      const response = await axios.post<QdrantResponse<QdrantScoredPoint[]>>(`${this.collectionUrl}/points/search`, {
+        vector: query.vector,
+        limit: query.limit,
+        score_threshold: query.threshold,
+        with_payload: true,
+        with_vector: false,
+        filter: this.buildFilter(query.filter)
+      })
+
+      return response.data.result.map(point => ({ ...this.fromPoint(point), score: point.score }))
+    } catch (error) {
+      throw new Error(`Vector search failed: ${error}`)
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    try {
+      await axios.post(`${this.collectionUrl}/points/delete?wait=true`, { points: ids })
+    } catch (error) {
+      throw new Error(`Failed to delete vectors: ${error}`)
+    }
+  }
+
+  async scroll(cursor: string | null, limit: number): Promise<{ records: Omit<VectorRecord, 'vector'>[]; next: string | null }> {
+    try {
+      // Points are written with UUID ids, so the offset of the next page is one too
+      const response = await axios.post<QdrantResponse<{ points: QdrantPoint[]; next_page_offset?: string | null }>>(`${this.collectionUrl}/points/scroll`, {
+        limit,
+        offset: cursor ?? undefined,
+        with_payload: true,
+        with_vector: false
+      })
+
+      return {
+        records: response.data.result.points.map(point => this.fromPoint(point)),
+        next: response.data.result.next_page_offset ?? null
+      }
+    } catch (error) {
+      throw new Error(`Failed to scroll vectors: ${error}`)
+    }
+  }
+
+  async reset(dimensions: number): Promise<void> {
+    try {
+      await axios.delete(this.collectionUrl)
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+        throw new Error(`Failed to delete collection ${this.collection}: ${error}`)
+      }
+    }
+    await this.createCollection(dimensions)
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    try {
+      const response = await axios.get<QdrantResponse<QdrantCollectionInfo>>(this.collectionUrl)
+      const collection = response.data.result
+      return {
+        totalPoints: collection.points_count,
+        vectorSize: collection.config.params.vectors.size,
+        indexedVectors: collection.indexed_vectors_count
+      }
+    } catch (error) {
+      throw new Error(`Failed to get collection stats: ${error}`)
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.url}/collections`, { timeout: 5000 })
+      return response.status === 200
+    } catch (error) {
+      return false
+    }
+  }
+
+  private async createCollection(dimensions: number): Promise<void> {
+    try {
+      await axios.put(this.collectionUrl, {
+        vectors: { size: dimensions, distance: 'Cosine' },
+        optimizers_config: { default_segment_number: 2 },
+        replication_factor: 1
+      })
+      for (const field of ['job_id', 'sample_id']) {
+        await axios.put(`${this.collectionUrl}/index`, { field_name: field, field_schema: 'keyword' })
+      }
+    } catch (error) {
+      throw new Error(`Failed to create collection ${this.collection}: ${error}`)
+    }
+  }
+
+  private buildFilter(filter: VectorFilter = {}): QdrantFilter | undefined {
+    const conditions: QdrantCondition[] = []
+    for (const [key, value] of [['job_id', filter.jobId], ['sample_id', filter.sampleId]] as const) {
+      if (value !== undefined) {
+        conditions.push({ key, match: Array.isArray(value) ? { any: value } : { value } })
+      }
+    }
+
+    return conditions.length > 0 ? { must: conditions } : undefined
+  }
+
+  private toPayload(record: VectorRecord): QdrantPayload {
+    return {
+      text: record.content,
+      ...(record.jobId && { job_id: record.jobId }),
+      ...(record.sampleId && { sample_id: record.sampleId }),
+      metadata: record.metadata
+    }
+  }
+
+  private fromPoint(point: QdrantPoint): Omit<VectorRecord, 'vector'> {
+    return {
+      id: String(point.id),
+      content: point.payload.text,
+      jobId: point.payload.job_id,
+      sampleId: point.payload.sample_id,
+      metadata: point.payload.metadata ?? {}
+    }
+  }
+}
@@ -1,437 +1,193 @@
-import axios from 'axios'
-import { VectorSearchRequest, VectorSearchResult } from '../types/processing'
-
+import { randomUUID } from 'crypto'
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { createInterface } from 'readline'
+import { VectorSearchResult } from '../types/processing'
+import { getDatabase } from '../database/connection'
+import { EmbeddedVectorStore } from './EmbeddedVectorStore'
+import { PgVectorStore } from './PgVectorStore'
+import { QdrantVectorStore } from './QdrantVectorStore'
+import {
+  VectorFilter,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreStats,
+  vectorStoreConfigFromEnv
+} from './VectorStore'
+
+export interface VectorDocument {
+  content: string
+  jobId?: string | undefined
+  sampleId?: string | undefined
+  metadata: Record<string, unknown>
+}
+
+export interface ReembedOptions {
+  // Copy of every document taken before the store is cleared; an existing file means an earlier run was interrupted
+  snapshotPath: string
+  batchSize?: number
+  onProgress?: (done: number) => void
+}
+
+export function createVectorStore(config: VectorStoreConfig): VectorStore {
+  switch (config.kind) {
+    case 'pgvector':
+      return new PgVectorStore(getDatabase())
+    case 'embedded':
+      return new EmbeddedVectorStore(config.embeddedPath, config.dimensions)
+    default:
+      return new QdrantVectorStore(config.qdrantUrl, config.qdrantCollection, config.dimensions)
+  }
+}
+
+/**
+ * Document embeddings for similarity search and RAG, on whichever store VECTOR_STORE selects
+ */
 export class VectorService {
-  private qdrantUrl: string
-  private defaultCollection: string
+  private store: VectorStore | null = null
+
+  constructor(private readonly config: VectorStoreConfig = vectorStoreConfigFromEnv()) {}
 
-  constructor(qdrantUrl: string = 'http://localhost:6333', defaultCollection: string = 'nanopore_docs') {
-    this.qdrantUrl = qdrantUrl
-    this.defaultCollection = defaultCollection
+  get backend(): string {
+    return this.store?.name ?? this.config.kind
   }
 
   /**
-   * Initialize vector database and create collections
+   * Connect to the configured store; in auto mode fall back to the embedded index when Qdrant does not answer
    */
   async initialize(): Promise<void> {
     try {
-      // Check if collection exists, create if not
-      const collections = await this.getCollections()
-      if (!collections.includes(this.defaultCollection)) {
-        await this.createCollection(this.defaultCollection)
+      let store = createVectorStore(this.config)
+      if (this.config.kind === 'auto' && !(await store.checkHealth())) {
+        console.warn(`Qdrant at ${this.config.qdrantUrl} is not responding, using the embedded vector index at ${this.config.embeddedPath}`)
+        store = createVectorStore({ ...this.config, kind: 'embedded' })
       }
+      await store.initialize()
+      this.store = store
     } catch (error) {
       throw new Error(`Failed to initialize vector database: ${error}`)
     }
   }
 
   /**
-   * Store vector embeddings in the database
+   * Store one document's embedding and return its id
    */
-  async storeEmbeddings(
-    embeddings: number[],
-    payload: Record<string, any>,
-    id?: string
-  ): Promise<string> {
-    try {
-      const pointId = id || this.generateId()
-      
-      const response = await axios.put(`${this.qdrantUrl}/collections/${this.defaultCollection}/points`, {
-        points: [{
-          id: pointId,
-          vector: embeddings,
-          payload
-        }]
-      })
-
-      if (response.status !== 200) {
-        throw new Error(`Failed to store embeddings: ${response.statusText}`)
-      }
-
-      return pointId
-    } catch (error) {
-      throw new Error(`Failed to store embeddings: ${error}`)
-    }
+  async storeEmbeddings(vector: number[], document: VectorDocument, id: string = randomUUID()): Promise<string> {
+    await this.requireStore().upsert([{ id, vector, ...document }])
+    return id
   }
 
   /**
-   * Search for similar vectors
+   * Find the documents closest to a query vector, optionally limited to jobs or samples
    */
-  async searchVectors(request: VectorSearchRequest): Promise<VectorSearchResult[]> {
-    try {
-      const response = await axios.post(`${this.qdrantUrl}/collections/${this.defaultCollection}/points/search`, {
-        vector: request.query, // This should be the query vector
-        limit: request.limit,
-        score_threshold: request.threshold,
-        with_payload: true,
-        with_vector: false,
-        filter: request.filters ? this.buildFilter(request.filters) : undefined
-      })
-
-      if (response.status !== 200) {
-        throw new Error(`Search failed: ${response.statusText}`)
-      }
-
-      return response.data.result.map((item: any) => ({
-        id: item.id,
-        score: item.score,
-        payload: item.payload,
-        metadata: item.payload.metadata
-      }))
-    } catch (error) {
-      throw new Error(`Vector search failed: ${error}`)
-    }
-  }
-
-  /**
-   * Search by text (converts text to embeddings first)
-   */
-  async searchByText(
-    text: string,
-    embeddings: number[],
-    request: VectorSearchRequest
+  async search(
+    vector: number[],
+    options: { limit: number; threshold?: number | undefined; filter?: VectorFilter | undefined }
   ): Promise<VectorSearchResult[]> {
-    try {
-      const response = await axios.post(`${this.qdrantUrl}/collections/${this.defaultCollection}/points/search`, {
-        vector: embeddings,
-        limit: request.limit,
-        score_threshold: request.threshold,
-        with_payload: true,
-        with_vector: false,
-        filter: request.filters ? this.buildFilter(request.filters) : undefined
-      })
-
-      if (response.status !== 200) {
-        throw new Error(`Text search failed: ${response.statusText}`)
-      }
-
-      return response.data.result.map((item: any) => ({
-        id: item.id,
-        score: item.score,
-        payload: item.payload,
-        metadata: item.payload.metadata
-      }))
-    } catch (error) {
-      throw new Error(`Text search failed: ${error}`)
-    }
+    const matches = await this.requireStore().search({ vector, ...options })
+    return matches.map(match => this.toSearchResult(match))
   }
 
-  /**
-   * Delete vector by ID
-   */
-  async deleteVector(id: string): Promise<boolean> {
-    try {
-      const response = await axios.delete(`${this.qdrantUrl}/collections/${this.defaultCollection}/points`, {
-        data: {
-          points: [id]
-        }
-      })
-
-      return response.status === 200
-    } catch (error) {
-      console.error(`Failed to delete vector ${id}:`, error)
-      return false
-    }
+  async deleteVectors(ids: string[]): Promise<void> {
+    await this.requireStore().delete(ids)
   }
 
-  /**
-   * Update vector payload
-   */
-  async updateVectorPayload(
-    id: string,
-    payload: Record<string, any>
-  ): Promise<boolean> {
-    try {
-      const response = await axios.put(`${this.qdrantUrl}/collections/${this.defaultCollection}/points`, {
-        points: [{
-          id,
-          payload
-        }]
-      })
-
-      return response.status === 200
-    } catch (error) {
-      console.error(`Failed to update vector payload for ${id}:`, error)
-      return false
-    }
-  }
-
-  /**
-   * Get vector by ID
-   */
-  async getVector(id: string): Promise<VectorSearchResult | null> {
-    try {
-      const response = await axios.get(`${this.qdrantUrl}/collections/${this.defaultCollection}/points/${id}`)
-
-      if (response.status !== 200) {
-        return null
-      }
-
-      const point = response.data.result
-      return {
-        id: point.id,
-        score: 1.0, // Exact match
-        payload: point.payload,
-        metadata: point.payload.metadata
-      }
-    } catch (error) {
-      console.error(`Failed to get vector ${id}:`, error)
-      return null
-    }
+  async getCollectionStats(): Promise<VectorStoreStats> {
+    return await this.requireStore().getStats()
   }
 
-  /**
-   * Get collection statistics
-   */
-  async getCollectionStats(): Promise<{
-    totalPoints: number
-    vectorSize: number
-    indexedVectors: number
-  }> {
-    try {
-      const response = await axios.get(`${this.qdrantUrl}/collections/${this.defaultCollection}`)
-
-      if (response.status !== 200) {
-        throw new Error(`Failed to get collection stats: ${response.statusText}`)
-      }
-
-      const collection = response.data.result
-      return {
-        totalPoints: collection.points_count,
-        vectorSize: collection.config.params.vectors.size,
-        indexedVectors: collection.indexed_vectors_count
-      }
-    } catch (error) {
-      throw new Error(`Failed to get collection stats: ${error}`)
-    }
+  async checkHealth(): Promise<boolean> {
+    return this.store ? await this.store.checkHealth() : false
   }
 
   /**
-   * Create a new collection
+   * Recompute every stored embedding, for when the embedding model changes
+   * Documents are copied to a snapshot file, the store is cleared for the new vector size and refilled from the
+   * snapshot. Running again after a failure resumes from the snapshot instead of the half-filled store.
    */
-  async createCollection(collectionName: string): Promise<boolean> {
-    try {
-      const response = await axios.put(`${this.qdrantUrl}/collections/${collectionName}`, {
-        vectors: {
-          size: 1536, // OpenAI embedding dimension
-          distance: 'Cosine'
-        },
-        optimizers_config: {
-          default_segment_number: 2
-        },
-        replication_factor: 1
-      })
+  async reembed(
+    embed: (texts: string[]) => Promise<number[][]>,
+    options: ReembedOptions
+  ): Promise<{ documents: number; dimensions: number }> {
+    const store = this.requireStore()
+    const batchSize = options.batchSize ?? 16
 
-      return response.status === 200
-    } catch (error) {
-      console.error(`Failed to create collection ${collectionName}:`, error)
-      return false
+    if (!(await this.exists(options.snapshotPath))) {
+      await this.writeSnapshot(store, options.snapshotPath, batchSize)
     }
-  }
 
-  /**
-   * Delete a collection
-   */
-  async deleteCollection(collectionName: string): Promise<boolean> {
-    try {
-      const response = await axios.delete(`${this.qdrantUrl}/collections/${collectionName}`)
-      return response.status === 200
-    } catch (error) {
-      console.error(`Failed to delete collection ${collectionName}:`, error)
-      return false
-    }
-  }
-
-  /**
-   * Get all collections
-   */
-  async getCollections(): Promise<string[]> {
-    try {
-      const response = await axios.get(`${this.qdrantUrl}/collections`)
-      
-      if (response.status !== 200) {
-        throw new Error(`Failed to get collections: ${response.statusText}`)
+    let documents = 0
+    let dimensions = 0
+    let batch: Omit<VectorRecord, 'vector'>[] = []
+    const flush = async () => {
+      const vectors = await embed(batch.map(record => record.content))
+      if (dimensions === 0) {
+        dimensions = vectors[0]?.length ?? 0
+        await store.reset(dimensions)
       }
-
-      return response.data.result.collections.map((collection: any) => collection.name)
-    } catch (error) {
-      console.error('Failed to get collections:', error)
-      return []
-    }
-  }
-
-  /**
-   * Batch store multiple embeddings
-   */
-  async batchStoreEmbeddings(
-    embeddings: Array<{
-      id?: string
-      vector: number[]
-      payload: Record<string, any>
-    }>
-  ): Promise<string[]> {
-    try {
-      const points = embeddings.map(item => ({
-        id: item.id || this.generateId(),
-        vector: item.vector,
-        payload: item.payload
+      await store.upsert(batch.map((record, i) => {
+        const vector = vectors[i]
+        if (!vector || vector.length !== dimensions) {
+          throw new Error(`Embedding for ${record.id} is missing or not ${dimensions}-dimensional`)
+        }
+        return { ...record, vector }
       }))
-
-      const response = await axios.put(`${this.qdrantUrl}/collections/${this.defaultCollection}/points`, {
-        points
-      })
-
-      if (response.status !== 200) {
-        throw new Error(`Batch store failed: ${response.statusText}`)
-      }
-
-      return points.map(point => point.id)
-    } catch (error) {
-      throw new Error(`Batch store failed: ${error}`)
+      documents += batch.length
+      options.onProgress?.(documents)
+      batch = []
     }
-  }
-
-  /**
-   * Search with filters
-   */
-  async searchWithFilters(
-    embeddings: number[],
-    filters: Record<string, any>,
-    limit: number = 10,
-    threshold: number = 0.7
-  ): Promise<VectorSearchResult[]> {
-    try {
-      const response = await axios.post(`${this.qdrantUrl}/collections/${this.defaultCollection}/points/search`, {
-        vector: embeddings,
-        limit,
-        score_threshold: threshold,
-        with_payload: true,
-        with_vector: false,
-        filter: this.buildFilter(filters)
-      })
 
-      if (response.status !== 200) {
-        throw new Error(`Filtered search failed: ${response.statusText}`)
-      }
-
-      return response.data.result.map((item: any) => ({
-        id: item.id,
-        score: item.score,
-        payload: item.payload,
-        metadata: item.payload.metadata
-      }))
-    } catch (error) {
-      throw new Error(`Filtered search failed: ${error}`)
+    const lines = createInterface({ input: createReadStream(options.snapshotPath), crlfDelay: Infinity })
+    for await (const line of lines) {
+      if (!line) continue
+      batch.push(JSON.parse(line))
+      if (batch.length === batchSize) await flush()
     }
-  }
+    if (batch.length > 0) await flush()
 
-  /**
-   * Health check for Qdrant service
-   */
-  async checkHealth(): Promise<boolean> {
-    try {
-      const response = await axios.get(`${this.qdrantUrl}/collections`, { timeout: 5000 })
-      return response.status === 200
-    } catch (error) {
-      return false
-    }
+    await fs.unlink(options.snapshotPath)
+    return { documents, dimensions }
   }
 
-  /**
-   * Build Qdrant filter from generic filters
-   */
-  private buildFilter(filters: Record<string, any>): any {
-    const conditions: any[] = []
-
-    for (const [key, value] of Object.entries(filters)) {
-      if (Array.isArray(value)) {
-        conditions.push({
-          key: `payload.${key}`,
-          match: {
-            any: value
-          }
-        })
-      } else if (typeof value === 'object') {
-        // Handle range queries
-        if (value.gte !== undefined || value.lte !== undefined) {
-          const range: any = {}
-          if (value.gte !== undefined) range.gte = value.gte
-          if (value.lte !== undefined) range.lte = value.lte
-          
-          conditions.push({
-            key: `payload.${key}`,
-            range
-          })
+  private async writeSnapshot(store: VectorStore, snapshotPath: string, pageSize: number): Promise<void> {
+    // Written under a temporary name so a partial snapshot is never mistaken for a complete one
+    const partial = `${snapshotPath}.partial`
+    await fs.mkdir(path.dirname(snapshotPath), { recursive: true })
+    const file = await fs.open(partial, 'w')
+    try {
+      let cursor: string | null = null
+      do {
+        const page: Awaited<ReturnType<VectorStore['scroll']>> = await store.scroll(cursor, pageSize)
+        for (const record of page.records) {
+          await file.write(`${JSON.stringify(record)}\n`)
         }
-      } else {
-        conditions.push({
-          key: `payload.${key}`,
-          match: {
-            value
-          }
-        })
-      }
+        cursor = page.next
+      } while (cursor !== null)
+    } finally {
+      await file.close()
     }
-
-    return conditions.length > 0 ? { must: conditions } : undefined
-  }
-
-  /**
-   * Generate unique ID for vector points
-   */
-  private generateId(): string {
-    return `vec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    await fs.rename(partial, snapshotPath)
   }
 
-  /**
-   * Get collection info
-   */
-  async getCollectionInfo(collectionName?: string): Promise<any> {
-    try {
-      const name = collectionName || this.defaultCollection
-      const response = await axios.get(`${this.qdrantUrl}/collections/${name}`)
-      
-      if (response.status !== 200) {
-        throw new Error(`Failed to get collection info: ${response.statusText}`)
-      }
-
-      return response.data.result
-    } catch (error) {
-      throw new Error(`Failed to get collection info: ${error}`)
-    }
+  private async exists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(() => true, () => false)
   }
 
-  /**
-   * Optimize collection for better performance
-   */
-  async optimizeCollection(collectionName?: string): Promise<boolean> {
-    try {
-      const name = collectionName || this.defaultCollection
-      const response = await axios.post(`${this.qdrantUrl}/collections/${name}/optimize`)
-      return response.status === 200
-    } catch (error) {
-      console.error('Failed to optimize collection:', error)
-      return false
+  private toSearchResult(match: VectorMatch): VectorSearchResult {
+    return {
+      id: match.id,
+      score: match.score,
+      payload: { text: match.content, jobId: match.jobId, sampleId: match.sampleId, ...match.metadata },
+      metadata: match.metadata
     }
   }
 
-  /**
-   * Create index for better search performance
-   */
-  async createIndex(
-    collectionName?: string,
-    indexType: 'IVF' | 'HNSW' = 'HNSW'
-  ): Promise<boolean> {
-    try {
-      const name = collectionName || this.defaultCollection
-      const response = await axios.put(`${this.qdrantUrl}/collections/${name}/index`, {
-        field_name: 'vector',
-        field_schema: indexType === 'HNSW' ? 'HNSW' : 'IVF'
-      })
-      return response.status === 200
-    } catch (error) {
-      console.error('Failed to create index:', error)
-      return false
+  private requireStore(): VectorStore {
+    if (!this.store) {
+      throw new Error('Vector service is not initialized')
     }
+    return this.store
   }
-}
\ No newline at end of file
+}
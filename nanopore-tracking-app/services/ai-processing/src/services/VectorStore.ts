@@ -0,0 +1,94 @@
+/**
+ * Storage for document embeddings
+ * Qdrant, the pgvector vector_embeddings table and an embedded on-disk index implement the same interface;
+ * VECTOR_STORE picks one, and "auto" uses Qdrant when it answers and the embedded index otherwise.
+ */
+
+export interface VectorRecord {
+  id: string
+  vector: number[]
+  // Text the vector was computed from; kept so documents can be re-embedded
+  content: string
+  jobId?: string | undefined
+  sampleId?: string | undefined
+  metadata: Record<string, unknown>
+}
+
+export interface VectorMatch extends Omit<VectorRecord, 'vector'> {
+  score: number
+}
+
+// Every given key must match; an array matches any of its values
+export interface VectorFilter {
+  jobId?: string | string[] | undefined
+  sampleId?: string | string[] | undefined
+}
+
+export interface VectorQuery {
+  vector: number[]
+  limit: number
+  threshold?: number | undefined
+  filter?: VectorFilter | undefined
+}
+
+export interface VectorStoreStats {
+  totalPoints: number
+  vectorSize: number
+  indexedVectors: number
+}
+
+export interface VectorStore {
+  readonly name: string
+  initialize(): Promise<void>
+  upsert(records: VectorRecord[]): Promise<void>
+  search(query: VectorQuery): Promise<VectorMatch[]>
+  delete(ids: string[]): Promise<void>
+  // Page through stored records without their vectors, in a stable order
+  scroll(cursor: string | null, limit: number): Promise<{ records: Omit<VectorRecord, 'vector'>[]; next: string | null }>
+  // Drop every record and accept vectors of the given size from now on
+  reset(dimensions: number): Promise<void>
+  getStats(): Promise<VectorStoreStats>
+  checkHealth(): Promise<boolean>
+}
+
+export type VectorStoreKind = 'auto' | 'qdrant' | 'pgvector' | 'embedded'
+
+export interface VectorStoreConfig {
+  kind: VectorStoreKind
+  dimensions: number
+  qdrantUrl: string
+  qdrantCollection: string
+  embeddedPath: string
+}
+
+export function vectorStoreConfigFromEnv(overrides: Partial<VectorStoreConfig> = {}): VectorStoreConfig {
+  return {
+    kind: (process.env['VECTOR_STORE'] as VectorStoreKind) || 'auto',
+    dimensions: parseInt(process.env['EMBEDDING_DIMENSIONS'] || '768'),
+    qdrantUrl: process.env['QDRANT_URL'] || 'http://localhost:6333',
+    qdrantCollection: process.env['QDRANT_COLLECTION'] || 'nanopore_docs',
+    embeddedPath: process.env['VECTOR_STORE_PATH'] || './data/vectors.json',
+    ...overrides
+  }
+}
+
+export function matchesFilter(record: Pick<VectorRecord, 'jobId' | 'sampleId'>, filter: VectorFilter = {}): boolean {
+  const matches = (value: string | undefined, expected: string | string[] | undefined) =>
+    expected === undefined || (value !== undefined && (Array.isArray(expected) ? expected.includes(value) : value === expected))
+
+  return matches(record.jobId, filter.jobId) && matches(record.sampleId, filter.sampleId)
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0
+    const y = b[i] ?? 0
+    dot += x * y
+    normA += x * x
+    normB += y * y
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import type { VectorFilter } from '../services/VectorStore'
 
 // Processing status enum
 export enum ProcessingStatus {
@@ -77,6 +78,8 @@ export interface ProcessingResult {
 // PDF processing request
 export interface PDFProcessingRequest {
   file: Express.Multer.File
+  // Processing job the document's embedding is stored under
+  jobId?: string
   sampleId?: string
   processingType: ProcessingType
   metadata?: Record<string, any>
@@ -96,7 +99,7 @@ export interface VectorSearchRequest {
   query: string
   limit: number
   threshold: number
-  filters?: Record<string, any>
+  filters?: VectorFilter
 }
 
 // Vector search result
@@ -151,6 +154,34 @@ export interface RAGRequest {
   context?: string
   maxResults: number
   threshold: number
+  filters?: VectorFilter
+}
+
+// Sample query planning request
+// The caller owns the fields a plan may use and validates the plan it gets back; the instructions stay here
+export interface QueryPlanRequest {
+  question: string
+  // The caller's date, which relative questions such as "in the last week" count from
+  today: string
+  fields: QueryPlanField[]
+}
+
+export interface QueryPlanField {
+  name: string
+  type: 'enum' | 'text' | 'number' | 'date' | 'boolean'
+  values?: string[] | undefined
+  hint?: string | undefined
+  operators: string[]
+}
+
+// Sample query planning result
+export interface QueryPlanResult {
+  // The model's JSON plan, unparsed
+  answer: string
+  model: string
+  // Prompt id and version the plan came from
+  prompt: string
+  processingTime: number
 }
 
 // RAG system result
@@ -189,11 +220,18 @@ export const aiExtractionRequestSchema = z.object({
   metadata: z.record(z.any()).optional()
 })
 
+// Limits vector search to documents of the given processing jobs or samples
+const idOrIds = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+export const vectorFilterSchema = z.object({
+  jobId: idOrIds.optional(),
+  sampleId: idOrIds.optional()
+}).strict()
+
 export const vectorSearchRequestSchema = z.object({
   query: z.string().min(1, 'Query is required'),
   limit: z.number().int().positive().max(100),
   threshold: z.number().min(0).max(1),
-  filters: z.record(z.any()).optional()
+  filters: vectorFilterSchema.optional()
 })
 
 export const formValidationRequestSchema = z.object({
@@ -231,7 +269,20 @@ export const ragRequestSchema = z.object({
   query: z.string().min(1, 'Query is required'),
   context: z.string().optional(),
   maxResults: z.number().int().positive().max(50),
-  threshold: z.number().min(0).max(1)
+  threshold: z.number().min(0).max(1),
+  filters: vectorFilterSchema.optional()
+})
+
+export const queryPlanRequestSchema = z.object({
+  question: z.string().trim().min(1, 'Question is required').max(500),
+  today: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Today must be a date such as 2026-01-31'),
+  fields: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z]+$/),
+    type: z.enum(['enum', 'text', 'number', 'date', 'boolean']),
+    values: z.array(z.string().max(60)).max(20).optional(),
+    hint: z.string().max(120).optional(),
+    operators: z.array(z.string().regex(/^[A-Za-z]+$/)).min(1).max(20)
+  })).min(1).max(60)
 })
 
 // Type exports
@@ -239,4 +290,5 @@ export type ProcessingJobType = z.infer<typeof processingJobSchema>
 export type AIExtractionRequestType = z.infer<typeof aiExtractionRequestSchema>
 export type VectorSearchRequestType = z.infer<typeof vectorSearchRequestSchema>
 export type FormValidationRequestType = z.infer<typeof formValidationRequestSchema>
-export type RAGRequestType = z.infer<typeof ragRequestSchema>
\ No newline at end of file
+export type RAGRequestType = z.infer<typeof ragRequestSchema>
+export type QueryPlanRequestType = z.infer<typeof queryPlanRequestSchema>
\ No newline at end of file
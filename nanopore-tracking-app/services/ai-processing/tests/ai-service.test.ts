@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { AIService } from '../src/services/AIService'
+import { LLMProvider, LLMRequest } from '../src/services/LLMProvider'
+
+const recordingProvider = (answer: string) => {
+  const requests: LLMRequest[] = []
+  const provider: LLMProvider = {
+    name: 'fake',
+    model: 'fake-model',
+    isAvailable: async () => true,
+    listModels: async () => ['fake-model'],
+    chat: async (request) => {
+      requests.push(request)
+      return answer
+    },
+    embed: async (texts) => texts.map(() => [1, 0, 0])
+  }
+  return { provider, requests }
+}
+
+describe('AIService.answerQuestion', () => {
+  it('answers from the retrieved context with the default prompt', async () => {
+    const { provider, requests } = recordingProvider('About 42 ng/uL.')
+
+    const result = await new AIService(provider).answerQuestion('What is the concentration?', 'Concentration: 42 ng/uL')
+
+    expect(result).toMatchObject({ answer: 'About 42 ng/uL.' })
+    expect(requests[0]?.prompt).toMatchObject({ id: 'rag-answer' })
+    expect(requests[0]?.messages.at(-1)?.content).toContain('Concentration: 42 ng/uL')
+  })
+
+})
+
+describe('AIService.planSampleQuery', () => {
+  it('renders the planning prompt from the caller fields and returns the plan unparsed', async () => {
+    const { provider, requests } = recordingProvider('{"filters": [], "output": "count"}')
+
+    const result = await new AIService(provider).planSampleQuery({
+      question: 'How many urgent samples?',
+      today: '2026-10-19',
+      fields: [
+        { name: 'priority', type: 'enum', values: ['low', 'normal', 'high', 'urgent'], operators: ['eq', 'neq', 'in'] },
+        { name: 'concentration', type: 'number', hint: 'ng/uL', operators: ['gt', 'lt'] }
+      ]
+    })
+
+    expect(result).toMatchObject({ answer: '{"filters": [], "output": "count"}', model: 'fake-model', prompt: 'sample-query-plan@1' })
+    expect(requests[0]).toMatchObject({ json: true, temperature: 0, prompt: { id: 'sample-query-plan' } })
+    const content = requests[0]?.messages.at(-1)?.content
+    expect(content).toContain('Today is 2026-10-19.')
+    expect(content).toContain('- priority: enum (low | normal | high | urgent); operators eq, neq, in')
+    expect(content).toContain('- concentration: number - ng/uL; operators gt, lt')
+    expect(content).toContain('Question: How many urgent samples?')
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { EmbeddedVectorStore } from '../src/services/EmbeddedVectorStore'
+import { VectorRecord } from '../src/services/VectorStore'
+
+const record = (id: string, vector: number[], fields: Partial<VectorRecord> = {}): VectorRecord => ({
+  id,
+  vector,
+  content: `document ${id}`,
+  metadata: {},
+  ...fields
+})
+
+describe('EmbeddedVectorStore', () => {
+  let directory: string
+  let filePath: string
+  let store: EmbeddedVectorStore
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'vector-store-'))
+    filePath = path.join(directory, 'index', 'vectors.json')
+    store = new EmbeddedVectorStore(filePath, 3)
+    await store.initialize()
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('saves records and loads them back in a new instance', async () => {
+    await store.upsert([
+      record('a', [1, 0, 0], { jobId: 'job-1', sampleId: 'sample-1', metadata: { page: 2 } }),
+      record('b', [0, 1, 0])
+    ])
+    await store.delete(['b'])
+
+    const reloaded = new EmbeddedVectorStore(filePath, 768)
+    await reloaded.initialize()
+
+    expect(await reloaded.getStats()).toEqual({ totalPoints: 1, vectorSize: 3, indexedVectors: 1 })
+    expect(await reloaded.search({ vector: [1, 0, 0], limit: 5 })).toEqual([
+      { id: 'a', content: 'document a', jobId: 'job-1', sampleId: 'sample-1', metadata: { page: 2 }, score: 1 }
+    ])
+  })
+
+  it('leaves no temporary file behind after saving', async () => {
+    await store.upsert([record('a', [1, 0, 0])])
+
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['vectors.json'])
+  })
+
+  it('rejects a batch containing a vector of the wrong size without storing any of it', async () => {
+    await expect(store.upsert([record('a', [1, 0, 0]), record('b', [1, 0])]))
+      .rejects.toThrow('Vector for b has 2 dimensions, the index expects 3')
+
+    expect((await store.getStats()).totalPoints).toBe(0)
+  })
+
+  it('accepts the new vector size after a reset', async () => {
+    await store.upsert([record('a', [1, 0, 0])])
+
+    await store.reset(2)
+    await store.upsert([record('b', [0, 1])])
+
+    expect(await store.getStats()).toEqual({ totalPoints: 1, vectorSize: 2, indexedVectors: 1 })
+    await expect(store.upsert([record('c', [1, 0, 0])])).rejects.toThrow('the index expects 2')
+  })
+
+  it('ranks by cosine similarity and applies the limit, threshold and filter', async () => {
+    await store.upsert([
+      record('same', [1, 0, 0], { jobId: 'job-1', sampleId: 'sample-1' }),
+      record('close', [1, 1, 0], { jobId: 'job-2', sampleId: 'sample-1' }),
+      record('far', [0, 0, 1], { jobId: 'job-2', sampleId: 'sample-2' })
+    ])
+    const ids = async (query: Parameters<EmbeddedVectorStore['search']>[0]) =>
+      (await store.search(query)).map(match => match.id)
+
+    expect(await ids({ vector: [2, 0, 0], limit: 3 })).toEqual(['same', 'close', 'far'])
+    expect(await ids({ vector: [2, 0, 0], limit: 1 })).toEqual(['same'])
+    expect(await ids({ vector: [2, 0, 0], limit: 3, threshold: 0.5 })).toEqual(['same', 'close'])
+    expect(await ids({ vector: [2, 0, 0], limit: 3, filter: { jobId: 'job-2' } })).toEqual(['close', 'far'])
+    expect(await ids({ vector: [2, 0, 0], limit: 3, filter: { sampleId: ['sample-2', 'sample-3'] } })).toEqual(['far'])
+  })
+
+  it('pages through records in id order without their vectors', async () => {
+    await store.upsert(['e', 'a', 'd', 'b', 'c'].map(id => record(id, [1, 0, 0])))
+
+    const first = await store.scroll(null, 2)
+    const second = await store.scroll(first.next, 2)
+    const last = await store.scroll(second.next, 2)
+
+    expect(first).toEqual({ records: [expect.objectContaining({ id: 'a' }), expect.objectContaining({ id: 'b' })], next: 'b' })
+    expect(second.records.map(item => item.id)).toEqual(['c', 'd'])
+    expect(last).toEqual({ records: [expect.objectContaining({ id: 'e' })], next: null })
+    expect(first.records[0]).not.toHaveProperty('vector')
+  })
+
+  it('ends the scroll on a page that exactly fills the limit', async () => {
+    await store.upsert(['a', 'b'].map(id => record(id, [1, 0, 0])))
+
+    expect((await store.scroll(null, 2)).next).toBeNull()
+    expect(await store.scroll('b', 2)).toEqual({ records: [], next: null })
+  })
+})
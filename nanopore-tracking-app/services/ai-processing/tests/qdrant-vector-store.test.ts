@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import axios from 'axios'
+import { QdrantVectorStore } from '../src/services/QdrantVectorStore'
+
+vi.mock('axios')
+
+const store = new QdrantVectorStore('http://qdrant:6333', 'docs', 3)
+const id = '0b6f3c1e-6a52-4d0f-9a57-2f4a3e1c8b11'
+const next = '5d2a7c40-1f3e-4b8a-8c9d-6e0f1a2b3c4d'
+const point = { id, payload: { text: 'flow cell loaded', job_id: 'job-1', sample_id: 'sample-1', metadata: { page: 2 } } }
+
+describe('QdrantVectorStore', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset()
+  })
+
+  it('sends job and sample filters as payload conditions', async () => {
+    vi.mocked(axios.post).mockResolvedValue({ data: { result: [{ ...point, score: 0.9 }] } })
+
+    const matches = await store.search({ vector: [1, 0, 0], limit: 5, filter: { jobId: 'job-1', sampleId: ['sample-1', 'sample-2'] } })
+
+    expect(vi.mocked(axios.post).mock.calls[0]).toEqual(['http://qdrant:6333/collections/docs/points/search', expect.objectContaining({
+      filter: { must: [{ key: 'job_id', match: { value: 'job-1' } }, { key: 'sample_id', match: { any: ['sample-1', 'sample-2'] } }] }
+    })])
+    expect(matches).toEqual([{ id, content: 'flow cell loaded', jobId: 'job-1', sampleId: 'sample-1', metadata: { page: 2 }, score: 0.9 }])
+  })
+
+  it('searches without a filter when none is given', async () => {
+    vi.mocked(axios.post).mockResolvedValue({ data: { result: [] } })
+
+    await store.search({ vector: [1, 0, 0], limit: 5 })
+
+    expect(vi.mocked(axios.post).mock.calls[0]?.[1]).toMatchObject({ filter: undefined })
+  })
+
+  it('pages with the offset Qdrant returns', async () => {
+    vi.mocked(axios.post)
+      .mockResolvedValueOnce({ data: { result: { points: [point], next_page_offset: next } } })
+      .mockResolvedValueOnce({ data: { result: { points: [], next_page_offset: null } } })
+
+    expect(await store.scroll(null, 1)).toEqual({ records: [expect.objectContaining({ id })], next })
+    expect(await store.scroll(next, 1)).toEqual({ records: [], next: null })
+    expect(vi.mocked(axios.post).mock.calls[1]?.[1]).toMatchObject({ offset: next, limit: 1 })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { EmbeddedVectorStore } from '../src/services/EmbeddedVectorStore'
+import { ReplayProvider } from '../src/services/LLMProvider'
+import { VectorService } from '../src/services/VectorService'
+import { VectorStoreConfig } from '../src/services/VectorStore'
+import { main } from '../src/scripts/reembed'
+
+const documents = ['flow cell loaded', 'library prep kit', 'basecalling finished', 'sample archived', 'run stopped early']
+
+describe('re-embedding', () => {
+  let directory: string
+  let config: VectorStoreConfig
+  let snapshotPath: string
+
+  const openStore = async (dimensions = 3) => {
+    const store = new EmbeddedVectorStore(config.embeddedPath, dimensions)
+    await store.initialize()
+    return store
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'reembed-'))
+    config = { kind: 'embedded', dimensions: 3, qdrantUrl: 'http://localhost:6333', qdrantCollection: 'test', embeddedPath: path.join(directory, 'vectors.json') }
+    snapshotPath = path.join(directory, 'snapshot.jsonl')
+
+    const store = await openStore()
+    await store.upsert(documents.map((content, i) => ({
+      id: `doc-${i}`,
+      vector: [1, i, 0],
+      content,
+      jobId: 'job-1',
+      sampleId: `sample-${i % 2}`,
+      metadata: { chunk: i }
+    })))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('replaces every vector with one from the new model, keeping the documents', async () => {
+    const embedder = new ReplayProvider(path.join(directory, 'recordings.json'), undefined, 8)
+    const service = new VectorService(config)
+    await service.initialize()
+    const progress: number[] = []
+
+    const result = await service.reembed(texts => embedder.embed(texts), { snapshotPath, batchSize: 2, onProgress: done => progress.push(done) })
+
+    expect(result).toEqual({ documents: 5, dimensions: 8 })
+    expect(progress).toEqual([2, 4, 5])
+    await expect(fs.access(snapshotPath)).rejects.toThrow()
+
+    const store = await openStore()
+    expect(await store.getStats()).toMatchObject({ totalPoints: 5, vectorSize: 8 })
+    const [query] = await embedder.embed(['library prep kit'])
+    const [best] = await store.search({ vector: query!, limit: 1, filter: { sampleId: 'sample-1' } })
+    expect(best).toMatchObject({ id: 'doc-1', content: 'library prep kit', jobId: 'job-1', sampleId: 'sample-1', metadata: { chunk: 1 } })
+    expect(best!.score).toBeCloseTo(1)
+  })
+
+  it('resumes from the snapshot after an interrupted run', async () => {
+    const embedder = new ReplayProvider(path.join(directory, 'recordings.json'), undefined, 8)
+    const service = new VectorService(config)
+    await service.initialize()
+    let calls = 0
+    const failOnSecondBatch = async (texts: string[]) => {
+      if (++calls === 2) throw new Error('model unavailable')
+      return embedder.embed(texts)
+    }
+
+    await expect(service.reembed(failOnSecondBatch, { snapshotPath, batchSize: 2 })).rejects.toThrow('model unavailable')
+    expect((await (await openStore()).getStats()).totalPoints).toBe(2)
+    expect((await fs.readFile(snapshotPath, 'utf8')).trim().split('\n')).toHaveLength(5)
+
+    const resumed = new VectorService(config)
+    await resumed.initialize()
+    expect(await resumed.reembed(texts => embedder.embed(texts), { snapshotPath, batchSize: 2 })).toEqual({ documents: 5, dimensions: 8 })
+
+    const store = await openStore()
+    const { records } = await store.scroll(null, 10)
+    expect(records.map(record => record.content)).toEqual(documents)
+  })
+
+  it('runs from the command line with the configured provider and store', async () => {
+    vi.stubEnv('VECTOR_STORE', 'embedded')
+    vi.stubEnv('VECTOR_STORE_PATH', config.embeddedPath)
+    vi.stubEnv('AI_PROVIDER', 'replay')
+    vi.stubEnv('AI_REPLAY_FILE', path.join(directory, 'recordings.json'))
+    vi.stubEnv('EMBEDDING_DIMENSIONS', '16')
+    vi.stubEnv('REEMBED_SNAPSHOT', snapshotPath)
+    vi.stubEnv('REEMBED_BATCH_SIZE', '4')
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    await main()
+
+    expect(log).toHaveBeenCalledWith('Re-embedding documents in the embedded store with replay')
+    expect(log).toHaveBeenCalledWith('Re-embedded 5 documents into 16-dimensional vectors')
+    expect(await (await openStore()).getStats()).toMatchObject({ totalPoints: 5, vectorSize: 16 })
+    await expect(fs.access(snapshotPath)).rejects.toThrow()
+  })
+})
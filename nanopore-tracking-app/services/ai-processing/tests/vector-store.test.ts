@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { cosineSimilarity, matchesFilter } from '../src/services/VectorStore'
+
+describe('matchesFilter', () => {
+  const record = { jobId: 'job-1', sampleId: 'sample-1' }
+
+  it('matches everything when no filter is given', () => {
+    expect(matchesFilter(record)).toBe(true)
+    expect(matchesFilter({ jobId: undefined, sampleId: undefined }, {})).toBe(true)
+  })
+
+  it('matches a single job or sample id exactly', () => {
+    expect(matchesFilter(record, { jobId: 'job-1' })).toBe(true)
+    expect(matchesFilter(record, { jobId: 'job-2' })).toBe(false)
+    expect(matchesFilter(record, { sampleId: 'sample-1' })).toBe(true)
+    expect(matchesFilter(record, { sampleId: 'sample-2' })).toBe(false)
+  })
+
+  it('matches any value of a list', () => {
+    expect(matchesFilter(record, { sampleId: ['sample-2', 'sample-1'] })).toBe(true)
+    expect(matchesFilter(record, { sampleId: [] })).toBe(false)
+  })
+
+  it('requires every given key to match', () => {
+    expect(matchesFilter(record, { jobId: 'job-1', sampleId: 'sample-1' })).toBe(true)
+    expect(matchesFilter(record, { jobId: 'job-1', sampleId: 'sample-2' })).toBe(false)
+  })
+
+  it('does not match records without the filtered field', () => {
+    expect(matchesFilter({ jobId: 'job-1', sampleId: undefined }, { sampleId: 'sample-1' })).toBe(false)
+    expect(matchesFilter({ jobId: undefined, sampleId: 'sample-1' }, { jobId: ['job-1'] })).toBe(false)
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('compares direction, not length', () => {
+    expect(cosineSimilarity([1, 0], [5, 0])).toBe(1)
+    expect(cosineSimilarity([1, 0], [0, 3])).toBe(0)
+    expect(cosineSimilarity([1, 0], [-2, 0])).toBe(-1)
+  })
+
+  it('scores zero vectors as unrelated', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+})
@@ -1,6 +1,30 @@
 -- File Storage Service Database Schema
 -- Creates tables for file management, metadata, and access logging
 
+-- File blobs table - stored content, addressed by SHA-256 and shared by identical files
+CREATE TABLE file_blobs (
+    sha256 CHAR(64) PRIMARY KEY,
+    
+    -- Where the content is stored, in the same form as files.file_path
+    storage_path VARCHAR(500) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    
+    -- Number of files sharing this content; unreferenced blobs are removed by the scrubber
+    ref_count INTEGER NOT NULL DEFAULT 0,
+    released_at TIMESTAMPTZ,
+    
+    -- Integrity verification
+    verify_status VARCHAR(20) NOT NULL DEFAULT 'unverified' CHECK (verify_status IN ('unverified', 'ok', 'corrupt', 'missing')),
+    verify_error TEXT,
+    last_verified_at TIMESTAMPTZ,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT valid_ref_count CHECK (ref_count >= 0)
+);
+
 -- Files table - main file entity
 CREATE TABLE files (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -12,6 +36,7 @@ CREATE TABLE files (
     mime_type VARCHAR(100) NOT NULL,
     size_bytes BIGINT NOT NULL,
     file_path VARCHAR(500) NOT NULL,
+    content_hash CHAR(64) REFERENCES file_blobs(sha256),
     
     -- Metadata
     description TEXT,
@@ -99,6 +124,72 @@ CREATE TABLE file_storage_stats (
     calculated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Upload sessions table - resumable chunked uploads of large data files
+CREATE TABLE upload_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Target file information
+    original_name VARCHAR(255) NOT NULL,
+    file_type VARCHAR(50) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    part_size BIGINT NOT NULL,
+    total_parts INTEGER NOT NULL,
+    
+    -- Metadata applied to the file on completion
+    description TEXT,
+    uploaded_by VARCHAR(255),
+    is_public BOOLEAN DEFAULT false,
+    tags TEXT[],
+    metadata JSONB,
+    
+    -- Progress
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'aborted')),
+    file_id UUID REFERENCES files(id) ON DELETE SET NULL,
+    
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    
+    -- Constraints
+    CONSTRAINT valid_upload_size CHECK (size_bytes > 0),
+    CONSTRAINT valid_part_size CHECK (part_size > 0),
+    CONSTRAINT valid_total_parts CHECK (total_parts > 0)
+);
+
+-- Upload parts table - parts received so far, so an upload can resume after a restart
+CREATE TABLE upload_parts (
+    upload_id UUID NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+    part_number INTEGER NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    checksum_sha256 CHAR(64) NOT NULL,
+    uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    PRIMARY KEY (upload_id, part_number),
+    CONSTRAINT valid_part_number CHECK (part_number > 0)
+);
+
+-- Storage scrub runs table - results of each integrity scrub
+CREATE TABLE storage_scrub_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    
+    -- Results
+    blobs_checked INTEGER NOT NULL DEFAULT 0,
+    blobs_ok INTEGER NOT NULL DEFAULT 0,
+    blobs_corrupt INTEGER NOT NULL DEFAULT 0,
+    blobs_missing INTEGER NOT NULL DEFAULT 0,
+    bytes_checked BIGINT NOT NULL DEFAULT 0,
+    files_adopted INTEGER NOT NULL DEFAULT 0,
+    files_missing INTEGER NOT NULL DEFAULT 0,
+    blobs_removed INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    
+    -- Timestamps
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
 -- Create indexes for performance
 CREATE INDEX idx_files_uploaded_by ON files(uploaded_by);
 CREATE INDEX idx_files_file_type ON files(file_type);
@@ -106,6 +197,14 @@ CREATE INDEX idx_files_is_public ON files(is_public);
 CREATE INDEX idx_files_uploaded_at ON files(uploaded_at);
 CREATE INDEX idx_files_tags ON files USING GIN(tags);
 CREATE INDEX idx_files_metadata ON files USING GIN(metadata);
+CREATE INDEX idx_files_content_hash ON files(content_hash);
+CREATE INDEX idx_files_file_path ON files(file_path);
+
+CREATE INDEX idx_file_blobs_verify_status ON file_blobs(verify_status);
+CREATE INDEX idx_file_blobs_last_verified_at ON file_blobs(last_verified_at);
+CREATE INDEX idx_file_blobs_released_at ON file_blobs(released_at) WHERE ref_count = 0;
+
+CREATE INDEX idx_storage_scrub_runs_started_at ON storage_scrub_runs(started_at);
 
 CREATE INDEX idx_file_metadata_file_id ON file_metadata(file_id);
 CREATE INDEX idx_file_metadata_key ON file_metadata(key);
@@ -115,6 +214,9 @@ CREATE INDEX idx_file_access_log_user_id ON file_access_log(user_id);
 CREATE INDEX idx_file_access_log_action ON file_access_log(action);
 CREATE INDEX idx_file_access_log_accessed_at ON file_access_log(accessed_at);
 
+CREATE INDEX idx_upload_sessions_status ON upload_sessions(status);
+CREATE INDEX idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+
 CREATE INDEX idx_file_processing_queue_file_id ON file_processing_queue(file_id);
 CREATE INDEX idx_file_processing_queue_status ON file_processing_queue(status);
 CREATE INDEX idx_file_processing_queue_priority ON file_processing_queue(priority);
@@ -134,6 +236,11 @@ CREATE TRIGGER set_timestamp_files
     FOR EACH ROW
     EXECUTE PROCEDURE trigger_set_timestamp();
 
+CREATE TRIGGER set_timestamp_upload_sessions
+    BEFORE UPDATE ON upload_sessions
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
 -- Function to update storage statistics
 CREATE OR REPLACE FUNCTION update_storage_stats()
 RETURNS void AS $$
@@ -225,10 +332,14 @@ $$ LANGUAGE plpgsql;
 
 -- Comments for documentation
 COMMENT ON TABLE files IS 'Main table for file storage and metadata';
+COMMENT ON TABLE file_blobs IS 'Content-addressed file content shared by files with the same SHA-256';
+COMMENT ON TABLE storage_scrub_runs IS 'Integrity scrub results: re-hashed, corrupt and missing content';
 COMMENT ON TABLE file_metadata IS 'Additional metadata for files as key-value pairs';
 COMMENT ON TABLE file_access_log IS 'Audit trail for file access and operations';
 COMMENT ON TABLE file_processing_queue IS 'Background processing queue for file operations';
 COMMENT ON TABLE file_storage_stats IS 'Storage statistics and monitoring data';
+COMMENT ON TABLE upload_sessions IS 'Resumable chunked uploads in progress or finished';
+COMMENT ON TABLE upload_parts IS 'Parts received for a chunked upload, with their SHA-256 checksums';
 
 COMMENT ON COLUMN files.original_name IS 'Original filename as uploaded by user';
 COMMENT ON COLUMN files.file_name IS 'Generated unique filename for storage';
@@ -236,7 +347,12 @@ COMMENT ON COLUMN files.file_type IS 'File extension/type (e.g., pdf, jpg, txt)'
 COMMENT ON COLUMN files.mime_type IS 'MIME type of the file';
 COMMENT ON COLUMN files.size_bytes IS 'File size in bytes';
 COMMENT ON COLUMN files.file_path IS 'Relative path to file in storage';
+COMMENT ON COLUMN files.content_hash IS 'SHA-256 of the content, or NULL until the scrubber adopts a file stored before deduplication';
+COMMENT ON COLUMN file_blobs.ref_count IS 'Files referencing this content';
+COMMENT ON COLUMN file_blobs.released_at IS 'When the last referencing file was deleted';
 COMMENT ON COLUMN files.is_public IS 'Whether file is publicly accessible';
 COMMENT ON COLUMN files.tags IS 'Array of tags for file categorization';
 COMMENT ON COLUMN files.metadata IS 'Flexible JSON metadata storage';
+COMMENT ON COLUMN upload_sessions.part_size IS 'Size of every part except the last, in bytes';
+COMMENT ON COLUMN upload_sessions.expires_at IS 'Unfinished uploads past this time are aborted and their parts removed';
 COMMENT ON COLUMN file_access_log.action IS 'Type of access: download, upload, delete, view';
\ No newline at end of file
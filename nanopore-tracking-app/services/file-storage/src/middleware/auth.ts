@@ -1,3 +1,4 @@
+import { createHmac, timingSafeEqual } from 'crypto'
 import { Request, Response, NextFunction } from 'express'
 import { logger } from '../utils/logger.js'
 
@@ -119,6 +120,59 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
   }
 }
 
+// Signed by the app that forwards chunked uploads, naming the user it signed in
+export const UPLOAD_USER_HEADER = 'x-upload-user'
+
+/**
+ * The user a forwarded-user token names, or null when it is malformed, tampered with or expired.
+ * Tokens are `<base64url JSON of id, email, role and expiresAt>.<base64url HMAC-SHA256 of that>`.
+ */
+export function verifyUploadUser(token: string | undefined, secret: string, now = Date.now()): { id: string; email: string; role: string } | null {
+  const [payload, signature, ...rest] = (token ?? '').split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(payload).digest('base64url'))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const { id, email, role, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof id !== 'string' || !id || typeof email !== 'string' || typeof role !== 'string'
+      || typeof expiresAt !== 'number' || expiresAt < now) {
+      return null
+    }
+    return { id, email, role }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Require the signed user header on chunked uploads, which are owned by the user who started them
+ */
+export const requireUploadUser = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = process.env['FILE_STORAGE_UPLOAD_USER_SECRET']
+  if (!secret) {
+    logger.error('FILE_STORAGE_UPLOAD_USER_SECRET is not set; chunked uploads are refused')
+  }
+
+  const user = secret ? verifyUploadUser(req.header(UPLOAD_USER_HEADER), secret) : null
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    })
+    return
+  }
+
+  req.user = user
+  next()
+}
+
 /**
  * Rate limiting middleware for file uploads
  */
@@ -208,6 +262,7 @@ export default {
   requireAuth,
   requireAdmin,
   optionalAuth,
+  requireUploadUser,
   uploadRateLimit,
   validateFileAccess,
   getUserId,
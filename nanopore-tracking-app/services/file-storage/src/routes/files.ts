@@ -2,12 +2,13 @@ import { Router, Request, Response } from 'express'
 import multer from 'multer'
 import { body, param, query } from 'express-validator'
 import { FileStorageService } from '../services/FileStorageService.js'
-import { authenticateToken, requireAuth, optionalAuth, getUserId } from '../middleware/auth.js'
+import { integrityScrubber } from '../services/IntegrityScrubber.js'
+import { authenticateToken, requireAuth, requireAdmin, optionalAuth, requireUploadUser, getUserId } from '../middleware/auth.js'
 import { logger } from '../utils/logger.js'
-import { uploadFileSchema, updateFileSchema, fileSearchSchema } from '../types/index.js'
+import { uploadFileSchema, updateFileSchema, fileSearchSchema, initiateUploadSchema } from '../types/index.js'
 
 const router = Router()
-const fileStorageService = new FileStorageService()
+export const fileStorageService = new FileStorageService()
 
 // Configure multer for file uploads
 const upload = multer({
@@ -27,6 +28,21 @@ const upload = multer({
   }
 })
 
+/**
+ * HTTP status for a chunked upload error
+ */
+const uploadErrorStatus = (error: unknown): number => {
+  const message = error instanceof Error ? error.message : ''
+  if (message === 'Upload not found') return 404
+  if (message === 'Access denied') return 403
+  if (message === 'Upload is not active' || message.startsWith('Upload is incomplete')) return 409
+  if (message === 'Checksum mismatch' || message === 'Invalid part number' || message.startsWith('Part size') ||
+      message.includes('is not allowed') || message.includes('exceeds maximum')) return 400
+  return 500
+}
+
+const SHA256_HEX = /^[a-f0-9]{64}$/i
+
 /**
  * Upload a file
  * POST /api/files/upload
@@ -77,6 +93,307 @@ router.post('/upload',
   }
 )
 
+/**
+ * Start a chunked upload
+ * POST /api/files/uploads
+ */
+router.post('/uploads',
+  requireUploadUser,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = initiateUploadSchema.safeParse(req.body)
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          error: parsed.error.errors.map(issue => issue.message).join(', ')
+        })
+        return
+      }
+
+      const upload = await fileStorageService.initiateUpload(parsed.data, getUserId(req)!)
+
+      res.status(201).json({
+        success: true,
+        data: upload
+      })
+    } catch (error) {
+      logger.error('Initiate upload route error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      const status = uploadErrorStatus(error)
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to start upload' : (error as Error).message
+      })
+    }
+  }
+)
+
+/**
+ * Get a chunked upload and the parts received so far, to resume it
+ * GET /api/files/uploads/:uploadId
+ */
+router.get('/uploads/:uploadId',
+  requireUploadUser,
+  [param('uploadId').isUUID()],
+  async (req: Request<{ uploadId: string }>, res: Response) => {
+    try {
+      const upload = await fileStorageService.getUpload(req.params.uploadId, getUserId(req)!)
+
+      res.json({
+        success: true,
+        data: upload
+      })
+    } catch (error) {
+      logger.error('Get upload route error', { error: error instanceof Error ? error.message : 'Unknown error', uploadId: req.params.uploadId })
+      const status = uploadErrorStatus(error)
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to get upload' : (error as Error).message
+      })
+    }
+  }
+)
+
+/**
+ * Upload one part of a chunked upload as the raw request body
+ * PUT /api/files/uploads/:uploadId/parts/:partNumber
+ * Header X-Checksum-SHA256: hex SHA-256 of the part
+ */
+router.put('/uploads/:uploadId/parts/:partNumber',
+  requireUploadUser,
+  [param('uploadId').isUUID(), param('partNumber').isInt({ min: 1 })],
+  async (req: Request<{ uploadId: string; partNumber: string }>, res: Response) => {
+    try {
+      const checksum = req.header('x-checksum-sha256')
+      if (!checksum || !SHA256_HEX.test(checksum)) {
+        res.status(400).json({
+          success: false,
+          error: 'X-Checksum-SHA256 header with the hex SHA-256 of the part is required'
+        })
+        return
+      }
+
+      // The request itself is the part; it is streamed to disk rather than buffered
+      const part = await fileStorageService.uploadPart(
+        req.params.uploadId,
+        parseInt(req.params.partNumber),
+        req,
+        checksum,
+        getUserId(req)!
+      )
+
+      res.json({
+        success: true,
+        data: part
+      })
+    } catch (error) {
+      logger.error('Upload part route error', { error: error instanceof Error ? error.message : 'Unknown error', uploadId: req.params.uploadId, partNumber: req.params.partNumber })
+      const status = uploadErrorStatus(error)
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to upload part' : (error as Error).message
+      })
+    }
+  }
+)
+
+/**
+ * Complete a chunked upload once every part is in
+ * POST /api/files/uploads/:uploadId/complete
+ */
+router.post('/uploads/:uploadId/complete',
+  requireUploadUser,
+  [param('uploadId').isUUID()],
+  async (req: Request<{ uploadId: string }>, res: Response) => {
+    try {
+      const result = await fileStorageService.completeUpload(req.params.uploadId, getUserId(req)!)
+
+      res.status(201).json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error('Complete upload route error', { error: error instanceof Error ? error.message : 'Unknown error', uploadId: req.params.uploadId })
+      const status = uploadErrorStatus(error)
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to complete upload' : (error as Error).message
+      })
+    }
+  }
+)
+
+/**
+ * Abort a chunked upload
+ * DELETE /api/files/uploads/:uploadId
+ */
+router.delete('/uploads/:uploadId',
+  requireUploadUser,
+  [param('uploadId').isUUID()],
+  async (req: Request<{ uploadId: string }>, res: Response) => {
+    try {
+      await fileStorageService.abortUpload(req.params.uploadId, getUserId(req)!)
+
+      res.json({
+        success: true,
+        message: 'Upload aborted'
+      })
+    } catch (error) {
+      logger.error('Abort upload route error', { error: error instanceof Error ? error.message : 'Unknown error', uploadId: req.params.uploadId })
+      const status = uploadErrorStatus(error)
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? 'Failed to abort upload' : (error as Error).message
+      })
+    }
+  }
+)
+
+/**
+ * Search files
+ * GET /api/files/search
+ */
+router.get('/search',
+  optionalAuth,
+  [
+    query('fileType').optional().isString(),
+    query('uploadedBy').optional().isString(),
+    query('isPublic').optional().isBoolean(),
+    query('tags').optional().isString(),
+    query('dateFrom').optional().isISO8601(),
+    query('dateTo').optional().isISO8601(),
+    query('minSize').optional().isNumeric(),
+    query('maxSize').optional().isNumeric(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 })
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const filters = {
+        fileType: req.query.fileType as string,
+        uploadedBy: req.query.uploadedBy as string,
+        isPublic: req.query.isPublic === 'true' ? true : req.query.isPublic === 'false' ? false : undefined,
+        tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
+        dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
+        dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
+        minSize: req.query.minSize ? parseInt(req.query.minSize as string) : undefined,
+        maxSize: req.query.maxSize ? parseInt(req.query.maxSize as string) : undefined
+      }
+
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+
+      const result = await fileStorageService.searchFiles(filters, page, limit)
+
+      res.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error('File search route error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      res.status(500).json({
+        success: false,
+        error: 'File search failed'
+      })
+    }
+  }
+)
+
+/**
+ * Get storage statistics
+ * GET /api/files/stats
+ */
+router.get('/stats',
+  authenticateToken,
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const stats = await fileStorageService.getStorageStats()
+
+      res.json({
+        success: true,
+        data: stats
+      })
+    } catch (error) {
+      logger.error('Get storage stats route error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get storage statistics'
+      })
+    }
+  }
+)
+
+/**
+ * Get processing capabilities
+ * GET /api/files/capabilities
+ */
+router.get('/capabilities',
+  async (req: Request, res: Response) => {
+    try {
+      const capabilities = fileStorageService.getProcessingCapabilities()
+
+      res.json({
+        success: true,
+        data: capabilities
+      })
+    } catch (error) {
+      logger.error('Get capabilities route error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get processing capabilities'
+      })
+    }
+  }
+)
+
+/**
+ * Health check endpoint
+ * GET /api/files/health
+ */
+router.get('/health',
+  async (req: Request, res: Response) => {
+    try {
+      // Basic health check
+      res.json({
+        success: true,
+        message: 'File Storage Service is healthy',
+        timestamp: new Date().toISOString()
+      })
+    } catch (error) {
+      logger.error('Health check error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      res.status(500).json({
+        success: false,
+        error: 'Service unhealthy'
+      })
+    }
+  }
+)
+
+/**
+ * Run an integrity scrub now rather than waiting for the schedule
+ * POST /api/files/scrub
+ */
+router.post('/scrub',
+  authenticateToken,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const run = await integrityScrubber.run()
+
+      res.json({
+        success: true,
+        data: run
+      })
+    } catch (error) {
+      logger.error('Storage scrub route error', { error: error instanceof Error ? error.message : 'Unknown error' })
+      res.status(500).json({
+        success: false,
+        error: 'Storage scrub failed'
+      })
+    }
+  }
+)
+
 /**
  * Download a file
  * GET /api/files/:fileId/download
@@ -121,6 +438,77 @@ router.get('/:fileId/download',
   }
 )
 
+/**
+ * Create a time-limited signed download URL
+ * GET /api/files/:fileId/signed-url?expiresIn=3600
+ */
+router.get('/:fileId/signed-url',
+  optionalAuth,
+  [param('fileId').isUUID(), query('expiresIn').optional().isInt({ min: 1 })],
+  async (req: Request<{ fileId: string }>, res: Response) => {
+    try {
+      const { fileId } = req.params
+      const expiresIn = parseInt(req.query['expiresIn'] as string) || 3600
+
+      const result = await fileStorageService.getSignedDownloadUrl(fileId, expiresIn, getUserId(req))
+
+      res.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error('Signed URL route error', { error: error instanceof Error ? error.message : 'Unknown error', fileId: req.params.fileId })
+
+      if (error instanceof Error && error.message === 'File not found') {
+        res.status(404).json({
+          success: false,
+          error: 'File not found'
+        })
+      } else if (error instanceof Error && error.message === 'Access denied') {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create signed URL'
+        })
+      }
+    }
+  }
+)
+
+/**
+ * Download a file from a signed URL issued for the local backend
+ * GET /api/files/signed/:token
+ */
+router.get('/signed/:token',
+  async (req: Request<{ token: string }>, res: Response) => {
+    try {
+      const result = await fileStorageService.openSignedDownload(req.params.token)
+
+      Object.entries(result.headers).forEach(([key, value]) => {
+        res.setHeader(key, value)
+      })
+
+      result.stream.pipe(res)
+    } catch (error) {
+      if (error instanceof Error && (error.message === 'Invalid or expired link' || error.message === 'File not found')) {
+        res.status(error.message === 'File not found' ? 404 : 403).json({
+          success: false,
+          error: error.message
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'File download failed'
+        })
+      }
+    }
+  }
+)
+
 /**
  * Get file metadata
  * GET /api/files/:fileId
@@ -253,56 +641,6 @@ router.delete('/:fileId',
   }
 )
 
-/**
- * Search files
- * GET /api/files/search
- */
-router.get('/search',
-  optionalAuth,
-  [
-    query('fileType').optional().isString(),
-    query('uploadedBy').optional().isString(),
-    query('isPublic').optional().isBoolean(),
-    query('tags').optional().isString(),
-    query('dateFrom').optional().isISO8601(),
-    query('dateTo').optional().isISO8601(),
-    query('minSize').optional().isNumeric(),
-    query('maxSize').optional().isNumeric(),
-    query('page').optional().isInt({ min: 1 }),
-    query('limit').optional().isInt({ min: 1, max: 100 })
-  ],
-  async (req: Request, res: Response) => {
-    try {
-      const filters = {
-        fileType: req.query.fileType as string,
-        uploadedBy: req.query.uploadedBy as string,
-        isPublic: req.query.isPublic === 'true' ? true : req.query.isPublic === 'false' ? false : undefined,
-        tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
-        dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
-        dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
-        minSize: req.query.minSize ? parseInt(req.query.minSize as string) : undefined,
-        maxSize: req.query.maxSize ? parseInt(req.query.maxSize as string) : undefined
-      }
-
-      const page = parseInt(req.query.page as string) || 1
-      const limit = parseInt(req.query.limit as string) || 20
-
-      const result = await fileStorageService.searchFiles(filters, page, limit)
-
-      res.json({
-        success: true,
-        data: result
-      })
-    } catch (error) {
-      logger.error('File search route error', { error: error instanceof Error ? error.message : 'Unknown error' })
-      res.status(500).json({
-        success: false,
-        error: 'File search failed'
-      })
-    }
-  }
-)
-
 /**
  * Process image file
  * POST /api/files/:fileId/process/image
@@ -386,74 +724,4 @@ router.post('/:fileId/process/pdf',
   }
 )
 
-/**
- * Get storage statistics
- * GET /api/files/stats
- */
-router.get('/stats',
-  requireAuth,
-  async (req: Request, res: Response) => {
-    try {
-      const stats = await fileStorageService.getStorageStats()
-
-      res.json({
-        success: true,
-        data: stats
-      })
-    } catch (error) {
-      logger.error('Get storage stats route error', { error: error instanceof Error ? error.message : 'Unknown error' })
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get storage statistics'
-      })
-    }
-  }
-)
-
-/**
- * Get processing capabilities
- * GET /api/files/capabilities
- */
-router.get('/capabilities',
-  async (req: Request, res: Response) => {
-    try {
-      const capabilities = fileStorageService.getProcessingCapabilities()
-
-      res.json({
-        success: true,
-        data: capabilities
-      })
-    } catch (error) {
-      logger.error('Get capabilities route error', { error: error instanceof Error ? error.message : 'Unknown error' })
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get processing capabilities'
-      })
-    }
-  }
-)
-
-/**
- * Health check endpoint
- * GET /api/files/health
- */
-router.get('/health',
-  async (req: Request, res: Response) => {
-    try {
-      // Basic health check
-      res.json({
-        success: true,
-        message: 'File Storage Service is healthy',
-        timestamp: new Date().toISOString()
-      })
-    } catch (error) {
-      logger.error('Health check error', { error: error instanceof Error ? error.message : 'Unknown error' })
-      res.status(500).json({
-        success: false,
-        error: 'Service unhealthy'
-      })
-    }
-  }
-)
-
 export default router
\ No newline at end of file
@@ -0,0 +1,57 @@
+import dotenv from 'dotenv'
+import { parseArgs } from 'util'
+
+/**
+ * Move stored files to another storage backend
+ *
+ *   npm run storage:migrate -- --to s3 [--from local] [--type fastq] [--tag raw-data] [--limit 100] [--dry-run]
+ */
+async function main() {
+  dotenv.config()
+
+  const { values } = parseArgs({
+    options: {
+      to: { type: 'string' },
+      from: { type: 'string' },
+      type: { type: 'string' },
+      tag: { type: 'string' },
+      limit: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  })
+
+  if (values.help || !values.to) {
+    console.log('Usage:')
+    console.log('  npm run storage:migrate -- --to <backend> [--from <backend>] [--type <file type>] [--tag <tag>] [--limit <n>] [--dry-run]')
+    process.exit(values.help ? 0 : 1)
+  }
+
+  // Loaded after dotenv so the registry and database see the configured environment
+  const { StorageMigrationService } = await import('../services/StorageMigrationService.js')
+  const { closeDatabase } = await import('../database/connection.js')
+
+  try {
+    const result = await new StorageMigrationService().migrate({
+      to: values.to,
+      ...(values.from ? { from: values.from } : {}),
+      ...(values.type ? { fileType: values.type } : {}),
+      ...(values.tag ? { tag: values.tag } : {}),
+      ...(values.limit ? { limit: parseInt(values.limit) } : {}),
+      dryRun: values['dry-run'] ?? false
+    })
+
+    console.log(`${values['dry-run'] ? 'Would move' : 'Moved'} ${result.moved} files (${result.bytesMoved} bytes) to ${values.to}; ${result.skipped} skipped`)
+    for (const failure of result.failed) {
+      console.error(`  ${failure.fileId}: ${failure.error}`)
+    }
+    process.exitCode = result.failed.length > 0 ? 1 : 0
+  } finally {
+    await closeDatabase()
+  }
+}
+
+main().catch(error => {
+  console.error('Storage migration failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -7,13 +7,21 @@ import rateLimit from 'express-rate-limit'
 import dotenv from 'dotenv'
 import { initializeDatabase, checkDatabaseHealth, closeDatabase } from './database/connection.js'
 import { logger, stream } from './utils/logger.js'
-import fileRoutes from './routes/files.js'
+import fileRoutes, { fileStorageService } from './routes/files.js'
+import { storageRegistry } from './storage/StorageRegistry.js'
+import { integrityScrubber } from './services/IntegrityScrubber.js'
 
 // Load environment variables
 dotenv.config()
 
 const app = express()
 const PORT = process.env.FILE_STORAGE_PORT || 3004
+const UPLOAD_CLEANUP_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const SCRUB_INTERVAL_MS = parseFloat(process.env['FILE_STORAGE_SCRUB_INTERVAL_HOURS'] || '24') * 60 * 60 * 1000
+
+// A large file arrives as hundreds of parts, so only starting a chunked upload counts against the limits
+const isChunkedUploadRequest = (req: express.Request): boolean =>
+  /^\/api\/files\/uploads\/[^/?]+/.test(req.originalUrl)
 
 // Security middleware
 app.use(helmet({
@@ -32,7 +40,7 @@ app.use(cors({
   origin: process.env.FILE_STORAGE_CORS_ORIGIN || '*',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Checksum-SHA256']
 }))
 
 // Compression middleware
@@ -48,6 +56,7 @@ const limiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  skip: isChunkedUploadRequest,
 })
 
 app.use(limiter)
@@ -62,6 +71,7 @@ const uploadLimiter = rateLimit({
   },
   skipSuccessfulRequests: false,
   skipFailedRequests: true,
+  skip: isChunkedUploadRequest,
 })
 
 // Logging middleware
@@ -105,13 +115,21 @@ app.get('/discovery', (req, res) => {
       health: '/health',
       files: '/api/files',
       upload: '/api/files/upload',
+      chunkedUpload: '/api/files/uploads',
+      signedUrl: '/api/files/:fileId/signed-url',
       download: '/api/files/:fileId/download',
       search: '/api/files/search',
       stats: '/api/files/stats',
+      scrub: '/api/files/scrub',
       capabilities: '/api/files/capabilities'
     },
     capabilities: {
       fileUpload: true,
+      chunkedUpload: true,
+      signedUrls: true,
+      storageBackends: storageRegistry.names(),
+      contentDeduplication: true,
+      integrityScrubbing: SCRUB_INTERVAL_MS > 0,
       fileDownload: true,
       fileSearch: true,
       imageProcessing: true,
@@ -205,12 +223,29 @@ async function startServer() {
     // Initialize database
     await initializeDatabase()
     
+    // Abandoned chunked uploads hold parts on disk until they expire
+    setInterval(() => {
+      fileStorageService.cleanupExpiredUploads().catch(() => {
+        // Logged by the service; retried on the next interval
+      })
+    }, UPLOAD_CLEANUP_INTERVAL_MS).unref()
+
+    // Re-hash stored content so corruption and lost objects are found before someone needs the file
+    if (SCRUB_INTERVAL_MS > 0) {
+      setInterval(() => {
+        integrityScrubber.run().catch(() => {
+          // Logged by the scrubber; retried on the next interval
+        })
+      }, SCRUB_INTERVAL_MS).unref()
+    }
+
     // Start listening
     app.listen(PORT, () => {
       logger.info('File Storage Service started', {
         port: PORT,
         environment: process.env.NODE_ENV || 'development',
         storagePath: process.env.FILE_STORAGE_PATH || './storage/files',
+        storageBackends: storageRegistry.names(),
         maxFileSize: process.env.FILE_STORAGE_MAX_SIZE || '100MB'
       })
     })
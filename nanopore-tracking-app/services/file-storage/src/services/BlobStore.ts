@@ -0,0 +1,179 @@
+import { sql, Transaction } from 'kysely'
+import { db } from '../database/connection.js'
+import { logger } from '../utils/logger.js'
+import { StorageRegistry, storageRegistry } from '../storage/StorageRegistry.js'
+import { Database, StorageBackend } from '../types/index.js'
+
+export interface AcquiredBlob {
+  // Location to record in files.file_path
+  location: string
+  // False when identical content was already stored and has been shared
+  written: boolean
+}
+
+/**
+ * Stored content addressed by its SHA-256, shared by every file with the same bytes
+ * Each file holds one reference through files.content_hash. Content nothing refers to is kept for a grace
+ * period, so an upload of the same bytes soon after a delete reuses it, and is then removed by the sweep.
+ */
+export class BlobStore {
+  private releaseGraceMs: number
+
+  constructor(private registry: StorageRegistry = storageRegistry) {
+    this.releaseGraceMs = parseInt(process.env['FILE_STORAGE_BLOB_GRACE_MINUTES'] || '60') * 60 * 1000 // 1 hour default
+  }
+
+  /**
+   * Storage key for content, spread over 256 prefixes to keep directories small
+   */
+  static keyFor(sha256: string): string {
+    return `blobs/${sha256.slice(0, 2)}/${sha256}`
+  }
+
+  /**
+   * Take a reference to content, writing it to the backend only when no intact copy is stored yet
+   * `open` is called only when the content is written. If writing fails the reference is given back.
+   */
+  async acquire(
+    sha256: string,
+    sizeBytes: number,
+    backend: StorageBackend,
+    contentType: string,
+    open: () => NodeJS.ReadableStream
+  ): Promise<AcquiredBlob> {
+    const { location, write } = await db.transaction().execute(async (trx) => {
+      // The row lock keeps the sweep from removing content while it is referenced again
+      const existing = await trx
+        .selectFrom('file_blobs')
+        .select(['storage_path', 'verify_status'])
+        .where('sha256', '=', sha256)
+        .forUpdate()
+        .executeTakeFirst()
+
+      if (existing) {
+        await trx
+          .updateTable('file_blobs')
+          .set({ ref_count: sql<number>`ref_count + 1`, released_at: null })
+          .where('sha256', '=', sha256)
+          .execute()
+
+        // A copy the scrubber found damaged is replaced by the new upload
+        return {
+          location: existing.storage_path,
+          write: existing.verify_status === 'corrupt' || existing.verify_status === 'missing'
+        }
+      }
+
+      // A concurrent upload of the same content may insert first; both then write identical bytes
+      const inserted = await trx
+        .insertInto('file_blobs')
+        .values({
+          sha256,
+          storage_path: backend.locationFor(BlobStore.keyFor(sha256)),
+          size_bytes: BigInt(sizeBytes),
+          ref_count: 1,
+          released_at: null,
+          verify_status: 'unverified',
+          verify_error: null,
+          last_verified_at: null,
+          created_at: new Date()
+        })
+        .onConflict((oc) => oc.column('sha256').doUpdateSet({
+          ref_count: sql<number>`file_blobs.ref_count + 1`,
+          released_at: null
+        }))
+        .returning('storage_path')
+        .executeTakeFirstOrThrow()
+
+      return { location: inserted.storage_path, write: true }
+    })
+
+    if (write) {
+      try {
+        const { backend: target, key } = this.registry.resolve(location)
+        await target.put(key, open(), { contentType, sizeBytes })
+
+        await db
+          .updateTable('file_blobs')
+          .set({ verify_status: 'unverified', verify_error: null })
+          .where('sha256', '=', sha256)
+          .execute()
+      } catch (error) {
+        await this.release(sha256).catch(() => undefined)
+        throw error
+      }
+    }
+
+    return { location, written: write }
+  }
+
+  /**
+   * Give back a reference; the content stays stored until the sweep finds it unreferenced past the grace period
+   */
+  async release(sha256: string, trx?: Transaction<Database>): Promise<void> {
+    await (trx ?? db)
+      .updateTable('file_blobs')
+      .set({
+        ref_count: sql<number>`GREATEST(ref_count - 1, 0)`,
+        released_at: sql<Date | null>`CASE WHEN ref_count <= 1 THEN NOW() ELSE released_at END`
+      })
+      .where('sha256', '=', sha256)
+      .execute()
+  }
+
+  /**
+   * Remove content no file has referenced for the grace period
+   */
+  async sweep(limit: number = 500): Promise<number> {
+    const candidates = await db
+      .selectFrom('file_blobs')
+      .select('sha256')
+      .where('ref_count', '=', 0)
+      .where('released_at', '<', new Date(Date.now() - this.releaseGraceMs))
+      .orderBy('released_at', 'asc')
+      .limit(limit)
+      .execute()
+
+    let removed = 0
+    for (const { sha256 } of candidates) {
+      try {
+        const swept = await db.transaction().execute(async (trx) => {
+          // Checked again under the lock, in case an upload has referenced the content since
+          const blob = await trx
+            .selectFrom('file_blobs')
+            .select('storage_path')
+            .where('sha256', '=', sha256)
+            .where('ref_count', '=', 0)
+            .forUpdate()
+            .executeTakeFirst()
+
+          if (!blob) {
+            return false
+          }
+
+          // The row goes first so a failed delete of the object rolls it back and the sweep retries
+          await trx.deleteFrom('file_blobs').where('sha256', '=', sha256).execute()
+          const { backend, key } = this.registry.resolve(blob.storage_path)
+          await backend.delete(key)
+          return true
+        })
+
+        if (swept) {
+          removed++
+        }
+      } catch (error) {
+        logger.error('Failed to remove unreferenced content', { error: error instanceof Error ? error.message : 'Unknown error', sha256 })
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Removed unreferenced content', { removed })
+    }
+
+    return removed
+  }
+}
+
+export const blobStore = new BlobStore()
+
+export default BlobStore
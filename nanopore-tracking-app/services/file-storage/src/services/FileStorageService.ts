@@ -1,17 +1,30 @@
-import { promises as fs } from 'fs'
+import { promises as fs, createReadStream, createWriteStream } from 'fs'
 import path from 'path'
+import { createHash } from 'crypto'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
 import { v4 as uuidv4 } from 'uuid'
 import mime from 'mime-types'
 import sharp from 'sharp'
 import pdf from 'pdf-parse'
 import { db } from '../database/connection.js'
+import { storageRegistry } from '../storage/StorageRegistry.js'
+import { LocalStorageBackend } from '../storage/LocalStorageBackend.js'
+import { blobStore } from './BlobStore.js'
+import { integrityScrubber } from './IntegrityScrubber.js'
 import { logger, logFileOperation } from '../utils/logger.js'
 import {
   FileMetadata,
   CreateFileRequest,
   UpdateFileRequest,
   UploadResult,
+  InitiateUploadRequest,
+  ChunkedUpload,
+  UploadedPart,
+  UploadSessionsTable,
+  UploadPartsTable,
   DownloadResult,
+  SignedDownload,
   FileProcessingResult,
   ImageProcessingOptions,
   PDFProcessingOptions,
@@ -21,17 +34,29 @@ import {
   StorageStats
 } from '../types/index.js'
 
+const MIN_PART_SIZE = 1024 * 1024 // 1MB
+const MAX_PART_SIZE = 512 * 1024 * 1024 // 512MB
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60 // 7 days, the longest S3 allows
+
 export class FileStorageService {
   private storagePath: string
   private maxFileSize: number
   private allowedTypes: string[]
   private allowedMimeTypes: string[]
+  private uploadPartSize: number
+  private maxUploadSize: number
+  private uploadTtlHours: number
+  private chunkedAllowedTypes: string[]
 
   constructor() {
     this.storagePath = process.env.FILE_STORAGE_PATH || './storage/files'
     this.maxFileSize = parseInt(process.env.FILE_STORAGE_MAX_SIZE || '104857600') // 100MB default
     this.allowedTypes = (process.env.FILE_STORAGE_ALLOWED_TYPES || 'pdf,jpg,jpeg,png,gif,txt,csv,xlsx,docx').split(',')
     this.allowedMimeTypes = (process.env.FILE_STORAGE_ALLOWED_MIME_TYPES || 'application/pdf,image/jpeg,image/png,image/gif,text/plain,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.openxmlformats-officedocument.wordprocessingml.document').split(',')
+    this.uploadPartSize = parseInt(process.env['FILE_STORAGE_UPLOAD_PART_SIZE'] || '16777216') // 16MB default
+    this.maxUploadSize = parseInt(process.env['FILE_STORAGE_MAX_UPLOAD_SIZE'] || '53687091200') // 50GB default
+    this.uploadTtlHours = parseInt(process.env['FILE_STORAGE_UPLOAD_TTL_HOURS'] || '168') // 7 days default
+    this.chunkedAllowedTypes = (process.env['FILE_STORAGE_CHUNKED_ALLOWED_TYPES'] || 'fastq,fq,fasta,fa,bam,bai,cram,sam,vcf,bed,pod5,fast5,gz,zip,tar,csv,tsv,txt,pdf').split(',')
     
     this.ensureStorageDirectory()
   }
@@ -69,10 +94,12 @@ export class FileStorageService {
       // Generate unique filename
       const fileType = this.getFileExtension(originalName)
       const fileName = `${uuidv4()}_${Date.now()}.${fileType}`
-      const filePath = path.join(this.storagePath, fileName)
+      const contentHash = createHash('sha256').update(buffer).digest('hex')
 
-      // Save file to disk
-      await fs.writeFile(filePath, buffer)
+      // Store the content on the backend chosen for its tags and type, unless identical content is already stored
+      const backend = storageRegistry.select({ tags, fileType })
+      const blob = await blobStore.acquire(contentHash, buffer.length, backend, mimeType, () => Readable.from(buffer))
+      const filePath = blob.location
 
       // Create database record
       const fileData = {
@@ -82,6 +109,7 @@ export class FileStorageService {
         mime_type: mimeType,
         size_bytes: BigInt(buffer.length),
         file_path: filePath,
+        content_hash: contentHash,
         description: description || null,
         uploaded_by: userId || null,
         is_public: isPublic,
@@ -96,6 +124,10 @@ export class FileStorageService {
         .values(fileData)
         .returningAll()
         .executeTakeFirstOrThrow()
+        .catch(async (error) => {
+          await blobStore.release(contentHash).catch(() => undefined)
+          throw error
+        })
 
       // Log access
       await this.logFileAccess(file.id, userId, 'upload')
@@ -109,6 +141,7 @@ export class FileStorageService {
         mimeType: file.mime_type,
         sizeBytes: Number(file.size_bytes),
         filePath: file.file_path,
+        ...(file.content_hash ? { contentHash: file.content_hash } : {}),
         description: file.description || undefined,
         uploadedBy: file.uploaded_by || undefined,
         uploadedAt: file.uploaded_at,
@@ -118,7 +151,7 @@ export class FileStorageService {
         metadata: file.metadata || undefined
       }
 
-      logFileOperation('upload', file.id, userId, { originalName, size: buffer.length })
+      logFileOperation('upload', file.id, userId, { originalName, size: buffer.length, backend: backend.name, deduplicated: !blob.written })
 
       return {
         file: fileMetadata,
@@ -131,6 +164,337 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Start a chunked upload for a large data file
+   * Parts can be sent in any order; what has been received is kept in the database so the upload can resume after a restart
+   */
+  async initiateUpload(request: InitiateUploadRequest, userId: string): Promise<ChunkedUpload> {
+    try {
+      const fileType = this.getFileExtension(request.fileName)
+      if (!this.chunkedAllowedTypes.includes(fileType)) {
+        throw new Error(`File type ${fileType} is not allowed`)
+      }
+
+      if (request.sizeBytes > this.maxUploadSize) {
+        throw new Error(`File size ${request.sizeBytes} exceeds maximum allowed size of ${this.maxUploadSize} bytes`)
+      }
+
+      const partSize = Math.min(Math.max(request.partSize || this.uploadPartSize, MIN_PART_SIZE), MAX_PART_SIZE)
+      const uploadId = uuidv4()
+
+      await fs.mkdir(this.getUploadDirectory(uploadId), { recursive: true })
+
+      const session = await db
+        .insertInto('upload_sessions')
+        .values({
+          id: uploadId,
+          original_name: request.fileName,
+          file_type: fileType,
+          mime_type: request.mimeType || mime.lookup(request.fileName) || 'application/octet-stream',
+          size_bytes: BigInt(request.sizeBytes),
+          part_size: BigInt(partSize),
+          total_parts: Math.ceil(request.sizeBytes / partSize),
+          description: request.description || null,
+          uploaded_by: userId,
+          is_public: request.isPublic || false,
+          tags: request.tags || [],
+          metadata: request.metadata || null,
+          status: 'active',
+          created_at: new Date(),
+          updated_at: new Date(),
+          expires_at: new Date(Date.now() + this.uploadTtlHours * 60 * 60 * 1000)
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      logFileOperation('upload_initiate', uploadId, userId, { originalName: request.fileName, size: request.sizeBytes, totalParts: session.total_parts })
+
+      return this.toChunkedUpload(session, [])
+    } catch (error) {
+      logger.error('Initiate upload failed', { error: error instanceof Error ? error.message : 'Unknown error', fileName: request.fileName })
+      throw error
+    }
+  }
+
+  /**
+   * Get a chunked upload with the parts received so far
+   */
+  async getUpload(uploadId: string, userId: string): Promise<ChunkedUpload> {
+    try {
+      const session = await this.getOwnedUpload(uploadId, userId)
+      return this.toChunkedUpload(session, await this.getUploadParts(uploadId))
+    } catch (error) {
+      logger.error('Get upload failed', { error: error instanceof Error ? error.message : 'Unknown error', uploadId })
+      throw error
+    }
+  }
+
+  /**
+   * Stream one part to disk, verifying its size and SHA-256 checksum
+   * Sending a part again replaces it, so a client can retry a part it is unsure about
+   */
+  async uploadPart(
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    checksumSha256: string,
+    userId: string
+  ): Promise<UploadedPart> {
+    const partPath = this.getPartPath(uploadId, partNumber)
+    const tempPath = `${partPath}.${uuidv4()}.tmp`
+
+    try {
+      const session = await this.getOwnedUpload(uploadId, userId)
+      this.assertUploadActive(session)
+
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.total_parts) {
+        throw new Error('Invalid part number')
+      }
+
+      const partSize = Number(session.part_size)
+      const expectedSize = partNumber === session.total_parts
+        ? Number(session.size_bytes) - partSize * (session.total_parts - 1)
+        : partSize
+
+      const hash = createHash('sha256')
+      let received = 0
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length
+          if (received > expectedSize) {
+            callback(new Error(`Part size exceeds expected ${expectedSize} bytes`))
+            return
+          }
+          hash.update(chunk)
+          callback(null, chunk)
+        }
+      })
+
+      await fs.mkdir(this.getUploadDirectory(uploadId), { recursive: true })
+      await pipeline(body, meter, createWriteStream(tempPath))
+
+      if (received !== expectedSize) {
+        throw new Error(`Part size ${received} does not match expected ${expectedSize} bytes`)
+      }
+
+      const checksum = hash.digest('hex')
+      if (checksum !== checksumSha256.toLowerCase()) {
+        throw new Error('Checksum mismatch')
+      }
+
+      await fs.rename(tempPath, partPath)
+
+      await db
+        .insertInto('upload_parts')
+        .values({
+          upload_id: uploadId,
+          part_number: partNumber,
+          size_bytes: BigInt(received),
+          checksum_sha256: checksum,
+          uploaded_at: new Date()
+        })
+        .onConflict(oc => oc.columns(['upload_id', 'part_number']).doUpdateSet({
+          size_bytes: BigInt(received),
+          checksum_sha256: checksum,
+          uploaded_at: new Date()
+        }))
+        .execute()
+
+      return { partNumber, sizeBytes: received, checksumSha256: checksum }
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      logger.error('Upload part failed', { error: error instanceof Error ? error.message : 'Unknown error', uploadId, partNumber })
+      throw error
+    }
+  }
+
+  /**
+   * Join the parts into the stored file and record it
+   */
+  async completeUpload(uploadId: string, userId: string): Promise<UploadResult> {
+    let acquiredHash: string | undefined
+
+    try {
+      const session = await this.getOwnedUpload(uploadId, userId)
+      this.assertUploadActive(session)
+
+      // Parts recorded before a restart may have been lost with the disk, so check they are still there
+      const parts = await this.getUploadParts(uploadId)
+      const present: UploadedPart[] = []
+      for (const part of parts) {
+        const stats = await fs.stat(this.getPartPath(uploadId, part.partNumber)).catch(() => null)
+        if (stats?.size === part.sizeBytes) {
+          present.push(part)
+        } else {
+          await db
+            .deleteFrom('upload_parts')
+            .where('upload_id', '=', uploadId)
+            .where('part_number', '=', part.partNumber)
+            .execute()
+        }
+      }
+
+      if (present.length !== session.total_parts) {
+        throw new Error(`Upload is incomplete: ${session.total_parts - present.length} of ${session.total_parts} parts missing`)
+      }
+
+      const fileName = `${uuidv4()}_${Date.now()}.${session.file_type}`
+      const backend = storageRegistry.select({ tags: session.tags, fileType: session.file_type })
+      const partPaths = present.map(part => this.getPartPath(uploadId, part.partNumber))
+
+      // Parts are staged locally, so hash them first and only transfer content that is not stored yet
+      const hash = createHash('sha256')
+      for (const partPath of partPaths) {
+        for await (const chunk of createReadStream(partPath)) {
+          hash.update(chunk as Buffer)
+        }
+      }
+      const contentHash = hash.digest('hex')
+
+      const joined = () => Readable.from((async function* () {
+        for (const partPath of partPaths) {
+          for await (const chunk of createReadStream(partPath)) {
+            yield chunk as Buffer
+          }
+        }
+      })())
+      const blob = await blobStore.acquire(contentHash, Number(session.size_bytes), backend, session.mime_type, joined)
+      acquiredHash = contentHash
+      const finalPath = blob.location
+
+      const file = await db.transaction().execute(async (trx) => {
+        // Only one completion may win when a client retries
+        const claimed = await trx
+          .updateTable('upload_sessions')
+          .set({ status: 'completed', updated_at: new Date() })
+          .where('id', '=', uploadId)
+          .where('status', '=', 'active')
+          .executeTakeFirst()
+
+        if (Number(claimed.numUpdatedRows) === 0) {
+          throw new Error('Upload is not active')
+        }
+
+        const inserted = await trx
+          .insertInto('files')
+          .values({
+            id: uuidv4(),
+            original_name: session.original_name,
+            file_name: fileName,
+            file_type: session.file_type,
+            mime_type: session.mime_type,
+            size_bytes: session.size_bytes,
+            file_path: finalPath,
+            content_hash: contentHash,
+            ...(session.description ? { description: session.description } : {}),
+            ...(session.uploaded_by ? { uploaded_by: session.uploaded_by } : {}),
+            is_public: session.is_public,
+            tags: session.tags || [],
+            metadata: { ...(session.metadata || {}), uploadId },
+            uploaded_at: new Date(),
+            updated_at: new Date()
+          })
+          .returningAll()
+          .executeTakeFirstOrThrow()
+
+        await trx
+          .updateTable('upload_sessions')
+          .set({ file_id: inserted.id })
+          .where('id', '=', uploadId)
+          .execute()
+
+        return inserted
+      })
+
+      await this.removeUploadParts(uploadId)
+      await this.logFileAccess(file.id, userId, 'upload')
+
+      const fileMetadata: FileMetadata = {
+        id: file.id,
+        originalName: file.original_name,
+        fileName: file.file_name,
+        fileType: file.file_type,
+        mimeType: file.mime_type,
+        sizeBytes: Number(file.size_bytes),
+        filePath: file.file_path,
+        ...(file.content_hash ? { contentHash: file.content_hash } : {}),
+        ...(file.description ? { description: file.description } : {}),
+        ...(file.uploaded_by ? { uploadedBy: file.uploaded_by } : {}),
+        uploadedAt: file.uploaded_at,
+        updatedAt: file.updated_at,
+        isPublic: file.is_public,
+        ...(file.tags ? { tags: file.tags } : {}),
+        ...(file.metadata ? { metadata: file.metadata } : {})
+      }
+
+      logFileOperation('upload', file.id, userId, { originalName: file.original_name, size: Number(file.size_bytes), uploadId, parts: present.length, backend: backend.name, deduplicated: !blob.written })
+
+      return {
+        file: fileMetadata,
+        filePath: finalPath,
+        url: `/api/files/${file.id}`
+      }
+    } catch (error) {
+      if (acquiredHash) {
+        await blobStore.release(acquiredHash).catch(() => undefined)
+      }
+      logger.error('Complete upload failed', { error: error instanceof Error ? error.message : 'Unknown error', uploadId })
+      throw error
+    }
+  }
+
+  /**
+   * Abort a chunked upload and discard its parts
+   */
+  async abortUpload(uploadId: string, userId: string): Promise<void> {
+    try {
+      const session = await this.getOwnedUpload(uploadId, userId)
+      if (session.status === 'completed') {
+        throw new Error('Upload is not active')
+      }
+
+      await db
+        .updateTable('upload_sessions')
+        .set({ status: 'aborted', updated_at: new Date() })
+        .where('id', '=', uploadId)
+        .execute()
+
+      await this.removeUploadParts(uploadId)
+
+      logFileOperation('upload_abort', uploadId, userId)
+    } catch (error) {
+      logger.error('Abort upload failed', { error: error instanceof Error ? error.message : 'Unknown error', uploadId })
+      throw error
+    }
+  }
+
+  /**
+   * Abort unfinished uploads past their expiry so abandoned parts do not fill the disk
+   */
+  async cleanupExpiredUploads(): Promise<number> {
+    try {
+      const expired = await db
+        .updateTable('upload_sessions')
+        .set({ status: 'aborted', updated_at: new Date() })
+        .where('status', '=', 'active')
+        .where('expires_at', '<', new Date())
+        .returning('id')
+        .execute()
+
+      for (const session of expired) {
+        await this.removeUploadParts(session.id)
+      }
+
+      if (expired.length > 0) {
+        logger.info('Expired uploads aborted', { count: expired.length })
+      }
+      return expired.length
+    } catch (error) {
+      logger.error('Expired upload cleanup failed', { error: error instanceof Error ? error.message : 'Unknown error' })
+      throw error
+    }
+  }
+
   /**
    * Download a file
    */
@@ -151,13 +515,11 @@ export class FileStorageService {
         throw new Error('Access denied')
       }
 
-      // Check if file exists on disk
-      if (!await this.fileExists(file.file_path)) {
-        throw new Error('File not found on disk')
-      }
-
-      // Read file
-      const buffer = await fs.readFile(file.file_path)
+      // Stream from whichever backend holds the file
+      const { backend, key } = storageRegistry.resolve(file.file_path)
+      const stream = await backend.get(key).catch(() => {
+        throw new Error('File not found on storage backend')
+      })
 
       // Log access
       await this.logFileAccess(fileId, userId, 'download')
@@ -171,6 +533,7 @@ export class FileStorageService {
         mimeType: file.mime_type,
         sizeBytes: Number(file.size_bytes),
         filePath: file.file_path,
+        ...(file.content_hash ? { contentHash: file.content_hash } : {}),
         description: file.description || undefined,
         uploadedBy: file.uploaded_by || undefined,
         uploadedAt: file.uploaded_at,
@@ -184,11 +547,11 @@ export class FileStorageService {
 
       return {
         file: fileMetadata,
-        stream: require('stream').Readable.from(buffer),
+        stream,
         headers: {
           'Content-Type': file.mime_type,
           'Content-Disposition': `attachment; filename="${file.original_name}"`,
-          'Content-Length': buffer.length.toString()
+          'Content-Length': file.size_bytes.toString()
         }
       }
     } catch (error) {
@@ -197,6 +560,78 @@ export class FileStorageService {
     }
   }
 
+  /**
+   * Create a time-limited download URL that works without the caller's credentials
+   */
+  async getSignedDownloadUrl(fileId: string, expiresInSeconds: number, userId?: string): Promise<SignedDownload> {
+    try {
+      const file = await db
+        .selectFrom('files')
+        .selectAll()
+        .where('id', '=', fileId)
+        .executeTakeFirst()
+
+      if (!file) {
+        throw new Error('File not found')
+      }
+
+      // Check access permissions
+      if (!file.is_public && file.uploaded_by !== userId) {
+        throw new Error('Access denied')
+      }
+
+      const expiresIn = Math.min(Math.max(Math.floor(expiresInSeconds), 1), MAX_SIGNED_URL_SECONDS)
+      const { backend, key } = storageRegistry.resolve(file.file_path)
+      const url = await backend.getSignedUrl(key, {
+        expiresInSeconds: expiresIn,
+        fileName: file.original_name,
+        contentType: file.mime_type
+      })
+
+      await this.logFileAccess(fileId, userId, 'download')
+      logFileOperation('signed_url', fileId, userId, { backend: backend.name, expiresIn })
+
+      return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) }
+    } catch (error) {
+      logger.error('Create signed URL failed', { error: error instanceof Error ? error.message : 'Unknown error', fileId })
+      throw error
+    }
+  }
+
+  /**
+   * Open a file from a signed URL issued by a local backend
+   */
+  async openSignedDownload(token: string): Promise<{ stream: NodeJS.ReadableStream; headers: Record<string, string> }> {
+    try {
+      for (const name of storageRegistry.names()) {
+        const backend = storageRegistry.get(name)
+        const grant = backend instanceof LocalStorageBackend ? backend.verifySignedToken(token) : null
+        if (!grant) {
+          continue
+        }
+
+        const size = await backend.size(grant.key)
+        if (size === null) {
+          throw new Error('File not found')
+        }
+
+        return {
+          stream: await backend.get(grant.key),
+          headers: {
+            'Content-Type': grant.contentType,
+            'Content-Disposition': `attachment; filename="${grant.fileName.replace(/["\\\r\n]/g, '_')}"`,
+            'Content-Length': size.toString()
+          }
+        }
+      }
+
+      throw new Error('Invalid or expired link')
+    } catch (error) {
+      logger.error('Signed download failed', { error: error instanceof Error ? error.message : 'Unknown error' })
+      throw error
+    }
+  }
+
   /**
    * Get file metadata
    */
@@ -228,6 +663,7 @@ export class FileStorageService {
         mimeType: file.mime_type,
         sizeBytes: Number(file.size_bytes),
         filePath: file.file_path,
+        ...(file.content_hash ? { contentHash: file.content_hash } : {}),
         description: file.description || undefined,
         uploadedBy: file.uploaded_by || undefined,
         uploadedAt: file.uploaded_at,
@@ -286,6 +722,7 @@ export class FileStorageService {
         mimeType: updatedFile.mime_type,
         sizeBytes: Number(updatedFile.size_bytes),
         filePath: updatedFile.file_path,
+        ...(updatedFile.content_hash ? { contentHash: updatedFile.content_hash } : {}),
         description: updatedFile.description || undefined,
         uploadedBy: updatedFile.uploaded_by || undefined,
         uploadedAt: updatedFile.uploaded_at,
@@ -320,17 +757,27 @@ export class FileStorageService {
         throw new Error('Access denied')
       }
 
-      // Delete from disk
-      if (await this.fileExists(file.file_path)) {
-        await fs.unlink(file.file_path)
+      if (file.content_hash) {
+        // Shared content is only removed once no other file refers to it
+        const contentHash = file.content_hash
+        await db.transaction().execute(async (trx) => {
+          await trx
+            .deleteFrom('files')
+            .where('id', '=', fileId)
+            .execute()
+          await blobStore.release(contentHash, trx)
+        })
+      } else {
+        // Stored before deduplication, so this file is the only one using its copy
+        const { backend, key } = storageRegistry.resolve(file.file_path)
+        await backend.delete(key)
+
+        await db
+          .deleteFrom('files')
+          .where('id', '=', fileId)
+          .execute()
       }
 
-      // Delete from database
-      await db
-        .deleteFrom('files')
-        .where('id', '=', fileId)
-        .execute()
-
       // Log access
       await this.logFileAccess(fileId, userId, 'delete')
 
@@ -406,6 +853,7 @@ export class FileStorageService {
         mimeType: file.mime_type,
         sizeBytes: Number(file.size_bytes),
         filePath: file.file_path,
+        ...(file.content_hash ? { contentHash: file.content_hash } : {}),
         description: file.description || undefined,
         uploadedBy: file.uploaded_by || undefined,
         uploadedAt: file.uploaded_at,
@@ -443,7 +891,7 @@ export class FileStorageService {
       }
 
       const startTime = Date.now()
-      const buffer = await fs.readFile(file.filePath)
+      const buffer = await this.readFileContent(file.filePath)
       
       let processedImage = sharp(buffer)
 
@@ -505,7 +953,7 @@ export class FileStorageService {
       }
 
       const startTime = Date.now()
-      const buffer = await fs.readFile(file.filePath)
+      const buffer = await this.readFileContent(file.filePath)
       
       const result: any = {}
 
@@ -570,6 +1018,11 @@ export class FileStorageService {
         .limit(30)
         .execute()
 
+      const filesByLocation = await db
+        .selectFrom('files')
+        .select('file_path')
+        .execute()
+
       const totalFiles = Number(stats?.totalFiles || 0)
       const totalSizeBytes = Number(stats?.totalSizeBytes || 0)
       const averageFileSizeBytes = Number(stats?.averageFileSizeBytes || 0)
@@ -584,13 +1037,26 @@ export class FileStorageService {
         filesByDateMap[item.date as string] = Number(item.count)
       })
 
+      const filesByBackendMap: Record<string, number> = {}
+      filesByLocation.forEach(item => {
+        let backendName = 'unknown'
+        try {
+          backendName = storageRegistry.resolve(item.file_path).backend.name
+        } catch {
+          // Recorded on a backend that is no longer configured
+        }
+        filesByBackendMap[backendName] = (filesByBackendMap[backendName] || 0) + 1
+      })
+
       return {
         totalFiles,
         totalSizeBytes,
         averageFileSizeBytes,
         filesByType: filesByTypeMap,
         filesByDate: filesByDateMap,
-        storageUsagePercent: 0 // Would need to calculate based on available disk space
+        storageUsagePercent: 0, // Would need to calculate based on available disk space
+        filesByBackend: filesByBackendMap,
+        integrity: await integrityScrubber.report()
       }
     } catch (error) {
       logger.error('Get storage stats failed', { error: error instanceof Error ? error.message : 'Unknown error' })
@@ -639,14 +1105,106 @@ export class FileStorageService {
   }
 
   /**
-   * Check if file exists
+   * Read a whole file from its storage backend, for processing that needs it in memory
    */
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      await fs.access(filePath)
-      return true
-    } catch {
-      return false
+  private async readFileContent(filePath: string): Promise<Buffer> {
+    const { backend, key } = storageRegistry.resolve(filePath)
+    const chunks: Buffer[] = []
+    for await (const chunk of await backend.get(key)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+    }
+    return Buffer.concat(chunks)
+  }
+
+  /**
+   * Get an upload session, checking it belongs to the user
+   */
+  private async getOwnedUpload(uploadId: string, userId: string): Promise<UploadSessionsTable> {
+    const session = await db
+      .selectFrom('upload_sessions')
+      .selectAll()
+      .where('id', '=', uploadId)
+      .executeTakeFirst()
+
+    if (!session) {
+      throw new Error('Upload not found')
+    }
+
+    if (session.uploaded_by !== userId) {
+      throw new Error('Access denied')
+    }
+
+    return session
+  }
+
+  /**
+   * Ensure an upload can still receive parts
+   */
+  private assertUploadActive(session: UploadSessionsTable): void {
+    if (session.status !== 'active' || session.expires_at < new Date()) {
+      throw new Error('Upload is not active')
+    }
+  }
+
+  /**
+   * Get the parts received for an upload, in order
+   */
+  private async getUploadParts(uploadId: string): Promise<UploadedPart[]> {
+    const parts: UploadPartsTable[] = await db
+      .selectFrom('upload_parts')
+      .selectAll()
+      .where('upload_id', '=', uploadId)
+      .orderBy('part_number', 'asc')
+      .execute()
+
+    return parts.map(part => ({
+      partNumber: part.part_number,
+      sizeBytes: Number(part.size_bytes),
+      checksumSha256: part.checksum_sha256
+    }))
+  }
+
+  /**
+   * Remove an upload's part files and records
+   */
+  private async removeUploadParts(uploadId: string): Promise<void> {
+    await fs.rm(this.getUploadDirectory(uploadId), { recursive: true, force: true })
+    await db
+      .deleteFrom('upload_parts')
+      .where('upload_id', '=', uploadId)
+      .execute()
+  }
+
+  /**
+   * Get the directory holding an upload's parts
+   */
+  private getUploadDirectory(uploadId: string): string {
+    return path.join(this.storagePath, '.uploads', uploadId)
+  }
+
+  /**
+   * Get the path of one part of an upload
+   */
+  private getPartPath(uploadId: string, partNumber: number): string {
+    return path.join(this.getUploadDirectory(uploadId), `${partNumber}.part`)
+  }
+
+  /**
+   * Convert an upload session to its API shape
+   */
+  private toChunkedUpload(session: UploadSessionsTable, parts: UploadedPart[]): ChunkedUpload {
+    return {
+      uploadId: session.id,
+      originalName: session.original_name,
+      mimeType: session.mime_type,
+      sizeBytes: Number(session.size_bytes),
+      partSize: Number(session.part_size),
+      totalParts: session.total_parts,
+      status: session.status,
+      parts,
+      uploadedBytes: parts.reduce((total, part) => total + part.sizeBytes, 0),
+      ...(session.file_id ? { fileId: session.file_id } : {}),
+      expiresAt: session.expires_at
     }
   }
 
@@ -0,0 +1,363 @@
+import { createHash, randomUUID } from 'crypto'
+import { sql } from 'kysely'
+import { db } from '../database/connection.js'
+import { logger } from '../utils/logger.js'
+import { StorageRegistry, storageRegistry } from '../storage/StorageRegistry.js'
+import { BlobStore, blobStore } from './BlobStore.js'
+import {
+  BlobProblem,
+  BlobVerifyStatus,
+  IntegrityReport,
+  ScrubRun,
+  StorageScrubRunsTable
+} from '../types/index.js'
+
+type ScrubCounts = Omit<StorageScrubRunsTable, 'id' | 'bytes_checked' | 'error' | 'started_at' | 'finished_at'> & { bytes_checked: number }
+
+const MAX_REPORTED_PROBLEMS = 50
+
+/**
+ * Re-hashes stored content and records what no longer matches
+ * Each run also hashes a batch of files stored before deduplication and moves them onto shared content,
+ * then removes content no file references any more.
+ */
+export class IntegrityScrubber {
+  private batchSize: number
+  private running: Promise<ScrubRun> | null = null
+
+  constructor(
+    private store: BlobStore = blobStore,
+    private registry: StorageRegistry = storageRegistry
+  ) {
+    this.batchSize = parseInt(process.env['FILE_STORAGE_SCRUB_BATCH_SIZE'] || '500')
+  }
+
+  /**
+   * Run a scrub, or wait for the one already in progress
+   */
+  run(): Promise<ScrubRun> {
+    if (!this.running) {
+      this.running = this.scrub().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  /**
+   * Blob verification counts, outstanding problems and the latest finished run
+   */
+  async report(): Promise<IntegrityReport> {
+    try {
+      const byStatus = await db
+        .selectFrom('file_blobs')
+        .select(['verify_status', db.fn.count('sha256').as('count')])
+        .where('ref_count', '>', 0)
+        .groupBy('verify_status')
+        .execute()
+
+      const shared = await db
+        .selectFrom('file_blobs')
+        .select(sql<string>`COALESCE(SUM(size_bytes * (ref_count - 1)), 0)`.as('bytes'))
+        .where('ref_count', '>', 1)
+        .executeTakeFirst()
+
+      const unhashed = await db
+        .selectFrom('files')
+        .select(db.fn.count('id').as('count'))
+        .where('content_hash', 'is', null)
+        .executeTakeFirst()
+
+      const damaged = await db
+        .selectFrom('file_blobs')
+        .select(['sha256', 'verify_status', 'verify_error', 'last_verified_at'])
+        .where('ref_count', '>', 0)
+        .where('verify_status', 'in', ['corrupt', 'missing'])
+        .orderBy('last_verified_at', 'desc')
+        .limit(MAX_REPORTED_PROBLEMS)
+        .execute()
+
+      const affectedFiles = damaged.length > 0
+        ? await db
+          .selectFrom('files')
+          .select(['id', 'content_hash'])
+          .where('content_hash', 'in', damaged.map(blob => blob.sha256))
+          .execute()
+        : []
+
+      const lastRun = await db
+        .selectFrom('storage_scrub_runs')
+        .selectAll()
+        .where('finished_at', 'is not', null)
+        .orderBy('started_at', 'desc')
+        .limit(1)
+        .executeTakeFirst()
+
+      const blobs: Record<BlobVerifyStatus, number> = { unverified: 0, ok: 0, corrupt: 0, missing: 0 }
+      byStatus.forEach(item => {
+        blobs[item.verify_status] = Number(item.count)
+      })
+
+      const problems: BlobProblem[] = damaged.map(blob => ({
+        sha256: blob.sha256,
+        status: blob.verify_status as BlobProblem['status'],
+        error: blob.verify_error || undefined,
+        lastVerifiedAt: blob.last_verified_at || undefined,
+        fileIds: affectedFiles.filter(file => file.content_hash === blob.sha256).map(file => file.id)
+      }))
+
+      const degraded = blobs.corrupt > 0 || blobs.missing > 0 || (lastRun?.files_missing ?? 0) > 0
+
+      return {
+        status: degraded ? 'degraded' : 'healthy',
+        blobs,
+        unhashedFiles: Number(unhashed?.count || 0),
+        deduplicatedBytes: Number(shared?.bytes || 0),
+        problems,
+        lastRun: lastRun ? this.toScrubRun(lastRun) : undefined
+      }
+    } catch (error) {
+      logger.error('Get integrity report failed', { error: error instanceof Error ? error.message : 'Unknown error' })
+      throw error
+    }
+  }
+
+  private async scrub(): Promise<ScrubRun> {
+    const counts: ScrubCounts = {
+      blobs_checked: 0,
+      blobs_ok: 0,
+      blobs_corrupt: 0,
+      blobs_missing: 0,
+      bytes_checked: 0,
+      files_adopted: 0,
+      files_missing: 0,
+      blobs_removed: 0
+    }
+    let failure: string | null = null
+
+    const run = await db
+      .insertInto('storage_scrub_runs')
+      .values({ id: randomUUID(), ...counts, bytes_checked: BigInt(0), error: null, started_at: new Date(), finished_at: null })
+      .returning('id')
+      .executeTakeFirstOrThrow()
+
+    try {
+      await this.adoptUnhashedFiles(counts)
+      await this.verifyBlobs(counts)
+      counts.blobs_removed = await this.store.sweep(this.batchSize)
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Unknown error'
+      logger.error('Storage scrub failed', { error: failure, runId: run.id })
+    }
+
+    const finished = await db
+      .updateTable('storage_scrub_runs')
+      .set({ ...counts, bytes_checked: BigInt(counts.bytes_checked), error: failure, finished_at: new Date() })
+      .where('id', '=', run.id)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+
+    logger.info('Storage scrub finished', { runId: run.id, ...counts, error: failure })
+
+    return this.toScrubRun(finished)
+  }
+
+  /**
+   * Re-hash the content verified longest ago
+   */
+  private async verifyBlobs(counts: ScrubCounts): Promise<void> {
+    const blobs = await db
+      .selectFrom('file_blobs')
+      .select(['sha256', 'storage_path', 'size_bytes', 'verify_status'])
+      .where('ref_count', '>', 0)
+      .orderBy(sql`last_verified_at ASC NULLS FIRST`)
+      .limit(this.batchSize)
+      .execute()
+
+    for (const blob of blobs) {
+      let stored: { sha256: string; sizeBytes: number } | null
+      try {
+        stored = await this.hashStored(blob.storage_path)
+      } catch (error) {
+        // A read that fails part way is left for the next run rather than reported as damage
+        logger.warn('Could not read stored content for verification', { error: error instanceof Error ? error.message : 'Unknown error', sha256: blob.sha256 })
+        continue
+      }
+
+      let status: BlobVerifyStatus = 'ok'
+      let verifyError: string | null = null
+      if (!stored) {
+        status = 'missing'
+        verifyError = `Not found at ${blob.storage_path}`
+      } else if (stored.sha256 !== blob.sha256) {
+        status = 'corrupt'
+        verifyError = `Content hashes to ${stored.sha256} (${stored.sizeBytes} of ${Number(blob.size_bytes)} bytes)`
+      }
+
+      await db
+        .updateTable('file_blobs')
+        .set({ verify_status: status, verify_error: verifyError, last_verified_at: new Date() })
+        .where('sha256', '=', blob.sha256)
+        .execute()
+
+      counts.blobs_checked++
+      counts.bytes_checked += stored?.sizeBytes ?? 0
+      if (status === 'ok') {
+        counts.blobs_ok++
+      } else {
+        counts[status === 'corrupt' ? 'blobs_corrupt' : 'blobs_missing']++
+        if (blob.verify_status !== status) {
+          logger.error('Stored content failed verification', { sha256: blob.sha256, status, error: verifyError, location: blob.storage_path })
+        }
+      }
+    }
+  }
+
+  /**
+   * Hash files stored before deduplication and point them at shared content
+   * A copy that duplicates content already stored is removed; an intact copy replaces a damaged one.
+   */
+  private async adoptUnhashedFiles(counts: ScrubCounts): Promise<void> {
+    const files = await db
+      .selectFrom('files')
+      .select(['id', 'file_path'])
+      .where('content_hash', 'is', null)
+      .orderBy('uploaded_at', 'asc')
+      .limit(this.batchSize)
+      .execute()
+
+    for (const file of files) {
+      try {
+        const stored = await this.hashStored(file.file_path)
+        if (!stored) {
+          counts.files_missing++
+          logger.error('Stored file is missing', { fileId: file.id, filePath: file.file_path })
+          continue
+        }
+
+        const obsolete = await db.transaction().execute(async (trx) => {
+          const existing = await trx
+            .selectFrom('file_blobs')
+            .select(['storage_path', 'verify_status'])
+            .where('sha256', '=', stored.sha256)
+            .forUpdate()
+            .executeTakeFirst()
+
+          // New content is recorded first, as files.content_hash refers to it
+          if (!existing) {
+            await trx
+              .insertInto('file_blobs')
+              .values({
+                sha256: stored.sha256,
+                storage_path: file.file_path,
+                size_bytes: BigInt(stored.sizeBytes),
+                ref_count: 1,
+                released_at: null,
+                verify_status: 'ok',
+                verify_error: null,
+                last_verified_at: new Date(),
+                created_at: new Date()
+              })
+              .execute()
+          }
+
+          const adopted = await trx
+            .updateTable('files')
+            .set({ content_hash: stored.sha256, file_path: existing?.storage_path ?? file.file_path, updated_at: new Date() })
+            .where('id', '=', file.id)
+            .where('file_path', '=', file.file_path)
+            .where('content_hash', 'is', null)
+            .executeTakeFirst()
+
+          if (Number(adopted.numUpdatedRows) === 0) {
+            throw new Error('File changed while it was being hashed')
+          }
+
+          if (!existing) {
+            return null
+          }
+
+          if (existing.verify_status === 'corrupt' || existing.verify_status === 'missing') {
+            await trx
+              .updateTable('file_blobs')
+              .set({
+                storage_path: file.file_path,
+                ref_count: sql<number>`ref_count + 1`,
+                released_at: null,
+                verify_status: 'ok',
+                verify_error: null,
+                last_verified_at: new Date()
+              })
+              .where('sha256', '=', stored.sha256)
+              .execute()
+
+            await trx
+              .updateTable('files')
+              .set({ file_path: file.file_path, updated_at: new Date() })
+              .where('content_hash', '=', stored.sha256)
+              .execute()
+
+            return existing.storage_path
+          }
+
+          await trx
+            .updateTable('file_blobs')
+            .set({ ref_count: sql<number>`ref_count + 1`, released_at: null })
+            .where('sha256', '=', stored.sha256)
+            .execute()
+
+          return file.file_path
+        })
+
+        if (obsolete) {
+          const { backend, key } = this.registry.resolve(obsolete)
+          await backend.delete(key)
+        }
+
+        counts.files_adopted++
+      } catch (error) {
+        logger.warn('Could not adopt stored file', { error: error instanceof Error ? error.message : 'Unknown error', fileId: file.id })
+      }
+    }
+  }
+
+  /**
+   * SHA-256 and size of stored content, or null when it is not there
+   */
+  private async hashStored(location: string): Promise<{ sha256: string; sizeBytes: number } | null> {
+    const { backend, key } = this.registry.resolve(location)
+    if (await backend.size(key) === null) {
+      return null
+    }
+
+    const hash = createHash('sha256')
+    let sizeBytes = 0
+    for await (const chunk of await backend.get(key)) {
+      hash.update(chunk as Buffer)
+      sizeBytes += (chunk as Buffer).length
+    }
+
+    return { sha256: hash.digest('hex'), sizeBytes }
+  }
+
+  private toScrubRun(run: StorageScrubRunsTable): ScrubRun {
+    return {
+      id: run.id,
+      startedAt: run.started_at,
+      finishedAt: run.finished_at || undefined,
+      blobsChecked: run.blobs_checked,
+      blobsOk: run.blobs_ok,
+      blobsCorrupt: run.blobs_corrupt,
+      blobsMissing: run.blobs_missing,
+      bytesChecked: Number(run.bytes_checked),
+      filesAdopted: run.files_adopted,
+      filesMissing: run.files_missing,
+      blobsRemoved: run.blobs_removed,
+      error: run.error || undefined
+    }
+  }
+}
+
+export const integrityScrubber = new IntegrityScrubber()
+
+export default IntegrityScrubber
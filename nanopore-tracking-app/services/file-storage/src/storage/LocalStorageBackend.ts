@@ -0,0 +1,117 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs'
+import path from 'path'
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { pipeline } from 'stream/promises'
+import { PutObjectOptions, SignedUrlOptions, StorageBackend } from '../types/index.js'
+
+export interface LocalSignedToken {
+  backend: string
+  key: string
+  fileName: string
+  contentType: string
+  expiresAt: number
+}
+
+/**
+ * Files on the local filesystem under one root directory
+ * Signed URLs point back at this service, which checks the signature and streams the file
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly kind = 'local' as const
+  private root: string
+
+  constructor(
+    readonly name: string,
+    root: string,
+    private signingSecret: string,
+    private publicUrl: string = ''
+  ) {
+    this.root = path.resolve(root)
+  }
+
+  locationFor(key: string): string {
+    return path.join(this.root, key)
+  }
+
+  keyFor(location: string): string | null {
+    if (/^[a-z0-9]+:\/\//i.test(location)) {
+      return null
+    }
+
+    const relative = path.relative(this.root, path.resolve(location))
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : null
+  }
+
+  async put(key: string, body: NodeJS.ReadableStream, _options: PutObjectOptions): Promise<void> {
+    const target = this.locationFor(key)
+    // Unique per write, since two uploads of the same content may store the same key at once
+    const tempPath = `${target}.${randomUUID()}.tmp`
+
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    try {
+      await pipeline(body, createWriteStream(tempPath))
+      await fs.rename(tempPath, target)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  async get(key: string): Promise<NodeJS.ReadableStream> {
+    const location = this.locationFor(key)
+    // Fail here rather than on the first read, so callers can still answer with a 404
+    await fs.access(location)
+    return createReadStream(location)
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await fs.stat(this.locationFor(key))).size
+    } catch {
+      return null
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.locationFor(key), { force: true })
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const payload = Buffer.from(JSON.stringify({
+      backend: this.name,
+      key,
+      fileName: options.fileName,
+      contentType: options.contentType,
+      expiresAt: Date.now() + options.expiresInSeconds * 1000
+    } satisfies LocalSignedToken)).toString('base64url')
+
+    return `${this.publicUrl}/api/files/signed/${payload}.${this.sign(payload)}`
+  }
+
+  /**
+   * The object a signed URL token grants, or null when it is malformed, tampered with or expired
+   */
+  verifySignedToken(token: string, now: number = Date.now()): LocalSignedToken | null {
+    const [payload, signature, ...rest] = token.split('.')
+    if (!payload || !signature || rest.length > 0) {
+      return null
+    }
+
+    const expected = Buffer.from(this.sign(payload))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    try {
+      const grant = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as LocalSignedToken
+      return grant.backend === this.name && grant.expiresAt > now ? grant : null
+    } catch {
+      return null
+    }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.signingSecret).update(payload).digest('base64url')
+  }
+}
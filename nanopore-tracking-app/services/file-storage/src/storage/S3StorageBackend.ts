@@ -0,0 +1,103 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3'
+import { Upload } from '@aws-sdk/lib-storage'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { Readable } from 'stream'
+import { PutObjectOptions, SignedUrlOptions, StorageBackend } from '../types/index.js'
+
+export interface S3BackendConfig {
+  bucket: string
+  region: string
+  endpoint?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  // MinIO and most self-hosted stores need path-style addressing
+  forcePathStyle?: boolean
+  prefix?: string
+}
+
+/**
+ * Files in an S3-compatible bucket, such as AWS S3 or a local MinIO
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly kind = 's3' as const
+  private client: S3Client
+  private bucket: string
+  private prefix: string
+
+  constructor(readonly name: string, config: S3BackendConfig) {
+    this.bucket = config.bucket
+    this.prefix = config.prefix ? `${config.prefix.replace(/\/+$/, '')}/` : ''
+    this.client = new S3Client({
+      region: config.region,
+      forcePathStyle: config.forcePathStyle ?? false,
+      ...(config.endpoint ? { endpoint: config.endpoint } : {}),
+      ...(config.accessKeyId && config.secretAccessKey
+        ? { credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey } }
+        : {})
+    })
+  }
+
+  locationFor(key: string): string {
+    return `s3://${this.bucket}/${this.prefix}${key}`
+  }
+
+  keyFor(location: string): string | null {
+    const base = `s3://${this.bucket}/${this.prefix}`
+    return location.startsWith(base) && location.length > base.length ? location.slice(base.length) : null
+  }
+
+  async put(key: string, body: NodeJS.ReadableStream, options: PutObjectOptions): Promise<void> {
+    // Multipart upload, so a stream of any length is sent without holding it in memory
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: body as Readable,
+        ContentType: options.contentType
+      }
+    }).done()
+  }
+
+  async get(key: string): Promise<NodeJS.ReadableStream> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }))
+    if (!response.Body) {
+      throw new Error('File not found on storage backend')
+    }
+    return response.Body as Readable
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }))
+      return head.ContentLength ?? null
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }))
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return await getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      ResponseContentType: options.contentType,
+      ResponseContentDisposition: `attachment; filename="${options.fileName.replace(/["\\\r\n]/g, '_')}"`
+    }), { expiresIn: options.expiresInSeconds })
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`
+  }
+}
@@ -0,0 +1,120 @@
+import { randomBytes } from 'crypto'
+import { StorageBackend, StorageBackendRule } from '../types/index.js'
+import { logger } from '../utils/logger.js'
+import { LocalStorageBackend } from './LocalStorageBackend.js'
+import { S3StorageBackend } from './S3StorageBackend.js'
+
+/**
+ * The configured storage backends and the rules that choose one for a new file
+ * Files record their backend through files.file_path, so files stay readable when the rules change.
+ */
+export class StorageRegistry {
+  private backends = new Map<string, StorageBackend>()
+
+  constructor(
+    backends: StorageBackend[],
+    private defaultBackend: string,
+    private rules: StorageBackendRule[] = []
+  ) {
+    for (const backend of backends) {
+      this.backends.set(backend.name, backend)
+    }
+
+    for (const name of [defaultBackend, ...rules.map(rule => rule.backend)]) {
+      this.get(name)
+    }
+  }
+
+  get(name: string): StorageBackend {
+    const backend = this.backends.get(name)
+    if (!backend) {
+      throw new Error(`Unknown storage backend ${name}`)
+    }
+    return backend
+  }
+
+  names(): string[] {
+    return [...this.backends.keys()]
+  }
+
+  /**
+   * Backend for a new file: the first rule matching one of its tags, then the first matching its type, then the default
+   */
+  select(file: { tags?: string[] | null | undefined; fileType: string }): StorageBackend {
+    const tags = new Set((file.tags || []).map(tag => tag.toLowerCase()))
+    const rule = this.rules.find(rule => rule.match === 'tag' && tags.has(rule.value))
+      ?? this.rules.find(rule => rule.match === 'type' && rule.value === file.fileType.toLowerCase())
+
+    return this.get(rule?.backend ?? this.defaultBackend)
+  }
+
+  /**
+   * Backend and key for a location recorded in files.file_path
+   */
+  resolve(location: string): { backend: StorageBackend; key: string } {
+    for (const backend of this.backends.values()) {
+      const key = backend.keyFor(location)
+      if (key) {
+        return { backend, key }
+      }
+    }
+    throw new Error(`No storage backend holds ${location}`)
+  }
+}
+
+/**
+ * Parse rules such as "tag:raw-data=s3,type:fastq=s3,type:bam=s3"
+ */
+export function parseBackendRules(spec: string): StorageBackendRule[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = /^(tag|type):([^=]+)=(.+)$/.exec(entry)
+      if (!match) {
+        throw new Error(`Invalid storage backend rule "${entry}"; expected tag:<tag>=<backend> or type:<type>=<backend>`)
+      }
+      return {
+        match: match[1] as StorageBackendRule['match'],
+        value: match[2]!.trim().toLowerCase(),
+        backend: match[3]!.trim()
+      }
+    })
+}
+
+/**
+ * Build the registry from the environment: the local backend is always available, S3 when a bucket is configured
+ */
+export function createStorageRegistry(env: NodeJS.ProcessEnv = process.env): StorageRegistry {
+  let signingSecret = env['FILE_STORAGE_SIGNING_SECRET']
+  if (!signingSecret) {
+    signingSecret = randomBytes(32).toString('hex')
+    logger.warn('FILE_STORAGE_SIGNING_SECRET is not set; signed local URLs will stop working on restart')
+  }
+
+  const backends: StorageBackend[] = [
+    new LocalStorageBackend('local', env['FILE_STORAGE_PATH'] || './storage/files', signingSecret, env['FILE_STORAGE_PUBLIC_URL'] || '')
+  ]
+
+  const bucket = env['FILE_STORAGE_S3_BUCKET']
+  if (bucket) {
+    backends.push(new S3StorageBackend('s3', {
+      bucket,
+      region: env['FILE_STORAGE_S3_REGION'] || 'us-east-1',
+      ...(env['FILE_STORAGE_S3_ENDPOINT'] ? { endpoint: env['FILE_STORAGE_S3_ENDPOINT'] } : {}),
+      ...(env['FILE_STORAGE_S3_ACCESS_KEY_ID'] ? { accessKeyId: env['FILE_STORAGE_S3_ACCESS_KEY_ID'] } : {}),
+      ...(env['FILE_STORAGE_S3_SECRET_ACCESS_KEY'] ? { secretAccessKey: env['FILE_STORAGE_S3_SECRET_ACCESS_KEY'] } : {}),
+      ...(env['FILE_STORAGE_S3_PREFIX'] ? { prefix: env['FILE_STORAGE_S3_PREFIX'] } : {}),
+      forcePathStyle: env['FILE_STORAGE_S3_FORCE_PATH_STYLE'] === 'true'
+    }))
+  }
+
+  return new StorageRegistry(
+    backends,
+    env['FILE_STORAGE_DEFAULT_BACKEND'] || 'local',
+    parseBackendRules(env['FILE_STORAGE_BACKEND_RULES'] || '')
+  )
+}
+
+export const storageRegistry = createStorageRegistry()
@@ -9,6 +9,7 @@ export interface FileMetadata {
   mimeType: string
   sizeBytes: number
   filePath: string
+  contentHash?: string
   description?: string
   uploadedBy?: string
   uploadedAt: Date
@@ -51,6 +52,41 @@ export interface UploadProgress {
   error?: string
 }
 
+// Chunked upload types
+export type ChunkedUploadStatus = 'active' | 'completed' | 'aborted'
+
+// Optional fields may be undefined as initiateUploadSchema parses them
+export interface InitiateUploadRequest {
+  fileName: string
+  sizeBytes: number
+  mimeType?: string | undefined
+  partSize?: number | undefined
+  description?: string | undefined
+  isPublic?: boolean | undefined
+  tags?: string[] | undefined
+  metadata?: Record<string, any> | undefined
+}
+
+export interface UploadedPart {
+  partNumber: number
+  sizeBytes: number
+  checksumSha256: string
+}
+
+export interface ChunkedUpload {
+  uploadId: string
+  originalName: string
+  mimeType: string
+  sizeBytes: number
+  partSize: number
+  totalParts: number
+  status: ChunkedUploadStatus
+  parts: UploadedPart[]
+  uploadedBytes: number
+  fileId?: string
+  expiresAt: Date
+}
+
 // Download types
 export interface DownloadRequest {
   fileId: string
@@ -135,6 +171,17 @@ export const uploadFileSchema = z.object({
   metadata: z.record(z.any()).optional()
 })
 
+export const initiateUploadSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  sizeBytes: z.number().int().positive('File size must be positive'),
+  mimeType: z.string().optional(),
+  partSize: z.number().int().positive().optional(),
+  description: z.string().optional(),
+  isPublic: z.boolean().optional().default(false),
+  tags: z.array(z.string()).optional(),
+  metadata: z.record(z.any()).optional()
+})
+
 export const updateFileSchema = z.object({
   description: z.string().optional(),
   isPublic: z.boolean().optional(),
@@ -160,6 +207,10 @@ export interface Database {
   files: FilesTable
   file_metadata: FileMetadataTable
   file_access_log: FileAccessLogTable
+  upload_sessions: UploadSessionsTable
+  upload_parts: UploadPartsTable
+  file_blobs: FileBlobsTable
+  storage_scrub_runs: StorageScrubRunsTable
 }
 
 export interface FilesTable {
@@ -170,6 +221,7 @@ export interface FilesTable {
   mime_type: string
   size_bytes: bigint
   file_path: string
+  content_hash?: string | null
   description?: string
   uploaded_by?: string
   uploaded_at: Date
@@ -197,6 +249,153 @@ export interface FileAccessLogTable {
   accessed_at: Date
 }
 
+export interface UploadSessionsTable {
+  id: string
+  original_name: string
+  file_type: string
+  mime_type: string
+  size_bytes: bigint
+  part_size: bigint
+  total_parts: number
+  description: string | null
+  uploaded_by: string | null
+  is_public: boolean
+  tags: string[] | null
+  metadata: Record<string, any> | null
+  status: ChunkedUploadStatus
+  file_id: string | null
+  created_at: Date
+  updated_at: Date
+  expires_at: Date
+}
+
+export interface UploadPartsTable {
+  upload_id: string
+  part_number: number
+  size_bytes: bigint
+  checksum_sha256: string
+  uploaded_at: Date
+}
+
+export type BlobVerifyStatus = 'unverified' | 'ok' | 'corrupt' | 'missing'
+
+export interface FileBlobsTable {
+  sha256: string
+  storage_path: string
+  size_bytes: bigint
+  ref_count: number
+  released_at: Date | null
+  verify_status: BlobVerifyStatus
+  verify_error: string | null
+  last_verified_at: Date | null
+  created_at: Date
+}
+
+export interface StorageScrubRunsTable {
+  id: string
+  blobs_checked: number
+  blobs_ok: number
+  blobs_corrupt: number
+  blobs_missing: number
+  bytes_checked: bigint
+  files_adopted: number
+  files_missing: number
+  blobs_removed: number
+  error: string | null
+  started_at: Date
+  finished_at: Date | null
+}
+
+// Storage backend types
+export type StorageBackendKind = 'local' | 's3'
+
+export interface PutObjectOptions {
+  contentType: string
+  sizeBytes?: number
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number
+  fileName: string
+  contentType: string
+}
+
+export interface StorageBackend {
+  readonly name: string
+  readonly kind: StorageBackendKind
+  // Location recorded in files.file_path for a key
+  locationFor(key: string): string
+  // Key for a recorded location, or null when the location belongs to another backend
+  keyFor(location: string): string | null
+  put(key: string, body: NodeJS.ReadableStream, options: PutObjectOptions): Promise<void>
+  get(key: string): Promise<NodeJS.ReadableStream>
+  size(key: string): Promise<number | null>
+  delete(key: string): Promise<void>
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>
+}
+
+export interface StorageBackendRule {
+  match: 'tag' | 'type'
+  value: string
+  backend: string
+}
+
+export interface SignedDownload {
+  url: string
+  expiresAt: Date
+}
+
+export interface StorageMigrationOptions {
+  to: string
+  from?: string
+  tag?: string
+  fileType?: string
+  limit?: number
+  dryRun?: boolean
+}
+
+export interface StorageMigrationResult {
+  moved: number
+  skipped: number
+  failed: Array<{ fileId: string; error: string }>
+  bytesMoved: number
+}
+
+// Integrity types
+export interface ScrubRun {
+  id: string
+  startedAt: Date
+  finishedAt?: Date | undefined
+  blobsChecked: number
+  blobsOk: number
+  blobsCorrupt: number
+  blobsMissing: number
+  bytesChecked: number
+  filesAdopted: number
+  filesMissing: number
+  blobsRemoved: number
+  error?: string | undefined
+}
+
+export interface BlobProblem {
+  sha256: string
+  status: 'corrupt' | 'missing'
+  error?: string | undefined
+  lastVerifiedAt?: Date | undefined
+  fileIds: string[]
+}
+
+export interface IntegrityReport {
+  status: 'healthy' | 'degraded'
+  blobs: Record<BlobVerifyStatus, number>
+  // Files stored before deduplication that the scrubber has not hashed yet
+  unhashedFiles: number
+  // Bytes not stored again because identical content was already present
+  deduplicatedBytes: number
+  problems: BlobProblem[]
+  lastRun?: ScrubRun | undefined
+}
+
 // Service configuration
 export interface FileStorageConfig {
   storagePath: string
@@ -229,4 +428,6 @@ export interface StorageStats {
   filesByType: Record<string, number>
   filesByDate: Record<string, number>
   storageUsagePercent: number
+  filesByBackend: Record<string, number>
+  integrity: IntegrityReport
 }
\ No newline at end of file
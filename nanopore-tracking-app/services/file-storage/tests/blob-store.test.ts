@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import { createHash } from 'crypto'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { sql } from 'kysely'
+import { LocalStorageBackend } from '../src/storage/LocalStorageBackend.js'
+import { StorageRegistry } from '../src/storage/StorageRegistry.js'
+import { BlobStore } from '../src/services/BlobStore.js'
+import { db } from '../src/database/connection.js'
+import { resetTestDatabase } from './helpers/database.js'
+
+vi.mock('../src/database/connection.js', async () => {
+  const { createTestDatabase } = await import('./helpers/database.js')
+  return { db: await createTestDatabase() }
+})
+
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}))
+
+const root = await mkdtemp(path.join(tmpdir(), 'file-storage-blobs-'))
+const local = new LocalStorageBackend('local', root, 'secret')
+const store = new BlobStore(new StorageRegistry([local], 'local'))
+
+const content = 'ACGTACGT'
+const sha256 = createHash('sha256').update(content).digest('hex')
+const key = BlobStore.keyFor(sha256)
+
+const acquire = (open = vi.fn(() => Readable.from([content]))) =>
+  store.acquire(sha256, content.length, local, 'text/plain', open)
+
+const blobRow = () =>
+  db.selectFrom('file_blobs').select(['ref_count', 'released_at', 'verify_status']).where('sha256', '=', sha256).executeTakeFirst()
+
+describe('BlobStore', () => {
+  beforeEach(async () => {
+    await resetTestDatabase(db)
+    await rm(root, { recursive: true, force: true })
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+    await db.destroy()
+  })
+
+  it('writes identical content once and shares it', async () => {
+    const open = vi.fn(() => Readable.from([content]))
+
+    const first = await acquire(open)
+    const second = await acquire(open)
+
+    expect(first).toEqual({ location: local.locationFor(key), written: true })
+    expect(second).toEqual({ location: first.location, written: false })
+    expect(open).toHaveBeenCalledTimes(1)
+    expect(await blobRow()).toMatchObject({ ref_count: 2, released_at: null })
+  })
+
+  it('keeps shared content while any reference remains', async () => {
+    await acquire()
+    await acquire()
+
+    await store.release(sha256)
+
+    expect(await store.sweep()).toBe(0)
+    expect(await blobRow()).toMatchObject({ ref_count: 1, released_at: null })
+    expect(await local.size(key)).toBe(content.length)
+  })
+
+  it('removes content once the last reference has been released for the grace period', async () => {
+    await acquire()
+    await acquire()
+    await store.release(sha256)
+    await store.release(sha256)
+
+    expect(await store.sweep()).toBe(0)
+    expect(await local.size(key)).toBe(content.length)
+
+    await db.updateTable('file_blobs').set({ released_at: sql<Date>`NOW() - INTERVAL '2 hours'` }).where('sha256', '=', sha256).execute()
+
+    expect(await store.sweep()).toBe(1)
+    expect(await blobRow()).toBeUndefined()
+    expect(await local.size(key)).toBeNull()
+  })
+
+  it('reuses released content uploaded again within the grace period', async () => {
+    await acquire()
+    await store.release(sha256)
+
+    expect(await acquire()).toMatchObject({ written: false })
+    expect(await blobRow()).toMatchObject({ ref_count: 1, released_at: null })
+  })
+
+  it('rewrites content the scrubber found damaged', async () => {
+    await acquire()
+    await db.updateTable('file_blobs').set({ verify_status: 'corrupt' }).where('sha256', '=', sha256).execute()
+    await local.put(key, Readable.from(['garbage']), { contentType: 'text/plain' })
+
+    expect(await acquire()).toMatchObject({ written: true })
+    expect(await blobRow()).toMatchObject({ ref_count: 2, verify_status: 'unverified' })
+    expect(await local.size(key)).toBe(content.length)
+  })
+
+  it('gives the reference back when the write fails', async () => {
+    const failing = () => new Readable({
+      read() {
+        this.destroy(new Error('connection reset'))
+      }
+    })
+
+    await expect(acquire(vi.fn(failing))).rejects.toThrow('connection reset')
+    expect(await blobRow()).toMatchObject({ ref_count: 0 })
+    expect((await blobRow())?.released_at).not.toBeNull()
+  })
+})
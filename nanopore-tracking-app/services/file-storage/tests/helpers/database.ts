@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto'
+import { readFile } from 'fs/promises'
+import { PGlite } from '@electric-sql/pglite'
+import { Kysely, PostgresDialect, sql } from 'kysely'
+import { Database } from '../../src/types/index.js'
+
+const SCHEMA = new URL('../../src/database/schema.sql', import.meta.url)
+
+/**
+ * The service schema in an in-process Postgres, behind the same Kysely dialect the service uses.
+ * Queries run one at a time on a single session, which is all the services under test need.
+ */
+export async function createTestDatabase(): Promise<Kysely<Database>> {
+  const pg = new PGlite()
+  await pg.exec(await readFile(SCHEMA, 'utf8'))
+
+  const client = {
+    query: (text: string, values: unknown[]) => pg.query(text, values),
+    release: () => undefined
+  }
+
+  return new Kysely<Database>({
+    dialect: new PostgresDialect({
+      pool: {
+        connect: async () => client,
+        end: async () => {
+          await pg.close()
+        }
+      } as any
+    })
+  })
+}
+
+/**
+ * Empty every table between tests
+ */
+export async function resetTestDatabase(db: Kysely<Database>): Promise<void> {
+  await sql`TRUNCATE files, file_blobs, storage_scrub_runs RESTART IDENTITY CASCADE`.execute(db)
+}
+
+/**
+ * Record a stored file the way an upload does
+ */
+export async function insertFile(
+  db: Kysely<Database>,
+  file: { filePath: string; sizeBytes: number; contentHash?: string | null; fileType?: string; tags?: string[] }
+): Promise<string> {
+  const id = randomUUID()
+  await db
+    .insertInto('files')
+    .values({
+      id,
+      original_name: 'reads.fastq',
+      file_name: 'reads.fastq',
+      file_type: file.fileType ?? 'fastq',
+      mime_type: 'text/plain',
+      size_bytes: BigInt(file.sizeBytes),
+      file_path: file.filePath,
+      content_hash: file.contentHash ?? null,
+      is_public: false,
+      uploaded_at: new Date(),
+      updated_at: new Date(),
+      ...(file.tags ? { tags: file.tags } : {})
+    })
+    .execute()
+
+  return id
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import { createHash } from 'crypto'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalStorageBackend } from '../src/storage/LocalStorageBackend.js'
+import { StorageRegistry } from '../src/storage/StorageRegistry.js'
+import { BlobStore } from '../src/services/BlobStore.js'
+import { IntegrityScrubber } from '../src/services/IntegrityScrubber.js'
+import { db } from '../src/database/connection.js'
+import { insertFile, resetTestDatabase } from './helpers/database.js'
+
+vi.mock('../src/database/connection.js', async () => {
+  const { createTestDatabase } = await import('./helpers/database.js')
+  return { db: await createTestDatabase() }
+})
+
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}))
+
+const root = await mkdtemp(path.join(tmpdir(), 'file-storage-scrub-'))
+const local = new LocalStorageBackend('local', root, 'secret')
+const registry = new StorageRegistry([local], 'local')
+const store = new BlobStore(registry)
+const scrubber = new IntegrityScrubber(store, registry)
+
+const sha256Of = (content: string): string => createHash('sha256').update(content).digest('hex')
+
+/**
+ * Store content through the blob store and record a file referencing it
+ */
+const upload = async (content: string): Promise<{ sha256: string; fileId: string }> => {
+  const sha256 = sha256Of(content)
+  const { location } = await store.acquire(sha256, content.length, local, 'text/plain', () => Readable.from([content]))
+  const fileId = await insertFile(db, { filePath: location, sizeBytes: content.length, contentHash: sha256 })
+  return { sha256, fileId }
+}
+
+const blobStatus = async (sha256: string) =>
+  (await db.selectFrom('file_blobs').select('verify_status').where('sha256', '=', sha256).executeTakeFirstOrThrow()).verify_status
+
+describe('IntegrityScrubber', () => {
+  beforeEach(async () => {
+    await resetTestDatabase(db)
+    await rm(root, { recursive: true, force: true })
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+    await db.destroy()
+  })
+
+  it('reports intact, corrupted and missing content', async () => {
+    const intact = await upload('ACGT')
+    const corrupted = await upload('GGCC')
+    const missing = await upload('TTAA')
+    await local.put(BlobStore.keyFor(corrupted.sha256), Readable.from(['GGCA']), { contentType: 'text/plain' })
+    await local.delete(BlobStore.keyFor(missing.sha256))
+
+    const run = await scrubber.run()
+
+    expect(run).toMatchObject({ blobsChecked: 3, blobsOk: 1, blobsCorrupt: 1, blobsMissing: 1, bytesChecked: 8 })
+    expect(run.finishedAt).toBeInstanceOf(Date)
+    expect(run.error).toBeUndefined()
+    expect(await blobStatus(intact.sha256)).toBe('ok')
+
+    const report = await scrubber.report()
+    expect(report).toMatchObject({ status: 'degraded', blobs: { unverified: 0, ok: 1, corrupt: 1, missing: 1 } })
+    expect(report.lastRun?.id).toBe(run.id)
+    expect(report.problems).toHaveLength(2)
+    expect(report.problems).toEqual(expect.arrayContaining([
+      expect.objectContaining({ sha256: corrupted.sha256, status: 'corrupt', error: expect.stringContaining(sha256Of('GGCA')), fileIds: [corrupted.fileId] }),
+      expect.objectContaining({ sha256: missing.sha256, status: 'missing', error: expect.stringContaining('Not found'), fileIds: [missing.fileId] })
+    ]))
+  })
+
+  it('reports healthy once every stored copy verifies', async () => {
+    await upload('ACGT')
+    await upload('ACGT')
+
+    await scrubber.run()
+
+    expect(await scrubber.report()).toMatchObject({ status: 'healthy', blobs: { ok: 1 }, deduplicatedBytes: 4, problems: [] })
+  })
+
+  it('moves files stored before deduplication onto shared content', async () => {
+    const { sha256 } = await upload('ACGT')
+    await local.put('legacy/reads.fastq', Readable.from(['ACGT']), { contentType: 'text/plain' })
+    await local.put('legacy/other.fastq', Readable.from(['TTTT']), { contentType: 'text/plain' })
+    const duplicate = await insertFile(db, { filePath: local.locationFor('legacy/reads.fastq'), sizeBytes: 4 })
+    const unique = await insertFile(db, { filePath: local.locationFor('legacy/other.fastq'), sizeBytes: 4 })
+
+    const run = await scrubber.run()
+
+    expect(run.filesAdopted).toBe(2)
+    const files = await db.selectFrom('files').select(['id', 'file_path', 'content_hash']).where('id', 'in', [duplicate, unique]).execute()
+    expect(files).toEqual(expect.arrayContaining([
+      { id: duplicate, file_path: local.locationFor(BlobStore.keyFor(sha256)), content_hash: sha256 },
+      { id: unique, file_path: local.locationFor('legacy/other.fastq'), content_hash: sha256Of('TTTT') }
+    ]))
+    expect(await local.size('legacy/reads.fastq')).toBeNull()
+    expect(await scrubber.report()).toMatchObject({ unhashedFiles: 0, deduplicatedBytes: 4 })
+  })
+
+  it('counts files stored before deduplication whose content is gone', async () => {
+    await insertFile(db, { filePath: local.locationFor('legacy/lost.fastq'), sizeBytes: 4 })
+
+    const run = await scrubber.run()
+
+    expect(run).toMatchObject({ filesAdopted: 0, filesMissing: 1 })
+    expect(await scrubber.report()).toMatchObject({ status: 'degraded', unhashedFiles: 1 })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalStorageBackend } from '../src/storage/LocalStorageBackend.js'
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer))
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+const tokenOf = (url: string): string => url.slice(url.lastIndexOf('/') + 1)
+
+describe('LocalStorageBackend', () => {
+  let root: string
+  let backend: LocalStorageBackend
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'file-storage-local-'))
+    backend = new LocalStorageBackend('local', root, 'secret', 'https://files.example.org')
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('stores, reads, sizes and deletes objects under its root', async () => {
+    await backend.put('runs/a/reads.fastq', Readable.from(['@read1\nACGT\n']), { contentType: 'text/plain' })
+
+    expect(await backend.size('runs/a/reads.fastq')).toBe(12)
+    expect(await readAll(await backend.get('runs/a/reads.fastq'))).toBe('@read1\nACGT\n')
+
+    await backend.delete('runs/a/reads.fastq')
+    expect(await backend.size('runs/a/reads.fastq')).toBeNull()
+    await expect(backend.get('runs/a/reads.fastq')).rejects.toThrow()
+  })
+
+  it('leaves no partial object when a write fails', async () => {
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('connection reset'))
+      }
+    })
+
+    await expect(backend.put('broken.bin', failing, { contentType: 'application/octet-stream' })).rejects.toThrow('connection reset')
+    expect(await backend.size('broken.bin')).toBeNull()
+  })
+
+  it('maps keys to locations and only claims locations under its root', () => {
+    const location = backend.locationFor('blobs/ab/abc')
+
+    expect(backend.keyFor(location)).toBe(path.join('blobs', 'ab', 'abc'))
+    expect(backend.keyFor(path.join(root, '..', 'elsewhere'))).toBeNull()
+    expect(backend.keyFor('s3://bucket/blobs/ab/abc')).toBeNull()
+  })
+
+  describe('signed URLs', () => {
+    const options = { expiresInSeconds: 60, fileName: 'reads.fastq', contentType: 'text/plain' }
+
+    it('points at the service and grants the signed object', async () => {
+      const url = await backend.getSignedUrl('runs/a/reads.fastq', options)
+
+      expect(url.startsWith('https://files.example.org/api/files/signed/')).toBe(true)
+      expect(backend.verifySignedToken(tokenOf(url))).toMatchObject({
+        backend: 'local',
+        key: 'runs/a/reads.fastq',
+        fileName: 'reads.fastq',
+        contentType: 'text/plain'
+      })
+    })
+
+    it('rejects expired, tampered and foreign tokens', async () => {
+      const token = tokenOf(await backend.getSignedUrl('runs/a/reads.fastq', options))
+      const [payload, signature] = token.split('.') as [string, string]
+
+      expect(backend.verifySignedToken(token, Date.now() + 61_000)).toBeNull()
+
+      const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), key: 'other' })).toString('base64url')
+      expect(backend.verifySignedToken(`${forged}.${signature}`)).toBeNull()
+      expect(backend.verifySignedToken(`${payload}.${signature}.extra`)).toBeNull()
+
+      const otherSecret = new LocalStorageBackend('local', root, 'another-secret')
+      expect(otherSecret.verifySignedToken(token)).toBeNull()
+
+      const otherName = new LocalStorageBackend('archive', root, 'secret')
+      expect(otherName.verifySignedToken(token)).toBeNull()
+    })
+  })
+})
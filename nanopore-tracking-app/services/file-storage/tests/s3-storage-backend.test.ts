@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3'
+import { S3StorageBackend } from '../src/storage/S3StorageBackend.js'
+
+// Runs only against a real S3-compatible store, such as the MinIO from docker-compose.microservices.yml:
+//   FILE_STORAGE_TEST_S3_ENDPOINT=http://localhost:9000 npm test
+const endpoint = process.env['FILE_STORAGE_TEST_S3_ENDPOINT']
+const accessKeyId = process.env['FILE_STORAGE_TEST_S3_ACCESS_KEY_ID'] || 'minioadmin'
+const secretAccessKey = process.env['FILE_STORAGE_TEST_S3_SECRET_ACCESS_KEY'] || 'minioadmin'
+const bucket = process.env['FILE_STORAGE_TEST_S3_BUCKET'] || 'file-storage-test'
+
+describe.skipIf(!endpoint)('S3StorageBackend', () => {
+  const config = { bucket, region: 'us-east-1', endpoint: endpoint!, accessKeyId, secretAccessKey, forcePathStyle: true }
+  const backend = new S3StorageBackend('s3', { ...config, prefix: `test-${randomUUID()}` })
+
+  beforeAll(async () => {
+    const client = new S3Client({ region: config.region, endpoint: config.endpoint, forcePathStyle: true, credentials: { accessKeyId, secretAccessKey } })
+    try {
+      await client.send(new CreateBucketCommand({ Bucket: bucket }))
+    } catch (error) {
+      if (!(error instanceof Error && ['BucketAlreadyOwnedByYou', 'BucketAlreadyExists'].includes(error.name))) {
+        throw error
+      }
+    }
+  })
+
+  it('stores, reads, sizes and deletes objects', async () => {
+    await backend.put('runs/a/reads.fastq', Readable.from(['@read1\nACGT\n']), { contentType: 'text/plain' })
+
+    expect(await backend.size('runs/a/reads.fastq')).toBe(12)
+    const chunks: Buffer[] = []
+    for await (const chunk of await backend.get('runs/a/reads.fastq')) {
+      chunks.push(Buffer.from(chunk as Buffer))
+    }
+    expect(Buffer.concat(chunks).toString('utf8')).toBe('@read1\nACGT\n')
+
+    await backend.delete('runs/a/reads.fastq')
+    expect(await backend.size('runs/a/reads.fastq')).toBeNull()
+  })
+
+  it('issues signed URLs that download the object as an attachment', async () => {
+    await backend.put('reads.fastq', Readable.from(['ACGT']), { contentType: 'text/plain' })
+
+    const response = await fetch(await backend.getSignedUrl('reads.fastq', { expiresInSeconds: 60, fileName: 'my "reads".fastq', contentType: 'text/plain' }))
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('ACGT')
+    expect(response.headers.get('content-disposition')).toBe('attachment; filename="my _reads_.fastq"')
+
+    await backend.delete('reads.fastq')
+  })
+
+  it('maps keys to s3:// locations under its prefix', () => {
+    const location = backend.locationFor('blobs/ab/abc')
+
+    expect(location.startsWith(`s3://${bucket}/test-`)).toBe(true)
+    expect(backend.keyFor(location)).toBe('blobs/ab/abc')
+    expect(backend.keyFor(`s3://${bucket}/blobs/ab/abc`)).toBeNull()
+  })
+})
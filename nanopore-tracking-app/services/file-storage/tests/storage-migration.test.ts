@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalStorageBackend } from '../src/storage/LocalStorageBackend.js'
+import { StorageRegistry } from '../src/storage/StorageRegistry.js'
+import { StorageMigrationService } from '../src/services/StorageMigrationService.js'
+import { db } from '../src/database/connection.js'
+import { insertFile, resetTestDatabase } from './helpers/database.js'
+
+vi.mock('../src/database/connection.js', async () => {
+  const { createTestDatabase } = await import('./helpers/database.js')
+  return { db: await createTestDatabase() }
+})
+
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  logFileOperation: vi.fn()
+}))
+
+const root = await mkdtemp(path.join(tmpdir(), 'file-storage-migration-'))
+const local = new LocalStorageBackend('local', path.join(root, 'local'), 'secret')
+const archive = new LocalStorageBackend('archive', path.join(root, 'archive'), 'secret')
+const registry = new StorageRegistry([local, archive], 'local')
+const migration = new StorageMigrationService(registry)
+
+const store = async (key: string, content: string): Promise<string> => {
+  await local.put(key, Readable.from([content]), { contentType: 'text/plain' })
+  return local.locationFor(key)
+}
+
+const filePath = async (id: string): Promise<string> =>
+  (await db.selectFrom('files').select('file_path').where('id', '=', id).executeTakeFirstOrThrow()).file_path
+
+describe('StorageMigrationService', () => {
+  beforeEach(async () => {
+    await resetTestDatabase(db)
+    await rm(root, { recursive: true, force: true })
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+    await db.destroy()
+  })
+
+  it('copies files to the target, repoints their records and removes the old copy', async () => {
+    const location = await store('runs/a/reads.fastq', 'ACGT')
+    const fileId = await insertFile(db, { filePath: location, sizeBytes: 4 })
+
+    const result = await migration.migrate({ to: 'archive' })
+
+    expect(result).toEqual({ moved: 1, skipped: 0, failed: [], bytesMoved: 4 })
+    expect(await filePath(fileId)).toBe(archive.locationFor('runs/a/reads.fastq'))
+    expect(await archive.size('runs/a/reads.fastq')).toBe(4)
+    expect(await local.size('runs/a/reads.fastq')).toBeNull()
+  })
+
+  it('moves shared content once, together with every file and its blob record', async () => {
+    const sha256 = 'a'.repeat(64)
+    const location = await store(`blobs/aa/${sha256}`, 'ACGT')
+    await db.insertInto('file_blobs').values({
+      sha256,
+      storage_path: location,
+      size_bytes: BigInt(4),
+      ref_count: 2,
+      released_at: null,
+      verify_status: 'ok',
+      verify_error: null,
+      last_verified_at: null,
+      created_at: new Date()
+    }).execute()
+    const first = await insertFile(db, { filePath: location, sizeBytes: 4, contentHash: sha256 })
+    const second = await insertFile(db, { filePath: location, sizeBytes: 4, contentHash: sha256 })
+
+    const result = await migration.migrate({ to: 'archive' })
+
+    const moved = archive.locationFor(`blobs/aa/${sha256}`)
+    expect(result.moved).toBe(1)
+    expect([await filePath(first), await filePath(second)]).toEqual([moved, moved])
+    const blob = await db.selectFrom('file_blobs').select('storage_path').where('sha256', '=', sha256).executeTakeFirstOrThrow()
+    expect(blob.storage_path).toBe(moved)
+  })
+
+  it('only counts what would move on a dry run', async () => {
+    const location = await store('runs/a/reads.fastq', 'ACGT')
+    const fileId = await insertFile(db, { filePath: location, sizeBytes: 4 })
+
+    const result = await migration.migrate({ to: 'archive', dryRun: true })
+
+    expect(result).toMatchObject({ moved: 1, bytesMoved: 4 })
+    expect(await filePath(fileId)).toBe(location)
+    expect(await archive.size('runs/a/reads.fastq')).toBeNull()
+  })
+
+  it('selects files by type and tag, and skips files already on the target', async () => {
+    const bam = await insertFile(db, { filePath: await store('a.bam', 'BAM'), sizeBytes: 3, fileType: 'bam' })
+    const tagged = await insertFile(db, { filePath: await store('b.fastq', 'FQ'), sizeBytes: 2, tags: ['raw-data'] })
+    await insertFile(db, { filePath: await store('c.fastq', 'FQ'), sizeBytes: 2 })
+
+    expect(await migration.migrate({ to: 'archive', fileType: 'BAM' })).toMatchObject({ moved: 1, skipped: 0 })
+    expect(await filePath(bam)).toBe(archive.locationFor('a.bam'))
+
+    expect(await migration.migrate({ to: 'archive', tag: 'raw-data' })).toMatchObject({ moved: 1, skipped: 0 })
+    expect(await filePath(tagged)).toBe(archive.locationFor('b.fastq'))
+
+    expect(await migration.migrate({ to: 'archive', from: 'archive' })).toMatchObject({ moved: 0, skipped: 3 })
+    expect(await migration.migrate({ to: 'archive', limit: 1 })).toMatchObject({ moved: 1, skipped: 2 })
+  })
+
+  it('keeps the record and original when the copy does not match the recorded size', async () => {
+    const location = await store('runs/a/reads.fastq', 'ACGT')
+    const fileId = await insertFile(db, { filePath: location, sizeBytes: 10 })
+
+    const result = await migration.migrate({ to: 'archive' })
+
+    expect(result.moved).toBe(0)
+    expect(result.failed).toEqual([{ fileId, error: 'Copied size 4 does not match recorded size 10' }])
+    expect(await filePath(fileId)).toBe(location)
+    expect(await local.size('runs/a/reads.fastq')).toBe(4)
+    expect(await archive.size('runs/a/reads.fastq')).toBeNull()
+  })
+})
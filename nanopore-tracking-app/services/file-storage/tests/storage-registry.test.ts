@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LocalStorageBackend } from '../src/storage/LocalStorageBackend.js'
+import { S3StorageBackend } from '../src/storage/S3StorageBackend.js'
+import { StorageRegistry, createStorageRegistry, parseBackendRules } from '../src/storage/StorageRegistry.js'
+
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}))
+
+const local = new LocalStorageBackend('local', '/srv/files', 'secret')
+const archive = new LocalStorageBackend('archive', '/srv/archive', 'secret')
+const s3 = new S3StorageBackend('s3', { bucket: 'reads', region: 'us-east-1', prefix: 'nanopore' })
+
+describe('StorageRegistry', () => {
+  const registry = new StorageRegistry([local, archive, s3], 'local', parseBackendRules('tag:raw-data=s3,type:bam=archive,type:fastq=s3'))
+
+  it('chooses a backend by tag first, then by file type, then the default', () => {
+    expect(registry.select({ tags: ['Raw-Data'], fileType: 'bam' }).name).toBe('s3')
+    expect(registry.select({ tags: ['qc'], fileType: 'BAM' }).name).toBe('archive')
+    expect(registry.select({ fileType: 'fastq' }).name).toBe('s3')
+    expect(registry.select({ tags: null, fileType: 'pdf' }).name).toBe('local')
+  })
+
+  it('resolves recorded locations to the backend holding them', () => {
+    expect(registry.resolve('/srv/archive/blobs/ab/abc')).toMatchObject({ backend: archive, key: 'blobs/ab/abc' })
+    expect(registry.resolve('s3://reads/nanopore/blobs/ab/abc')).toMatchObject({ backend: s3, key: 'blobs/ab/abc' })
+    expect(() => registry.resolve('s3://other-bucket/blobs/ab/abc')).toThrow('No storage backend holds')
+  })
+
+  it('refuses rules and defaults naming unknown backends', () => {
+    expect(() => new StorageRegistry([local], 's3')).toThrow('Unknown storage backend s3')
+    expect(() => new StorageRegistry([local], 'local', parseBackendRules('type:bam=glacier'))).toThrow('Unknown storage backend glacier')
+  })
+})
+
+describe('parseBackendRules', () => {
+  it('parses tag and type rules, ignoring blank entries', () => {
+    expect(parseBackendRules(' tag:Raw-Data=s3, ,type:bam=archive ')).toEqual([
+      { match: 'tag', value: 'raw-data', backend: 's3' },
+      { match: 'type', value: 'bam', backend: 'archive' }
+    ])
+  })
+
+  it('rejects malformed rules', () => {
+    expect(() => parseBackendRules('bam=s3')).toThrow('Invalid storage backend rule "bam=s3"')
+  })
+})
+
+describe('createStorageRegistry', () => {
+  it('always provides the local backend and adds S3 when a bucket is configured', () => {
+    expect(createStorageRegistry({ FILE_STORAGE_SIGNING_SECRET: 'secret' }).names()).toEqual(['local'])
+
+    const registry = createStorageRegistry({
+      FILE_STORAGE_SIGNING_SECRET: 'secret',
+      FILE_STORAGE_S3_BUCKET: 'reads',
+      FILE_STORAGE_S3_PREFIX: 'nanopore/',
+      FILE_STORAGE_BACKEND_RULES: 'type:fastq=s3'
+    })
+    expect(registry.names()).toEqual(['local', 's3'])
+    expect(registry.select({ fileType: 'fastq' }).locationFor('blobs/ab/abc')).toBe('s3://reads/nanopore/blobs/ab/abc')
+  })
+
+  it('signs local URLs with the configured secret', async () => {
+    const env = { FILE_STORAGE_SIGNING_SECRET: 'secret', FILE_STORAGE_PATH: '/srv/files' }
+    const url = await createStorageRegistry(env).get('local').getSignedUrl('a', { expiresInSeconds: 60, fileName: 'a', contentType: 'text/plain' })
+    const token = url.slice(url.lastIndexOf('/') + 1)
+
+    expect((createStorageRegistry(env).get('local') as LocalStorageBackend).verifySignedToken(token)).not.toBeNull()
+    expect((createStorageRegistry({}).get('local') as LocalStorageBackend).verifySignedToken(token)).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createHmac } from 'crypto'
+import { verifyUploadUser } from '../src/middleware/auth.js'
+
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}))
+
+const SECRET = 'upload-secret'
+const NOW = Date.parse('2025-07-01T12:00:00Z')
+
+const sign = (claims: Record<string, unknown>, secret = SECRET) => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${payload}.${createHmac('sha256', secret).update(payload).digest('base64url')}`
+}
+
+const claims = { id: 'user-1', email: 'grey@lab.org', role: 'technician', expiresAt: NOW + 60_000 }
+
+describe('verifyUploadUser', () => {
+  it('returns the user a valid token names', () => {
+    expect(verifyUploadUser(sign(claims), SECRET, NOW)).toEqual({ id: 'user-1', email: 'grey@lab.org', role: 'technician' })
+  })
+
+  it('refuses missing, malformed and expired tokens', () => {
+    expect(verifyUploadUser(undefined, SECRET, NOW)).toBeNull()
+    expect(verifyUploadUser('not-a-token', SECRET, NOW)).toBeNull()
+    expect(verifyUploadUser(`${sign(claims)}.extra`, SECRET, NOW)).toBeNull()
+    expect(verifyUploadUser(sign({ ...claims, expiresAt: NOW - 1 }), SECRET, NOW)).toBeNull()
+    expect(verifyUploadUser(sign({ ...claims, id: '' }), SECRET, NOW)).toBeNull()
+  })
+
+  it('refuses tokens signed with another secret or changed after signing', () => {
+    expect(verifyUploadUser(sign(claims, 'other-secret'), SECRET, NOW)).toBeNull()
+
+    const [, signature] = sign(claims).split('.')
+    const forged = Buffer.from(JSON.stringify({ ...claims, id: 'user-2' })).toString('base64url')
+    expect(verifyUploadUser(`${forged}.${signature}`, SECRET, NOW)).toBeNull()
+  })
+})
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Starting the in-process Postgres takes a few seconds
+    hookTimeout: 30000
+  }
+})
@@ -1,10 +1,11 @@
-import { Kysely, sql } from 'kysely'
+import { Generated, Kysely, sql } from 'kysely'
 
 // Database schema for Sample Management Service
 export interface SampleManagementDatabase {
   samples: SampleTable
   workflow_history: WorkflowHistoryTable
   sample_assignments: SampleAssignmentTable
+  processing_steps: ProcessingStepTable
   chart_fields: ChartFieldTable
 }
 
@@ -54,6 +55,15 @@ export interface SampleAssignmentTable {
   notes?: string
 }
 
+// Processing steps table
+export interface ProcessingStepTable {
+  id: Generated<string>
+  sample_id: string
+  step_name: string
+  step_status: string
+  updated_at: Generated<Date>
+}
+
 // Chart field table for validation
 export interface ChartFieldTable {
   id: string
@@ -118,6 +128,29 @@ export async function migrateSampleManagementDatabase(db: Kysely<SampleManagemen
     .addColumn('notes', 'text')
     .execute()
 
+  // Create processing steps table
+  await db.schema
+    .createTable('processing_steps')
+    .ifNotExists()
+    .addColumn('id', 'uuid', (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn('sample_id', 'uuid', (col) => col.notNull().references('samples.id').onDelete('cascade'))
+    .addColumn('step_name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('step_status', 'varchar(50)', (col) => col.notNull().defaultTo('pending'))
+    .addColumn('updated_at', 'timestamp', (col) => col.notNull().defaultTo(sql`now()`))
+    .addUniqueConstraint('processing_steps_sample_step_unique', ['sample_id', 'step_name'])
+    .execute()
+
+  // Move samples off the statuses used before the shared lifecycle
+  const legacyStatuses: Array<[string, string]> = [
+    ['assigned', 'submitted'],
+    ['failed', 'submitted'],
+    ['in_progress', 'prep'],
+    ['cancelled', 'archived']
+  ]
+  for (const [legacy, status] of legacyStatuses) {
+    await db.updateTable('samples').set({ status }).where('status', '=', legacy).execute()
+  }
+
   // Create chart fields table
   await db.schema
     .createTable('chart_fields')
@@ -18,7 +18,9 @@ import {
   FlowCellType,
   createSampleSchema,
   updateSampleSchema,
-  sampleFiltersSchema
+  sampleFiltersSchema,
+  processingStepUpdateSchema,
+  StatusTransitionError
 } from './types/sample'
 
 // Load environment variables
@@ -202,7 +204,15 @@ app.put('/api/samples/:id', async (req, res) => {
   } catch (error) {
     logger.error('Failed to update sample:', error)
     
-    if (error instanceof Error) {
+    if (error instanceof StatusTransitionError) {
+      res.status(422).json({
+        error: error.message,
+        code: 'INVALID_STATUS_TRANSITION',
+        from: error.from,
+        to: error.to,
+        unmetPreconditions: error.unmetPreconditions
+      })
+    } else if (error instanceof Error) {
       res.status(400).json({ error: error.message })
     } else {
       res.status(500).json({ error: 'Failed to update sample' })
@@ -272,7 +282,15 @@ app.post('/api/samples/:id/status', async (req, res) => {
   } catch (error) {
     logger.error('Failed to update sample status:', error)
     
-    if (error instanceof Error) {
+    if (error instanceof StatusTransitionError) {
+      res.status(422).json({
+        error: error.message,
+        code: 'INVALID_STATUS_TRANSITION',
+        from: error.from,
+        to: error.to,
+        unmetPreconditions: error.unmetPreconditions
+      })
+    } else if (error instanceof Error) {
       res.status(400).json({ error: error.message })
     } else {
       res.status(500).json({ error: 'Failed to update sample status' })
@@ -297,6 +315,41 @@ app.get('/api/samples/:id/history', async (req, res) => {
   }
 })
 
+// Get processing steps
+app.get('/api/samples/:id/steps', async (req, res) => {
+  try {
+    const { id } = req.params
+    const steps = await sampleService.getProcessingSteps(id)
+    res.json(steps)
+  } catch (error) {
+    logger.error('Failed to get processing steps:', error)
+    
+    if (error instanceof Error) {
+      res.status(400).json({ error: error.message })
+    } else {
+      res.status(500).json({ error: 'Failed to get processing steps' })
+    }
+  }
+})
+
+// Record a processing step's status
+app.put('/api/samples/:id/steps/:stepName', async (req, res) => {
+  try {
+    const { id, stepName } = req.params
+    const { stepStatus } = processingStepUpdateSchema.parse(req.body)
+    const step = await sampleService.updateProcessingStep(id, stepName, stepStatus)
+    res.json(step)
+  } catch (error) {
+    logger.error('Failed to update processing step:', error)
+    
+    if (error instanceof Error) {
+      res.status(400).json({ error: error.message })
+    } else {
+      res.status(500).json({ error: 'Failed to update processing step' })
+    }
+  }
+})
+
 // Get samples by status
 app.get('/api/samples/status/:status', async (req, res) => {
   try {
@@ -7,6 +7,8 @@ import {
   SampleFilters, 
   SampleSearchResult,
   SampleStatus,
+  ProcessingStep,
+  ProcessingStepStatus,
   SamplePriority,
   SampleType,
   FlowCellType
@@ -198,8 +200,7 @@ export class SampleRepository {
       .updateTable('samples')
       .set({
         assigned_to: assignedTo,
-        library_prep_by: libraryPrepBy,
-        status: SampleStatus.ASSIGNED
+        library_prep_by: libraryPrepBy
       })
       .where('id', '=', id)
       .returning('*')
@@ -226,7 +227,7 @@ export class SampleRepository {
       .insertInto('workflow_history')
       .values({
         sample_id: id,
-        status: SampleStatus.ASSIGNED,
+        status: sample.status,
         assigned_to: assignedTo,
         notes: `Sample assigned to ${assignedTo}`
       })
@@ -275,6 +276,49 @@ export class SampleRepository {
       .execute()
   }
 
+  /**
+   * Get the processing steps recorded for a sample
+   */
+  async getProcessingSteps(sampleId: string): Promise<ProcessingStep[]> {
+    const steps = await this.db
+      .selectFrom('processing_steps')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+      .orderBy('updated_at', 'asc')
+      .execute()
+
+    return steps.map((step) => ({
+      stepName: step.step_name,
+      stepStatus: step.step_status as ProcessingStepStatus,
+      updatedAt: new Date(step.updated_at)
+    }))
+  }
+
+  /**
+   * Record the status of a processing step, creating the step on first use
+   */
+  async updateProcessingStep(sampleId: string, stepName: string, stepStatus: ProcessingStepStatus): Promise<ProcessingStep> {
+    const step = await this.db
+      .insertInto('processing_steps')
+      .values({
+        sample_id: sampleId,
+        step_name: stepName,
+        step_status: stepStatus
+      })
+      .onConflict((oc) => oc.columns(['sample_id', 'step_name']).doUpdateSet({
+        step_status: stepStatus,
+        updated_at: new Date()
+      }))
+      .returningAll()
+      .executeTakeFirstOrThrow()
+
+    return {
+      stepName: step.step_name,
+      stepStatus: step.step_status as ProcessingStepStatus,
+      updatedAt: new Date(step.updated_at)
+    }
+  }
+
   /**
    * Get samples by status
    */
@@ -7,11 +7,14 @@ import {
   SampleSearchResult,
   SampleStatus,
   SamplePriority,
+  ProcessingStep,
+  ProcessingStepStatus,
   createSampleSchema,
   updateSampleSchema,
   sampleFiltersSchema
 } from '../types/sample'
 import { z } from 'zod'
+import { assertStatusTransition } from './statusTransitions'
 
 export class SampleService {
   constructor(private sampleRepository: SampleRepository) {}
@@ -128,9 +131,14 @@ export class SampleService {
       }
     }
 
-    // Validate status transitions
-    if (validatedInput.status) {
-      this.validateStatusTransition(existingSample.status, validatedInput.status)
+    // Guards see the sample as it will be after the update, e.g. a flow cell type set in the same request
+    if (validatedInput.status && validatedInput.status !== existingSample.status) {
+      const processingSteps = await this.sampleRepository.getProcessingSteps(id)
+      assertStatusTransition(
+        { ...existingSample, ...validatedInput, status: existingSample.status } as Sample,
+        processingSteps,
+        validatedInput.status
+      )
     }
 
     // Update the sample
@@ -158,8 +166,8 @@ export class SampleService {
       throw new Error(`Sample with ID ${id} not found`)
     }
 
-    // Prevent deletion of samples in progress
-    if (existingSample.status === SampleStatus.IN_PROGRESS) {
+    // Prevent deletion of samples on a sequencer
+    if (existingSample.status === SampleStatus.SEQUENCING) {
       throw new Error('Cannot delete sample that is currently in progress')
     }
 
@@ -216,8 +224,14 @@ export class SampleService {
       throw new Error(`Sample with ID ${id} not found`)
     }
 
+    // Asking for the current status changes nothing, as in updateSample
+    if (existingSample.status === status) {
+      return existingSample
+    }
+
     // Validate status transition
-    this.validateStatusTransition(existingSample.status, status)
+    const processingSteps = await this.sampleRepository.getProcessingSteps(id)
+    assertStatusTransition(existingSample, processingSteps, status)
 
     // Update the status
     const updatedSample = await this.sampleRepository.updateSampleStatus(id, status)
@@ -229,6 +243,40 @@ export class SampleService {
     return updatedSample
   }
 
+  /**
+   * Record the status of a processing step, such as "Sample QC"
+   */
+  async updateProcessingStep(id: string, stepName: string, stepStatus: ProcessingStepStatus): Promise<ProcessingStep> {
+    // Validate UUID format
+    if (!this.isValidUUID(id)) {
+      throw new Error('Invalid sample ID format')
+    }
+
+    if (!stepName || stepName.trim().length === 0) {
+      throw new Error('Step name is required')
+    }
+
+    // Check if sample exists
+    const existingSample = await this.sampleRepository.getSampleById(id)
+    if (!existingSample) {
+      throw new Error(`Sample with ID ${id} not found`)
+    }
+
+    return await this.sampleRepository.updateProcessingStep(id, stepName.trim(), stepStatus)
+  }
+
+  /**
+   * Get processing steps for a sample
+   */
+  async getProcessingSteps(id: string): Promise<ProcessingStep[]> {
+    // Validate UUID format
+    if (!this.isValidUUID(id)) {
+      throw new Error('Invalid sample ID format')
+    }
+
+    return await this.sampleRepository.getProcessingSteps(id)
+  }
+
   /**
    * Get workflow history for a sample
    */
@@ -326,23 +374,4 @@ export class SampleService {
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
     return uuidRegex.test(uuid)
   }
-
-  /**
-   * Validate status transitions
-   */
-  private validateStatusTransition(currentStatus: SampleStatus, newStatus: SampleStatus): void {
-    const validTransitions: Record<SampleStatus, SampleStatus[]> = {
-      [SampleStatus.SUBMITTED]: [SampleStatus.ASSIGNED, SampleStatus.CANCELLED],
-      [SampleStatus.ASSIGNED]: [SampleStatus.IN_PROGRESS, SampleStatus.CANCELLED],
-      [SampleStatus.IN_PROGRESS]: [SampleStatus.COMPLETED, SampleStatus.FAILED, SampleStatus.CANCELLED],
-      [SampleStatus.COMPLETED]: [], // No further transitions
-      [SampleStatus.FAILED]: [SampleStatus.IN_PROGRESS], // Can retry
-      [SampleStatus.CANCELLED]: [] // No further transitions
-    }
-
-    const allowedTransitions = validTransitions[currentStatus]
-    if (!allowedTransitions.includes(newStatus)) {
-      throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`)
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { ProcessingStep, Sample, SampleStatus, StatusTransitionError, UnmetPrecondition } from '../types/sample'
+import { evaluateStatusTransition, type TransitionContext } from '@app/utils'
+
+/**
+ * Guard context for the shared transition table, which reads database column names
+ */
+function transitionContext(sample: Sample, processingSteps: ProcessingStep[]): TransitionContext {
+  return {
+    sample: {
+      id: sample.id,
+      status: sample.status,
+      flow_cell_type: sample.flowCellType ?? null,
+      assigned_to: sample.assignedTo ?? null
+    },
+    processingSteps: processingSteps.map((step) => ({
+      step_name: step.stepName,
+      step_status: step.stepStatus
+    }))
+  }
+}
+
+/**
+ * List the preconditions that block moving a sample to the given status
+ */
+export function getUnmetPreconditions(sample: Sample, processingSteps: ProcessingStep[], to: SampleStatus): UnmetPrecondition[] {
+  return evaluateStatusTransition(to, transitionContext(sample, processingSteps)).unmetPreconditions
+}
+
+/**
+ * Throw a StatusTransitionError when the transition is not allowed
+ */
+export function assertStatusTransition(sample: Sample, processingSteps: ProcessingStep[], to: SampleStatus): void {
+  const unmetPreconditions = getUnmetPreconditions(sample, processingSteps, to)
+  if (unmetPreconditions.length > 0) {
+    throw new StatusTransitionError(sample.status, to, unmetPreconditions)
+  }
+}
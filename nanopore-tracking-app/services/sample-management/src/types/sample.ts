@@ -1,13 +1,22 @@
 import { z } from 'zod'
 
-// Sample status enum
+// Sample status enum, the same lifecycle the tracking app uses
 export enum SampleStatus {
   SUBMITTED = 'submitted',
-  ASSIGNED = 'assigned',
+  PREP = 'prep',
+  SEQUENCING = 'sequencing',
+  ANALYSIS = 'analysis',
+  COMPLETED = 'completed',
+  ARCHIVED = 'archived'
+}
+
+// Processing step status enum
+export enum ProcessingStepStatus {
+  PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  CANCELLED = 'cancelled'
+  SKIPPED = 'skipped'
 }
 
 // Sample priority enum
@@ -303,6 +312,31 @@ export interface SampleFilters {
   dateTo?: Date
 }
 
+// Processing step recorded against a sample, checked by status transition guards
+export interface ProcessingStep {
+  stepName: string
+  stepStatus: ProcessingStepStatus
+  updatedAt: Date
+}
+
+// Precondition that blocked a status transition
+export interface UnmetPrecondition {
+  guard: string
+  message: string
+}
+
+// Raised when a status transition is not allowed
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly from: SampleStatus,
+    public readonly to: SampleStatus,
+    public readonly unmetPreconditions: UnmetPrecondition[]
+  ) {
+    super(`Cannot change status from '${from}' to '${to}': ${unmetPreconditions.map((p) => p.message).join('; ')}`)
+    this.name = 'StatusTransitionError'
+  }
+}
+
 // Sample search result
 export interface SampleSearchResult {
   samples: Sample[]
@@ -366,6 +400,10 @@ export const sampleFiltersSchema = z.object({
   limit: z.number().int().positive().max(100).optional()
 })
 
+export const processingStepUpdateSchema = z.object({
+  stepStatus: z.nativeEnum(ProcessingStepStatus)
+})
+
 // Type exports
 export type CreateSampleInputType = z.infer<typeof createSampleSchema>
 export type UpdateSampleInputType = z.infer<typeof updateSampleSchema>
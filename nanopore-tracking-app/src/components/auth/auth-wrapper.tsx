@@ -23,9 +23,11 @@ export const useAuth = () => {
 
 interface AuthWrapperProps {
   children: ReactNode
+  // Sign-in screen to show instead of the staff login form
+  renderLogin?: (onLogin: AuthContextType['login']) => ReactNode
 }
 
-export default function AuthWrapper({ children }: AuthWrapperProps) {
+export default function AuthWrapper({ children, renderLogin }: AuthWrapperProps) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isHydrated, setIsHydrated] = useState(false)
@@ -35,14 +37,10 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
     setIsHydrated(true)
     
     const checkSession = async () => {
-      const storedSessionId = localStorage.getItem('nanopore_session')
-      if (storedSessionId) {
-        const result = await authService.validateSession(storedSessionId)
-        if (result) {
-          setUser(result.user)
-        } else {
-          localStorage.removeItem('nanopore_session')
-        }
+      try {
+        setUser(await authService.getCurrentUser())
+      } catch (error) {
+        console.error('Session check error:', error)
       }
       setIsLoading(false)
     }
@@ -55,7 +53,6 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
       const result = await authService.login(email, password)
       if (result) {
         setUser(result.user)
-        localStorage.setItem('nanopore_session', result.session.id)
         toast.success(`Welcome back, ${result.user.name}!`)
         return true
       }
@@ -68,7 +65,6 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
 
   const logout = async () => {
     await authService.logout()
-    localStorage.removeItem('nanopore_session')
     setUser(null)
     toast.success('Logged out successfully')
   }
@@ -94,7 +90,7 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
 
   return (
     <AuthContext.Provider value={contextValue}>
-      {user ? children : <LoginForm onLogin={login} />}
+      {user ? children : renderLogin ? renderLogin(login) : <LoginForm onLogin={login} />}
     </AuthContext.Provider>
   )
 } 
\ No newline at end of file
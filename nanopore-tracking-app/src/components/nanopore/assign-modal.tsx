@@ -1,6 +1,7 @@
 import { Users, Check } from 'lucide-react'
 import { useState } from 'react'
 import { toast } from 'sonner'
+import { STAFF_MEMBERS } from '@/lib/notes/SampleNotes'
 
 import { Button } from '../ui/button'
 import {
@@ -23,17 +24,6 @@ interface AssignModalProps {
   sampleName: string
 }
 
-const STAFF_MEMBERS = [
-  'Grey',
-  'Tara', 
-  'Stephanie',
-  'Jenny',
-  'Alex',
-  'Sarah',
-  'Michael',
-  'Lisa'
-]
-
 export function AssignModal({
   isOpen,
   onClose,
@@ -0,0 +1,170 @@
+import {
+  AlertTriangle,
+  ArrowRightLeft,
+  CheckCircle,
+  Download,
+  FileText,
+  History,
+  Loader2,
+  MessageSquare,
+  Paperclip,
+  Play,
+  Printer,
+  UserCheck,
+  XCircle
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import type { TimelineEntryKind } from '@/lib/audit/SampleTimeline'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+
+interface AuditTimelineModalProps {
+  isOpen: boolean
+  onClose: () => void
+  sample: { id: string; sample_name: string } | null
+}
+
+const KIND_ICONS: Record<TimelineEntryKind, typeof History> = {
+  submitted: FileText,
+  updated: History,
+  status_change: ArrowRightLeft,
+  assignment: UserCheck,
+  step_started: Play,
+  step_completed: CheckCircle,
+  step_failed: XCircle,
+  attachment: Paperclip,
+  note: MessageSquare,
+  deleted: XCircle,
+  audit: History,
+}
+
+const KIND_COLORS: Partial<Record<TimelineEntryKind, string>> = {
+  status_change: 'text-blue-600',
+  step_completed: 'text-green-600',
+  step_failed: 'text-red-600',
+  deleted: 'text-red-600',
+  assignment: 'text-purple-600',
+}
+
+// Everything that happened to one sample, oldest first, with a chain-of-custody export
+export function AuditTimelineModal({ isOpen, onClose, sample }: AuditTimelineModalProps) {
+  const { data: timeline, isLoading } = trpc.sampleTimeline.get.useQuery(
+    { resourceId: sample?.id ?? '' },
+    { enabled: isOpen && !!sample }
+  )
+  const exportMutation = trpc.sampleTimeline.exportChainOfCustody.useMutation()
+
+  if (!sample) return null
+
+  const handleExport = async (format: 'html' | 'csv', print = false) => {
+    try {
+      const result = await exportMutation.mutateAsync({ resourceId: sample.id, format })
+      if (!result) return
+
+      const blob = new Blob([result.data], { type: result.mimeType })
+      const url = URL.createObjectURL(blob)
+
+      if (print) {
+        // The browser's print dialog produces the PDF version
+        const printWindow = window.open(url, '_blank')
+        printWindow?.addEventListener('load', () => printWindow.print())
+        setTimeout(() => URL.revokeObjectURL(url), 60_000)
+        return
+      }
+
+      const a = document.createElement('a')
+      a.href = url
+      a.download = result.filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast.error('Chain-of-custody export failed', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Audit Trail
+          </DialogTitle>
+          <DialogDescription>
+            Every recorded change, processing step, upload and note for {sample.sample_name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => handleExport('html', true)} disabled={exportMutation.isPending}>
+            <Printer className="h-4 w-4 mr-1" />
+            Print
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('html')} disabled={exportMutation.isPending}>
+            <Download className="h-4 w-4 mr-1" />
+            HTML
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('csv')} disabled={exportMutation.isPending}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+
+        {timeline && timeline.unavailableSources.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-orange-700">
+            <AlertTriangle className="h-4 w-4" />
+            Could not read {timeline.unavailableSources.join(', ')}; this history may be incomplete
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ol className="relative border-l ml-3 space-y-4">
+            {timeline?.entries.map(entry => {
+              const Icon = KIND_ICONS[entry.kind]
+              return (
+                <li key={entry.id} className="ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white border">
+                    <Icon className={`h-3.5 w-3.5 ${KIND_COLORS[entry.kind] ?? 'text-gray-500'}`} />
+                  </span>
+                  <p className="text-sm font-medium">{entry.summary}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.at).toLocaleString()}
+                    {entry.actor && ` · ${entry.actor}`}
+                  </p>
+                  {entry.changes.length > 0 && (
+                    <table className="mt-1 text-xs">
+                      <tbody>
+                        {entry.changes.map(change => (
+                          <tr key={change.field}>
+                            <td className="pr-3 text-muted-foreground">{change.label}</td>
+                            <td className="pr-2 text-red-700 line-through">{change.before ?? '—'}</td>
+                            <td className="text-green-700">{change.after ?? '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
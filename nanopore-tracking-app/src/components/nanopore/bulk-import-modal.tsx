@@ -0,0 +1,278 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+
+interface BulkImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+type Mapping = Record<string, number>
+
+interface SelectedFile {
+  fileName: string
+  contentBase64: string
+}
+
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  // Chunked so large files don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const downloadText = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export function BulkImportModal({ isOpen, onClose, onImported }: BulkImportModalProps) {
+  const [file, setFile] = useState<SelectedFile | null>(null)
+  const [mapping, setMapping] = useState<Mapping | undefined>(undefined)
+
+  const previewMutation = trpc.intake.preview.useMutation()
+  const commitMutation = trpc.intake.commit.useMutation()
+  const preview = previewMutation.data
+  const result = commitMutation.data
+
+  const errorDescription = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unknown error occurred'
+
+  const runPreview = async (selected: SelectedFile, nextMapping?: Mapping) => {
+    try {
+      await previewMutation.mutateAsync({ ...selected, mapping: nextMapping })
+    } catch (error) {
+      toast.error('Could not read spreadsheet', { description: errorDescription(error) })
+    }
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0]
+    if (!selectedFile) return
+
+    const selected = { fileName: selectedFile.name, contentBase64: await readAsBase64(selectedFile) }
+    setFile(selected)
+    setMapping(undefined)
+    commitMutation.reset()
+    await runPreview(selected)
+  }
+
+  const handleMappingChange = async (field: string, column: string) => {
+    if (!file || !preview) return
+
+    const nextMapping: Mapping = { ...preview.mapping }
+    if (column === '') {
+      delete nextMapping[field]
+    } else {
+      // A column feeds one field, so clear any other field using it
+      for (const [key, value] of Object.entries(nextMapping)) {
+        if (value === Number(column)) delete nextMapping[key]
+      }
+      nextMapping[field] = Number(column)
+    }
+    setMapping(nextMapping)
+    await runPreview(file, nextMapping)
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+
+    try {
+      const imported = await commitMutation.mutateAsync({ ...file, mapping })
+      if (!imported) return
+      onImported()
+      toast.success(`Imported ${imported.created.length} samples`, {
+        description: imported.rejected.length > 0
+          ? `${imported.rejected.length} rows were rejected; download the error report to fix them`
+          : undefined,
+      })
+    } catch (error) {
+      toast.error('Import failed', { description: errorDescription(error) })
+    }
+  }
+
+  const handleClose = () => {
+    setFile(null)
+    setMapping(undefined)
+    previewMutation.reset()
+    commitMutation.reset()
+    onClose()
+  }
+
+  const errorReportFilename = file ? `${file.fileName.replace(/\.[^.]+$/, '')}-rejected-rows.csv` : 'rejected-rows.csv'
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Bulk Sample Import
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX spreadsheet with one sample per row
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <label className="flex items-center gap-3 border-2 border-dashed rounded-lg p-4 cursor-pointer hover:bg-muted/50">
+            <Upload className="h-5 w-5 text-muted-foreground" />
+            <span className="text-sm">
+              {file ? file.fileName : 'Choose a .csv, .tsv or .xlsx file'}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Validating rows...
+            </div>
+          )}
+
+          {result && (
+            <div className="border rounded-lg p-4 space-y-2">
+              <p className="flex items-center gap-2 font-medium text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                Created {result.created.length} samples
+              </p>
+              {result.errorReport && (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-red-700">{result.rejected.length} rows were not imported</p>
+                  <Button size="sm" variant="outline" onClick={() => downloadText(result.errorReport!, result.errorReportFilename)}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Error Report
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {preview && !result && (
+            <>
+              {/* Column Mapping */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Column Mapping</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {preview.fields.map(({ field, label, required }) => (
+                    <label key={field} className="grid gap-1 text-xs">
+                      <span className={preview.unmappedRequired.includes(field) ? 'text-red-700 font-medium' : 'text-muted-foreground'}>
+                        {label}{required && ' *'}
+                      </span>
+                      <select
+                        className="border rounded px-2 py-1 text-sm bg-background"
+                        value={preview.mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        disabled={previewMutation.isPending}
+                      >
+                        <option value="">Not mapped</option>
+                        {preview.headers.map((header, column) => (
+                          <option key={column} value={column}>{header || `Column ${column + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Row Preview */}
+              <div className="flex items-center gap-2">
+                <Badge className="bg-green-100 text-green-800 border-green-200">{preview.validCount} valid</Badge>
+                {preview.invalidCount > 0 && (
+                  <Badge className="bg-red-100 text-red-800 border-red-200">{preview.invalidCount} with errors</Badge>
+                )}
+              </div>
+
+              <div className="border rounded-lg max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 sticky top-0">
+                    <tr>
+                      <th className="text-left p-2 w-16">Row</th>
+                      <th className="text-left p-2">Sample</th>
+                      <th className="text-left p-2">Submitter</th>
+                      <th className="text-left p-2">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map(row => (
+                      <tr key={row.rowNumber} className={row.valid ? '' : 'bg-red-50'}>
+                        <td className="p-2 text-muted-foreground">{row.rowNumber}</td>
+                        <td className="p-2">{row.values.sampleName}</td>
+                        <td className="p-2">{row.values.submitterName}</td>
+                        <td className="p-2">
+                          {row.valid ? (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <ul className="text-xs text-red-700 space-y-0.5">
+                              {row.errors.map(error => (
+                                <li key={error} className="flex gap-1">
+                                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          {preview?.errorReport && !result && (
+            <Button variant="outline" onClick={() => downloadText(preview.errorReport!, errorReportFilename)}>
+              <Download className="h-4 w-4 mr-2" />
+              Error Report
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleClose}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!result && (
+            <Button
+              onClick={handleImport}
+              disabled={!preview || preview.validCount === 0 || previewMutation.isPending || commitMutation.isPending}
+            >
+              {commitMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import {preview?.validCount ?? 0} Samples
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
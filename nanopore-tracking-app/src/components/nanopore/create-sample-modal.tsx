@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Card, CardContent } from '../ui/card'
@@ -14,11 +14,14 @@ import {
   Upload
 } from 'lucide-react'
 import { toast } from 'sonner'
+import type { SampleFormDefaults } from '@/lib/portal/SubmitterPortal'
 
 interface CreateSampleModalProps {
   isOpen: boolean
   onClose: () => void
   onSubmit: (data: any) => void
+  // Values to prefill when the modal opens, e.g. from a PDF intake form
+  initialData?: SampleFormDefaults | undefined
 }
 
 interface FormData {
@@ -31,6 +34,8 @@ interface FormData {
   concentration: string
   volume: string
   flowCellType: string
+  libraryPrepKit: string
+  barcodingRequired: boolean
   priority: 'low' | 'normal' | 'high' | 'urgent'
   chartField: string
   specialInstructions: string
@@ -60,7 +65,7 @@ const CHART_FIELDS = [
   'SEQ-001', 'SEQ-002', 'SEQ-003', 'SEQ-004', 'SEQ-005'
 ]
 
-export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateSampleModalProps) {
+export default function CreateSampleModal({ isOpen, onClose, onSubmit, initialData }: CreateSampleModalProps) {
   const [formData, setFormData] = useState<FormData>({
     sampleName: '',
     projectId: '',
@@ -71,6 +76,8 @@ export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateS
     concentration: '',
     volume: '',
     flowCellType: '',
+    libraryPrepKit: '',
+    barcodingRequired: false,
     priority: 'normal',
     chartField: '',
     specialInstructions: ''
@@ -78,6 +85,12 @@ export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateS
   
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [aiAssistance, setAiAssistance] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen || !initialData) return
+    const defined = Object.entries(initialData).filter(([, value]) => value !== undefined && value !== '')
+    setFormData(prev => ({ ...prev, ...Object.fromEntries(defined) }))
+  }, [isOpen, initialData])
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
 
   const validateForm = (): boolean => {
@@ -176,6 +189,9 @@ export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateS
         assignedTo: undefined, // Optional field
         libraryPrepBy: undefined, // Optional field
         chartField: formData.chartField, // Ensure this is not empty
+        // Decide which workflow template the sample's steps come from
+        libraryPrepKit: formData.libraryPrepKit.trim() || undefined,
+        barcodingRequired: formData.barcodingRequired,
       }
       
       // Final validation before submission
@@ -209,6 +225,8 @@ export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateS
         concentration: '',
         volume: '',
         flowCellType: '',
+        libraryPrepKit: '',
+        barcodingRequired: false,
         priority: 'normal',
         chartField: '',
         specialInstructions: ''
@@ -443,6 +461,28 @@ export default function CreateSampleModal({ isOpen, onClose, onSubmit }: CreateS
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Library Prep Kit
+                </label>
+                <Input
+                  value={formData.libraryPrepKit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, libraryPrepKit: e.target.value }))}
+                  placeholder="SQK-LSK114"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={formData.barcodingRequired}
+                  onChange={(e) => setFormData(prev => ({ ...prev, barcodingRequired: e.target.checked }))}
+                />
+                Barcoding required
+              </label>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react'
+import { CheckCircle, HardDriveUpload, Pause, Play, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Progress } from '../ui/progress'
+import {
+  abortResumableUpload,
+  fileFingerprint,
+  loadPendingUploads,
+  uploadResumable
+} from '@/lib/uploads/ResumableUpload'
+
+type UploadState = 'uploading' | 'paused' | 'interrupted' | 'completed' | 'failed'
+
+interface UploadEntry {
+  fingerprint: string
+  fileName: string
+  sizeBytes: number
+  uploadedBytes: number
+  state: UploadState
+  error?: string | undefined
+}
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`
+}
+
+// Large sequencing data files, uploaded in parts so a dropped connection or a reload loses at most one part
+export function DataFileUploadsPanel() {
+  const [entries, setEntries] = useState<UploadEntry[]>([])
+  const files = useRef(new Map<string, File>())
+  const controllers = useRef(new Map<string, AbortController>())
+
+  // Uploads left unfinished by an earlier page load wait for their file to be selected again
+  useEffect(() => {
+    const pending = loadPendingUploads(localStorage)
+    setEntries(Object.entries(pending).map(([fingerprint, upload]) => ({
+      fingerprint,
+      fileName: upload.fileName,
+      sizeBytes: upload.sizeBytes,
+      uploadedBytes: upload.uploadedBytes,
+      state: 'interrupted'
+    })))
+  }, [])
+
+  const update = (fingerprint: string, changes: Partial<UploadEntry>) =>
+    setEntries(current => current.map(entry => entry.fingerprint === fingerprint ? { ...entry, ...changes } : entry))
+
+  const start = async (file: File) => {
+    const fingerprint = fileFingerprint(file)
+    if (controllers.current.has(fingerprint)) return
+
+    const controller = new AbortController()
+    controllers.current.set(fingerprint, controller)
+    files.current.set(fingerprint, file)
+    setEntries(current => [
+      ...current.filter(entry => entry.fingerprint !== fingerprint),
+      {
+        fingerprint,
+        fileName: file.name,
+        sizeBytes: file.size,
+        uploadedBytes: current.find(entry => entry.fingerprint === fingerprint)?.uploadedBytes ?? 0,
+        state: 'uploading'
+      }
+    ])
+
+    try {
+      await uploadResumable(file, {
+        signal: controller.signal,
+        onProgress: (uploadedBytes) => update(fingerprint, { uploadedBytes })
+      })
+      update(fingerprint, { uploadedBytes: file.size, state: 'completed' })
+      toast.success(`${file.name} uploaded`)
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update(fingerprint, { state: 'paused', error: undefined })
+      } else {
+        update(fingerprint, { state: 'failed', error: error instanceof Error ? error.message : 'Upload failed' })
+      }
+    } finally {
+      controllers.current.delete(fingerprint)
+    }
+  }
+
+  const handleFiles = (selected: FileList | null) => {
+    for (const file of Array.from(selected ?? [])) {
+      void start(file)
+    }
+  }
+
+  const handleResume = (entry: UploadEntry) => {
+    const file = files.current.get(entry.fingerprint)
+    if (file) void start(file)
+  }
+
+  const handleCancel = async (entry: UploadEntry) => {
+    controllers.current.get(entry.fingerprint)?.abort()
+    await abortResumableUpload(entry.fingerprint)
+    files.current.delete(entry.fingerprint)
+    setEntries(current => current.filter(item => item.fingerprint !== entry.fingerprint))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDriveUpload className="h-5 w-5 text-blue-600" />
+          Data File Uploads
+        </CardTitle>
+        <CardDescription>
+          FASTQ, BAM, POD5 and other run outputs. Unfinished uploads continue where they stopped when the same file is selected again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          type="file"
+          multiple
+          className="block text-sm"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+
+        {entries.length > 0 && (
+          <ul className="divide-y border rounded-lg">
+            {entries.map(entry => {
+              const percent = entry.sizeBytes > 0 ? Math.floor((entry.uploadedBytes / entry.sizeBytes) * 100) : 0
+              return (
+                <li key={entry.fingerprint} className="p-3 text-sm space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{entry.fileName}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatBytes(entry.uploadedBytes)} of {formatBytes(entry.sizeBytes)} · {percent}%
+                        {entry.state === 'interrupted' && ' · select the file again to resume'}
+                        {entry.state === 'paused' && ' · paused'}
+                      </p>
+                      {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {entry.state === 'completed' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                      {entry.state === 'uploading' && (
+                        <Button variant="ghost" size="sm" title="Pause" onClick={() => controllers.current.get(entry.fingerprint)?.abort()}>
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(entry.state === 'paused' || entry.state === 'failed') && (
+                        <Button variant="ghost" size="sm" title="Resume" onClick={() => handleResume(entry)}>
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {entry.state !== 'completed' && (
+                        <Button variant="ghost" size="sm" title="Cancel upload" onClick={() => handleCancel(entry)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <Progress value={percent} />
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
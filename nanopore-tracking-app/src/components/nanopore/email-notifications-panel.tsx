@@ -0,0 +1,266 @@
+import { useState } from 'react'
+import { Eye, Loader2, Mail, RefreshCw, RotateCcw, Save, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  TEMPLATE_VARIABLES,
+  type EmailMilestone,
+  type EmailTemplate
+} from '@/lib/notifications/EmailNotifications'
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  digest: 'bg-purple-100 text-purple-800',
+  digested: 'bg-gray-100 text-gray-800',
+}
+
+const errorDescription = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error occurred'
+
+// Milestone email templates, the outbox and per-recipient preferences
+export function EmailNotificationsPanel() {
+  const [editing, setEditing] = useState<{ templateKey: EmailMilestone; template: EmailTemplate } | null>(null)
+  const [preview, setPreview] = useState<EmailTemplate | null>(null)
+  const [lookupEmail, setLookupEmail] = useState('')
+  const [preferenceEmail, setPreferenceEmail] = useState<string | null>(null)
+
+  const utils = trpc.useUtils()
+  const { data: templates } = trpc.emailNotifications.listTemplates.useQuery()
+  const { data: outbox, isFetching: outboxLoading } = trpc.emailNotifications.outbox.useQuery()
+  const { data: preference } = trpc.emailNotifications.getPreference.useQuery(preferenceEmail ?? '', {
+    enabled: preferenceEmail !== null,
+  })
+  const updateMutation = trpc.emailNotifications.updateTemplate.useMutation()
+  const resetMutation = trpc.emailNotifications.resetTemplate.useMutation()
+  const previewMutation = trpc.emailNotifications.previewTemplate.useMutation()
+  const retryMutation = trpc.emailNotifications.retry.useMutation()
+  const preferenceMutation = trpc.emailNotifications.setPreference.useMutation()
+
+  const handlePreview = async () => {
+    if (!editing) return
+    try {
+      setPreview(await previewMutation.mutateAsync({ template: editing.template }) ?? null)
+    } catch (error) {
+      toast.error('Preview failed', { description: errorDescription(error) })
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+    try {
+      await updateMutation.mutateAsync(editing)
+      toast.success('Template saved')
+      setEditing(null)
+      setPreview(null)
+      await utils.emailNotifications.listTemplates.invalidate()
+    } catch (error) {
+      toast.error('Failed to save template', { description: errorDescription(error) })
+    }
+  }
+
+  const handleReset = async (templateKey: EmailMilestone, label: string) => {
+    if (!window.confirm(`Restore the default "${label}" template?`)) return
+    try {
+      await resetMutation.mutateAsync(templateKey)
+      toast.success(`Restored default "${label}" template`)
+      await utils.emailNotifications.listTemplates.invalidate()
+    } catch (error) {
+      toast.error('Failed to reset template', { description: errorDescription(error) })
+    }
+  }
+
+  const handleRetry = async (id: string) => {
+    try {
+      await retryMutation.mutateAsync(id)
+      await utils.emailNotifications.outbox.invalidate()
+    } catch (error) {
+      toast.error('Failed to retry email', { description: errorDescription(error) })
+    }
+  }
+
+  const handlePreference = async (changes: { optedOut?: boolean; digest?: boolean }) => {
+    if (!preferenceEmail) return
+    try {
+      await preferenceMutation.mutateAsync({ email: preferenceEmail, ...changes })
+      await utils.emailNotifications.getPreference.invalidate(preferenceEmail)
+    } catch (error) {
+      toast.error('Failed to update preferences', { description: errorDescription(error) })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-blue-600" />
+          Email Notifications
+        </CardTitle>
+        <CardDescription>
+          Milestone emails to submitters and assigned staff, sent through a retrying outbox
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="divide-y border rounded-lg">
+          {templates?.map(template => (
+            <li key={template.templateKey} className="p-3 text-sm space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{template.label}</p>
+                  <p className="text-xs text-gray-500">{template.subject}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {template.customized && <Badge className="bg-blue-100 text-blue-800">customized</Badge>}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditing({ templateKey: template.templateKey, template: { subject: template.subject, body: template.body } })
+                      setPreview(null)
+                    }}
+                  >
+                    Edit
+                  </Button>
+                  {template.customized && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleReset(template.templateKey, template.label)}
+                      disabled={resetMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {editing?.templateKey === template.templateKey && (
+                <div className="space-y-2">
+                  <Input
+                    value={editing.template.subject}
+                    onChange={(e) => setEditing({ ...editing, template: { ...editing.template, subject: e.target.value } })}
+                  />
+                  <textarea
+                    className="w-full min-h-[160px] border rounded-md p-2 text-sm font-mono"
+                    value={editing.template.body}
+                    onChange={(e) => setEditing({ ...editing, template: { ...editing.template, body: e.target.value } })}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Placeholders: {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(' ')}
+                  </p>
+                  {preview && (
+                    <div className="border rounded-md bg-gray-50 p-3">
+                      <p className="text-sm font-medium">{preview.subject}</p>
+                      <p className="text-sm whitespace-pre-wrap mt-2">{preview.body}</p>
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                    <Button size="sm" variant="outline" onClick={handlePreview} disabled={previewMutation.isPending}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      Preview
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={updateMutation.isPending}>
+                      {updateMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex flex-wrap gap-2">
+              {outbox && Object.entries(outbox.counts).map(([status, count]) => (
+                <Badge key={status} className={STATUS_COLORS[status]}>{status}: {count}</Badge>
+              ))}
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => utils.emailNotifications.outbox.invalidate()}>
+              <RefreshCw className={`h-4 w-4 ${outboxLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-gray-500">
+              <tr>
+                <th className="p-1">Recipient</th>
+                <th className="p-1">Subject</th>
+                <th className="p-1">Status</th>
+                <th className="p-1">Attempts</th>
+                <th className="p-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {outbox?.recent.map(message => (
+                <tr key={message.id} className="border-t">
+                  <td className="p-1">{message.recipient}</td>
+                  <td className="p-1">
+                    {message.subject}
+                    {message.last_error && <p className="text-xs text-red-600">{message.last_error}</p>}
+                  </td>
+                  <td className="p-1"><Badge className={STATUS_COLORS[message.status]}>{message.status}</Badge></td>
+                  <td className="p-1 text-gray-500">{message.attempts}</td>
+                  <td className="p-1 text-right">
+                    {message.status === 'failed' && (
+                      <Button size="sm" variant="outline" onClick={() => handleRetry(message.id)} disabled={retryMutation.isPending}>
+                        Retry
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setPreferenceEmail(lookupEmail.trim().toLowerCase() || null)
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="Look up a recipient's preferences"
+              value={lookupEmail}
+              onChange={(e) => setLookupEmail(e.target.value)}
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+          {preference && (
+            <div className="flex items-center gap-6 text-sm">
+              <span className="font-medium">{preference.email}</span>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preference.opted_out}
+                  onChange={(e) => handlePreference({ optedOut: e.target.checked })}
+                />
+                Opted out
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preference.digest}
+                  onChange={(e) => handlePreference({ digest: e.target.checked })}
+                />
+                Daily digest
+              </label>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
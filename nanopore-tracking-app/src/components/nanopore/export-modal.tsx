@@ -1,8 +1,7 @@
-import { useState } from 'react'
-import { Calendar, Download, FileText, Database } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { Calendar, Download, FileText, Database, Save, Sheet, Trash2 } from 'lucide-react'
 import { toast } from 'sonner'
-import { format } from 'date-fns'
-import { apiClient } from '@/lib/api-client'
+import { trpc } from '@/client/trpc'
 import { Button } from '../ui/button'
 import {
   Dialog,
@@ -18,50 +17,114 @@ interface ExportModalProps {
   onClose: () => void
 }
 
+type ExportFormat = 'csv' | 'tsv' | 'xlsx' | 'ndjson'
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; icon: typeof FileText }> = [
+  { value: 'csv', label: 'CSV (Comma-separated values)', icon: FileText },
+  { value: 'tsv', label: 'TSV (Tab-separated values)', icon: FileText },
+  { value: 'xlsx', label: 'XLSX (Excel workbook)', icon: Sheet },
+  { value: 'ndjson', label: 'NDJSON (one JSON object per line)', icon: Database },
+]
+
+const STATUS_OPTIONS = ['submitted', 'prep', 'sequencing', 'analysis', 'completed', 'archived'] as const
+const PRIORITY_OPTIONS = ['low', 'normal', 'high', 'urgent'] as const
+
+const GROUP_LABELS: Record<string, string> = {
+  sample: 'Sample',
+  details: 'Sample Details',
+  steps: 'Processing Steps',
+}
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean)
+
+const toggle = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter(entry => entry !== item) : [...list, item]
+
 export function ExportModal({ isOpen, onClose }: ExportModalProps) {
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
-  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv')
-  const [includeAllUsers, setIncludeAllUsers] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [statuses, setStatuses] = useState<string[]>([])
+  const [priorities, setPriorities] = useState<string[]>([])
+  const [assignedTo, setAssignedTo] = useState('')
+  const [labNames, setLabNames] = useState('')
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([])
+  const [presetName, setPresetName] = useState('')
   const [isExporting, setIsExporting] = useState(false)
 
-  const handleExport = async () => {
-    if (!startDate || !endDate) {
-      toast.error('Please select both start and end dates')
-      return
+  const utils = trpc.useUtils()
+  const { data: columnCatalog } = trpc.exports.listColumns.useQuery(undefined, { enabled: isOpen })
+  const { data: presets } = trpc.exports.listPresets.useQuery(undefined, { enabled: isOpen })
+  const savePresetMutation = trpc.exports.savePreset.useMutation()
+  const deletePresetMutation = trpc.exports.deletePreset.useMutation()
+
+  useEffect(() => {
+    if (columnCatalog && selectedColumns.length === 0) {
+      setSelectedColumns(columnCatalog.defaultColumns)
     }
+  }, [columnCatalog])
+
+  const filters = useMemo(() => ({
+    ...(startDate && { submittedFrom: new Date(startDate) }),
+    ...(endDate && { submittedTo: new Date(`${endDate}T23:59:59.999`) }),
+    ...(statuses.length > 0 && { statuses: statuses as Array<typeof STATUS_OPTIONS[number]> }),
+    ...(priorities.length > 0 && { priorities: priorities as Array<typeof PRIORITY_OPTIONS[number]> }),
+    ...(splitList(assignedTo).length > 0 && { assignedTo: splitList(assignedTo) }),
+    ...(splitList(labNames).length > 0 && { labNames: splitList(labNames) }),
+  }), [startDate, endDate, statuses, priorities, assignedTo, labNames])
 
-    const start = new Date(startDate)
-    const end = new Date(endDate)
+  const { data: matchingCount } = trpc.exports.count.useQuery(filters, { enabled: isOpen })
 
-    if (start > end) {
+  const columnsByGroup = useMemo(() => {
+    const groups: Record<string, Array<{ key: string; label: string }>> = {}
+    for (const column of columnCatalog?.columns ?? []) {
+      (groups[column.group] ??= []).push(column)
+    }
+    return groups
+  }, [columnCatalog])
+
+  const handleExport = async () => {
+    if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
       toast.error('Start date must be before end date')
       return
     }
 
+    if (selectedColumns.length === 0) {
+      toast.error('Select at least one column')
+      return
+    }
+
     setIsExporting(true)
 
     try {
-      const result = await apiClient.exportSamples({
-        startDate: start,
-        endDate: end,
-        format: exportFormat,
-        includeAllUsers,
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ columns: selectedColumns, filters, format: exportFormat }),
       })
 
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `Export failed with status ${response.status}`)
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        ?? `nanopore-samples.${exportFormat}`
+
       // Create and download the file
-      const blob = new Blob([result.data], { type: result.mimeType })
+      const blob = await response.blob()
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = result.filename
+      a.download = filename
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
 
       toast.success('Export completed successfully!', {
-        description: `Downloaded ${result.filename}`,
+        description: `Downloaded ${filename}`,
       })
 
       onClose()
@@ -75,32 +138,115 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
     }
   }
 
+  const handleLoadPreset = (presetId: string) => {
+    const preset = presets?.find(p => p.id === presetId)
+    if (!preset) return
+
+    const presetFilters = preset.filters as Record<string, any>
+    setSelectedColumns(preset.columns)
+    setExportFormat(preset.format)
+    setStartDate(presetFilters.submittedFrom ? String(presetFilters.submittedFrom).slice(0, 10) : '')
+    setEndDate(presetFilters.submittedTo ? String(presetFilters.submittedTo).slice(0, 10) : '')
+    setStatuses(presetFilters.statuses ?? [])
+    setPriorities(presetFilters.priorities ?? [])
+    setAssignedTo((presetFilters.assignedTo ?? []).join(', '))
+    setLabNames((presetFilters.labNames ?? []).join(', '))
+    setPresetName(preset.name)
+  }
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) {
+      toast.error('Enter a name for the preset')
+      return
+    }
+
+    try {
+      await savePresetMutation.mutateAsync({
+        name: presetName.trim(),
+        columns: selectedColumns,
+        filters,
+        format: exportFormat,
+      })
+      await utils.exports.listPresets.invalidate()
+      toast.success(`Preset "${presetName.trim()}" saved`)
+    } catch (error) {
+      toast.error('Failed to save preset', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  const handleDeletePreset = async (presetId: string) => {
+    try {
+      await deletePresetMutation.mutateAsync(presetId)
+      await utils.exports.listPresets.invalidate()
+    } catch (error) {
+      toast.error('Failed to delete preset', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
   const handleReset = () => {
     setStartDate('')
     setEndDate('')
     setExportFormat('csv')
-    setIncludeAllUsers(false)
+    setStatuses([])
+    setPriorities([])
+    setAssignedTo('')
+    setLabNames('')
+    setPresetName('')
+    setSelectedColumns(columnCatalog?.defaultColumns ?? [])
   }
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Download className="h-5 w-5" />
             Export Nanopore Samples
           </DialogTitle>
           <DialogDescription>
-            Export sample data with lab names for a specific date range
+            Choose columns and filters, or start from a saved preset
           </DialogDescription>
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
+          {/* Presets */}
+          {presets && presets.length > 0 && (
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Saved Presets</label>
+              <div className="flex flex-wrap gap-2">
+                {presets.map(preset => (
+                  <div key={preset.id} className="flex items-center border rounded-md">
+                    <button
+                      type="button"
+                      className="px-2 py-1 text-sm hover:bg-muted"
+                      onClick={() => handleLoadPreset(preset.id)}
+                      title={preset.description ?? undefined}
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      type="button"
+                      className="px-1 py-1 text-muted-foreground hover:text-red-600"
+                      onClick={() => handleDeletePreset(preset.id)}
+                      aria-label={`Delete preset ${preset.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Date Range Selection */}
           <div className="grid grid-cols-2 gap-4">
             <div className="grid gap-2">
               <label htmlFor="startDate" className="text-sm font-medium">
-                Start Date
+                Submitted From
               </label>
               <Input
                 id="startDate"
@@ -112,7 +258,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
             </div>
             <div className="grid gap-2">
               <label htmlFor="endDate" className="text-sm font-medium">
-                End Date
+                Submitted To
               </label>
               <Input
                 id="endDate"
@@ -124,79 +270,156 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
             </div>
           </div>
 
-          {/* Format Selection */}
-          <div className="grid gap-2">
-            <label className="text-sm font-medium">Export Format</label>
-            <div className="grid gap-2">
-              <div className="flex items-center space-x-2">
-                <input
-                  type="radio"
-                  id="csv"
-                  name="format"
-                  value="csv"
-                  checked={exportFormat === 'csv'}
-                  onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')}
-                  className="w-4 h-4"
-                />
-                <label htmlFor="csv" className="flex items-center gap-2 text-sm">
-                  <FileText className="h-4 w-4" />
-                  CSV (Comma-separated values)
+          {/* Status and Priority Filters */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-1">
+              <label className="text-sm font-medium">Status</label>
+              {STATUS_OPTIONS.map(status => (
+                <label key={status} className="flex items-center gap-2 text-sm capitalize">
+                  <input
+                    type="checkbox"
+                    checked={statuses.includes(status)}
+                    onChange={() => setStatuses(toggle(statuses, status))}
+                    className="w-4 h-4"
+                  />
+                  {status}
                 </label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="radio"
-                  id="json"
-                  name="format"
-                  value="json"
-                  checked={exportFormat === 'json'}
-                  onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')}
-                  className="w-4 h-4"
-                />
-                <label htmlFor="json" className="flex items-center gap-2 text-sm">
-                  <Database className="h-4 w-4" />
-                  JSON (JavaScript Object Notation)
+              ))}
+            </div>
+            <div className="grid gap-1 content-start">
+              <label className="text-sm font-medium">Priority</label>
+              {PRIORITY_OPTIONS.map(priority => (
+                <label key={priority} className="flex items-center gap-2 text-sm capitalize">
+                  <input
+                    type="checkbox"
+                    checked={priorities.includes(priority)}
+                    onChange={() => setPriorities(toggle(priorities, priority))}
+                    className="w-4 h-4"
+                  />
+                  {priority}
                 </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Assignee and Lab Filters */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <label htmlFor="assignedTo" className="text-sm font-medium">
+                Assigned To
+              </label>
+              <Input
+                id="assignedTo"
+                placeholder="Comma-separated names"
+                value={assignedTo}
+                onChange={(e) => setAssignedTo(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <label htmlFor="labNames" className="text-sm font-medium">
+                Lab
+              </label>
+              <Input
+                id="labNames"
+                placeholder="Comma-separated labs"
+                value={labNames}
+                onChange={(e) => setLabNames(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Column Picker */}
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Columns ({selectedColumns.length} selected)</label>
+              <div className="flex gap-2 text-xs">
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => setSelectedColumns(columnCatalog?.columns.map(c => c.key) ?? [])}
+                >
+                  All
+                </button>
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => setSelectedColumns(columnCatalog?.defaultColumns ?? [])}
+                >
+                  Default
+                </button>
               </div>
             </div>
+            <div className="border rounded-lg p-3 max-h-56 overflow-y-auto space-y-3">
+              {Object.entries(columnsByGroup).map(([group, columns]) => (
+                <div key={group}>
+                  <p className="text-xs font-medium text-muted-foreground mb-1">{GROUP_LABELS[group] ?? group}</p>
+                  <div className="grid grid-cols-2 gap-1">
+                    {columns.map(column => (
+                      <label key={column.key} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selectedColumns.includes(column.key)}
+                          onChange={() => setSelectedColumns(toggle(selectedColumns, column.key))}
+                          className="w-4 h-4"
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
 
-          {/* Include All Users Option */}
-          <div className="flex items-center space-x-2">
-            <input
-              type="checkbox"
-              id="includeAllUsers"
-              checked={includeAllUsers}
-              onChange={(e) => setIncludeAllUsers(e.target.checked)}
-              className="w-4 h-4"
-            />
-            <label htmlFor="includeAllUsers" className="text-sm">
-              Include samples from all users (team export)
-            </label>
+          {/* Format Selection */}
+          <div className="grid gap-2">
+            <label className="text-sm font-medium">Export Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMAT_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    id={option.value}
+                    name="format"
+                    value={option.value}
+                    checked={exportFormat === option.value}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                    className="w-4 h-4"
+                  />
+                  <label htmlFor={option.value} className="flex items-center gap-2 text-sm">
+                    <option.icon className="h-4 w-4" />
+                    {option.label}
+                  </label>
+                </div>
+              ))}
+            </div>
           </div>
 
           {/* Export Preview */}
-          {startDate && endDate && (
-            <div className="bg-muted/50 p-3 rounded-lg text-sm">
-              <p className="font-medium text-foreground">Export Preview:</p>
-              <div className="mt-1 text-muted-foreground">
-                <p>Date Range: {format(new Date(startDate), 'MMM d, yyyy')} to {format(new Date(endDate), 'MMM d, yyyy')}</p>
-                <p>Format: {exportFormat.toUpperCase()}</p>
-                <p>Scope: {includeAllUsers ? 'All users' : 'Your samples only'}</p>
-              </div>
+          <div className="bg-muted/50 p-3 rounded-lg text-sm">
+            <p className="font-medium text-foreground">Export Preview:</p>
+            <div className="mt-1 text-muted-foreground">
+              <p>Matching samples: {matchingCount ?? '…'}</p>
+              <p>Columns: {selectedColumns.length}</p>
+              <p>Format: {exportFormat.toUpperCase()}</p>
             </div>
-          )}
+          </div>
 
-          {/* Included Data Info */}
-          <div className="bg-blue-50/50 p-3 rounded-lg text-sm">
-            <p className="font-medium text-blue-900">Included Data:</p>
-            <ul className="mt-1 text-blue-800 list-disc list-inside">
-              <li>Sample details (name, type, project)</li>
-              <li>Lab name and submitter information</li>
-              <li>Status and priority</li>
-              <li>Assignment information</li>
-              <li>Submission and processing dates</li>
-            </ul>
+          {/* Save Preset */}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={handleSavePreset}
+              disabled={savePresetMutation.isPending || selectedColumns.length === 0}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Preset
+            </Button>
           </div>
         </div>
 
@@ -209,7 +432,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
           </Button>
           <Button
             onClick={handleExport}
-            disabled={isExporting || !startDate || !endDate}
+            disabled={isExporting || selectedColumns.length === 0}
           >
             {isExporting ? (
               <>
@@ -227,4 +450,4 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
       </DialogContent>
     </Dialog>
   )
-}
\ No newline at end of file
+}
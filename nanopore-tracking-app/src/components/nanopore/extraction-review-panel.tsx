@@ -0,0 +1,320 @@
+import { useState } from 'react'
+import { Check, ExternalLink, FileSearch, FileUp, Loader2, Pencil, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { PdfPagePreview } from './pdf-viewer'
+import { REVIEW_FIELD_LABELS, type ReviewDecision } from '@/lib/ai/extraction-review'
+import type { TemplateFormField } from '@/lib/ai/form-template-registry'
+
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  // Chunked so large files don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const fieldLabel = (fieldName: string): string =>
+  REVIEW_FIELD_LABELS[fieldName as TemplateFormField] ?? fieldName
+
+const confidenceColor = (confidence: number): string =>
+  confidence >= 0.8 ? 'bg-green-100 text-green-800'
+  : confidence >= 0.6 ? 'bg-yellow-100 text-yellow-800'
+  : 'bg-red-100 text-red-800'
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  accepted: 'bg-green-100 text-green-800',
+  edited: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+// PDF submission forms held until a person has checked the values the extraction was unsure of
+export function ExtractionReviewPanel() {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [activeField, setActiveField] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ fieldName: string; value: string } | null>(null)
+  const [chartField, setChartField] = useState('')
+
+  const utils = trpc.useUtils()
+  const { data: queue, isLoading } = trpc.extractionReviews.list.useQuery({ status: 'pending' })
+  const { data: review } = trpc.extractionReviews.get.useQuery(selectedId ?? '', { enabled: !!selectedId })
+  const submitMutation = trpc.extractionReviews.submit.useMutation()
+  const decideMutation = trpc.extractionReviews.decideField.useMutation()
+  const approveMutation = trpc.extractionReviews.approve.useMutation()
+  const rejectMutation = trpc.extractionReviews.reject.useMutation()
+
+  const field = review?.fields.find(candidate => candidate.fieldName === activeField)
+    ?? review?.fields.find(candidate => candidate.decision === 'pending')
+    ?? review?.fields[0]
+  const pageNumber = field?.pageNumber ?? 1
+  const { data: page } = trpc.extractionReviews.pageLayout.useQuery(
+    { id: selectedId ?? '', pageNumber },
+    { enabled: !!selectedId }
+  )
+
+  const errorDescription = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unknown error occurred'
+
+  const refresh = async () => {
+    await Promise.all([
+      utils.extractionReviews.list.invalidate(),
+      utils.extractionReviews.get.invalidate(),
+    ])
+  }
+
+  const open = (id: string) => {
+    setSelectedId(id)
+    setActiveField(null)
+    setEditing(null)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const created = await submitMutation.mutateAsync({ fileName: file.name, contentBase64: await readAsBase64(file) })
+      if (!created) return
+      const uncertain = created.fields.filter(candidate => candidate.decision === 'pending').length
+      toast.success(uncertain > 0 ? `${uncertain} fields in ${file.name} need review` : `${file.name} is ready to approve`)
+      await utils.extractionReviews.list.invalidate()
+      open(created.id)
+    } catch (error) {
+      toast.error('Could not read submission form', { description: errorDescription(error) })
+    }
+  }
+
+  const decide = async (fieldName: string, decision: 'accepted' | 'edited' | 'rejected', value?: string) => {
+    if (!selectedId) return
+
+    try {
+      await decideMutation.mutateAsync({ id: selectedId, fieldName, decision, ...(value !== undefined ? { value } : {}) })
+      setEditing(null)
+      await refresh()
+    } catch (error) {
+      toast.error(`Could not update ${fieldLabel(fieldName)}`, { description: errorDescription(error) })
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!selectedId) return
+
+    try {
+      const result = await approveMutation.mutateAsync({ id: selectedId, chartField: chartField.trim() })
+      if (!result) return
+      toast.success(`Sample created from ${result.review.fileName}`)
+      setSelectedId(null)
+      setChartField('')
+      await Promise.all([refresh(), utils.nanopore.getAll.invalidate()])
+    } catch (error) {
+      toast.error('Could not create sample', { description: errorDescription(error) })
+    }
+  }
+
+  const handleReject = async () => {
+    if (!selectedId || !review) return
+    if (!window.confirm(`Discard ${review.fileName} without creating a sample?`)) return
+
+    try {
+      await rejectMutation.mutateAsync(selectedId)
+      toast.success(`Discarded ${review.fileName}`)
+      setSelectedId(null)
+      await refresh()
+    } catch (error) {
+      toast.error('Could not discard review', { description: errorDescription(error) })
+    }
+  }
+
+  const undecided = review?.fields.filter(candidate => candidate.decision === 'pending').length ?? 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSearch className="h-5 w-5" />
+              Extraction review
+            </CardTitle>
+            <CardDescription>
+              Check values read from PDF submission forms before their samples are created. Your corrections teach later extractions.
+            </CardDescription>
+          </div>
+          <label className="inline-flex">
+            <input type="file" accept="application/pdf,.pdf" className="hidden" onChange={handleFileChange} disabled={submitMutation.isPending} />
+            <span className="inline-flex items-center gap-2 rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+              {submitMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              Submit a PDF form
+            </span>
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading review queue...</p>
+        ) : !queue || queue.length === 0 ? (
+          <p className="text-sm text-gray-500">No forms are waiting for review.</p>
+        ) : (
+          <div className="space-y-2">
+            {queue.map(item => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => open(item.id)}
+                className={`w-full flex items-center justify-between rounded-md border p-3 text-left hover:bg-gray-50 ${item.id === selectedId ? 'border-blue-500 bg-blue-50' : ''}`}
+              >
+                <div>
+                  <p className="text-sm font-medium">{item.fileName}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.extractionMethod} extraction · submitted by {item.submittedBy ?? 'unknown'} · {new Date(item.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {item.pendingFields > 0 && (
+                    <Badge variant="outline">{item.pendingFields} to review</Badge>
+                  )}
+                  <Badge className={confidenceColor(item.lowestConfidence)}>
+                    lowest {Math.round(item.lowestConfidence * 100)}%
+                  </Badge>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {review && (
+          <div className="mt-6 grid gap-6 lg:grid-cols-2">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  {field ? `${fieldLabel(field.fieldName)} · ` : ''}page {pageNumber} of {review.pageCount}
+                </p>
+                <a
+                  href={`/api/extraction-reviews/${review.id}/document#page=${pageNumber}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                >
+                  Open PDF <ExternalLink className="h-3 w-3" />
+                </a>
+              </div>
+              {page ? (
+                <PdfPagePreview page={page} highlight={field?.pageNumber === page.pageNumber ? field.boundingBox : null} />
+              ) : (
+                <div className="flex h-64 items-center justify-center border bg-gray-50 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading page...
+                </div>
+              )}
+              {field && !field.boundingBox && (
+                <p className="text-xs text-amber-700">
+                  {field.extractedValue === null ? 'This field was not found on the form.' : 'This value could not be found on the form.'}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              {review.issues.length > 0 && (
+                <ul className="rounded-md bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+                  {review.issues.map((issue, index) => <li key={index}>• {issue}</li>)}
+                </ul>
+              )}
+
+              {review.fields.map(candidate => (
+                <div
+                  key={candidate.fieldName}
+                  onClick={() => setActiveField(candidate.fieldName)}
+                  className={`rounded-md border p-3 cursor-pointer ${candidate.fieldName === field?.fieldName ? 'border-amber-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-600">{fieldLabel(candidate.fieldName)}</span>
+                    <div className="flex items-center gap-1">
+                      <Badge className={confidenceColor(candidate.confidence)}>{Math.round(candidate.confidence * 100)}%</Badge>
+                      <Badge className={DECISION_STYLES[candidate.decision]}>{candidate.decision}</Badge>
+                    </div>
+                  </div>
+
+                  {editing?.fieldName === candidate.fieldName ? (
+                    <div className="mt-2 flex gap-2">
+                      <Input
+                        autoFocus
+                        value={editing.value}
+                        onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Enter') void decide(candidate.fieldName, 'edited', editing.value)
+                          if (event.key === 'Escape') setEditing(null)
+                        }}
+                      />
+                      <Button size="sm" onClick={() => decide(candidate.fieldName, 'edited', editing.value)} disabled={decideMutation.isPending}>
+                        Save
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className={`mt-1 text-sm font-medium ${candidate.decision === 'rejected' ? 'line-through text-gray-400' : ''}`}>
+                      {candidate.decision === 'edited' ? candidate.finalValue : candidate.extractedValue ?? <span className="italic text-gray-400">not found</span>}
+                      {candidate.decision === 'edited' && candidate.extractedValue && (
+                        <span className="ml-2 text-xs text-gray-400 line-through">{candidate.extractedValue}</span>
+                      )}
+                    </p>
+                  )}
+
+                  <div className="mt-2 flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(event) => { event.stopPropagation(); void decide(candidate.fieldName, 'accepted') }}
+                      disabled={candidate.extractedValue === null || decideMutation.isPending}
+                    >
+                      <Check className="h-3 w-3 mr-1" /> Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        setActiveField(candidate.fieldName)
+                        setEditing({ fieldName: candidate.fieldName, value: candidate.finalValue ?? candidate.extractedValue ?? '' })
+                      }}
+                    >
+                      <Pencil className="h-3 w-3 mr-1" /> Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={(event) => { event.stopPropagation(); void decide(candidate.fieldName, 'rejected') }}
+                      disabled={decideMutation.isPending}
+                    >
+                      <X className="h-3 w-3 mr-1" /> Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="rounded-md border bg-gray-50 p-3 space-y-2">
+                <p className="text-sm text-gray-600">
+                  {undecided > 0 ? `${undecided} fields still need a decision.` : 'All fields reviewed.'}
+                </p>
+                <div className="flex gap-2">
+                  <Input placeholder="Chart field, e.g. NANO-001" value={chartField} onChange={(event) => setChartField(event.target.value)} />
+                  <Button onClick={handleApprove} disabled={undecided > 0 || !chartField.trim() || approveMutation.isPending}>
+                    Create sample
+                  </Button>
+                  <Button variant="outline" onClick={handleReject} disabled={rejectMutation.isPending}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { trpc } from '@/client/trpc'
+import { AlertTriangle, CalendarClock, Cpu } from 'lucide-react'
+
+export function FlowCellInventoryPanel() {
+  const { data: summary, isLoading } = trpc.flowCells.getSummary.useQuery(undefined, {
+    refetchInterval: 10 * 60 * 1000
+  })
+
+  if (isLoading || !summary) {
+    return null
+  }
+
+  const hasWarnings = summary.lowStock.length > 0 || summary.nearExpiry.length > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="h-5 w-5 text-blue-600" />
+          Flow Cell Inventory
+        </CardTitle>
+        <CardDescription>
+          {Object.entries(summary.availableByType)
+            .map(([type, available]) => `${type}: ${available}`)
+            .join(' · ')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasWarnings && (
+          <p className="text-sm text-gray-500">Stock levels and expiry dates look fine.</p>
+        )}
+
+        {summary.lowStock.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 flex items-center gap-1 mb-2">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              Low stock
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {summary.lowStock.map(warning => (
+                <Badge key={warning.flowCellType} className="bg-orange-100 text-orange-800">
+                  {warning.flowCellType}: {warning.available} left (min {warning.threshold})
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {summary.nearExpiry.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 flex items-center gap-1 mb-2">
+              <CalendarClock className="h-4 w-4 text-red-600" />
+              Expiring soon
+            </h4>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {summary.nearExpiry.map(warning => (
+                <li key={warning.flowCellId} className="flex items-center justify-between">
+                  <span>{warning.serialNumber} ({warning.flowCellType})</span>
+                  <span className={warning.expired ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                    {warning.expired
+                      ? `Expired ${new Date(warning.expiryDate).toLocaleDateString()}`
+                      : `${warning.daysUntilExpiry} days left`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
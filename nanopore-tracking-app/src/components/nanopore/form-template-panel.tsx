@@ -0,0 +1,260 @@
+import { useState } from 'react'
+import { AlertTriangle, Archive, FileUp, LayoutTemplate, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  TEMPLATE_FORM_FIELDS,
+  type FormTemplateDefinition,
+  type TemplateFormField,
+} from '@/lib/ai/form-template-registry'
+
+interface DraftState {
+  fileName: string
+  templateKey: string
+  name: string
+  definition: FormTemplateDefinition
+  matchedTemplate: { name: string; version: number; score: number } | null
+  previewValues: Partial<Record<TemplateFormField, string>>
+  previewIssues: string[]
+}
+
+const toTemplateKey = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 100)
+
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  // Chunked so large files don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function FormTemplatePanel() {
+  const [draft, setDraft] = useState<DraftState | null>(null)
+
+  const utils = trpc.useUtils()
+  const { data: templates } = trpc.formTemplates.list.useQuery()
+  const draftMutation = trpc.formTemplates.draftFromPdf.useMutation()
+  const registerMutation = trpc.formTemplates.register.useMutation()
+  const retireMutation = trpc.formTemplates.retire.useMutation()
+
+  const errorDescription = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unknown error occurred'
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const result = await draftMutation.mutateAsync({
+        fileName: file.name,
+        contentBase64: await readAsBase64(file),
+      })
+      if (!result) return
+
+      const title = result.definition.fingerprint.titles[0] ?? file.name.replace(/\.pdf$/i, '')
+      setDraft({
+        fileName: result.fileName,
+        templateKey: toTemplateKey(title),
+        name: title,
+        definition: result.definition,
+        matchedTemplate: result.matchedTemplate,
+        previewValues: Object.fromEntries(
+          Object.entries(result.preview.fields).map(([field, extracted]) => [field, extracted?.value ?? ''])
+        ),
+        previewIssues: result.preview.issues,
+      })
+    } catch (error) {
+      toast.error('Could not read sample PDF', { description: errorDescription(error) })
+    }
+  }
+
+  const updateField = (index: number, field: TemplateFormField) => {
+    if (!draft) return
+    const fields = draft.definition.fields.map((definition, i) => (i === index ? { ...definition, field } : definition))
+    setDraft({ ...draft, definition: { ...draft.definition, fields } })
+  }
+
+  const removeField = (index: number) => {
+    if (!draft) return
+    const fields = draft.definition.fields.filter((_, i) => i !== index)
+    setDraft({ ...draft, definition: { ...draft.definition, fields } })
+  }
+
+  const handleRegister = async () => {
+    if (!draft) return
+
+    try {
+      const template = await registerMutation.mutateAsync({
+        templateKey: draft.templateKey,
+        name: draft.name,
+        definition: draft.definition,
+      })
+      if (!template) return
+      toast.success(`Registered ${template.name} v${template.version}`)
+      setDraft(null)
+      await utils.formTemplates.list.invalidate()
+    } catch (error) {
+      toast.error('Failed to register template', { description: errorDescription(error) })
+    }
+  }
+
+  const handleRetire = async (id: string, name: string, version: number) => {
+    if (!window.confirm(`Retire ${name} v${version}? PDFs of this form will fall back to generic extraction.`)) return
+
+    try {
+      await retireMutation.mutateAsync(id)
+      toast.success(`Retired ${name} v${version}`)
+      await utils.formTemplates.list.invalidate()
+    } catch (error) {
+      toast.error('Failed to retire template', { description: errorDescription(error) })
+    }
+  }
+
+  const canRegister = draft !== null
+    && draft.definition.fields.length > 0
+    && /^[a-z0-9-]+$/.test(draft.templateKey)
+    && draft.name.trim().length > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutTemplate className="h-5 w-5 text-blue-600" />
+          PDF Form Templates
+        </CardTitle>
+        <CardDescription>
+          Known submission form layouts are read field by field before falling back to pattern matching and the LLM
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="divide-y border rounded-lg">
+          {templates?.map(template => (
+            <li key={template.id} className="flex items-center justify-between p-3 text-sm">
+              <div>
+                <p className="font-medium">{template.name} <span className="text-gray-500">v{template.version}</span></p>
+                <p className="text-xs text-gray-500">
+                  {template.templateKey} · {template.fields.length} fields · {template.fingerprint.fieldLabels.length} fingerprint labels
+                  {template.createdBy && ` · registered by ${template.createdBy}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={template.source === 'builtin' ? 'bg-gray-100 text-gray-800' : 'bg-blue-100 text-blue-800'}>
+                  {template.source}
+                </Badge>
+                {template.status === 'retired' ? (
+                  <Badge className="bg-orange-100 text-orange-800">retired</Badge>
+                ) : template.source === 'registered' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRetire(template.id, template.name, template.version)}
+                    disabled={retireMutation.isPending}
+                  >
+                    <Archive className="h-4 w-4 mr-1" />
+                    Retire
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <label className="flex items-center gap-3 border-2 border-dashed rounded-lg p-4 cursor-pointer hover:bg-muted/50">
+          {draftMutation.isPending ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <FileUp className="h-5 w-5 text-muted-foreground" />
+          )}
+          <span className="text-sm">Register a new form from a sample PDF</span>
+          <input type="file" accept=".pdf,application/pdf" className="hidden" onChange={handleFileChange} />
+        </label>
+
+        {draft && (
+          <div className="border rounded-lg p-4 space-y-4">
+            {draft.matchedTemplate && (
+              <p className="flex items-center gap-2 text-sm text-orange-700">
+                <AlertTriangle className="h-4 w-4" />
+                This PDF already matches {draft.matchedTemplate.name} v{draft.matchedTemplate.version} ({Math.round(draft.matchedTemplate.score * 100)}%)
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1 text-xs text-gray-600">
+                Name
+                <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label className="grid gap-1 text-xs text-gray-600">
+                Template key (reuse an existing key to add a version)
+                <Input value={draft.templateKey} onChange={(e) => setDraft({ ...draft, templateKey: e.target.value })} />
+              </label>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Fingerprint: {draft.definition.fingerprint.titles.join(', ') || 'no title'} ·{' '}
+              {draft.definition.fingerprint.fieldLabels.length} labels · {draft.definition.fingerprint.pageCount ?? '?'} pages
+            </p>
+
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500">
+                <tr>
+                  <th className="p-1">Form label</th>
+                  <th className="p-1">Kind</th>
+                  <th className="p-1">Sample field</th>
+                  <th className="p-1">Value in sample PDF</th>
+                  <th className="p-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.definition.fields.map((definition, index) => (
+                  <tr key={`${definition.label}-${index}`} className="border-t">
+                    <td className="p-1">{definition.label}</td>
+                    <td className="p-1 text-gray-500">{definition.kind}</td>
+                    <td className="p-1">
+                      <select
+                        className="border rounded px-2 py-1 text-sm bg-background"
+                        value={definition.field}
+                        onChange={(e) => updateField(index, e.target.value as TemplateFormField)}
+                      >
+                        {TEMPLATE_FORM_FIELDS.map(field => (
+                          <option key={field} value={field}>{field}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-1 text-gray-500">{draft.previewValues[definition.field] || '—'}</td>
+                    <td className="p-1 text-right">
+                      <Button size="sm" variant="ghost" onClick={() => removeField(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {draft.previewIssues.length > 0 && (
+              <ul className="text-xs text-orange-700 space-y-0.5">
+                {draft.previewIssues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>Discard</Button>
+              <Button onClick={handleRegister} disabled={!canRegister || registerMutation.isPending}>
+                {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Register Template
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { toast } from 'sonner'
 import { Badge } from '../ui/badge'
 import { Button } from '../ui/button'
@@ -10,16 +10,28 @@ import { EditTaskModal } from './edit-task-modal'
 import { ViewTaskModal } from './view-task-modal'
 import { AssignModal } from './assign-modal'
 import { ExportModal } from './export-modal'
+import { AuditTimelineModal } from './audit-timeline-modal'
+import { BulkImportModal } from './bulk-import-modal'
 import { MemoryOptimizationPanel } from './memory-optimization-panel'
 import { AdminLogin } from '../auth/admin-login'
 import { AuditPanel } from './audit-panel'
 import { ConfigPanel } from './config-panel'
 import { ShutdownPanel } from './shutdown-panel'
 import { MigrationPanel } from './migration-panel'
+import { FlowCellInventoryPanel } from './flow-cell-inventory-panel'
+import { FormTemplatePanel } from './form-template-panel'
+import { EmailNotificationsPanel } from './email-notifications-panel'
+import { UserRolesPanel } from './user-roles-panel'
+import { DataFileUploadsPanel } from './data-file-uploads-panel'
+import { ExtractionReviewPanel } from './extraction-review-panel'
+import { SampleQueryAssistant } from './sample-query-assistant'
+import { NotificationCenter } from './notification-center'
 import { SampleActions } from './sample-actions'
 import type { UserSession } from '../../lib/auth/AdminAuth'
+import { SAMPLE_ROLE_LABELS, can } from '../../lib/auth/SampleAccess'
 import PDFUpload from './pdf-upload'
 import { useAuth } from '../auth/auth-wrapper'
+import { useNotificationStream } from '../../hooks/use-notification-stream'
 import { trpc } from '@/client/trpc'
 import { useQueryClient } from '@tanstack/react-query'
 import type { NanoporeSample } from '@/lib/api-client'
@@ -27,6 +39,7 @@ import {
   Plus, 
   Search, 
   Download, 
+  FileSpreadsheet,
   Upload, 
   AlertCircle, 
   CheckCircle, 
@@ -90,6 +103,32 @@ const PriorityBadge = ({ priority }: { priority: string }) => {
   )
 }
 
+const SlaForecastBadge = ({ forecast }: {
+  forecast: { projectedCompletionAt: string | Date; slaDeadline: string | Date; risk: string } | undefined
+}) => {
+  if (!forecast) return null
+
+  const riskConfig = {
+    on_track: 'bg-green-100 text-green-700',
+    at_risk: 'bg-amber-100 text-amber-800',
+    breached: 'bg-red-100 text-red-700'
+  }
+  const eta = new Date(forecast.projectedCompletionAt)
+  const deadline = new Date(forecast.slaDeadline)
+
+  return (
+    <Badge
+      className={`${riskConfig[forecast.risk as keyof typeof riskConfig] || riskConfig.on_track} flex items-center gap-1`}
+      title={`SLA deadline ${deadline.toLocaleString()}`}
+    >
+      <Clock className="w-3 h-3" />
+      ETA {eta.toLocaleDateString()}
+      {forecast.risk === 'at_risk' && ' · At risk'}
+      {forecast.risk === 'breached' && ' · SLA breached'}
+    </Badge>
+  )
+}
+
 const StatCard = ({ title, value, icon: Icon, color, change }: {
   title: string
   value: number
@@ -114,6 +153,16 @@ const StatCard = ({ title, value, icon: Icon, color, change }: {
   </Card>
 )
 
+// Explain why a status change was blocked by the transition guards
+const getStatusTransitionMessage = (error: unknown): string | null => {
+  if (!error || typeof error !== 'object' || !('data' in error)) return null
+  const transition = (error.data as any)?.statusTransition
+  if (!transition) return null
+
+  const reasons = transition.unmetPreconditions.map((p: { message: string }) => p.message).join('; ')
+  return `Cannot move from ${transition.from} to ${transition.to}: ${reasons}`
+}
+
 export default function NanoporeDashboard() {
   const { user, logout } = useAuth()
   const queryClient = useQueryClient()
@@ -131,6 +180,8 @@ export default function NanoporeDashboard() {
   const [showViewModal, setShowViewModal] = useState(false)
   const [showAssignModal, setShowAssignModal] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
+  const [showAuditModal, setShowAuditModal] = useState(false)
+  const [showBulkImportModal, setShowBulkImportModal] = useState(false)
   const [selectedSample, setSelectedSample] = useState<NanoporeSample | null>(null)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [openDropdown, setOpenDropdown] = useState<string | null>(null)
@@ -140,11 +191,37 @@ export default function NanoporeDashboard() {
 
   // tRPC hooks
   const { data: samples = [], isLoading: loading, refetch } = trpc.nanopore.getAll.useQuery()
+  const { data: forecasts = [] } = trpc.nanopore.getForecasts.useQuery(undefined, {
+    refetchInterval: 5 * 60 * 1000
+  })
   const createSampleMutation = trpc.nanopore.create.useMutation()
   const updateSampleMutation = trpc.nanopore.update.useMutation()
   const assignSampleMutation = trpc.nanopore.assign.useMutation()
   const deleteSampleMutation = trpc.nanopore.delete.useMutation()
   const updateStatusMutation = trpc.nanopore.updateStatus.useMutation()
+  const recordQcResultMutation = trpc.sampleWorkflow.recordQcResult.useMutation()
+  const startLibraryPrepMutation = trpc.sampleWorkflow.startLibraryPrep.useMutation()
+  const startSequencingRunMutation = trpc.sampleWorkflow.startSequencingRun.useMutation()
+  const generateReportMutation = trpc.sampleWorkflow.generateReport.useMutation()
+  const deliverResultsMutation = trpc.sampleWorkflow.deliverResults.useMutation()
+  const utils = trpc.useUtils()
+
+  // Notifications and sample changes pushed from the server; a burst of sample events becomes one refetch
+  const currentUser = user?.name || user?.email || null
+  // The server enforces the same matrix; this only hides actions it would refuse
+  const accessUser = user ? { ...user, name: user.name ?? user.email } : null
+  const liveRefetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  useNotificationStream(currentUser, {
+    onNotifications: () => {
+      void utils.notifications.list.invalidate()
+    },
+    onSampleChange: () => {
+      if (liveRefetchTimer.current) clearTimeout(liveRefetchTimer.current)
+      liveRefetchTimer.current = setTimeout(() => {
+        void refetch()
+      }, 500)
+    },
+  })
 
   // Stats state
   const [stats, setStats] = useState<DashboardStats>({
@@ -185,11 +262,18 @@ export default function NanoporeDashboard() {
     }
   }, [samples])
 
+  // Samples whose notes mention the search term
+  const noteSearchTerm = searchTerm.trim()
+  const { data: noteMatches = [] } = trpc.notes.search.useQuery(noteSearchTerm, {
+    enabled: noteSearchTerm.length >= 2 && can(accessUser, 'sample:read_internal'),
+  })
+
   // Filter samples based on search criteria
   const filteredSamples = samples.filter((sample: any) => {
     const matchesSearch = sample.sample_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          sample.submitter_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         sample.project_id?.toLowerCase().includes(searchTerm.toLowerCase())
+                         sample.project_id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (noteSearchTerm.length >= 2 && noteMatches.includes(sample.id))
     
     const matchesStatus = statusFilter === 'all' || sample.status === statusFilter
     const matchesPriority = priorityFilter === 'all' || sample.priority === priorityFilter
@@ -296,7 +380,7 @@ export default function NanoporeDashboard() {
       setShowEditModal(false)
     } catch (error) {
       console.error('Failed to update sample:', error)
-      toast.error('Failed to update sample')
+      toast.error(getStatusTransitionMessage(error) ?? 'Failed to update sample')
     } finally {
       setActionLoading(null)
     }
@@ -304,42 +388,33 @@ export default function NanoporeDashboard() {
 
   // Enhanced workflow action handler
   const handleWorkflowAction = async (sample: any, action: string, data?: any) => {
+    const performedBy = user?.name || undefined
     setActionLoading(sample.id)
     try {
       switch (action) {
         case 'qc_result':
-          await updateSampleMutation.mutateAsync({
-            id: sample.id,
-            data: { }
+          await recordQcResultMutation.mutateAsync({
+            sampleId: sample.id,
+            passed: data?.result === 'pass',
+            notes: data?.notes ?? '',
+            performedBy,
           })
           toast.success(`QC ${data?.result === 'pass' ? 'passed' : 'failed'} recorded`)
           break
         case 'start_library_prep':
-          await updateSampleMutation.mutateAsync({
-            id: sample.id,
-            data: { }
-          })
+          await startLibraryPrepMutation.mutateAsync({ sampleId: sample.id, performedBy })
           toast.success('Library prep started')
           break
         case 'start_sequencing_run':
-          await updateSampleMutation.mutateAsync({
-            id: sample.id,
-            data: { }
-          })
+          await startSequencingRunMutation.mutateAsync({ sampleId: sample.id, performedBy })
           toast.success('Sequencing run started')
           break
         case 'generate_report':
-          await updateSampleMutation.mutateAsync({
-            id: sample.id,
-            data: { }
-          })
+          await generateReportMutation.mutateAsync({ sampleId: sample.id, performedBy })
           toast.success('Report generation initiated')
           break
         case 'deliver_results':
-          await updateSampleMutation.mutateAsync({
-            id: sample.id,
-            data: { }
-          })
+          await deliverResultsMutation.mutateAsync({ sampleId: sample.id, performedBy })
           toast.success('Results delivered')
           break
         case 'duplicate_sample':
@@ -368,12 +443,12 @@ export default function NanoporeDashboard() {
           toast.success(`Priority updated to ${data?.priority}`)
           break
         case 'add_note':
-          // This would open a modal for adding notes
-          toast.info('Note functionality coming soon')
+          // The notes thread lives in the sample details
+          handleViewSample(sample)
           break
         case 'audit_trail':
-          // This would show audit trail
-          toast.info('Audit trail functionality coming soon')
+          setSelectedSample(sample)
+          setShowAuditModal(true)
           break
         case 'export_data':
           // This would export sample data
@@ -386,7 +461,11 @@ export default function NanoporeDashboard() {
       refetch()
     } catch (error) {
       console.error('Failed to execute workflow action:', error)
-      toast.error('Failed to execute workflow action')
+      const transitionMessage = getStatusTransitionMessage(error)
+      toast.error(transitionMessage ?? 'Failed to execute workflow action', {
+        // Step errors such as "'Library Preparation' is already in progress" explain themselves
+        description: !transitionMessage && error instanceof Error ? error.message : undefined,
+      })
     } finally {
       setActionLoading(null)
     }
@@ -450,7 +529,7 @@ export default function NanoporeDashboard() {
       toast.success(`Sample status updated to ${newStatus}`)
     } catch (error) {
       console.error('Failed to update status:', error)
-      toast.error('Failed to update sample status')
+      toast.error(getStatusTransitionMessage(error) ?? 'Failed to update sample status')
     } finally {
       setActionLoading(null)
     }
@@ -527,7 +606,7 @@ export default function NanoporeDashboard() {
       toast.success(`Updated ${selectedSamples.size} samples to ${newStatus}`)
     } catch (error) {
       console.error('Bulk update failed:', error)
-      toast.error('Failed to update some samples')
+      toast.error(getStatusTransitionMessage(error) ?? 'Failed to update some samples')
     }
   }
 
@@ -613,19 +692,40 @@ export default function NanoporeDashboard() {
             </div>
             
             <div className="flex items-center space-x-3">
-              <Button variant="outline" onClick={handleExport}>
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              {can(accessUser, 'sample:export') && (
+                <Button variant="outline" onClick={handleExport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              )}
               <Button variant="outline" onClick={handleUploadPDF}>
                 <Upload className="h-4 w-4 mr-2" />
                 Upload PDF
               </Button>
+              {can(accessUser, 'sample:import') && (
+                <Button variant="outline" onClick={() => setShowBulkImportModal(true)}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Bulk Import
+                </Button>
+              )}
               <Button onClick={handleCreateSample}>
                 <Plus className="h-4 w-4 mr-2" />
                 New Sample
               </Button>
               
+              {currentUser && (
+                <NotificationCenter
+                  onOpenSample={(sampleId) => {
+                    const sample = samples.find((s: any) => s.id === sampleId) as NanoporeSample | undefined
+                    if (sample) {
+                      handleViewSample(sample)
+                    } else {
+                      toast.error('That sample is no longer available')
+                    }
+                  }}
+                />
+              )}
+
               {/* User Menu */}
               <div className="relative">
                 <button
@@ -637,7 +737,7 @@ export default function NanoporeDashboard() {
                   </div>
                   <div className="text-left">
                     <div className="text-sm font-medium text-gray-900">{user?.name}</div>
-                    <div className="text-xs text-gray-500">{user?.role}</div>
+                    <div className="text-xs text-gray-500">{user?.role && SAMPLE_ROLE_LABELS[user.role]}</div>
                   </div>
                   <ChevronDown className="h-4 w-4 text-gray-400" />
                 </button>
@@ -718,6 +818,34 @@ export default function NanoporeDashboard() {
           />
         </div>
 
+        {/* Flow cell stock and expiry warnings */}
+        {can(accessUser, 'lab:operate') && (
+          <div className="mb-8">
+            <FlowCellInventoryPanel />
+          </div>
+        )}
+
+        {/* Resumable uploads of run data files */}
+        {accessUser && accessUser.role !== 'submitter' && (
+          <div className="mb-8">
+            <DataFileUploadsPanel />
+          </div>
+        )}
+
+        {/* Plain-language questions over the sample database */}
+        {can(accessUser, 'sample:query') && (
+          <div className="mb-8">
+            <SampleQueryAssistant />
+          </div>
+        )}
+
+        {/* PDF submission forms awaiting field review */}
+        {can(accessUser, 'intake:review') && (
+          <div className="mb-8">
+            <ExtractionReviewPanel />
+          </div>
+        )}
+
         {/* Admin Login and Memory Optimization Panel */}
         <div className="mb-8">
           <AdminLogin
@@ -758,6 +886,27 @@ export default function NanoporeDashboard() {
               <MigrationPanel adminSession={adminSession} />
             </div>
           )}
+
+          {/* PDF Form Templates - Admin Only */}
+          {adminSession && adminSession.permissions.includes('system_monitoring') && (
+            <div className="mt-6">
+              <FormTemplatePanel />
+            </div>
+          )}
+
+          {/* Email Notifications - Admin Only */}
+          {adminSession && adminSession.permissions.includes('system_monitoring') && (
+            <div className="mt-6">
+              <EmailNotificationsPanel />
+            </div>
+          )}
+
+          {/* Staff Roles - Admin Only */}
+          {adminSession && adminSession.permissions.includes('system_monitoring') && (
+            <div className="mt-6">
+              <UserRolesPanel />
+            </div>
+          )}
         </div>
 
         {/* Filters and Search */}
@@ -774,7 +923,7 @@ export default function NanoporeDashboard() {
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                   <Input
-                    placeholder="Search samples, submitters, or labs..."
+                    placeholder="Search samples, submitters, labs, or notes..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
@@ -913,6 +1062,7 @@ export default function NanoporeDashboard() {
                           <h3 className="text-lg font-medium text-gray-900">{sample.sample_name}</h3>
                           <StatusBadge status={sample.status} />
                           <PriorityBadge priority={sample.priority} />
+                          <SlaForecastBadge forecast={forecasts.find(f => f.sampleId === sample.id)} />
                         </div>
                         
                         <div className="mt-1 flex items-center text-sm text-gray-500 space-x-4">
@@ -971,6 +1121,7 @@ export default function NanoporeDashboard() {
                         onWorkflowAction={handleWorkflowAction}
                         actionLoading={actionLoading}
                         isAdmin={adminSession ? adminSession.permissions.includes('system_monitoring') : false}
+                        canDelete={can(accessUser, 'sample:delete', sample)}
                       />
                     </div>
                   </div>
@@ -1048,6 +1199,20 @@ export default function NanoporeDashboard() {
         onClose={() => setShowExportModal(false)}
       />
       
+      {/* Audit Trail Modal */}
+      <AuditTimelineModal
+        isOpen={showAuditModal}
+        onClose={() => setShowAuditModal(false)}
+        sample={selectedSample}
+      />
+      
+      {/* Bulk Import Modal */}
+      <BulkImportModal
+        isOpen={showBulkImportModal}
+        onClose={() => setShowBulkImportModal(false)}
+        onImported={() => refetch()}
+      />
+      
       {/* PDF Upload Modal */}
       {showPdfUploadModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
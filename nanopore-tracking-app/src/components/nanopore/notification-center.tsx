@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { AlertTriangle, AtSign, Bell, CheckCheck, Clock, FileSearch, Settings, UserCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Button } from '../ui/button'
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationType
+} from '@/lib/notifications/NotificationCenter'
+
+interface NotificationCenterProps {
+  onOpenSample: (sampleId: string) => void
+}
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  sample_assigned: UserCheck,
+  urgent_submitted: AlertTriangle,
+  step_overdue: Clock,
+  extraction_review: FileSearch,
+  note_mention: AtSign,
+}
+
+const formatTimestamp = (value: Date | string): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+// Bell with unread count for the signed-in user; the dashboard's notification stream keeps the inbox query fresh
+export function NotificationCenter({ onOpenSample }: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+
+  const utils = trpc.useUtils()
+  const { data: inbox } = trpc.notifications.list.useQuery({ limit: 30 })
+  const { data: preferences } = trpc.notifications.getPreferences.useQuery(undefined, { enabled: showPreferences })
+  const markReadMutation = trpc.notifications.markRead.useMutation()
+  const preferencesMutation = trpc.notifications.setPreferences.useMutation()
+
+  const unread = inbox?.unread ?? 0
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await markReadMutation.mutateAsync({ ...(ids && { ids }) })
+      await utils.notifications.list.invalidate()
+    } catch (error) {
+      toast.error('Failed to update notifications', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  const toggleType = async (type: NotificationType, enabled: boolean) => {
+    const muted = new Set(preferences?.mutedTypes ?? [])
+    if (enabled) muted.delete(type)
+    else muted.add(type)
+
+    try {
+      await preferencesMutation.mutateAsync({ mutedTypes: [...muted] })
+      await utils.notifications.getPreferences.invalidate()
+    } catch (error) {
+      toast.error('Failed to save notification settings', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md hover:bg-gray-100 transition-colors"
+        aria-label={`Notifications (${unread} unread)`}
+      >
+        <Bell className="h-5 w-5 text-gray-600" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-md shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant="ghost" onClick={() => markRead()} disabled={unread === 0 || markReadMutation.isPending}>
+                <CheckCheck className="h-4 w-4 mr-1" />
+                Mark all read
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShowPreferences(!showPreferences)} aria-label="Notification settings">
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="p-4 space-y-2">
+              <p className="text-xs text-gray-500">Notify me about</p>
+              {NOTIFICATION_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!preferences?.mutedTypes.includes(type)}
+                    disabled={!preferences || preferencesMutation.isPending}
+                    onChange={(e) => toggleType(type, e.target.checked)}
+                  />
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {inbox?.notifications.map(notification => {
+                const Icon = TYPE_ICONS[notification.type as NotificationType] ?? Bell
+                return (
+                  <li key={notification.id}>
+                    <button
+                      className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50/60'}`}
+                      onClick={() => {
+                        if (!notification.readAt) void markRead([notification.id])
+                        if (notification.sampleId) {
+                          setIsOpen(false)
+                          onOpenSample(notification.sampleId)
+                        }
+                      }}
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 text-gray-500 shrink-0" />
+                      <div className="min-w-0">
+                        <p className={`text-sm ${notification.readAt ? '' : 'font-medium'}`}>{notification.title}</p>
+                        {notification.body && <p className="text-xs text-gray-500 truncate">{notification.body}</p>}
+                        <p className="text-xs text-gray-400">{formatTimestamp(notification.createdAt)}</p>
+                      </div>
+                    </button>
+                  </li>
+                )
+              })}
+              {inbox?.notifications.length === 0 && (
+                <li className="px-4 py-6 text-center text-sm text-gray-500">No notifications yet</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,14 +10,17 @@ import {
   X,
   Clock,
   Zap,
+  LayoutTemplate,
 } from 'lucide-react'
 import { useCallback, useState, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
 
+import { trpc } from '@/client/trpc'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
+import { formTemplateRegistry } from '@/lib/ai/form-template-registry'
 import {
   nanoporeFormService,
   type NanoporeFormData,
@@ -48,11 +51,23 @@ export default function PDFUpload({
   const [viewingFile, setViewingFile] = useState<UploadedFile | null>(null)
   const [isClient, setIsClient] = useState(false)
 
+  // Registered form layouts are detected alongside the builtin ones
+  const { data: formTemplates } = trpc.formTemplates.list.useQuery()
+
   // Ensure client-side rendering
   useEffect(() => {
     setIsClient(true)
   }, [])
 
+  useEffect(() => {
+    if (!formTemplates) return
+    formTemplateRegistry.replaceRegistered(
+      formTemplates.filter(
+        (template) => template.source === 'registered' && template.status === 'active',
+      ),
+    )
+  }, [formTemplates])
+
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
       const newFiles: UploadedFile[] = acceptedFiles.map((file) => ({
@@ -187,6 +202,8 @@ export default function PDFUpload({
 
   const getMethodIcon = (method: string) => {
     switch (method) {
+      case 'template':
+        return <LayoutTemplate className="h-3 w-3" />
       case 'llm':
         return <Brain className="h-3 w-3" />
       case 'pattern':
@@ -381,6 +398,13 @@ export default function PDFUpload({
                                 </span>
                               </div>
                             )}
+
+                          {uploadedFile.extractedData.formTemplate && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {uploadedFile.extractedData.formTemplate.name} v
+                              {uploadedFile.extractedData.formTemplate.version}
+                            </span>
+                          )}
                         </div>
                       )}
 
@@ -14,6 +14,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
 import type { NanoporeFormData } from '@/lib/ai/nanopore-llm-service'
+import type { BoundingBox, PdfPageLayout } from '@/lib/ai/pdf-text-layout'
 
 interface PDFViewerProps {
   file: File
@@ -22,6 +23,53 @@ interface PDFViewerProps {
   onClose?: () => void
 }
 
+interface PdfPagePreviewProps {
+  page: PdfPageLayout
+  highlight?: BoundingBox | null
+  className?: string
+}
+
+/**
+ * One page of a PDF drawn from its text positions, with an optional box highlighted
+ * Uses the server's text layout rather than rendering the PDF, so no viewer library is loaded in the browser.
+ */
+export function PdfPagePreview({ page, highlight, className = '' }: PdfPagePreviewProps) {
+  const percent = (value: number) => `${value * 100}%`
+
+  return (
+    <div
+      className={`relative w-full bg-white border border-gray-200 shadow-sm overflow-hidden ${className}`}
+      style={{ aspectRatio: `${page.width} / ${page.height}`, containerType: 'inline-size' }}
+    >
+      {page.items.map((item, index) => (
+        <span
+          key={index}
+          className="absolute whitespace-pre text-gray-700 leading-none"
+          style={{
+            left: percent(item.x),
+            top: percent(item.y),
+            // Text height as a share of the page width, so it scales with the preview
+            fontSize: `${(item.height * page.height / page.width) * 100}cqw`,
+          }}
+        >
+          {item.text}
+        </span>
+      ))}
+      {highlight && (
+        <div
+          className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm"
+          style={{
+            left: percent(Math.max(highlight.x - 0.005, 0)),
+            top: percent(Math.max(highlight.y - 0.004, 0)),
+            width: percent(highlight.width + 0.01),
+            height: percent(highlight.height + 0.008),
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
 export default function PDFViewer({
   file,
   extractedData,
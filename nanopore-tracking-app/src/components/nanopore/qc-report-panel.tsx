@@ -0,0 +1,159 @@
+import { toast } from 'sonner'
+import { ClipboardCheck, Download, Printer, RefreshCw } from 'lucide-react'
+import { trpc } from '@/client/trpc'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+
+function Histogram({ title, bars }: { title: string; bars: Array<{ label: string; value: number }> }) {
+  if (bars.length === 0) return null
+  const max = Math.max(...bars.map(bar => bar.value), 1)
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground mb-1">{title}</p>
+      <div className="flex items-end gap-1 h-20">
+        {bars.map(bar => (
+          <div
+            key={bar.label}
+            className="flex-1 bg-indigo-500 rounded-t"
+            style={{ height: `${Math.max((bar.value / max) * 100, 2)}%` }}
+            title={`${bar.label}: ${bar.value.toLocaleString()}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground">
+        {bars.map(bar => (
+          <span key={bar.label} className="flex-1 text-center truncate">{bar.label}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const binLabel = (start: number, end: number | null): string => {
+  const kb = (value: number) => value >= 1000 ? `${value / 1000}k` : `${value}`
+  return end === null ? `${kb(start)}+` : kb(start)
+}
+
+// Per-sample QC verdict against the configured yield, N50 and Q-score thresholds
+export function QcReportPanel({ sampleId }: { sampleId: string }) {
+  const utils = trpc.useUtils()
+  const { data: report, isLoading } = trpc.runReports.getQcReport.useQuery({ sampleId })
+  const evaluateMutation = trpc.runReports.evaluateQc.useMutation()
+  const exportMutation = trpc.runReports.exportQcReport.useMutation()
+
+  if (isLoading || !report || !report.metrics) {
+    return null
+  }
+
+  const handleEvaluate = async () => {
+    try {
+      await evaluateMutation.mutateAsync({ sampleId })
+      await utils.runReports.getQcReport.invalidate({ sampleId })
+      toast.success('QC result saved to sample')
+    } catch (error) {
+      toast.error('QC evaluation failed', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  const handleExport = async (print: boolean) => {
+    try {
+      const result = await exportMutation.mutateAsync({ sampleId })
+      if (!result) return
+
+      const blob = new Blob([result.data], { type: result.mimeType })
+      const url = URL.createObjectURL(blob)
+
+      if (print) {
+        // The browser's print dialog produces the PDF version
+        const printWindow = window.open(url, '_blank')
+        printWindow?.addEventListener('load', () => printWindow.print())
+        setTimeout(() => URL.revokeObjectURL(url), 60_000)
+        return
+      }
+
+      const a = document.createElement('a')
+      a.href = url
+      a.download = result.filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast.error('QC report export failed', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      })
+    }
+  }
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          QC Report
+        </h4>
+        <Badge
+          className={report.passed
+            ? 'bg-green-100 text-green-800 border-green-200'
+            : 'bg-red-100 text-red-800 border-red-200'}
+        >
+          {report.passed ? 'QC Pass' : 'QC Fail'}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {report.checks.map(check => (
+          <div key={check.name}>
+            <p className="text-xs text-muted-foreground">{check.label}</p>
+            <p className={`text-sm font-medium ${check.passed ? 'text-green-700' : 'text-red-700'}`}>
+              {check.name === 'meanQScore' ? `Q${check.actual.toFixed(1)}` : check.actual.toLocaleString()}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              min {check.name === 'meanQScore' ? `Q${check.threshold}` : check.threshold.toLocaleString()}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {report.distributions && (
+        <div className="space-y-3">
+          <Histogram
+            title="Read length"
+            bars={report.distributions.readLengthHistogram.map(bin => ({
+              label: binLabel(bin.binStart, bin.binEnd),
+              value: bin.reads,
+            }))}
+          />
+          <Histogram
+            title="Q-score"
+            bars={report.distributions.qScoreHistogram.map(bin => ({ label: `Q${bin.qScore}`, value: bin.reads }))}
+          />
+          <Histogram
+            title="Cumulative yield (bases by hour)"
+            bars={report.cumulativeYield.map(point => ({ label: `${point.hour}h`, value: point.cumulativeBases }))}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">{report.notes}</p>
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={handleEvaluate} disabled={evaluateMutation.isPending}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Save QC Result
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleExport(false)} disabled={exportMutation.isPending}>
+          <Download className="h-4 w-4 mr-1" />
+          HTML
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleExport(true)} disabled={exportMutation.isPending}>
+          <Printer className="h-4 w-4 mr-1" />
+          PDF
+        </Button>
+      </div>
+    </div>
+  )
+}
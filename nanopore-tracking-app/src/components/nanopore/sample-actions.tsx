@@ -39,6 +39,8 @@ interface SampleActionsProps {
   onWorkflowAction: (sample: any, action: string, data?: any) => void
   actionLoading?: string | null
   isAdmin?: boolean
+  // False when the user's role cannot delete this sample
+  canDelete?: boolean
 }
 
 export const SampleActions: React.FC<SampleActionsProps> = ({
@@ -50,7 +52,8 @@ export const SampleActions: React.FC<SampleActionsProps> = ({
   onStatusUpdate,
   onWorkflowAction,
   actionLoading,
-  isAdmin = false
+  isAdmin = false,
+  canDelete = true
 }) => {
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const [quickActionsOpen, setQuickActionsOpen] = useState(false)
@@ -438,20 +441,24 @@ export const SampleActions: React.FC<SampleActionsProps> = ({
               )}
               
               {/* Danger Zone */}
-              <div className="border-t border-gray-100 my-1"></div>
-              <div className="px-3 py-2 text-xs font-medium text-red-500 uppercase tracking-wide">
-                Danger Zone
-              </div>
-              <button
-                onClick={() => {
-                  onDeleteSample(sample)
-                  setDropdownOpen(false)
-                }}
-                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
-              >
-                <Trash2 className="h-4 w-4" />
-                <span>Delete Sample</span>
-              </button>
+              {canDelete && (
+                <>
+                  <div className="border-t border-gray-100 my-1"></div>
+                  <div className="px-3 py-2 text-xs font-medium text-red-500 uppercase tracking-wide">
+                    Danger Zone
+                  </div>
+                  <button
+                    onClick={() => {
+                      onDeleteSample(sample)
+                      setDropdownOpen(false)
+                    }}
+                    className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center space-x-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span>Delete Sample</span>
+                  </button>
+                </>
+              )}
             </div>
           </div>
         )}
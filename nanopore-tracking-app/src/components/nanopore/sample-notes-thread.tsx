@@ -0,0 +1,314 @@
+import { useState } from 'react'
+import { Eye, EyeOff, History, Loader2, MessageSquare, Paperclip, Pencil, Reply } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { useAuth } from '../auth/auth-wrapper'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import {
+  STAFF_MEMBERS,
+  buildNoteThreads,
+  type NoteVisibility
+} from '@/lib/notes/SampleNotes'
+import { can } from '@/lib/auth/SampleAccess'
+
+interface NoteView {
+  id: string
+  parentId: string | null
+  author: string
+  body: string
+  visibility: NoteVisibility
+  attachments: Array<{ id: string; fileName: string }>
+  editedAt: Date | string | null
+  createdAt: Date | string
+}
+
+interface ComposerProps {
+  sampleId: string
+  initialBody?: string
+  initialVisibility?: NoteVisibility
+  initialAttachmentIds?: string[]
+  submitLabel: string
+  pending: boolean
+  onSubmit: (data: { body: string; visibility: NoteVisibility; attachmentIds: string[] }) => Promise<boolean>
+  onCancel?: () => void
+}
+
+const formatTimestamp = (value: Date | string): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const mentionPattern = new RegExp(`(@(?:${STAFF_MEMBERS.join('|')})\\b)`, 'gi')
+
+// Highlight @mentions of staff in a note body
+function NoteBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {body.split(mentionPattern).map((part, index) =>
+        index % 2 === 1
+          ? <span key={index} className="font-medium text-blue-700">{part}</span>
+          : part
+      )}
+    </p>
+  )
+}
+
+function NoteComposer({
+  sampleId,
+  initialBody = '',
+  initialVisibility = 'internal',
+  initialAttachmentIds = [],
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: ComposerProps) {
+  const [body, setBody] = useState(initialBody)
+  const [visibility, setVisibility] = useState<NoteVisibility>(initialVisibility)
+  const [attachmentIds, setAttachmentIds] = useState<string[]>(initialAttachmentIds)
+  const [showAttachments, setShowAttachments] = useState(initialAttachmentIds.length > 0)
+  const { data: attachments } = trpc.notes.attachments.useQuery(sampleId, { enabled: showAttachments })
+
+  const toggleAttachment = (id: string) =>
+    setAttachmentIds(ids => ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id])
+
+  const handleSubmit = async () => {
+    if (await onSubmit({ body: body.trim(), visibility, attachmentIds })) {
+      setBody('')
+      setAttachmentIds([])
+      setShowAttachments(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        className="w-full min-h-[72px] rounded-md border px-3 py-2 text-sm bg-background"
+        placeholder={`Add a note. Mention staff with @${STAFF_MEMBERS[0]}`}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+
+      {showAttachments && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {attachments?.length === 0 && <span className="text-muted-foreground">No attachments on this sample</span>}
+          {attachments?.map(attachment => (
+            <label key={attachment.id} className="flex items-center gap-1 border rounded px-2 py-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={attachmentIds.includes(attachment.id)}
+                onChange={() => toggleAttachment(attachment.id)}
+              />
+              {attachment.fileName}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setVisibility(visibility === 'internal' ? 'submitter' : 'internal')}
+            title="Internal notes are never shown to the submitter"
+          >
+            {visibility === 'internal'
+              ? <><EyeOff className="h-4 w-4 mr-1" />Internal</>
+              : <><Eye className="h-4 w-4 mr-1" />Visible to submitter</>}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setShowAttachments(!showAttachments)}>
+            <Paperclip className="h-4 w-4 mr-1" />
+            {attachmentIds.length > 0 ? `${attachmentIds.length} attached` : 'Attach'}
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          {onCancel && <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>}
+          <Button size="sm" onClick={handleSubmit} disabled={!body.trim() || pending}>
+            {pending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function NoteHistory({ noteId }: { noteId: string }) {
+  const { data: revisions, isLoading } = trpc.notes.history.useQuery(noteId)
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+  }
+
+  return (
+    <ul className="mt-2 space-y-2 border-l-2 pl-3 text-xs text-muted-foreground">
+      {revisions?.map(revision => (
+        <li key={revision.id}>
+          <p>Before edit by {revision.editedBy} · {formatTimestamp(revision.createdAt)} · {revision.visibility}</p>
+          <p className="whitespace-pre-wrap">{revision.body}</p>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Timestamped notes on a sample, with replies, mentions and edit history
+export function SampleNotesThread({ sampleId }: { sampleId: string }) {
+  const { user } = useAuth()
+  const currentUser = user?.name || user?.email || 'Unknown user'
+  // Edit history can hold internal wording, so it stays with lab staff
+  const canSeeHistory = can(user ? { ...user, name: user.name ?? user.email } : null, 'sample:read_internal')
+
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+
+  const utils = trpc.useUtils()
+  const { data: notes, isLoading } = trpc.notes.list.useQuery({ sampleId })
+  const createMutation = trpc.notes.create.useMutation()
+  const updateMutation = trpc.notes.update.useMutation()
+
+  const errorDescription = (error: unknown) =>
+    error instanceof Error ? error.message : 'Unknown error occurred'
+
+  const handleCreate = async (
+    data: { body: string; visibility: NoteVisibility; attachmentIds: string[] },
+    parentId?: string
+  ): Promise<boolean> => {
+    try {
+      const note = await createMutation.mutateAsync({ sampleId, ...(parentId && { parentId }), ...data })
+      if (note && note.mentions.length > 0) {
+        toast.success(`Note added; notified ${note.mentions.join(', ')}`)
+      }
+      setReplyTo(null)
+      await utils.notes.list.invalidate({ sampleId })
+      return true
+    } catch (error) {
+      toast.error('Failed to add note', { description: errorDescription(error) })
+      return false
+    }
+  }
+
+  const handleEdit = async (
+    id: string,
+    data: { body: string; visibility: NoteVisibility; attachmentIds: string[] }
+  ): Promise<boolean> => {
+    try {
+      await updateMutation.mutateAsync({ id, ...data })
+      setEditing(null)
+      await utils.notes.list.invalidate({ sampleId })
+      await utils.notes.history.invalidate(id)
+      return true
+    } catch (error) {
+      toast.error('Failed to edit note', { description: errorDescription(error) })
+      return false
+    }
+  }
+
+  const renderNote = (note: NoteView, isReply: boolean) => (
+    <div key={note.id} className={isReply ? 'ml-6 border-l-2 pl-3' : ''}>
+      {editing === note.id ? (
+        <NoteComposer
+          sampleId={sampleId}
+          initialBody={note.body}
+          initialVisibility={note.visibility}
+          initialAttachmentIds={note.attachments.map(attachment => attachment.id)}
+          submitLabel="Save"
+          pending={updateMutation.isPending}
+          onSubmit={(data) => handleEdit(note.id, data)}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{note.author}</span>
+            <span>{formatTimestamp(note.createdAt)}</span>
+            {note.editedAt && canSeeHistory && (
+              <button className="underline" onClick={() => setHistoryFor(historyFor === note.id ? null : note.id)}>
+                edited
+              </button>
+            )}
+            {note.visibility === 'submitter' && (
+              <Badge className="bg-green-100 text-green-800">visible to submitter</Badge>
+            )}
+          </div>
+          <NoteBody body={note.body} />
+          {note.attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+              {note.attachments.map(attachment => (
+                <span key={attachment.id} className="flex items-center gap-1">
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.fileName}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-1">
+            {!isReply && (
+              <Button size="sm" variant="ghost" onClick={() => setReplyTo(replyTo === note.id ? null : note.id)}>
+                <Reply className="h-3 w-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {note.author.toLowerCase() === currentUser.toLowerCase() && (
+              <Button size="sm" variant="ghost" onClick={() => setEditing(note.id)}>
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            )}
+            {note.editedAt && canSeeHistory && (
+              <Button size="sm" variant="ghost" onClick={() => setHistoryFor(historyFor === note.id ? null : note.id)}>
+                <History className="h-3 w-3 mr-1" />
+                History
+              </Button>
+            )}
+          </div>
+          {historyFor === note.id && <NoteHistory noteId={note.id} />}
+        </div>
+      )}
+    </div>
+  )
+
+  const threads = buildNoteThreads(notes ?? [])
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium mb-3 flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        Notes {threads.length > 0 && <span className="text-muted-foreground text-sm">({notes?.length})</span>}
+      </h4>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="space-y-4">
+          {threads.map(thread => (
+            <div key={thread.id} className="space-y-3">
+              {renderNote(thread, false)}
+              {thread.replies.map(reply => renderNote(reply, true))}
+              {replyTo === thread.id && (
+                <div className="ml-6">
+                  <NoteComposer
+                    sampleId={sampleId}
+                    initialVisibility={thread.visibility}
+                    submitLabel="Reply"
+                    pending={createMutation.isPending}
+                    onSubmit={(data) => handleCreate(data, thread.id)}
+                    onCancel={() => setReplyTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <NoteComposer
+            sampleId={sampleId}
+            submitLabel="Add Note"
+            pending={createMutation.isPending}
+            onSubmit={(data) => handleCreate(data)}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { BarChart3, Loader2, MessageSquareText, Play, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { SAMPLE_QUERY_FIELDS, type SampleQueryPlan } from '@/lib/ai/sample-query-plan'
+
+const EXAMPLE_QUESTION = 'How many urgent samples from the Smith lab are stuck in prep for more than 3 days?'
+
+const OUTPUT_LABELS: Record<SampleQueryPlan['output'], string> = {
+  list: 'List samples',
+  count: 'Count samples',
+  groupBy: 'Count samples by',
+}
+
+const errorDescription = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error occurred'
+
+const formatDate = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleDateString() : '—'
+
+// Lab managers' questions in plain language, answered from the sample database after they confirm how it was read
+export function SampleQueryAssistant() {
+  const [question, setQuestion] = useState('')
+  const interpretMutation = trpc.sampleQuery.interpret.useMutation()
+  const runMutation = trpc.sampleQuery.run.useMutation()
+
+  const interpreted = interpretMutation.data
+  const answer = runMutation.data
+
+  const handleAsk = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (question.trim().length < 3) return
+    runMutation.reset()
+    try {
+      await interpretMutation.mutateAsync({ question: question.trim() })
+    } catch (error) {
+      toast.error('Could not interpret the question', { description: errorDescription(error) })
+    }
+  }
+
+  const handleRun = async () => {
+    if (!interpreted) return
+    try {
+      await runMutation.mutateAsync({ plan: interpreted.plan })
+    } catch (error) {
+      toast.error('Query failed', { description: errorDescription(error) })
+    }
+  }
+
+  const result = answer?.result
+  const largestGroup = result?.output === 'groupBy'
+    ? Math.max(1, ...result.groups.map(group => group.count))
+    : 1
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5" />
+          Ask about samples
+        </CardTitle>
+        <CardDescription>
+          Ask a question in plain language. Check how it was interpreted, then run it against the sample database.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAsk} className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder={EXAMPLE_QUESTION}
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              maxLength={500}
+              className="pl-10"
+            />
+          </div>
+          <Button type="submit" disabled={interpretMutation.isPending || question.trim().length < 3}>
+            {interpretMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Interpret'}
+          </Button>
+        </form>
+
+        {interpreted && (
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">
+                {OUTPUT_LABELS[interpreted.plan.output]}
+                {interpreted.plan.groupBy ? ` ${SAMPLE_QUERY_FIELDS[interpreted.plan.groupBy].label.toLowerCase()}` : ''}
+                {interpreted.conditions.length > 0 ? ' where' : ' (no conditions)'}
+              </span>
+              {interpreted.conditions.map(condition => (
+                <Badge key={condition} variant="outline">{condition}</Badge>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                If this is not what you meant, rephrase the question and interpret it again.
+              </p>
+              <Button size="sm" onClick={handleRun} disabled={runMutation.isPending}>
+                {runMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                <span className="ml-1">Run query</span>
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {result?.output === 'count' && (
+          <p className="text-sm">
+            <span className="text-3xl font-bold mr-2">{result.total}</span>
+            matching samples
+          </p>
+        )}
+
+        {result?.output === 'groupBy' && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              {result.total} samples by {SAMPLE_QUERY_FIELDS[result.groupBy].label.toLowerCase()}
+            </p>
+            {result.groups.length === 0 ? (
+              <p className="text-sm text-gray-500">No samples match.</p>
+            ) : (
+              result.groups.map(group => (
+                <div key={group.value ?? ''} className="flex items-center gap-3 text-sm">
+                  <span className="w-40 truncate">{group.value ?? 'Not set'}</span>
+                  <div className="flex-1 h-4 rounded bg-gray-100">
+                    <div className="h-4 rounded bg-blue-500" style={{ width: `${(group.count / largestGroup) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right tabular-nums">{group.count}</span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {result?.output === 'list' && (
+          result.rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No samples match.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="text-xs text-gray-500 mb-2">
+                Showing {result.rows.length} of {result.total} matching samples
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3">Sample</th>
+                    <th className="py-2 pr-3">Lab</th>
+                    <th className="py-2 pr-3">Status</th>
+                    <th className="py-2 pr-3">Priority</th>
+                    <th className="py-2 pr-3">Assigned to</th>
+                    <th className="py-2 pr-3">Submitted</th>
+                    <th className="py-2">Prep started</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-medium">{row.sample_name}</td>
+                      <td className="py-2 pr-3">{row.lab_name ?? '—'}</td>
+                      <td className="py-2 pr-3">{row.status}</td>
+                      <td className="py-2 pr-3">{row.priority}</td>
+                      <td className="py-2 pr-3">{row.assigned_to ?? '—'}</td>
+                      <td className="py-2 pr-3">{formatDate(row.submitted_at)}</td>
+                      <td className="py-2">{formatDate(row.started_at)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { KeyRound, ShieldCheck, UserPlus } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { SAMPLE_ROLES, SAMPLE_ROLE_LABELS, type SampleRole } from '@/lib/auth/SampleAccess'
+
+// Staff accounts and the role that decides what each can do with samples
+export function UserRolesPanel() {
+  const utils = trpc.useUtils()
+  const { data: users, isLoading } = trpc.users.list.useQuery()
+  const setRoleMutation = trpc.users.setRole.useMutation()
+  const createMutation = trpc.users.create.useMutation()
+  const setPasswordMutation = trpc.users.setPassword.useMutation()
+  const [newUser, setNewUser] = useState<{ email: string; name: string; role: SampleRole; password: string }>({
+    email: '',
+    name: '',
+    role: 'technician',
+    password: '',
+  })
+  const [passwordReset, setPasswordReset] = useState<{ userId: string; password: string } | null>(null)
+
+  const handleRoleChange = async (userId: string, name: string, role: SampleRole) => {
+    try {
+      await setRoleMutation.mutateAsync({ userId, role })
+      toast.success(`${name} is now ${SAMPLE_ROLE_LABELS[role].toLowerCase()}`)
+      await utils.users.list.invalidate()
+    } catch (error) {
+      toast.error('Failed to change role', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      const user = await createMutation.mutateAsync(newUser)
+      toast.success(`Added ${user?.name ?? newUser.name} as ${SAMPLE_ROLE_LABELS[newUser.role].toLowerCase()}`)
+      setNewUser({ email: '', name: '', role: newUser.role, password: '' })
+      await utils.users.list.invalidate()
+    } catch (error) {
+      toast.error('Failed to add account', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+
+  const handleSetPassword = async (event: React.FormEvent, name: string) => {
+    event.preventDefault()
+    if (!passwordReset) {
+      return
+    }
+    try {
+      await setPasswordMutation.mutateAsync(passwordReset)
+      toast.success(`Password set for ${name}`)
+      setPasswordReset(null)
+    } catch (error) {
+      toast.error('Failed to set password', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-blue-600" />
+          Staff Roles
+        </CardTitle>
+        <CardDescription>
+          Submitters see their own samples, technicians update steps on samples assigned to them,
+          lab managers assign, reprioritize and delete
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="flex flex-wrap items-center gap-2" onSubmit={handleCreate}>
+          <Input
+            className="w-56"
+            type="email"
+            placeholder="Email"
+            value={newUser.email}
+            onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+            required
+          />
+          <Input
+            className="w-44"
+            placeholder="Name"
+            value={newUser.name}
+            onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+            required
+          />
+          <Input
+            className="w-44"
+            type="password"
+            placeholder="Password"
+            autoComplete="new-password"
+            value={newUser.password}
+            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            required
+          />
+          <select
+            className="border rounded px-2 py-1 text-sm bg-background"
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as SampleRole })}
+          >
+            {SAMPLE_ROLES.map(role => (
+              <option key={role} value={role}>{SAMPLE_ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={createMutation.isPending}>
+            <UserPlus className="h-4 w-4 mr-1" />
+            Add account
+          </Button>
+        </form>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading users...</p>
+        ) : !users?.length ? (
+          <p className="text-sm text-gray-500">No staff accounts yet</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {users.map(user => (
+              <li key={user.id} className="p-3 text-sm flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{user.name}</p>
+                  <p className="text-xs text-gray-500">{user.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {passwordReset?.userId === user.id ? (
+                    <form className="flex items-center gap-2" onSubmit={(e) => handleSetPassword(e, user.name)}>
+                      <Input
+                        className="w-44"
+                        type="password"
+                        placeholder="New password"
+                        autoComplete="new-password"
+                        value={passwordReset.password}
+                        onChange={(e) => setPasswordReset({ userId: user.id, password: e.target.value })}
+                        required
+                      />
+                      <Button type="submit" size="sm" disabled={setPasswordMutation.isPending}>Save</Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setPasswordReset(null)}>Cancel</Button>
+                    </form>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => setPasswordReset({ userId: user.id, password: '' })}>
+                      <KeyRound className="h-4 w-4 mr-1" />
+                      Set password
+                    </Button>
+                  )}
+                  <select
+                    className="border rounded px-2 py-1 text-sm bg-background"
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user.id, user.name, e.target.value as SampleRole)}
+                    disabled={setRoleMutation.isPending}
+                  >
+                    {SAMPLE_ROLES.map(role => (
+                      <option key={role} value={role}>{SAMPLE_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
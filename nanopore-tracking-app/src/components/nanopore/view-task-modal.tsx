@@ -11,10 +11,15 @@ import {
   Play,
   Pause,
   Archive,
-  Flag
+  Flag,
+  Activity
 } from 'lucide-react'
 
+import { trpc } from '@/client/trpc'
+import type { RunMetrics } from '../../lib/reports/RunReportParser'
 import { Badge } from '../ui/badge'
+import { QcReportPanel } from './qc-report-panel'
+import { SampleNotesThread } from './sample-notes-thread'
 import {
   Dialog,
   DialogContent,
@@ -65,6 +70,97 @@ type NanoporeSample = {
   createdBy: string
 }
 
+const formatCount = (value: number): string => {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)} G`
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)} M`
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)} k`
+  return value.toString()
+}
+
+function RunMetricsGrid({ metrics }: { metrics: RunMetrics }) {
+  const items = [
+    { label: 'Reads', value: formatCount(metrics.readCount) },
+    { label: 'Bases', value: `${formatCount(metrics.totalBases)}b` },
+    { label: 'N50', value: `${formatCount(metrics.n50)}b` },
+    { label: 'Mean Q-score', value: metrics.meanQScore.toFixed(1) },
+    { label: 'Pass / Fail', value: `${formatCount(metrics.passReadCount)} / ${formatCount(metrics.failReadCount)}` },
+    { label: 'Pass Rate', value: `${(metrics.passRatio * 100).toFixed(1)}%` },
+  ]
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {items.map(item => (
+        <div key={item.label}>
+          <p className="text-xs text-muted-foreground">{item.label}</p>
+          <p className="text-sm font-medium">{item.value}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Metrics imported from MinKNOW, Dorado and pycoQC reports
+function RunMetricsSection({ sampleId }: { sampleId: string }) {
+  const { data: reports, isLoading } = trpc.runReports.getForSample.useQuery(sampleId)
+
+  if (isLoading || !reports || reports.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium mb-3 flex items-center gap-2">
+        <Activity className="h-4 w-4" />
+        Run Metrics
+      </h4>
+      <div className="space-y-4">
+        {reports.map(report => (
+          <div key={report.stepId} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{report.stepName}</span>
+              <span className="text-muted-foreground">
+                {report.results.sourceFile} · {formatDate(report.results.importedAt)}
+              </span>
+            </div>
+            {report.results.metrics && <RunMetricsGrid metrics={report.results.metrics} />}
+            {report.results.run && (
+              <div className="text-sm text-muted-foreground space-y-1">
+                {report.results.run.flowCellId && (
+                  <p><span className="font-medium">Flow Cell:</span> {report.results.run.flowCellId}</p>
+                )}
+                {report.results.run.instrument && (
+                  <p>
+                    <span className="font-medium">Instrument:</span> {report.results.run.instrument}
+                    {report.results.run.position && ` (${report.results.run.position})`}
+                  </p>
+                )}
+                {report.results.run.acquisitionRunId && (
+                  <p><span className="font-medium">Run ID:</span> {report.results.run.acquisitionRunId}</p>
+                )}
+              </div>
+            )}
+            {report.results.metricsByBarcode && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-muted-foreground">
+                  {Object.keys(report.results.metricsByBarcode).length} barcodes
+                </summary>
+                <div className="mt-2 space-y-3">
+                  {Object.entries(report.results.metricsByBarcode).map(([barcode, metrics]) => (
+                    <div key={barcode}>
+                      <p className="text-xs font-medium mb-1">{barcode}</p>
+                      <RunMetricsGrid metrics={metrics} />
+                    </div>
+                  ))}
+                </div>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 interface ViewTaskModalProps {
   isOpen: boolean
   onClose: () => void
@@ -285,6 +381,10 @@ export function ViewTaskModal({
             </div>
           </div>
 
+          <RunMetricsSection sampleId={sample.id} />
+          <QcReportPanel sampleId={sample.id} />
+          <SampleNotesThread sampleId={sample.id} />
+
           {/* System Information */}
           <div className="border-t pt-4">
             <h4 className="font-medium mb-3">System Information</h4>
@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import { Loader2, Mail, TestTube } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+
+interface PortalSignInProps {
+  onLogin: (email: string, password: string) => Promise<boolean>
+}
+
+// Submitters usually arrive from an emailed link; a password sign-in is kept for staff-created accounts
+export function PortalSignIn({ onLogin }: PortalSignInProps) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [linkSent, setLinkSent] = useState(false)
+  const [signingIn, setSigningIn] = useState(false)
+  const requestLinkMutation = trpc.portal.requestLink.useMutation()
+
+  const linkStatus = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('link') : null
+
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await requestLinkMutation.mutateAsync({ email })
+      setLinkSent(true)
+    } catch (error) {
+      toast.error('Could not send a sign-in link', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+
+  const handlePasswordSignIn = async () => {
+    setSigningIn(true)
+    try {
+      if (!(await onLogin(email, password))) {
+        toast.error('Sign-in failed. Please check your email and password.')
+      }
+    } finally {
+      setSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TestTube className="h-6 w-6 text-blue-600" />
+            Track your samples
+          </CardTitle>
+          <CardDescription>
+            Enter the email address you submitted samples under and we will send you a sign-in link
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {linkStatus === 'expired' && !linkSent && (
+            <p className="text-sm text-red-600">That sign-in link is invalid or has expired. Request a new one below.</p>
+          )}
+          {linkStatus === 'staff' && !linkSent && (
+            <p className="text-sm text-red-600">That address belongs to a lab staff account. Sign in with your password instead.</p>
+          )}
+          {linkSent ? (
+            <p className="text-sm text-gray-700">
+              If we have samples for <span className="font-medium">{email}</span>, a sign-in link is on its way.
+              It expires in 30 minutes.
+            </p>
+          ) : (
+            <form onSubmit={handleRequestLink} className="space-y-3">
+              <Input
+                type="email"
+                placeholder="you@university.edu"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <Button type="submit" className="w-full" disabled={requestLinkMutation.isPending || !email}>
+                {requestLinkMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                Email me a sign-in link
+              </Button>
+            </form>
+          )}
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-500">Sign in with a password instead</summary>
+            <div className="mt-3 space-y-2">
+              <Input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <Button variant="outline" className="w-full" onClick={handlePasswordSignIn} disabled={signingIn || !email || !password}>
+                {signingIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign in
+              </Button>
+            </div>
+          </details>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import { Loader2, MessageSquare, Paperclip } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { Button } from '../ui/button'
+import { buildNoteThreads } from '@/lib/notes/SampleNotes'
+import { portalDownloadUrl } from '@/lib/portal/SubmitterPortal'
+
+const formatTimestamp = (value: Date | string): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+// Notes the lab shared on a sample, with a reply box per thread for answering QC questions
+export function SampleQuestions({ sampleId }: { sampleId: string }) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const utils = trpc.useUtils()
+  const { data: notes, isLoading } = trpc.portal.questions.useQuery(sampleId)
+  const answerMutation = trpc.portal.answer.useMutation()
+
+  const handleAnswer = async (noteId: string) => {
+    const body = drafts[noteId]?.trim()
+    if (!body) return
+    try {
+      await answerMutation.mutateAsync({ sampleId, noteId, body })
+      setDrafts(prev => ({ ...prev, [noteId]: '' }))
+      toast.success('Answer sent to the lab')
+      await utils.portal.questions.invalidate(sampleId)
+    } catch (error) {
+      toast.error('Failed to send answer', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred'
+      })
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading messages...</p>
+  }
+
+  const threads = buildNoteThreads(notes ?? [])
+  if (threads.length === 0) {
+    return <p className="text-sm text-gray-500">No messages from the lab about this sample</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {threads.map(thread => (
+        <li key={thread.id} className="border rounded-lg p-3 text-sm space-y-2">
+          {[thread, ...thread.replies].map(note => (
+            <div key={note.id} className={note.id === thread.id ? '' : 'ml-4 pl-3 border-l'}>
+              <p className="text-xs text-gray-500">{note.author} · {formatTimestamp(note.createdAt)}</p>
+              <p className="whitespace-pre-wrap">{note.body}</p>
+              {note.attachments.map(attachment => (
+                <a
+                  key={attachment.id}
+                  href={portalDownloadUrl(attachment.id)}
+                  className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline mr-3"
+                >
+                  <Paperclip className="h-3 w-3" />
+                  {attachment.fileName}
+                </a>
+              ))}
+            </div>
+          ))}
+          <div className="flex gap-2 pt-1">
+            <textarea
+              className="flex-1 border rounded px-2 py-1 text-sm"
+              rows={2}
+              placeholder="Reply to the lab"
+              value={drafts[thread.id] ?? ''}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [thread.id]: e.target.value }))}
+            />
+            <Button
+              size="sm"
+              onClick={() => handleAnswer(thread.id)}
+              disabled={answerMutation.isPending || !drafts[thread.id]?.trim()}
+            >
+              {answerMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageSquare className="h-4 w-4" />}
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,16 @@
+import { Toaster } from '../ui/sonner'
+import AuthWrapper from '../auth/auth-wrapper'
+import { TRPCProvider } from '../providers/trpc-provider'
+import { PortalSignIn } from './portal-sign-in'
+import { SubmitterPortal } from './submitter-portal'
+
+export function SubmitterPortalApp() {
+  return (
+    <TRPCProvider>
+      <AuthWrapper renderLogin={(login) => <PortalSignIn onLogin={login} />}>
+        <SubmitterPortal />
+      </AuthWrapper>
+      <Toaster />
+    </TRPCProvider>
+  )
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { CheckCircle2, Circle, Download, FileUp, LogOut, MessageSquare, Plus, TestTube, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/client/trpc'
+import { useAuth } from '../auth/auth-wrapper'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import CreateSampleModal from '../nanopore/create-sample-modal'
+import PDFUpload from '../nanopore/pdf-upload'
+import { SampleQuestions } from './sample-questions'
+import {
+  formDefaultsFromPdf,
+  portalDownloadUrl,
+  type PortalProgress,
+  type SampleFormDefaults
+} from '@/lib/portal/SubmitterPortal'
+
+const formatDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+const formatSize = (bytes: number | null): string =>
+  bytes === null ? '' : bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+function ProgressBar({ progress }: { progress: PortalProgress }) {
+  return (
+    <div className="space-y-2">
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${progress.onHold ? 'bg-amber-500' : 'bg-blue-600'}`}
+          style={{ width: `${progress.percent}%` }}
+        />
+      </div>
+      <ol className="flex justify-between text-xs">
+        {progress.stages.map(stage => (
+          <li
+            key={stage.label}
+            className={`flex items-center gap-1 ${stage.state === 'upcoming' ? 'text-gray-400' : stage.state === 'current' ? 'text-blue-700 font-medium' : 'text-gray-700'}`}
+          >
+            {stage.state === 'done' ? <CheckCircle2 className="h-3 w-3 text-green-600" /> : <Circle className="h-3 w-3" />}
+            {stage.label}
+          </li>
+        ))}
+      </ol>
+      {progress.onHold ? (
+        <p className="text-xs text-amber-700">On hold: the lab will contact you about this sample</p>
+      ) : progress.currentStep && (
+        <p className="text-xs text-gray-500">In progress: {progress.currentStep}</p>
+      )}
+    </div>
+  )
+}
+
+// Submitter-facing view: their own samples, progress, shared results and questions from the lab
+export function SubmitterPortal() {
+  const { user, logout } = useAuth()
+  const [showCreate, setShowCreate] = useState(false)
+  const [showPdf, setShowPdf] = useState(false)
+  const [openQuestions, setOpenQuestions] = useState<string | null>(null)
+  const [formDefaults, setFormDefaults] = useState<SampleFormDefaults | undefined>()
+
+  const utils = trpc.useUtils()
+  const { data: samples, isLoading } = trpc.portal.samples.useQuery()
+  const submitMutation = trpc.portal.submit.useMutation()
+
+  const ownDefaults: SampleFormDefaults = { submitterEmail: user?.email, submitterName: user?.name }
+
+  const handleSubmit = async (data: any) => {
+    await submitMutation.mutateAsync(data)
+    await utils.portal.samples.invalidate()
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <TestTube className="h-7 w-7 text-blue-600" />
+          <div>
+            <h1 className="text-xl font-semibold">My samples</h1>
+            <p className="text-sm text-gray-500">{user?.email}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowPdf(true)}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Fill from PDF form
+          </Button>
+          <Button onClick={() => { setFormDefaults(ownDefaults); setShowCreate(true) }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Submit a sample
+          </Button>
+          <Button variant="ghost" onClick={logout}>
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading your samples...</p>
+      ) : !samples?.length ? (
+        <Card>
+          <CardContent className="py-10 text-center text-sm text-gray-500">
+            You have no samples yet. Submit one to start tracking it here.
+          </CardContent>
+        </Card>
+      ) : (
+        samples.map(sample => (
+          <Card key={sample.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>{sample.sampleName}</span>
+                <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+                  {sample.priority !== 'normal' && <Badge className="bg-orange-100 text-orange-800">{sample.priority}</Badge>}
+                  Submitted {formatDate(sample.submittedAt)}
+                </span>
+              </CardTitle>
+              <p className="text-xs text-gray-500">
+                {sample.sampleType}{sample.projectId && ` · Project ${sample.projectId}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ProgressBar progress={sample.progress} />
+
+              {sample.attachments.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Results</p>
+                  {sample.attachments.map(attachment => (
+                    <a
+                      key={attachment.id}
+                      href={portalDownloadUrl(attachment.id)}
+                      className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+                    >
+                      <Download className="h-4 w-4" />
+                      {attachment.fileName}
+                      <span className="text-xs text-gray-400">{formatSize(attachment.fileSizeBytes)}</span>
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setOpenQuestions(openQuestions === sample.id ? null : sample.id)}
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Messages from the lab
+                </Button>
+                {openQuestions === sample.id && (
+                  <div className="mt-2">
+                    <SampleQuestions sampleId={sample.id} />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <CreateSampleModal
+        isOpen={showCreate}
+        onClose={() => setShowCreate(false)}
+        onSubmit={handleSubmit}
+        initialData={formDefaults}
+      />
+
+      {showPdf && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[80vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Fill from a PDF submission form</h2>
+              <Button variant="outline" size="sm" onClick={() => setShowPdf(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <PDFUpload
+              onDataExtracted={(data) => {
+                setFormDefaults({ ...ownDefaults, ...formDefaultsFromPdf(data) })
+                setShowPdf(false)
+                setShowCreate(true)
+                toast.success('Form filled from your PDF. Check the details before submitting.')
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
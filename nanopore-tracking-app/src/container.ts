@@ -1,11 +1,51 @@
 import { db } from './lib/database'
+import { eventBus } from './lib/messaging/event-bus'
 import { SampleService } from './services/implementations/SampleService'
 import { PostgreSQLSampleRepository } from './repositories/PostgreSQLSampleRepository'
+import { WorkflowTemplateRepository } from './repositories/WorkflowTemplateRepository'
+import { TurnaroundRepository } from './repositories/TurnaroundRepository'
+import { PostgreSQLFlowCellRepository } from './repositories/PostgreSQLFlowCellRepository'
+import { PostgreSQLSequencingRunRepository } from './repositories/PostgreSQLSequencingRunRepository'
+import { SequencingRunService } from './services/implementations/SequencingRunService'
+import { TurnaroundForecastService } from './services/implementations/TurnaroundForecastService'
+import { RunReportImportService } from './services/implementations/RunReportImportService'
+import { QcReportService } from './services/implementations/QcReportService'
+import { QcResultRepository } from './repositories/QcResultRepository'
+import { ExportRepository } from './repositories/ExportRepository'
+import { ExportPresetRepository } from './repositories/ExportPresetRepository'
+import { FormTemplateRepository } from './repositories/FormTemplateRepository'
+import { ExtractionReviewRepository } from './repositories/ExtractionReviewRepository'
+import { SampleWorkflowRepository } from './repositories/SampleWorkflowRepository'
+import { SampleNoteRepository } from './repositories/SampleNoteRepository'
+import { AuditRepository } from './repositories/AuditRepository'
+import { SampleTimelineRepository } from './repositories/SampleTimelineRepository'
+import { EmailNotificationRepository } from './repositories/EmailNotificationRepository'
+import { NotificationRepository } from './repositories/NotificationRepository'
+import { SubmitterPortalRepository } from './repositories/SubmitterPortalRepository'
+import { ExportService } from './services/implementations/ExportService'
+import { FormTemplateService } from './services/implementations/FormTemplateService'
+import { ExtractionReviewService } from './services/implementations/ExtractionReviewService'
+import { SampleQueryAssistantService } from './services/implementations/SampleQueryAssistantService'
+import { SampleWorkflowService } from './services/implementations/SampleWorkflowService'
+import { SampleNoteService } from './services/implementations/SampleNoteService'
+import { SampleTimelineService } from './services/implementations/SampleTimelineService'
+import { BulkIntakeService } from './services/implementations/BulkIntakeService'
+import { EmailNotificationService } from './services/implementations/EmailNotificationService'
+import { NotificationCenterService } from './services/implementations/NotificationCenterService'
+import { SubmitterPortalService } from './services/implementations/SubmitterPortalService'
+import { notificationHub } from './lib/notifications/NotificationHub'
+import { createSmtpTransport } from './lib/notifications/SmtpTransport'
+import { parseStaffEmails } from './lib/notifications/EmailNotifications'
+import { appConfig, emailConfig, securityConfig } from './lib/config'
+import { configManager, type EmailConfig } from './lib/config/ConfigManager'
+import { executeQuery, initializeDatabase } from './lib/database/connection-pool'
 import { AuditLogger } from './services/implementations/AuditLogger'
 import { EventEmitter } from './services/implementations/EventEmitter'
 
 import type { ISampleService } from './services/interfaces/ISampleService'
 import type { ISampleRepository } from './services/interfaces/ISampleRepository'
+import type { IFlowCellRepository } from './services/interfaces/IFlowCellRepository'
+import type { ISequencingRunRepository } from './services/interfaces/ISequencingRunRepository'
 import type { IAuditLogger } from './services/interfaces/IAuditLogger'
 import type { IEventEmitter } from './services/interfaces/IEventEmitter'
 
@@ -52,9 +92,73 @@ export class ServiceContainer {
       new PostgreSQLSampleRepository(db)
     )
 
+    this.register<IFlowCellRepository>('flowCellRepository', () => 
+      new PostgreSQLFlowCellRepository(db)
+    )
+
+    this.register<ISequencingRunRepository>('sequencingRunRepository', () => 
+      new PostgreSQLSequencingRunRepository(db)
+    )
+
+    this.register<WorkflowTemplateRepository>('workflowTemplateRepository', () => 
+      new WorkflowTemplateRepository(db)
+    )
+
+    this.register<TurnaroundRepository>('turnaroundRepository', () => 
+      new TurnaroundRepository(db)
+    )
+
+    this.register<QcResultRepository>('qcResultRepository', () => 
+      new QcResultRepository(db)
+    )
+
+    this.register<ExportRepository>('exportRepository', () => 
+      new ExportRepository(db)
+    )
+
+    this.register<ExportPresetRepository>('exportPresetRepository', () => 
+      new ExportPresetRepository(db)
+    )
+
+    this.register<FormTemplateRepository>('formTemplateRepository', () => 
+      new FormTemplateRepository(db)
+    )
+
+    this.register<ExtractionReviewRepository>('extractionReviewRepository', () => 
+      new ExtractionReviewRepository(db)
+    )
+
+    this.register<SampleWorkflowRepository>('sampleWorkflowRepository', () => 
+      new SampleWorkflowRepository(db)
+    )
+
+    this.register<SampleNoteRepository>('sampleNoteRepository', () => 
+      new SampleNoteRepository(db)
+    )
+
+    this.register<SampleTimelineRepository>('sampleTimelineRepository', () => 
+      new SampleTimelineRepository(db)
+    )
+
+    this.register<AuditRepository>('auditRepository', () => 
+      new AuditRepository()
+    )
+
+    this.register<EmailNotificationRepository>('emailNotificationRepository', () => 
+      new EmailNotificationRepository(db)
+    )
+
+    this.register<NotificationRepository>('notificationRepository', () => 
+      new NotificationRepository(db)
+    )
+
+    this.register<SubmitterPortalRepository>('submitterPortalRepository', () => 
+      new SubmitterPortalRepository(db)
+    )
+
     // Register infrastructure services
     this.register<IAuditLogger>('auditLogger', () => 
-      new AuditLogger()
+      new AuditLogger(this.get<AuditRepository>('auditRepository'))
     )
 
     this.register<IEventEmitter>('eventEmitter', () => 
@@ -66,7 +170,154 @@ export class ServiceContainer {
       new SampleService(
         this.get<ISampleRepository>('sampleRepository'),
         this.get<IAuditLogger>('auditLogger'),
-        this.get<IEventEmitter>('eventEmitter')
+        this.get<IEventEmitter>('eventEmitter'),
+        this.get<IFlowCellRepository>('flowCellRepository'),
+        eventBus,
+        work => db.transaction().execute(trx => work({
+          samples: new PostgreSQLSampleRepository(trx),
+          flowCells: new PostgreSQLFlowCellRepository(trx)
+        }))
+      )
+    )
+
+    this.register<SequencingRunService>('sequencingRunService', () => 
+      new SequencingRunService(
+        this.get<ISequencingRunRepository>('sequencingRunRepository'),
+        this.get<IFlowCellRepository>('flowCellRepository'),
+        this.get<ISampleRepository>('sampleRepository'),
+        this.get<ISampleService>('sampleService'),
+        eventBus
+      )
+    )
+
+    this.register<SampleWorkflowService>('sampleWorkflowService', () => 
+      new SampleWorkflowService(
+        this.get<SampleWorkflowRepository>('sampleWorkflowRepository'),
+        this.get<ISampleRepository>('sampleRepository'),
+        this.get<IFlowCellRepository>('flowCellRepository'),
+        this.get<IAuditLogger>('auditLogger'),
+        eventBus
+      )
+    )
+
+    this.register<SampleNoteService>('sampleNoteService', () => 
+      new SampleNoteService(
+        this.get<SampleNoteRepository>('sampleNoteRepository'),
+        this.get<ISampleRepository>('sampleRepository'),
+        this.get<NotificationCenterService>('notificationCenterService')
+      )
+    )
+
+    this.register<NotificationCenterService>('notificationCenterService', () => 
+      new NotificationCenterService(
+        this.get<NotificationRepository>('notificationRepository'),
+        this.get<ISampleRepository>('sampleRepository'),
+        eventBus,
+        notificationHub
+      )
+    )
+
+    this.register<SampleTimelineService>('sampleTimelineService', () => 
+      new SampleTimelineService(
+        this.get<SampleTimelineRepository>('sampleTimelineRepository'),
+        this.get<SampleNoteRepository>('sampleNoteRepository'),
+        this.get<IAuditLogger>('auditLogger')
+      )
+    )
+
+    // Without ENABLE_EMAIL messages still queue, so turning it on later sends the backlog
+    this.register<EmailNotificationService>('emailNotificationService', () => 
+      new EmailNotificationService(
+        this.get<EmailNotificationRepository>('emailNotificationRepository'),
+        this.get<ISampleRepository>('sampleRepository'),
+        emailConfig.enabled ? createSmtpTransport(configManager.get<EmailConfig>('email')) : null,
+        eventBus,
+        {
+          appUrl: appConfig.baseUrl,
+          staffEmails: parseStaffEmails(process.env.STAFF_EMAILS),
+          digestIntervalHours: parseInt(process.env.EMAIL_DIGEST_INTERVAL_HOURS || '24'),
+        }
+      )
+    )
+
+    this.register<SubmitterPortalService>('submitterPortalService', () => 
+      new SubmitterPortalService(
+        this.get<SubmitterPortalRepository>('submitterPortalRepository'),
+        this.get<ISampleService>('sampleService'),
+        this.get<SampleNoteService>('sampleNoteService'),
+        this.get<EmailNotificationService>('emailNotificationService'),
+        this.get<NotificationCenterService>('notificationCenterService'),
+        {
+          appUrl: appConfig.baseUrl,
+          linkSecret: process.env.PORTAL_LINK_SECRET || securityConfig.sessionSecret,
+        }
+      )
+    )
+
+    this.register<TurnaroundForecastService>('turnaroundForecastService', () => 
+      new TurnaroundForecastService(
+        this.get<TurnaroundRepository>('turnaroundRepository'),
+        eventBus
+      )
+    )
+
+    this.register<ExportService>('exportService', () => 
+      new ExportService(
+        this.get<ExportRepository>('exportRepository'),
+        this.get<ExportPresetRepository>('exportPresetRepository')
+      )
+    )
+
+    this.register<FormTemplateService>('formTemplateService', () => 
+      new FormTemplateService(
+        this.get<FormTemplateRepository>('formTemplateRepository')
+      )
+    )
+
+    this.register<ExtractionReviewService>('extractionReviewService', () => 
+      new ExtractionReviewService(
+        this.get<ExtractionReviewRepository>('extractionReviewRepository'),
+        this.get<ISampleService>('sampleService'),
+        {
+          uploadDir: process.env.UPLOAD_DIR || './uploads/nanopore',
+          confidenceThreshold: parseFloat(process.env.EXTRACTION_REVIEW_THRESHOLD || '0.8'),
+        }
+      )
+    )
+
+    this.register<SampleQueryAssistantService>('sampleQueryAssistantService', () => 
+      new SampleQueryAssistantService(
+        this.get<ISampleRepository>('sampleRepository')
+      )
+    )
+
+    this.register<QcReportService>('qcReportService', () => 
+      new QcReportService(
+        this.get<ISampleRepository>('sampleRepository'),
+        this.get<QcResultRepository>('qcResultRepository')
+      )
+    )
+
+    // Run report import completes steps through the legacy setters, which use the pooled DB
+    this.register<RunReportImportService>('runReportImportService', () => 
+      new RunReportImportService(
+        async (queryFn) => {
+          await initializeDatabase()
+          return await executeQuery(queryFn)
+        },
+        this.get<ISampleRepository>('sampleRepository'),
+        this.get<QcReportService>('qcReportService')
+      )
+    )
+
+    // Bulk intake creates samples through createCompleteSample so each file commits in one transaction
+    this.register<BulkIntakeService>('bulkIntakeService', () => 
+      new BulkIntakeService(
+        async (queryFn) => {
+          await initializeDatabase()
+          return await executeQuery(queryFn)
+        },
+        this.get<IAuditLogger>('auditLogger')
       )
     )
   }
@@ -79,6 +330,24 @@ container.initialize()
 // Export convenience functions
 export const getSampleService = (): ISampleService => container.get<ISampleService>('sampleService')
 export const getSampleRepository = (): ISampleRepository => container.get<ISampleRepository>('sampleRepository')
+export const getFlowCellRepository = (): IFlowCellRepository => container.get<IFlowCellRepository>('flowCellRepository')
+export const getWorkflowTemplateRepository = (): WorkflowTemplateRepository => container.get<WorkflowTemplateRepository>('workflowTemplateRepository')
+export const getSequencingRunService = (): SequencingRunService => container.get<SequencingRunService>('sequencingRunService')
+export const getSequencingRunRepository = (): ISequencingRunRepository => container.get<ISequencingRunRepository>('sequencingRunRepository')
+export const getSampleWorkflowService = (): SampleWorkflowService => container.get<SampleWorkflowService>('sampleWorkflowService')
+export const getSampleNoteService = (): SampleNoteService => container.get<SampleNoteService>('sampleNoteService')
+export const getSampleTimelineService = (): SampleTimelineService => container.get<SampleTimelineService>('sampleTimelineService')
+export const getEmailNotificationService = (): EmailNotificationService => container.get<EmailNotificationService>('emailNotificationService')
+export const getNotificationCenterService = (): NotificationCenterService => container.get<NotificationCenterService>('notificationCenterService')
+export const getSubmitterPortalService = (): SubmitterPortalService => container.get<SubmitterPortalService>('submitterPortalService')
+export const getTurnaroundForecastService = (): TurnaroundForecastService => container.get<TurnaroundForecastService>('turnaroundForecastService')
+export const getRunReportImportService = (): RunReportImportService => container.get<RunReportImportService>('runReportImportService')
+export const getQcReportService = (): QcReportService => container.get<QcReportService>('qcReportService')
+export const getExportService = (): ExportService => container.get<ExportService>('exportService')
+export const getFormTemplateService = (): FormTemplateService => container.get<FormTemplateService>('formTemplateService')
+export const getExtractionReviewService = (): ExtractionReviewService => container.get<ExtractionReviewService>('extractionReviewService')
+export const getSampleQueryAssistantService = (): SampleQueryAssistantService => container.get<SampleQueryAssistantService>('sampleQueryAssistantService')
+export const getBulkIntakeService = (): BulkIntakeService => container.get<BulkIntakeService>('bulkIntakeService')
 export const getAuditLogger = (): IAuditLogger => container.get<IAuditLogger>('auditLogger')
 export const getEventEmitter = (): IEventEmitter => container.get<IEventEmitter>('eventEmitter')
 
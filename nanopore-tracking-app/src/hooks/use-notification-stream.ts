@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react'
+import type { SampleChange } from '@/lib/notifications/NotificationCenter'
+
+interface NotificationStreamHandlers {
+  onNotifications: () => void
+  onSampleChange: (change: SampleChange) => void
+}
+
+/**
+ * Hook to follow the server's notification stream for a staff member
+ * @param recipient - Signed-in staff name the inbox belongs to; no stream is opened without one
+ * @param handlers - Called when the inbox changes and when any sample changes
+ */
+export function useNotificationStream(recipient: string | null, handlers: NotificationStreamHandlers): void {
+  // Handlers change every render; the connection should not
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!recipient || typeof EventSource === 'undefined') return
+
+    // EventSource reconnects on its own after network errors
+    const source = new EventSource('/api/notifications/stream')
+    source.addEventListener('notifications', () => handlersRef.current.onNotifications())
+    source.addEventListener('sample', (event) => {
+      handlersRef.current.onSampleChange(JSON.parse((event as MessageEvent<string>).data))
+    })
+
+    return () => {
+      source.close()
+    }
+  }, [recipient])
+}
@@ -0,0 +1,108 @@
+import type { FormTemplate } from './form-template-registry'
+
+/**
+ * Submission forms the facility ships with. Admin-registered templates are stored
+ * in pdf_form_templates and added to the registry at startup.
+ */
+
+// iLab custom form "HTSF Nanopore Submission Form DNA" as exported by wkhtmltopdf
+const HTSF_NANOPORE_DNA: FormTemplate = {
+  id: 'builtin:htsf-nanopore-dna:1',
+  templateKey: 'htsf-nanopore-dna',
+  version: 1,
+  name: 'HTSF Nanopore Submission Form DNA',
+  source: 'builtin',
+  fingerprint: {
+    titles: ['HTSF Nanopore Submission Form DNA'],
+    fieldLabels: [
+      'Form associated with:',
+      'Owner:',
+      'I will be submitting DNA for:',
+      'Type of Sample',
+      'Do these samples contain human DNA?',
+      'Sample Buffer:',
+      'Sample Information:',
+      'Flow Cell Selection:',
+      'Approx. Transcriptome Size',
+      'Approx. Coverage Needed',
+      'Estimated number of Flow Cells',
+      'Additional Comments / Special Needs',
+      'Bioinformatics and Data Delivery',
+      'I would like my data to be basecalled using:',
+      'File Format:',
+      'Data Delivery Notification email addresses:',
+      'How would you like to retrieve your data from HTSF?',
+    ],
+    pageCount: 2,
+  },
+  fields: [
+    { kind: 'text', field: 'projectName', label: 'Service Project', pattern: '^(\\S+)' },
+    { kind: 'text', field: 'submitterName', label: 'Owner:', pattern: '^([^(]+?)\\s*(?:\\(|$)' },
+    { kind: 'text', field: 'labName', label: 'Owner:', pattern: '\\(([^()]*\\([^()]*\\)[^()]*|[^()]*)\\)\\s*$' },
+    {
+      kind: 'choice',
+      field: 'libraryType',
+      label: 'I will be submitting DNA for:',
+      options: [
+        { text: 'Ligation Sequencing (SQK-LSK114)', value: 'Ligation (SQK-LSK114)' },
+        { text: 'Ligation Sequencing with Barcoding', value: 'Ligation with Barcoding (SQK-NBD114.96)' },
+        { text: 'Rapid Sequencing (SQK-RAD114)', value: 'Rapid (SQK-RAD114)' },
+        { text: 'Rapid Sequencing with Barcoding', value: 'Rapid with Barcoding (SQK-RBK114.24)' },
+      ],
+    },
+    {
+      kind: 'choice',
+      field: 'sampleType',
+      label: 'Type of Sample',
+      options: [
+        { text: 'High Molecular Weight DNA', value: 'Genomic DNA' },
+        { text: 'Fragmented DNA', value: 'Fragmented DNA' },
+        { text: 'PCR Amplicons', value: 'PCR Product' },
+        { text: 'cDNA', value: 'cDNA' },
+      ],
+    },
+    { kind: 'table', field: 'sampleName', label: 'Sample Information:', column: 0 },
+    { kind: 'table', field: 'volume', label: 'Sample Information:', column: 1, unit: 'μL' },
+    { kind: 'table', field: 'concentration', label: 'Sample Information:', column: 2, unit: 'ng/μL' },
+    { kind: 'table', field: 'purity', label: 'Sample Information:', column: 4 },
+    {
+      kind: 'choice',
+      field: 'flowCellType',
+      label: 'Flow Cell Selection:',
+      options: [
+        { text: 'MinION Flow Cell', value: 'MinION' },
+        { text: 'PromethION Flow Cell', value: 'PromethION' },
+      ],
+    },
+    {
+      kind: 'choice',
+      field: 'basecalling',
+      label: 'I would like my data to be basecalled using:',
+      options: [
+        { text: 'HAC', value: 'High Accuracy' },
+        { text: 'SUP', value: 'Super Accuracy' },
+        { text: 'Methylation', value: 'Methylation' },
+      ],
+    },
+    {
+      kind: 'choice',
+      field: 'dataDelivery',
+      label: 'File Format:',
+      options: [
+        { text: 'FASTQ / BAM', value: 'FASTQ' },
+        { text: 'POD5', value: 'Raw' },
+      ],
+    },
+    {
+      kind: 'text',
+      field: 'submitterEmail',
+      label: 'Data Delivery Notification email addresses:',
+      pattern: '([\\w.%+-]+@[\\w.-]+\\.[A-Za-z]{2,})',
+    },
+  ],
+  constants: {
+    sequencingType: 'DNA',
+  },
+}
+
+export const BUILTIN_FORM_TEMPLATES: FormTemplate[] = [HTSF_NANOPORE_DNA]
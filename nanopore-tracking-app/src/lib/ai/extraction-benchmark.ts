@@ -0,0 +1,298 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { performance } from 'node:perf_hooks'
+import {
+  EXTRACTION_STRATEGIES,
+  nanoporeFormService,
+  type ExtractionStrategy,
+  type NanoporeFormData,
+  type NanoporeFormExtractionService,
+} from './nanopore-llm-service'
+import { pdfTextService } from './pdf-text-extraction'
+import { TEMPLATE_FORM_FIELDS, type TemplateFormField } from './form-template-registry'
+
+/**
+ * Extraction accuracy benchmark
+ * Runs the extraction strategies over a folder of PDFs with ground-truth JSON and scores every field,
+ * so a change to patterns, templates or the LLM prompt shows up as a drop in a number.
+ * A corpus is `<name>.pdf` next to `<name>.json`; the JSON lists the values a person reads from the form,
+ * and fields it leaves out are expected to be absent.
+ */
+
+export type GroundTruth = Partial<Record<TemplateFormField, string>>
+
+export interface BenchmarkCase {
+  name: string
+  text: string
+  pageCount: number
+  expected: GroundTruth
+}
+
+export type PdfTextReader = (file: File) => Promise<{ text: string; pageCount: number }>
+
+export interface FieldScore {
+  field: TemplateFormField
+  // Cases where the field was expected, extracted, or both
+  support: number
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number
+  recall: number
+  exactMatch: number
+  normalizedMatch: number
+}
+
+export interface CaseMismatch {
+  field: TemplateFormField
+  expected: string | null
+  actual: string | null
+}
+
+export interface CaseResult {
+  name: string
+  latencyMs: number
+  extractionMethod: string | null
+  error: string | null
+  mismatches: CaseMismatch[]
+}
+
+export interface CombinationReport {
+  strategies: ExtractionStrategy[]
+  label: string
+  fields: FieldScore[]
+  overall: Omit<FieldScore, 'field'>
+  latency: { meanMs: number; p95Ms: number; maxMs: number }
+  cases: CaseResult[]
+}
+
+export interface BenchmarkReport {
+  caseCount: number
+  combinations: CombinationReport[]
+}
+
+export interface BenchmarkOptions {
+  // Strategy sets to compare; each runs over every case
+  combinations?: ExtractionStrategy[][] | undefined
+  // Service to benchmark, e.g. one built around a recorded LLM
+  service?: NanoporeFormExtractionService | undefined
+}
+
+export const DEFAULT_BENCHMARK_COMBINATIONS: ExtractionStrategy[][] = [
+  ['template'],
+  ['pattern'],
+  ['llm'],
+  ['template', 'pattern'],
+  ['template', 'llm', 'pattern'],
+  [...EXTRACTION_STRATEGIES],
+]
+
+const readWithPdfService: PdfTextReader = async (file) => {
+  const result = await pdfTextService.extractText(file)
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `Could not read ${file.name}`)
+  }
+  return { text: result.data.rawText, pageCount: result.data.pageCount }
+}
+
+/**
+ * Load every PDF in a folder that has ground truth next to it
+ */
+export async function loadBenchmarkCorpus(
+  directory: string,
+  readText: PdfTextReader = readWithPdfService,
+): Promise<BenchmarkCase[]> {
+  const entries = (await fs.readdir(directory)).filter(entry => entry.toLowerCase().endsWith('.pdf')).sort()
+  const cases: BenchmarkCase[] = []
+
+  for (const entry of entries) {
+    const name = entry.slice(0, -'.pdf'.length)
+    const truthPath = path.join(directory, `${name}.json`)
+    let truth: unknown
+    try {
+      truth = JSON.parse(await fs.readFile(truthPath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+      throw new Error(`Invalid ground truth ${truthPath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    const content = await fs.readFile(path.join(directory, entry))
+    const { text, pageCount } = await readText(new File([new Uint8Array(content)], entry, { type: 'application/pdf' }))
+    cases.push({ name, text, pageCount, expected: parseGroundTruth(truth, truthPath) })
+  }
+
+  return cases
+}
+
+function parseGroundTruth(truth: unknown, source: string): GroundTruth {
+  if (!truth || typeof truth !== 'object' || Array.isArray(truth)) {
+    throw new Error(`Ground truth ${source} must be an object of form fields`)
+  }
+  const expected: GroundTruth = {}
+  for (const [field, value] of Object.entries(truth)) {
+    if (!TEMPLATE_FORM_FIELDS.includes(field as TemplateFormField)) {
+      throw new Error(`Ground truth ${source} has unknown field ${field}`)
+    }
+    if (value !== null && typeof value !== 'string') {
+      throw new Error(`Ground truth ${source} gives ${field} as ${typeof value}; use a string or null`)
+    }
+    if (value?.trim()) expected[field as TemplateFormField] = value.trim()
+  }
+  return expected
+}
+
+/**
+ * Compare values the way a reviewer would: case, spacing, the micro sign and trailing punctuation do not matter
+ */
+export function normalizeFieldValue(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/μ/g, 'u')
+    .replace(/\s+/g, ' ')
+    .replace(/(\d)\s+(?=[a-z%])/g, '$1')
+    .replace(/[\s.,;:]+$/, '')
+    .trim()
+}
+
+const valueOf = (data: NanoporeFormData | undefined, field: TemplateFormField): string | null => {
+  const value = data?.[field]
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator === 0 ? 1 : Math.round((numerator / denominator) * 1000) / 1000
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]!
+}
+
+interface Tally {
+  support: number
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  exact: number
+  normalized: number
+}
+
+const emptyTally = (): Tally => ({ support: 0, truePositives: 0, falsePositives: 0, falseNegatives: 0, exact: 0, normalized: 0 })
+
+function toScore(tally: Tally): Omit<FieldScore, 'field'> {
+  return {
+    support: tally.support,
+    truePositives: tally.truePositives,
+    falsePositives: tally.falsePositives,
+    falseNegatives: tally.falseNegatives,
+    precision: ratio(tally.truePositives, tally.truePositives + tally.falsePositives),
+    recall: ratio(tally.truePositives, tally.truePositives + tally.falseNegatives),
+    exactMatch: ratio(tally.exact, tally.support),
+    normalizedMatch: ratio(tally.normalized, tally.support),
+  }
+}
+
+/**
+ * Run each strategy combination over the corpus and score it field by field.
+ * An extracted value counts as correct when it matches after normalization; a wrong value is both a
+ * false positive and a false negative.
+ */
+export async function runExtractionBenchmark(
+  cases: BenchmarkCase[],
+  options: BenchmarkOptions = {},
+): Promise<BenchmarkReport> {
+  const service = options.service ?? nanoporeFormService
+  const combinations = options.combinations ?? DEFAULT_BENCHMARK_COMBINATIONS
+  const reports: CombinationReport[] = []
+
+  for (const strategies of combinations) {
+    const tallies = new Map<TemplateFormField, Tally>(TEMPLATE_FORM_FIELDS.map(field => [field, emptyTally()]))
+    const results: CaseResult[] = []
+
+    for (const benchmarkCase of cases) {
+      const started = performance.now()
+      const result = await service.extractFromText(benchmarkCase.text, benchmarkCase.pageCount, { strategies })
+      const latencyMs = Math.round((performance.now() - started) * 100) / 100
+      const mismatches: CaseMismatch[] = []
+
+      for (const field of TEMPLATE_FORM_FIELDS) {
+        const expected = benchmarkCase.expected[field] ?? null
+        const actual = valueOf(result.data, field)
+        if (expected === null && actual === null) continue
+
+        const tally = tallies.get(field)!
+        tally.support++
+        const normalizedMatch = expected !== null && actual !== null && normalizeFieldValue(expected) === normalizeFieldValue(actual)
+        if (expected === actual) tally.exact++
+        if (normalizedMatch) {
+          tally.normalized++
+          tally.truePositives++
+        } else {
+          if (actual !== null) tally.falsePositives++
+          if (expected !== null) tally.falseNegatives++
+          mismatches.push({ field, expected, actual })
+        }
+      }
+
+      results.push({
+        name: benchmarkCase.name,
+        latencyMs,
+        extractionMethod: result.data?.extractionMethod ?? null,
+        error: result.success ? null : result.error ?? 'Extraction failed',
+        mismatches,
+      })
+    }
+
+    const overall = emptyTally()
+    for (const tally of tallies.values()) {
+      for (const key of Object.keys(overall) as Array<keyof Tally>) overall[key] += tally[key]
+    }
+    const latencies = results.map(result => result.latencyMs)
+
+    reports.push({
+      strategies,
+      label: strategies.join('+'),
+      fields: [...tallies.entries()]
+        .filter(([, tally]) => tally.support > 0)
+        .map(([field, tally]) => ({ field, ...toScore(tally) })),
+      overall: toScore(overall),
+      latency: {
+        meanMs: latencies.length > 0 ? Math.round((latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length) * 100) / 100 : 0,
+        p95Ms: percentile(latencies, 95),
+        maxMs: latencies.length > 0 ? Math.max(...latencies) : 0,
+      },
+      cases: results,
+    })
+  }
+
+  return { caseCount: cases.length, combinations: reports }
+}
+
+const pct = (value: number): string => `${(value * 100).toFixed(1)}%`.padStart(7)
+
+/**
+ * Plain-text tables of a benchmark run, one per strategy combination
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const sections = report.combinations.map(combination => {
+    const header = `${combination.label} (${report.caseCount} forms, mean ${combination.latency.meanMs}ms, p95 ${combination.latency.p95Ms}ms, max ${combination.latency.maxMs}ms)`
+    const rows = [...combination.fields, { field: 'overall', ...combination.overall }].map(score =>
+      `  ${score.field.padEnd(16)} ${pct(score.precision)} ${pct(score.recall)} ${pct(score.exactMatch)} ${pct(score.normalizedMatch)} ${String(score.support).padStart(7)}`
+    )
+    // A failed extraction misses every field, so only the failure is listed
+    const mismatches = combination.cases.flatMap(result => result.error
+      ? [`  ${result.name}: ${result.error}`]
+      : result.mismatches.map(mismatch =>
+          `  ${result.name} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`
+        )
+    )
+    return [
+      header,
+      `  ${'field'.padEnd(16)} ${'prec'.padStart(7)} ${'recall'.padStart(7)} ${'exact'.padStart(7)} ${'norm'.padStart(7)} ${'support'.padStart(7)}`,
+      ...rows,
+      ...(mismatches.length > 0 ? ['  mismatches:', ...mismatches.map(line => `  ${line}`)] : []),
+    ].join('\n')
+  })
+  return sections.join('\n\n')
+}
@@ -0,0 +1,171 @@
+import type { NanoporeFormData } from './nanopore-llm-service'
+import { TEMPLATE_FORM_FIELDS, type TemplateFormField } from './form-template-registry'
+import { locateText, type BoundingBox, type PdfPageLayout } from './pdf-text-layout'
+
+/**
+ * Field-level review of PDF extractions
+ * Each extracted value gets a confidence and the place on the form it was read from. Values below the
+ * threshold wait for a reviewer; what reviewers change becomes few-shot context for later extractions.
+ * Kept free of server imports so the review queue can share the types and labels.
+ */
+
+export type ReviewDecision = 'pending' | 'accepted' | 'edited' | 'rejected'
+
+export const REVIEW_FIELD_LABELS: Record<TemplateFormField, string> = {
+  sampleName: 'Sample name',
+  submitterName: 'Submitter name',
+  submitterEmail: 'Submitter email',
+  labName: 'Lab',
+  projectName: 'Project',
+  sequencingType: 'Sequencing type',
+  sampleType: 'Sample type',
+  libraryType: 'Library type',
+  flowCellType: 'Flow cell type',
+  concentration: 'Concentration',
+  volume: 'Volume',
+  purity: 'Purity',
+  fragmentSize: 'Fragment size',
+  priority: 'Priority',
+  basecalling: 'Basecalling',
+  referenceGenome: 'Reference genome',
+  analysisType: 'Analysis type',
+  dataDelivery: 'Data delivery',
+}
+
+// A sample cannot be created without these, so a missing one is always put to the reviewer
+export const REQUIRED_REVIEW_FIELDS: readonly TemplateFormField[] = ['sampleName', 'submitterName', 'submitterEmail', 'sampleType']
+
+// A value that cannot be found on the form may have been invented by the LLM
+const UNLOCATED_FACTOR = 0.6
+// A value the extraction's own validation complained about
+const INVALID_FACTOR = 0.7
+
+const ISSUE_FIELDS: Array<{ pattern: RegExp; field: TemplateFormField }> = [
+  { pattern: /email/i, field: 'submitterEmail' },
+  { pattern: /concentration/i, field: 'concentration' },
+  { pattern: /volume/i, field: 'volume' },
+]
+
+export interface ReviewFieldDraft {
+  fieldName: TemplateFormField
+  value: string | null
+  confidence: number
+  source: string
+  pageNumber: number | null
+  boundingBox: BoundingBox | null
+  context: string | null
+}
+
+export interface ReviewedField {
+  fieldName: string
+  extractedValue: string | null
+  context: string | null
+  decision: ReviewDecision
+  finalValue: string | null
+}
+
+export interface ExtractionExample {
+  fieldName: string
+  context: string | null
+  extractedValue: string | null
+  // Null when the value should not have been extracted at all
+  correctedValue: string | null
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000
+
+/**
+ * Per-field confidence and location for an extraction
+ * Template fields keep the template's own confidence; other values take the extraction's overall confidence,
+ * lowered when the value is not on the form or failed validation.
+ */
+export function scoreExtractedFields(data: NanoporeFormData, pages: PdfPageLayout[]): ReviewFieldDraft[] {
+  const invalid = new Set((data.issues ?? []).flatMap(issue =>
+    ISSUE_FIELDS.filter(({ pattern }) => pattern.test(issue)).map(({ field }) => field)
+  ))
+
+  return TEMPLATE_FORM_FIELDS.flatMap((fieldName): ReviewFieldDraft[] => {
+    const value = data[fieldName]?.trim()
+    if (!value) {
+      return REQUIRED_REVIEW_FIELDS.includes(fieldName)
+        ? [{ fieldName, value: null, confidence: 0, source: 'missing', pageNumber: null, boundingBox: null, context: null }]
+        : []
+    }
+
+    const templateConfidence = data.fieldConfidence?.[fieldName]
+    const location = locateText(pages, value)
+    let confidence = templateConfidence ?? data.confidence
+    if (!location) confidence *= UNLOCATED_FACTOR
+    if (invalid.has(fieldName)) confidence *= INVALID_FACTOR
+
+    return [{
+      fieldName,
+      value,
+      confidence: round(Math.min(Math.max(confidence, 0), 1)),
+      source: templateConfidence !== undefined ? 'template' : data.extractionMethod,
+      pageNumber: location?.pageNumber ?? null,
+      boundingBox: location?.boundingBox ?? null,
+      context: location?.context ?? null,
+    }]
+  })
+}
+
+/**
+ * Values a reviewed extraction settles on: accepted as extracted, edited, or left out when rejected
+ */
+export function reviewedValues(fields: ReviewedField[]): Partial<Record<TemplateFormField, string>> {
+  return Object.fromEntries(fields.flatMap(field => {
+    const value = field.decision === 'edited' ? field.finalValue
+      : field.decision === 'accepted' ? field.extractedValue
+      : null
+    return value?.trim() ? [[field.fieldName, value.trim()]] : []
+  }))
+}
+
+/**
+ * Labelled examples from the fields a reviewer corrected
+ */
+export function correctionExamples(fields: ReviewedField[]): ExtractionExample[] {
+  return fields
+    .filter(field =>
+      (field.decision === 'edited' && field.finalValue?.trim() !== (field.extractedValue ?? '').trim()) ||
+      (field.decision === 'rejected' && field.extractedValue !== null)
+    )
+    .map(field => ({
+      fieldName: field.fieldName,
+      context: field.context,
+      extractedValue: field.extractedValue,
+      correctedValue: field.decision === 'edited' ? field.finalValue?.trim() ?? null : null,
+    }))
+}
+
+/**
+ * Prompt section teaching the LLM from earlier corrections, newest first and a few per field
+ */
+export function buildFewShotPrompt(
+  examples: ExtractionExample[],
+  options: { perField?: number; total?: number } = {}
+): string {
+  const perField = options.perField ?? 2
+  const total = options.total ?? 12
+  const counts = new Map<string, number>()
+  const selected = examples.filter(example => {
+    const count = counts.get(example.fieldName) ?? 0
+    if (count >= perField) return false
+    counts.set(example.fieldName, count + 1)
+    return true
+  }).slice(0, total)
+
+  if (selected.length === 0) return ''
+
+  const lines = selected.map(example => {
+    const context = example.context ? ` from the line "${example.context}"` : ''
+    const extracted = example.extractedValue !== null ? `"${example.extractedValue}"` : 'nothing'
+    const corrected = example.correctedValue !== null
+      ? `the correct value is "${example.correctedValue}"`
+      : 'the form does not give this field, so it should be null'
+    return `- ${example.fieldName}: an earlier extraction read ${extracted}${context}; ${corrected}`
+  })
+
+  return `Reviewers corrected these earlier extractions. Read similar forms the same way:\n${lines.join('\n')}\n`
+}
@@ -0,0 +1,401 @@
+import { z } from 'zod'
+import type { NanoporeFormData } from './nanopore-llm-service'
+import { BUILTIN_FORM_TEMPLATES } from './builtin-form-templates'
+
+/**
+ * Submission form template registry
+ * Each known form version has a fingerprint (title, field labels, page count) and
+ * label-anchored field definitions, so values are read from where the form puts them
+ * instead of searching the whole document with generic patterns.
+ */
+
+export const TEMPLATE_FORM_FIELDS = [
+  'sampleName',
+  'submitterName',
+  'submitterEmail',
+  'labName',
+  'projectName',
+  'sequencingType',
+  'sampleType',
+  'libraryType',
+  'flowCellType',
+  'concentration',
+  'volume',
+  'purity',
+  'fragmentSize',
+  'priority',
+  'basecalling',
+  'referenceGenome',
+  'analysisType',
+  'dataDelivery',
+] as const satisfies ReadonlyArray<keyof NanoporeFormData>
+
+export type TemplateFormField = typeof TEMPLATE_FORM_FIELDS[number]
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const templateFieldSchema = z.discriminatedUnion('kind', [
+  // Value follows the label on the same line, or on the lines up to the next label
+  z.object({
+    kind: z.literal('text'),
+    field: z.enum(TEMPLATE_FORM_FIELDS),
+    label: z.string().min(1).max(200),
+    pattern: z.string().max(200).refine(isValidPattern, 'Invalid regular expression').optional(), // First capture group, or the whole match, is the value
+  }),
+  // Checkbox or radio group listed under the label
+  z.object({
+    kind: z.literal('choice'),
+    field: z.enum(TEMPLATE_FORM_FIELDS),
+    label: z.string().min(1).max(200),
+    options: z.array(z.object({
+      text: z.string().min(1).max(200),
+      value: z.string().min(1).max(100),
+    })).min(1),
+  }),
+  // One column of a sample table whose header starts at the label
+  z.object({
+    kind: z.literal('table'),
+    field: z.enum(TEMPLATE_FORM_FIELDS),
+    label: z.string().min(1).max(200),
+    column: z.number().int().min(0),
+    unit: z.string().max(20).optional(),
+  }),
+])
+
+export type TemplateFieldDefinition = z.infer<typeof templateFieldSchema>
+
+export const formTemplateDefinitionSchema = z.object({
+  fingerprint: z.object({
+    titles: z.array(z.string().min(1).max(200)).min(1), // Any one must appear
+    fieldLabels: z.array(z.string().min(1).max(200)).min(1),
+    pageCount: z.number().int().positive().optional(),
+  }),
+  fields: z.array(templateFieldSchema).min(1),
+  // Values implied by the form itself, e.g. a DNA-only form
+  constants: z.record(z.enum(TEMPLATE_FORM_FIELDS), z.string().max(100)).default({}),
+})
+
+export type FormTemplateDefinition = z.infer<typeof formTemplateDefinitionSchema>
+
+export interface FormTemplate extends FormTemplateDefinition {
+  id: string
+  templateKey: string
+  version: number
+  name: string
+  source: 'builtin' | 'registered'
+}
+
+export interface FormDocument {
+  text: string
+  pageCount?: number | undefined
+}
+
+export interface TemplateDetection {
+  template: FormTemplate
+  score: number
+  matchedLabels: number
+}
+
+export interface TemplateFieldValue {
+  value: string
+  confidence: number
+  label: string
+}
+
+export interface TemplateExtraction {
+  fields: Partial<Record<TemplateFormField, TemplateFieldValue>>
+  issues: string[]
+}
+
+// Fingerprint score needed before a template is trusted
+const DETECTION_THRESHOLD = 0.6
+
+// Checkbox glyphs as they come out of PDF text extraction
+const CHECKED_MARKER = /^(?:[☒☑✓✔✗✘■●◉]|\[[xX✓]\]|\([xX]\))\s*/
+const UNCHECKED_MARKER = /^(?:[☐□○◯]|\[\s?\]|\(\s?\))\s*/
+
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/\s+/g, ' ').trim()
+
+interface FormLine {
+  raw: string
+  text: string
+  normalized: string
+}
+
+function toLines(text: string): FormLine[] {
+  return text.split(/\r?\n/).map(raw => ({ raw, text: raw.trim(), normalized: normalize(raw) }))
+}
+
+const startsWithLabel = (line: FormLine, label: string): boolean =>
+  line.normalized.startsWith(normalize(label))
+
+// Matches a label at the start of a line, however the PDF spaced it
+const labelPrefix = (label: string): RegExp =>
+  new RegExp('^' + label.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'), 'i')
+
+/**
+ * Score how well a document matches a template fingerprint, from 0 to 1
+ */
+export function scoreTemplate(template: FormTemplate, document: FormDocument): { score: number; matchedLabels: number } {
+  const text = normalize(document.text)
+  const { titles, fieldLabels, pageCount } = template.fingerprint
+
+  const titleMatched = titles.some(title => text.includes(normalize(title)))
+  const matchedLabels = fieldLabels.filter(label => text.includes(normalize(label))).length
+  const labelRatio = matchedLabels / fieldLabels.length
+  const pagesMatch = pageCount === undefined || document.pageCount === undefined || pageCount === document.pageCount
+
+  const score = (titleMatched ? 0.4 : 0) + labelRatio * 0.5 + (pagesMatch ? 0.1 : 0)
+  return { score: Math.round(score * 1000) / 1000, matchedLabels }
+}
+
+/**
+ * Lines after a label, up to the next line that starts with any label the template knows
+ */
+function regionAfter(lines: FormLine[], labelIndex: number, boundaries: string[]): FormLine[] {
+  const region: FormLine[] = []
+  for (let i = labelIndex + 1; i < lines.length; i++) {
+    const line = lines[i]!
+    if (boundaries.some(boundary => startsWithLabel(line, boundary))) break
+    region.push(line)
+  }
+  return region
+}
+
+function extractText(definition: Extract<TemplateFieldDefinition, { kind: 'text' }>, line: FormLine, region: FormLine[]): string | null {
+  const sameLine = line.text.replace(labelPrefix(definition.label), '').replace(/^[\s:]+/, '').trim()
+  // Blank forms leave placeholder asterisks where answers go
+  const following = region.map(l => l.text).filter(text => text && !/^\*+$/.test(text)).join(' ')
+  const candidate = sameLine || following
+  if (!candidate) return null
+
+  if (!definition.pattern) return candidate
+  const match = candidate.match(new RegExp(definition.pattern, 'i'))
+  return match ? (match[1] ?? match[0]).trim() : null
+}
+
+function extractChoice(
+  definition: Extract<TemplateFieldDefinition, { kind: 'choice' }>,
+  region: FormLine[]
+): { value: string; confidence: number } | null {
+  const optionLines = region
+    .map(line => {
+      const option = [...definition.options]
+        .sort((a, b) => b.text.length - a.text.length)
+        .find(candidate => line.normalized.replace(CHECKED_MARKER, '').replace(UNCHECKED_MARKER, '').startsWith(normalize(candidate.text)))
+      return option ? { option, line } : null
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+
+  const checked = optionLines.filter(({ line }) => CHECKED_MARKER.test(line.text))
+  if (checked.length > 0) {
+    return { value: checked.map(({ option }) => option.value).join(', '), confidence: 0.95 }
+  }
+
+  // Filled forms that print only the chosen answer
+  if (optionLines.length === 1 && definition.options.length > 1) {
+    return { value: optionLines[0]!.option.value, confidence: 0.85 }
+  }
+
+  return null
+}
+
+function extractTableCell(
+  definition: Extract<TemplateFieldDefinition, { kind: 'table' }>,
+  region: FormLine[]
+): { value: string; rows: number } | null {
+  // Data rows hold a name followed by numbers; header fragments and placeholders don't
+  const rows = region
+    .map(line => line.text.split(/\s+/))
+    .filter(tokens => tokens.length >= 2 && tokens.slice(1).some(token => /^\d+(?:\.\d+)?$/.test(token)))
+
+  const cell = rows[0]?.[definition.column]
+  if (!cell) return null
+  return { value: definition.unit ? `${cell} ${definition.unit}` : cell, rows: rows.length }
+}
+
+/**
+ * Read field values from the positions the template defines
+ */
+export function extractWithTemplate(template: FormTemplate, document: FormDocument): TemplateExtraction {
+  const lines = toLines(document.text)
+  const boundaries = [...new Set([...template.fingerprint.fieldLabels, ...template.fields.map(field => field.label)])]
+  const fields: TemplateExtraction['fields'] = {}
+  const issues: string[] = []
+
+  for (const [field, value] of Object.entries(template.constants)) {
+    fields[field as TemplateFormField] = { value, confidence: 0.9, label: template.name }
+  }
+
+  // The first definition that yields a value wins; extracted values replace constants
+  const extracted = new Set<TemplateFormField>()
+
+  for (const definition of template.fields) {
+    if (extracted.has(definition.field)) continue
+
+    const labelIndex = lines.findIndex(line => startsWithLabel(line, definition.label))
+    if (labelIndex < 0) continue
+
+    const region = regionAfter(lines, labelIndex, boundaries)
+
+    switch (definition.kind) {
+      case 'text': {
+        const value = extractText(definition, lines[labelIndex]!, region)
+        if (value) fields[definition.field] = { value, confidence: 0.95, label: definition.label }
+        break
+      }
+      case 'choice': {
+        const choice = extractChoice(definition, region)
+        if (choice) fields[definition.field] = { ...choice, label: definition.label }
+        break
+      }
+      case 'table': {
+        const cell = extractTableCell(definition, region)
+        if (cell) {
+          fields[definition.field] = { value: cell.value, confidence: 0.9, label: definition.label }
+          if (cell.rows > 1 && !issues.some(issue => issue.startsWith('Form lists'))) {
+            issues.push(`Form lists ${cell.rows} samples; only the first was extracted`)
+          }
+        }
+        break
+      }
+    }
+
+    if (fields[definition.field]?.label === definition.label) extracted.add(definition.field)
+  }
+
+  return { fields, issues }
+}
+
+// Keywords for guessing which field a label on a new form feeds
+const LABEL_FIELD_HINTS: Array<[RegExp, TemplateFormField]> = [
+  [/sample name|sample id/i, 'sampleName'],
+  [/e-?mail/i, 'submitterEmail'],
+  [/submitter|owner|investigator|contact name/i, 'submitterName'],
+  [/\blab\b|laboratory|department/i, 'labName'],
+  [/project/i, 'projectName'],
+  [/type of sample|sample type/i, 'sampleType'],
+  [/library|submitting .* for|prep kit/i, 'libraryType'],
+  [/flow ?cell/i, 'flowCellType'],
+  [/basecall/i, 'basecalling'],
+  [/priority|turnaround/i, 'priority'],
+  [/reference/i, 'referenceGenome'],
+  [/analysis/i, 'analysisType'],
+  [/file format|data delivery/i, 'dataDelivery'],
+  [/fragment|size/i, 'fragmentSize'],
+]
+
+const isFormTitle = (text: string): boolean =>
+  text.length <= 100 && !text.endsWith(':') && /(submission|request|intake|order) form/i.test(text)
+
+/**
+ * Propose a template from the text of a sample PDF. Labels are lines ending in ':' or '?';
+ * indented lines under a label are treated as the options of a choice field.
+ * An admin reviews the draft before it is registered.
+ */
+export function draftTemplateFromText(document: FormDocument): FormTemplateDefinition {
+  const lines = toLines(document.text)
+  const title = lines.find(line => isFormTitle(line.text))?.text
+    ?? lines.find(line => /form/i.test(line.text) && !line.text.endsWith(':'))?.text
+    ?? lines.find(line => line.text.length > 0)?.text
+    ?? 'Untitled form'
+
+  const labelIndexes = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.text.length >= 3 && line.text.length <= 120 && /[:?]$|\(required\)$/.test(line.text))
+
+  const labels = [...new Set(labelIndexes.map(({ line }) => line.text.replace(/\s*\(required\)$/i, '')))]
+  const usedFields = new Set<TemplateFormField>()
+  const fields: TemplateFieldDefinition[] = []
+
+  for (const { line, index } of labelIndexes) {
+    const field = LABEL_FIELD_HINTS.find(([pattern]) => pattern.test(line.text))?.[1]
+    if (!field || usedFields.has(field)) continue
+    usedFields.add(field)
+
+    const label = line.text.replace(/\s*\(required\)$/i, '')
+    const region = regionAfter(lines, index, labels)
+    // Options keep a leading gap where the checkbox glyph was
+    const options = region.filter(l => l.text && /^\s|^[☐□○☒☑]/.test(l.raw))
+
+    fields.push(options.length >= 2 && options.length === region.filter(l => l.text).length
+      ? { kind: 'choice', field, label, options: options.map(option => ({ text: option.text, value: option.text })) }
+      : { kind: 'text', field, label })
+  }
+
+  return {
+    fingerprint: {
+      titles: [title],
+      fieldLabels: labels,
+      ...(document.pageCount !== undefined && { pageCount: document.pageCount }),
+    },
+    fields,
+    constants: {},
+  }
+}
+
+export class FormTemplateRegistry {
+  private templates = new Map<string, FormTemplate>()
+
+  constructor(builtins: FormTemplate[] = []) {
+    builtins.forEach(template => this.register(template))
+  }
+
+  /**
+   * Add or replace a template. Only the newest version of a key takes part in detection.
+   */
+  register(template: FormTemplate): void {
+    this.templates.set(template.id, template)
+  }
+
+  unregister(id: string): void {
+    this.templates.delete(id)
+  }
+
+  /**
+   * Swap the admin-registered templates for the current set, keeping builtins
+   */
+  replaceRegistered(templates: FormTemplate[]): void {
+    for (const template of [...this.templates.values()]) {
+      if (template.source === 'registered') this.templates.delete(template.id)
+    }
+    templates.forEach(template => this.register(template))
+  }
+
+  list(): FormTemplate[] {
+    return [...this.templates.values()].sort((a, b) =>
+      a.templateKey === b.templateKey ? b.version - a.version : a.templateKey.localeCompare(b.templateKey)
+    )
+  }
+
+  /**
+   * Best matching template for a document, or null when nothing clears the threshold
+   */
+  detect(document: FormDocument): TemplateDetection | null {
+    const latest = new Map<string, FormTemplate>()
+    for (const template of this.templates.values()) {
+      const current = latest.get(template.templateKey)
+      if (!current || template.version > current.version) latest.set(template.templateKey, template)
+    }
+
+    let best: TemplateDetection | null = null
+    for (const template of latest.values()) {
+      const { score, matchedLabels } = scoreTemplate(template, document)
+      if (score >= DETECTION_THRESHOLD && (!best || score > best.score)) {
+        best = { template, score, matchedLabels }
+      }
+    }
+    return best
+  }
+}
+
+// Export singleton instance
+export const formTemplateRegistry = new FormTemplateRegistry(BUILTIN_FORM_TEMPLATES)
@@ -0,0 +1,130 @@
+import type { z } from 'zod'
+import { ExternalServiceError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * One interface for every language model the app talks to
+ * Drivers cover chat, JSON-mode completion, embeddings and model listing; prompts come from the
+ * versioned templates in prompt-templates.ts and JSON answers are checked against the template's schema.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface PromptReference {
+  id: string
+  version: number
+  variables: Record<string, unknown>
+}
+
+export interface LLMRequest {
+  messages: ChatMessage[]
+  model?: string | undefined
+  temperature?: number | undefined
+  maxTokens?: number | undefined
+  // Ask the model for a single JSON value
+  json?: boolean | undefined
+  // Template the messages were rendered from; recordings are keyed on it when present
+  prompt?: PromptReference | undefined
+}
+
+export interface LLMResponse {
+  content: string
+  model: string
+  provider: string
+  durationMs: number
+}
+
+export interface LLMProvider {
+  readonly name: string
+  isAvailable(): Promise<boolean>
+  listModels(): Promise<string[]>
+  chat(request: LLMRequest): Promise<LLMResponse>
+  embed(texts: string[], options?: { model?: string | undefined }): Promise<number[][]>
+}
+
+/**
+ * A model answered, but not with what the prompt asked for
+ */
+export class LLMOutputError extends ExternalServiceError {
+  constructor(
+    prompt: string,
+    message: string,
+    public readonly output: string,
+    cause?: Error
+  ) {
+    super('llm', `${prompt}: ${message}`, cause)
+  }
+}
+
+const SMART_QUOTES: Array<[RegExp, string]> = [
+  [/[“”]/g, '"'],
+  [/[‘’]/g, "'"],
+]
+
+/**
+ * Pull the JSON value out of a model answer
+ * Models wrap JSON in prose or code fences and leave trailing commas; those are tolerated, anything else is not.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '')
+  const start = unfenced.search(/[[{]/)
+  if (start === -1) {
+    throw new Error('No JSON found in the response')
+  }
+  const closing = unfenced[start] === '{' ? '}' : ']'
+  const end = unfenced.lastIndexOf(closing)
+  if (end < start) {
+    throw new Error('The JSON in the response is incomplete')
+  }
+
+  const candidate = unfenced.slice(start, end + 1)
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    const repaired = SMART_QUOTES
+      .reduce((json, [pattern, quote]) => json.replace(pattern, quote), candidate)
+      .replace(/,\s*([}\]])/g, '$1')
+    return JSON.parse(repaired)
+  }
+}
+
+/**
+ * Parse a JSON answer and check it against the schema its prompt promised
+ */
+export function parseJsonOutput<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, prompt: string): T {
+  let value: unknown
+  try {
+    value = extractJson(text)
+  } catch (error) {
+    throw new LLMOutputError(prompt, error instanceof Error ? error.message : 'Invalid JSON', text, error instanceof Error ? error : undefined)
+  }
+
+  const parsed = schema.safeParse(value)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'value'} ${issue.message.toLowerCase()}`)
+    throw new LLMOutputError(prompt, `Response does not match the expected shape (${issues.join('; ')})`, text, parsed.error)
+  }
+  return parsed.data
+}
+
+/**
+ * fetch with the configured timeout, turning transport and HTTP failures into ExternalServiceError
+ */
+export async function fetchJson<T>(provider: string, url: string, init: RequestInit & { timeoutMs: number }): Promise<T> {
+  const { timeoutMs, ...request } = init
+  let response: Response
+  try {
+    response = await fetch(url, { ...request, signal: AbortSignal.timeout(timeoutMs) })
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError' ? `timed out after ${timeoutMs}ms` : 'is unreachable'
+    throw new ExternalServiceError(provider, `${provider} ${reason}`, error instanceof Error ? error : undefined)
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ExternalServiceError(provider, `${provider} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`)
+  }
+  return await response.json() as T
+}
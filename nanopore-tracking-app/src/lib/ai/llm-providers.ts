@@ -0,0 +1,35 @@
+import { aiConfig } from '../config'
+import type { LLMProvider } from './llm-provider'
+import { OllamaProvider } from './ollama-provider'
+import { OpenAICompatibleProvider } from './openai-compatible-provider'
+import { ReplayLLMProvider } from './replay-provider'
+
+type AISettings = typeof aiConfig
+
+/**
+ * Build the driver named by AI_PROVIDER
+ */
+export function createLLMProvider(settings: AISettings = aiConfig): LLMProvider {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        apiKey: settings.apiKey,
+        model: settings.defaultModel,
+        embeddingModel: settings.embeddingModel,
+        timeoutMs: settings.timeout,
+      })
+    case 'replay':
+      return new ReplayLLMProvider({ file: settings.replayFile })
+    case 'ollama':
+    default:
+      return new OllamaProvider({
+        host: settings.ollamaHost,
+        model: settings.defaultModel,
+        embeddingModel: settings.embeddingModel,
+        timeoutMs: settings.timeout,
+      })
+  }
+}
+
+export const llmProvider = createLLMProvider()
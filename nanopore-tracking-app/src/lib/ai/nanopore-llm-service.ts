@@ -1,7 +1,18 @@
-import { aiService } from './ollama-service'
+import { aiConfig } from '../config'
+import type { LLMProvider } from './llm-provider'
+import { llmProvider } from './llm-providers'
+import { completeJson, nanoporeFormExtractionPrompt } from './prompt-templates'
 import { pdfTextService } from './pdf-text-extraction'
 import { ragService } from './rag-system'
 import type { RAGResult } from './rag-system'
+import type { PatternMatch } from '../pdf-pattern-matcher'
+import {
+  extractWithTemplate,
+  formTemplateRegistry,
+  type TemplateDetection,
+  type TemplateFormField,
+} from './form-template-registry'
+import type { ExtractionExample } from './extraction-review'
 
 export interface NanoporeFormData {
   // Basic Information
@@ -34,12 +45,32 @@ export interface NanoporeFormData {
   dataDelivery?: string // Raw, Processed, FASTQ, etc.
 
   // Metadata
-  extractionMethod: string // 'llm', 'pattern', 'hybrid', 'rag'
+  extractionMethod: string // 'template', 'llm', 'pattern', 'hybrid', 'rag'
   confidence: number
+  // Confidence of individual values read from a form template
+  fieldConfidence?: Partial<Record<TemplateFormField, number>>
   issues?: string[]
   processingTime?: number
   ragInsights?: RAGResult
   ragRecommendations?: string[]
+  formTemplate?: {
+    id: string
+    name: string
+    version: number
+    score: number
+  }
+}
+
+// Extraction paths, in the order they are tried; RAG refines whatever the others found
+export type ExtractionStrategy = 'template' | 'llm' | 'pattern' | 'rag'
+
+export const EXTRACTION_STRATEGIES: readonly ExtractionStrategy[] = ['template', 'llm', 'pattern', 'rag']
+
+export interface NanoporeExtractionOptions {
+  // Reviewer corrections given to the LLM as examples, newest first
+  examples?: ExtractionExample[]
+  // Paths to run, all by default; the extraction benchmark compares subsets
+  strategies?: readonly ExtractionStrategy[] | undefined
 }
 
 export interface NanoporeExtractionResult {
@@ -50,11 +81,13 @@ export interface NanoporeExtractionResult {
   processingTime?: number
 }
 
-class NanoporeFormExtractionService {
+export class NanoporeFormExtractionService {
+  constructor(private readonly llm: LLMProvider = llmProvider) {}
+
   /**
    * Extract and map form data from PDF using LLM + pattern matching + RAG
    */
-  async extractFormData(file: File): Promise<NanoporeExtractionResult> {
+  async extractFormData(file: File, options: NanoporeExtractionOptions = {}): Promise<NanoporeExtractionResult> {
     const startTime = Date.now()
 
     try {
@@ -80,14 +113,48 @@ class NanoporeFormExtractionService {
         }
       }
 
-      const { rawText } = textResult.data
+      const { rawText, pageCount } = textResult.data
+      return await this.extractFromText(rawText, pageCount, options, startTime)
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+        processingTime: Date.now() - startTime,
+      }
+    }
+  }
+
+  /**
+   * Extract and map form data from text already read from a PDF
+   */
+  async extractFromText(
+    rawText: string,
+    pageCount: number,
+    options: NanoporeExtractionOptions = {},
+    startTime = Date.now(),
+  ): Promise<NanoporeExtractionResult> {
+    const strategies = new Set(options.strategies ?? EXTRACTION_STRATEGIES)
+
+    try {
       let formData: NanoporeFormData | null = null
-      let extractionMethod: 'llm' | 'pattern' | 'hybrid' | 'rag' = 'pattern'
+      let extractionMethod: 'template' | 'llm' | 'pattern' | 'hybrid' | 'rag' = 'pattern'
+
+      // Step 3: Known form layouts are read positionally; the LLM and patterns
+      // only fill in what the template could not find
+      const detection = strategies.has('template')
+        ? formTemplateRegistry.detect({ text: rawText, pageCount })
+        : null
+      const templateData = detection ? this.extractWithFormTemplate(detection, rawText, pageCount) : null
+      if (templateData && this.hasRequiredFields(templateData)) {
+        formData = templateData
+        extractionMethod = 'template'
+      }
 
-      // Step 3: Try LLM extraction first if available
-      if (await aiService.isAvailable()) {
+      // Step 4: Try LLM extraction if available
+      if (!formData && strategies.has('llm') && aiConfig.enabled && await this.llm.isAvailable()) {
         try {
-          const llmResult = await this.extractWithLLM(rawText)
+          const llmResult = await this.extractWithLLM(rawText, options.examples ?? [])
           if (llmResult) {
             formData = llmResult
             extractionMethod = 'llm'
@@ -100,24 +167,32 @@ class NanoporeFormExtractionService {
         }
       }
 
-      // Step 4: Fallback to pattern matching or enhance LLM results
-      if (!formData) {
-        const patternResult = this.extractWithPatterns(rawText)
-        formData = patternResult
-        extractionMethod = 'pattern'
-      } else {
-        // Hybrid approach: enhance LLM results with pattern matching
-        const patternResult = this.extractWithPatterns(rawText)
-        formData = this.mergeExtractionResults(formData, patternResult)
-        extractionMethod = 'hybrid'
+      // Step 5: Fallback to pattern matching or enhance LLM results
+      if (strategies.has('pattern')) {
+        if (!formData) {
+          const patternResult = this.extractWithPatterns(rawText)
+          formData = patternResult
+          extractionMethod = 'pattern'
+        } else if (extractionMethod === 'llm') {
+          // Hybrid approach: enhance LLM results with pattern matching
+          const patternResult = this.extractWithPatterns(rawText)
+          formData = this.mergeExtractionResults(formData, patternResult)
+          extractionMethod = 'hybrid'
+        }
       }
 
-      // Step 5: Enhance with RAG system if available
+      // Partial template results still take precedence over free-text guesses
+      if (templateData && extractionMethod !== 'template') {
+        formData = formData ? this.mergeExtractionResults(templateData, formData) : templateData
+        extractionMethod = formData === templateData ? 'template' : 'hybrid'
+      }
+
+      // Step 6: Enhance with RAG system if available
       let ragInsights: RAGResult | undefined
       let ragRecommendations: string[] = []
 
       try {
-        const isRagAvailable = await ragService.isAvailable()
+        const isRagAvailable = strategies.has('rag') && await ragService.isAvailable()
         if (isRagAvailable && formData) {
           const ragResult = await ragService.enhanceExtraction(formData)
 
@@ -149,10 +224,10 @@ class NanoporeFormExtractionService {
         // Continue without RAG enhancement
       }
 
-      // Step 6: Final validation and confidence calculation
+      // Step 7: Final validation and confidence calculation
       const processingTime = Date.now() - startTime
       
-      // Ensure formData is not null (should never happen due to fallback)
+      // Only possible when pattern matching was left out of the strategies
       if (!formData) {
         throw new Error('Failed to extract any data from PDF')
       }
@@ -173,6 +248,11 @@ class NanoporeFormExtractionService {
         validationIssues.push(...ragInsights.validationIssues)
       }
 
+      // Keep layout warnings such as multi-sample tables
+      if (templateData?.issues) {
+        validationIssues.push(...templateData.issues)
+      }
+
       const finalData: NanoporeFormData = {
         ...formData,
         extractionMethod,
@@ -181,6 +261,14 @@ class NanoporeFormExtractionService {
         processingTime,
         ragInsights,
         ragRecommendations,
+        formTemplate: detection
+          ? {
+              id: detection.template.id,
+              name: detection.template.name,
+              version: detection.template.version,
+              score: detection.score,
+            }
+          : undefined,
       }
 
       return {
@@ -199,90 +287,56 @@ class NanoporeFormExtractionService {
   }
 
   /**
-   * Extract form data using LLM with specialized prompts
+   * Extract form data from a recognised form layout
    */
-  private async extractWithLLM(
+  private extractWithFormTemplate(
+    detection: TemplateDetection,
     rawText: string,
-  ): Promise<NanoporeFormData | null> {
-    const prompt = `
-You are an expert at extracting information from Oxford Nanopore sequencing submission forms.
-Analyze the following PDF text and extract the relevant form fields.
-
-PDF Text:
-${rawText}
-
-Please extract the following information and return it as a JSON object:
-
-{
-  "sampleName": "string - sample identifier",
-  "submitterName": "string - person submitting the sample",
-  "submitterEmail": "string - contact email",
-  "labName": "string - laboratory or department name",
-  "projectName": "string - project or study name",
-  "sequencingType": "DNA|RNA|cDNA|Other - type of sequencing",
-  "sampleType": "Genomic DNA|Plasmid|PCR Product|Other - sample type",
-  "libraryType": "Ligation|Rapid|PCR-free|Other - library preparation method",
-  "flowCellType": "MinION|GridION|PromethION|Flongle|Other - flow cell type",
-  "concentration": "string - sample concentration with units",
-  "volume": "string - sample volume with units",
-  "purity": "string - purity measurements (A260/A280, etc.)",
-  "fragmentSize": "string - fragment size information",
-  "priority": "Standard|High|Rush - processing priority",
-  "basecalling": "Standard|High Accuracy|Fast - basecalling method",
-  "demultiplexing": "boolean - whether demultiplexing is needed",
-  "referenceGenome": "string - reference genome if specified",
-  "analysisType": "string - type of analysis requested",
-  "dataDelivery": "Raw|Processed|Both - data delivery preference"
-}
+    pageCount: number,
+  ): NanoporeFormData {
+    const { fields, issues } = extractWithTemplate(detection.template, {
+      text: rawText,
+      pageCount,
+    })
+    const values = Object.values(fields)
+    const fieldConfidence = values.length > 0
+      ? values.reduce((sum, field) => sum + field.confidence, 0) / values.length
+      : 0
 
-Rules:
-1. Only extract information that is clearly present in the text
-2. Use null for fields that cannot be determined
-3. Normalize values to the specified options where possible
-4. Be conservative - if unsure, use null
-5. Return valid JSON only
+    return {
+      ...Object.fromEntries(
+        Object.entries(fields).map(([field, extracted]) => [field, extracted.value]),
+      ),
+      confidence: Math.min(detection.score, fieldConfidence),
+      fieldConfidence: Object.fromEntries(
+        Object.entries(fields).map(([field, extracted]) => [field, extracted.confidence]),
+      ),
+      extractionMethod: 'template',
+      issues,
+    }
+  }
 
-JSON Response:
-`
+  private hasRequiredFields(data: NanoporeFormData): boolean {
+    return Boolean(data.sampleName && data.submitterName && data.submitterEmail)
+  }
 
+  /**
+   * Extract form data using LLM with specialized prompts
+   */
+  private async extractWithLLM(
+    rawText: string,
+    examples: ExtractionExample[],
+  ): Promise<NanoporeFormData | null> {
     try {
-      const response = await aiService.answerQuestion(prompt)
-
-      // Parse the LLM response
-      const jsonMatch = response.match(/{[\S\s]*}/)
-      if (!jsonMatch) {
-        throw new Error('No JSON found in LLM response')
-      }
+      const extracted = await completeJson(this.llm, nanoporeFormExtractionPrompt, { text: rawText, examples })
 
-      const extractedData = JSON.parse(jsonMatch[0])
-
-      // Convert to our form data structure
-      const formData: NanoporeFormData = {
-        sampleName: extractedData.sampleName || undefined,
-        submitterName: extractedData.submitterName || undefined,
-        submitterEmail: extractedData.submitterEmail || undefined,
-        labName: extractedData.labName || undefined,
-        projectName: extractedData.projectName || undefined,
-        sequencingType: extractedData.sequencingType || undefined,
-        sampleType: extractedData.sampleType || undefined,
-        libraryType: extractedData.libraryType || undefined,
-        flowCellType: extractedData.flowCellType || undefined,
-        concentration: extractedData.concentration || undefined,
-        volume: extractedData.volume || undefined,
-        purity: extractedData.purity || undefined,
-        fragmentSize: extractedData.fragmentSize || undefined,
-        priority: extractedData.priority || undefined,
-        basecalling: extractedData.basecalling || undefined,
-        demultiplexing: extractedData.demultiplexing || false,
-        referenceGenome: extractedData.referenceGenome || undefined,
-        analysisType: extractedData.analysisType || undefined,
-        dataDelivery: extractedData.dataDelivery || undefined,
+      return {
+        // Fields the model left empty stay unset
+        ...Object.fromEntries(Object.entries(extracted).filter(([, value]) => value !== undefined)),
         confidence: 0.9, // High confidence for LLM extraction
         extractionMethod: 'llm',
         issues: [],
       }
-
-      return formData
     } catch (error) {
       console.error('LLM extraction failed:', error)
       return null
@@ -293,8 +347,11 @@ JSON Response:
    * Extract form data using pattern matching (fallback)
    */
   private extractWithPatterns(rawText: string): NanoporeFormData {
-    // Use the existing pattern matching from pdf-text-extraction
-    const basicFields = pdfTextService.extractStructuredData(rawText) || {}
+    // Use the existing pattern matching from pdf-text-extraction; each field lists its matches, best first
+    const matches: Record<string, PatternMatch[]> = pdfTextService.extractStructuredData(rawText) || {}
+    const basicFields = Object.fromEntries(
+      Object.entries(matches).map(([field, fieldMatches]) => [field, fieldMatches[0]?.value]),
+    ) as Record<string, string | undefined>
 
     // Add Nanopore-specific fields
     const nanoporeFields = this.extractNanoporeSpecificFields(rawText)
@@ -314,13 +371,13 @@ JSON Response:
       volume: nanoporeFields.volume,
       purity: nanoporeFields.purity,
       fragmentSize: nanoporeFields.fragmentSize,
-      priority: (basicFields.priority as any) || nanoporeFields.priority,
+      priority: basicFields.priority || nanoporeFields.priority,
       basecalling: nanoporeFields.basecalling,
       demultiplexing: nanoporeFields.demultiplexing,
       referenceGenome: nanoporeFields.referenceGenome,
       analysisType: nanoporeFields.analysisType,
       dataDelivery: nanoporeFields.dataDelivery,
-      confidence: basicFields.confidence || 0.6,
+      confidence: 0.6,
       extractionMethod: 'pattern',
       issues: [],
     }
@@ -452,6 +509,7 @@ JSON Response:
       analysisType: llmData.analysisType || patternData.analysisType,
       dataDelivery: llmData.dataDelivery || patternData.dataDelivery,
       confidence: Math.max(llmData.confidence, patternData.confidence),
+      fieldConfidence: { ...patternData.fieldConfidence, ...llmData.fieldConfidence },
       extractionMethod: 'hybrid',
       issues: [...(llmData.issues || []), ...(patternData.issues || [])],
     }
@@ -0,0 +1,72 @@
+import { fetchJson, type LLMProvider, type LLMRequest, type LLMResponse } from './llm-provider'
+
+export interface OllamaProviderOptions {
+  host: string
+  model: string
+  embeddingModel: string
+  timeoutMs: number
+}
+
+interface OllamaChatResponse {
+  model: string
+  message: { content: string }
+}
+
+/**
+ * Ollama's native API: /api/chat with format=json for JSON mode, /api/embed and /api/tags
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama'
+
+  constructor(private readonly options: OllamaProviderOptions) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.listModels()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const data = await fetchJson<{ models?: Array<{ name: string }> }>(this.name, `${this.options.host}/api/tags`, {
+      method: 'GET',
+      timeoutMs: Math.min(this.options.timeoutMs, 5000),
+    })
+    return data.models?.map(model => model.name) ?? []
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const started = Date.now()
+    const model = request.model ?? this.options.model
+    const data = await fetchJson<OllamaChatResponse>(this.name, `${this.options.host}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        stream: false,
+        ...(request.json && { format: 'json' }),
+        options: {
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxTokens !== undefined && { num_predict: request.maxTokens }),
+        },
+      }),
+      timeoutMs: this.options.timeoutMs,
+    })
+
+    return { content: data.message.content, model: data.model ?? model, provider: this.name, durationMs: Date.now() - started }
+  }
+
+  async embed(texts: string[], options: { model?: string | undefined } = {}): Promise<number[][]> {
+    if (texts.length === 0) return []
+    const data = await fetchJson<{ embeddings: number[][] }>(this.name, `${this.options.host}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: options.model ?? this.options.embeddingModel, input: texts }),
+      timeoutMs: this.options.timeoutMs,
+    })
+    return data.embeddings
+  }
+}
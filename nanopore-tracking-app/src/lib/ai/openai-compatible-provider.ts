@@ -0,0 +1,89 @@
+import { fetchJson, type LLMProvider, type LLMRequest, type LLMResponse } from './llm-provider'
+
+export interface OpenAICompatibleProviderOptions {
+  // Base URL including the version segment, e.g. http://localhost:8080/v1 for a llama.cpp server
+  baseUrl: string
+  apiKey?: string | undefined
+  model: string
+  embeddingModel: string
+  timeoutMs: number
+}
+
+interface ChatCompletionResponse {
+  model?: string
+  choices: Array<{ message: { content: string | null } }>
+}
+
+/**
+ * Any server speaking the OpenAI REST API: llama.cpp server, vLLM, LM Studio and similar
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible'
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.listModels()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const data = await fetchJson<{ data?: Array<{ id: string }> }>(this.name, this.url('/models'), {
+      method: 'GET',
+      headers: this.headers(),
+      timeoutMs: Math.min(this.options.timeoutMs, 5000),
+    })
+    return data.data?.map(model => model.id) ?? []
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const started = Date.now()
+    const model = request.model ?? this.options.model
+    const data = await fetchJson<ChatCompletionResponse>(this.name, this.url('/chat/completions'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        stream: false,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.json && { response_format: { type: 'json_object' } }),
+      }),
+      timeoutMs: this.options.timeoutMs,
+    })
+
+    return {
+      content: data.choices[0]?.message.content ?? '',
+      model: data.model ?? model,
+      provider: this.name,
+      durationMs: Date.now() - started,
+    }
+  }
+
+  async embed(texts: string[], options: { model?: string | undefined } = {}): Promise<number[][]> {
+    if (texts.length === 0) return []
+    const data = await fetchJson<{ data: Array<{ index: number; embedding: number[] }> }>(this.name, this.url('/embeddings'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: options.model ?? this.options.embeddingModel, input: texts }),
+      timeoutMs: this.options.timeoutMs,
+    })
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+  }
+
+  private url(path: string): string {
+    return `${this.options.baseUrl.replace(/\/+$/, '')}${path}`
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+    }
+  }
+}
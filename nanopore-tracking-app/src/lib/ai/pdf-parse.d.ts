@@ -4,7 +4,19 @@ declare module 'pdf-parse' {
     numpages: number
     info: any
   }
-  
-  function pdfParse(buffer: Buffer): Promise<PdfParseResult>
+
+  interface PdfParseOptions {
+    // Called for each page in order; the returned text becomes that page of the result
+    pagerender?: (pageData: any) => Promise<string>
+    max?: number
+  }
+
+  function pdfParse(buffer: Buffer, options?: PdfParseOptions): Promise<PdfParseResult>
+  export = pdfParse
+}
+
+// The lib entry is the same parser without the debug harness in pdf-parse's index.js
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdfParse = require('pdf-parse')
   export = pdfParse
-} 
\ No newline at end of file
+}
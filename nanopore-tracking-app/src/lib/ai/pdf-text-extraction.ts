@@ -8,6 +8,7 @@ import {
   PATTERN_ONLY_STEPS,
   type ProgressCallback 
 } from '../pdf-progress-tracker'
+import { toPageLayout, type PdfPageLayout } from './pdf-text-layout'
 
 export interface ExtractedPdfData {
   rawText: string
@@ -74,7 +75,8 @@ class PdfTextExtractionService {
    * Initialize PDF parsing modules - using multiple fallback approaches
    */
   private async initializePdfParsers(): Promise<{ server: boolean }> {
-    const results = { server: false }
+    // Already loaded by an earlier call
+    const results = { server: this.isServerSideInitialized }
 
     // Only try server-side initialization with pdf-parse
     if (this.isServerSide && !this.isServerSideInitialized) {
@@ -335,6 +337,27 @@ class PdfTextExtractionService {
     })
   }
 
+  /**
+   * Positions of the text on each page (server-side only)
+   */
+  async extractLayout(content: Buffer): Promise<PdfPageLayout[]> {
+    await this.initializePdfParsers()
+    if (!this.isServerSide || !this.pdfParseModule) {
+      throw new Error('PDF parsing is only available on the server in lightweight version')
+    }
+
+    const pages: PdfPageLayout[] = []
+    await this.pdfParseModule(content, {
+      pagerender: async (pageData: any) => {
+        const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+        pages.push(toPageLayout(pages.length + 1, pageData.getViewport(1), textContent.items))
+        return textContent.items.map((item: { str: string }) => item.str).join(' ')
+      }
+    })
+
+    return pages
+  }
+
   /**
    * Extract structured data from raw text (helper method)
    */
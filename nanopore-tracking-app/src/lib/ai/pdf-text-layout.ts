@@ -0,0 +1,138 @@
+/**
+ * Positions of text on PDF pages, so an extracted value can be shown where the form has it
+ * Coordinates are fractions of the page measured from its top left, independent of render size.
+ */
+
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PdfTextItem extends BoundingBox {
+  text: string
+}
+
+export interface PdfPageLayout {
+  pageNumber: number
+  // Page size in PDF points, for the aspect ratio
+  width: number
+  height: number
+  items: PdfTextItem[]
+}
+
+export interface TextLocation {
+  pageNumber: number
+  boundingBox: BoundingBox
+  // The whole line the value was found on
+  context: string
+}
+
+interface LayoutLine {
+  text: string
+  spans: Array<{ start: number; end: number; item: PdfTextItem }>
+}
+
+const normalize = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+const round = (value: number): number => Math.round(value * 10000) / 10000
+
+/**
+ * Convert pdf.js text content items, whose transforms are in points from the bottom left, to page fractions
+ */
+export function toPageLayout(
+  pageNumber: number,
+  viewport: { width: number; height: number },
+  items: Array<{ str: string; transform: number[]; width: number; height: number }>
+): PdfPageLayout {
+  const { width, height } = viewport
+
+  return {
+    pageNumber,
+    width,
+    height,
+    items: items
+      .filter(item => item.str.trim())
+      .map(item => {
+        const [, , , scaleY = 0, x = 0, baseline = 0] = item.transform
+        const itemHeight = item.height || Math.abs(scaleY)
+        return {
+          text: item.str,
+          x: round(x / width),
+          y: round((height - baseline - itemHeight) / height),
+          width: round(item.width / width),
+          height: round(itemHeight / height),
+        }
+      }),
+  }
+}
+
+/**
+ * Group items that share a baseline into lines, left to right, keeping where each item's text starts
+ */
+function toLines(page: PdfPageLayout): LayoutLine[] {
+  const rows: PdfTextItem[][] = []
+  const sorted = [...page.items].sort((a, b) => a.y - b.y || a.x - b.x)
+  for (const item of sorted) {
+    const row = rows.find(candidate => Math.abs(candidate[0]!.y - item.y) < Math.max(item.height, 0.002) / 2)
+    if (row) {
+      row.push(item)
+    } else {
+      rows.push([item])
+    }
+  }
+
+  return rows.map(row => {
+    const line: LayoutLine = { text: '', spans: [] }
+    for (const item of row.sort((a, b) => a.x - b.x)) {
+      const text = normalize(item.text)
+      if (line.text) line.text += ' '
+      line.spans.push({ start: line.text.length, end: line.text.length + text.length, item })
+      line.text += text
+    }
+    return line
+  })
+}
+
+/**
+ * Find a value on the pages and the box around it
+ * Matching ignores case and spacing; a value that spans lines is not found.
+ */
+export function locateText(pages: PdfPageLayout[], value: string): TextLocation | null {
+  const needle = normalize(value)
+  if (!needle) return null
+
+  for (const page of pages) {
+    for (const line of toLines(page)) {
+      const start = line.text.indexOf(needle)
+      if (start < 0) continue
+      const end = start + needle.length
+
+      // Part of an item is estimated from its share of the item's characters
+      const boxes = line.spans
+        .filter(span => span.start < end && span.end > start)
+        .map(({ start: spanStart, end: spanEnd, item }) => {
+          const length = Math.max(spanEnd - spanStart, 1)
+          const from = Math.max(start - spanStart, 0) / length
+          const to = Math.min(end - spanStart, length) / length
+          return { x: item.x + item.width * from, right: item.x + item.width * to, y: item.y, bottom: item.y + item.height }
+        })
+
+      const x = Math.min(...boxes.map(box => box.x))
+      const y = Math.min(...boxes.map(box => box.y))
+      return {
+        pageNumber: page.pageNumber,
+        boundingBox: {
+          x: round(x),
+          y: round(y),
+          width: round(Math.max(...boxes.map(box => box.right)) - x),
+          height: round(Math.max(...boxes.map(box => box.bottom)) - y),
+        },
+        context: line.spans.map(span => span.item.text.trim()).join(' '),
+      }
+    }
+  }
+
+  return null
+}
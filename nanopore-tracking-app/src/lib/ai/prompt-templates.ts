@@ -0,0 +1,250 @@
+import { z } from 'zod'
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider'
+import { parseJsonOutput } from './llm-provider'
+import { buildFewShotPrompt, type ExtractionExample } from './extraction-review'
+
+/**
+ * Prompts shared by the AI features
+ * Each prompt has an id and a version; change the wording and the version goes up, so recorded answers and
+ * benchmark results are tied to the prompt that produced them. JSON prompts carry the schema their answer is held to.
+ */
+
+type PromptVariables = Record<string, unknown>
+
+interface PromptTemplateBase<V extends PromptVariables> {
+  id: string
+  version: number
+  description: string
+  system?: string | undefined
+  temperature?: number | undefined
+  render(variables: V): string
+}
+
+export interface TextPromptTemplate<V extends PromptVariables> extends PromptTemplateBase<V> {
+  kind: 'text'
+}
+
+export interface JsonPromptTemplate<V extends PromptVariables, T> extends PromptTemplateBase<V> {
+  kind: 'json'
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+}
+
+export type PromptTemplate<V extends PromptVariables = any, T = any> = TextPromptTemplate<V> | JsonPromptTemplate<V, T>
+
+type RequestOverrides = Pick<LLMRequest, 'model' | 'temperature' | 'maxTokens'>
+
+// Models answer numbers for values such as concentration and "" or "null" for fields they did not find
+const formText = z.union([z.string(), z.number()]).nullish().transform(value => {
+  const text = value === null || value === undefined ? '' : String(value).trim()
+  return text && text.toLowerCase() !== 'null' ? text : undefined
+})
+
+export const nanoporeFormAnswerSchema = z.object({
+  sampleName: formText,
+  submitterName: formText,
+  submitterEmail: formText,
+  labName: formText,
+  projectName: formText,
+  sequencingType: formText,
+  sampleType: formText,
+  libraryType: formText,
+  flowCellType: formText,
+  concentration: formText,
+  volume: formText,
+  purity: formText,
+  fragmentSize: formText,
+  priority: formText,
+  basecalling: formText,
+  demultiplexing: z.union([z.boolean(), z.string()]).nullish().transform(value =>
+    typeof value === 'string' ? value.toLowerCase() === 'true' : Boolean(value)
+  ),
+  referenceGenome: formText,
+  analysisType: formText,
+  dataDelivery: formText,
+})
+
+export type NanoporeFormAnswer = z.infer<typeof nanoporeFormAnswerSchema>
+
+export const nanoporeFormExtractionPrompt: JsonPromptTemplate<{ text: string; examples: ExtractionExample[] }, NanoporeFormAnswer> = {
+  kind: 'json',
+  id: 'nanopore-form-extraction',
+  version: 1,
+  description: 'Read the fields of a nanopore submission form from its PDF text',
+  temperature: 0.1,
+  schema: nanoporeFormAnswerSchema,
+  render: ({ text, examples }) => `
+You are an expert at extracting information from Oxford Nanopore sequencing submission forms.
+Analyze the following PDF text and extract the relevant form fields.
+
+${buildFewShotPrompt(examples)}
+PDF Text:
+${text}
+
+Please extract the following information and return it as a JSON object:
+
+{
+  "sampleName": "string - sample identifier",
+  "submitterName": "string - person submitting the sample",
+  "submitterEmail": "string - contact email",
+  "labName": "string - laboratory or department name",
+  "projectName": "string - project or study name",
+  "sequencingType": "DNA|RNA|cDNA|Other - type of sequencing",
+  "sampleType": "Genomic DNA|Plasmid|PCR Product|Other - sample type",
+  "libraryType": "Ligation|Rapid|PCR-free|Other - library preparation method",
+  "flowCellType": "MinION|GridION|PromethION|Flongle|Other - flow cell type",
+  "concentration": "string - sample concentration with units",
+  "volume": "string - sample volume with units",
+  "purity": "string - purity measurements (A260/A280, etc.)",
+  "fragmentSize": "string - fragment size information",
+  "priority": "Standard|High|Rush - processing priority",
+  "basecalling": "Standard|High Accuracy|Fast - basecalling method",
+  "demultiplexing": "boolean - whether demultiplexing is needed",
+  "referenceGenome": "string - reference genome if specified",
+  "analysisType": "string - type of analysis requested",
+  "dataDelivery": "Raw|Processed|Both - data delivery preference"
+}
+
+Rules:
+1. Only extract information that is clearly present in the text
+2. Use null for fields that cannot be determined
+3. Normalize values to the specified options where possible
+4. Be conservative - if unsure, use null
+5. Return valid JSON only
+
+JSON Response:
+`,
+}
+
+export const sampleValidationPrompt: JsonPromptTemplate<{ sample: Record<string, unknown> }, { isValid: boolean; issues: string[]; suggestions: string[] }> = {
+  kind: 'json',
+  id: 'sample-validation',
+  version: 1,
+  description: 'Review sample data for missing, malformed or incompatible values',
+  temperature: 0.1,
+  schema: z.object({
+    isValid: z.boolean(),
+    issues: z.array(z.string()).default([]),
+    suggestions: z.array(z.string()).default([]),
+  }),
+  render: ({ sample }) => `
+You are a nanopore sequencing quality control specialist.
+Validate the following sample data and provide feedback:
+
+${JSON.stringify(sample, null, 2)}
+
+Check for:
+1. Required fields completeness
+2. Data format correctness
+3. Realistic values for concentration, volume, etc.
+4. Compatibility between sample type and flow cell
+5. Appropriate analysis type for sample
+
+Return JSON with:
+- isValid: boolean
+- issues: array of problems found
+- suggestions: array of recommendations
+`,
+}
+
+export interface SettingsSuggestion {
+  flowCellType?: string | undefined
+  libraryKit?: string | undefined
+  basecallingModel?: string | undefined
+  analysisType?: string | undefined
+  runTime?: string | undefined
+  reasoning: string
+}
+
+export const settingsSuggestionPrompt: JsonPromptTemplate<{ sample: Record<string, unknown> }, SettingsSuggestion> = {
+  kind: 'json',
+  id: 'settings-suggestion',
+  version: 1,
+  description: 'Recommend flow cell, library kit, basecalling model and analysis for a sample',
+  temperature: 0.2,
+  schema: z.object({
+    flowCellType: formText,
+    libraryKit: formText,
+    basecallingModel: formText,
+    analysisType: formText,
+    runTime: formText,
+    reasoning: z.string().default(''),
+  }),
+  render: ({ sample }) => `
+You are a nanopore sequencing optimization expert.
+Based on the sample data below, suggest optimal sequencing settings:
+
+${JSON.stringify(sample, null, 2)}
+
+Consider:
+- Sample type and expected fragment size
+- Concentration and volume available
+- Desired analysis outcome
+- Cost-effectiveness
+
+Return a JSON object with these keys:
+- flowCellType: best flow cell type (MinION, GridION, PromethION)
+- libraryKit: optimal library prep kit
+- basecallingModel: appropriate basecalling model
+- analysisType: suitable analysis pipeline
+- runTime: estimated run time
+- reasoning: why these settings suit the sample
+`,
+}
+
+export const healthCheckPrompt: TextPromptTemplate<Record<string, never>> = {
+  kind: 'text',
+  id: 'health-check',
+  version: 1,
+  description: 'Confirm the model answers at all',
+  temperature: 0,
+  render: () => 'Hello, respond with "OK"',
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  nanoporeFormExtractionPrompt,
+  sampleValidationPrompt,
+  settingsSuggestionPrompt,
+  healthCheckPrompt,
+]
+
+/**
+ * Turn a template into a provider request that remembers which prompt it came from
+ */
+export function renderPrompt<V extends PromptVariables>(
+  template: PromptTemplate<V>,
+  variables: V,
+  overrides: RequestOverrides = {}
+): LLMRequest {
+  return {
+    messages: [
+      ...(template.system ? [{ role: 'system' as const, content: template.system }] : []),
+      { role: 'user', content: template.render(variables) },
+    ],
+    temperature: template.temperature,
+    json: template.kind === 'json',
+    prompt: { id: template.id, version: template.version, variables },
+    ...overrides,
+  }
+}
+
+/**
+ * Run a JSON prompt and return its answer once it matches the template's schema
+ */
+export async function completeJson<V extends PromptVariables, T>(
+  provider: LLMProvider,
+  template: JsonPromptTemplate<V, T>,
+  variables: V,
+  overrides: RequestOverrides = {}
+): Promise<T> {
+  const response = await provider.chat(renderPrompt(template, variables, overrides))
+  return parseJsonOutput(response.content, template.schema, `${template.id}@${template.version}`)
+}
+
+export async function completeText<V extends PromptVariables>(
+  provider: LLMProvider,
+  template: TextPromptTemplate<V>,
+  variables: V,
+  overrides: RequestOverrides = {}
+): Promise<LLMResponse> {
+  return await provider.chat(renderPrompt(template, variables, overrides))
+}
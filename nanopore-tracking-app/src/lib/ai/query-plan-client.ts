@@ -0,0 +1,52 @@
+import { aiConfig } from '../config'
+import { fetchJson } from './llm-provider'
+import type { QueryFieldDescription } from './sample-query-plan'
+
+export interface QueryPlanClientOptions {
+  // Same AI_SERVICE_URL the API gateway routes ai-processing requests to
+  serviceUrl: string
+  timeoutMs: number
+}
+
+export interface QueryPlanRequest {
+  question: string
+  // Date relative questions count from, e.g. 2026-10-19
+  today: string
+  fields: QueryFieldDescription[]
+}
+
+export interface QueryPlanResponse {
+  // The model's JSON plan, unparsed
+  answer: string
+  model: string
+  // Prompt id and version the plan came from, e.g. sample-query-plan@1
+  prompt: string
+}
+
+export interface SampleQueryPlanner {
+  plan(request: QueryPlanRequest): Promise<QueryPlanResponse>
+}
+
+/**
+ * Query plans from the AI processing service's /api/query/plan endpoint
+ * The service writes the planning prompt and runs it on its own model; only the question, the date and the
+ * fields a plan may use are sent, so the answer still has to be checked against sampleQueryPlanSchema.
+ */
+export class QueryPlanClient implements SampleQueryPlanner {
+  readonly name = 'ai-processing'
+
+  constructor(
+    private readonly options: QueryPlanClientOptions = { serviceUrl: aiConfig.serviceUrl, timeoutMs: aiConfig.timeout }
+  ) {}
+
+  async plan(request: QueryPlanRequest): Promise<QueryPlanResponse> {
+    const data = await fetchJson<QueryPlanResponse>(this.name, `${this.options.serviceUrl.replace(/\/+$/, '')}/api/query/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      timeoutMs: this.options.timeoutMs,
+    })
+
+    return { answer: data.answer, model: data.model, prompt: data.prompt }
+  }
+}
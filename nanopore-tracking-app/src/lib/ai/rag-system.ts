@@ -278,9 +278,11 @@ class RAGSystem {
     ragInsights: RAGResult
     recommendations: string[]
   }> {
+    // Only form values are matched; metadata such as per-field confidence would otherwise be
+    // stringified into whichever field its key resembles
     const pairs = Object.entries(extractedData)
-      .filter(([_, value]) => value !== null && value !== undefined && value !== '')
-      .map(([key, value]) => ({ key, value: String(value) }))
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+      .map(([key, value]) => ({ key, value }))
 
     const ragResult = await this.processExtractedText(pairs)
     const recommendations: string[] = []
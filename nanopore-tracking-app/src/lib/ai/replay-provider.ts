@@ -0,0 +1,156 @@
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider'
+import { ExternalServiceError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * Deterministic stand-in for a language model
+ * Answers come from recordings, then from an optional responder function; in record mode a miss is sent to a
+ * live provider and its answer kept. Embeddings are hashed from the words of each text, so similarity is stable
+ * without a model. Used by tests and for running AI features offline.
+ */
+
+export interface LLMRecording {
+  key: string
+  // Prompt id@version, or null for a free-form chat
+  prompt: string | null
+  response: string
+}
+
+export type LLMResponder = (request: LLMRequest) => string | undefined
+
+export interface ReplayProviderOptions {
+  recordings?: LLMRecording[] | undefined
+  // JSON file of recordings, read on first use
+  file?: string | undefined
+  respond?: LLMResponder | undefined
+  // Live provider asked when nothing matches; its answers are added to the recordings
+  record?: LLMProvider | undefined
+  embeddingDimensions?: number | undefined
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 256
+
+// JSON with sorted keys, so equal variables give equal keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+// 32-bit FNV-1a; two seeds give a 64-bit key without pulling node:crypto into browser bundles
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Key a request by its prompt template and variables, or by its messages when it has no template.
+ * The model is left out so a recording made with one model replays under another.
+ */
+export function recordingKey(request: LLMRequest): string {
+  const material = request.prompt
+    ? stableStringify({ prompt: `${request.prompt.id}@${request.prompt.version}`, variables: request.prompt.variables })
+    : stableStringify({ messages: request.messages, json: Boolean(request.json) })
+  return fnv1a(material).toString(16).padStart(8, '0') + fnv1a(material, 0x9747b28c).toString(16).padStart(8, '0')
+}
+
+/**
+ * Unit-length vector of hashed word counts; texts sharing words point the same way
+ */
+export function hashEmbedding(text: string, dimensions = DEFAULT_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = fnv1a(word)
+    vector[hash % dimensions]! += hash & 0x80000000 ? -1 : 1
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length === 0 ? vector : vector.map(value => value / length)
+}
+
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name = 'replay'
+  private readonly recordings = new Map<string, LLMRecording>()
+  private loaded: Promise<void> | null = null
+
+  constructor(private readonly options: ReplayProviderOptions = {}) {
+    for (const recording of options.recordings ?? []) {
+      this.recordings.set(recording.key, recording)
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.options.record ? await this.options.record.listModels() : [this.name]
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    await this.load()
+    const started = Date.now()
+    const key = recordingKey(request)
+    const prompt = request.prompt ? `${request.prompt.id}@${request.prompt.version}` : null
+    const answer = (content: string, model: string): LLMResponse =>
+      ({ content, model, provider: this.name, durationMs: Date.now() - started })
+
+    const recorded = this.recordings.get(key)
+    if (recorded) return answer(recorded.response, this.name)
+
+    const responded = this.options.respond?.(request)
+    if (responded !== undefined) return answer(responded, this.name)
+
+    if (this.options.record) {
+      const live = await this.options.record.chat(request)
+      this.recordings.set(key, { key, prompt, response: live.content })
+      return live
+    }
+
+    throw new ExternalServiceError(
+      this.name,
+      `No recorded response for ${prompt ?? 'this chat'} (key ${key}); record one against a live provider first`
+    )
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashEmbedding(text, this.options.embeddingDimensions))
+  }
+
+  /**
+   * Recordings made so far, in the shape the file option reads
+   */
+  get recorded(): LLMRecording[] {
+    return [...this.recordings.values()]
+  }
+
+  async save(file = this.options.file): Promise<void> {
+    if (!file) throw new Error('No recording file given')
+    const { writeFile } = await import('node:fs/promises')
+    await writeFile(file, `${JSON.stringify(this.recorded, null, 2)}\n`)
+  }
+
+  private async load(): Promise<void> {
+    const file = this.options.file
+    if (!file) return
+    this.loaded ??= (async () => {
+      const { readFile } = await import('node:fs/promises')
+      let content: string
+      try {
+        content = await readFile(file, 'utf8')
+      } catch (error) {
+        // A new recording session starts without a file
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT' && this.options.record) return
+        throw new ExternalServiceError(this.name, `Cannot read recordings from ${file}`, error instanceof Error ? error : undefined)
+      }
+      for (const recording of JSON.parse(content) as LLMRecording[]) {
+        if (!this.recordings.has(recording.key)) this.recordings.set(recording.key, recording)
+      }
+    })()
+    await this.loaded
+  }
+}
@@ -0,0 +1,260 @@
+import { z } from 'zod'
+import { SAMPLE_STATUSES } from '@app/utils'
+
+/**
+ * Structured queries over samples, their details and processing steps
+ * The query assistant asks the model for a plan in this shape and nothing else. Fields and operators come from
+ * the fixed lists below, and the repository maps each field to its column itself, so a plan can only narrow,
+ * count or group samples; it never carries SQL.
+ */
+
+export type QueryFieldType = 'enum' | 'text' | 'number' | 'date' | 'boolean'
+
+export interface QueryField {
+  label: string
+  type: QueryFieldType
+  // Table the field lives in: the sample itself or its one row of sequencing details
+  source: 'sample' | 'details'
+  column: string
+  values?: readonly string[] | undefined
+  // Shown to the model next to the field name
+  hint?: string | undefined
+}
+
+export const SAMPLE_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const
+export const SLA_RISKS = ['on_track', 'at_risk', 'breached'] as const
+export const STEP_STATUSES = ['pending', 'in_progress', 'completed', 'failed', 'skipped'] as const
+
+export const SAMPLE_QUERY_FIELDS = {
+  sampleName: { label: 'Sample name', type: 'text', source: 'sample', column: 'sample_name' },
+  projectId: { label: 'Project', type: 'text', source: 'sample', column: 'project_id' },
+  submitterName: { label: 'Submitter', type: 'text', source: 'sample', column: 'submitter_name' },
+  submitterEmail: { label: 'Submitter email', type: 'text', source: 'sample', column: 'submitter_email' },
+  labName: { label: 'Lab', type: 'text', source: 'sample', column: 'lab_name', hint: 'e.g. "Smith Lab"' },
+  sampleType: { label: 'Sample type', type: 'text', source: 'sample', column: 'sample_type' },
+  flowCellType: { label: 'Flow cell type', type: 'text', source: 'sample', column: 'flow_cell_type' },
+  flowCellCount: { label: 'Flow cells', type: 'number', source: 'sample', column: 'flow_cell_count' },
+  concentration: { label: 'Concentration', type: 'number', source: 'sample', column: 'concentration', hint: 'ng/uL' },
+  volume: { label: 'Volume', type: 'number', source: 'sample', column: 'volume', hint: 'uL' },
+  status: { label: 'Status', type: 'enum', source: 'sample', column: 'status', values: SAMPLE_STATUSES },
+  priority: { label: 'Priority', type: 'enum', source: 'sample', column: 'priority', values: SAMPLE_PRIORITIES },
+  slaRisk: { label: 'SLA risk', type: 'enum', source: 'sample', column: 'sla_risk', values: SLA_RISKS },
+  assignedTo: { label: 'Assigned to', type: 'text', source: 'sample', column: 'assigned_to' },
+  libraryPrepBy: { label: 'Library prep by', type: 'text', source: 'sample', column: 'library_prep_by' },
+  submittedAt: { label: 'Submitted', type: 'date', source: 'sample', column: 'submitted_at' },
+  startedAt: { label: 'Prep started', type: 'date', source: 'sample', column: 'started_at', hint: 'set when the sample enters prep' },
+  completedAt: { label: 'Completed', type: 'date', source: 'sample', column: 'completed_at' },
+  updatedAt: { label: 'Last updated', type: 'date', source: 'sample', column: 'updated_at' },
+  projectedCompletionAt: { label: 'Projected completion', type: 'date', source: 'sample', column: 'projected_completion_at' },
+  organism: { label: 'Organism', type: 'text', source: 'details', column: 'organism' },
+  genomeSize: { label: 'Genome size', type: 'text', source: 'details', column: 'genome_size' },
+  libraryPrepKit: { label: 'Library prep kit', type: 'text', source: 'details', column: 'library_prep_kit' },
+  barcodingRequired: { label: 'Barcoding', type: 'boolean', source: 'details', column: 'barcoding_required' },
+  basecallingModel: { label: 'Basecalling model', type: 'text', source: 'details', column: 'basecalling_model' },
+  runTimeHours: { label: 'Run time (h)', type: 'number', source: 'details', column: 'run_time_hours' },
+  qcPassed: { label: 'QC passed', type: 'boolean', source: 'details', column: 'qc_passed' },
+} as const satisfies Record<string, QueryField>
+
+export type SampleQueryFieldName = keyof typeof SAMPLE_QUERY_FIELDS
+
+const FIELD_NAMES = Object.keys(SAMPLE_QUERY_FIELDS) as [SampleQueryFieldName, ...SampleQueryFieldName[]]
+
+// Results are grouped by fields with a short list of values; free text such as sample names would give one group per row
+export const GROUPABLE_FIELDS = [
+  'status',
+  'priority',
+  'slaRisk',
+  'labName',
+  'sampleType',
+  'flowCellType',
+  'assignedTo',
+  'organism',
+  'libraryPrepKit',
+  'qcPassed',
+] as const satisfies readonly SampleQueryFieldName[]
+
+export const QUERY_OPERATORS = {
+  eq: 'is',
+  neq: 'is not',
+  in: 'is one of',
+  contains: 'contains',
+  gt: 'more than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+  olderThanDays: 'more than N days ago',
+  withinDays: 'within the last N days',
+  before: 'before',
+  after: 'after',
+  isNull: 'is not set',
+  notNull: 'is set',
+} as const
+
+export type QueryOperator = keyof typeof QUERY_OPERATORS
+
+const OPERATORS_BY_TYPE: Record<QueryFieldType, readonly QueryOperator[]> = {
+  enum: ['eq', 'neq', 'in'],
+  text: ['eq', 'neq', 'in', 'contains', 'isNull', 'notNull'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'isNull', 'notNull'],
+  date: ['olderThanDays', 'withinDays', 'before', 'after', 'isNull', 'notNull'],
+  boolean: ['eq', 'isNull', 'notNull'],
+}
+
+export const MAX_QUERY_LIMIT = 200
+
+const queryValue = z.union([
+  z.string().trim().min(1).max(100),
+  z.number().finite(),
+  z.boolean(),
+  z.array(z.string().trim().min(1).max(100)).min(1).max(20),
+])
+
+const queryFilterSchema = z.object({
+  field: z.enum(FIELD_NAMES),
+  op: z.enum(Object.keys(QUERY_OPERATORS) as [QueryOperator, ...QueryOperator[]]),
+  // Models answer null for operators that take no value
+  value: queryValue.nullish().transform(value => value ?? undefined),
+}).superRefine((filter, ctx) => {
+  const problem = filterProblem(filter)
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ['value'] })
+  }
+})
+
+export type SampleQueryFilter = z.infer<typeof queryFilterSchema>
+
+const stepFilterSchema = z.object({
+  name: z.string().trim().min(1).max(100).nullish().transform(value => value ?? undefined),
+  status: z.enum(STEP_STATUSES).nullish().transform(value => value ?? undefined),
+}).refine(step => step.name !== undefined || step.status !== undefined, {
+  message: 'A step condition needs a step name, a step status or both',
+})
+
+export type SampleQueryStepFilter = z.infer<typeof stepFilterSchema>
+
+export const sampleQueryPlanSchema = z.object({
+  filters: z.array(queryFilterSchema).max(20).default([]),
+  // Samples with at least one processing step matching each entry
+  steps: z.array(stepFilterSchema).max(5).default([]),
+  output: z.enum(['list', 'count', 'groupBy']).default('list'),
+  groupBy: z.enum(GROUPABLE_FIELDS).nullish().transform(value => value ?? undefined),
+  sort: z.object({
+    field: z.enum(FIELD_NAMES),
+    direction: z.enum(['asc', 'desc']).default('desc'),
+  }).nullish().transform(value => value ?? undefined),
+  limit: z.number().int().min(1).default(50).transform(limit => Math.min(limit, MAX_QUERY_LIMIT)),
+}).superRefine((plan, ctx) => {
+  if (plan.output === 'groupBy' && !plan.groupBy) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Grouped results need a groupBy field', path: ['groupBy'] })
+  }
+})
+
+export type SampleQueryPlan = z.infer<typeof sampleQueryPlanSchema>
+
+export type SampleQueryRow = {
+  id: string
+  sample_name: string
+  submitter_name: string
+  lab_name: string | null
+  sample_type: string
+  status: string
+  priority: string
+  sla_risk: string | null
+  assigned_to: string | null
+  submitted_at: Date
+  started_at: Date | null
+}
+
+export type SampleQueryResult =
+  | { output: 'list'; total: number; rows: SampleQueryRow[] }
+  | { output: 'count'; total: number }
+  | { output: 'groupBy'; total: number; groupBy: SampleQueryFieldName; groups: { value: string | null; count: number }[] }
+
+function filterProblem(filter: { field: SampleQueryFieldName; op: QueryOperator; value?: unknown }): string | null {
+  const field: QueryField = SAMPLE_QUERY_FIELDS[filter.field]
+  const { value } = filter
+
+  if (!OPERATORS_BY_TYPE[field.type].includes(filter.op)) {
+    return `"${filter.op}" cannot be used on ${filter.field}`
+  }
+  if (filter.op === 'isNull' || filter.op === 'notNull') {
+    return null
+  }
+  if (value === undefined) {
+    return `${filter.field} ${filter.op} needs a value`
+  }
+  if (filter.op === 'in') {
+    if (!Array.isArray(value)) return `${filter.field} in needs a list of values`
+  } else if (Array.isArray(value)) {
+    return `${filter.field} ${filter.op} takes a single value`
+  }
+
+  switch (field.type) {
+    case 'enum': {
+      const unknown = (Array.isArray(value) ? value : [value]).find(item => !field.values!.includes(String(item)))
+      return unknown === undefined ? null : `${String(unknown)} is not a valid ${filter.field}; use one of ${field.values!.join(', ')}`
+    }
+    case 'text':
+      return typeof value === 'string' || Array.isArray(value) ? null : `${filter.field} needs a text value`
+    case 'number':
+      return typeof value === 'number' ? null : `${filter.field} needs a number`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${filter.field} needs true or false`
+    case 'date':
+      if (filter.op === 'olderThanDays' || filter.op === 'withinDays') {
+        return typeof value === 'number' && value >= 0 && value <= 3650 ? null : `${filter.field} ${filter.op} needs a number of days`
+      }
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : `${filter.field} needs a date such as 2026-01-31`
+  }
+}
+
+export interface QueryFieldDescription {
+  name: SampleQueryFieldName
+  type: QueryFieldType
+  values?: readonly string[] | undefined
+  hint?: string | undefined
+  operators: readonly QueryOperator[]
+}
+
+/**
+ * Field and operator reference the model plans from; column mappings stay here
+ */
+export function describeQueryFields(): QueryFieldDescription[] {
+  return FIELD_NAMES.map((name) => {
+    const field: QueryField = SAMPLE_QUERY_FIELDS[name]
+    return {
+      name,
+      type: field.type,
+      ...(field.values && { values: field.values }),
+      ...(field.hint && { hint: field.hint }),
+      operators: OPERATORS_BY_TYPE[field.type],
+    }
+  })
+}
+
+/**
+ * Readable conditions for the user to check before the plan runs, e.g. "Priority is urgent"
+ */
+export function describeQueryPlan(plan: SampleQueryPlan): string[] {
+  const conditions = plan.filters.map((filter) => {
+    const field = SAMPLE_QUERY_FIELDS[filter.field]
+    const value = Array.isArray(filter.value) ? filter.value.join(', ') : filter.value
+    switch (filter.op) {
+      case 'olderThanDays':
+        return `${field.label} more than ${value} days ago`
+      case 'withinDays':
+        return `${field.label} within the last ${value} days`
+      case 'isNull':
+      case 'notNull':
+        return `${field.label} ${QUERY_OPERATORS[filter.op]}`
+      default:
+        return `${field.label} ${QUERY_OPERATORS[filter.op]} ${typeof value === 'boolean' ? (value ? 'yes' : 'no') : value}`
+    }
+  })
+
+  for (const step of plan.steps) {
+    const name = step.name ? `"${step.name}"` : 'any'
+    conditions.push(`Has ${name} step${step.status ? ` ${step.status.replace('_', ' ')}` : ''}`)
+  }
+  return conditions
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { router, adminProcedure } from '../trpc'
+import { getEmailNotificationService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { EMAIL_MILESTONES, emailTemplateSchema } from '../notifications/EmailNotifications'
+import { startEmailDispatcher } from '../notifications/EmailDispatcher'
+import { emailConfig } from '../config'
+
+// Routers load once on the server, so events start queueing emails here; sending waits for ENABLE_EMAIL
+getEmailNotificationService().start()
+if (emailConfig.enabled) {
+  startEmailDispatcher(getEmailNotificationService())
+}
+
+const templateKeySchema = z.enum(EMAIL_MILESTONES)
+
+export const emailNotificationsRouter = router({
+  // Every milestone's template, with the built-in default where none was saved
+  listTemplates: adminProcedure.query(async ({ ctx }) => {
+    try {
+      return await getEmailNotificationService().listTemplates()
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  updateTemplate: adminProcedure
+    .input(z.object({ templateKey: templateKeySchema, template: emailTemplateSchema }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getEmailNotificationService().updateTemplate(input.templateKey, input.template, ctx.adminSession.username)
+        return { success: true }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Drop the saved template so the default applies again
+  resetTemplate: adminProcedure
+    .input(templateKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getEmailNotificationService().resetTemplate(input)
+        return { success: true }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  previewTemplate: adminProcedure
+    .input(z.object({ template: emailTemplateSchema, sampleId: z.string().uuid().optional() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getEmailNotificationService().previewTemplate(input.template, input.sampleId)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Counts by status and the most recent messages
+  outbox: adminProcedure.query(async ({ ctx }) => {
+    try {
+      return await getEmailNotificationService().outbox()
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  retry: adminProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getEmailNotificationService().retry(input)
+        return { success: true }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  getPreference: adminProcedure
+    .input(z.string().email())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getEmailNotificationService().getPreference(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  setPreference: adminProcedure
+    .input(z.object({
+      email: z.string().email(),
+      optedOut: z.boolean().optional(),
+      digest: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getEmailNotificationService().setPreference(input.email, input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
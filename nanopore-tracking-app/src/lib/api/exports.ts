@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { router, protectedProcedure, sampleProcedure } from '../trpc'
+import { actorName } from '../auth/SampleAccess'
+import { getExportService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportFiltersSchema,
+} from '../export/ExportEngine'
+
+// File downloads stream from /api/export; this router covers the column picker and presets
+export const exportsRouter = router({
+  listColumns: protectedProcedure.query(() => ({
+    columns: EXPORT_COLUMNS.map(({ key, label, group }) => ({ key, label, group })),
+    defaultColumns: DEFAULT_EXPORT_COLUMNS,
+  })),
+
+  // Number of samples the filters match, for the export preview
+  count: sampleProcedure
+    .meta({ permission: 'sample:export' })
+    .input(exportFiltersSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getExportService().countMatching(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  listPresets: sampleProcedure
+    .meta({ permission: 'sample:export' })
+    .query(async ({ ctx }) => {
+      try {
+        return await getExportService().listPresets()
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Saving under an existing name replaces that preset
+  savePreset: sampleProcedure
+    .meta({ permission: 'sample:export' })
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      description: z.string().max(500).optional(),
+      columns: z.array(z.string().min(1)).min(1).max(200),
+      filters: exportFiltersSchema.default({}),
+      format: z.enum(EXPORT_FORMATS),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getExportService().savePreset({ ...input, createdBy: actorName(ctx.user) })
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  deletePreset: sampleProcedure
+    .meta({ permission: 'sample:export' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getExportService().deletePreset(input)
+        return { success: true }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { router, sampleProcedure } from '../trpc'
+import { getExtractionReviewService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { validateChartField } from '../../middleware/validation/ValidationRules'
+
+// Reviewing creates samples for other people, so it is limited to lab staff
+const reviewerProcedure = sampleProcedure.meta({ permission: 'intake:review' })
+
+export const extractionReviewsRouter = router({
+  // Pending reviews start with the least certain extraction
+  list: reviewerProcedure
+    .input(z.object({
+      status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+      limit: z.number().int().min(1).max(200).default(50),
+    }).default({}))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().list(input.status, input.limit)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  get: reviewerProcedure
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().get(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  pageLayout: reviewerProcedure
+    .input(z.object({ id: z.string().uuid(), pageNumber: z.number().int().min(1) }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().pageLayout(input.id, input.pageNumber)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Forms arrive base64-encoded; 14MB of base64 is roughly a 10MB file
+  submit: reviewerProcedure
+    .input(z.object({
+      fileName: z.string().min(1).max(255),
+      contentBase64: z.string().min(1).max(14_000_000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().submit(input.fileName, Buffer.from(input.contentBase64, 'base64'), ctx.user)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  decideField: reviewerProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      fieldName: z.string().min(1).max(50),
+      decision: z.enum(['accepted', 'edited', 'rejected']),
+      value: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().decideField(input.id, input.fieldName, input.decision, input.value, ctx.user)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  approve: reviewerProcedure
+    .input(z.object({ id: z.string().uuid(), chartField: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!validateChartField(input.chartField)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Invalid chart field: ${input.chartField}. Chart field must be part of the intake validation list.`,
+          })
+        }
+        return await getExtractionReviewService().approve(input.id, input.chartField, ctx.user)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  reject: reviewerProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getExtractionReviewService().reject(input, ctx.user)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,134 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getFlowCellRepository } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { actorName } from '../auth/SampleAccess'
+import { FLOW_CELL_STATUSES, FLOW_CELL_TYPES, summarizeInventory } from '../inventory/FlowCellInventory'
+
+export const flowCellsRouter = router({
+  // List flow cells, soonest expiry first
+  list: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({ status: z.enum(FLOW_CELL_STATUSES).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().findAll(input?.status)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Stock levels with low-stock and near-expiry warnings
+  getSummary: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .query(async ({ ctx }) => {
+      try {
+        const flowCells = await getFlowCellRepository().findAll()
+        return summarizeInventory(flowCells, new Date())
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Every sample a flow cell has been used for, across wash cycles
+  getUsageHistory: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().findUsagesByFlowCell(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Receive a new flow cell into stock
+  receive: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      serialNumber: z.string().min(1).max(50),
+      lotNumber: z.string().min(1).max(50),
+      flowCellType: z.enum(FLOW_CELL_TYPES),
+      expiryDate: z.coerce.date(),
+      notes: z.string().max(1000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().create(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  recordPoreCheck: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      flowCellId: z.string().uuid(),
+      poreCount: z.number().int().nonnegative(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().recordPoreCheck(input.flowCellId, input.poreCount, actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Reserve specific flow cells for a sample instead of the automatic pick
+  reserve: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      sampleId: z.string().uuid(),
+      flowCellType: z.enum(FLOW_CELL_TYPES),
+      flowCellIds: z.array(z.string().uuid()).min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().reserveForSample(
+          input.sampleId,
+          input.flowCellType,
+          input.flowCellIds.length,
+          input.flowCellIds
+        )
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  markInUse: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().markInUse(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Close a run: wash the flow cell for reuse or mark it spent
+  finishRun: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      flowCellId: z.string().uuid(),
+      outcome: z.enum(['washed', 'spent']),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().finishRun(input.flowCellId, input.outcome)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  retire: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFlowCellRepository().retire(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,66 @@
+import { z } from 'zod'
+import { router, protectedProcedure, adminProcedure } from '../trpc'
+import { getFormTemplateService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { formTemplateDefinitionSchema } from '../ai/form-template-registry'
+import { getComponentLogger } from '../logging/StructuredLogger'
+
+// Sample PDFs arrive base64-encoded; 14MB of base64 is roughly a 10MB file
+const samplePdfInput = z.object({
+  fileName: z.string().min(1).max(255),
+  contentBase64: z.string().min(1).max(14_000_000),
+})
+
+// Registered layouts join the builtins for server-side extraction once the API is loaded
+getFormTemplateService().loadRegistered().catch((error) => {
+  getComponentLogger('FormTemplatesRouter').warn('Failed to load registered PDF form templates', {
+    action: 'pdf_form_templates_load_failed',
+    metadata: { error: error instanceof Error ? error.message : 'Unknown error' }
+  })
+})
+
+export const formTemplatesRouter = router({
+  // Also used by the PDF upload to add registered layouts to the browser's registry
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getFormTemplateService().list()
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  // Propose fingerprint and field layout from a sample of a new form; nothing is stored
+  draftFromPdf: adminProcedure
+    .input(samplePdfInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFormTemplateService().draftFromPdf(input.fileName, Buffer.from(input.contentBase64, 'base64'))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  register: adminProcedure
+    .input(z.object({
+      templateKey: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
+      name: z.string().min(1).max(200),
+      definition: formTemplateDefinitionSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFormTemplateService().register(input, ctx.adminSession.username)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  retire: adminProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getFormTemplateService().retire(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
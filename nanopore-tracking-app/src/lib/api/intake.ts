@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getBulkIntakeService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { INTAKE_FIELD_NAMES, type IntakeField } from '../intake/BulkIntake'
+
+// Spreadsheets arrive base64-encoded; 7MB of base64 is roughly a 5MB file
+const spreadsheetInput = z.object({
+  fileName: z.string().min(1).max(255),
+  contentBase64: z.string().min(1).max(7_000_000),
+  mapping: z.record(
+    z.enum(INTAKE_FIELD_NAMES as [IntakeField, ...IntakeField[]]),
+    z.number().int().min(0)
+  ).optional(),
+})
+
+export const intakeRouter = router({
+  // Column mapping and row-level validation, nothing is written
+  preview: sampleProcedure
+    .meta({ permission: 'sample:import' })
+    .input(spreadsheetInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return getBulkIntakeService().preview(input.fileName, Buffer.from(input.contentBase64, 'base64'), input.mapping)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Create all valid rows in one transaction and report the rejected ones
+  commit: sampleProcedure
+    .meta({ permission: 'sample:import' })
+    .input(spreadsheetInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getBulkIntakeService().commit(input.fileName, Buffer.from(input.contentBase64, 'base64'), input.mapping)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
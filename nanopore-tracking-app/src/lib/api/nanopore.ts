@@ -1,41 +1,49 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure, sampleProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { getSampleService } from '../../container'
+import { getSampleService, getTurnaroundForecastService } from '../../container'
 import { handleTRPCProcedureError, withErrorHandling, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { actorName, filterVisibleSamples, recordedOwner } from '../auth/SampleAccess'
+import { startForecastRefreshJob } from '../workflow/ForecastRefreshJob'
 import { 
   createSampleValidation, 
   updateSampleValidation, 
   assignSampleValidation, 
   updateStatusValidation,
   searchValidation,
-  validators 
+  validateChartField
 } from '../../middleware/validation/ValidationRules'
 
-// Valid chart fields for intake validation
-const VALID_CHART_FIELDS = [
-  'HTSF-001', 'HTSF-002', 'HTSF-003', 'HTSF-004', 'HTSF-005',
-  'NANO-001', 'NANO-002', 'NANO-003', 'NANO-004', 'NANO-005',
-  'SEQ-001', 'SEQ-002', 'SEQ-003', 'SEQ-004', 'SEQ-005'
-]
-
-function validateChartField(chartField: string): boolean {
-  return VALID_CHART_FIELDS.includes(chartField) || validators.isValidChartField(chartField)
-}
+// Forecasts are stored and SLA alerts raised on a schedule; the dashboard only reads them
+startForecastRefreshJob(getTurnaroundForecastService())
 
 export const nanoporeRouter = router({
-  // Get all nanopore samples
-  getAll: publicProcedure.query(async ({ ctx }) => {
+  // Get the nanopore samples the caller may see
+  getAll: protectedProcedure.query(async ({ ctx }) => {
     try {
       const sampleService = getSampleService()
-      return await sampleService.getAllSamples()
+      return filterVisibleSamples(ctx.user, await sampleService.getAllSamples())
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  // Projected completion and SLA risk for every active sample
+  getForecasts: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const forecasts = await getTurnaroundForecastService().getForecasts()
+      if (ctx.user.role !== 'submitter') return forecasts
+
+      const visible = new Set(filterVisibleSamples(ctx.user, await getSampleService().getAllSamples()).map(sample => sample.id))
+      return forecasts.filter(forecast => visible.has(forecast.sampleId))
     } catch (error) {
       handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
     }
   }),
 
   // Create new nanopore sample
-  create: publicProcedure
+  create: sampleProcedure
+    .meta({ permission: 'sample:create' })
     .input(createSampleValidation)
     .mutation(async ({ input, ctx }) => {
       try {
@@ -65,6 +73,9 @@ export const nanoporeRouter = router({
           assignedTo: input.assignedTo,
           libraryPrepBy: input.libraryPrepBy,
           chartField: input.chartField,
+          libraryPrepKit: input.libraryPrepKit,
+          barcodingRequired: input.barcodingRequired,
+          createdBy: recordedOwner(ctx.user),
         })
       } catch (error) {
         handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
@@ -72,7 +83,8 @@ export const nanoporeRouter = router({
     }),
 
   // Update nanopore sample
-  update: publicProcedure
+  update: sampleProcedure
+    .meta({ permission: 'sample:update' })
     .input(
       z.object({
         id: z.string().uuid(),
@@ -103,43 +115,46 @@ export const nanoporeRouter = router({
         if (input.data.assignedTo !== undefined) updateData.assignedTo = input.data.assignedTo
         if (input.data.libraryPrepBy !== undefined) updateData.libraryPrepBy = input.data.libraryPrepBy
         
-        return await sampleService.updateSample(input.id, updateData)
+        return await sampleService.updateSample(input.id, updateData, actorName(ctx.user))
       } catch (error) {
         handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
       }
     }),
 
   // Assign sample to team member
-  assign: publicProcedure
+  assign: sampleProcedure
+    .meta({ permission: 'sample:assign' })
     .input(assignSampleValidation)
     .mutation(async ({ input, ctx }) => {
       try {
         const sampleService = getSampleService()
-        return await sampleService.assignSample(input.id, input.assignedTo, input.libraryPrepBy)
+        return await sampleService.assignSample(input.id, input.assignedTo, input.libraryPrepBy, actorName(ctx.user))
       } catch (error) {
         handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
       }
     }),
 
   // Update sample status
-  updateStatus: publicProcedure
+  updateStatus: sampleProcedure
+    .meta({ permission: 'sample:update_steps' })
     .input(updateStatusValidation)
     .mutation(async ({ input, ctx }) => {
       try {
         const sampleService = getSampleService()
-        return await sampleService.updateSampleStatus(input.id, input.status)
+        return await sampleService.updateSampleStatus(input.id, input.status, actorName(ctx.user))
       } catch (error) {
         handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
       }
     }),
 
   // Delete sample
-  delete: publicProcedure
+  delete: sampleProcedure
+    .meta({ permission: 'sample:delete' })
     .input(z.string().uuid())
     .mutation(async ({ input, ctx }) => {
       try {
         const sampleService = getSampleService()
-        return await sampleService.deleteSample(input)
+        return await sampleService.deleteSample(input, actorName(ctx.user))
       } catch (error) {
         handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
       }
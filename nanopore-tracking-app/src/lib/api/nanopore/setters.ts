@@ -3,21 +3,32 @@ import type {
   NanoporeSampleDetail,
   NanoporeProcessingStep,
   NanoporeAttachment,
+  NanoporeSamplesTable,
+  NanoporeSampleDetailsTable,
+  NanoporeProcessingStepsTable,
+  NanoporeAttachmentsTable,
   DB,
   JsonValue,
 } from '../../db/types'
 import type { Selectable, Insertable, Updateable, Kysely, Transaction } from 'kysely'
+import { ValidationError } from '../../../middleware/errors/ErrorTypes'
+import {
+  DEFAULT_WORKFLOW_STEPS,
+  getBlockingDependencies,
+  selectWorkflowTemplate,
+  type TemplateSelectionCriteria,
+} from '../../workflow/WorkflowTemplates'
 
 // Input types for creating new records
-export interface CreateNanoporeSampleInput extends Insertable<NanoporeSample> {}
-export interface CreateNanoporeSampleDetailInput extends Insertable<NanoporeSampleDetail> {}
-export interface CreateNanoporeProcessingStepInput extends Insertable<NanoporeProcessingStep> {}
-export interface CreateNanoporeAttachmentInput extends Insertable<NanoporeAttachment> {}
+export interface CreateNanoporeSampleInput extends Insertable<NanoporeSamplesTable> {}
+export interface CreateNanoporeSampleDetailInput extends Insertable<NanoporeSampleDetailsTable> {}
+export interface CreateNanoporeProcessingStepInput extends Insertable<NanoporeProcessingStepsTable> {}
+export interface CreateNanoporeAttachmentInput extends Insertable<NanoporeAttachmentsTable> {}
 
 // Input types for updating existing records
-export interface UpdateNanoporeSampleInput extends Updateable<NanoporeSample> {}
-export interface UpdateNanoporeSampleDetailInput extends Updateable<NanoporeSampleDetail> {}
-export interface UpdateNanoporeProcessingStepInput extends Updateable<NanoporeProcessingStep> {}
+export interface UpdateNanoporeSampleInput extends Updateable<NanoporeSamplesTable> {}
+export interface UpdateNanoporeSampleDetailInput extends Updateable<NanoporeSampleDetailsTable> {}
+export interface UpdateNanoporeProcessingStepInput extends Updateable<NanoporeProcessingStepsTable> {}
 
 /**
  * Create a new nanopore sample
@@ -228,86 +239,88 @@ export async function updateProcessingStep(
 }
 
 /**
- * Create default processing steps for a sample
+ * Create processing steps for a sample from the best matching active workflow template.
+ * Falls back to the built-in default steps when no template matches.
  */
 export async function createDefaultProcessingSteps(
   db: Kysely<DB>,
   sampleId: string,
+  criteria?: TemplateSelectionCriteria,
 ): Promise<Array<Selectable<NanoporeProcessingStep>>> {
   const now = new Date().toISOString()
-  
-  const defaultSteps = [
-    {
-      sample_id: sampleId,
-      step_name: 'Sample QC',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 1,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Library Preparation',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 4,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Library QC',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 1,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Sequencing Setup',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 1,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Sequencing Run',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 48,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Basecalling',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 2,
-      created_at: now,
-      updated_at: now,
-    },
-    {
-      sample_id: sampleId,
-      step_name: 'Quality Assessment',
-      step_status: 'pending' as const,
-      estimated_duration_hours: 1,
-      created_at: now,
-      updated_at: now,
-    },
-    {
+
+  let templateId: string | null = null
+  let stepDefinitions = DEFAULT_WORKFLOW_STEPS
+
+  if (criteria) {
+    const templates = await db
+      .selectFrom('workflow_templates')
+      .selectAll()
+      .where('status', '=', 'active')
+      .execute()
+    const templateSteps = templates.length > 0
+      ? await db
+          .selectFrom('workflow_template_steps')
+          .selectAll()
+          .where('template_id', 'in', templates.map(t => t.id))
+          .orderBy('step_order', 'asc')
+          .execute()
+      : []
+
+    const template = selectWorkflowTemplate(
+      templates.map(t => ({
+        id: t.id,
+        templateKey: t.template_key,
+        version: t.version,
+        name: t.name,
+        sampleType: t.sample_type,
+        libraryPrepKitPattern: t.library_prep_kit_pattern,
+        barcodingRequired: t.barcoding_required,
+        status: t.status,
+        steps: templateSteps
+          .filter(step => step.template_id === t.id)
+          .map(step => ({
+            stepOrder: step.step_order,
+            stepName: step.step_name,
+            estimatedDurationHours: step.estimated_duration_hours,
+            requiredRole: step.required_role,
+            dependsOn: step.depends_on,
+          })),
+      })),
+      criteria,
+    )
+
+    if (template) {
+      templateId = template.id
+      stepDefinitions = template.steps
+    }
+  }
+
+  const steps = await db
+    .insertInto('nanopore_processing_steps')
+    .values(stepDefinitions.map(step => ({
       sample_id: sampleId,
-      step_name: 'Data Delivery',
+      step_name: step.stepName,
       step_status: 'pending' as const,
-      estimated_duration_hours: 1,
+      estimated_duration_hours: step.estimatedDurationHours,
+      step_order: step.stepOrder,
+      required_role: step.requiredRole,
+      depends_on: step.dependsOn,
       created_at: now,
       updated_at: now,
-    },
-  ]
-
-  return await db
-    .insertInto('nanopore_processing_steps')
-    .values(defaultSteps)
+    })))
     .returningAll()
     .execute()
+
+  if (templateId) {
+    await db
+      .updateTable('nanopore_samples')
+      .set({ workflow_template_id: templateId })
+      .where('id', '=', sampleId)
+      .execute()
+  }
+
+  return steps
 }
 
 /**
@@ -339,13 +352,32 @@ export async function completeProcessingStep(
 }
 
 /**
- * Start processing step
+ * Start processing step once the steps it depends on are done
  */
 export async function startProcessingStep(
   db: Kysely<DB>,
   stepId: string,
 ): Promise<Selectable<NanoporeProcessingStep>> {
   const now = new Date().toISOString()
+
+  const step = await db
+    .selectFrom('nanopore_processing_steps')
+    .selectAll()
+    .where('id', '=', stepId)
+    .executeTakeFirstOrThrow()
+
+  if (step.depends_on.length > 0) {
+    const siblings = await db
+      .selectFrom('nanopore_processing_steps')
+      .select(['step_name', 'step_status'])
+      .where('sample_id', '=', step.sample_id)
+      .execute()
+
+    const blocking = getBlockingDependencies(step, siblings)
+    if (blocking.length > 0) {
+      throw new ValidationError(`Cannot start '${step.step_name}' before: ${blocking.join(', ')}`, 'step_status')
+    }
+  }
   
   const updateData = {
     step_status: 'in_progress' as const,
@@ -394,7 +426,8 @@ export async function deleteAttachment(
 }
 
 /**
- * Create complete nanopore sample with all related data
+ * Create complete nanopore sample with all related data.
+ * Called with a transaction, it joins that transaction instead of opening its own.
  */
 export async function createCompleteSample(
   db: Kysely<DB>,
@@ -405,7 +438,7 @@ export async function createCompleteSample(
   details: Selectable<NanoporeSampleDetail>
   processingSteps: Array<Selectable<NanoporeProcessingStep>>
 }> {
-  return await db.transaction().execute(async (trx: Transaction<DB>) => {
+  const create = async (trx: Transaction<DB>) => {
     const now = new Date().toISOString()
     
     // Create sample
@@ -431,86 +464,23 @@ export async function createCompleteSample(
       .returningAll()
       .executeTakeFirstOrThrow()
 
-    // Create default processing steps
-    const defaultSteps = [
-      {
-        sample_id: sample.id,
-        step_name: 'Sample QC',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 1,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Library Preparation',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 4,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Library QC',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 1,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Sequencing Setup',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 1,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Sequencing Run',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 48,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Basecalling',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 2,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Quality Assessment',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 1,
-        created_at: now,
-        updated_at: now,
-      },
-      {
-        sample_id: sample.id,
-        step_name: 'Data Delivery',
-        step_status: 'pending' as const,
-        estimated_duration_hours: 1,
-        created_at: now,
-        updated_at: now,
-      },
-    ]
-
-    const processingSteps = await trx
-      .insertInto('nanopore_processing_steps')
-      .values(defaultSteps)
-      .returningAll()
-      .execute()
+    // Create processing steps from the matching workflow template
+    const processingSteps = await createDefaultProcessingSteps(trx, sample.id, {
+      sampleType: sample.sample_type,
+      libraryPrepKit: details.library_prep_kit,
+      barcodingRequired: details.barcoding_required,
+    })
 
     return {
       sample,
       details,
       processingSteps,
     }
-  })
+  }
+
+  return db.isTransaction
+    ? await create(db as Transaction<DB>)
+    : await db.transaction().execute(create)
 }
 
 /**
@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { getNotificationCenterService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { NOTIFICATION_TYPES } from '../notifications/NotificationCenter'
+import { startOverdueStepMonitor } from '../notifications/OverdueStepMonitor'
+import { actorName } from '../auth/SampleAccess'
+
+// Routers load once on the server, so this is where bus events start filling inboxes
+getNotificationCenterService().start()
+startOverdueStepMonitor(getNotificationCenterService())
+
+// Every procedure reads and changes the signed-in user's own inbox
+export const notificationsRouter = router({
+  // Newest first, with the unread count for the bell
+  list: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).default(30) }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getNotificationCenterService().list(actorName(ctx.user), input.limit)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Without ids, everything the recipient has is marked read
+  markRead: protectedProcedure
+    .input(z.object({ ids: z.array(z.string().uuid()).max(100).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return { updated: await getNotificationCenterService().markRead(actorName(ctx.user), input.ids) }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  getPreferences: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await getNotificationCenterService().getPreferences(actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  setPreferences: protectedProcedure
+    .input(z.object({ mutedTypes: z.array(z.enum(NOTIFICATION_TYPES)) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getNotificationCenterService().setPreferences(actorName(ctx.user), { mutedTypes: input.mutedTypes })
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
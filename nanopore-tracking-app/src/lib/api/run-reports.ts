@@ -0,0 +1,92 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getQcReportService, getRunReportImportService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { startRunReportWatcher } from '../reports/RunReportWatcher'
+
+const qcThresholdsSchema = z.object({
+  minYieldBases: z.number().nonnegative().optional(),
+  minN50: z.number().nonnegative().optional(),
+  minMeanQScore: z.number().nonnegative().optional(),
+}).optional()
+
+// Routers load once on the server, so this is where the MinKNOW output watcher starts
+startRunReportWatcher(getRunReportImportService())
+
+export const runReportsRouter = router({
+  // Run metrics imported into a sample's processing steps
+  getForSample: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getRunReportImportService().getSampleRunReports(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Import a report previously uploaded as a sample attachment
+  importAttachment: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getRunReportImportService().importAttachment(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Import report text sent from the browser; large sequencing summaries should go through attachments
+  importContent: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      sampleId: z.string().uuid(),
+      fileName: z.string().min(1).max(255),
+      content: z.string().min(1).max(5 * 1024 * 1024),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getRunReportImportService().importContent(input.sampleId, input.fileName, input.content)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // QC verdict and charts computed from stored run metrics, without saving
+  getQcReport: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(z.object({ sampleId: z.string().uuid(), thresholds: qcThresholdsSchema }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getQcReportService().buildReport(input.sampleId, input.thresholds)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Re-run QC and record qc_passed/qc_notes on the sample
+  evaluateQc: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({ sampleId: z.string().uuid(), thresholds: qcThresholdsSchema }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getQcReportService().evaluateSample(input.sampleId, input.thresholds)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Standalone HTML QC report; print it from the browser for a PDF
+  exportQcReport: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(z.object({ sampleId: z.string().uuid(), thresholds: qcThresholdsSchema }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getQcReportService().exportHtml(input.sampleId, input.thresholds)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
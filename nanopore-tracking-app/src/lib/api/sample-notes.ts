@@ -0,0 +1,85 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getSampleNoteService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { actorName, can } from '../auth/SampleAccess'
+import { createNoteSchema, editNoteSchema } from '../notes/SampleNotes'
+
+export const sampleNotesRouter = router({
+  list: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(z.object({
+      sampleId: z.string().uuid(),
+      // Submitter-facing views leave internal notes out
+      includeInternal: z.boolean().default(true),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const includeInternal = input.includeInternal && can(ctx.user, 'sample:read_internal')
+        return await getSampleNoteService().listForSample(input.sampleId, includeInternal)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Sample attachments a note can reference
+  attachments: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSampleNoteService().listAttachments(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Submitters can only write notes they can read back, so theirs are always visible to the submitter
+  create: sampleProcedure
+    .meta({ permission: 'sample:read' })
+    .input(createNoteSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const visibility = can(ctx.user, 'sample:read_internal') ? input.visibility : 'submitter'
+        return await getSampleNoteService().create({ ...input, visibility }, actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Access is checked against the note's sample; the service allows only the note's author
+  update: sampleProcedure
+    .meta({ permission: 'sample:read', sampleOf: 'note' })
+    .input(editNoteSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const visibility = can(ctx.user, 'sample:read_internal') ? input.visibility : 'submitter'
+        return await getSampleNoteService().update({ ...input, visibility }, actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  history: sampleProcedure
+    .meta({ permission: 'sample:read_internal', sampleOf: 'note' })
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSampleNoteService().history(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Ids of samples whose notes match, merged into the dashboard search
+  search: sampleProcedure
+    .meta({ permission: 'sample:read_internal' })
+    .input(z.string().trim().min(2).max(200))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSampleNoteService().searchSampleIds(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getSampleQueryAssistantService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { sampleQueryPlanSchema } from '../ai/sample-query-plan'
+
+// Answers cover every lab's samples, so the assistant is limited to lab staff
+const staffProcedure = sampleProcedure.meta({ permission: 'sample:query' })
+
+export const sampleQueryRouter = router({
+  // Only plans the query; nothing runs until the user confirms the conditions
+  interpret: staffProcedure
+    .input(z.object({ question: z.string().trim().min(3).max(500) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleQueryAssistantService().interpret(input.question)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // The plan comes back from the browser, so it is checked against the whitelist again
+  run: staffProcedure
+    .input(z.object({ plan: sampleQueryPlanSchema }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleQueryAssistantService().run(input.plan)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
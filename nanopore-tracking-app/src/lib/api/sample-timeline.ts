@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getSampleTimelineService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+
+export const sampleTimelineRouter = router({
+  // Audit events, status changes, steps, assignments, attachments and notes, oldest first
+  get: sampleProcedure
+    .meta({ permission: 'sample:read_internal' })
+    .input(z.object({ resourceId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSampleTimelineService().getTimeline(input.resourceId)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  exportChainOfCustody: sampleProcedure
+    .meta({ permission: 'sample:read_internal' })
+    .input(z.object({
+      resourceId: z.string().uuid(),
+      format: z.enum(['html', 'csv']).default('html'),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleTimelineService().exportChainOfCustody(input.resourceId, input.format)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
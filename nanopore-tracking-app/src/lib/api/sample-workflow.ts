@@ -0,0 +1,69 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getSampleWorkflowService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+
+const workflowActionInput = z.object({
+  sampleId: z.string().uuid(),
+  performedBy: z.string().min(1).max(255).optional(),
+})
+
+// Each procedure updates the sample's steps and status in one transaction and publishes processing events
+const stepProcedure = sampleProcedure.meta({ permission: 'sample:update_steps' })
+
+export const sampleWorkflowRouter = router({
+  recordQcResult: stepProcedure
+    .input(workflowActionInput.extend({
+      passed: z.boolean(),
+      notes: z.string().max(2000).default(''),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleWorkflowService().recordQcResult(input.sampleId, input.passed, input.notes, input.performedBy)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  startLibraryPrep: stepProcedure
+    .input(workflowActionInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleWorkflowService().startLibraryPrep(input.sampleId, input.performedBy)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  startSequencingRun: stepProcedure
+    .input(workflowActionInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleWorkflowService().startSequencingRun(input.sampleId, input.performedBy)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  generateReport: stepProcedure
+    .input(workflowActionInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleWorkflowService().generateReport(input.sampleId, input.performedBy)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  deliverResults: stepProcedure
+    .input(workflowActionInput.extend({
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSampleWorkflowService().deliverResults(input.sampleId, input.performedBy, input.notes)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,92 @@
+import { z } from 'zod'
+import { router, sampleProcedure } from '../trpc'
+import { getSequencingRunRepository, getSequencingRunService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { actorName } from '../auth/SampleAccess'
+
+const runStatusSchema = z.enum(['planned', 'running', 'completed', 'failed', 'cancelled'])
+
+export const sequencingRunsRouter = router({
+  list: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({ status: runStatusSchema.optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunRepository().findAll(input?.status)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Run with its member samples and barcodes
+  getById: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunRepository().findById(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Plan a multiplexed run; barcodes must be unique within the run
+  create: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      runName: z.string().min(1).max(255),
+      flowCellId: z.string().uuid(),
+      deviceId: z.string().min(1).max(100),
+      devicePosition: z.string().max(20).optional(),
+      barcodeKit: z.string().min(1).max(50),
+      notes: z.string().max(2000).optional(),
+      members: z.array(z.object({
+        sampleId: z.string().uuid(),
+        barcode: z.string().min(1).max(20),
+      })).min(1).max(96),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunService().createRun({ ...input, createdBy: actorName(ctx.user) })
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  start: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunService().startRun(input, actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  complete: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.object({
+      id: z.string().uuid(),
+      outcome: z.enum(['completed', 'failed']).default('completed'),
+      flowCellOutcome: z.enum(['washed', 'spent']),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunService().completeRun(input.id, input.outcome, input.flowCellOutcome, actorName(ctx.user))
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  cancel: sampleProcedure
+    .meta({ permission: 'lab:operate' })
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSequencingRunService().cancelRun(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
+import { getSubmitterPortalService } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+import { createSampleValidation, validateChartField } from '../../middleware/validation/ValidationRules'
+import { MAX_NOTE_LENGTH } from '../notes/SampleNotes'
+
+// Every procedure is scoped to the caller's own samples, whatever their role
+export const submitterPortalRouter = router({
+  samples: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getSubmitterPortalService().listSamples(ctx.user)
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  submit: protectedProcedure
+    .input(createSampleValidation)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!validateChartField(input.chartField)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Invalid chart field: ${input.chartField}. Chart field must be part of the intake validation list.`,
+          })
+        }
+        return await getSubmitterPortalService().submitSample(ctx.user, {
+          sampleName: input.sampleName,
+          projectId: input.projectId,
+          submitterName: input.submitterName,
+          submitterEmail: input.submitterEmail,
+          labName: input.labName,
+          sampleType: input.sampleType,
+          sampleBuffer: input.sampleBuffer,
+          concentration: input.concentration ?? undefined,
+          volume: input.volume ?? undefined,
+          totalAmount: input.totalAmount ?? undefined,
+          flowCellType: input.flowCellType,
+          flowCellCount: input.flowCellCount,
+          priority: input.priority,
+          chartField: input.chartField,
+          libraryPrepKit: input.libraryPrepKit,
+          barcodingRequired: input.barcodingRequired,
+        })
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Notes staff shared with the submitter, including open QC questions
+  questions: protectedProcedure
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getSubmitterPortalService().listQuestions(ctx.user, input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  answer: protectedProcedure
+    .input(z.object({
+      sampleId: z.string().uuid(),
+      noteId: z.string().uuid(),
+      body: z.string().trim().min(1, 'Answer cannot be empty').max(MAX_NOTE_LENGTH),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getSubmitterPortalService().answerQuestion(ctx.user, input.sampleId, input.noteId, input.body)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Always succeeds so the form does not reveal which addresses have samples
+  requestLink: publicProcedure
+    .input(z.object({ email: z.string().trim().email() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await getSubmitterPortalService().requestLink(input.email)
+        return { success: true }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
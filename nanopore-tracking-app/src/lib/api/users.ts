@@ -0,0 +1,98 @@
+import { z } from 'zod'
+import { router, adminProcedure } from '../trpc'
+import { authService } from '../auth'
+import { SAMPLE_ROLES } from '../auth/SampleAccess'
+import { MIN_PASSWORD_LENGTH } from '../auth/Passwords'
+import { getAuditLogger } from '../../container'
+import { ConflictError, NotFoundError } from '../../middleware/errors/ErrorTypes'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+
+export const usersRouter = router({
+  // Staff accounts and their roles
+  list: adminProcedure.query(async ({ ctx }) => {
+    try {
+      const users = await authService.listUsers()
+      return users.map(user => ({ id: user.id, email: user.email, name: user.name, role: user.role }))
+    } catch (error) {
+      handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+    }
+  }),
+
+  // Password sign-in only works for existing accounts, so staff are added here
+  create: adminProcedure
+    .input(z.object({
+      email: z.string().trim().toLowerCase().email(),
+      name: z.string().trim().min(1).max(255),
+      role: z.enum(SAMPLE_ROLES),
+      password: z.string().min(MIN_PASSWORD_LENGTH).max(256),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (await authService.getUserByEmail(input.email)) {
+          throw new ConflictError(`An account for ${input.email} already exists`)
+        }
+        const user = await authService.createUser(input)
+
+        await getAuditLogger().log({
+          type: 'user.created',
+          userId: `admin:${ctx.adminSession.username}`,
+          resourceType: 'user',
+          resourceId: user.id,
+          action: 'create',
+          details: { email: user.email, role: user.role },
+          timestamp: new Date(),
+        })
+        return { id: user.id, email: user.email, name: user.name, role: user.role }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  setRole: adminProcedure
+    .input(z.object({ userId: z.string().uuid(), role: z.enum(SAMPLE_ROLES) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const user = await authService.setRole(input.userId, input.role)
+        if (!user) {
+          throw new NotFoundError('User', input.userId)
+        }
+
+        await getAuditLogger().log({
+          type: 'user.role_changed',
+          userId: `admin:${ctx.adminSession.username}`,
+          resourceType: 'user',
+          resourceId: user.id,
+          action: 'update',
+          details: { email: user.email, role: user.role },
+          timestamp: new Date(),
+        })
+        return { id: user.id, email: user.email, name: user.name, role: user.role }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  setPassword: adminProcedure
+    .input(z.object({ userId: z.string().uuid(), password: z.string().min(MIN_PASSWORD_LENGTH).max(256) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const user = await authService.setPassword(input.userId, input.password)
+        if (!user) {
+          throw new NotFoundError('User', input.userId)
+        }
+
+        await getAuditLogger().log({
+          type: 'user.password_set',
+          userId: `admin:${ctx.adminSession.username}`,
+          resourceType: 'user',
+          resourceId: user.id,
+          action: 'update',
+          details: { email: user.email },
+          timestamp: new Date(),
+        })
+        return { id: user.id }
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
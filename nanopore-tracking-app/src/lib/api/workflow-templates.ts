@@ -0,0 +1,84 @@
+import { z } from 'zod'
+import { router, protectedProcedure, adminProcedure } from '../trpc'
+import { getWorkflowTemplateRepository } from '../../container'
+import { handleTRPCProcedureError, extractRequestContext } from '../../middleware/errors/TRPCErrorMiddleware'
+
+const workflowStepSchema = z.object({
+  stepOrder: z.number().int().positive(),
+  stepName: z.string().min(1).max(100),
+  estimatedDurationHours: z.number().int().nonnegative().nullable(),
+  requiredRole: z.enum(['technician', 'lab_manager', 'bioinformatician', 'admin']).nullable(),
+  dependsOn: z.array(z.string()).default([]),
+})
+
+const templateCriteriaSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  sampleType: z.string().max(50).nullable().optional(),
+  libraryPrepKitPattern: z.string().max(100).nullable().optional(),
+  barcodingRequired: z.boolean().nullable().optional(),
+})
+
+export const workflowTemplatesRouter = router({
+  // List templates, newest version first within each key
+  list: protectedProcedure
+    .input(z.object({ includeRetired: z.boolean().default(false) }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getWorkflowTemplateRepository().findAll(input?.includeRetired ?? false)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  getById: protectedProcedure
+    .input(z.string().uuid())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getWorkflowTemplateRepository().findById(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Create a template, or a new version when the key already exists
+  create: adminProcedure
+    .input(templateCriteriaSchema.extend({
+      templateKey: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
+      steps: z.array(workflowStepSchema).min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getWorkflowTemplateRepository().create(input, ctx.adminSession.username)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  // Copy an existing template version with optional overrides
+  clone: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      overrides: templateCriteriaSchema.partial().extend({
+        templateKey: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/).optional(),
+        steps: z.array(workflowStepSchema).min(1).optional(),
+      }).default({}),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getWorkflowTemplateRepository().clone(input.id, input.overrides, ctx.adminSession.username)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+
+  retire: adminProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await getWorkflowTemplateRepository().retire(input)
+      } catch (error) {
+        handleTRPCProcedureError(error as Error, extractRequestContext(ctx))
+      }
+    }),
+})
@@ -0,0 +1,362 @@
+/**
+ * Sample timeline
+ * Merges audit events, processing steps, attachment uploads and notes for one sample into a
+ * single chronological history, and renders it as a chain-of-custody report.
+ */
+
+export type TimelineEntryKind =
+  | 'submitted'
+  | 'updated'
+  | 'status_change'
+  | 'assignment'
+  | 'step_started'
+  | 'step_completed'
+  | 'step_failed'
+  | 'attachment'
+  | 'note'
+  | 'deleted'
+  | 'audit'
+
+export type TimelineSource = 'sample' | 'audit_log' | 'audit_service' | 'processing_step' | 'attachment' | 'note'
+
+export interface FieldChange {
+  field: string
+  label: string
+  before: string | null
+  after: string | null
+}
+
+export interface TimelineEntry {
+  id: string
+  // ISO timestamp
+  at: string
+  kind: TimelineEntryKind
+  actor: string | null
+  summary: string
+  changes: FieldChange[]
+  source: TimelineSource
+}
+
+// Structural subsets of the rows and events the timeline is built from
+export interface TimelineSources {
+  sample: {
+    id: string
+    sample_name: string
+    submitter_name: string
+    submitter_email: string
+    created_by: string
+    created_at: Date | string
+  }
+  steps: Array<{
+    id: string
+    step_name: string
+    step_status: string
+    assigned_to: string | null
+    started_at: Date | string | null
+    completed_at: Date | string | null
+    notes: string | null
+  }>
+  attachments: Array<{
+    id: string
+    file_name: string
+    uploaded_by: string | null
+    uploaded_at: Date | string
+  }>
+  notes: Array<{
+    id: string
+    author: string
+    visibility: string
+    parentId: string | null
+    createdAt: Date | string
+  }>
+  auditEvents: Array<{
+    type: string
+    userId: string
+    action: string
+    details: Record<string, any>
+    timestamp: Date | string
+  }>
+  // Events recorded by the audit service for this sample
+  serviceEvents: Array<{
+    id: string
+    timestamp: Date | string
+    userId?: string | undefined
+    userEmail?: string | undefined
+    service: string
+    action: string
+    details: Record<string, any>
+  }>
+}
+
+const ASSIGNMENT_FIELDS = new Set(['assignedTo', 'assigned_to', 'libraryPrepBy', 'library_prep_by'])
+
+const toIso = (value: Date | string): string => new Date(value).toISOString()
+
+/**
+ * "libraryPrepBy" or "library_prep_by" as "Library prep by"
+ */
+export function fieldLabel(field: string): string {
+  const words = field
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const formatValue = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Field-level diffs from audited changes, which are recorded as { field: { from, to } }
+ */
+export function diffChanges(changes: Record<string, unknown> | null | undefined): FieldChange[] {
+  if (!changes) return []
+
+  return Object.entries(changes)
+    .map(([field, change]) => {
+      const isDiff = change !== null && typeof change === 'object' && ('from' in change || 'to' in change)
+      return {
+        field,
+        label: fieldLabel(field),
+        before: isDiff ? formatValue((change as { from?: unknown }).from) : null,
+        after: formatValue(isDiff ? (change as { to?: unknown }).to : change),
+      }
+    })
+    .filter(change => change.before !== change.after)
+}
+
+function auditEntry(event: TimelineSources['auditEvents'][number], index: number): TimelineEntry {
+  const base = {
+    id: `audit-${index}`,
+    at: toIso(event.timestamp),
+    actor: event.userId || null,
+    source: 'audit_log' as const,
+  }
+
+  switch (event.type) {
+    case 'sample.created':
+      return { ...base, kind: 'submitted', summary: 'Sample created', changes: [] }
+    case 'sample.deleted':
+      return { ...base, kind: 'deleted', summary: 'Sample deleted', changes: [] }
+    case 'sample.assigned':
+      return {
+        ...base,
+        kind: 'assignment',
+        summary: `Assigned to ${event.details.assignedTo}`,
+        changes: diffChanges({ assignedTo: { to: event.details.assignedTo } }),
+      }
+    case 'sample.status_changed':
+      return {
+        ...base,
+        kind: 'status_change',
+        summary: `Status changed from ${event.details.oldStatus} to ${event.details.newStatus}`,
+        changes: diffChanges({ status: { from: event.details.oldStatus, to: event.details.newStatus } }),
+      }
+    case 'sample.updated': {
+      const changes = diffChanges(event.details.changes)
+      const fields = changes.map(change => change.field)
+      const kind: TimelineEntryKind = fields.length > 0 && fields.every(field => field === 'status')
+        ? 'status_change'
+        : fields.length > 0 && fields.every(field => ASSIGNMENT_FIELDS.has(field))
+          ? 'assignment'
+          : 'updated'
+      return {
+        ...base,
+        kind,
+        summary: changes.length > 0
+          ? `Updated ${changes.map(change => change.label.toLowerCase()).join(', ')}`
+          : 'Updated with no field changes',
+        changes,
+      }
+    }
+    default:
+      return { ...base, kind: 'audit', summary: `${event.action} (${event.type})`, changes: diffChanges(event.details.changes) }
+  }
+}
+
+function stepEntries(step: TimelineSources['steps'][number]): TimelineEntry[] {
+  const entries: TimelineEntry[] = []
+  if (step.started_at) {
+    entries.push({
+      id: `step-${step.id}-started`,
+      at: toIso(step.started_at),
+      kind: 'step_started',
+      actor: step.assigned_to,
+      summary: `${step.step_name} started`,
+      changes: [],
+      source: 'processing_step',
+    })
+  }
+  if (step.completed_at && (step.step_status === 'completed' || step.step_status === 'failed' || step.step_status === 'skipped')) {
+    const failed = step.step_status === 'failed'
+    entries.push({
+      id: `step-${step.id}-${step.step_status}`,
+      at: toIso(step.completed_at),
+      kind: failed ? 'step_failed' : 'step_completed',
+      actor: step.assigned_to,
+      summary: `${step.step_name} ${step.step_status}${step.notes ? `: ${step.notes}` : ''}`,
+      changes: [],
+      source: 'processing_step',
+    })
+  }
+  return entries
+}
+
+/**
+ * All sources merged oldest first. Events the audit service also recorded locally appear once.
+ */
+export function buildSampleTimeline(sources: TimelineSources): TimelineEntry[] {
+  const audited = sources.auditEvents.map(auditEntry)
+  const entries: TimelineEntry[] = [...audited]
+
+  // The sample row stands in for the creation event when it predates auditing
+  if (!audited.some(entry => entry.kind === 'submitted')) {
+    entries.push({
+      id: `sample-${sources.sample.id}`,
+      at: toIso(sources.sample.created_at),
+      kind: 'submitted',
+      actor: sources.sample.created_by,
+      summary: `Submitted by ${sources.sample.submitter_name} <${sources.sample.submitter_email}>`,
+      changes: [],
+      source: 'sample',
+    })
+  }
+
+  entries.push(...sources.steps.flatMap(stepEntries))
+
+  entries.push(...sources.attachments.map(attachment => ({
+    id: `attachment-${attachment.id}`,
+    at: toIso(attachment.uploaded_at),
+    kind: 'attachment' as const,
+    actor: attachment.uploaded_by,
+    summary: `Attached ${attachment.file_name}`,
+    changes: [],
+    source: 'attachment' as const,
+  })))
+
+  entries.push(...sources.notes.map(note => ({
+    id: `note-${note.id}`,
+    at: toIso(note.createdAt),
+    kind: 'note' as const,
+    actor: note.author,
+    summary: `${note.parentId ? 'Replied to a note' : 'Added a note'}${note.visibility === 'submitter' ? ' visible to the submitter' : ''}`,
+    changes: [],
+    source: 'note' as const,
+  })))
+
+  const seen = new Set(entries.map(entry => `${entry.at.slice(0, 19)}|${entry.summary}`))
+  for (const event of sources.serviceEvents) {
+    const changes = diffChanges(event.details?.changes)
+    const entry: TimelineEntry = {
+      id: `service-${event.id}`,
+      at: toIso(event.timestamp),
+      kind: 'audit',
+      actor: event.userEmail ?? event.userId ?? null,
+      summary: `${event.action} via ${event.service}`,
+      changes,
+      source: 'audit_service',
+    }
+    const key = `${entry.at.slice(0, 19)}|${entry.summary}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      entries.push(entry)
+    }
+  }
+
+  return entries.sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id))
+}
+
+/**
+ * Everyone who acted on the sample, in the order they first did
+ */
+export function custodyHandlers(entries: TimelineEntry[]): string[] {
+  const handlers: string[] = []
+  for (const entry of entries) {
+    if (entry.actor && !handlers.includes(entry.actor)) handlers.push(entry.actor)
+  }
+  return handlers
+}
+
+export interface ChainOfCustodyReport {
+  sampleId: string
+  sampleName: string
+  submitter: string
+  status: string
+  generatedAt: string
+  entries: TimelineEntry[]
+  // Sources that could not be read; the report says so rather than looking complete
+  unavailableSources: string[]
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!))
+
+const describeChanges = (changes: FieldChange[]): string =>
+  changes.map(change => `${change.label}: ${change.before ?? '—'} → ${change.after ?? '—'}`).join('; ')
+
+/**
+ * Standalone HTML document for download or printing to PDF
+ */
+export function renderChainOfCustodyHtml(report: ChainOfCustodyReport): string {
+  const rows = report.entries.map(entry =>
+    `<tr><td>${escapeHtml(entry.at.replace('T', ' ').slice(0, 19))}</td>` +
+    `<td>${escapeHtml(entry.actor ?? '—')}</td>` +
+    `<td>${escapeHtml(entry.summary)}</td>` +
+    `<td>${entry.changes.map(change =>
+      `${escapeHtml(change.label)}: <del>${escapeHtml(change.before ?? '—')}</del> → <ins>${escapeHtml(change.after ?? '—')}</ins>`
+    ).join('<br>')}</td></tr>`
+  ).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Chain of Custody - ${escapeHtml(report.sampleName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1rem; margin-top: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.8125rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.25rem 0.5rem; border-bottom: 1px solid #e5e7eb; }
+  del { color: #b91c1c; }
+  ins { color: #15803d; text-decoration: none; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  .warning { color: #b45309; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Chain of Custody: ${escapeHtml(report.sampleName)}</h1>
+<p class="muted">Sample ${escapeHtml(report.sampleId)} · submitted by ${escapeHtml(report.submitter)} · status ${escapeHtml(report.status)} · generated ${escapeHtml(report.generatedAt)}</p>
+${report.unavailableSources.length > 0 ? `<p class="warning">Incomplete: could not read ${escapeHtml(report.unavailableSources.join(', '))}</p>` : ''}
+<h2>Handled by</h2>
+<p>${escapeHtml(custodyHandlers(report.entries).join(' → ') || 'No recorded handlers')}</p>
+<h2>Timeline</h2>
+<table>
+<thead><tr><th>Time (UTC)</th><th>Actor</th><th>Event</th><th>Changes</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+const csvCell = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export function renderChainOfCustodyCsv(report: ChainOfCustodyReport): string {
+  const header = ['timestamp', 'kind', 'actor', 'event', 'changes', 'source']
+  const rows = report.entries.map(entry => [
+    entry.at,
+    entry.kind,
+    entry.actor ?? '',
+    entry.summary,
+    describeChanges(entry.changes),
+    entry.source,
+  ])
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n'
+}
@@ -1,73 +1,47 @@
 // Client-safe auth service - no database imports
+import type { SampleRole } from './auth/SampleAccess'
 
 export interface User {
   id: string
   email: string
   name?: string
-  role: 'admin' | 'staff' | 'user'
+  role: SampleRole
 }
 
-export interface Session {
-  id: string
-  userId: string
-  expiresAt: Date
+interface AuthResponse {
+  success: boolean
+  user?: User
+  error?: string
 }
 
+// The session itself lives in an HttpOnly cookie set by /api/auth/login
 class AuthServiceClient {
   async getCurrentUser(): Promise<User | null> {
-    // In a real app, this would fetch from an API endpoint
-    // For now, return a mock user
-    return {
-      id: 'demo-user',
-      email: 'demo@example.com',
-      name: 'Demo User',
-      role: 'staff'
-    }
+    const response = await fetch('/api/auth/session', { credentials: 'same-origin' })
+    if (!response.ok) return null
+
+    const result: AuthResponse = await response.json()
+    return result.success && result.user ? result.user : null
   }
 
-  async login(email: string, password: string): Promise<{ user: User; session: Session }> {
-    // Mock login - in real app, this would call an API
-    if (email === 'demo@example.com' && password === 'demo') {
-      const user: User = {
-        id: 'demo-user',
-        email: 'demo@example.com',
-        name: 'Demo User',
-        role: 'staff'
-      }
-      const session: Session = {
-        id: 'demo-session',
-        userId: user.id,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-      }
-      return { user, session }
+  async login(email: string, password: string): Promise<{ user: User }> {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify({ email, password })
+    })
+
+    const result: AuthResponse = await response.json()
+    if (!response.ok || !result.success || !result.user) {
+      throw new Error(result.error || 'Invalid credentials')
     }
-    throw new Error('Invalid credentials')
+    return { user: result.user }
   }
 
   async logout(): Promise<void> {
-    // In real app, this would clear the session
-    console.log('Logging out...')
-  }
-
-  async validateSession(sessionId: string): Promise<{ user: User; session: Session } | null> {
-    // Mock validation
-    if (sessionId === 'demo-session') {
-      return {
-        user: {
-          id: 'demo-user',
-          email: 'demo@example.com',
-          name: 'Demo User',
-          role: 'staff'
-        },
-        session: {
-          id: 'demo-session',
-          userId: 'demo-user',
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-        }
-      }
-    }
-    return null
+    await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' })
   }
 }
 
-export const authService = new AuthServiceClient() 
\ No newline at end of file
+export const authService = new AuthServiceClient()
@@ -1,10 +1,12 @@
 import { db } from './database'
+import { hashPassword, verifyPassword } from './auth/Passwords'
+import { isSampleRole, type SampleRole } from './auth/SampleAccess'
 
 export interface User {
   id: string
   email: string
   name: string
-  role: 'admin' | 'staff' | 'user'
+  role: SampleRole
   created_at: Date
   updated_at: Date
 }
@@ -13,10 +15,20 @@ export interface AuthSession {
   userId: string
   email: string
   name: string
-  role: string
+  role: SampleRole
+  // Set only by portal link sign-in, which proves the user reads mail sent to the address
+  emailVerified: boolean
   expiresAt: Date
 }
 
+// Role given to accounts created without one
+const DEFAULT_USER_ROLE: SampleRole = isSampleRole(process.env.DEFAULT_USER_ROLE)
+  ? process.env.DEFAULT_USER_ROLE
+  : 'submitter'
+
+// Everything but the password hash, which never leaves this module
+const USER_COLUMNS = ['id', 'email', 'name', 'role', 'created_at', 'updated_at'] as const
+
 // Simple in-memory session store (replace with Redis in production)
 const sessions = new Map<string, AuthSession>()
 
@@ -24,58 +36,81 @@ export class AuthService {
   async createUser(userData: {
     email: string
     name: string
-    role?: 'admin' | 'staff' | 'user'
+    role?: SampleRole
+    password?: string
   }): Promise<User> {
-    const user = await db
+    return await db
       .insertInto('users')
       .values({
         id: crypto.randomUUID(),
         email: userData.email,
         name: userData.name,
+        role: userData.role || DEFAULT_USER_ROLE,
+        password_hash: userData.password ? await hashPassword(userData.password) : null,
         created_at: new Date(),
         updated_at: new Date()
       })
-      .returningAll()
+      .returning(USER_COLUMNS)
       .executeTakeFirstOrThrow()
-
-    return {
-      ...user,
-      role: userData.role || 'user'
-    }
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
     const user = await db
       .selectFrom('users')
-      .selectAll()
+      .select(USER_COLUMNS)
       .where('email', '=', email)
       .executeTakeFirst()
 
-    if (!user) return null
-
-    return {
-      ...user,
-      role: 'user' // Default role since we don't have roles table yet
-    }
+    return user ?? null
   }
 
   async getUserById(id: string): Promise<User | null> {
     const user = await db
       .selectFrom('users')
-      .selectAll()
+      .select(USER_COLUMNS)
       .where('id', '=', id)
       .executeTakeFirst()
 
-    if (!user) return null
+    return user ?? null
+  }
+
+  async listUsers(): Promise<User[]> {
+    return await db
+      .selectFrom('users')
+      .select(USER_COLUMNS)
+      .orderBy('name')
+      .execute()
+  }
+
+  async setRole(id: string, role: SampleRole): Promise<User | null> {
+    const user = await db
+      .updateTable('users')
+      .set({ role, updated_at: new Date() })
+      .where('id', '=', id)
+      .returning(USER_COLUMNS)
+      .executeTakeFirst()
 
-    return {
-      ...user,
-      role: 'user'
+    // Open sessions carry the role, so they pick up the change immediately
+    for (const session of sessions.values()) {
+      if (session.userId === id) session.role = role
     }
+
+    return user ?? null
+  }
+
+  async setPassword(id: string, password: string): Promise<User | null> {
+    const user = await db
+      .updateTable('users')
+      .set({ password_hash: await hashPassword(password), updated_at: new Date() })
+      .where('id', '=', id)
+      .returning(USER_COLUMNS)
+      .executeTakeFirst()
+
+    return user ?? null
   }
 
   // Simple session-based authentication (replace with JWT in production)
-  async createSession(user: User): Promise<string> {
+  async createSession(user: User, options: { emailVerified?: boolean } = {}): Promise<string> {
     const sessionId = crypto.randomUUID()
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
 
@@ -84,6 +119,7 @@ export class AuthService {
       email: user.email,
       name: user.name,
       role: user.role,
+      emailVerified: options.emailVerified ?? false,
       expiresAt
     })
 
@@ -107,24 +143,20 @@ export class AuthService {
     sessions.delete(sessionId)
   }
 
-  // Simple login (in production, use proper password hashing)
-  async login(email: string, password: string = 'demo'): Promise<{ user: User; sessionId: string } | null> {
-    // For demo purposes, allow any email with password 'demo'
-    let user = await this.getUserByEmail(email)
-    
-    if (!user) {
-      // Auto-create user for demo
-      user = await this.createUser({
-        email,
-        name: email.split('@')[0],
-        role: 'user'
-      })
-    }
+  // Accounts come from an admin or from a portal link, never from a login attempt.
+  // Only accounts an admin gave a password can sign in here; portal accounts use their email links.
+  async login(email: string, password: string): Promise<{ user: User; sessionId: string } | null> {
+    const account = await db
+      .selectFrom('users')
+      .select([...USER_COLUMNS, 'password_hash'])
+      .where('email', '=', email)
+      .executeTakeFirst()
 
-    if (password !== 'demo') {
+    if (!account || !(await verifyPassword(password, account.password_hash))) {
       return null
     }
 
+    const { password_hash: _, ...user } = account
     const sessionId = await this.createSession(user)
     return { user, sessionId }
   }
@@ -155,7 +187,7 @@ export async function createAuthContext(request: Request) {
 }
 
 // Helper function to parse cookies
-function getCookieValue(cookieString: string, name: string): string | null {
+export function getCookieValue(cookieString: string, name: string): string | null {
   const match = cookieString.match(new RegExp('(^| )' + name + '=([^;]+)'))
   return match ? match[2] : null
 }
@@ -166,7 +198,7 @@ export const DEMO_USERS = [
     id: 'demo-user',
     email: 'demo@example.com',
     name: 'Demo User',
-    role: 'user' as const
+    role: 'submitter' as const
   },
   {
     id: 'admin-user',
@@ -178,6 +210,6 @@ export const DEMO_USERS = [
     id: 'staff-user',
     email: 'staff@example.com',
     name: 'Staff User',
-    role: 'staff' as const
+    role: 'technician' as const
   }
 ] 
\ No newline at end of file
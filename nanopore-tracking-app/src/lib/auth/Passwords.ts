@@ -0,0 +1,34 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+
+export const MIN_PASSWORD_LENGTH = 12
+
+const KEY_LENGTH = 64
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+/**
+ * Hash a password for storage as `scrypt$<salt>$<key>`, both base64
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await derive(password, salt)
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`
+}
+
+/**
+ * Check a password against a stored hash. Accounts without a hash never match.
+ */
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  const [scheme, salt, key] = stored?.split('$') ?? []
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false
+  }
+
+  const expected = Buffer.from(key, 'base64')
+  const actual = await derive(password, Buffer.from(salt, 'base64'))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,221 @@
+/**
+ * Role-based access to the sample API
+ * Each role grants a permission over its own samples, samples assigned to it, or any sample.
+ * Kept free of server imports so the dashboard can hide actions the same matrix would refuse.
+ */
+
+export const SAMPLE_ROLES = ['submitter', 'technician', 'lab_manager', 'admin'] as const
+export type SampleRole = typeof SAMPLE_ROLES[number]
+
+export const SAMPLE_ROLE_LABELS: Record<SampleRole, string> = {
+  submitter: 'Submitter',
+  technician: 'Technician',
+  lab_manager: 'Lab manager',
+  admin: 'Admin',
+}
+
+export const SAMPLE_PERMISSIONS = [
+  'sample:read',
+  'sample:create',
+  'sample:update',
+  'sample:update_steps',
+  'sample:assign',
+  'sample:reprioritize',
+  'sample:delete',
+  'sample:read_internal',
+  'sample:import',
+  'sample:export',
+  'lab:operate',
+  'intake:review',
+  'sample:query',
+] as const
+export type SamplePermission = typeof SAMPLE_PERMISSIONS[number]
+
+// Completes "<role> role cannot ..." when a permission is refused
+const PERMISSION_ACTIONS: Record<SamplePermission, string> = {
+  'sample:read': 'read samples',
+  'sample:create': 'create samples',
+  'sample:update': 'update samples',
+  'sample:update_steps': 'update sample steps',
+  'sample:assign': 'assign samples',
+  'sample:reprioritize': 'reprioritize samples',
+  'sample:delete': 'delete samples',
+  'sample:read_internal': 'see internal notes and audit history',
+  'sample:import': 'import sample spreadsheets',
+  'sample:export': 'export samples',
+  'lab:operate': 'manage flow cells, sequencing runs and run reports',
+  'intake:review': 'review extracted submission forms',
+  'sample:query': 'use the sample query assistant',
+}
+
+// own: samples the user created or submitted under their email; assigned: samples assigned to them by name; any: every sample
+export type AccessScope = 'own' | 'assigned' | 'any'
+
+export const PERMISSION_MATRIX: Record<SampleRole, Partial<Record<SamplePermission, AccessScope>>> = {
+  submitter: {
+    'sample:read': 'own',
+    'sample:create': 'any',
+  },
+  technician: {
+    'sample:read': 'any',
+    'sample:create': 'any',
+    'sample:update': 'assigned',
+    'sample:update_steps': 'assigned',
+    'sample:read_internal': 'any',
+    'sample:import': 'any',
+    'sample:export': 'any',
+    'lab:operate': 'any',
+    'intake:review': 'any',
+    'sample:query': 'any',
+  },
+  lab_manager: {
+    'sample:read': 'any',
+    'sample:create': 'any',
+    'sample:update': 'any',
+    'sample:update_steps': 'any',
+    'sample:assign': 'any',
+    'sample:reprioritize': 'any',
+    'sample:delete': 'any',
+    'sample:read_internal': 'any',
+    'sample:import': 'any',
+    'sample:export': 'any',
+    'lab:operate': 'any',
+    'intake:review': 'any',
+    'sample:query': 'any',
+  },
+  admin: Object.fromEntries(SAMPLE_PERMISSIONS.map(permission => [permission, 'any'])),
+}
+
+export interface AccessUser {
+  id: string
+  name: string
+  email: string
+  role: SampleRole
+  // The session proved the email belongs to the user; see isOwnedBy
+  emailVerified?: boolean | undefined
+}
+
+export interface SampleOwnership {
+  created_by: string
+  submitter_email?: string
+  assigned_to: string | null
+  library_prep_by?: string | null
+}
+
+export interface AccessDecision {
+  allowed: boolean
+  reason?: string
+}
+
+export const isSampleRole = (value: unknown): value is SampleRole =>
+  typeof value === 'string' && (SAMPLE_ROLES as readonly string[]).includes(value)
+
+const sameName = (a: string | null | undefined, b: string): boolean =>
+  !!a && a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * The id to record as created_by; admin sessions have no users row to own a sample
+ */
+export const recordedOwner = (user: AccessUser): string | undefined =>
+  user.id.startsWith('admin:') ? undefined : user.id
+
+/**
+ * The name a user acts under: note authorship and notification inboxes are keyed by it
+ */
+export const actorName = (user: AccessUser): string => user.name || user.email
+
+/**
+ * Staff often enter samples for external submitters, so the submitter email also counts as ownership
+ * once the user has signed in through a link sent to that email
+ */
+export function isOwnedBy(user: AccessUser, sample: SampleOwnership): boolean {
+  return sample.created_by === user.id
+    || (!!user.emailVerified && !!user.email && sameName(sample.submitter_email, user.email))
+}
+
+/**
+ * Assignments are by staff name, so match on the user's name or email
+ */
+export function isAssignedTo(user: AccessUser, sample: SampleOwnership): boolean {
+  return [sample.assigned_to, sample.library_prep_by].some(assignee =>
+    sameName(assignee, user.name) || sameName(assignee, user.email)
+  )
+}
+
+export function authorizeSampleAccess(
+  user: AccessUser,
+  permission: SamplePermission,
+  sample?: SampleOwnership
+): AccessDecision {
+  const scope = PERMISSION_MATRIX[user.role]?.[permission]
+  if (!scope) {
+    return { allowed: false, reason: `${SAMPLE_ROLE_LABELS[user.role] ?? user.role} role cannot ${PERMISSION_ACTIONS[permission]}` }
+  }
+  if (scope === 'any') {
+    return { allowed: true }
+  }
+  // Own and assigned scopes are about a particular sample, so there must be one to check
+  if (!sample) {
+    return { allowed: false, reason: 'No sample found to check your access against' }
+  }
+  if (scope === 'own' && !isOwnedBy(user, sample)) {
+    return { allowed: false, reason: 'Only samples you submitted are available to you' }
+  }
+  if (scope === 'assigned' && !isAssignedTo(user, sample)) {
+    return { allowed: false, reason: 'This sample is not assigned to you' }
+  }
+  return { allowed: true }
+}
+
+/**
+ * Permissions a request needs, based on the fields it changes.
+ * Edit forms send every field, so values equal to the sample's current ones do not count as changes.
+ */
+export function requiredPermissions(
+  permission: SamplePermission,
+  input: unknown,
+  sample?: SampleOwnership & { priority?: string; status?: string | null }
+): SamplePermission[] {
+  const data: Record<string, unknown> =
+    permission === 'sample:update' && isRecord(input) && isRecord(input.data) ? input.data
+    : permission === 'sample:create' && isRecord(input) ? input
+    : {}
+  const changes = (field: string, current: unknown) =>
+    data[field] !== undefined && (!sample || (data[field] || null) !== (current ?? null))
+
+  const required = new Set<SamplePermission>([permission])
+  if (changes('assignedTo', sample?.assigned_to) || changes('libraryPrepBy', sample?.library_prep_by)) {
+    required.add('sample:assign')
+  }
+  if (permission === 'sample:update') {
+    if (changes('priority', sample?.priority)) required.add('sample:reprioritize')
+    if (changes('status', sample?.status)) required.add('sample:update_steps')
+  }
+  return [...required]
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Sample a procedure's raw input refers to: the input itself, or its id or sampleId
+ */
+export function sampleIdFromInput(input: unknown): string | null {
+  const candidate = typeof input === 'string' ? input
+    : isRecord(input) ? (input.sampleId ?? input.id)
+    : null
+  return typeof candidate === 'string' && UUID.test(candidate) ? candidate : null
+}
+
+/**
+ * Samples the user may read
+ */
+export function filterVisibleSamples<T extends SampleOwnership>(user: AccessUser, samples: T[]): T[] {
+  return samples.filter(sample => authorizeSampleAccess(user, 'sample:read', sample).allowed)
+}
+
+export function can(user: AccessUser | null | undefined, permission: SamplePermission, sample?: SampleOwnership): boolean {
+  return !!user && authorizeSampleAccess(user, permission, sample).allowed
+}
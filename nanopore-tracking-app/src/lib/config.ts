@@ -9,8 +9,17 @@ export interface AppConfig {
   
   // AI/ML Services
   ai: {
+    // Driver behind every AI feature: a local Ollama, an OpenAI-compatible server
+    // (llama.cpp, vLLM, ...) or recorded responses for offline runs
+    provider: 'ollama' | 'openai-compatible' | 'replay'
     ollamaHost: string
+    baseUrl: string
+    apiKey: string
     defaultModel: string
+    embeddingModel: string
+    replayFile: string
+    // AI processing service, which plans sample queries for the query assistant
+    serviceUrl: string
     enabled: boolean
     timeout: number
   }
@@ -106,8 +115,14 @@ export const config: AppConfig = {
   },
   
   ai: {
+    provider: (process.env.AI_PROVIDER as AppConfig['ai']['provider']) || 'ollama',
     ollamaHost: getEnvVar('OLLAMA_HOST', 'http://localhost:11434'),
+    baseUrl: getEnvVar('AI_BASE_URL', 'http://localhost:8080/v1'),
+    apiKey: process.env.AI_API_KEY || '',
     defaultModel: getEnvVar('OLLAMA_MODEL', 'llama3.2'),
+    embeddingModel: getEnvVar('AI_EMBEDDING_MODEL', 'nomic-embed-text'),
+    replayFile: getEnvVar('AI_REPLAY_FILE', './llm-recordings.json'),
+    serviceUrl: getEnvVar('AI_SERVICE_URL', 'http://localhost:3003'),
     enabled: getEnvBoolean('ENABLE_AI_FEATURES', true),
     timeout: getEnvNumber('AI_TIMEOUT', 30000)
   },
@@ -186,7 +201,10 @@ export function validateConfig(): void {
   }
   
   // AI service validation
-  if (config.features.aiFeatures && !config.ai.ollamaHost) {
+  if (!['ollama', 'openai-compatible', 'replay'].includes(config.ai.provider)) {
+    errors.push('AI_PROVIDER must be one of ollama, openai-compatible or replay')
+  }
+  if (config.features.aiFeatures && config.ai.provider === 'ollama' && !config.ai.ollamaHost) {
     errors.push('OLLAMA_HOST must be set when AI features are enabled')
   }
   
@@ -12,6 +12,8 @@ export interface Database {
     id: string
     email: string
     name: string
+    role: 'submitter' | 'technician' | 'lab_manager' | 'admin'
+    password_hash: string | null
     created_at: Date
     updated_at: Date
   }
@@ -40,6 +42,10 @@ export interface Database {
     created_at: Date
     updated_at: Date
     created_by: string
+    workflow_template_id: string | null
+    projected_completion_at: Date | null
+    sla_risk: 'on_track' | 'at_risk' | 'breached'
+    sla_risk_updated_at: Date | null
   }
   nanopore_sample_details: {
     id: string
@@ -53,6 +59,25 @@ export interface Database {
     run_time_hours: number | null
     basecalling_model: string | null
     special_instructions: string | null
+    qc_passed: boolean | null
+    qc_notes: string | null
+    created_at: Date
+    updated_at: Date
+  }
+  nanopore_processing_steps: {
+    id: string
+    sample_id: string
+    step_name: string
+    step_status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped'
+    assigned_to: string | null
+    started_at: Date | null
+    completed_at: Date | null
+    estimated_duration_hours: number | null
+    notes: string | null
+    results_data: Record<string, any> | null
+    step_order: number | null
+    required_role: string | null
+    depends_on: string[]
     created_at: Date
     updated_at: Date
   }
@@ -68,6 +93,233 @@ export interface Database {
     uploaded_at: Date
     created_at: Date
   }
+  flow_cells: {
+    id: string
+    serial_number: string
+    lot_number: string
+    flow_cell_type: 'R9.4.1' | 'R10.4.1' | 'Flongle' | 'PromethION'
+    expiry_date: Date
+    status: 'in_stock' | 'reserved' | 'in_use' | 'washed' | 'spent'
+    last_pore_count: number | null
+    last_pore_check_at: Date | null
+    wash_count: number
+    notes: string | null
+    received_at: Date
+    created_at: Date
+    updated_at: Date
+  }
+  flow_cell_pore_checks: {
+    id: string
+    flow_cell_id: string
+    pore_count: number
+    passed: boolean
+    checked_by: string | null
+    checked_at: Date
+  }
+  flow_cell_usages: {
+    id: string
+    flow_cell_id: string
+    sample_id: string
+    wash_cycle: number
+    status: 'reserved' | 'in_use' | 'completed' | 'released'
+    reserved_at: Date
+    started_at: Date | null
+    ended_at: Date | null
+  }
+  sequencing_runs: {
+    id: string
+    run_name: string
+    flow_cell_id: string
+    device_id: string
+    device_position: string | null
+    barcode_kit: string
+    status: 'planned' | 'running' | 'completed' | 'failed' | 'cancelled'
+    started_at: Date | null
+    completed_at: Date | null
+    notes: string | null
+    created_by: string | null
+    created_at: Date
+    updated_at: Date
+  }
+  sequencing_run_samples: {
+    id: string
+    run_id: string
+    sample_id: string
+    barcode: string
+    created_at: Date
+  }
+  export_presets: {
+    id: string
+    name: string
+    description: string | null
+    columns: string[]
+    filters: Record<string, any>
+    format: 'csv' | 'tsv' | 'xlsx' | 'ndjson'
+    created_by: string | null
+    created_at: Date
+    updated_at: Date
+  }
+  pdf_form_templates: {
+    id: string
+    template_key: string
+    version: number
+    name: string
+    definition: Record<string, any>
+    status: 'active' | 'retired'
+    created_by: string | null
+    retired_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }
+  workflow_templates: {
+    id: string
+    template_key: string
+    version: number
+    name: string
+    description: string | null
+    sample_type: string | null
+    library_prep_kit_pattern: string | null
+    barcoding_required: boolean | null
+    status: 'active' | 'retired'
+    created_by: string | null
+    retired_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }
+  sample_notes: {
+    id: string
+    sample_id: string
+    parent_id: string | null
+    author: string
+    body: string
+    visibility: 'internal' | 'submitter'
+    mentions: string[]
+    edited_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }
+  sample_note_revisions: {
+    id: string
+    note_id: string
+    body: string
+    visibility: 'internal' | 'submitter'
+    edited_by: string
+    created_at: Date
+  }
+  sample_note_attachments: {
+    note_id: string
+    attachment_id: string
+  }
+  notifications: {
+    id: string
+    recipient: string
+    type: string
+    title: string
+    body: string | null
+    sample_id: string | null
+    note_id: string | null
+    read_at: Date | null
+    dedupe_key: string | null
+    created_at: Date
+  }
+  notification_preferences: {
+    recipient: string
+    muted_types: string[]
+    created_at: Date
+    updated_at: Date
+  }
+  email_templates: {
+    template_key: string
+    subject: string
+    body: string
+    updated_by: string | null
+    created_at: Date
+    updated_at: Date
+  }
+  email_preferences: {
+    email: string
+    opted_out: boolean
+    digest: boolean
+    unsubscribe_token: string
+    created_at: Date
+    updated_at: Date
+  }
+  email_outbox: {
+    id: string
+    recipient: string
+    template_key: string
+    subject: string
+    body: string
+    sample_id: string | null
+    event_id: string | null
+    status: 'pending' | 'sent' | 'failed' | 'digest' | 'digested'
+    attempts: number
+    next_attempt_at: Date
+    last_error: string | null
+    digest_id: string | null
+    sent_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }
+  workflow_template_steps: {
+    id: string
+    template_id: string
+    step_order: number
+    step_name: string
+    estimated_duration_hours: number | null
+    required_role: string | null
+    depends_on: string[]
+    created_at: Date
+  }
+  extraction_reviews: {
+    id: string
+    file_name: string
+    file_path: string
+    page_count: number
+    extraction_method: string
+    confidence: number
+    form_template_id: string | null
+    issues: string[]
+    status: 'pending' | 'approved' | 'rejected'
+    sample_id: string | null
+    submitted_by: string | null
+    reviewed_by: string | null
+    reviewed_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }
+  extraction_review_fields: {
+    id: string
+    review_id: string
+    field_name: string
+    extracted_value: string | null
+    confidence: number
+    source: string
+    page_number: number | null
+    bounding_box: { x: number; y: number; width: number; height: number } | null
+    context: string | null
+    decision: 'pending' | 'accepted' | 'edited' | 'rejected'
+    final_value: string | null
+    decided_by: string | null
+    decided_at: Date | null
+  }
+  extraction_examples: {
+    id: string
+    field_name: string
+    context: string | null
+    extracted_value: string | null
+    corrected_value: string | null
+    form_template_id: string | null
+    review_id: string | null
+    created_by: string | null
+    created_at: Date
+  }
+  portal_link_redemptions: {
+    token_hash: string
+    email: string
+    expires_at: Date
+    redeemed_at: Date
+  }
 }
 
 /**
@@ -7,6 +7,8 @@ export interface Database {
   nanopore_sample_details: NanoporeSampleDetailsTable
   nanopore_processing_steps: NanoporeProcessingStepsTable
   nanopore_attachments: NanoporeAttachmentsTable
+  workflow_templates: WorkflowTemplatesTable
+  workflow_template_steps: WorkflowTemplateStepsTable
 }
 
 export interface UsersTable {
@@ -36,12 +38,17 @@ export interface NanoporeSamplesTable {
   priority: 'low' | 'normal' | 'high' | 'urgent'
   assigned_to: string | null
   library_prep_by: string | null
+  chart_field: Generated<string>
   submitted_at: ColumnType<Date, string | undefined, never>
   started_at: ColumnType<Date, string | undefined, never>
   completed_at: ColumnType<Date, string | undefined, never>
   created_at: ColumnType<Date, string | undefined, never>
   updated_at: ColumnType<Date, string | undefined, never>
   created_by: string
+  workflow_template_id: string | null
+  projected_completion_at: ColumnType<Date | null, string | undefined, string | null>
+  sla_risk: Generated<'on_track' | 'at_risk' | 'breached'>
+  sla_risk_updated_at: ColumnType<Date | null, string | undefined, string | null>
 }
 
 export interface NanoporeSampleDetailsTable {
@@ -78,6 +85,9 @@ export interface NanoporeProcessingStepsTable {
   estimated_duration_hours: number | null
   notes: string | null
   results_data: any | null // JSONB type
+  step_order: number | null
+  required_role: string | null
+  depends_on: ColumnType<string[], string[] | undefined, string[]>
   created_at: ColumnType<Date, string | undefined, never>
   updated_at: ColumnType<Date, string | undefined, never>
 }
@@ -95,6 +105,33 @@ export interface NanoporeAttachmentsTable {
   created_at: ColumnType<Date, string | undefined, never>
 }
 
+export interface WorkflowTemplatesTable {
+  id: Generated<string>
+  template_key: string
+  version: Generated<number>
+  name: string
+  description: string | null
+  sample_type: string | null
+  library_prep_kit_pattern: string | null
+  barcoding_required: boolean | null
+  status: Generated<'active' | 'retired'>
+  created_by: string | null
+  retired_at: ColumnType<Date | null, string | undefined, string | null>
+  created_at: ColumnType<Date, string | undefined, never>
+  updated_at: ColumnType<Date, string | undefined, never>
+}
+
+export interface WorkflowTemplateStepsTable {
+  id: Generated<string>
+  template_id: string
+  step_order: number
+  step_name: string
+  estimated_duration_hours: number | null
+  required_role: string | null
+  depends_on: ColumnType<string[], string[] | undefined, string[]>
+  created_at: ColumnType<Date, string | undefined, never>
+}
+
 // Convenience types for use in application code
 export type User = Selectable<UsersTable>
 export type NewUser = Insertable<UsersTable>
@@ -116,6 +153,12 @@ export type NanoporeAttachment = Selectable<NanoporeAttachmentsTable>
 export type NewNanoporeAttachment = Insertable<NanoporeAttachmentsTable>
 export type UpdateNanoporeAttachment = Updateable<NanoporeAttachmentsTable>
 
+export type WorkflowTemplate = Selectable<WorkflowTemplatesTable>
+export type NewWorkflowTemplate = Insertable<WorkflowTemplatesTable>
+
+export type WorkflowTemplateStep = Selectable<WorkflowTemplateStepsTable>
+export type NewWorkflowTemplateStep = Insertable<WorkflowTemplateStepsTable>
+
 // Re-export Database as DB for compatibility
 export type DB = Database
 
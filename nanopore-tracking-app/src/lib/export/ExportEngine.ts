@@ -0,0 +1,320 @@
+import { z } from 'zod'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { DEFAULT_WORKFLOW_STEPS } from '../workflow/WorkflowTemplates'
+import { writeXlsx, type XlsxCellValue } from './XlsxWriter'
+
+/**
+ * Sample export engine
+ * Column catalog, filters and streaming serializers for CSV, TSV, XLSX and NDJSON
+ */
+
+export const EXPORT_FORMATS = ['csv', 'tsv', 'xlsx', 'ndjson'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const EXPORT_FORMAT_INFO: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  csv: { mimeType: 'text/csv; charset=utf-8', extension: 'csv' },
+  tsv: { mimeType: 'text/tab-separated-values; charset=utf-8', extension: 'tsv' },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  ndjson: { mimeType: 'application/x-ndjson', extension: 'ndjson' }
+}
+
+export type ExportValue = string | number | boolean | Date | null
+
+export interface ExportStep {
+  step_name: string
+  step_status: string
+  started_at: Date | null
+  completed_at: Date | null
+}
+
+/**
+ * One sample with its joined details and processing steps
+ */
+export interface ExportRow {
+  sample: Record<string, unknown>
+  details: Record<string, unknown> | null
+  steps: ExportStep[]
+}
+
+export type ExportColumnGroup = 'sample' | 'details' | 'steps'
+
+export interface ExportColumn {
+  key: string
+  label: string
+  group: ExportColumnGroup
+  value: (row: ExportRow) => ExportValue
+}
+
+const toValue = (value: unknown): ExportValue => {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  return JSON.stringify(value)
+}
+
+const hoursBetween = (start: Date | null, end: Date | null): number | null =>
+  start && end ? Math.round(((new Date(end).getTime() - new Date(start).getTime()) / 3_600_000) * 100) / 100 : null
+
+const SAMPLE_FIELDS: Array<[string, string]> = [
+  ['id', 'ID'],
+  ['sample_name', 'Sample Name'],
+  ['project_id', 'Project ID'],
+  ['submitter_name', 'Submitter Name'],
+  ['submitter_email', 'Submitter Email'],
+  ['lab_name', 'Lab Name'],
+  ['sample_type', 'Sample Type'],
+  ['sample_buffer', 'Sample Buffer'],
+  ['concentration', 'Concentration'],
+  ['volume', 'Volume'],
+  ['total_amount', 'Total Amount'],
+  ['flow_cell_type', 'Flow Cell Type'],
+  ['flow_cell_count', 'Flow Cell Count'],
+  ['status', 'Status'],
+  ['priority', 'Priority'],
+  ['assigned_to', 'Assigned To'],
+  ['library_prep_by', 'Library Prep By'],
+  ['submitted_at', 'Submitted At'],
+  ['started_at', 'Started At'],
+  ['completed_at', 'Completed At'],
+  ['created_at', 'Created At'],
+  ['updated_at', 'Updated At'],
+  ['sla_risk', 'SLA Risk'],
+  ['projected_completion_at', 'Projected Completion'],
+]
+
+/**
+ * nanopore_sample_details fields exposed for export, also used to build the join
+ */
+export const DETAIL_FIELDS = [
+  'organism',
+  'genome_size',
+  'expected_read_length',
+  'library_prep_kit',
+  'barcoding_required',
+  'barcode_kit',
+  'run_time_hours',
+  'basecalling_model',
+  'special_instructions',
+  'qc_passed',
+  'qc_notes',
+] as const
+
+const DETAIL_LABELS: Record<typeof DETAIL_FIELDS[number], string> = {
+  organism: 'Organism',
+  genome_size: 'Genome Size',
+  expected_read_length: 'Expected Read Length',
+  library_prep_kit: 'Library Prep Kit',
+  barcoding_required: 'Barcoding Required',
+  barcode_kit: 'Barcode Kit',
+  run_time_hours: 'Run Time (h)',
+  basecalling_model: 'Basecalling Model',
+  special_instructions: 'Special Instructions',
+  qc_passed: 'QC Passed',
+  qc_notes: 'QC Notes',
+}
+
+const STEP_FIELDS = {
+  status: 'Status',
+  started_at: 'Started',
+  completed_at: 'Completed',
+  duration_hours: 'Duration (h)',
+} as const
+type StepField = keyof typeof STEP_FIELDS
+
+const SUMMARY_COLUMNS: ExportColumn[] = [
+  {
+    key: 'steps.completed',
+    label: 'Steps Completed',
+    group: 'steps',
+    value: row => row.steps.filter(step => step.step_status === 'completed').length
+  },
+  {
+    key: 'steps.total',
+    label: 'Steps Total',
+    group: 'steps',
+    value: row => row.steps.length
+  },
+  {
+    key: 'steps.current',
+    label: 'Current Step',
+    group: 'steps',
+    value: row => (
+      row.steps.find(step => step.step_status === 'in_progress') ??
+      row.steps.find(step => step.step_status === 'pending')
+    )?.step_name ?? null
+  },
+  {
+    key: 'steps.processing_hours',
+    label: 'Processing Time (h)',
+    group: 'steps',
+    value: row => {
+      const started = row.steps.map(step => step.started_at).filter((d): d is Date => Boolean(d))
+      const completed = row.steps.map(step => step.completed_at).filter((d): d is Date => Boolean(d))
+      if (started.length === 0 || completed.length === 0) return null
+      const first = new Date(Math.min(...started.map(d => new Date(d).getTime())))
+      const last = new Date(Math.max(...completed.map(d => new Date(d).getTime())))
+      return hoursBetween(first, last)
+    }
+  },
+]
+
+function stepColumn(stepName: string, field: StepField): ExportColumn {
+  return {
+    key: `step:${stepName}:${field}`,
+    label: `${stepName} ${STEP_FIELDS[field]}`,
+    group: 'steps',
+    value: row => {
+      // Repeated steps report their latest attempt
+      const step = row.steps.filter(s => s.step_name === stepName).pop()
+      if (!step) return null
+      switch (field) {
+        case 'status':
+          return step.step_status
+        case 'started_at':
+          return step.started_at
+        case 'completed_at':
+          return step.completed_at
+        case 'duration_hours':
+          return hoursBetween(step.started_at, step.completed_at)
+      }
+    }
+  }
+}
+
+const STATIC_COLUMNS: ExportColumn[] = [
+  ...SAMPLE_FIELDS.map(([field, label]): ExportColumn => ({
+    key: field,
+    label,
+    group: 'sample',
+    value: row => toValue(row.sample[field])
+  })),
+  ...DETAIL_FIELDS.map((field): ExportColumn => ({
+    key: `details.${field}`,
+    label: DETAIL_LABELS[field],
+    group: 'details',
+    value: row => toValue(row.details?.[field])
+  })),
+  ...SUMMARY_COLUMNS,
+]
+
+/**
+ * Columns offered in the picker. Step columns for other step names can still be requested by key.
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  ...STATIC_COLUMNS,
+  ...DEFAULT_WORKFLOW_STEPS.flatMap(step => (['status', 'duration_hours'] as const).map(field => stepColumn(step.stepName, field))),
+]
+
+/**
+ * The 22 columns the original CSV export produced
+ */
+export const DEFAULT_EXPORT_COLUMNS = SAMPLE_FIELDS.slice(0, 22).map(([field]) => field)
+
+export function resolveExportColumns(keys: string[]): ExportColumn[] {
+  return keys.map(key => {
+    const known = STATIC_COLUMNS.find(column => column.key === key)
+    if (known) return known
+
+    const stepMatch = key.match(/^step:(.+):(status|started_at|completed_at|duration_hours)$/)
+    if (stepMatch) return stepColumn(stepMatch[1]!, stepMatch[2] as StepField)
+
+    throw new ValidationError(`Unknown export column '${key}'`, 'columns')
+  })
+}
+
+export const exportFiltersSchema = z.object({
+  submittedFrom: z.coerce.date().optional(),
+  submittedTo: z.coerce.date().optional(),
+  statuses: z.array(z.enum(['submitted', 'prep', 'sequencing', 'analysis', 'completed', 'archived'])).optional(),
+  priorities: z.array(z.enum(['low', 'normal', 'high', 'urgent'])).optional(),
+  assignedTo: z.array(z.string().min(1)).optional(),
+  labNames: z.array(z.string().min(1)).optional(),
+})
+
+export type ExportFilters = z.infer<typeof exportFiltersSchema>
+
+export const exportRequestSchema = z.object({
+  columns: z.array(z.string().min(1)).min(1).max(200),
+  filters: exportFiltersSchema.default({}),
+  format: z.enum(EXPORT_FORMATS),
+})
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>
+
+const formatValue = (value: ExportValue): string => {
+  if (value === null) return ''
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+export function escapeDelimitedField(value: string, delimiter: ',' | '\t'): string {
+  if (delimiter === '\t') {
+    // TSV has no quoting, so separators inside values become spaces
+    return value.replace(/[\t\r\n]+/g, ' ')
+  }
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+const toCell = (value: ExportValue): XlsxCellValue =>
+  value instanceof Date ? value.toISOString() : value
+
+/**
+ * Serialize batches of rows into the requested format, one chunk per batch
+ */
+export async function* serializeExport(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  batches: AsyncIterable<ExportRow[]>
+): AsyncGenerator<string | Uint8Array> {
+  switch (format) {
+    case 'csv':
+    case 'tsv': {
+      const delimiter = format === 'csv' ? ',' : '\t'
+      const line = (values: string[]) => values.map(v => escapeDelimitedField(v, delimiter)).join(delimiter) + '\n'
+
+      yield line(columns.map(column => column.label))
+      for await (const batch of batches) {
+        yield batch.map(row => line(columns.map(column => formatValue(column.value(row))))).join('')
+      }
+      return
+    }
+
+    case 'ndjson': {
+      for await (const batch of batches) {
+        yield batch.map(row => JSON.stringify(
+          Object.fromEntries(columns.map(column => [column.key, column.value(row)]))
+        ) + '\n').join('')
+      }
+      return
+    }
+
+    case 'xlsx': {
+      async function* sheetRows(): AsyncGenerator<XlsxCellValue[][]> {
+        yield [columns.map(column => column.label)]
+        for await (const batch of batches) {
+          yield batch.map(row => columns.map(column => toCell(column.value(row))))
+        }
+      }
+      yield* writeXlsx('Samples', sheetRows())
+      return
+    }
+  }
+}
+
+export function exportFilename(format: ExportFormat, name = 'nanopore-samples', now: Date = new Date()): string {
+  const safeName = name.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-|-$/g, '') || 'nanopore-samples'
+  return `${safeName}-${now.toISOString().split('T')[0]}.${EXPORT_FORMAT_INFO[format].extension}`
+}
+
+/**
+ * Whether any selected column needs processing steps, so the step query can be skipped
+ */
+export const columnsNeedSteps = (columns: ExportColumn[]): boolean =>
+  columns.some(column => column.group === 'steps')
+
+export const columnsNeedDetails = (columns: ExportColumn[]): boolean =>
+  columns.some(column => column.group === 'details')
@@ -0,0 +1,88 @@
+import { ZipStreamWriter } from '../zip/ZipArchive'
+
+/**
+ * Streaming XLSX writer
+ * Emits a single-sheet workbook as zip chunks so large exports never sit in memory whole.
+ * Cells use inline strings, which keeps the package to the five parts Excel requires.
+ */
+
+export type XlsxCellValue = string | number | boolean | null
+
+// Characters XML 1.0 cannot represent at all
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!))
+
+function renderCell(value: XlsxCellValue): string {
+  if (value === null || value === '') return '<c/>'
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c><v>${value}</v></c>` : '<c/>'
+  }
+  if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+export function renderRow(rowNumber: number, values: XlsxCellValue[]): string {
+  return `<row r="${rowNumber}">${values.map(renderCell).join('')}</row>`
+}
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '</Types>'
+
+const ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>'
+
+const WORKBOOK_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '</Relationships>'
+
+const workbookXml = (sheetName: string) => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+  '</workbook>'
+
+const SHEET_START = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+const SHEET_END = '</sheetData></worksheet>'
+
+/**
+ * Write a workbook with one sheet. The first row from `rows` is treated like any other,
+ * so callers pass the header row first.
+ */
+export async function* writeXlsx(
+  sheetName: string,
+  rows: AsyncIterable<XlsxCellValue[][]>
+): AsyncGenerator<Uint8Array> {
+  const zip = new ZipStreamWriter()
+
+  yield zip.storedEntry('[Content_Types].xml', CONTENT_TYPES)
+  yield zip.storedEntry('_rels/.rels', ROOT_RELS)
+  yield zip.storedEntry('xl/workbook.xml', workbookXml(sheetName))
+  yield zip.storedEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS)
+
+  const { header, entry } = zip.beginStreamedEntry('xl/worksheets/sheet1.xml')
+  yield header
+  yield zip.writeStreamed(entry, SHEET_START)
+
+  let rowNumber = 0
+  for await (const batch of rows) {
+    if (batch.length === 0) continue
+    yield zip.writeStreamed(entry, batch.map(values => renderRow(++rowNumber, values)).join(''))
+  }
+
+  yield zip.writeStreamed(entry, SHEET_END)
+  yield zip.endStreamedEntry(entry)
+  yield zip.centralDirectory()
+}
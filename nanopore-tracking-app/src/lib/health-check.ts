@@ -1,5 +1,7 @@
 import { db, testDatabaseConnection } from './database'
 import { aiService } from './ai/ollama-service'
+import { llmProvider } from './ai/llm-providers'
+import { completeText, healthCheckPrompt } from './ai/prompt-templates'
 import { config, isFeatureEnabled } from './config'
 
 export interface HealthCheckResult {
@@ -84,7 +86,7 @@ export class HealthChecker {
       if (isAvailable) {
         // Test AI functionality with a simple query
         try {
-          const testResponse = await aiService.generateResponse('Hello, respond with "OK"')
+          const { content: testResponse } = await completeText(llmProvider, healthCheckPrompt, {})
           const testPassed = testResponse.toLowerCase().includes('ok')
           
           return {
@@ -94,7 +96,7 @@ export class HealthChecker {
             timestamp: new Date(),
             responseTime,
             details: {
-              host: config.ai.ollamaHost,
+              provider: llmProvider.name,
               model: config.ai.defaultModel,
               testResponse: testResponse.substring(0, 100)
             }
@@ -107,7 +109,7 @@ export class HealthChecker {
             timestamp: new Date(),
             responseTime,
             details: {
-              host: config.ai.ollamaHost,
+              provider: llmProvider.name,
               error: testError instanceof Error ? testError.message : 'Unknown error'
             }
           }
@@ -119,7 +121,7 @@ export class HealthChecker {
           message: 'AI service unavailable',
           timestamp: new Date(),
           responseTime,
-          details: { host: config.ai.ollamaHost }
+          details: { provider: llmProvider.name }
         }
       }
     } catch (error) {
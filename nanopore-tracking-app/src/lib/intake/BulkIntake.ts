@@ -0,0 +1,267 @@
+import type { z } from 'zod'
+import { createSampleValidation, validateChartField } from '../../middleware/validation/ValidationRules'
+import { escapeDelimitedField } from '../export/ExportEngine'
+
+/**
+ * Bulk sample intake
+ * Maps spreadsheet headers onto sample fields and validates each row the way
+ * the single-sample form is validated.
+ */
+
+export type IntakeSampleData = z.infer<typeof createSampleValidation> & {
+  specialInstructions?: string | undefined
+}
+
+interface IntakeFieldDefinition {
+  label: string
+  required: boolean
+  aliases: string[]
+  kind: 'text' | 'number' | 'integer'
+}
+
+export const INTAKE_FIELDS = {
+  sampleName: { label: 'Sample Name', required: true, kind: 'text', aliases: ['sample', 'sample id', 'sample identifier', 'name'] },
+  projectId: { label: 'Project ID', required: false, kind: 'text', aliases: ['project', 'project number', 'project code', 'ilab id'] },
+  submitterName: { label: 'Submitter Name', required: true, kind: 'text', aliases: ['submitter', 'submitted by', 'contact', 'contact name'] },
+  submitterEmail: { label: 'Submitter Email', required: true, kind: 'text', aliases: ['email', 'e-mail', 'email address', 'contact email'] },
+  labName: { label: 'Lab Name', required: false, kind: 'text', aliases: ['lab', 'laboratory', 'pi lab', 'group'] },
+  sampleType: { label: 'Sample Type', required: true, kind: 'text', aliases: ['type', 'material', 'nucleic acid'] },
+  sampleBuffer: { label: 'Sample Buffer', required: false, kind: 'text', aliases: ['buffer', 'elution buffer'] },
+  concentration: { label: 'Concentration', required: false, kind: 'number', aliases: ['conc', 'ng/ul', 'qubit'] },
+  volume: { label: 'Volume', required: false, kind: 'number', aliases: ['vol', 'ul'] },
+  totalAmount: { label: 'Total Amount', required: false, kind: 'number', aliases: ['amount', 'total ng', 'mass'] },
+  flowCellType: { label: 'Flow Cell Type', required: false, kind: 'text', aliases: ['flow cell', 'flowcell', 'chemistry'] },
+  flowCellCount: { label: 'Flow Cell Count', required: false, kind: 'integer', aliases: ['flow cells', 'number of flow cells', 'flowcell count'] },
+  priority: { label: 'Priority', required: false, kind: 'text', aliases: ['urgency'] },
+  assignedTo: { label: 'Assigned To', required: false, kind: 'text', aliases: ['assignee', 'owner'] },
+  libraryPrepBy: { label: 'Library Prep By', required: false, kind: 'text', aliases: ['prepped by', 'library prep'] },
+  chartField: { label: 'Chart Field', required: true, kind: 'text', aliases: ['chart', 'chart string', 'account', 'billing'] },
+  specialInstructions: { label: 'Special Instructions', required: false, kind: 'text', aliases: ['instructions', 'notes', 'comments'] },
+} satisfies Record<string, IntakeFieldDefinition>
+
+export type IntakeField = keyof typeof INTAKE_FIELDS
+
+export const INTAKE_FIELD_NAMES = Object.keys(INTAKE_FIELDS) as IntakeField[]
+
+/**
+ * Field name to zero-based column index
+ */
+export type ColumnMapping = Partial<Record<IntakeField, number>>
+
+export interface IntakeRow {
+  rowNumber: number
+  cells: string[]
+  data: IntakeSampleData | null
+  errors: string[]
+}
+
+export interface IntakeAnalysis {
+  headers: string[]
+  mapping: ColumnMapping
+  unmappedRequired: IntakeField[]
+  rows: IntakeRow[]
+}
+
+// Minimum similarity for a header to be matched to a field
+const MATCH_THRESHOLD = 0.75
+
+const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+/**
+ * Similarity of a header to a field's label, name and aliases, from 0 to 1
+ */
+export function headerScore(field: IntakeField, header: string): number {
+  const normalized = normalizeHeader(header)
+  if (!normalized) return 0
+
+  const compact = normalized.replace(/ /g, '')
+  const candidates = [
+    INTAKE_FIELDS[field].label,
+    field.replace(/([A-Z])/g, ' $1'),
+    ...INTAKE_FIELDS[field].aliases,
+  ].map(normalizeHeader)
+
+  return Math.max(...candidates.map(candidate => {
+    const candidateCompact = candidate.replace(/ /g, '')
+    if (candidateCompact === compact) return 1
+    // "Sample Name (required)" or "Submitter E-mail address" still point at the field
+    if (candidate.length >= 4 && ` ${normalized} `.includes(` ${candidate} `)) return 0.85
+    return 1 - levenshtein(candidateCompact, compact) / Math.max(candidateCompact.length, compact.length)
+  }))
+}
+
+/**
+ * Match headers to fields, best scores first, each header and field used once
+ */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const pairs = INTAKE_FIELD_NAMES
+    .flatMap(field => headers.map((header, column) => ({ field, column, score: headerScore(field, header) })))
+    .filter(pair => pair.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+
+  const mapping: ColumnMapping = {}
+  const usedColumns = new Set<number>()
+  for (const { field, column } of pairs) {
+    if (mapping[field] !== undefined || usedColumns.has(column)) continue
+    mapping[field] = column
+    usedColumns.add(column)
+  }
+  return mapping
+}
+
+// Labels from the single-sample form that stand for one of the stored sample types
+const SAMPLE_TYPE_ALIASES: Record<string, string> = {
+  dna: 'DNA',
+  gdna: 'DNA',
+  'genomic dna': 'DNA',
+  amplicon: 'DNA',
+  'plasmid dna': 'DNA',
+  plasmid: 'DNA',
+  'pcr product': 'DNA',
+  cdna: 'DNA',
+  rna: 'RNA',
+  'total rna': 'RNA',
+  mrna: 'RNA',
+  protein: 'Protein',
+  other: 'Other',
+}
+
+const FLOW_CELL_TYPES = ['R9.4.1', 'R10.4.1', 'R10.5.1', 'Other']
+
+function normalizeValue(field: IntakeField, value: string): string {
+  switch (field) {
+    case 'sampleType':
+      return SAMPLE_TYPE_ALIASES[value.toLowerCase().replace(/\s+/g, ' ')] ?? value
+    case 'priority':
+      return value.toLowerCase()
+    case 'flowCellType': {
+      // Submitters often drop the R prefix, e.g. "10.4.1"
+      const candidate = /^\d/.test(value) ? `R${value}` : value
+      return FLOW_CELL_TYPES.find(type => type.toLowerCase() === candidate.toLowerCase()) ?? value
+    }
+    case 'chartField':
+      return value.toUpperCase()
+    default:
+      return value
+  }
+}
+
+/**
+ * Validate one spreadsheet row with the same rules as the single-sample form
+ */
+export function validateIntakeRow(cells: string[], mapping: ColumnMapping): { data: IntakeSampleData | null; errors: string[] } {
+  const errors: string[] = []
+  const input: Record<string, unknown> = {}
+
+  for (const field of INTAKE_FIELD_NAMES) {
+    const column = mapping[field]
+    const raw = column === undefined ? '' : (cells[column] ?? '').trim()
+    if (raw === '') continue
+
+    const { kind, label } = INTAKE_FIELDS[field]
+    if (kind === 'text') {
+      input[field] = normalizeValue(field, raw)
+      continue
+    }
+
+    // Units such as "12.5 ng/uL" or thousands separators are tolerated
+    const numeric = Number(raw.replace(/,/g, '').match(/^-?\d*\.?\d+(?:e-?\d+)?/i)?.[0])
+    if (Number.isNaN(numeric)) {
+      errors.push(`${label}: '${raw}' is not a number`)
+    } else if (kind === 'integer' && !Number.isInteger(numeric)) {
+      errors.push(`${label}: '${raw}' must be a whole number`)
+    } else {
+      input[field] = numeric
+    }
+  }
+
+  const parsed = createSampleValidation.safeParse(input)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path[0] as IntakeField | undefined
+      const label = field && field in INTAKE_FIELDS ? INTAKE_FIELDS[field].label : 'Row'
+      errors.push(`${label}: ${issue.message === 'Required' ? 'is required' : issue.message}`)
+    }
+  } else if (!validateChartField(parsed.data.chartField)) {
+    errors.push(`Chart Field: '${parsed.data.chartField}' is not part of the intake validation list`)
+  }
+
+  if (errors.length > 0 || !parsed.success) {
+    return { data: null, errors }
+  }
+
+  const specialInstructions = typeof input.specialInstructions === 'string'
+    ? input.specialInstructions.slice(0, 2000)
+    : undefined
+  return { data: { ...parsed.data, specialInstructions }, errors }
+}
+
+/**
+ * Validate every data row of a sheet. The first non-blank row holds the headers.
+ */
+export function analyzeIntakeSheet(rows: string[][], mappingOverride?: ColumnMapping): IntakeAnalysis {
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() !== ''))
+  const headers = headerIndex < 0 ? [] : rows[headerIndex]!.map(cell => cell.trim())
+  const mapping = mappingOverride ?? autoMapColumns(headers)
+
+  const unmappedRequired = INTAKE_FIELD_NAMES.filter(field => INTAKE_FIELDS[field].required && mapping[field] === undefined)
+  const seenNames = new Map<string, number>()
+  const analyzed: IntakeRow[] = []
+
+  rows.forEach((cells, index) => {
+    if (index <= headerIndex || cells.every(cell => cell.trim() === '')) return
+
+    const rowNumber = index + 1
+    const { data, errors } = validateIntakeRow(cells, mapping)
+
+    if (data) {
+      const key = data.sampleName.toLowerCase()
+      const firstRow = seenNames.get(key)
+      if (firstRow !== undefined) {
+        errors.push(`Sample Name: '${data.sampleName}' duplicates row ${firstRow}`)
+      } else {
+        seenNames.set(key, rowNumber)
+      }
+    }
+
+    analyzed.push({ rowNumber, cells, data: errors.length > 0 ? null : data, errors })
+  })
+
+  return { headers, mapping, unmappedRequired, rows: analyzed }
+}
+
+/**
+ * CSV of rejected rows with their original cells and the reasons, for the submitter to fix and resend
+ */
+export function buildIntakeErrorReport(headers: string[], rejected: IntakeRow[]): string {
+  const line = (values: string[]) => values.map(value => escapeDelimitedField(value, ',')).join(',') + '\n'
+
+  return line(['Row', ...headers, 'Errors']) + rejected
+    .map(row => line([
+      String(row.rowNumber),
+      ...headers.map((_, column) => row.cells[column] ?? ''),
+      row.errors.join('; '),
+    ]))
+    .join('')
+}
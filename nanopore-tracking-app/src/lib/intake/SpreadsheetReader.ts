@@ -0,0 +1,222 @@
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { ZipFormatError, ZipReader } from '../zip/ZipArchive'
+
+/**
+ * Spreadsheet reader for bulk intake
+ * Turns a CSV, TSV or XLSX upload into rows of cell text. Row positions are kept,
+ * so blank rows stay in place and row numbers match what the submitter sees.
+ */
+
+export const SPREADSHEET_EXTENSIONS = ['csv', 'tsv', 'txt', 'xlsx'] as const
+
+// Workbook parts are inflated into memory; a 500-row sheet is a small fraction of this
+const MAX_XLSX_PART_BYTES = 20 * 1024 * 1024
+
+// Excel's own column limit (XFD)
+const MAX_XLSX_COLUMNS = 16_384
+
+export interface SpreadsheetReadOptions {
+  // Rows past this, counting the header, are refused while reading rather than after
+  maxRows?: number | undefined
+}
+
+/**
+ * Parse delimited text with RFC 4180 quoting. Quoted fields may contain delimiters and newlines.
+ */
+export function parseDelimited(text: string, delimiter: ',' | '\t' = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Excel adds a BOM to UTF-8 CSV files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // A lone empty field is a blank line
+  return rows.map(cells => (cells.length === 1 && cells[0] === '' ? [] : cells))
+}
+
+/**
+ * Pick tab or comma from the first line, for .txt uploads and mislabelled files
+ */
+export function detectDelimiter(text: string): ',' | '\t' {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  return (firstLine.match(/\t/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? '\t' : ','
+}
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9A-Fa-f]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+      switch (entity) {
+        case 'lt': return '<'
+        case 'gt': return '>'
+        case 'amp': return '&'
+        case 'quot': return '"'
+        case 'apos': return "'"
+        default:
+          return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10))
+      }
+    })
+
+const attribute = (attrs: string, name: string): string | undefined =>
+  attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.match(/^[A-Z]+/)?.[0] ?? 'A'
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+// Concatenate every text run, skipping phonetic hints
+const textContent = (xml: string): string =>
+  unescapeXml(
+    [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+      .map(match => match[1])
+      .join('')
+  )
+
+/**
+ * Read the first worksheet of an XLSX workbook as cell text.
+ * Anything malformed, oversized or truncated is reported as a ValidationError on the file.
+ */
+export function readXlsx(buffer: Buffer, options: SpreadsheetReadOptions = {}): string[][] {
+  try {
+    return readWorksheet(new ZipReader(buffer), options.maxRows ?? Infinity)
+  } catch (error) {
+    if (error instanceof ValidationError) throw error
+    throw new ValidationError(
+      error instanceof ZipFormatError ? `File is not a valid XLSX workbook: ${error.message}` : 'File is not a valid XLSX workbook',
+      'file',
+      error instanceof Error ? error : undefined
+    )
+  }
+}
+
+function readWorksheet(zip: ZipReader, maxRows: number): string[][] {
+  const readEntry = (name: string) => zip.read(name, MAX_XLSX_PART_BYTES)?.toString('utf8')
+
+  // Resolve the first sheet through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const relId = attribute(readEntry('xl/workbook.xml')?.match(/<sheet\b[^>]*>/)?.[0] ?? '', 'r:id')
+  const relationship = relId
+    ? readEntry('xl/_rels/workbook.xml.rels')?.match(new RegExp(`<Relationship\\b[^>]*Id="${relId}"[^>]*>`))?.[0]
+    : undefined
+  const target = relationship && attribute(relationship, 'Target')
+  if (target) {
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+  }
+
+  const sheet = readEntry(sheetPath)
+  if (!sheet) {
+    throw new ValidationError('XLSX workbook has no worksheet', 'file')
+  }
+
+  const sharedStrings = [...(readEntry('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => textContent(match[1]!))
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1]!, 'r') ?? rows.length + 1)
+    if (!Number.isInteger(rowNumber) || rowNumber < 1) {
+      throw new ValidationError(`XLSX worksheet has an invalid row number '${attribute(rowMatch[1]!, 'r')}'`, 'file')
+    }
+    if (rowNumber > maxRows) {
+      throw new ValidationError(`Spreadsheet has rows past row ${maxRows}; split it into smaller files`, 'file')
+    }
+    const cells: string[] = []
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1]!
+      const content = cellMatch[2] ?? ''
+      const ref = attribute(attrs, 'r')
+      const index = ref ? columnIndex(ref) : cells.length
+      if (index >= MAX_XLSX_COLUMNS) {
+        throw new ValidationError(`XLSX worksheet has a cell past the last column (${ref})`, 'file')
+      }
+      const type = attribute(attrs, 't')
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value = ''
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = textContent(content)
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE'
+      } else if (raw !== undefined) {
+        value = unescapeXml(raw)
+      }
+
+      while (cells.length < index) cells.push('')
+      cells[index] = value
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows[rowNumber - 1] = cells
+  }
+
+  return rows
+}
+
+/**
+ * Read an uploaded spreadsheet by file extension
+ */
+export function readSpreadsheet(fileName: string, content: Buffer, options: SpreadsheetReadOptions = {}): string[][] {
+  const extension = fileName.toLowerCase().split('.').pop() ?? ''
+
+  switch (extension) {
+    case 'xlsx':
+      return readXlsx(content, options)
+    case 'csv':
+      return parseDelimited(content.toString('utf8'), ',')
+    case 'tsv':
+      return parseDelimited(content.toString('utf8'), '\t')
+    case 'txt': {
+      const text = content.toString('utf8')
+      return parseDelimited(text, detectDelimiter(text))
+    }
+    default:
+      throw new ValidationError(
+        `Unsupported file type '.${extension}'. Upload one of: ${SPREADSHEET_EXTENSIONS.join(', ')}`,
+        'file'
+      )
+  }
+}
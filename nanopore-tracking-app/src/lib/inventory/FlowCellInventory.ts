@@ -0,0 +1,170 @@
+import { BusinessLogicError, ValidationError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * Flow cell inventory
+ * Lifecycle rules, pore-count thresholds and stock warnings for physical flow cells
+ */
+
+export const FLOW_CELL_TYPES = ['R9.4.1', 'R10.4.1', 'Flongle', 'PromethION'] as const
+export type FlowCellType = typeof FLOW_CELL_TYPES[number]
+
+export const FLOW_CELL_STATUSES = ['in_stock', 'reserved', 'in_use', 'washed', 'spent'] as const
+export type FlowCellStatus = typeof FLOW_CELL_STATUSES[number]
+
+/**
+ * Allowed lifecycle moves. Washed cells can be reserved again for another sample.
+ */
+export const FLOW_CELL_STATUS_TRANSITIONS: Record<FlowCellStatus, FlowCellStatus[]> = {
+  in_stock: ['reserved', 'spent'],
+  reserved: ['in_use', 'in_stock', 'washed'],
+  in_use: ['washed', 'spent'],
+  washed: ['reserved', 'spent'],
+  spent: []
+}
+
+/**
+ * Minimum active pores for a flow cell to pass its check
+ */
+export const MIN_PORE_COUNT_BY_TYPE: Record<FlowCellType, number> = {
+  'R9.4.1': 800,
+  'R10.4.1': 800,
+  Flongle: 50,
+  PromethION: 5000
+}
+
+/**
+ * Usable stock below which the dashboard warns
+ */
+export const LOW_STOCK_THRESHOLD_BY_TYPE: Record<FlowCellType, number> = {
+  'R9.4.1': 2,
+  'R10.4.1': 5,
+  Flongle: 5,
+  PromethION: 2
+}
+
+export const NEAR_EXPIRY_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface InventoryFlowCell {
+  id: string
+  serial_number: string
+  flow_cell_type: string
+  status: string
+  expiry_date: Date | string
+}
+
+export interface LowStockWarning {
+  flowCellType: FlowCellType
+  available: number
+  threshold: number
+}
+
+export interface ExpiryWarning {
+  flowCellId: string
+  serialNumber: string
+  flowCellType: string
+  expiryDate: Date
+  daysUntilExpiry: number
+  expired: boolean
+}
+
+export interface InventorySummary {
+  availableByType: Record<FlowCellType, number>
+  countsByStatus: Record<FlowCellStatus, number>
+  lowStock: LowStockWarning[]
+  nearExpiry: ExpiryWarning[]
+}
+
+/**
+ * Map a sample's free-text flow cell type onto an inventory type
+ */
+export function normalizeFlowCellType(value: string | null | undefined): FlowCellType | null {
+  if (!value) return null
+  const normalized = value.trim().toLowerCase()
+  return FLOW_CELL_TYPES.find(type => type.toLowerCase() === normalized) ?? null
+}
+
+export function isFlowCellStatus(value: string): value is FlowCellStatus {
+  return (FLOW_CELL_STATUSES as readonly string[]).includes(value)
+}
+
+export function assertFlowCellStatusTransition(from: string, to: FlowCellStatus): void {
+  if (!isFlowCellStatus(from) || !FLOW_CELL_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new BusinessLogicError(`Flow cell cannot move from ${from} to ${to}`)
+  }
+}
+
+export function passesPoreCheck(flowCellType: FlowCellType, poreCount: number): boolean {
+  if (poreCount < 0) {
+    throw new ValidationError('Pore count cannot be negative', 'poreCount')
+  }
+  return poreCount >= MIN_PORE_COUNT_BY_TYPE[flowCellType]
+}
+
+const toDate = (value: Date | string): Date => value instanceof Date ? value : new Date(value)
+
+/**
+ * Whether a flow cell can be reserved: in stock or washed, and not expired
+ */
+export function isAvailable(flowCell: Pick<InventoryFlowCell, 'status' | 'expiry_date'>, now: Date): boolean {
+  return (flowCell.status === 'in_stock' || flowCell.status === 'washed') &&
+    toDate(flowCell.expiry_date).getTime() >= now.getTime()
+}
+
+/**
+ * Order candidates for reservation: soonest expiry first, fresh cells before washed ones
+ */
+export function sortForReservation<T extends Pick<InventoryFlowCell, 'status' | 'expiry_date'>>(flowCells: T[]): T[] {
+  return [...flowCells].sort((a, b) => {
+    const byExpiry = toDate(a.expiry_date).getTime() - toDate(b.expiry_date).getTime()
+    if (byExpiry !== 0) return byExpiry
+    return (a.status === 'washed' ? 1 : 0) - (b.status === 'washed' ? 1 : 0)
+  })
+}
+
+/**
+ * Stock levels plus low-stock and near-expiry warnings
+ */
+export function summarizeInventory(flowCells: InventoryFlowCell[], now: Date): InventorySummary {
+  const availableByType = Object.fromEntries(FLOW_CELL_TYPES.map(type => [type, 0])) as Record<FlowCellType, number>
+  const countsByStatus = Object.fromEntries(FLOW_CELL_STATUSES.map(status => [status, 0])) as Record<FlowCellStatus, number>
+  const nearExpiry: ExpiryWarning[] = []
+
+  for (const flowCell of flowCells) {
+    if (isFlowCellStatus(flowCell.status)) {
+      countsByStatus[flowCell.status]++
+    }
+
+    const type = normalizeFlowCellType(flowCell.flow_cell_type)
+    if (type && isAvailable(flowCell, now)) {
+      availableByType[type]++
+    }
+
+    if (flowCell.status === 'spent') continue
+
+    const expiryDate = toDate(flowCell.expiry_date)
+    const daysUntilExpiry = Math.floor((expiryDate.getTime() - now.getTime()) / DAY_MS)
+    if (daysUntilExpiry <= NEAR_EXPIRY_DAYS) {
+      nearExpiry.push({
+        flowCellId: flowCell.id,
+        serialNumber: flowCell.serial_number,
+        flowCellType: flowCell.flow_cell_type,
+        expiryDate,
+        daysUntilExpiry,
+        expired: expiryDate.getTime() < now.getTime()
+      })
+    }
+  }
+
+  const lowStock = FLOW_CELL_TYPES
+    .filter(type => availableByType[type] < LOW_STOCK_THRESHOLD_BY_TYPE[type])
+    .map(type => ({ flowCellType: type, available: availableByType[type], threshold: LOW_STOCK_THRESHOLD_BY_TYPE[type] }))
+
+  return {
+    availableByType,
+    countsByStatus,
+    lowStock,
+    nearExpiry: nearExpiry.sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)
+  }
+}
@@ -97,11 +97,12 @@ export interface ExtractionConfidenceLowEvent extends AIEvent {
   type: AIEventType.EXTRACTION_CONFIDENCE_LOW
   data: {
     extractionResultId: string
-    sampleId: string
+    // Unset while the extraction waits for review, before its sample exists
+    sampleId?: string | undefined
     fileName: string
     confidenceScore: number
     threshold: number
-    extractionMethod: 'llm' | 'pattern' | 'hybrid' | 'rag'
+    extractionMethod: 'template' | 'llm' | 'pattern' | 'hybrid' | 'rag'
     issues: string[]
     userId?: string
   }
@@ -13,7 +13,8 @@ export enum SampleEventType {
   SAMPLE_PROCESSING_COMPLETED = 'sample.processing_completed',
   SAMPLE_PROCESSING_FAILED = 'sample.processing_failed',
   SAMPLE_ATTACHMENT_ADDED = 'sample.attachment_added',
-  SAMPLE_ATTACHMENT_REMOVED = 'sample.attachment_removed'
+  SAMPLE_ATTACHMENT_REMOVED = 'sample.attachment_removed',
+  SAMPLE_SLA_AT_RISK = 'sample.sla_at_risk'
 }
 
 /**
@@ -171,6 +172,24 @@ export interface SampleAttachmentRemovedEvent extends SampleEvent {
   }
 }
 
+/**
+ * Sample SLA at risk event - raised when a forecast moves a sample into at_risk or breached
+ */
+export interface SampleSlaAtRiskEvent extends SampleEvent {
+  type: SampleEventType.SAMPLE_SLA_AT_RISK
+  data: {
+    sampleId: string
+    sampleName: string
+    priority: 'low' | 'normal' | 'high' | 'urgent'
+    previousRisk: 'on_track' | 'at_risk' | 'breached'
+    risk: 'at_risk' | 'breached'
+    projectedCompletionAt: Date
+    slaDeadline: Date
+    slackHours: number
+    assignedTo?: string
+  }
+}
+
 /**
  * Union type for all sample events
  */
@@ -185,6 +204,7 @@ export type AnySampleEvent =
   | SampleProcessingFailedEvent
   | SampleAttachmentAddedEvent
   | SampleAttachmentRemovedEvent
+  | SampleSlaAtRiskEvent
 
 /**
  * Event factory for creating sample events
@@ -270,4 +290,11 @@ export class SampleEventFactory {
       data
     } as SampleAttachmentRemovedEvent
   }
-} 
\ No newline at end of file
+
+  static createSampleSlaAtRiskEvent(data: SampleSlaAtRiskEvent['data'], correlationId?: string): SampleSlaAtRiskEvent {
+    return {
+      ...this.createBaseEvent(SampleEventType.SAMPLE_SLA_AT_RISK, correlationId),
+      data
+    } as SampleSlaAtRiskEvent
+  }
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Integrity of stored attachments as reported by the file storage service
+ */
+export interface FileStorageIntegrity {
+  status: 'healthy' | 'degraded' | 'unavailable'
+  blobs: {
+    unverified: number
+    ok: number
+    corrupt: number
+    missing: number
+  }
+  unhashedFiles: number
+  deduplicatedBytes: number
+  // Files whose stored copy failed verification
+  affectedFileIds: string[]
+  lastScrub: {
+    startedAt: string
+    finishedAt: string | null
+    blobsChecked: number
+    filesMissing: number
+    error: string | null
+  } | null
+  error?: string | undefined
+}
+
+export interface FileStorageIntegrityAlert {
+  level: 'info' | 'warning' | 'error' | 'critical'
+  message: string
+  timestamp: string
+  component: string
+  resolved: boolean
+}
+
+interface FetchIntegrityOptions {
+  baseUrl?: string | undefined
+  token?: string | undefined
+  fetchImpl?: typeof fetch
+  timeoutMs?: number
+}
+
+// A scrub older than this means the schedule has stopped
+const STALE_SCRUB_MS = 2 * 24 * 60 * 60 * 1000
+
+const EMPTY_BLOBS = { unverified: 0, ok: 0, corrupt: 0, missing: 0 }
+
+/**
+ * Read the integrity section of the file storage service's statistics
+ * Never throws: an unreachable service is reported as unavailable so the rest of the monitoring data still loads.
+ */
+export async function fetchFileStorageIntegrity(options: FetchIntegrityOptions = {}): Promise<FileStorageIntegrity> {
+  const baseUrl = options.baseUrl ?? process.env.FILE_SERVICE_URL ?? 'http://localhost:3005'
+  const token = options.token ?? process.env.FILE_SERVICE_TOKEN
+  const fetchImpl = options.fetchImpl ?? fetch
+
+  try {
+    const response = await fetchImpl(`${baseUrl}/api/files/stats`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: AbortSignal.timeout(options.timeoutMs ?? 5000),
+    })
+    if (!response.ok) {
+      return unavailable(`File storage service responded ${response.status}`)
+    }
+
+    const body = await response.json() as { data?: { integrity?: any } }
+    const integrity = body.data?.integrity
+    if (!integrity) {
+      return unavailable('File storage service did not report integrity')
+    }
+
+    const lastRun = integrity.lastRun
+    return {
+      status: integrity.status === 'degraded' ? 'degraded' : 'healthy',
+      blobs: { ...EMPTY_BLOBS, ...integrity.blobs },
+      unhashedFiles: Number(integrity.unhashedFiles ?? 0),
+      deduplicatedBytes: Number(integrity.deduplicatedBytes ?? 0),
+      affectedFileIds: [...new Set<string>((integrity.problems ?? []).flatMap((problem: { fileIds?: string[] }) => problem.fileIds ?? []))],
+      lastScrub: lastRun
+        ? {
+            startedAt: lastRun.startedAt,
+            finishedAt: lastRun.finishedAt ?? null,
+            blobsChecked: Number(lastRun.blobsChecked ?? 0),
+            filesMissing: Number(lastRun.filesMissing ?? 0),
+            error: lastRun.error ?? null,
+          }
+        : null,
+    }
+  } catch (error) {
+    return unavailable(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+/**
+ * Alerts for damaged or missing attachments, a failing scrub, or a scrub that has stopped running
+ */
+export function fileStorageIntegrityAlerts(integrity: FileStorageIntegrity, now: Date = new Date()): FileStorageIntegrityAlert[] {
+  const alerts: FileStorageIntegrityAlert[] = []
+  const alert = (level: FileStorageIntegrityAlert['level'], message: string) => {
+    alerts.push({ level, message, timestamp: now.toISOString(), component: 'file-storage', resolved: false })
+  }
+
+  if (integrity.status === 'unavailable') {
+    alert('warning', `File storage integrity unavailable: ${integrity.error ?? 'unknown error'}`)
+    return alerts
+  }
+
+  const damaged = integrity.blobs.corrupt + integrity.blobs.missing
+  if (damaged > 0) {
+    alert('critical', `${integrity.blobs.corrupt} corrupt and ${integrity.blobs.missing} missing stored files affecting ${integrity.affectedFileIds.length} attachments`)
+  }
+
+  const lastScrub = integrity.lastScrub
+  if (lastScrub?.filesMissing) {
+    alert('error', `${lastScrub.filesMissing} attachments stored before deduplication could not be found`)
+  }
+  if (lastScrub?.error) {
+    alert('error', `Last storage scrub failed: ${lastScrub.error}`)
+  }
+  if (lastScrub && now.getTime() - new Date(lastScrub.startedAt).getTime() > STALE_SCRUB_MS) {
+    alert('warning', `Storage has not been scrubbed since ${lastScrub.startedAt}`)
+  }
+
+  return alerts
+}
+
+function unavailable(error: string): FileStorageIntegrity {
+  return {
+    status: 'unavailable',
+    blobs: { ...EMPTY_BLOBS },
+    unhashedFiles: 0,
+    deduplicatedBytes: 0,
+    affectedFileIds: [],
+    lastScrub: null,
+    error,
+  }
+}
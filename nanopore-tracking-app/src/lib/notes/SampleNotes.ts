@@ -0,0 +1,98 @@
+import { z } from 'zod'
+
+/**
+ * Sample notes
+ * Threaded, timestamped comments on a sample. Notes are staff-only unless marked
+ * visible to the submitter, and @mentions of staff notify the person mentioned.
+ */
+
+// Facility staff who can be assigned samples and mentioned in notes
+export const STAFF_MEMBERS = [
+  'Grey',
+  'Tara',
+  'Stephanie',
+  'Jenny',
+  'Alex',
+  'Sarah',
+  'Michael',
+  'Lisa'
+] as const
+
+export const NOTE_VISIBILITIES = ['internal', 'submitter'] as const
+export type NoteVisibility = typeof NOTE_VISIBILITIES[number]
+
+export const MAX_NOTE_LENGTH = 5000
+
+export const createNoteSchema = z.object({
+  sampleId: z.string().uuid(),
+  parentId: z.string().uuid().optional(),
+  body: z.string().trim().min(1, 'Note cannot be empty').max(MAX_NOTE_LENGTH),
+  visibility: z.enum(NOTE_VISIBILITIES).default('internal'),
+  attachmentIds: z.array(z.string().uuid()).max(20).default([]),
+})
+
+export const editNoteSchema = z.object({
+  id: z.string().uuid(),
+  body: z.string().trim().min(1, 'Note cannot be empty').max(MAX_NOTE_LENGTH),
+  visibility: z.enum(NOTE_VISIBILITIES).optional(),
+  attachmentIds: z.array(z.string().uuid()).max(20).optional(),
+})
+
+export type CreateNoteInput = z.infer<typeof createNoteSchema>
+export type EditNoteInput = z.infer<typeof editNoteSchema>
+
+/**
+ * Staff mentioned with @Name, in order of first mention. Unknown names are ignored
+ * so email addresses and stray @ signs don't notify anyone.
+ */
+export function parseMentions(body: string, staff: readonly string[] = STAFF_MEMBERS): string[] {
+  const byName = new Map(staff.map(name => [name.toLowerCase(), name]))
+  const mentioned: string[] = []
+
+  for (const match of body.matchAll(/(^|[^\w@.])@([A-Za-z][\w-]*)/g)) {
+    const name = byName.get(match[2]!.toLowerCase())
+    if (name && !mentioned.includes(name)) mentioned.push(name)
+  }
+  return mentioned
+}
+
+/**
+ * Mentions added by an edit; people already notified by an earlier version are not notified again
+ */
+export function newMentions(previousBody: string, body: string): string[] {
+  const previous = new Set(parseMentions(previousBody))
+  return parseMentions(body).filter(name => !previous.has(name))
+}
+
+export interface ThreadedNote {
+  id: string
+  parentId: string | null
+  createdAt: Date | string
+}
+
+/**
+ * Arrange notes into top-level threads with their replies, both oldest first.
+ * Replies whose parent is not in the list (e.g. hidden from the submitter) start their own thread.
+ */
+export function buildNoteThreads<T extends ThreadedNote>(notes: T[]): Array<T & { replies: T[] }> {
+  const sorted = [...notes].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  const ids = new Set(sorted.map(note => note.id))
+  const threads = sorted
+    .filter(note => !note.parentId || !ids.has(note.parentId))
+    .map(note => ({ ...note, replies: [] as T[] }))
+  const byId = new Map(threads.map(thread => [thread.id, thread]))
+
+  for (const note of sorted) {
+    if (!note.parentId || !ids.has(note.parentId)) continue
+    // Replies to replies join the top-level thread of their parent
+    let rootId = note.parentId
+    while (!byId.has(rootId)) {
+      const parent = sorted.find(candidate => candidate.id === rootId)
+      if (!parent?.parentId) break
+      rootId = parent.parentId
+    }
+    byId.get(rootId)?.replies.push(note)
+  }
+
+  return threads
+}
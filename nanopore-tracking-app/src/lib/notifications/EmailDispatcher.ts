@@ -0,0 +1,86 @@
+import { getComponentLogger } from '../logging/StructuredLogger'
+
+const logger = getComponentLogger('EmailDispatcher')
+
+export interface EmailDispatcherConfig {
+  pollIntervalMs: number
+  batchSize: number
+}
+
+export interface DispatchableOutbox {
+  dispatchDue(limit: number): Promise<{ sent: number; failed: number }>
+  flushDigests(now?: Date): Promise<number>
+}
+
+/**
+ * Periodically folds due digests and sends pending outbox messages.
+ * Rows are claimed with a lease, so several app instances can poll the same outbox.
+ */
+export class EmailDispatcher {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    private readonly outbox: DispatchableOutbox,
+    private readonly config: EmailDispatcherConfig
+  ) {}
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      void this.tick()
+    }, this.config.pollIntervalMs)
+    this.timer.unref()
+
+    logger.info('Email dispatcher started', {
+      action: 'email_dispatch_started',
+      metadata: { pollIntervalMs: this.config.pollIntervalMs }
+    })
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    try {
+      await this.outbox.flushDigests(now)
+      const { sent, failed } = await this.outbox.dispatchDue(this.config.batchSize)
+      if (sent > 0 || failed > 0) {
+        logger.info('Outbox dispatched', {
+          action: 'email_dispatch_completed',
+          metadata: { sent, failed }
+        })
+      }
+    } catch (error) {
+      logger.error('Email dispatch failed', {
+        action: 'email_dispatch_failed'
+      }, error as Error)
+    } finally {
+      this.running = false
+    }
+  }
+}
+
+let dispatcher: EmailDispatcher | null = null
+
+/**
+ * Start the shared dispatcher
+ */
+export function startEmailDispatcher(outbox: DispatchableOutbox): EmailDispatcher {
+  if (dispatcher) return dispatcher
+
+  dispatcher = new EmailDispatcher(outbox, {
+    pollIntervalMs: parseInt(process.env.EMAIL_DISPATCH_INTERVAL_MS || '30000'),
+    batchSize: parseInt(process.env.EMAIL_DISPATCH_BATCH_SIZE || '20'),
+  })
+  dispatcher.start()
+  return dispatcher
+}
@@ -0,0 +1,211 @@
+import { z } from 'zod'
+import { QC_STEP } from '../workflow/WorkflowActions'
+
+/**
+ * Submitter and staff email notifications
+ * Sample events map to milestones, each milestone has an editable template, and rendered
+ * messages go through a persisted outbox so a failed SMTP send is retried rather than lost.
+ */
+
+export const EMAIL_MILESTONES = [
+  'sample_received',
+  'qc_failed',
+  'sequencing_started',
+  'data_delivered',
+  'sample_assigned',
+] as const
+export type EmailMilestone = typeof EMAIL_MILESTONES[number]
+
+export const TEMPLATE_VARIABLES = [
+  'sampleName',
+  'sampleId',
+  'submitterName',
+  'projectId',
+  'status',
+  'assignedTo',
+  'notes',
+  'appUrl',
+] as const
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number]
+export type TemplateVariables = Partial<Record<TemplateVariable, string | null | undefined>>
+
+export interface EmailTemplate {
+  subject: string
+  body: string
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailMilestone, EmailTemplate & { label: string }> = {
+  sample_received: {
+    label: 'Sample received',
+    subject: 'We received your sample {{sampleName}}',
+    body: 'Hello {{submitterName}},\n\nYour sample {{sampleName}} has been received by the sequencing facility and is queued for QC.\n\nProject: {{projectId}}\nSample ID: {{sampleId}}',
+  },
+  qc_failed: {
+    label: 'QC failed',
+    subject: 'QC failed for {{sampleName}}',
+    body: 'Hello {{submitterName}},\n\nYour sample {{sampleName}} did not pass quality control.\n\n{{notes}}\n\nThe facility will contact you about resubmitting. Reply to this email with any questions.',
+  },
+  sequencing_started: {
+    label: 'Sequencing started',
+    subject: 'Sequencing started for {{sampleName}}',
+    body: 'Hello {{submitterName}},\n\nSequencing of your sample {{sampleName}} has started.\n\nAssigned to: {{assignedTo}}',
+  },
+  data_delivered: {
+    label: 'Data delivered',
+    subject: 'Data delivered for {{sampleName}}',
+    body: 'Hello {{submitterName}},\n\nSequencing data for {{sampleName}} has been delivered.\n\n{{notes}}',
+  },
+  sample_assigned: {
+    label: 'Assigned to staff',
+    subject: '{{sampleName}} was assigned to you',
+    body: 'Sample {{sampleName}} from {{submitterName}} is now assigned to {{assignedTo}}.\n\nCurrent status: {{status}}\n{{appUrl}}',
+  },
+}
+
+// Submitter portal sign-in links are sent on request, so they skip digests and opt-outs
+export const PORTAL_LINK_TEMPLATE_KEY = 'portal_link'
+
+export function renderPortalLinkEmail(url: string, ttlMinutes: number): EmailTemplate {
+  return {
+    subject: 'Your sample tracking sign-in link',
+    body: `Hello,\n\nUse this link to see the progress of your samples:\n\n${url}\n\nThe link expires in ${ttlMinutes} minutes. If you did not ask for it, you can ignore this email.`,
+  }
+}
+
+// Milestones sent to the submitter; sample_assigned only goes to the assignee
+export const SUBMITTER_MILESTONES: ReadonlySet<EmailMilestone> = new Set([
+  'sample_received',
+  'qc_failed',
+  'sequencing_started',
+  'data_delivered',
+])
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z]+)\s*\}\}/g
+
+export const emailTemplateSchema = z.object({
+  subject: z.string().trim().min(1).max(255),
+  body: z.string().trim().min(1).max(10_000),
+}).superRefine((template, ctx) => {
+  for (const field of ['subject', 'body'] as const) {
+    const unknown = unknownPlaceholders(template[field])
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}`,
+      })
+    }
+  }
+})
+
+export function unknownPlaceholders(text: string): string[] {
+  const known = new Set<string>(TEMPLATE_VARIABLES)
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[1]!))].filter(name => !known.has(name))
+}
+
+/**
+ * Fill {{placeholders}}; missing values render as empty and the blank lines they leave are collapsed
+ */
+export function renderTemplate(template: EmailTemplate, variables: TemplateVariables): EmailTemplate {
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, name: string) => variables[name as TemplateVariable] ?? '')
+  return {
+    subject: fill(template.subject).replace(/\s+/g, ' ').trim(),
+    body: fill(template.body).replace(/\n{3,}/g, '\n\n').trim(),
+  }
+}
+
+export function withUnsubscribeFooter(body: string, unsubscribeUrl: string | null): string {
+  if (!unsubscribeUrl) return body
+  return `${body}\n\n--\nTo stop receiving these emails: ${unsubscribeUrl}`
+}
+
+export interface NotifiableEvent {
+  type: string
+  data: Record<string, any>
+}
+
+export interface MilestoneMatch {
+  milestone: EmailMilestone
+  sampleId: string
+  notes?: string | undefined
+  assignedTo?: string | undefined
+}
+
+/**
+ * Milestone an event announces, if any
+ */
+export function milestoneForEvent(event: NotifiableEvent): MilestoneMatch | null {
+  const { sampleId } = event.data
+  if (typeof sampleId !== 'string') return null
+
+  switch (event.type) {
+    case 'sample.created':
+      return { milestone: 'sample_received', sampleId }
+    case 'sample.status_changed':
+      if (event.data.newStatus === 'sequencing') return { milestone: 'sequencing_started', sampleId }
+      if (event.data.newStatus === 'completed') return { milestone: 'data_delivered', sampleId, notes: event.data.reason }
+      return null
+    case 'sample.processing_completed':
+      // QC results recorded as a completed step can still be a fail
+      return event.data.processingStep === QC_STEP && event.data.results?.qcPassed === false
+        ? { milestone: 'qc_failed', sampleId, notes: event.data.results?.notes }
+        : null
+    case 'sample.processing_failed':
+      return event.data.processingStep === QC_STEP
+        ? { milestone: 'qc_failed', sampleId, notes: event.data.error }
+        : null
+    case 'sample.assigned':
+      return { milestone: 'sample_assigned', sampleId, assignedTo: event.data.assignedTo }
+    default:
+      return null
+  }
+}
+
+export const MAX_SEND_ATTEMPTS = 5
+
+/**
+ * Exponential backoff from one minute, capped at six hours
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(60_000 * 2 ** Math.max(attempt - 1, 0), 6 * 60 * 60 * 1000)
+}
+
+/**
+ * STAFF_EMAILS is "Name=address" pairs separated by commas; names match STAFF_MEMBERS case-insensitively
+ */
+export function parseStaffEmails(value: string | undefined): Map<string, string> {
+  const emails = new Map<string, string>()
+  for (const pair of (value ?? '').split(',')) {
+    const [name, address] = pair.split('=').map(part => part.trim())
+    if (name && address && address.includes('@')) {
+      emails.set(name.toLowerCase(), address)
+    }
+  }
+  return emails
+}
+
+export interface DigestItem {
+  subject: string
+  body: string
+  createdAt: Date | string
+}
+
+/**
+ * One email summarising queued messages, oldest first
+ */
+export function renderDigest(items: DigestItem[]): EmailTemplate {
+  const sorted = [...items].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  return {
+    subject: `Sample updates: ${sorted.length} notification${sorted.length === 1 ? '' : 's'}`,
+    body: sorted
+      .map(item => `${item.subject}\n${'='.repeat(Math.min(item.subject.length, 72))}\n${item.body}`)
+      .join('\n\n\n'),
+  }
+}
+
+/**
+ * A recipient's digest goes out once their oldest queued message has waited the digest interval
+ */
+export function isDigestDue(oldestQueuedAt: Date | string, now: Date, intervalHours: number): boolean {
+  return now.getTime() - new Date(oldestQueuedAt).getTime() >= intervalHours * 60 * 60 * 1000
+}
@@ -0,0 +1,162 @@
+import { STAFF_MEMBERS } from '../notes/SampleNotes'
+
+/**
+ * In-app notification center
+ * Bus events become per-user inbox rows addressed to staff by name, and the same events
+ * are streamed to open dashboards so the sample list and the bell update without a refresh.
+ */
+
+export const NOTIFICATION_TYPES = [
+  'sample_assigned',
+  'urgent_submitted',
+  'step_overdue',
+  'extraction_review',
+  'note_mention',
+] as const
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  sample_assigned: 'Sample assigned to me',
+  urgent_submitted: 'Urgent sample submitted',
+  step_overdue: 'Processing step overdue',
+  extraction_review: 'Extraction needs review',
+  note_mention: 'Mentioned in a note',
+}
+
+export interface NotificationDraft {
+  recipients: string[]
+  type: NotificationType
+  title: string
+  body: string | null
+  sampleId: string | null
+  // Same key for the same recipient is stored once, so re-delivered events don't duplicate
+  dedupeKey: string
+}
+
+export interface NotifiableBusEvent {
+  id: string
+  type: string
+  data: Record<string, any>
+}
+
+/**
+ * Inbox notification an event produces, if any
+ */
+export function notificationForEvent(
+  event: NotifiableBusEvent,
+  staff: readonly string[] = STAFF_MEMBERS
+): NotificationDraft | null {
+  const { data } = event
+  const dedupeKey = `event:${event.id}`
+
+  switch (event.type) {
+    case 'sample.assigned':
+      if (!data.assignedTo) return null
+      return {
+        recipients: [data.assignedTo],
+        type: 'sample_assigned',
+        title: `${data.sampleName ?? 'A sample'} was assigned to you`,
+        body: data.previousAssignee ? `Previously assigned to ${data.previousAssignee}` : null,
+        sampleId: data.sampleId,
+        dedupeKey,
+      }
+    case 'sample.created':
+      if (data.priority !== 'urgent') return null
+      return {
+        recipients: [...staff],
+        type: 'urgent_submitted',
+        title: `Urgent sample ${data.sampleName} submitted`,
+        body: `Submitted by ${data.submitterName}${data.projectId ? ` for ${data.projectId}` : ''}`,
+        sampleId: data.sampleId,
+        dedupeKey,
+      }
+    case 'ai.extraction_confidence_low':
+      return {
+        recipients: [...staff],
+        type: 'extraction_review',
+        title: `Extraction from ${data.fileName} needs review`,
+        body: `Confidence ${Math.round(Number(data.confidenceScore) * 100)}% is below ${Math.round(Number(data.threshold) * 100)}%` +
+          (Array.isArray(data.issues) && data.issues.length > 0 ? `: ${data.issues.join('; ')}` : ''),
+        sampleId: data.sampleId ?? null,
+        dedupeKey,
+      }
+    default:
+      return null
+  }
+}
+
+export interface RunningStep {
+  stepId: string
+  stepName: string
+  sampleId: string
+  sampleName: string
+  assignedTo: string | null
+  startedAt: Date | string
+  estimatedDurationHours: number | null
+}
+
+/**
+ * In-progress steps that have run past their estimated duration
+ */
+export function findOverdueSteps(steps: RunningStep[], now: Date): RunningStep[] {
+  return steps.filter(step =>
+    step.estimatedDurationHours !== null &&
+    step.estimatedDurationHours > 0 &&
+    new Date(step.startedAt).getTime() + step.estimatedDurationHours * 60 * 60 * 1000 < now.getTime()
+  )
+}
+
+/**
+ * Overdue steps go to the sample's assignee, or to all staff when nobody is assigned
+ */
+export function overdueStepNotification(step: RunningStep, staff: readonly string[] = STAFF_MEMBERS): NotificationDraft {
+  return {
+    recipients: step.assignedTo ? [step.assignedTo] : [...staff],
+    type: 'step_overdue',
+    title: `${step.stepName} is overdue for ${step.sampleName}`,
+    body: `Started ${new Date(step.startedAt).toISOString().slice(0, 16).replace('T', ' ')} UTC with an estimate of ${step.estimatedDurationHours}h`,
+    sampleId: step.sampleId,
+    dedupeKey: `step_overdue:${step.stepId}`,
+  }
+}
+
+/**
+ * Recipients who have not muted the notification type
+ */
+export function acceptingRecipients(
+  recipients: string[],
+  type: NotificationType,
+  mutedTypes: Map<string, readonly string[]>
+): string[] {
+  const seen = new Set<string>()
+  return recipients.filter(recipient => {
+    const key = recipient.trim().toLowerCase()
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return !(mutedTypes.get(key) ?? []).includes(type)
+  })
+}
+
+export type SampleChangeKind = 'created' | 'updated' | 'deleted'
+
+export interface SampleChange {
+  sampleId: string
+  kind: SampleChangeKind
+}
+
+/**
+ * Change to the sample list an event represents, for live dashboard updates
+ */
+export function sampleChangeForEvent(event: NotifiableBusEvent): SampleChange | null {
+  if (!event.type.startsWith('sample.') || typeof event.data.sampleId !== 'string') return null
+  if (event.type === 'sample.created') return { sampleId: event.data.sampleId, kind: 'created' }
+  if (event.type === 'sample.deleted') return { sampleId: event.data.sampleId, kind: 'deleted' }
+  return { sampleId: event.data.sampleId, kind: 'updated' }
+}
+
+/**
+ * One Server-Sent Events message
+ */
+export function formatSseMessage(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
@@ -0,0 +1,48 @@
+import type { SampleChange } from './NotificationCenter'
+
+export type HubMessage =
+  | { type: 'notifications' }
+  | { type: 'sample'; change: SampleChange }
+
+type Listener = (message: HubMessage) => void
+
+/**
+ * Fans bus-derived updates out to the event streams open in this process.
+ * Listeners register under a recipient name; sample changes go to every listener.
+ */
+export class NotificationHub {
+  private readonly listeners = new Map<string, Set<Listener>>()
+
+  subscribe(recipient: string, listener: Listener): () => void {
+    const key = recipient.trim().toLowerCase()
+    const listeners = this.listeners.get(key) ?? new Set<Listener>()
+    listeners.add(listener)
+    this.listeners.set(key, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) this.listeners.delete(key)
+    }
+  }
+
+  // Tells the recipients' open dashboards to refetch their inbox
+  notifyRecipients(recipients: string[]): void {
+    for (const recipient of new Set(recipients.map(name => name.trim().toLowerCase()))) {
+      this.listeners.get(recipient)?.forEach(listener => listener({ type: 'notifications' }))
+    }
+  }
+
+  broadcastSampleChange(change: SampleChange): void {
+    for (const listeners of this.listeners.values()) {
+      listeners.forEach(listener => listener({ type: 'sample', change }))
+    }
+  }
+
+  connectionCount(): number {
+    let count = 0
+    for (const listeners of this.listeners.values()) count += listeners.size
+    return count
+  }
+}
+
+export const notificationHub = new NotificationHub()
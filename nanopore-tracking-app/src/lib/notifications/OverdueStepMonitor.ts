@@ -0,0 +1,39 @@
+import { getComponentLogger } from '../logging/StructuredLogger'
+
+const logger = getComponentLogger('OverdueStepMonitor')
+
+export interface OverdueStepChecker {
+  checkOverdueSteps(now?: Date): Promise<number>
+}
+
+let timer: NodeJS.Timeout | null = null
+
+/**
+ * Periodically notify staff about processing steps that have run past their estimate.
+ * Notifications are keyed by step, so each overdue step is reported once however often this runs.
+ */
+export function startOverdueStepMonitor(checker: OverdueStepChecker): void {
+  if (timer) return
+
+  const intervalMs = parseInt(process.env.OVERDUE_STEP_CHECK_INTERVAL_MS || '300000')
+  let checking = false
+  const check = async () => {
+    if (checking) return
+    checking = true
+    try {
+      await checker.checkOverdueSteps()
+    } catch (error) {
+      logger.error('Overdue step check failed', {
+        action: 'overdue_step_check_failed'
+      }, error as Error)
+    } finally {
+      checking = false
+    }
+  }
+
+  timer = setInterval(() => {
+    void check()
+  }, intervalMs)
+  timer.unref()
+  void check()
+}
@@ -0,0 +1,38 @@
+import nodemailer from 'nodemailer'
+import type { EmailConfig } from '../config/ConfigManager'
+
+export interface OutgoingEmail {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface EmailTransport {
+  send(message: OutgoingEmail): Promise<{ messageId: string }>
+}
+
+/**
+ * nodemailer SMTP transport built from the email section of ConfigManager
+ */
+export function createSmtpTransport(config: EmailConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.smtp.host,
+    port: config.smtp.port,
+    secure: config.smtp.secure,
+    ...(config.smtp.username && {
+      auth: { user: config.smtp.username, pass: config.smtp.password },
+    }),
+  })
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: config.fromAddress,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      })
+      return { messageId: info.messageId }
+    },
+  }
+}
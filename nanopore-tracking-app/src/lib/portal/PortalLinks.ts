@@ -0,0 +1,51 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Signed sign-in links for the submitter portal.
+ * The token carries the email and an expiry, so nothing is stored until the link is used; a nonce keeps
+ * links sent at the same moment distinct, so each can be redeemed once.
+ */
+
+export const PORTAL_LINK_TTL_MS = 30 * 60 * 1000
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url')
+
+export function createPortalToken(email: string, secret: string, now = new Date(), ttlMs = PORTAL_LINK_TTL_MS): string {
+  const payload = Buffer.from(JSON.stringify({
+    email: email.trim().toLowerCase(),
+    expiresAt: now.getTime() + ttlMs,
+    nonce: randomUUID(),
+  })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * The email a token was issued for, or null when it is malformed, tampered with or expired
+ */
+export function verifyPortalToken(token: string, secret: string, now = new Date()): string | null {
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const { email, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof email !== 'string' || typeof expiresAt !== 'number' || expiresAt < now.getTime()) return null
+    return email
+  } catch {
+    return null
+  }
+}
+
+/**
+ * What a redeemed token is recorded under
+ */
+export const portalTokenHash = (token: string): string =>
+  createHash('sha256').update(token).digest('hex')
+
+export function portalLinkUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/api/portal/verify?token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,117 @@
+import type { NanoporeFormData } from '../ai/nanopore-llm-service'
+
+/**
+ * Submitter portal
+ * What external submitters see of their samples: a simplified stage/step progress
+ * bar in place of the staff workflow, and nothing staff-only.
+ */
+
+export const PORTAL_STAGES = [
+  { status: 'submitted', label: 'Received' },
+  { status: 'prep', label: 'QC & library prep' },
+  { status: 'sequencing', label: 'Sequencing' },
+  { status: 'analysis', label: 'Analysis' },
+  { status: 'completed', label: 'Delivered' },
+] as const
+
+export type PortalStageState = 'done' | 'current' | 'upcoming'
+
+export interface PortalStep {
+  stepName: string
+  stepStatus: string
+}
+
+export interface PortalProgress {
+  stages: Array<{ label: string; state: PortalStageState }>
+  percent: number
+  // Step being worked on, when the lab has started one
+  currentStep: string | null
+  // A step failed; the lab follows up with the submitter
+  onHold: boolean
+}
+
+/**
+ * Stage bar and completion for a sample. Step counts drive the percentage when the sample has steps.
+ */
+export function portalProgress(status: string, steps: PortalStep[] = []): PortalProgress {
+  const stageStatus = status === 'archived' ? 'completed' : status
+  const current = Math.max(0, PORTAL_STAGES.findIndex(stage => stage.status === stageStatus))
+  const delivered = stageStatus === 'completed'
+
+  const stages = PORTAL_STAGES.map((stage, index) => ({
+    label: stage.label,
+    state: (delivered || index < current ? 'done' : index === current ? 'current' : 'upcoming') as PortalStageState,
+  }))
+
+  const counted = steps.filter(step => step.stepStatus !== 'skipped')
+  const percent = delivered ? 100
+    : counted.length > 0 ? Math.round(100 * counted.filter(step => step.stepStatus === 'completed').length / counted.length)
+    : Math.round(100 * current / (PORTAL_STAGES.length - 1))
+
+  return {
+    stages,
+    percent,
+    currentStep: delivered ? null : steps.find(step => step.stepStatus === 'in_progress')?.stepName ?? null,
+    onHold: !delivered && steps.some(step => step.stepStatus === 'failed'),
+  }
+}
+
+export interface PortalAttachment {
+  id: string
+  sampleId: string
+  fileName: string
+  fileType: string | null
+  fileSizeBytes: number | null
+}
+
+export interface PortalSample {
+  id: string
+  sampleName: string
+  projectId: string | null
+  sampleType: string
+  priority: string
+  status: string
+  submittedAt: Date | string
+  progress: PortalProgress
+  attachments: PortalAttachment[]
+}
+
+export const portalDownloadUrl = (attachmentId: string): string =>
+  `/api/portal/attachments/${attachmentId}`
+
+export interface SampleFormDefaults {
+  sampleName?: string | undefined
+  projectId?: string | undefined
+  submitterName?: string | undefined
+  submitterEmail?: string | undefined
+  labName?: string | undefined
+  sampleType?: string | undefined
+  concentration?: string | undefined
+  volume?: string | undefined
+  flowCellType?: string | undefined
+  priority?: 'low' | 'normal' | 'high' | 'urgent' | undefined
+}
+
+const firstNumber = (value: string | undefined): string | undefined =>
+  value?.match(/\d+(?:\.\d+)?/)?.[0]
+
+/**
+ * Prefill the sample form from a PDF intake extraction; anything it cannot map is left for the submitter
+ */
+export function formDefaultsFromPdf(data: NanoporeFormData): SampleFormDefaults {
+  const type = `${data.sampleType ?? ''} ${data.sequencingType ?? ''}`
+  const priority = data.priority?.toLowerCase() ?? ''
+
+  return {
+    sampleName: data.sampleName,
+    projectId: data.projectName,
+    submitterName: data.submitterName,
+    submitterEmail: data.submitterEmail,
+    labName: data.labName,
+    sampleType: /rna/i.test(type) ? 'RNA' : /dna|amplicon|plasmid|pcr/i.test(type) ? 'DNA' : type.trim() ? 'Other' : undefined,
+    concentration: firstNumber(data.concentration),
+    volume: firstNumber(data.volume),
+    flowCellType: data.flowCellType?.match(/R\d+(?:\.\d+)+/)?.[0],
+    priority: /urgent|rush/.test(priority) ? 'urgent' : /high/.test(priority) ? 'high' : /low/.test(priority) ? 'low' : 'normal',
+  }
+}
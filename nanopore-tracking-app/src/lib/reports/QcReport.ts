@@ -0,0 +1,251 @@
+import type { RunDistributions, RunMetrics, StepRunReport } from './RunReportParser'
+
+/**
+ * Sample QC reports
+ * Pass/fail verdicts and charts built from run metrics already stored in results_data
+ */
+
+export interface QcThresholds {
+  minYieldBases: number
+  minN50: number
+  minMeanQScore: number
+}
+
+export type QcThresholdOverrides = { [K in keyof QcThresholds]?: QcThresholds[K] | undefined }
+
+export const DEFAULT_QC_THRESHOLDS: QcThresholds = {
+  minYieldBases: 1_000_000_000,
+  minN50: 5000,
+  minMeanQScore: 10
+}
+
+export type QcCheckName = 'yield' | 'n50' | 'meanQScore'
+
+export interface QcCheck {
+  name: QcCheckName
+  label: string
+  actual: number
+  threshold: number
+  passed: boolean
+}
+
+export interface QcReportSource {
+  stepName: string
+  sourceFile: string
+  reportType: string
+  importedAt: string
+}
+
+export interface CumulativeYieldPoint {
+  hour: number
+  bases: number
+  cumulativeBases: number
+}
+
+export interface SampleQcReport {
+  sampleId: string
+  sampleName: string
+  generatedAt: string
+  thresholds: QcThresholds
+  source: QcReportSource | null
+  metrics: RunMetrics | null
+  distributions: RunDistributions | null
+  cumulativeYield: CumulativeYieldPoint[]
+  checks: QcCheck[]
+  // null when no run metrics have been imported yet
+  passed: boolean | null
+  notes: string
+}
+
+const envNumber = (name: string): number | undefined => {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Thresholds from the environment (QC_MIN_YIELD_BASES, QC_MIN_N50, QC_MIN_MEAN_QSCORE), with per-request overrides
+ */
+export function getQcThresholds(overrides: QcThresholdOverrides = {}): QcThresholds {
+  const fromEnv = {
+    minYieldBases: envNumber('QC_MIN_YIELD_BASES'),
+    minN50: envNumber('QC_MIN_N50'),
+    minMeanQScore: envNumber('QC_MIN_MEAN_QSCORE')
+  }
+
+  const resolved = { ...DEFAULT_QC_THRESHOLDS }
+  for (const key of Object.keys(resolved) as Array<keyof QcThresholds>) {
+    resolved[key] = overrides[key] ?? fromEnv[key] ?? resolved[key]
+  }
+  return resolved
+}
+
+export function formatBases(bases: number): string {
+  if (bases >= 1e9) return `${(bases / 1e9).toFixed(2)} Gb`
+  if (bases >= 1e6) return `${(bases / 1e6).toFixed(2)} Mb`
+  if (bases >= 1e3) return `${(bases / 1e3).toFixed(1)} kb`
+  return `${bases} b`
+}
+
+const formatCheckValue = (name: QcCheckName, value: number): string =>
+  name === 'meanQScore' ? `Q${value.toFixed(1)}` : formatBases(value)
+
+/**
+ * Report to base QC on: prefer full read-level summaries (they carry distributions), then the newest import
+ */
+function selectPrimaryReport(reports: StepRunReport[]): StepRunReport | null {
+  const withMetrics = reports.filter(report => report.results.metrics)
+  return [...withMetrics].sort((a, b) => {
+    const byDetail = Number(Boolean(b.results.distributions)) - Number(Boolean(a.results.distributions))
+    if (byDetail !== 0) return byDetail
+    return b.results.importedAt.localeCompare(a.results.importedAt)
+  })[0] ?? null
+}
+
+export function evaluateQcChecks(metrics: RunMetrics, thresholds: QcThresholds): QcCheck[] {
+  return [
+    { name: 'yield', label: 'Yield', actual: metrics.totalBases, threshold: thresholds.minYieldBases },
+    { name: 'n50', label: 'N50', actual: metrics.n50, threshold: thresholds.minN50 },
+    { name: 'meanQScore', label: 'Mean Q-score', actual: metrics.meanQScore, threshold: thresholds.minMeanQScore }
+  ].map(check => ({ ...check, name: check.name as QcCheckName, passed: check.actual >= check.threshold }))
+}
+
+export function buildQcReport(
+  sample: { id: string; sample_name: string },
+  reports: StepRunReport[],
+  thresholds: QcThresholds,
+  now: Date = new Date()
+): SampleQcReport {
+  const primary = selectPrimaryReport(reports)
+  const metrics = primary?.results.metrics ?? null
+  const distributions = primary?.results.distributions ?? null
+
+  let running = 0
+  const cumulativeYield = (distributions?.yieldOverTime ?? []).map(point => {
+    running += point.bases
+    return { hour: point.hour, bases: point.bases, cumulativeBases: running }
+  })
+
+  const checks = metrics ? evaluateQcChecks(metrics, thresholds) : []
+  const passed = metrics ? checks.every(check => check.passed) : null
+
+  const notes = metrics
+    ? [
+        `QC ${passed ? 'passed' : 'failed'} (${primary!.results.sourceFile}):`,
+        checks.map(check =>
+          `${check.label} ${formatCheckValue(check.name, check.actual)} ${check.passed ? '>=' : '<'} ${formatCheckValue(check.name, check.threshold)}`
+        ).join(', ')
+      ].join(' ')
+    : 'No run metrics imported yet'
+
+  return {
+    sampleId: sample.id,
+    sampleName: sample.sample_name,
+    generatedAt: now.toISOString(),
+    thresholds,
+    source: primary
+      ? {
+          stepName: primary.stepName,
+          sourceFile: primary.results.sourceFile,
+          reportType: primary.results.reportType,
+          importedAt: primary.results.importedAt
+        }
+      : null,
+    metrics,
+    distributions,
+    cumulativeYield,
+    checks,
+    passed,
+    notes
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!))
+
+function renderBarChart(title: string, bars: Array<{ label: string; value: number }>): string {
+  if (bars.length === 0) return ''
+
+  const width = 640
+  const height = 200
+  const max = Math.max(...bars.map(bar => bar.value), 1)
+  const barWidth = width / bars.length
+
+  const rects = bars.map((bar, index) => {
+    const barHeight = Math.round((bar.value / max) * (height - 30))
+    const x = Math.round(index * barWidth)
+    return `<rect x="${x + 2}" y="${height - 20 - barHeight}" width="${Math.max(Math.round(barWidth) - 4, 1)}" height="${barHeight}" fill="#6366f1"><title>${escapeHtml(bar.label)}: ${bar.value}</title></rect>` +
+      `<text x="${x + barWidth / 2}" y="${height - 5}" font-size="10" text-anchor="middle">${escapeHtml(bar.label)}</text>`
+  }).join('')
+
+  return `<h2>${escapeHtml(title)}</h2><svg viewBox="0 0 ${width} ${height}" width="100%" role="img">${rects}</svg>`
+}
+
+/**
+ * Standalone HTML document for download or printing to PDF
+ */
+export function renderQcReportHtml(report: SampleQcReport): string {
+  const verdict = report.passed === null ? 'PENDING' : report.passed ? 'PASS' : 'FAIL'
+  const verdictColor = report.passed === null ? '#6b7280' : report.passed ? '#15803d' : '#b91c1c'
+
+  const metricRows = report.metrics
+    ? [
+        ['Reads', report.metrics.readCount.toLocaleString('en-US')],
+        ['Total bases', formatBases(report.metrics.totalBases)],
+        ['N50', formatBases(report.metrics.n50)],
+        ['Mean Q-score', report.metrics.meanQScore.toFixed(1)],
+        ['Pass / fail reads', `${report.metrics.passReadCount.toLocaleString('en-US')} / ${report.metrics.failReadCount.toLocaleString('en-US')}`],
+        ['Pass rate', `${(report.metrics.passRatio * 100).toFixed(1)}%`]
+      ].map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value!)}</td></tr>`).join('')
+    : ''
+
+  const checkRows = report.checks.map(check =>
+    `<tr><th>${check.label}</th><td>${formatCheckValue(check.name, check.actual)}</td>` +
+    `<td>&ge; ${formatCheckValue(check.name, check.threshold)}</td>` +
+    `<td style="color:${check.passed ? '#15803d' : '#b91c1c'}">${check.passed ? 'Pass' : 'Fail'}</td></tr>`
+  ).join('')
+
+  const charts = report.distributions
+    ? [
+        renderBarChart('Read length distribution', report.distributions.readLengthHistogram.map(bin => ({
+          label: bin.binEnd === null ? `${formatBases(bin.binStart)}+` : formatBases(bin.binStart),
+          value: bin.reads
+        }))),
+        renderBarChart('Q-score distribution', report.distributions.qScoreHistogram.map(bin => ({
+          label: `Q${bin.qScore}`,
+          value: bin.reads
+        }))),
+        renderBarChart('Cumulative yield by hour', report.cumulativeYield.map(point => ({
+          label: `${point.hour}h`,
+          value: point.cumulativeBases
+        })))
+      ].join('')
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>QC Report - ${escapeHtml(report.sampleName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1rem; margin-top: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #e5e7eb; }
+  .verdict { font-weight: 700; color: ${verdictColor}; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>QC Report: ${escapeHtml(report.sampleName)}</h1>
+<p class="muted">Generated ${escapeHtml(report.generatedAt)}${report.source ? ` from ${escapeHtml(report.source.sourceFile)} (${escapeHtml(report.source.stepName)})` : ''}</p>
+<p>Verdict: <span class="verdict">${verdict}</span></p>
+<p>${escapeHtml(report.notes)}</p>
+${metricRows ? `<h2>Run metrics</h2><table>${metricRows}</table>` : ''}
+${checkRows ? `<h2>Thresholds</h2><table>${checkRows}</table>` : ''}
+${charts}
+</body>
+</html>
+`
+}
@@ -0,0 +1,403 @@
+import { z } from 'zod'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * Run report parsing
+ * Turns MinKNOW, Dorado and pycoQC report files into typed run metrics
+ */
+
+export const RUN_REPORT_TYPES = ['minknow_final_summary', 'sequencing_summary', 'pycoqc_json', 'dorado_json'] as const
+export type RunReportType = typeof RUN_REPORT_TYPES[number]
+
+/**
+ * Processing step each report type completes
+ */
+export const REPORT_TARGET_STEP: Record<RunReportType, string> = {
+  minknow_final_summary: 'Sequencing Run',
+  sequencing_summary: 'Basecalling',
+  pycoqc_json: 'Quality Assessment',
+  dorado_json: 'Quality Assessment'
+}
+
+export const runMetricsSchema = z.object({
+  readCount: z.number().int().nonnegative(),
+  totalBases: z.number().int().nonnegative(),
+  n50: z.number().int().nonnegative(),
+  meanQScore: z.number().nonnegative(),
+  passReadCount: z.number().int().nonnegative(),
+  failReadCount: z.number().int().nonnegative(),
+  passRatio: z.number().min(0).max(1)
+})
+
+export type RunMetrics = z.infer<typeof runMetricsSchema>
+
+export const runMetadataSchema = z.object({
+  instrument: z.string().optional(),
+  position: z.string().optional(),
+  flowCellId: z.string().optional(),
+  sampleId: z.string().optional(),
+  protocolGroupId: z.string().optional(),
+  acquisitionRunId: z.string().optional(),
+  startedAt: z.string().optional(),
+  stoppedAt: z.string().optional()
+})
+
+export type RunMetadata = z.infer<typeof runMetadataSchema>
+
+/**
+ * Read-length bin edges in bases; the last bin is open-ended
+ */
+export const READ_LENGTH_BIN_EDGES = [0, 1000, 2000, 5000, 10000, 20000, 50000, 100000] as const
+
+export const runDistributionsSchema = z.object({
+  readLengthHistogram: z.array(z.object({
+    binStart: z.number().int().nonnegative(),
+    binEnd: z.number().int().positive().nullable(),
+    reads: z.number().int().nonnegative(),
+    bases: z.number().int().nonnegative()
+  })),
+  qScoreHistogram: z.array(z.object({
+    qScore: z.number().int().nonnegative(),
+    reads: z.number().int().nonnegative()
+  })),
+  yieldOverTime: z.array(z.object({
+    hour: z.number().int().nonnegative(),
+    reads: z.number().int().nonnegative(),
+    bases: z.number().int().nonnegative()
+  }))
+})
+
+export type RunDistributions = z.infer<typeof runDistributionsSchema>
+
+/**
+ * Shape stored in nanopore_processing_steps.results_data
+ */
+export const runReportResultsSchema = z.object({
+  reportType: z.enum(RUN_REPORT_TYPES),
+  sourceFile: z.string(),
+  importedAt: z.string(),
+  metrics: runMetricsSchema.optional(),
+  metricsByBarcode: z.record(runMetricsSchema).optional(),
+  distributions: runDistributionsSchema.optional(),
+  run: runMetadataSchema.optional()
+})
+
+export type RunReportResults = z.infer<typeof runReportResultsSchema>
+
+export interface StepRunReport {
+  stepId: string
+  stepName: string
+  stepStatus: string
+  results: RunReportResults
+}
+
+export interface ParsedRunReport {
+  reportType: RunReportType
+  metrics?: RunMetrics
+  metricsByBarcode?: Record<string, RunMetrics>
+  distributions?: RunDistributions
+  run?: RunMetadata
+}
+
+/**
+ * Work out the report type from the file name, falling back to the JSON content
+ */
+export function detectReportType(fileName: string, firstChunk?: string): RunReportType | null {
+  const baseName = fileName.split(/[\\/]/).pop()?.toLowerCase() ?? ''
+
+  if (/^final_summary.*\.txt$/.test(baseName)) return 'minknow_final_summary'
+  if (/^sequencing_summary.*\.txt$/.test(baseName)) return 'sequencing_summary'
+
+  if (baseName.endsWith('.json')) {
+    if (baseName.includes('pycoqc')) return 'pycoqc_json'
+    if (baseName.includes('dorado')) return 'dorado_json'
+    if (firstChunk?.includes('"All Reads"')) return 'pycoqc_json'
+    return 'dorado_json'
+  }
+
+  return null
+}
+
+/**
+ * N50 from read lengths: the length at which half of all bases are in reads at least that long
+ */
+export function calculateN50(lengths: ArrayLike<number>): number {
+  const sorted = Array.from(lengths).sort((a, b) => b - a)
+  const half = sorted.reduce((sum, length) => sum + length, 0) / 2
+
+  let running = 0
+  for (const length of sorted) {
+    running += length
+    if (running >= half) return length
+  }
+  return 0
+}
+
+/**
+ * Parse a MinKNOW final_summary key=value file
+ */
+export function parseFinalSummary(content: string): ParsedRunReport {
+  const values = new Map<string, string>()
+  for (const line of content.split(/\r?\n/)) {
+    const index = line.indexOf('=')
+    if (index > 0) {
+      values.set(line.slice(0, index).trim(), line.slice(index + 1).trim())
+    }
+  }
+
+  if (values.size === 0) {
+    throw new ValidationError('final_summary file has no key=value entries', 'file')
+  }
+
+  const pick = (key: string) => values.get(key) || undefined
+  const run = runMetadataSchema.parse(Object.fromEntries(Object.entries({
+    instrument: pick('instrument'),
+    position: pick('position'),
+    flowCellId: pick('flow_cell_id'),
+    sampleId: pick('sample_id'),
+    protocolGroupId: pick('protocol_group_id'),
+    acquisitionRunId: pick('acquisition_run_id'),
+    startedAt: pick('started'),
+    stoppedAt: pick('acquisition_stopped') ?? pick('processing_stopped')
+  }).filter(([, value]) => value !== undefined)))
+
+  return { reportType: 'minknow_final_summary', run }
+}
+
+class MetricsAccumulator {
+  private lengths: number[] = []
+  private qScoreSum = 0
+  private passReads = 0
+
+  add(length: number, qScore: number, passed: boolean): void {
+    this.lengths.push(length)
+    this.qScoreSum += qScore
+    if (passed) this.passReads++
+  }
+
+  toMetrics(): RunMetrics {
+    const readCount = this.lengths.length
+    return runMetricsSchema.parse({
+      readCount,
+      totalBases: this.lengths.reduce((sum, length) => sum + length, 0),
+      n50: calculateN50(this.lengths),
+      meanQScore: readCount > 0 ? this.qScoreSum / readCount : 0,
+      passReadCount: this.passReads,
+      failReadCount: readCount - this.passReads,
+      passRatio: readCount > 0 ? this.passReads / readCount : 0
+    })
+  }
+}
+
+class DistributionAccumulator {
+  private readonly lengthBins = READ_LENGTH_BIN_EDGES.map(() => ({ reads: 0, bases: 0 }))
+  private readonly qScoreBins = new Map<number, number>()
+  private readonly hourBins = new Map<number, { reads: number; bases: number }>()
+
+  add(length: number, qScore: number, startSeconds: number | null): void {
+    const lengthBin = this.lengthBins[findLengthBin(length)]!
+    lengthBin.reads++
+    lengthBin.bases += length
+
+    const qBin = Math.max(Math.floor(qScore), 0)
+    this.qScoreBins.set(qBin, (this.qScoreBins.get(qBin) ?? 0) + 1)
+
+    if (startSeconds !== null) {
+      const hour = Math.max(Math.floor(startSeconds / 3600), 0)
+      const hourBin = this.hourBins.get(hour) ?? { reads: 0, bases: 0 }
+      hourBin.reads++
+      hourBin.bases += length
+      this.hourBins.set(hour, hourBin)
+    }
+  }
+
+  toDistributions(): RunDistributions {
+    return {
+      readLengthHistogram: this.lengthBins.map((bin, index) => ({
+        binStart: READ_LENGTH_BIN_EDGES[index]!,
+        binEnd: READ_LENGTH_BIN_EDGES[index + 1] ?? null,
+        ...bin
+      })),
+      qScoreHistogram: [...this.qScoreBins]
+        .sort(([a], [b]) => a - b)
+        .map(([qScore, reads]) => ({ qScore, reads })),
+      yieldOverTime: [...this.hourBins]
+        .sort(([a], [b]) => a - b)
+        .map(([hour, bin]) => ({ hour, ...bin }))
+    }
+  }
+}
+
+function findLengthBin(length: number): number {
+  let index = 0
+  while (index + 1 < READ_LENGTH_BIN_EDGES.length && length >= READ_LENGTH_BIN_EDGES[index + 1]!) {
+    index++
+  }
+  return index
+}
+
+/**
+ * Stream a MinKNOW/Dorado sequencing_summary TSV, one line at a time.
+ * Reads are grouped per barcode when a barcode_arrangement column is present.
+ */
+export async function parseSequencingSummary(lines: Iterable<string> | AsyncIterable<string>): Promise<ParsedRunReport> {
+  let columns: Record<string, number> | null = null
+  const overall = new MetricsAccumulator()
+  const distributions = new DistributionAccumulator()
+  const byBarcode = new Map<string, MetricsAccumulator>()
+
+  for await (const rawLine of lines) {
+    const line = rawLine.replace(/\r$/, '')
+    if (!line) continue
+
+    const fields = line.split('\t')
+    if (!columns) {
+      columns = Object.fromEntries(fields.map((name, index) => [name, index]))
+      for (const required of ['sequence_length_template', 'mean_qscore_template']) {
+        if (columns[required] === undefined) {
+          throw new ValidationError(`sequencing_summary is missing the ${required} column`, 'file')
+        }
+      }
+      continue
+    }
+
+    const length = Number(fields[columns['sequence_length_template']!])
+    const qScore = Number(fields[columns['mean_qscore_template']!])
+    if (!Number.isFinite(length) || !Number.isFinite(qScore)) continue
+
+    const passColumn = columns['passes_filtering']
+    const passed = passColumn === undefined || fields[passColumn]?.toUpperCase() === 'TRUE'
+    overall.add(length, qScore, passed)
+
+    const startColumn = columns['start_time']
+    const startSeconds = startColumn === undefined ? NaN : Number(fields[startColumn])
+    distributions.add(length, qScore, Number.isFinite(startSeconds) ? startSeconds : null)
+
+    const barcodeColumn = columns['barcode_arrangement']
+    if (barcodeColumn !== undefined) {
+      const barcode = fields[barcodeColumn] || 'unclassified'
+      if (!byBarcode.has(barcode)) byBarcode.set(barcode, new MetricsAccumulator())
+      byBarcode.get(barcode)!.add(length, qScore, passed)
+    }
+  }
+
+  if (!columns) {
+    throw new ValidationError('sequencing_summary file is empty', 'file')
+  }
+
+  return {
+    reportType: 'sequencing_summary',
+    metrics: overall.toMetrics(),
+    distributions: distributions.toDistributions(),
+    ...(byBarcode.size > 0 && {
+      metricsByBarcode: Object.fromEntries([...byBarcode].map(([barcode, acc]) => [barcode, acc.toMetrics()]))
+    })
+  }
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Parse a pycoQC JSON report ("All Reads"/"Pass Reads" sections)
+ */
+export function parsePycoQCReport(report: Record<string, any>): ParsedRunReport {
+  const all = report['All Reads']?.basecall
+  const pass = report['Pass Reads']?.basecall
+  if (!all) {
+    throw new ValidationError('pycoQC report has no "All Reads" section', 'file')
+  }
+
+  const readCount = toNumber(all.reads_number) ?? 0
+  const passReadCount = toNumber(pass?.reads_number) ?? readCount
+
+  return {
+    reportType: 'pycoqc_json',
+    metrics: runMetricsSchema.parse({
+      readCount,
+      totalBases: toNumber(all.bases_number) ?? 0,
+      n50: Math.round(toNumber(all.N50) ?? 0),
+      meanQScore: toNumber(all.qual_score_mean) ?? toNumber(all.qual_score_percentiles?.[5]) ?? 0,
+      passReadCount,
+      failReadCount: Math.max(readCount - passReadCount, 0),
+      passRatio: readCount > 0 ? passReadCount / readCount : 0
+    })
+  }
+}
+
+/**
+ * Parse a Dorado summary JSON. Key names vary between versions, so common spellings are accepted.
+ */
+export function parseDoradoReport(report: Record<string, any>): ParsedRunReport {
+  const source = report.summary ?? report
+  const first = (...keys: string[]) => keys.map(key => toNumber(source[key])).find(value => value !== undefined)
+
+  const readCount = first('read_count', 'reads', 'num_reads', 'total_reads')
+  if (readCount === undefined) {
+    throw new ValidationError('Dorado report has no read count', 'file')
+  }
+  const passReadCount = first('pass_read_count', 'reads_pass', 'passed_reads') ?? readCount
+
+  return {
+    reportType: 'dorado_json',
+    metrics: runMetricsSchema.parse({
+      readCount,
+      totalBases: first('total_bases', 'bases', 'num_bases', 'yield') ?? 0,
+      n50: Math.round(first('n50', 'N50', 'read_n50') ?? 0),
+      meanQScore: first('mean_qscore', 'mean_q_score', 'mean_quality', 'qscore_mean') ?? 0,
+      passReadCount,
+      failReadCount: Math.max(readCount - passReadCount, 0),
+      passRatio: readCount > 0 ? passReadCount / readCount : 0
+    })
+  }
+}
+
+/**
+ * Parse any supported report from its lines
+ */
+export async function parseRunReport(
+  fileName: string,
+  lines: Iterable<string> | AsyncIterable<string>
+): Promise<ParsedRunReport> {
+  if (detectReportType(fileName) === 'sequencing_summary') {
+    return await parseSequencingSummary(lines)
+  }
+
+  const chunks: string[] = []
+  for await (const line of lines) chunks.push(line)
+  const content = chunks.join('\n')
+
+  const reportType = detectReportType(fileName, content.slice(0, 2000))
+  switch (reportType) {
+    case 'minknow_final_summary':
+      return parseFinalSummary(content)
+    case 'pycoqc_json':
+    case 'dorado_json': {
+      let report: Record<string, any>
+      try {
+        report = JSON.parse(content)
+      } catch (error) {
+        throw new ValidationError(`${fileName} is not valid JSON`, 'file', error as Error)
+      }
+      return reportType === 'pycoqc_json' ? parsePycoQCReport(report) : parseDoradoReport(report)
+    }
+    default:
+      throw new ValidationError(`Unsupported run report file: ${fileName}`, 'file')
+  }
+}
+
+/**
+ * Run reports stored on a sample's processing steps, in step order
+ */
+export function extractRunReports<T extends { id: string; step_name: string; step_status: string; results_data: unknown }>(
+  steps: T[]
+): StepRunReport[] {
+  return steps.flatMap(step => {
+    const parsed = runReportResultsSchema.safeParse(step.results_data)
+    return parsed.success
+      ? [{ stepId: step.id, stepName: step.step_name, stepStatus: step.step_status, results: parsed.data }]
+      : []
+  })
+}
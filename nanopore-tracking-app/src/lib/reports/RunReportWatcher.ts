@@ -0,0 +1,133 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { detectReportType } from './RunReportParser'
+import { getComponentLogger } from '../logging/StructuredLogger'
+
+const logger = getComponentLogger('RunReportWatcher')
+
+export interface RunReportWatcherConfig {
+  directory: string
+  pollIntervalMs: number
+  // Files modified more recently than this are assumed to still be written by MinKNOW
+  settleMs: number
+  // MinKNOW nests output as <experiment>/<sample>/<run>/, so a shallow walk is enough
+  maxDepth: number
+}
+
+export interface WatchedReportImporter {
+  importFromWatchDirectory(watchRoot: string, filePath: string): Promise<unknown>
+}
+
+/**
+ * Polls a MinKNOW output directory and hands new or changed report files to the importer.
+ * Polling is used rather than fs.watch because output directories are usually network mounts.
+ */
+export class RunReportWatcher {
+  private timer: NodeJS.Timeout | null = null
+  private scanning = false
+  private readonly seen = new Map<string, number>()
+
+  constructor(
+    private readonly importer: WatchedReportImporter,
+    private readonly config: RunReportWatcherConfig
+  ) {}
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      void this.scan()
+    }, this.config.pollIntervalMs)
+    this.timer.unref()
+
+    logger.info('Watching for run reports', {
+      action: 'run_report_watch_started',
+      metadata: { directory: this.config.directory, pollIntervalMs: this.config.pollIntervalMs }
+    })
+    void this.scan()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Import every report that is new or has changed since the last scan
+   */
+  async scan(now: number = Date.now()): Promise<number> {
+    if (this.scanning) return 0
+    this.scanning = true
+
+    let imported = 0
+    try {
+      for (const filePath of await this.findReportFiles(this.config.directory, 0)) {
+        const stats = await fs.stat(filePath)
+        if (now - stats.mtimeMs < this.config.settleMs) continue
+        if (this.seen.get(filePath) === stats.mtimeMs) continue
+
+        // Mark before importing so a file that fails is retried only once it changes
+        this.seen.set(filePath, stats.mtimeMs)
+        try {
+          if (await this.importer.importFromWatchDirectory(this.config.directory, filePath)) {
+            imported++
+          }
+        } catch (error) {
+          logger.error('Run report import failed', {
+            action: 'run_report_import_failed',
+            metadata: { filePath }
+          }, error as Error)
+        }
+      }
+    } finally {
+      this.scanning = false
+    }
+
+    return imported
+  }
+
+  private async findReportFiles(directory: string, depth: number): Promise<string[]> {
+    let entries
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true })
+    } catch (error) {
+      logger.warn('Cannot read run report directory', {
+        action: 'run_report_watch_unreadable',
+        metadata: { directory, error: (error as Error).message }
+      })
+      return []
+    }
+
+    const files: string[] = []
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name)
+      if (entry.isDirectory() && depth < this.config.maxDepth) {
+        files.push(...await this.findReportFiles(fullPath, depth + 1))
+      } else if (entry.isFile() && detectReportType(entry.name)) {
+        files.push(fullPath)
+      }
+    }
+    return files
+  }
+}
+
+let watcher: RunReportWatcher | null = null
+
+/**
+ * Start the shared watcher when RUN_REPORT_WATCH_DIR is configured
+ */
+export function startRunReportWatcher(importer: WatchedReportImporter): RunReportWatcher | null {
+  const directory = process.env.RUN_REPORT_WATCH_DIR
+  if (!directory || watcher) return watcher
+
+  watcher = new RunReportWatcher(importer, {
+    directory,
+    pollIntervalMs: parseInt(process.env.RUN_REPORT_POLL_INTERVAL_MS || '60000'),
+    settleMs: parseInt(process.env.RUN_REPORT_SETTLE_MS || '120000'),
+    maxDepth: 4
+  })
+  watcher.start()
+  return watcher
+}
@@ -1,11 +1,73 @@
-import { initTRPC } from '@trpc/server'
+import { initTRPC, TRPCError } from '@trpc/server'
+import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch'
+import { StatusTransitionError } from '../middleware/errors/ErrorTypes'
+import {
+  authorizeSampleAccess,
+  requiredPermissions,
+  sampleIdFromInput,
+  type AccessUser,
+  type SamplePermission
+} from './auth/SampleAccess'
+
+/**
+ * Read the admin session id from the Authorization header or the admin_session cookie
+ */
+const getAdminSessionId = (req?: Request): string | null => {
+  if (!req) return null
+
+  const authHeader = req.headers.get('authorization')
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7)
+  }
+
+  const cookie = req.headers.get('cookie') ?? ''
+  const match = cookie.match(/(?:^|;\s*)admin_session=([^;]+)/)
+  return match?.[1] ? decodeURIComponent(match[1]) : null
+}
+
+/**
+ * The caller's role: a staff session from the session cookie, or an admin session
+ */
+const getCurrentUser = async (req: Request | undefined, adminSessionId: string | null): Promise<AccessUser | null> => {
+  if (!req) return null
+
+  const { authService, getCookieValue } = await import('./auth')
+  const sessionId = getCookieValue(req.headers.get('cookie') ?? '', 'session')
+  const session = sessionId ? await authService.validateSession(decodeURIComponent(sessionId)) : null
+  if (session) {
+    return {
+      id: session.userId,
+      name: session.name,
+      email: session.email,
+      role: session.role,
+      emailVerified: session.emailVerified,
+    }
+  }
+
+  if (adminSessionId) {
+    const { adminAuth } = await import('./auth/AdminAuth')
+    const adminSession = await adminAuth.validateSession(adminSessionId)
+    if (adminSession && adminAuth.isAdmin(adminSession)) {
+      return { id: `admin:${adminSession.username}`, name: adminSession.username, email: '', role: 'admin' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * The signed-in user for API routes outside tRPC, from the same sessions procedures accept
+ */
+export const getRequestUser = (req: Request): Promise<AccessUser | null> =>
+  getCurrentUser(req, getAdminSessionId(req))
 
 // Create tRPC context
-export const createTRPCContext = async () => {
+export const createTRPCContext = async (opts?: FetchCreateContextFnOptions) => {
   // Only import database on server side
   if (typeof window === 'undefined') {
     const { db } = await import('./database')
-    return { db }
+    const adminSessionId = getAdminSessionId(opts?.req)
+    return { db, adminSessionId, user: await getCurrentUser(opts?.req, adminSessionId) }
   }
   
   // This should never be called on client side for API routes
@@ -14,19 +76,140 @@ export const createTRPCContext = async () => {
 
 type Context = Awaited<ReturnType<typeof createTRPCContext>>
 
-const t = initTRPC.context<Context>().create()
+export interface ProcedureMeta {
+  // Checked against the caller's role by sampleProcedure
+  permission?: SamplePermission
+  // The input's id names a note rather than a sample; access is checked against the note's sample
+  sampleOf?: 'note'
+}
+
+const t = initTRPC.context<Context>().meta<ProcedureMeta>().create({
+  errorFormatter({ shape, error }) {
+    // Surface rejected status transitions so the dashboard can explain why a move was blocked
+    const statusTransition = error.cause instanceof StatusTransitionError
+      ? {
+          from: error.cause.from,
+          to: error.cause.to,
+          unmetPreconditions: error.cause.unmetPreconditions,
+        }
+      : null
+
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        statusTransition,
+      },
+    }
+  },
+})
 
 export const router = t.router
 export const publicProcedure = t.procedure
 
+// Procedures that require a valid admin session
+export const adminProcedure = t.procedure.use(async ({ ctx, next }) => {
+  if (!ctx.adminSessionId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Admin session required' })
+  }
+
+  const { adminAuth } = await import('./auth/AdminAuth')
+  const session = await adminAuth.validateSession(ctx.adminSessionId)
+  if (!session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or expired admin session' })
+  }
+  if (!adminAuth.isAdmin(session)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin role required' })
+  }
+
+  return next({ ctx: { ...ctx, adminSession: session } })
+})
+
+// Procedures that require a signed-in user
+export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign in required' })
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user } })
+})
+
+/**
+ * Procedures authorized by the permission in their meta.
+ * When the input names a sample (a sample id, or an object with id or sampleId) it is checked for ownership
+ * or assignment where the caller's role requires it; otherwise only the role is checked, and permissions
+ * the role holds only for its own or assigned samples are refused. Refusals are written to the audit log.
+ */
+export const sampleProcedure = protectedProcedure.use(async ({ ctx, meta, path, getRawInput, next }) => {
+  if (!meta?.permission) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: `No permission declared for ${path}` })
+  }
+
+  const input = await getRawInput()
+  const { getSampleRepository, getSampleNoteService, getAuditLogger } = await import('../container')
+  const id = sampleIdFromInput(input)
+  const sampleId = id && meta.sampleOf === 'note' ? await getSampleNoteService().sampleIdOf(id) : id
+  const sample = sampleId ? await getSampleRepository().findById(sampleId) : null
+
+  for (const permission of requiredPermissions(meta.permission, input, sample ?? undefined)) {
+    const decision = authorizeSampleAccess(ctx.user, permission, sample ?? undefined)
+    if (decision.allowed) continue
+
+    await getAuditLogger().log({
+      type: 'access.denied',
+      userId: ctx.user.id,
+      resourceType: 'sample',
+      resourceId: sampleId ?? 'none',
+      action: 'access_denied',
+      details: { procedure: path, permission, role: ctx.user.role, actor: ctx.user.name, reason: decision.reason },
+      timestamp: new Date(),
+    })
+    throw new TRPCError({ code: 'FORBIDDEN', message: decision.reason ?? 'Not permitted' })
+  }
+
+  return next()
+})
+
 // Create app router without importing nanopore router directly
 // This prevents database code from being bundled for the client
 export const createAppRouter = async () => {
   // Dynamically import the nanopore router only on the server
   const { nanoporeRouter } = await import('./api/nanopore')
+  const { workflowTemplatesRouter } = await import('./api/workflow-templates')
+  const { flowCellsRouter } = await import('./api/flow-cells')
+  const { sequencingRunsRouter } = await import('./api/sequencing-runs')
+  const { runReportsRouter } = await import('./api/run-reports')
+  const { exportsRouter } = await import('./api/exports')
+  const { intakeRouter } = await import('./api/intake')
+  const { formTemplatesRouter } = await import('./api/form-templates')
+  const { sampleWorkflowRouter } = await import('./api/sample-workflow')
+  const { sampleNotesRouter } = await import('./api/sample-notes')
+  const { sampleTimelineRouter } = await import('./api/sample-timeline')
+  const { emailNotificationsRouter } = await import('./api/email-notifications')
+  const { notificationsRouter } = await import('./api/notifications')
+  const { usersRouter } = await import('./api/users')
+  const { submitterPortalRouter } = await import('./api/submitter-portal')
+  const { extractionReviewsRouter } = await import('./api/extraction-reviews')
+  const { sampleQueryRouter } = await import('./api/sample-query')
   
   return router({
     nanopore: nanoporeRouter,
+    workflowTemplates: workflowTemplatesRouter,
+    flowCells: flowCellsRouter,
+    sequencingRuns: sequencingRunsRouter,
+    runReports: runReportsRouter,
+    exports: exportsRouter,
+    intake: intakeRouter,
+    formTemplates: formTemplatesRouter,
+    sampleWorkflow: sampleWorkflowRouter,
+    notes: sampleNotesRouter,
+    sampleTimeline: sampleTimelineRouter,
+    emailNotifications: emailNotificationsRouter,
+    notifications: notificationsRouter,
+    users: usersRouter,
+    portal: submitterPortalRouter,
+    extractionReviews: extractionReviewsRouter,
+    sampleQuery: sampleQueryRouter,
   })
 }
 
@@ -0,0 +1,208 @@
+/**
+ * Browser side of the file-storage service's chunked upload protocol
+ * Each file is sent in checksummed parts; the upload id is kept in local storage so a reload
+ * can pick the upload up again once the same file is selected.
+ */
+
+export const UPLOADS_ENDPOINT = '/api/uploads'
+export const PENDING_UPLOADS_KEY = 'nanopore:pending-uploads'
+
+// A part that fails is retried a few times before the upload is paused
+const PART_ATTEMPTS = 3
+
+export interface UploadSession {
+  uploadId: string
+  originalName: string
+  sizeBytes: number
+  partSize: number
+  totalParts: number
+  status: 'active' | 'completed' | 'aborted'
+  parts: Array<{ partNumber: number; sizeBytes: number }>
+  uploadedBytes: number
+}
+
+export interface UploadedFile {
+  id: string
+  originalName: string
+  sizeBytes: number
+  // SHA-256 of the whole file, as stored by the file service
+  contentHash?: string | undefined
+  metadata?: Record<string, any>
+}
+
+export interface PendingUpload {
+  uploadId: string
+  fileName: string
+  sizeBytes: number
+  lastModified: number
+  uploadedBytes: number
+  startedAt: string
+}
+
+export type UploadStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+export interface ResumableUploadOptions {
+  storage?: UploadStorage | undefined
+  fetchImpl?: typeof fetch | undefined
+  signal?: AbortSignal | undefined
+  tags?: string[] | undefined
+  description?: string | undefined
+  onProgress?: ((uploadedBytes: number, totalBytes: number) => void) | undefined
+}
+
+/**
+ * Identifies a file across reloads; the browser gives no path, so name, size and modification time stand in
+ */
+export const fileFingerprint = (file: Pick<File, 'name' | 'size' | 'lastModified'>): string =>
+  `${file.name}:${file.size}:${file.lastModified}`
+
+export function loadPendingUploads(storage: UploadStorage): Record<string, PendingUpload> {
+  try {
+    const parsed = JSON.parse(storage.getItem(PENDING_UPLOADS_KEY) ?? '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function savePendingUpload(storage: UploadStorage, fingerprint: string, upload: PendingUpload | null): void {
+  const pending = loadPendingUploads(storage)
+  if (upload) {
+    pending[fingerprint] = upload
+  } else {
+    delete pending[fingerprint]
+  }
+  storage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(pending))
+}
+
+/**
+ * Byte range of a part, numbered from 1
+ */
+export function partRange(partNumber: number, partSize: number, sizeBytes: number): { start: number; end: number } {
+  const start = (partNumber - 1) * partSize
+  return { start, end: Math.min(start + partSize, sizeBytes) }
+}
+
+/**
+ * Parts the service has not received yet
+ */
+export function missingParts(session: Pick<UploadSession, 'totalParts' | 'parts'>): number[] {
+  const received = new Set(session.parts.map(part => part.partNumber))
+  return Array.from({ length: session.totalParts }, (_, index) => index + 1).filter(part => !received.has(part))
+}
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export class UploadRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'UploadRequestError'
+  }
+}
+
+async function request<T>(fetchImpl: typeof fetch, path: string, init: RequestInit): Promise<T> {
+  const response = await fetchImpl(`${UPLOADS_ENDPOINT}${path}`, { credentials: 'same-origin', ...init })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok || body.success === false) {
+    throw new UploadRequestError(body.error || `Upload request failed (${response.status})`, response.status)
+  }
+  return body.data as T
+}
+
+/**
+ * Upload a file in parts, continuing an earlier upload of the same file when the service still has it
+ */
+export async function uploadResumable(file: File, options: ResumableUploadOptions = {}): Promise<UploadedFile> {
+  const fetchImpl = options.fetchImpl ?? fetch
+  const storage = options.storage ?? globalThis.localStorage
+  const fingerprint = fileFingerprint(file)
+  const json = { 'Content-Type': 'application/json' }
+
+  let session: UploadSession | null = null
+  const pending = loadPendingUploads(storage)[fingerprint]
+  if (pending) {
+    try {
+      const existing = await request<UploadSession>(fetchImpl, `/${pending.uploadId}`, { method: 'GET' })
+      session = existing.status === 'active' ? existing : null
+    } catch (error) {
+      if (!(error instanceof UploadRequestError) || error.status >= 500) throw error
+    }
+    if (!session) savePendingUpload(storage, fingerprint, null)
+  }
+
+  if (!session) {
+    session = await request<UploadSession>(fetchImpl, '', {
+      method: 'POST',
+      headers: json,
+      body: JSON.stringify({
+        fileName: file.name,
+        sizeBytes: file.size,
+        mimeType: file.type || undefined,
+        description: options.description,
+        tags: options.tags
+      })
+    })
+  }
+
+  const remember = (uploadedBytes: number) => savePendingUpload(storage, fingerprint, {
+    uploadId: session!.uploadId,
+    fileName: file.name,
+    sizeBytes: file.size,
+    lastModified: file.lastModified,
+    uploadedBytes,
+    startedAt: pending?.uploadId === session!.uploadId ? pending.startedAt : new Date().toISOString()
+  })
+
+  let uploadedBytes = session.uploadedBytes
+  remember(uploadedBytes)
+  options.onProgress?.(uploadedBytes, file.size)
+
+  for (const partNumber of missingParts(session)) {
+    const { start, end } = partRange(partNumber, session.partSize, file.size)
+    const data = await file.slice(start, end).arrayBuffer()
+    const checksum = await sha256Hex(data)
+
+    for (let attempt = 1; ; attempt++) {
+      options.signal?.throwIfAborted()
+      try {
+        await request(fetchImpl, `/${session.uploadId}/parts/${partNumber}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream', 'X-Checksum-SHA256': checksum },
+          body: data,
+          signal: options.signal ?? null
+        })
+        break
+      } catch (error) {
+        // Access and state errors will not fix themselves; a corrupted or dropped part may
+        const retryable = !(error instanceof UploadRequestError) || error.status === 400 || error.status >= 500
+        if (!retryable || attempt >= PART_ATTEMPTS || options.signal?.aborted) throw error
+      }
+    }
+
+    uploadedBytes += end - start
+    remember(uploadedBytes)
+    options.onProgress?.(uploadedBytes, file.size)
+  }
+
+  const result = await request<{ file: UploadedFile }>(fetchImpl, `/${session.uploadId}/complete`, { method: 'POST' })
+  savePendingUpload(storage, fingerprint, null)
+  return result.file
+}
+
+/**
+ * Abort an upload on the service and forget it locally
+ */
+export async function abortResumableUpload(
+  fingerprint: string,
+  options: Pick<ResumableUploadOptions, 'storage' | 'fetchImpl'> = {}
+): Promise<void> {
+  const storage = options.storage ?? globalThis.localStorage
+  const pending = loadPendingUploads(storage)[fingerprint]
+  savePendingUpload(storage, fingerprint, null)
+  if (pending) {
+    await request(options.fetchImpl ?? fetch, `/${pending.uploadId}`, { method: 'DELETE' }).catch(() => undefined)
+  }
+}
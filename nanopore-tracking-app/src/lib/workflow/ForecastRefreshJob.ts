@@ -0,0 +1,40 @@
+import { getComponentLogger } from '../logging/StructuredLogger'
+
+const logger = getComponentLogger('ForecastRefreshJob')
+
+export interface ForecastRefresher {
+  refreshForecasts(now?: Date): Promise<unknown>
+}
+
+let timer: NodeJS.Timeout | null = null
+
+/**
+ * Periodically store turnaround forecasts and raise SLA-at-risk events.
+ * The stored risk is only replaced by the run that read it, so each escalation is reported once
+ * however often this runs or however many instances run it.
+ */
+export function startForecastRefreshJob(refresher: ForecastRefresher): void {
+  if (timer) return
+
+  const intervalMs = parseInt(process.env.FORECAST_REFRESH_INTERVAL_MS || '900000')
+  let refreshing = false
+  const refresh = async () => {
+    if (refreshing) return
+    refreshing = true
+    try {
+      await refresher.refreshForecasts()
+    } catch (error) {
+      logger.error('Forecast refresh failed', {
+        action: 'forecast_refresh_failed'
+      }, error as Error)
+    } finally {
+      refreshing = false
+    }
+  }
+
+  timer = setInterval(() => {
+    void refresh()
+  }, intervalMs)
+  timer.unref()
+  void refresh()
+}
@@ -0,0 +1,132 @@
+import { ConflictError, ValidationError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * Sequencing runs
+ * Barcode kit definitions and membership validation for multiplexed runs
+ */
+
+export type SequencingRunStatus = 'planned' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Number of barcodes in each supported kit
+ */
+export const BARCODE_KIT_SIZES: Record<string, number> = {
+  'SQK-NBD114.24': 24,
+  'SQK-NBD114.96': 96,
+  'SQK-RBK114.24': 24,
+  'SQK-RBK114.96': 96,
+  'SQK-PCB114.24': 24,
+  'SQK-RPB114.24': 24,
+  'EXP-NBD104': 12,
+  'EXP-NBD114': 12,
+  'EXP-NBD196': 96,
+  'SQK-RBK004': 12,
+  'SQK-PBK004': 12
+}
+
+/**
+ * Processing steps advanced together for every sample on a run
+ */
+export const RUN_SETUP_STEP = 'Sequencing Setup'
+export const RUN_STEP = 'Sequencing Run'
+
+export interface RunMemberInput {
+  sampleId: string
+  barcode: string
+}
+
+export interface RunMemberDetails {
+  sampleId: string
+  sampleName: string
+  barcodingRequired: boolean
+  barcodeKit: string | null
+}
+
+export interface BarcodeCollision {
+  barcode: string
+  sampleIds: string[]
+}
+
+/**
+ * Canonical barcode label as reported by MinKNOW, e.g. "7", "NB07" and "barcode07" become "barcode07"
+ */
+export function normalizeBarcode(value: string): string {
+  const match = value.trim().match(/^(?:barcode|nb|rb|bc)?0*(\d{1,2})$/i)
+  if (!match?.[1]) {
+    throw new ValidationError(`Invalid barcode '${value}'`, 'barcode')
+  }
+  return `barcode${match[1].padStart(2, '0')}`
+}
+
+export function findBarcodeCollisions(members: RunMemberInput[]): BarcodeCollision[] {
+  const byBarcode = new Map<string, string[]>()
+  for (const member of members) {
+    const barcode = normalizeBarcode(member.barcode)
+    byBarcode.set(barcode, [...(byBarcode.get(barcode) ?? []), member.sampleId])
+  }
+
+  return [...byBarcode.entries()]
+    .filter(([, sampleIds]) => sampleIds.length > 1)
+    .map(([barcode, sampleIds]) => ({ barcode, sampleIds }))
+}
+
+/**
+ * Check run membership against the kit and each sample's barcoding details.
+ * Returns the members with normalized barcodes.
+ */
+export function validateRunMembers(
+  barcodeKit: string,
+  members: RunMemberInput[],
+  details: RunMemberDetails[]
+): RunMemberInput[] {
+  const kitSize = BARCODE_KIT_SIZES[barcodeKit]
+  if (!kitSize) {
+    throw new ValidationError(`Unknown barcode kit '${barcodeKit}'`, 'barcodeKit')
+  }
+
+  if (members.length === 0) {
+    throw new ValidationError('A run needs at least one sample', 'samples')
+  }
+
+  if (members.length > kitSize) {
+    throw new ValidationError(`${barcodeKit} supports at most ${kitSize} samples, got ${members.length}`, 'samples')
+  }
+
+  const sampleIds = new Set<string>()
+  for (const member of members) {
+    if (sampleIds.has(member.sampleId)) {
+      throw new ValidationError(`Sample ${member.sampleId} is listed more than once`, 'samples')
+    }
+    sampleIds.add(member.sampleId)
+  }
+
+  const collisions = findBarcodeCollisions(members)
+  if (collisions.length > 0) {
+    const summary = collisions.map(c => `${c.barcode} (${c.sampleIds.length} samples)`).join(', ')
+    throw new ConflictError(`Barcode collision in run: ${summary}`)
+  }
+
+  return members.map(member => {
+    const barcode = normalizeBarcode(member.barcode)
+    const number = Number(barcode.replace('barcode', ''))
+    if (number < 1 || number > kitSize) {
+      throw new ValidationError(`${barcode} is not part of ${barcodeKit}`, 'barcode')
+    }
+
+    const detail = details.find(d => d.sampleId === member.sampleId)
+    if (!detail) {
+      throw new ValidationError(`Sample ${member.sampleId} has no sample details`, 'samples')
+    }
+    if (!detail.barcodingRequired) {
+      throw new ValidationError(`Sample ${detail.sampleName} is not marked for barcoding`, 'samples')
+    }
+    if (detail.barcodeKit && detail.barcodeKit !== barcodeKit) {
+      throw new ValidationError(
+        `Sample ${detail.sampleName} was prepared with ${detail.barcodeKit}, not ${barcodeKit}`,
+        'barcodeKit'
+      )
+    }
+
+    return { sampleId: member.sampleId, barcode }
+  })
+}
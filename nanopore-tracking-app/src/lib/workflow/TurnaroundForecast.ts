@@ -0,0 +1,208 @@
+/**
+ * Turnaround forecasting
+ * Projects sample completion times and flags samples likely to miss their SLA
+ */
+
+export type SamplePriority = 'low' | 'normal' | 'high' | 'urgent'
+
+export type SlaRisk = 'on_track' | 'at_risk' | 'breached'
+
+/**
+ * Turnaround SLA in hours, measured from submission
+ */
+export const SLA_HOURS_BY_PRIORITY: Record<SamplePriority, number> = {
+  urgent: 72,
+  high: 120,
+  normal: 240,
+  low: 480
+}
+
+/**
+ * How much of an assignee's queue a sample waits behind, by priority.
+ * Urgent samples jump most of the queue, low priority samples wait for all of it.
+ */
+export const QUEUE_WAIT_FACTOR_BY_PRIORITY: Record<SamplePriority, number> = {
+  urgent: 0.1,
+  high: 0.4,
+  normal: 0.75,
+  low: 1
+}
+
+/**
+ * Hours of queue wait assumed per active sample ahead on the same assignee
+ */
+export const DEFAULT_HOURS_PER_QUEUED_SAMPLE = 4
+
+/**
+ * Completed runs of a step needed before historical durations replace the estimate
+ */
+export const MIN_HISTORY_SAMPLES = 3
+
+/**
+ * Duration assumed for steps without an estimate or history
+ */
+const FALLBACK_STEP_HOURS = 1
+
+export interface ForecastStep {
+  step_name: string
+  step_status: string
+  estimated_duration_hours: number | null
+  started_at: Date | string | null
+}
+
+export interface ForecastSample {
+  id: string
+  status: string
+  priority: string
+  sample_type: string
+  assigned_to: string | null
+  submitted_at: Date | string
+}
+
+/**
+ * Historical actual durations of a step for a sample type
+ */
+export interface StepDurationStat {
+  sampleType: string
+  stepName: string
+  averageHours: number
+  sampleCount: number
+}
+
+export interface ForecastContext {
+  now: Date
+  stepDurations: StepDurationStat[]
+  /** Active samples per assignee, including the sample being forecast */
+  queueDepthByAssignee: Record<string, number>
+  hoursPerQueuedSample?: number
+  /** Fraction of the SLA window that must remain for a sample to count as on track */
+  atRiskMargin?: number
+}
+
+export interface SampleForecast {
+  sampleId: string
+  priority: SamplePriority
+  remainingWorkHours: number
+  queueWaitHours: number
+  projectedCompletionAt: Date
+  slaHours: number
+  slaDeadline: Date
+  /** Positive when the projection lands before the deadline */
+  slackHours: number
+  risk: SlaRisk
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const toDate = (value: Date | string): Date => value instanceof Date ? value : new Date(value)
+
+const normalizePriority = (priority: string): SamplePriority =>
+  priority in SLA_HOURS_BY_PRIORITY ? priority as SamplePriority : 'normal'
+
+/**
+ * Expected duration of a step, preferring historical actuals for the sample type
+ */
+export function getExpectedStepHours(
+  step: Pick<ForecastStep, 'step_name' | 'estimated_duration_hours'>,
+  sampleType: string,
+  stepDurations: StepDurationStat[]
+): number {
+  const history = stepDurations.find(stat =>
+    stat.stepName === step.step_name &&
+    stat.sampleType.toLowerCase() === sampleType.toLowerCase()
+  )
+
+  if (history && history.sampleCount >= MIN_HISTORY_SAMPLES) {
+    return history.averageHours
+  }
+
+  return step.estimated_duration_hours ?? FALLBACK_STEP_HOURS
+}
+
+/**
+ * Hours of work left on a sample's unfinished steps
+ */
+export function getRemainingWorkHours(
+  sample: Pick<ForecastSample, 'sample_type'>,
+  steps: ForecastStep[],
+  stepDurations: StepDurationStat[],
+  now: Date
+): number {
+  return steps.reduce((total, step) => {
+    if (step.step_status === 'completed' || step.step_status === 'skipped') {
+      return total
+    }
+
+    const expected = getExpectedStepHours(step, sample.sample_type, stepDurations)
+
+    if (step.step_status === 'in_progress' && step.started_at) {
+      const elapsed = (now.getTime() - toDate(step.started_at).getTime()) / HOUR_MS
+      // A step running over its estimate is assumed to need a little more time, not none
+      return total + Math.max(expected - elapsed, expected * 0.1)
+    }
+
+    return total + expected
+  }, 0)
+}
+
+/**
+ * Classify SLA risk from the projection and deadline
+ */
+export function classifySlaRisk(
+  projectedCompletionAt: Date,
+  slaDeadline: Date,
+  slaHours: number,
+  now: Date,
+  atRiskMargin = 0.1
+): SlaRisk {
+  if (now.getTime() > slaDeadline.getTime()) {
+    return 'breached'
+  }
+
+  const slackHours = (slaDeadline.getTime() - projectedCompletionAt.getTime()) / HOUR_MS
+  return slackHours < slaHours * atRiskMargin ? 'at_risk' : 'on_track'
+}
+
+/**
+ * Project completion and SLA risk for a sample that is still in the lab
+ */
+export function forecastSample(
+  sample: ForecastSample,
+  steps: ForecastStep[],
+  context: ForecastContext
+): SampleForecast {
+  const priority = normalizePriority(sample.priority)
+  const remainingWorkHours = getRemainingWorkHours(sample, steps, context.stepDurations, context.now)
+
+  // Only samples that have not started yet wait in the assignee's queue
+  const hasStarted = steps.some(step => step.step_status !== 'pending')
+  const queueDepth = sample.assigned_to ? context.queueDepthByAssignee[sample.assigned_to] ?? 0 : 0
+  const samplesAhead = hasStarted ? 0 : Math.max(queueDepth - 1, 0)
+  const queueWaitHours = samplesAhead *
+    (context.hoursPerQueuedSample ?? DEFAULT_HOURS_PER_QUEUED_SAMPLE) *
+    QUEUE_WAIT_FACTOR_BY_PRIORITY[priority]
+
+  const projectedCompletionAt = new Date(context.now.getTime() + (remainingWorkHours + queueWaitHours) * HOUR_MS)
+  const slaHours = SLA_HOURS_BY_PRIORITY[priority]
+  const slaDeadline = new Date(toDate(sample.submitted_at).getTime() + slaHours * HOUR_MS)
+
+  return {
+    sampleId: sample.id,
+    priority,
+    remainingWorkHours,
+    queueWaitHours,
+    projectedCompletionAt,
+    slaHours,
+    slaDeadline,
+    slackHours: (slaDeadline.getTime() - projectedCompletionAt.getTime()) / HOUR_MS,
+    risk: classifySlaRisk(projectedCompletionAt, slaDeadline, slaHours, context.now, context.atRiskMargin)
+  }
+}
+
+/**
+ * Whether a risk change should raise an alert (moving into at_risk or breached)
+ */
+export function isRiskEscalation(previous: SlaRisk | null, current: SlaRisk): boolean {
+  const rank: Record<SlaRisk, number> = { on_track: 0, at_risk: 1, breached: 2 }
+  return rank[current] > rank[previous ?? 'on_track']
+}
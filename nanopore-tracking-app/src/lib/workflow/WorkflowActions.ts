@@ -0,0 +1,128 @@
+import { NotFoundError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import { RUN_STEP } from './SequencingRuns'
+import type { SampleStatus, TransitionStepState } from '@app/utils'
+
+/**
+ * Dashboard workflow actions
+ * Each action moves one processing step and the sample status forward together. Starting or
+ * completing a step also completes the unfinished steps it depends on, since clicking an action
+ * on the dashboard confirms the bench work before it was done.
+ */
+
+export const QC_STEP = 'Sample QC'
+export const LIBRARY_PREP_STEP = 'Library Preparation'
+export const REPORT_STEP = 'Quality Assessment'
+export const DELIVERY_STEP = 'Data Delivery'
+
+export type WorkflowAction =
+  | 'record_qc_result'
+  | 'start_library_prep'
+  | 'start_sequencing_run'
+  | 'generate_report'
+  | 'deliver_results'
+
+export interface WorkflowActionDefinition {
+  label: string
+  stepName: string
+  // 'start' leaves the step in progress, 'complete' finishes it
+  mode: 'start' | 'complete'
+  status: SampleStatus
+}
+
+export const WORKFLOW_ACTIONS: Record<WorkflowAction, WorkflowActionDefinition> = {
+  record_qc_result: { label: 'Record QC result', stepName: QC_STEP, mode: 'complete', status: 'prep' },
+  start_library_prep: { label: 'Start library prep', stepName: LIBRARY_PREP_STEP, mode: 'start', status: 'prep' },
+  start_sequencing_run: { label: 'Start sequencing run', stepName: RUN_STEP, mode: 'start', status: 'sequencing' },
+  generate_report: { label: 'Generate report', stepName: REPORT_STEP, mode: 'start', status: 'analysis' },
+  deliver_results: { label: 'Deliver results', stepName: DELIVERY_STEP, mode: 'complete', status: 'completed' },
+}
+
+/**
+ * Step fields needed to plan an action
+ */
+export interface PlannableStep extends TransitionStepState {
+  id: string
+  depends_on: string[] | null
+  step_order: number | null
+}
+
+export interface StepChange {
+  stepId: string
+  stepName: string
+  change: 'start' | 'complete' | 'fail'
+}
+
+const isFinished = (step: TransitionStepState): boolean =>
+  step.step_status === 'completed' || step.step_status === 'skipped'
+
+/**
+ * Step an action applies to; a sample may have repeated a step, so prefer the latest unfinished one
+ */
+function findStep<T extends PlannableStep>(steps: T[], stepName: string): T | undefined {
+  const matching = steps.filter(step => step.step_name === stepName)
+  return matching.filter(step => !isFinished(step)).pop() ?? matching.pop()
+}
+
+/**
+ * Work out which steps an action starts, completes or fails.
+ * A failed QC result fails the QC step instead of completing it and leaves its dependencies alone.
+ */
+export function planWorkflowAction<T extends PlannableStep>(
+  steps: T[],
+  definition: WorkflowActionDefinition,
+  outcome: 'pass' | 'fail' = 'pass'
+): StepChange[] {
+  const target = findStep(steps, definition.stepName)
+  if (!target) {
+    throw new NotFoundError('Processing step', definition.stepName)
+  }
+  if (isFinished(target)) {
+    throw new ValidationError(`'${target.step_name}' is already ${target.step_status}`, 'step_status')
+  }
+  if (definition.mode === 'start' && target.step_status === 'in_progress') {
+    throw new ValidationError(`'${target.step_name}' is already in progress`, 'step_status')
+  }
+
+  if (outcome === 'fail') {
+    return [{ stepId: target.id, stepName: target.step_name, change: 'fail' }]
+  }
+
+  // Unfinished dependencies, transitively, in workflow order
+  const pending = new Map<string, T>()
+  const visit = (step: T) => {
+    for (const dependency of step.depends_on ?? []) {
+      const dependencyStep = findStep(steps, dependency)
+      if (!dependencyStep) {
+        throw new ValidationError(`'${step.step_name}' depends on '${dependency}', which this sample does not have`, 'step_status')
+      }
+      if (isFinished(dependencyStep) || pending.has(dependencyStep.id)) continue
+      if (dependencyStep.step_status === 'failed') {
+        throw new ValidationError(`Cannot continue past failed step '${dependencyStep.step_name}'`, 'step_status')
+      }
+      pending.set(dependencyStep.id, dependencyStep)
+      visit(dependencyStep)
+    }
+  }
+  visit(target)
+
+  const dependencies = [...pending.values()]
+    .sort((a, b) => (a.step_order ?? 0) - (b.step_order ?? 0))
+    .map(step => ({ stepId: step.id, stepName: step.step_name, change: 'complete' as const }))
+
+  return [...dependencies, { stepId: target.id, stepName: target.step_name, change: definition.mode }]
+}
+
+/**
+ * Steps as they will be once the planned changes are applied, for evaluating status guards
+ */
+export function applyStepChanges<T extends PlannableStep>(steps: T[], changes: StepChange[]): T[] {
+  const status: Record<StepChange['change'], TransitionStepState['step_status']> = {
+    start: 'in_progress',
+    complete: 'completed',
+    fail: 'failed',
+  }
+  return steps.map(step => {
+    const change = changes.find(c => c.stepId === step.id)
+    return change ? { ...step, step_status: status[change.change] } : step
+  })
+}
@@ -0,0 +1,192 @@
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+
+/**
+ * Workflow templates
+ * Selection and validation logic for versioned processing-step templates
+ */
+
+export type WorkflowRole = 'technician' | 'lab_manager' | 'bioinformatician' | 'admin'
+
+/**
+ * A single step in a template version
+ */
+export interface WorkflowStepDefinition {
+  stepOrder: number
+  stepName: string
+  estimatedDurationHours: number | null
+  requiredRole: string | null
+  dependsOn: string[]
+}
+
+/**
+ * A template version with its steps
+ */
+export interface WorkflowTemplateDefinition {
+  id: string
+  templateKey: string
+  version: number
+  name: string
+  sampleType: string | null
+  libraryPrepKitPattern: string | null
+  barcodingRequired: boolean | null
+  status: 'active' | 'retired'
+  steps: WorkflowStepDefinition[]
+}
+
+/**
+ * Sample attributes used to pick a template
+ */
+export interface TemplateSelectionCriteria {
+  sampleType: string
+  libraryPrepKit?: string | null
+  barcodingRequired?: boolean | null
+}
+
+/**
+ * Built-in steps used when no stored template matches
+ */
+export const DEFAULT_WORKFLOW_STEPS: WorkflowStepDefinition[] = [
+  { stepOrder: 1, stepName: 'Sample QC', estimatedDurationHours: 1, requiredRole: 'technician', dependsOn: [] },
+  { stepOrder: 2, stepName: 'Library Preparation', estimatedDurationHours: 4, requiredRole: 'technician', dependsOn: ['Sample QC'] },
+  { stepOrder: 3, stepName: 'Library QC', estimatedDurationHours: 1, requiredRole: 'technician', dependsOn: ['Library Preparation'] },
+  { stepOrder: 4, stepName: 'Sequencing Setup', estimatedDurationHours: 1, requiredRole: 'technician', dependsOn: ['Library QC'] },
+  { stepOrder: 5, stepName: 'Sequencing Run', estimatedDurationHours: 48, requiredRole: 'technician', dependsOn: ['Sequencing Setup'] },
+  { stepOrder: 6, stepName: 'Basecalling', estimatedDurationHours: 2, requiredRole: 'bioinformatician', dependsOn: ['Sequencing Run'] },
+  { stepOrder: 7, stepName: 'Quality Assessment', estimatedDurationHours: 1, requiredRole: 'bioinformatician', dependsOn: ['Basecalling'] },
+  { stepOrder: 8, stepName: 'Data Delivery', estimatedDurationHours: 1, requiredRole: 'lab_manager', dependsOn: ['Quality Assessment'] }
+]
+
+/**
+ * Match a value against a SQL LIKE style pattern (% and _ wildcards), case-insensitive
+ */
+export function matchesKitPattern(pattern: string, value: string): boolean {
+  const regex = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.')
+  return new RegExp(`^${regex}$`, 'i').test(value)
+}
+
+/**
+ * Score how specifically a template matches the criteria.
+ * Returns -1 when a template criterion contradicts the sample.
+ */
+export function scoreTemplateMatch(
+  template: Pick<WorkflowTemplateDefinition, 'sampleType' | 'libraryPrepKitPattern' | 'barcodingRequired'>,
+  criteria: TemplateSelectionCriteria
+): number {
+  let score = 0
+
+  if (template.sampleType !== null) {
+    if (template.sampleType.toLowerCase() !== criteria.sampleType.toLowerCase()) return -1
+    score += 1
+  }
+
+  if (template.libraryPrepKitPattern !== null) {
+    if (!criteria.libraryPrepKit || !matchesKitPattern(template.libraryPrepKitPattern, criteria.libraryPrepKit)) return -1
+    score += 2
+  }
+
+  if (template.barcodingRequired !== null) {
+    if (template.barcodingRequired !== Boolean(criteria.barcodingRequired)) return -1
+    score += 1
+  }
+
+  return score
+}
+
+/**
+ * Pick the most specific active template for a sample. Only the latest active version of each key
+ * is considered, so publishing a new version replaces the old one even if the old one matched more closely.
+ * Equally specific templates with different keys are decided by key, so the choice does not depend on order.
+ */
+export function selectWorkflowTemplate<T extends WorkflowTemplateDefinition>(
+  templates: T[],
+  criteria: TemplateSelectionCriteria
+): T | null {
+  const latest = new Map<string, T>()
+  for (const template of templates) {
+    if (template.status !== 'active') continue
+
+    const current = latest.get(template.templateKey)
+    if (!current || template.version > current.version) {
+      latest.set(template.templateKey, template)
+    }
+  }
+
+  let best: { template: T; score: number } | null = null
+
+  for (const template of latest.values()) {
+    const score = scoreTemplateMatch(template, criteria)
+    if (score < 0) continue
+
+    if (!best || score > best.score || (score === best.score && template.templateKey < best.template.templateKey)) {
+      best = { template, score }
+    }
+  }
+
+  return best?.template ?? null
+}
+
+/**
+ * Validate step ordering, names and the dependency graph of a template
+ */
+export function validateWorkflowSteps(steps: WorkflowStepDefinition[]): void {
+  if (steps.length === 0) {
+    throw new ValidationError('A workflow template needs at least one step', 'steps')
+  }
+
+  const names = new Set<string>()
+  const orders = new Set<number>()
+  for (const step of steps) {
+    if (names.has(step.stepName)) {
+      throw new ValidationError(`Duplicate step name '${step.stepName}'`, 'steps')
+    }
+    if (orders.has(step.stepOrder)) {
+      throw new ValidationError(`Duplicate step order ${step.stepOrder}`, 'steps')
+    }
+    names.add(step.stepName)
+    orders.add(step.stepOrder)
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependsOn) {
+      if (!names.has(dependency)) {
+        throw new ValidationError(`Step '${step.stepName}' depends on unknown step '${dependency}'`, 'steps')
+      }
+    }
+  }
+
+  // Detect dependency cycles with a depth-first walk
+  const byName = new Map(steps.map(step => [step.stepName, step]))
+  const visiting = new Set<string>()
+  const visited = new Set<string>()
+
+  const visit = (name: string): void => {
+    if (visited.has(name)) return
+    if (visiting.has(name)) {
+      throw new ValidationError(`Step dependencies form a cycle at '${name}'`, 'steps')
+    }
+    visiting.add(name)
+    for (const dependency of byName.get(name)?.dependsOn ?? []) {
+      visit(dependency)
+    }
+    visiting.delete(name)
+    visited.add(name)
+  }
+
+  steps.forEach(step => visit(step.stepName))
+}
+
+/**
+ * Names of dependencies of a step that are not yet completed or skipped
+ */
+export function getBlockingDependencies(
+  step: { depends_on: string[] | null },
+  siblings: Array<{ step_name: string; step_status: string }>
+): string[] {
+  return (step.depends_on ?? []).filter(dependency => {
+    const sibling = siblings.find(s => s.step_name === dependency)
+    return !sibling || (sibling.step_status !== 'completed' && sibling.step_status !== 'skipped')
+  })
+}
@@ -0,0 +1,267 @@
+import { deflateRawSync, inflateRawSync, constants as zlibConstants } from 'node:zlib'
+
+/**
+ * Minimal zip support shared by the XLSX export writer and the bulk intake reader.
+ * Writing streams entries as they are produced; reading inflates only the entries asked for,
+ * each up to a size limit, so a small upload cannot expand into an unbounded amount of memory.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]!) & 0xff]! ^ (c >>> 8)
+  }
+  return ~c >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export interface ZipEntryRecord {
+  name: Buffer
+  method: number
+  flags: number
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+export class ZipStreamWriter {
+  private offset = 0
+  private readonly entries: ZipEntryRecord[] = []
+  private readonly stamp = dosDateTime(new Date())
+
+  /**
+   * A small entry whose content is known up front, stored uncompressed
+   */
+  storedEntry(name: string, content: string): Buffer {
+    const data = Buffer.from(content, 'utf8')
+    const entry: ZipEntryRecord = {
+      name: Buffer.from(name, 'utf8'),
+      method: 0,
+      flags: 0,
+      crc: crc32(data),
+      compressedSize: data.length,
+      size: data.length,
+      offset: this.offset
+    }
+    this.entries.push(entry)
+
+    const chunk = Buffer.concat([this.localHeader(entry), data])
+    this.offset += chunk.length
+    return chunk
+  }
+
+  /**
+   * Start a deflated entry whose sizes follow in a data descriptor
+   */
+  beginStreamedEntry(name: string): { header: Buffer; entry: ZipEntryRecord } {
+    const entry: ZipEntryRecord = {
+      name: Buffer.from(name, 'utf8'),
+      method: 8,
+      flags: 0x08,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset
+    }
+    this.entries.push(entry)
+
+    const header = this.localHeader(entry)
+    this.offset += header.length
+    return { header, entry }
+  }
+
+  /**
+   * Compress one piece of a streamed entry. Each piece is sync-flushed so the
+   * concatenated output forms one valid deflate stream.
+   */
+  writeStreamed(entry: ZipEntryRecord, content: string): Buffer {
+    const data = Buffer.from(content, 'utf8')
+    entry.crc = crc32(data, entry.crc)
+    entry.size += data.length
+
+    const compressed = deflateRawSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH })
+    entry.compressedSize += compressed.length
+    this.offset += compressed.length
+    return compressed
+  }
+
+  endStreamedEntry(entry: ZipEntryRecord): Buffer {
+    // Empty final block closes the deflate stream
+    const final = deflateRawSync(Buffer.alloc(0))
+    entry.compressedSize += final.length
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(entry.crc, 4)
+    descriptor.writeUInt32LE(entry.compressedSize, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+
+    const chunk = Buffer.concat([final, descriptor])
+    this.offset += chunk.length
+    return chunk
+  }
+
+  centralDirectory(): Buffer {
+    const headers = this.entries.map(entry => {
+      const header = Buffer.alloc(46)
+      header.writeUInt32LE(0x02014b50, 0)
+      header.writeUInt16LE(20, 4)
+      header.writeUInt16LE(20, 6)
+      header.writeUInt16LE(entry.flags, 8)
+      header.writeUInt16LE(entry.method, 10)
+      header.writeUInt16LE(this.stamp.time, 12)
+      header.writeUInt16LE(this.stamp.date, 14)
+      header.writeUInt32LE(entry.crc, 16)
+      header.writeUInt32LE(entry.compressedSize, 20)
+      header.writeUInt32LE(entry.size, 24)
+      header.writeUInt16LE(entry.name.length, 28)
+      header.writeUInt32LE(entry.offset, 42)
+      return Buffer.concat([header, entry.name])
+    })
+
+    const directory = Buffer.concat(headers)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(directory.length, 12)
+    end.writeUInt32LE(this.offset, 16)
+
+    return Buffer.concat([directory, end])
+  }
+
+  private localHeader(entry: ZipEntryRecord): Buffer {
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(entry.flags, 6)
+    header.writeUInt16LE(entry.method, 8)
+    header.writeUInt16LE(this.stamp.time, 10)
+    header.writeUInt16LE(this.stamp.date, 12)
+    // Streamed entries leave crc and sizes zero here; the data descriptor carries them
+    header.writeUInt32LE(entry.flags & 0x08 ? 0 : entry.crc, 14)
+    header.writeUInt32LE(entry.flags & 0x08 ? 0 : entry.compressedSize, 18)
+    header.writeUInt32LE(entry.flags & 0x08 ? 0 : entry.size, 22)
+    header.writeUInt16LE(entry.name.length, 26)
+    return Buffer.concat([header, entry.name])
+  }
+}
+
+/**
+ * A zip archive that cannot be read; the message is safe to show to whoever uploaded it
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message)
+    this.name = 'ZipFormatError'
+  }
+}
+
+interface ZipDirectoryEntry {
+  method: number
+  compressedSize: number
+  localOffset: number
+}
+
+/**
+ * Reads entries of an in-memory archive on demand
+ */
+export class ZipReader {
+  private readonly directory = new Map<string, ZipDirectoryEntry>()
+
+  constructor(private readonly buffer: Buffer) {
+    try {
+      this.readDirectory()
+    } catch (error) {
+      throw error instanceof ZipFormatError ? error : new ZipFormatError('Archive is truncated or corrupt', error)
+    }
+  }
+
+  /**
+   * Content of one entry, refusing entries that inflate past maxBytes
+   */
+  read(name: string, maxBytes: number): Buffer | undefined {
+    const entry = this.directory.get(name)
+    if (!entry) return undefined
+
+    let data: Buffer
+    try {
+      // Local headers carry their own name and extra lengths
+      const { localOffset } = entry
+      if (this.buffer.readUInt32LE(localOffset) !== 0x04034b50) {
+        throw new ZipFormatError(`Archive entry ${name} is corrupt`)
+      }
+      const dataStart = localOffset + 30 + this.buffer.readUInt16LE(localOffset + 26) + this.buffer.readUInt16LE(localOffset + 28)
+      data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize)
+    } catch (error) {
+      throw error instanceof ZipFormatError ? error : new ZipFormatError(`Archive entry ${name} is corrupt`, error)
+    }
+
+    if (entry.method === 0) {
+      if (data.length > maxBytes) {
+        throw new ZipFormatError(`Archive entry ${name} is larger than ${maxBytes} bytes`)
+      }
+      return data
+    }
+    if (entry.method !== 8) {
+      throw new ZipFormatError(`Archive entry ${name} uses an unsupported compression method`)
+    }
+
+    try {
+      return inflateRawSync(data, { maxOutputLength: maxBytes })
+    } catch (error) {
+      const tooLarge = (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' || error instanceof RangeError
+      throw new ZipFormatError(
+        tooLarge ? `Archive entry ${name} expands to more than ${maxBytes} bytes` : `Archive entry ${name} is corrupt`,
+        error
+      )
+    }
+  }
+
+  private readDirectory(): void {
+    const endOffset = this.buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+    if (endOffset < 0) {
+      throw new ZipFormatError('File is not a zip archive')
+    }
+
+    const entryCount = this.buffer.readUInt16LE(endOffset + 10)
+    let offset = this.buffer.readUInt32LE(endOffset + 16)
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== 0x02014b50) {
+        throw new ZipFormatError('Archive has a corrupt directory')
+      }
+      const nameLength = this.buffer.readUInt16LE(offset + 28)
+      const extraLength = this.buffer.readUInt16LE(offset + 30)
+      const commentLength = this.buffer.readUInt16LE(offset + 32)
+      const name = this.buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf8')
+
+      this.directory.set(name, {
+        method: this.buffer.readUInt16LE(offset + 10),
+        compressedSize: this.buffer.readUInt32LE(offset + 20),
+        localOffset: this.buffer.readUInt32LE(offset + 42),
+      })
+
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+  }
+}
@@ -153,6 +153,27 @@ export class BusinessLogicError extends BaseError {
   }
 }
 
+/**
+ * Rejected sample status transitions - 422 Unprocessable Entity
+ */
+export class StatusTransitionError extends BaseError {
+  readonly name = 'StatusTransitionError'
+  readonly httpStatusCode = 422
+  readonly isOperational = true
+
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    public readonly unmetPreconditions: Array<{ guard: string; message: string }>,
+    cause?: Error
+  ) {
+    super(
+      `Cannot change status from '${from}' to '${to}': ${unmetPreconditions.map(p => p.message).join('; ')}`,
+      cause
+    )
+  }
+}
+
 /**
  * Type guard to check if an error is an operational error
  */
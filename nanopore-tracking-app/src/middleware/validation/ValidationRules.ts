@@ -127,6 +127,9 @@ export const createSampleValidation = z.object({
   assignedTo: baseValidations.personName.optional(),
   libraryPrepBy: baseValidations.personName.optional(),
   chartField: baseValidations.chartField,
+  // Used to pick the workflow template; recorded in the sample details
+  libraryPrepKit: z.string().max(100, messages.maxLength(100)).trim().optional(),
+  barcodingRequired: z.boolean().optional(),
 }).refine(
   (data) => {
     // If concentration and volume are provided, calculate total amount
@@ -278,6 +281,13 @@ export const sanitizers = {
   },
 }
 
+// Chart fields accepted at intake in addition to the format pattern
+export const VALID_CHART_FIELDS = [
+  'HTSF-001', 'HTSF-002', 'HTSF-003', 'HTSF-004', 'HTSF-005',
+  'NANO-001', 'NANO-002', 'NANO-003', 'NANO-004', 'NANO-005',
+  'SEQ-001', 'SEQ-002', 'SEQ-003', 'SEQ-004', 'SEQ-005'
+]
+
 /**
  * Custom validation helpers
  */
@@ -327,4 +337,11 @@ export const validators = {
     
     return validTransitions[currentStatus]?.includes(newStatus) || false
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Validate a chart field against the intake list or the chart field format
+ */
+export function validateChartField(chartField: string): boolean {
+  return VALID_CHART_FIELDS.includes(chartField) || validators.isValidChartField(chartField)
+}
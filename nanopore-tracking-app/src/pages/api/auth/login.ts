@@ -0,0 +1,79 @@
+import type { APIRoute } from 'astro'
+import { authService } from '../../../lib/auth'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('StaffLoginAPI')
+
+const SESSION_MAX_AGE_SECONDS = 24 * 60 * 60
+
+/**
+ * Staff login. The session goes in an HttpOnly cookie so tRPC requests carry the user's role.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json()
+    const { email, password } = body
+
+    if (!email || !password) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Email and password are required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    const result = await authService.login(String(email).trim().toLowerCase(), password)
+    if (!result) {
+      logger.warn('Staff login failed', {
+        metadata: { email }
+      })
+
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Invalid credentials'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    logger.info('Staff login successful', {
+      metadata: { email, role: result.user.role }
+    })
+
+    const secure = new URL(request.url).protocol === 'https:' ? '; Secure' : ''
+    return new Response(JSON.stringify({
+      success: true,
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+        role: result.user.role
+      }
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': `session=${result.sessionId}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${SESSION_MAX_AGE_SECONDS}${secure}`
+      }
+    })
+
+  } catch (error) {
+    logger.error('Staff login API error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro'
+import { authService, getCookieValue } from '../../../lib/auth'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('StaffLogoutAPI')
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const sessionId = getCookieValue(request.headers.get('Cookie') || '', 'session')
+    if (sessionId) {
+      await authService.logout(sessionId)
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Logged out'
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': 'session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0'
+      }
+    })
+
+  } catch (error) {
+    logger.error('Staff logout API error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
@@ -0,0 +1,51 @@
+import type { APIRoute } from 'astro'
+import { createAuthContext } from '../../../lib/auth'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('StaffSessionAPI')
+
+export const GET: APIRoute = async ({ request }) => {
+  try {
+    const { user, session } = await createAuthContext(request)
+
+    if (!user || !session) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Invalid or expired session'
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role
+      },
+      expiresAt: session.expiresAt
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    logger.error('Staff session API error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
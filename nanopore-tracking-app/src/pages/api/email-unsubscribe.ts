@@ -0,0 +1,44 @@
+import type { APIContext } from 'astro'
+import { getEmailNotificationService } from '../../container'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('EmailUnsubscribeAPI')
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+function page(title: string, body: string, status = 200): Response {
+  return new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+    `<body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto;"><h1>${title}</h1>${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  )
+}
+
+// Link scanners follow GET links in emails, so the link only shows a confirmation form
+export async function GET(context: APIContext): Promise<Response> {
+  const token = new URL(context.request.url).searchParams.get('token') ?? ''
+  return page(
+    'Unsubscribe from sample emails',
+    '<p>Stop receiving sample status emails at this address?</p>' +
+    `<form method="post"><input type="hidden" name="token" value="${escapeHtml(token)}"><button type="submit">Unsubscribe</button></form>`
+  )
+}
+
+export async function POST(context: APIContext): Promise<Response> {
+  try {
+    const form = await context.request.formData()
+    const email = await getEmailNotificationService().unsubscribe(String(form.get('token') ?? ''))
+    return page('Unsubscribed', `<p>${escapeHtml(email)} will no longer receive sample status emails.</p>`)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return page('Link not valid', `<p>${escapeHtml(error.message)}.</p>`, 400)
+    }
+
+    logger.error('Unsubscribe failed', {
+      action: 'email_unsubscribe_failed'
+    }, error as Error)
+    return page('Something went wrong', '<p>Please try again later.</p>', 500)
+  }
+}
@@ -0,0 +1,89 @@
+import type { APIRoute } from 'astro'
+import { z } from 'zod'
+import { getExportService } from '../../container'
+import { getRequestUser } from '../../lib/trpc'
+import { can } from '../../lib/auth/SampleAccess'
+import { exportRequestSchema } from '../../lib/export/ExportEngine'
+import { BaseError } from '../../middleware/errors/ErrorTypes'
+import { securityHeaders } from '../../middleware/security/SecurityHeaders'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('ExportAPI')
+
+const exportBodySchema = z.union([
+  z.object({ presetId: z.string().uuid() }),
+  exportRequestSchema.extend({ name: z.string().max(100).optional() }),
+])
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+/**
+ * Stream a sample export. Rows are fetched and serialized batch by batch as the client reads.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return jsonError(401, 'Sign in required')
+  }
+  if (!can(user, 'sample:export')) {
+    return jsonError(403, 'Sample exports are limited to lab staff')
+  }
+
+  let prepared
+  try {
+    const body = exportBodySchema.parse(await request.json())
+    const exportService = getExportService()
+    prepared = 'presetId' in body
+      ? await exportService.prepareExportFromPreset(body.presetId)
+      : exportService.prepareExport(body, body.name)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return jsonError(400, error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '))
+    }
+    if (error instanceof BaseError) {
+      return jsonError(error.httpStatusCode, error.message)
+    }
+    if (error instanceof SyntaxError) {
+      return jsonError(400, 'Request body must be JSON')
+    }
+    throw error
+  }
+
+  const { chunks, filename, mimeType } = prepared
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value)
+        }
+      } catch (error) {
+        logger.error('Sample export failed while streaming', {
+          action: 'export_failed',
+          metadata: { filename }
+        }, error as Error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+
+  return securityHeaders.applyHeaders(new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-cache'
+    }
+  }))
+}
@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro'
+import { createAuthContext } from '../../../../lib/auth'
+import { can } from '../../../../lib/auth/SampleAccess'
+import { getExtractionReviewService } from '../../../../container'
+import { NotFoundError } from '../../../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('ExtractionReviewDocumentAPI')
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+/**
+ * The submission form under review, shown inline so reviewers can open it next to the queue
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  try {
+    const { user } = await createAuthContext(request)
+    if (!user) {
+      return jsonError(401, 'Sign in required')
+    }
+    if (!can(user, 'intake:review')) {
+      return jsonError(403, 'Extraction review is limited to lab staff')
+    }
+
+    const { fileName, content } = await getExtractionReviewService().readDocument(params.id ?? '')
+
+    return new Response(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${fileName.replace(/["\\\r\n]/g, '_')}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof NotFoundError || (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return jsonError(404, 'Review not found')
+    }
+
+    logger.error('Extraction review document error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return jsonError(500, 'Internal server error')
+  }
+}
@@ -5,6 +5,7 @@ import { memoryManager } from '../../lib/performance/MemoryManager'
 import { cacheManager } from '../../lib/cache/CacheManager'
 import { securityHeaders } from '../../middleware/security/SecurityHeaders'
 import { db } from '../../lib/database'
+import { fetchFileStorageIntegrity, fileStorageIntegrityAlerts, type FileStorageIntegrity } from '../../lib/monitoring/FileStorageIntegrity'
 
 const logger = getComponentLogger('MonitoringAPI')
 
@@ -55,6 +56,7 @@ interface MonitoringData {
     errorRate: number
     statusCodes: Record<string, number>
   }
+  fileStorage: FileStorageIntegrity
   alerts: Array<{
     level: 'info' | 'warning' | 'error' | 'critical'
     message: string
@@ -84,7 +86,8 @@ export const GET: APIRoute = async ({ request, url }) => {
     const databaseMetrics = await collectDatabaseMetrics()
     const cacheMetrics = await collectCacheMetrics()
     const httpMetrics = await collectHttpMetrics()
-    const alerts = await collectAlerts()
+    const fileStorage = await fetchFileStorageIntegrity()
+    const alerts = [...await collectAlerts(), ...fileStorageIntegrityAlerts(fileStorage)]
     
     const monitoringData: MonitoringData = {
       timestamp: new Date().toISOString(),
@@ -93,6 +96,7 @@ export const GET: APIRoute = async ({ request, url }) => {
       database: databaseMetrics,
       cache: cacheMetrics,
       http: httpMetrics,
+      fileStorage,
       alerts,
       metrics: includeMetrics ? await collectCustomMetrics() : { counters: {}, gauges: {}, histograms: {} }
     }
@@ -344,6 +348,31 @@ function convertToPrometheusFormat(data: MonitoringData): string {
   lines.push(`# TYPE cache_operations_total counter`)
   lines.push(`cache_operations_total ${data.cache.totalOperations}`)
   
+  // File storage integrity
+  lines.push(`# HELP file_storage_up Whether the file storage service reported integrity`)
+  lines.push(`# TYPE file_storage_up gauge`)
+  lines.push(`file_storage_up ${data.fileStorage.status === 'unavailable' ? 0 : 1}`)
+  
+  lines.push(`# HELP file_storage_blobs Stored files by verification status`)
+  lines.push(`# TYPE file_storage_blobs gauge`)
+  for (const [status, count] of Object.entries(data.fileStorage.blobs)) {
+    lines.push(`file_storage_blobs{status="${status}"} ${count}`)
+  }
+  
+  lines.push(`# HELP file_storage_unhashed_files Files stored before deduplication that are not yet hashed`)
+  lines.push(`# TYPE file_storage_unhashed_files gauge`)
+  lines.push(`file_storage_unhashed_files ${data.fileStorage.unhashedFiles}`)
+  
+  lines.push(`# HELP file_storage_deduplicated_bytes Bytes not stored again because identical content was present`)
+  lines.push(`# TYPE file_storage_deduplicated_bytes gauge`)
+  lines.push(`file_storage_deduplicated_bytes ${data.fileStorage.deduplicatedBytes}`)
+  
+  if (data.fileStorage.lastScrub) {
+    lines.push(`# HELP file_storage_last_scrub_timestamp_seconds Start of the latest finished integrity scrub`)
+    lines.push(`# TYPE file_storage_last_scrub_timestamp_seconds gauge`)
+    lines.push(`file_storage_last_scrub_timestamp_seconds ${Math.floor(new Date(data.fileStorage.lastScrub.startedAt).getTime() / 1000)}`)
+  }
+  
   return lines.join('\n')
 }
 
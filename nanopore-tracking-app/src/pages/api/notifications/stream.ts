@@ -0,0 +1,85 @@
+import type { APIContext } from 'astro'
+import { getNotificationCenterService } from '../../../container'
+import { notificationHub, type HubMessage } from '../../../lib/notifications/NotificationHub'
+import { formatSseMessage } from '../../../lib/notifications/NotificationCenter'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+import { getRequestUser } from '../../../lib/trpc'
+import { actorName } from '../../../lib/auth/SampleAccess'
+
+const logger = getComponentLogger('NotificationStreamAPI')
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25_000
+
+// The stream can be the first server code a dashboard touches, so make sure the bus is being read
+getNotificationCenterService().start()
+
+/**
+ * Server-Sent Events for the signed-in staff member: inbox changes addressed to them and
+ * sample changes for everyone, so the bell and the sample list update live
+ */
+export async function GET(context: APIContext): Promise<Response> {
+  const user = await getRequestUser(context.request)
+  if (!user) {
+    return new Response(JSON.stringify({ success: false, error: 'Sign in required' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  const recipient = actorName(user)
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = notificationHub.subscribe(recipient, (message: HubMessage) => {
+        send(message.type === 'sample'
+          ? formatSseMessage('sample', message.change)
+          : formatSseMessage('notifications', {}))
+      })
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        cleanup = () => {}
+      }
+      context.request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      })
+
+      logger.debug('Notification stream opened', {
+        action: 'notification_stream_opened',
+        metadata: { recipient, connections: notificationHub.connectionCount() }
+      })
+      // Ask the client to read its inbox once connected, covering anything missed while disconnected
+      send('retry: 5000\n\n' + formatSseMessage('notifications', {}))
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,52 @@
+import type { APIRoute } from 'astro'
+import { createAuthContext } from '../../../../lib/auth'
+import { readFileContent } from '../../../../lib/api/nanopore/file-storage'
+import { getSubmitterPortalService } from '../../../../container'
+import { NotFoundError } from '../../../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('PortalAttachmentAPI')
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+/**
+ * Download an attachment staff shared with the submitter on one of their samples
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  try {
+    const { user } = await createAuthContext(request)
+    if (!user) {
+      return jsonError(401, 'Sign in required')
+    }
+
+    const attachment = await getSubmitterPortalService().getAttachment(user, params.id ?? '')
+    const content = await readFileContent(attachment.filePath!)
+
+    return new Response(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': attachment.fileType === 'pdf' ? 'application/pdf' : 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${attachment.fileName.replace(/["\\\r\n]/g, '_')}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof NotFoundError || (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return jsonError(404, 'Attachment not found')
+    }
+
+    logger.error('Portal attachment download error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return jsonError(500, 'Internal server error')
+  }
+}
@@ -0,0 +1,67 @@
+import type { APIRoute } from 'astro'
+import { authService } from '../../../lib/auth'
+import { getSubmitterPortalService } from '../../../container'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('PortalLinkAPI')
+
+const SESSION_MAX_AGE_SECONDS = 24 * 60 * 60
+
+/**
+ * Sign in from an emailed portal link, creating a submitter account on first use.
+ * The session counts as proof of the email, so samples staff entered under it become the user's.
+ * Staff accounts sign in with their password; a link only proves the inbox, not the staff role.
+ */
+export const GET: APIRoute = async ({ url }) => {
+  const token = url.searchParams.get('token') ?? ''
+
+  let email: string
+  try {
+    email = await getSubmitterPortalService().redeemLink(token)
+  } catch {
+    return Response.redirect(new URL('/portal?link=expired', url), 302)
+  }
+
+  try {
+    const user = await authService.getUserByEmail(email)
+      ?? await authService.createUser({ email, name: email.split('@')[0]!, role: 'submitter' })
+    if (user.role !== 'submitter') {
+      logger.warn('Portal link refused for a staff account', {
+        metadata: { email, role: user.role }
+      })
+      return Response.redirect(new URL('/portal?link=staff', url), 302)
+    }
+
+    const sessionId = await authService.createSession(user, { emailVerified: true })
+
+    logger.info('Portal sign-in from emailed link', {
+      metadata: { email, role: user.role }
+    })
+
+    const secure = url.protocol === 'https:' ? '; Secure' : ''
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: '/portal',
+        // Lax so the cookie is sent when arriving from the email client
+        'Set-Cookie': `session=${sessionId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_MAX_AGE_SECONDS}${secure}`
+      }
+    })
+
+  } catch (error) {
+    logger.error('Portal link sign-in error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Internal server error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
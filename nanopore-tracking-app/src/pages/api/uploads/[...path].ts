@@ -0,0 +1,97 @@
+import { createHmac } from 'node:crypto'
+import type { APIRoute } from 'astro'
+import { createAuthContext, type User } from '../../../lib/auth'
+import { getComponentLogger } from '../../../lib/logging/StructuredLogger'
+
+const logger = getComponentLogger('ChunkedUploadAPI')
+
+const FILE_SERVICE_URL = process.env.FILE_SERVICE_URL || 'http://localhost:3005'
+
+// Start, status/abort, part and complete requests; nothing else is forwarded
+const UPLOAD_PATH = /^(?:[0-9a-f-]{36}(?:\/parts\/\d+|\/complete)?)?$/i
+
+// Only what the upload protocol needs; the session cookie and credentials stay here
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'x-checksum-sha256']
+
+// Shared with file-storage, which only accepts uploads from users this app has signed
+const UPLOAD_USER_SECRET = process.env.FILE_STORAGE_UPLOAD_USER_SECRET || ''
+const UPLOAD_USER_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Name the signed-in user to file-storage, which owns each upload by the user who started it
+ */
+function signUploadUser(user: User, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    expiresAt: now + UPLOAD_USER_TTL_MS,
+  })).toString('base64url')
+  return `${payload}.${createHmac('sha256', UPLOAD_USER_SECRET).update(payload).digest('base64url')}`
+}
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+/**
+ * Forward chunked upload requests for signed-in staff to the file-storage service.
+ * Part bodies are streamed through, so a large part is never held in memory here.
+ */
+export const ALL: APIRoute = async ({ params, request }) => {
+  const path = params.path ?? ''
+
+  try {
+    if (!UPLOAD_PATH.test(path)) {
+      return jsonError(404, 'Endpoint not found')
+    }
+
+    const { user } = await createAuthContext(request)
+    if (!user) {
+      return jsonError(401, 'Sign in required')
+    }
+    if (user.role === 'submitter') {
+      return jsonError(403, 'Data file uploads are for lab staff')
+    }
+
+    if (!UPLOAD_USER_SECRET) {
+      logger.error('FILE_STORAGE_UPLOAD_USER_SECRET is not set; uploads cannot be forwarded')
+      return jsonError(503, 'Data file uploads are not configured')
+    }
+
+    const headers = new Headers()
+    for (const name of FORWARDED_HEADERS) {
+      const value = request.headers.get(name)
+      if (value) headers.set(name, value)
+    }
+    headers.set('x-upload-user', signUploadUser(user))
+
+    const hasBody = request.method !== 'GET' && request.method !== 'HEAD' && request.body !== null
+    const response = await fetch(`${FILE_SERVICE_URL}/api/files/uploads${path ? `/${path}` : ''}`, {
+      method: request.method,
+      headers,
+      body: hasBody ? request.body : undefined,
+      // Required by Node's fetch to send a streamed body
+      duplex: 'half',
+    } as RequestInit)
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' }
+    })
+
+  } catch (error) {
+    logger.error('Chunked upload proxy error', {
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      metadata: {
+        path,
+        method: request.method,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, error instanceof Error ? error : undefined)
+
+    return jsonError(502, 'File storage service unavailable')
+  }
+}
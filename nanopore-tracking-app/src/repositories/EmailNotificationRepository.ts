@@ -0,0 +1,294 @@
+import { randomBytes } from 'node:crypto'
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { EmailTemplate } from '../lib/notifications/EmailNotifications'
+import { NotFoundError } from '../middleware/errors/ErrorTypes'
+
+type OutboxRow = Database['email_outbox']
+type PreferenceRow = Database['email_preferences']
+
+export interface StoredEmailTemplate extends EmailTemplate {
+  templateKey: string
+  updatedBy: string | null
+  updatedAt: Date
+}
+
+export interface QueueEmailData {
+  recipient: string
+  templateKey: string
+  subject: string
+  body: string
+  sampleId: string | null
+  eventId: string | null
+  // Held for the recipient's digest instead of sent on its own
+  digest: boolean
+}
+
+export interface OutboxSummary {
+  counts: Record<OutboxRow['status'], number>
+  recent: OutboxRow[]
+}
+
+// A claimed message is not picked up again for this long, in case the sender dies mid-send
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+
+export class EmailNotificationRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findTemplates(): Promise<StoredEmailTemplate[]> {
+    const rows = await this.db.selectFrom('email_templates').selectAll().execute()
+    return rows.map(row => ({
+      templateKey: row.template_key,
+      subject: row.subject,
+      body: row.body,
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at,
+    }))
+  }
+
+  async saveTemplate(templateKey: string, template: EmailTemplate, updatedBy: string): Promise<void> {
+    const now = new Date()
+    await this.db
+      .insertInto('email_templates')
+      .values({ template_key: templateKey, ...template, updated_by: updatedBy, created_at: now, updated_at: now })
+      .onConflict(oc => oc.column('template_key').doUpdateSet({ ...template, updated_by: updatedBy, updated_at: now }))
+      .execute()
+  }
+
+  async deleteTemplate(templateKey: string): Promise<void> {
+    await this.db.deleteFrom('email_templates').where('template_key', '=', templateKey).execute()
+  }
+
+  /**
+   * Preferences for an address, created with defaults on first use so every email can carry an unsubscribe token
+   */
+  async getPreference(email: string): Promise<PreferenceRow> {
+    const address = email.trim().toLowerCase()
+    const now = new Date()
+    await this.db
+      .insertInto('email_preferences')
+      .values({
+        email: address,
+        opted_out: false,
+        digest: false,
+        unsubscribe_token: randomBytes(24).toString('hex'),
+        created_at: now,
+        updated_at: now,
+      })
+      .onConflict(oc => oc.column('email').doNothing())
+      .execute()
+
+    return await this.db
+      .selectFrom('email_preferences')
+      .selectAll()
+      .where('email', '=', address)
+      .executeTakeFirstOrThrow()
+  }
+
+  async updatePreference(email: string, changes: { optedOut?: boolean | undefined; digest?: boolean | undefined }): Promise<PreferenceRow> {
+    const existing = await this.getPreference(email)
+    return await this.db
+      .updateTable('email_preferences')
+      .set({
+        ...(changes.optedOut !== undefined && { opted_out: changes.optedOut }),
+        ...(changes.digest !== undefined && { digest: changes.digest }),
+        updated_at: new Date(),
+      })
+      .where('email', '=', existing.email)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  async optOutByToken(token: string): Promise<PreferenceRow | null> {
+    const row = await this.db
+      .updateTable('email_preferences')
+      .set({ opted_out: true, updated_at: new Date() })
+      .where('unsubscribe_token', '=', token)
+      .returningAll()
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  /**
+   * Queue a message. Returns false when the same event already queued it for this recipient.
+   */
+  async enqueue(data: QueueEmailData): Promise<boolean> {
+    const now = new Date()
+    const result = await this.db
+      .insertInto('email_outbox')
+      .values({
+        id: crypto.randomUUID(),
+        recipient: data.recipient,
+        template_key: data.templateKey,
+        subject: data.subject,
+        body: data.body,
+        sample_id: data.sampleId,
+        event_id: data.eventId,
+        status: data.digest ? 'digest' : 'pending',
+        attempts: 0,
+        next_attempt_at: now,
+        last_error: null,
+        digest_id: null,
+        sent_at: null,
+        created_at: now,
+        updated_at: now,
+      })
+      .onConflict(oc => oc.columns(['event_id', 'recipient', 'template_key']).doNothing())
+      .executeTakeFirst()
+
+    return Number(result.numInsertedOrUpdatedRows ?? 0) > 0
+  }
+
+  /**
+   * Claim due messages by pushing their next attempt past the lease and counting the attempt
+   */
+  async claimDue(limit: number): Promise<OutboxRow[]> {
+    return await this.db.transaction().execute(async (trx) => {
+      const now = new Date()
+      const due = await trx
+        .selectFrom('email_outbox')
+        .select('id')
+        .where('status', '=', 'pending')
+        .where('next_attempt_at', '<=', now)
+        .orderBy('next_attempt_at', 'asc')
+        .limit(limit)
+        .forUpdate()
+        .skipLocked()
+        .execute()
+
+      if (due.length === 0) return []
+
+      return await trx
+        .updateTable('email_outbox')
+        .set(eb => ({
+          attempts: eb('attempts', '+', 1),
+          next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS),
+          updated_at: now,
+        }))
+        .where('id', 'in', due.map(row => row.id))
+        .returningAll()
+        .execute()
+    })
+  }
+
+  async markSent(id: string): Promise<void> {
+    const now = new Date()
+    await this.db
+      .updateTable('email_outbox')
+      .set({ status: 'sent', sent_at: now, last_error: null, updated_at: now })
+      .where('id', '=', id)
+      .execute()
+  }
+
+  /**
+   * Record a failed send; without a retry time the message is given up on
+   */
+  async markFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.db
+      .updateTable('email_outbox')
+      .set({
+        status: retryAt ? 'pending' : 'failed',
+        last_error: error.slice(0, 2000),
+        ...(retryAt && { next_attempt_at: retryAt }),
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .execute()
+  }
+
+  async retry(id: string): Promise<void> {
+    const result = await this.db
+      .updateTable('email_outbox')
+      .set({ status: 'pending', attempts: 0, next_attempt_at: new Date(), updated_at: new Date() })
+      .where('id', '=', id)
+      .where('status', '=', 'failed')
+      .executeTakeFirst()
+
+    if (Number(result.numUpdatedRows) === 0) {
+      throw new NotFoundError('Failed email', id)
+    }
+  }
+
+  /**
+   * Messages held for digests, grouped by recipient
+   */
+  async findDigestQueue(): Promise<Map<string, OutboxRow[]>> {
+    const rows = await this.db
+      .selectFrom('email_outbox')
+      .selectAll()
+      .where('status', '=', 'digest')
+      .orderBy('created_at', 'asc')
+      .execute()
+
+    const byRecipient = new Map<string, OutboxRow[]>()
+    for (const row of rows) {
+      byRecipient.set(row.recipient, [...(byRecipient.get(row.recipient) ?? []), row])
+    }
+    return byRecipient
+  }
+
+  /**
+   * Replace held messages with one digest message queued for sending
+   */
+  async queueDigest(recipient: string, itemIds: string[], digest: EmailTemplate): Promise<void> {
+    await this.db.transaction().execute(async (trx) => {
+      const now = new Date()
+      const row = await trx
+        .insertInto('email_outbox')
+        .values({
+          id: crypto.randomUUID(),
+          recipient,
+          template_key: 'digest',
+          subject: digest.subject,
+          body: digest.body,
+          sample_id: null,
+          event_id: null,
+          status: 'pending',
+          attempts: 0,
+          next_attempt_at: now,
+          last_error: null,
+          digest_id: null,
+          sent_at: null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      await trx
+        .updateTable('email_outbox')
+        .set({ status: 'digested', digest_id: row.id, updated_at: now })
+        .where('id', 'in', itemIds)
+        .where('status', '=', 'digest')
+        .execute()
+    })
+  }
+
+  async summarize(limit = 50): Promise<OutboxSummary> {
+    const counts = await this.db
+      .selectFrom('email_outbox')
+      .select(['status', (eb) => eb.fn.countAll<string>().as('count')])
+      .groupBy('status')
+      .execute()
+
+    const recent = await this.db
+      .selectFrom('email_outbox')
+      .selectAll()
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .execute()
+
+    return {
+      counts: {
+        pending: 0,
+        sent: 0,
+        failed: 0,
+        digest: 0,
+        digested: 0,
+        ...Object.fromEntries(counts.map(row => [row.status, Number(row.count)])),
+      },
+      recent,
+    }
+  }
+}
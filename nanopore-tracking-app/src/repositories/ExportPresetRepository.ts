@@ -0,0 +1,78 @@
+import { sql, type Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { ExportFilters, ExportFormat } from '../lib/export/ExportEngine'
+
+export type ExportPreset = Database['export_presets']
+
+export interface SaveExportPresetData {
+  name: string
+  description?: string | undefined
+  columns: string[]
+  filters: ExportFilters
+  format: ExportFormat
+  createdBy?: string | undefined
+}
+
+export class ExportPresetRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findAll(): Promise<ExportPreset[]> {
+    return await this.db
+      .selectFrom('export_presets')
+      .selectAll()
+      .orderBy('name', 'asc')
+      .execute()
+  }
+
+  async findById(id: string): Promise<ExportPreset | null> {
+    const result = await this.db
+      .selectFrom('export_presets')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return result || null
+  }
+
+  /**
+   * Create a preset, or replace the definition of the preset with the same name
+   */
+  async save(data: SaveExportPresetData): Promise<ExportPreset> {
+    const now = new Date()
+    // pg would send a JS array as a Postgres array literal, so the JSONB value is built explicitly
+    const columns = sql<string[]>`${JSON.stringify(data.columns)}::jsonb`
+    const filters = data.filters
+
+    return await this.db
+      .insertInto('export_presets')
+      .values({
+        id: crypto.randomUUID(),
+        name: data.name,
+        description: data.description ?? null,
+        columns,
+        filters,
+        format: data.format,
+        created_by: data.createdBy ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .onConflict(oc => oc.column('name').doUpdateSet({
+        description: data.description ?? null,
+        columns,
+        filters,
+        format: data.format,
+        updated_at: now,
+      }))
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('export_presets')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return Number(result.numDeletedRows) > 0
+  }
+}
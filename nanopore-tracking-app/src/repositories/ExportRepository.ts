@@ -0,0 +1,90 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import { DETAIL_FIELDS, type ExportFilters, type ExportRow } from '../lib/export/ExportEngine'
+
+export interface ExportQueryOptions {
+  includeDetails: boolean
+  includeSteps: boolean
+  batchSize?: number
+}
+
+export class ExportRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async count(filters: ExportFilters): Promise<number> {
+    const result = await this.filteredSamples(filters)
+      .select(eb => eb.fn.countAll<string>().as('count'))
+      .executeTakeFirstOrThrow()
+
+    return Number(result.count)
+  }
+
+  /**
+   * Yield matching samples in submission order, one batch at a time.
+   * Keyset pagination keeps memory flat however many samples match.
+   */
+  async *streamRows(filters: ExportFilters, options: ExportQueryOptions): AsyncGenerator<ExportRow[]> {
+    const batchSize = options.batchSize ?? 500
+    let cursor: { submittedAt: Date; id: string } | null = null
+
+    while (true) {
+      let query = this.filteredSamples(filters)
+        .selectAll('sample')
+        .orderBy('sample.submitted_at', 'asc')
+        .orderBy('sample.id', 'asc')
+        .limit(batchSize)
+
+      if (cursor) {
+        const { submittedAt, id } = cursor
+        query = query.where(eb => eb.or([
+          eb('sample.submitted_at', '>', submittedAt),
+          eb.and([eb('sample.submitted_at', '=', submittedAt), eb('sample.id', '>', id)]),
+        ]))
+      }
+
+      const samples = await query.execute()
+      if (samples.length === 0) return
+
+      const sampleIds = samples.map(sample => sample.id)
+      const [details, steps] = await Promise.all([
+        options.includeDetails
+          ? this.db
+              .selectFrom('nanopore_sample_details')
+              .select(['sample_id', ...DETAIL_FIELDS])
+              .where('sample_id', 'in', sampleIds)
+              .execute()
+          : Promise.resolve([]),
+        options.includeSteps
+          ? this.db
+              .selectFrom('nanopore_processing_steps')
+              .select(['sample_id', 'step_name', 'step_status', 'started_at', 'completed_at'])
+              .where('sample_id', 'in', sampleIds)
+              .orderBy('step_order', 'asc')
+              .orderBy('created_at', 'asc')
+              .execute()
+          : Promise.resolve([]),
+      ])
+
+      yield samples.map(sample => ({
+        sample,
+        details: details.find(detail => detail.sample_id === sample.id) ?? null,
+        steps: steps.filter(step => step.sample_id === sample.id),
+      }))
+
+      if (samples.length < batchSize) return
+      const last = samples[samples.length - 1]!
+      cursor = { submittedAt: last.submitted_at, id: last.id }
+    }
+  }
+
+  private filteredSamples(filters: ExportFilters) {
+    let query = this.db.selectFrom('nanopore_samples as sample')
+    if (filters.submittedFrom) query = query.where('sample.submitted_at', '>=', filters.submittedFrom)
+    if (filters.submittedTo) query = query.where('sample.submitted_at', '<=', filters.submittedTo)
+    if (filters.statuses?.length) query = query.where('sample.status', 'in', filters.statuses)
+    if (filters.priorities?.length) query = query.where('sample.priority', 'in', filters.priorities)
+    if (filters.assignedTo?.length) query = query.where('sample.assigned_to', 'in', filters.assignedTo)
+    if (filters.labNames?.length) query = query.where('sample.lab_name', 'in', filters.labNames)
+    return query
+  }
+}
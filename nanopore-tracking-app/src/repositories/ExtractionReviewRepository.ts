@@ -0,0 +1,339 @@
+import { sql, type Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { ExtractionExample, ReviewDecision, ReviewFieldDraft } from '../lib/ai/extraction-review'
+import type { BoundingBox } from '../lib/ai/pdf-text-layout'
+import { NotFoundError, ValidationError } from '../middleware/errors/ErrorTypes'
+
+type ReviewRow = Database['extraction_reviews']
+type FieldRow = Database['extraction_review_fields']
+
+export type ExtractionReviewStatus = ReviewRow['status']
+
+export interface ExtractionReviewField {
+  id: string
+  fieldName: string
+  extractedValue: string | null
+  confidence: number
+  source: string
+  pageNumber: number | null
+  boundingBox: BoundingBox | null
+  context: string | null
+  decision: ReviewDecision
+  finalValue: string | null
+  decidedBy: string | null
+  decidedAt: Date | null
+}
+
+export interface ExtractionReview {
+  id: string
+  fileName: string
+  pageCount: number
+  extractionMethod: string
+  confidence: number
+  formTemplateId: string | null
+  issues: string[]
+  status: ExtractionReviewStatus
+  sampleId: string | null
+  submittedBy: string | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  createdAt: Date
+}
+
+export interface ExtractionReviewDetail extends ExtractionReview {
+  filePath: string
+  fields: ExtractionReviewField[]
+}
+
+export interface ExtractionReviewSummary extends ExtractionReview {
+  pendingFields: number
+  lowestConfidence: number
+}
+
+export interface CreateExtractionReviewData {
+  fileName: string
+  filePath: string
+  pageCount: number
+  extractionMethod: string
+  confidence: number
+  formTemplateId: string | null
+  issues: string[]
+  submittedBy: string | null
+  fields: Array<ReviewFieldDraft & { decision: 'pending' | 'accepted' }>
+}
+
+export interface CompleteExtractionReviewData {
+  status: 'approved' | 'rejected'
+  reviewedBy: string
+  sampleId?: string | undefined
+  // The form itself, kept on the created sample
+  attachment?: { fileName: string; filePath: string; fileSizeBytes: number } | undefined
+  examples: ExtractionExample[]
+}
+
+export class ExtractionReviewRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(data: CreateExtractionReviewData): Promise<ExtractionReviewDetail> {
+    const reviewId = await this.db.transaction().execute(async (trx) => {
+      const now = new Date()
+      const review = await trx
+        .insertInto('extraction_reviews')
+        .values({
+          id: crypto.randomUUID(),
+          file_name: data.fileName,
+          file_path: data.filePath,
+          page_count: data.pageCount,
+          extraction_method: data.extractionMethod,
+          confidence: data.confidence,
+          form_template_id: data.formTemplateId,
+          issues: data.issues,
+          status: 'pending',
+          sample_id: null,
+          submitted_by: data.submittedBy,
+          reviewed_by: null,
+          reviewed_at: null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      if (data.fields.length > 0) {
+        await trx
+          .insertInto('extraction_review_fields')
+          .values(data.fields.map(field => ({
+            id: crypto.randomUUID(),
+            review_id: review.id,
+            field_name: field.fieldName,
+            extracted_value: field.value,
+            confidence: field.confidence,
+            source: field.source,
+            page_number: field.pageNumber,
+            bounding_box: field.boundingBox,
+            context: field.context,
+            decision: field.decision,
+            final_value: null,
+            decided_by: null,
+            decided_at: null,
+          })))
+          .execute()
+      }
+
+      return review.id
+    })
+
+    return (await this.findById(reviewId))!
+  }
+
+  /**
+   * Reviews with their undecided field count, those with the least certain values first
+   */
+  async findByStatus(status: ExtractionReviewStatus, limit: number): Promise<ExtractionReviewSummary[]> {
+    const rows = await this.db
+      .selectFrom('extraction_reviews as review')
+      .leftJoin('extraction_review_fields as field', 'field.review_id', 'review.id')
+      .selectAll('review')
+      .select([
+        sql<number>`COUNT(field.id) FILTER (WHERE field.decision = 'pending')`.as('pending_fields'),
+        sql<number>`COALESCE(MIN(field.confidence), review.confidence)`.as('lowest_confidence'),
+      ])
+      .where('review.status', '=', status)
+      .groupBy('review.id')
+      .orderBy(status === 'pending' ? sql`lowest_confidence` : sql`review.reviewed_at`, status === 'pending' ? 'asc' : 'desc')
+      .orderBy('review.created_at', 'asc')
+      .limit(limit)
+      .execute()
+
+    return rows.map(row => ({
+      ...this.toReview(row),
+      pendingFields: Number(row.pending_fields),
+      lowestConfidence: Number(row.lowest_confidence),
+    }))
+  }
+
+  async findById(id: string): Promise<ExtractionReviewDetail | null> {
+    const row = await this.db
+      .selectFrom('extraction_reviews')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+    if (!row) return null
+
+    const fields = await this.db
+      .selectFrom('extraction_review_fields')
+      .selectAll()
+      .where('review_id', '=', id)
+      .orderBy('confidence', 'asc')
+      .orderBy('field_name', 'asc')
+      .execute()
+
+    return { ...this.toReview(row), filePath: row.file_path, fields: fields.map(field => this.toField(field)) }
+  }
+
+  /**
+   * Record a reviewer's decision on one field of a review that is still pending
+   */
+  async decideField(
+    reviewId: string,
+    fieldName: string,
+    decision: Exclude<ReviewDecision, 'pending'>,
+    finalValue: string | null,
+    decidedBy: string
+  ): Promise<ExtractionReviewField> {
+    const row = await this.db
+      .updateTable('extraction_review_fields')
+      .set({ decision, final_value: finalValue, decided_by: decidedBy, decided_at: new Date() })
+      .where('review_id', '=', reviewId)
+      .where('field_name', '=', fieldName)
+      .where(eb => eb.exists(
+        eb.selectFrom('extraction_reviews')
+          .select('id')
+          .where('id', '=', reviewId)
+          .where('status', '=', 'pending')
+      ))
+      .returningAll()
+      .executeTakeFirst()
+
+    if (!row) {
+      await this.requirePending(reviewId)
+      throw new NotFoundError('Extraction review field', fieldName)
+    }
+
+    return this.toField(row)
+  }
+
+  /**
+   * Close a pending review, attaching the form to its sample and keeping the reviewer's corrections
+   */
+  async complete(id: string, data: CompleteExtractionReviewData): Promise<ExtractionReview> {
+    const row = await this.db.transaction().execute(async (trx) => {
+      const now = new Date()
+      const review = await trx
+        .updateTable('extraction_reviews')
+        .set({
+          status: data.status,
+          sample_id: data.sampleId ?? null,
+          reviewed_by: data.reviewedBy,
+          reviewed_at: now,
+        })
+        .where('id', '=', id)
+        .where('status', '=', 'pending')
+        .returningAll()
+        .executeTakeFirst()
+
+      if (!review) {
+        await this.requirePending(id)
+        throw new ValidationError('This review was completed by someone else')
+      }
+
+      if (data.sampleId && data.attachment) {
+        await trx
+          .insertInto('nanopore_attachments')
+          .values({
+            id: crypto.randomUUID(),
+            sample_id: data.sampleId,
+            file_name: data.attachment.fileName,
+            file_type: 'pdf',
+            file_size_bytes: data.attachment.fileSizeBytes,
+            file_path: data.attachment.filePath,
+            description: 'Submission form',
+            uploaded_by: review.submitted_by,
+            uploaded_at: review.created_at,
+            created_at: now,
+          })
+          .execute()
+      }
+
+      if (data.examples.length > 0) {
+        await trx
+          .insertInto('extraction_examples')
+          .values(data.examples.map(example => ({
+            id: crypto.randomUUID(),
+            field_name: example.fieldName,
+            context: example.context,
+            extracted_value: example.extractedValue,
+            corrected_value: example.correctedValue,
+            form_template_id: review.form_template_id,
+            review_id: id,
+            created_by: data.reviewedBy,
+            created_at: now,
+          })))
+          .execute()
+      }
+
+      return review
+    })
+
+    return this.toReview(row)
+  }
+
+  /**
+   * Latest reviewer corrections, newest first
+   */
+  async findRecentExamples(limit: number): Promise<ExtractionExample[]> {
+    const rows = await this.db
+      .selectFrom('extraction_examples')
+      .select(['field_name', 'context', 'extracted_value', 'corrected_value'])
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .execute()
+
+    return rows.map(row => ({
+      fieldName: row.field_name,
+      context: row.context,
+      extractedValue: row.extracted_value,
+      correctedValue: row.corrected_value,
+    }))
+  }
+
+  private async requirePending(id: string): Promise<void> {
+    const review = await this.db
+      .selectFrom('extraction_reviews')
+      .select('status')
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (!review) {
+      throw new NotFoundError('Extraction review', id)
+    }
+    if (review.status !== 'pending') {
+      throw new ValidationError(`This review has already been ${review.status}`)
+    }
+  }
+
+  private toReview(row: ReviewRow): ExtractionReview {
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      pageCount: row.page_count,
+      extractionMethod: row.extraction_method,
+      confidence: Number(row.confidence),
+      formTemplateId: row.form_template_id,
+      issues: row.issues,
+      status: row.status,
+      sampleId: row.sample_id,
+      submittedBy: row.submitted_by,
+      reviewedBy: row.reviewed_by,
+      reviewedAt: row.reviewed_at,
+      createdAt: row.created_at,
+    }
+  }
+
+  private toField(row: FieldRow): ExtractionReviewField {
+    return {
+      id: row.id,
+      fieldName: row.field_name,
+      extractedValue: row.extracted_value,
+      confidence: Number(row.confidence),
+      source: row.source,
+      pageNumber: row.page_number,
+      boundingBox: row.bounding_box,
+      context: row.context,
+      decision: row.decision,
+      finalValue: row.final_value,
+      decidedBy: row.decided_by,
+      decidedAt: row.decided_at,
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import {
+  formTemplateDefinitionSchema,
+  type FormTemplate,
+  type FormTemplateDefinition
+} from '../lib/ai/form-template-registry'
+import { getComponentLogger } from '../lib/logging/StructuredLogger'
+import { NotFoundError, ValidationError } from '../middleware/errors/ErrorTypes'
+
+const logger = getComponentLogger('FormTemplateRepository')
+
+export interface StoredFormTemplate extends FormTemplate {
+  status: 'active' | 'retired'
+  createdBy: string | null
+  retiredAt: Date | null
+  createdAt: Date
+}
+
+export interface CreateFormTemplateData {
+  templateKey: string
+  name: string
+  definition: FormTemplateDefinition
+}
+
+export class FormTemplateRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findAll(includeRetired = false): Promise<StoredFormTemplate[]> {
+    let query = this.db.selectFrom('pdf_form_templates').selectAll()
+    if (!includeRetired) {
+      query = query.where('status', '=', 'active')
+    }
+
+    const rows = await query
+      .orderBy('template_key', 'asc')
+      .orderBy('version', 'desc')
+      .execute()
+
+    return rows.map(row => this.toTemplate(row))
+  }
+
+  async findById(id: string): Promise<StoredFormTemplate | null> {
+    const row = await this.db
+      .selectFrom('pdf_form_templates')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return row ? this.toTemplate(row) : null
+  }
+
+  /**
+   * Store a template. Reusing an existing key creates the next version of it.
+   */
+  async create(data: CreateFormTemplateData, createdBy: string): Promise<StoredFormTemplate> {
+    const row = await this.db.transaction().execute(async (trx) => {
+      const latest = await trx
+        .selectFrom('pdf_form_templates')
+        .select((eb) => eb.fn.max('version').as('version'))
+        .where('template_key', '=', data.templateKey)
+        .executeTakeFirst()
+
+      const now = new Date()
+      return await trx
+        .insertInto('pdf_form_templates')
+        .values({
+          id: crypto.randomUUID(),
+          template_key: data.templateKey,
+          version: Number(latest?.version ?? 0) + 1,
+          name: data.name,
+          definition: data.definition,
+          status: 'active',
+          created_by: createdBy,
+          retired_at: null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+    })
+
+    logger.info('PDF form template created', {
+      action: 'pdf_form_template_created',
+      metadata: { templateId: row.id, templateKey: row.template_key, version: row.version }
+    })
+
+    return this.toTemplate(row)
+  }
+
+  /**
+   * Retire a template version so it is no longer used for detection
+   */
+  async retire(id: string): Promise<StoredFormTemplate> {
+    const row = await this.db
+      .updateTable('pdf_form_templates')
+      .set({ status: 'retired', retired_at: new Date(), updated_at: new Date() })
+      .where('id', '=', id)
+      .where('status', '=', 'active')
+      .returningAll()
+      .executeTakeFirst()
+
+    if (!row) {
+      const existing = await this.findById(id)
+      if (!existing) {
+        throw new NotFoundError('PDF form template', id)
+      }
+      throw new ValidationError(`PDF form template ${existing.templateKey} v${existing.version} is already retired`)
+    }
+
+    logger.info('PDF form template retired', {
+      action: 'pdf_form_template_retired',
+      metadata: { templateId: id }
+    })
+
+    return this.toTemplate(row)
+  }
+
+  private toTemplate(row: Database['pdf_form_templates']): StoredFormTemplate {
+    return {
+      ...formTemplateDefinitionSchema.parse(row.definition),
+      id: row.id,
+      templateKey: row.template_key,
+      version: row.version,
+      name: row.name,
+      source: 'registered',
+      status: row.status,
+      createdBy: row.created_by,
+      retiredAt: row.retired_at,
+      createdAt: row.created_at,
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { sql, type Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { NotificationDraft, RunningStep } from '../lib/notifications/NotificationCenter'
+
+export interface InboxNotification {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  sampleId: string | null
+  noteId: string | null
+  readAt: Date | null
+  createdAt: Date
+}
+
+type NotificationRow = Database['notifications']
+
+const toNotification = (row: NotificationRow): InboxNotification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body,
+  sampleId: row.sample_id,
+  noteId: row.note_id,
+  readAt: row.read_at,
+  createdAt: row.created_at,
+})
+
+// Recipients are staff names; notes store them as typed, so match without case
+const recipientIs = (recipient: string) => sql<boolean>`lower(recipient) = ${recipient.trim().toLowerCase()}`
+
+export class NotificationRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async listForRecipient(recipient: string, limit: number): Promise<InboxNotification[]> {
+    const rows = await this.db
+      .selectFrom('notifications')
+      .selectAll()
+      .where(recipientIs(recipient))
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .execute()
+
+    return rows.map(toNotification)
+  }
+
+  async countUnread(recipient: string): Promise<number> {
+    const row = await this.db
+      .selectFrom('notifications')
+      .select(eb => eb.fn.countAll<string>().as('count'))
+      .where(recipientIs(recipient))
+      .where('read_at', 'is', null)
+      .executeTakeFirst()
+
+    return Number(row?.count ?? 0)
+  }
+
+  /**
+   * Store a notification for each recipient. Returns the recipients who had not already received it.
+   */
+  async create(draft: NotificationDraft, recipients: string[]): Promise<string[]> {
+    if (recipients.length === 0) return []
+
+    const now = new Date()
+    const rows = await this.db
+      .insertInto('notifications')
+      .values(recipients.map(recipient => ({
+        id: crypto.randomUUID(),
+        recipient,
+        type: draft.type,
+        title: draft.title.slice(0, 255),
+        body: draft.body,
+        sample_id: draft.sampleId,
+        note_id: null,
+        read_at: null,
+        dedupe_key: draft.dedupeKey,
+        created_at: now,
+      })))
+      .onConflict(oc => oc.columns(['recipient', 'dedupe_key']).doNothing())
+      .returning('recipient')
+      .execute()
+
+    return rows.map(row => row.recipient)
+  }
+
+  /**
+   * Mark the given notifications read, or all of the recipient's when no ids are given
+   */
+  async markRead(recipient: string, ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0
+
+    let query = this.db
+      .updateTable('notifications')
+      .set({ read_at: new Date() })
+      .where(recipientIs(recipient))
+      .where('read_at', 'is', null)
+
+    if (ids) {
+      query = query.where('id', 'in', ids)
+    }
+
+    const result = await query.executeTakeFirst()
+    return Number(result.numUpdatedRows)
+  }
+
+  async getMutedTypes(recipients: string[]): Promise<Map<string, string[]>> {
+    const keys = [...new Set(recipients.map(recipient => recipient.trim().toLowerCase()))]
+    if (keys.length === 0) return new Map()
+
+    const rows = await this.db
+      .selectFrom('notification_preferences')
+      .select(['recipient', 'muted_types'])
+      .where('recipient', 'in', keys)
+      .execute()
+
+    return new Map(rows.map(row => [row.recipient, row.muted_types]))
+  }
+
+  async setMutedTypes(recipient: string, mutedTypes: string[]): Promise<void> {
+    const now = new Date()
+    await this.db
+      .insertInto('notification_preferences')
+      .values({ recipient: recipient.trim().toLowerCase(), muted_types: mutedTypes, created_at: now, updated_at: now })
+      .onConflict(oc => oc.column('recipient').doUpdateSet({ muted_types: mutedTypes, updated_at: now }))
+      .execute()
+  }
+
+  /**
+   * In-progress steps with an estimate, with the step's assignee falling back to the sample's
+   */
+  async findRunningSteps(): Promise<RunningStep[]> {
+    const rows = await this.db
+      .selectFrom('nanopore_processing_steps as step')
+      .innerJoin('nanopore_samples as sample', 'sample.id', 'step.sample_id')
+      .select([
+        'step.id as stepId',
+        'step.step_name as stepName',
+        'step.started_at as startedAt',
+        'step.estimated_duration_hours as estimatedDurationHours',
+        'sample.id as sampleId',
+        'sample.sample_name as sampleName',
+        sql<string | null>`coalesce(step.assigned_to, sample.assigned_to)`.as('assignedTo'),
+      ])
+      .where('step.step_status', '=', 'in_progress')
+      .where('step.started_at', 'is not', null)
+      .where('step.estimated_duration_hours', 'is not', null)
+      .execute()
+
+    return rows.map(row => ({ ...row, startedAt: row.startedAt! }))
+  }
+}
@@ -0,0 +1,379 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '../lib/database'
+import type {
+  IFlowCellRepository,
+  FlowCell,
+  FlowCellUsage,
+  FlowCellPoreCheck,
+  CreateFlowCellData
+} from '../services/interfaces/IFlowCellRepository'
+import { BusinessLogicError, NotFoundError, ValidationError } from '../middleware/errors/ErrorTypes'
+import {
+  assertFlowCellStatusTransition,
+  isAvailable,
+  passesPoreCheck,
+  sortForReservation,
+  type FlowCellStatus,
+  type FlowCellType
+} from '../lib/inventory/FlowCellInventory'
+
+export class PostgreSQLFlowCellRepository implements IFlowCellRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  /**
+   * Join the caller's transaction when the repository was built over one, otherwise start one
+   */
+  private async inTransaction<T>(work: (trx: Transaction<Database>) => Promise<T>): Promise<T> {
+    return this.db.isTransaction ? await work(this.db as Transaction<Database>) : await this.db.transaction().execute(work)
+  }
+
+  async create(data: CreateFlowCellData): Promise<FlowCell> {
+    const now = new Date()
+
+    return await this.db
+      .insertInto('flow_cells')
+      .values({
+        id: crypto.randomUUID(),
+        serial_number: data.serialNumber,
+        lot_number: data.lotNumber,
+        flow_cell_type: data.flowCellType,
+        expiry_date: data.expiryDate,
+        status: 'in_stock',
+        last_pore_count: null,
+        last_pore_check_at: null,
+        wash_count: 0,
+        notes: data.notes ?? null,
+        received_at: now,
+        created_at: now,
+        updated_at: now,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  async findById(id: string): Promise<FlowCell | null> {
+    const result = await this.db
+      .selectFrom('flow_cells')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return result || null
+  }
+
+  async findAll(status?: FlowCellStatus): Promise<FlowCell[]> {
+    let query = this.db.selectFrom('flow_cells').selectAll()
+    if (status) {
+      query = query.where('status', '=', status)
+    }
+
+    return await query
+      .orderBy('expiry_date', 'asc')
+      .execute()
+  }
+
+  async findUsagesByFlowCell(flowCellId: string): Promise<FlowCellUsage[]> {
+    return await this.db
+      .selectFrom('flow_cell_usages')
+      .selectAll()
+      .where('flow_cell_id', '=', flowCellId)
+      .orderBy('reserved_at', 'asc')
+      .execute()
+  }
+
+  async findActiveUsagesBySample(sampleId: string): Promise<FlowCellUsage[]> {
+    return await this.db
+      .selectFrom('flow_cell_usages')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+      .where('status', 'in', ['reserved', 'in_use'])
+      .execute()
+  }
+
+  async recordPoreCheck(flowCellId: string, poreCount: number, checkedBy?: string): Promise<FlowCellPoreCheck> {
+    const flowCell = await this.getOrThrow(flowCellId)
+    const now = new Date()
+
+    return await this.inTransaction(async (trx) => {
+      const check = await trx
+        .insertInto('flow_cell_pore_checks')
+        .values({
+          id: crypto.randomUUID(),
+          flow_cell_id: flowCellId,
+          pore_count: poreCount,
+          passed: passesPoreCheck(flowCell.flow_cell_type, poreCount),
+          checked_by: checkedBy ?? null,
+          checked_at: now,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      await trx
+        .updateTable('flow_cells')
+        .set({ last_pore_count: poreCount, last_pore_check_at: now, updated_at: now })
+        .where('id', '=', flowCellId)
+        .execute()
+
+      return check
+    })
+  }
+
+  /**
+   * Reserve flow cells for a sample, either the given ones or the soonest-expiring available stock.
+   * Existing reservations are returned unchanged so repeated calls are safe.
+   */
+  async reserveForSample(
+    sampleId: string,
+    flowCellType: FlowCellType,
+    count: number,
+    flowCellIds?: string[]
+  ): Promise<FlowCellUsage[]> {
+    const existing = await this.findActiveUsagesBySample(sampleId)
+    if (existing.length > 0) {
+      return existing
+    }
+
+    const now = new Date()
+
+    return await this.inTransaction(async (trx) => {
+      let query = trx
+        .selectFrom('flow_cells')
+        .selectAll()
+        .where('flow_cell_type', '=', flowCellType)
+        .where('status', 'in', ['in_stock', 'washed'])
+      if (flowCellIds && flowCellIds.length > 0) {
+        query = query.where('id', 'in', flowCellIds)
+      }
+
+      const candidates = (await query.forUpdate().skipLocked().execute())
+        .filter(cell => isAvailable(cell, now))
+        .filter(cell => cell.last_pore_count === null || passesPoreCheck(cell.flow_cell_type, cell.last_pore_count))
+
+      if (flowCellIds && flowCellIds.length > 0 && candidates.length !== flowCellIds.length) {
+        throw new ValidationError(`Some requested flow cells are not available ${flowCellType} stock`, 'flowCellIds')
+      }
+
+      const selected = sortForReservation(candidates).slice(0, count)
+      if (selected.length < count) {
+        throw new BusinessLogicError(
+          `Not enough ${flowCellType} flow cells in stock: ${count} needed, ${selected.length} available`
+        )
+      }
+
+      await trx
+        .updateTable('flow_cells')
+        .set({ status: 'reserved', updated_at: now })
+        .where('id', 'in', selected.map(cell => cell.id))
+        .execute()
+
+      return await trx
+        .insertInto('flow_cell_usages')
+        .values(selected.map(cell => ({
+          id: crypto.randomUUID(),
+          flow_cell_id: cell.id,
+          sample_id: sampleId,
+          wash_cycle: cell.wash_count,
+          status: 'reserved' as const,
+          reserved_at: now,
+          started_at: null,
+          ended_at: null,
+        })))
+        .returningAll()
+        .execute()
+    })
+  }
+
+  /**
+   * Reserve one flow cell for several samples multiplexed on the same run.
+   * Any other flow cells the samples had reserved are released.
+   */
+  async reserveForSamples(flowCellId: string, sampleIds: string[]): Promise<FlowCellUsage[]> {
+    const now = new Date()
+
+    const usages = await this.inTransaction(async (trx) => {
+      const flowCell = await trx
+        .selectFrom('flow_cells')
+        .selectAll()
+        .where('id', '=', flowCellId)
+        .forUpdate()
+        .executeTakeFirst()
+
+      if (!flowCell) {
+        throw new NotFoundError('Flow cell', flowCellId)
+      }
+      if (!isAvailable(flowCell, now)) {
+        throw new BusinessLogicError(`Flow cell ${flowCell.serial_number} is not available (${flowCell.status})`)
+      }
+      if (flowCell.last_pore_count !== null && !passesPoreCheck(flowCell.flow_cell_type, flowCell.last_pore_count)) {
+        throw new BusinessLogicError(`Flow cell ${flowCell.serial_number} failed its last pore check`)
+      }
+
+      await trx
+        .updateTable('flow_cells')
+        .set({ status: 'reserved', updated_at: now })
+        .where('id', '=', flowCellId)
+        .execute()
+
+      const released = await trx
+        .updateTable('flow_cell_usages')
+        .set({ status: 'released', ended_at: now })
+        .where('sample_id', 'in', sampleIds)
+        .where('status', '=', 'reserved')
+        .returning('flow_cell_id')
+        .execute()
+
+      const inserted = await trx
+        .insertInto('flow_cell_usages')
+        .values(sampleIds.map(sampleId => ({
+          id: crypto.randomUUID(),
+          flow_cell_id: flowCellId,
+          sample_id: sampleId,
+          wash_cycle: flowCell.wash_count,
+          status: 'reserved' as const,
+          reserved_at: now,
+          started_at: null,
+          ended_at: null,
+        })))
+        .returningAll()
+        .execute()
+
+      return { inserted, releasedFlowCellIds: [...new Set(released.map(r => r.flow_cell_id))] }
+    })
+
+    // Cells freed from earlier per-sample reservations go back to stock
+    for (const releasedId of usages.releasedFlowCellIds) {
+      await this.restockIfUnreserved(releasedId)
+    }
+
+    return usages.inserted
+  }
+
+  /**
+   * Return a sample's unused reservations to stock
+   */
+  async releaseForSample(sampleId: string): Promise<number> {
+    const now = new Date()
+
+    return await this.inTransaction(async (trx) => {
+      const usages = await trx
+        .updateTable('flow_cell_usages')
+        .set({ status: 'released', ended_at: now })
+        .where('sample_id', '=', sampleId)
+        .where('status', '=', 'reserved')
+        .returning('flow_cell_id')
+        .execute()
+
+      for (const usage of usages) {
+        const flowCell = await trx
+          .selectFrom('flow_cells')
+          .select(['wash_count'])
+          .where('id', '=', usage.flow_cell_id)
+          .executeTakeFirstOrThrow()
+
+        await trx
+          .updateTable('flow_cells')
+          .set({ status: flowCell.wash_count > 0 ? 'washed' : 'in_stock', updated_at: now })
+          .where('id', '=', usage.flow_cell_id)
+          .where('status', '=', 'reserved')
+          .execute()
+      }
+
+      return usages.length
+    })
+  }
+
+  /**
+   * Mark a reserved flow cell as loaded on a device
+   */
+  async markInUse(flowCellId: string): Promise<FlowCell> {
+    const flowCell = await this.getOrThrow(flowCellId)
+    assertFlowCellStatusTransition(flowCell.status, 'in_use')
+    const now = new Date()
+
+    return await this.inTransaction(async (trx) => {
+      await trx
+        .updateTable('flow_cell_usages')
+        .set({ status: 'in_use', started_at: now })
+        .where('flow_cell_id', '=', flowCellId)
+        .where('status', '=', 'reserved')
+        .execute()
+
+      return await trx
+        .updateTable('flow_cells')
+        .set({ status: 'in_use', updated_at: now })
+        .where('id', '=', flowCellId)
+        .returningAll()
+        .executeTakeFirstOrThrow()
+    })
+  }
+
+  /**
+   * Close the current run on a flow cell, washing it for reuse or marking it spent
+   */
+  async finishRun(flowCellId: string, outcome: 'washed' | 'spent'): Promise<FlowCell> {
+    const flowCell = await this.getOrThrow(flowCellId)
+    if (flowCell.status !== 'in_use') {
+      throw new BusinessLogicError(`Flow cell ${flowCell.serial_number} is not in use`)
+    }
+    const now = new Date()
+
+    return await this.inTransaction(async (trx) => {
+      await trx
+        .updateTable('flow_cell_usages')
+        .set({ status: 'completed', ended_at: now })
+        .where('flow_cell_id', '=', flowCellId)
+        .where('status', '=', 'in_use')
+        .execute()
+
+      return await trx
+        .updateTable('flow_cells')
+        .set({
+          status: outcome,
+          wash_count: outcome === 'washed' ? flowCell.wash_count + 1 : flowCell.wash_count,
+          updated_at: now,
+        })
+        .where('id', '=', flowCellId)
+        .returningAll()
+        .executeTakeFirstOrThrow()
+    })
+  }
+
+  async retire(flowCellId: string): Promise<FlowCell> {
+    const flowCell = await this.getOrThrow(flowCellId)
+    assertFlowCellStatusTransition(flowCell.status, 'spent')
+
+    return await this.db
+      .updateTable('flow_cells')
+      .set({ status: 'spent', updated_at: new Date() })
+      .where('id', '=', flowCellId)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  private async restockIfUnreserved(flowCellId: string): Promise<void> {
+    const remaining = await this.db
+      .selectFrom('flow_cell_usages')
+      .select('id')
+      .where('flow_cell_id', '=', flowCellId)
+      .where('status', '=', 'reserved')
+      .executeTakeFirst()
+
+    if (remaining) return
+
+    const flowCell = await this.getOrThrow(flowCellId)
+    await this.db
+      .updateTable('flow_cells')
+      .set({ status: flowCell.wash_count > 0 ? 'washed' : 'in_stock', updated_at: new Date() })
+      .where('id', '=', flowCellId)
+      .where('status', '=', 'reserved')
+      .execute()
+  }
+
+  private async getOrThrow(id: string): Promise<FlowCell> {
+    const flowCell = await this.findById(id)
+    if (!flowCell) {
+      throw new NotFoundError('Flow cell', id)
+    }
+    return flowCell
+  }
+}
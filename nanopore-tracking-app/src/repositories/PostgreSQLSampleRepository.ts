@@ -5,8 +5,12 @@ import type {
   Sample, 
   CreateSampleData, 
   UpdateSampleData, 
-  SearchCriteria 
+  SearchCriteria,
+  ProcessingStep
 } from '../services/interfaces/ISampleService'
+import type { SampleQueryPlan, SampleQueryResult } from '../lib/ai/sample-query-plan'
+import { WorkflowTemplateRepository } from './WorkflowTemplateRepository'
+import { SampleQueryRepository } from './SampleQueryRepository'
 
 export class PostgreSQLSampleRepository implements ISampleRepository {
   constructor(private readonly db: Kysely<Database>) {}
@@ -14,36 +18,60 @@ export class PostgreSQLSampleRepository implements ISampleRepository {
   async create(data: CreateSampleData): Promise<Sample> {
     const now = new Date()
     
-    const result = await this.db
-      .insertInto('nanopore_samples')
-      .values({
-        id: crypto.randomUUID(),
-        sample_name: data.sampleName,
-        project_id: data.projectId || null,
-        submitter_name: data.submitterName,
-        submitter_email: data.submitterEmail,
-        lab_name: data.labName || null,
-        sample_type: data.sampleType,
-        sample_buffer: data.sampleBuffer || null,
-        concentration: data.concentration || null,
-        volume: data.volume || null,
-        total_amount: data.totalAmount || null,
-        flow_cell_type: data.flowCellType || null,
-        flow_cell_count: data.flowCellCount || 1,
-        status: 'submitted',
-        priority: data.priority || 'normal',
-        assigned_to: data.assignedTo || null,
-        library_prep_by: data.libraryPrepBy || null,
-        chart_field: data.chartField,
-        submitted_at: now,
-        created_at: now,
-        updated_at: now,
-        created_by: '550e8400-e29b-41d4-a716-446655440000', // Demo user UUID from migration
+    return await this.db.transaction().execute(async (trx) => {
+      const result = await trx
+        .insertInto('nanopore_samples')
+        .values({
+          id: crypto.randomUUID(),
+          sample_name: data.sampleName,
+          project_id: data.projectId || null,
+          submitter_name: data.submitterName,
+          submitter_email: data.submitterEmail,
+          lab_name: data.labName || null,
+          sample_type: data.sampleType,
+          sample_buffer: data.sampleBuffer || null,
+          concentration: data.concentration || null,
+          volume: data.volume || null,
+          total_amount: data.totalAmount || null,
+          flow_cell_type: data.flowCellType || null,
+          flow_cell_count: data.flowCellCount || 1,
+          status: 'submitted',
+          sla_risk: 'on_track',
+          priority: data.priority || 'normal',
+          assigned_to: data.assignedTo || null,
+          library_prep_by: data.libraryPrepBy || null,
+          chart_field: data.chartField,
+          submitted_at: now,
+          created_at: now,
+          updated_at: now,
+          created_by: data.createdBy || '550e8400-e29b-41d4-a716-446655440000', // Demo user UUID from migration
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      if (data.libraryPrepKit || data.barcodingRequired !== undefined) {
+        await trx
+          .insertInto('nanopore_sample_details')
+          .values({
+            id: crypto.randomUUID(),
+            sample_id: result.id,
+            library_prep_kit: data.libraryPrepKit || null,
+            barcoding_required: data.barcodingRequired ?? false,
+            created_at: now,
+            updated_at: now,
+          })
+          .execute()
+      }
+
+      // Materialize processing steps from the best matching workflow template
+      const { templateId } = await new WorkflowTemplateRepository(trx).instantiateForSample(result.id, {
+        sampleType: data.sampleType,
+        libraryPrepKit: data.libraryPrepKit ?? null,
+        barcodingRequired: data.barcodingRequired ?? null,
       })
-      .returningAll()
-      .executeTakeFirstOrThrow()
 
-    return result as Sample
+      return { ...result, workflow_template_id: templateId } as Sample
+    })
   }
 
   async update(id: string, data: UpdateSampleData): Promise<Sample> {
@@ -259,4 +287,19 @@ export class PostgreSQLSampleRepository implements ISampleRepository {
 
     return Number(result?.count || 0)
   }
+
+  async findProcessingSteps(sampleId: string): Promise<ProcessingStep[]> {
+    const results = await this.db
+      .selectFrom('nanopore_processing_steps')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+      .orderBy('created_at', 'asc')
+      .execute()
+
+    return results as ProcessingStep[]
+  }
+
+  async runQueryPlan(plan: SampleQueryPlan): Promise<SampleQueryResult> {
+    return await new SampleQueryRepository(this.db).run(plan)
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type {
+  ISequencingRunRepository,
+  SequencingRun,
+  SequencingRunWithMembers,
+  CreateSequencingRunData
+} from '../services/interfaces/ISequencingRunRepository'
+import type { SequencingRunStatus } from '../lib/workflow/SequencingRuns'
+
+export class PostgreSQLSequencingRunRepository implements ISequencingRunRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async create(data: CreateSequencingRunData): Promise<SequencingRunWithMembers> {
+    const now = new Date()
+
+    const runId = await this.db.transaction().execute(async (trx) => {
+      const run = await trx
+        .insertInto('sequencing_runs')
+        .values({
+          id: crypto.randomUUID(),
+          run_name: data.runName,
+          flow_cell_id: data.flowCellId,
+          device_id: data.deviceId,
+          device_position: data.devicePosition ?? null,
+          barcode_kit: data.barcodeKit,
+          status: 'planned',
+          started_at: null,
+          completed_at: null,
+          notes: data.notes ?? null,
+          created_by: data.createdBy ?? null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      await trx
+        .insertInto('sequencing_run_samples')
+        .values(data.members.map(member => ({
+          id: crypto.randomUUID(),
+          run_id: run.id,
+          sample_id: member.sampleId,
+          barcode: member.barcode,
+          created_at: now,
+        })))
+        .execute()
+
+      return run.id
+    })
+
+    return (await this.findById(runId))!
+  }
+
+  async findById(id: string): Promise<SequencingRunWithMembers | null> {
+    const run = await this.db
+      .selectFrom('sequencing_runs')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (!run) {
+      return null
+    }
+
+    const members = await this.db
+      .selectFrom('sequencing_run_samples as member')
+      .innerJoin('nanopore_samples as sample', 'sample.id', 'member.sample_id')
+      .select(['member.sample_id', 'sample.sample_name', 'member.barcode', 'sample.status'])
+      .where('member.run_id', '=', id)
+      .orderBy('member.barcode', 'asc')
+      .execute()
+
+    return { ...run, members }
+  }
+
+  async findAll(status?: SequencingRunStatus): Promise<SequencingRun[]> {
+    let query = this.db.selectFrom('sequencing_runs').selectAll()
+    if (status) {
+      query = query.where('status', '=', status)
+    }
+
+    return await query
+      .orderBy('created_at', 'desc')
+      .execute()
+  }
+
+  /**
+   * Planned or running runs that already include any of the samples
+   */
+  async findOpenRunIdsForSamples(sampleIds: string[]): Promise<Array<{ sample_id: string; run_id: string }>> {
+    if (sampleIds.length === 0) {
+      return []
+    }
+
+    return await this.db
+      .selectFrom('sequencing_run_samples as member')
+      .innerJoin('sequencing_runs as run', 'run.id', 'member.run_id')
+      .select(['member.sample_id', 'member.run_id'])
+      .where('member.sample_id', 'in', sampleIds)
+      .where('run.status', 'in', ['planned', 'running'])
+      .execute()
+  }
+
+  async findMemberDetails(sampleIds: string[]) {
+    if (sampleIds.length === 0) {
+      return []
+    }
+
+    return await this.db
+      .selectFrom('nanopore_samples as sample')
+      .leftJoin('nanopore_sample_details as details', 'details.sample_id', 'sample.id')
+      .select(['sample.id as sample_id', 'sample.sample_name', 'details.barcoding_required', 'details.barcode_kit'])
+      .where('sample.id', 'in', sampleIds)
+      .execute()
+  }
+
+  async updateStatus(id: string, status: SequencingRunStatus): Promise<SequencingRun> {
+    const now = new Date()
+
+    return await this.db
+      .updateTable('sequencing_runs')
+      .set({
+        status,
+        updated_at: now,
+        ...(status === 'running' && { started_at: now }),
+        ...((status === 'completed' || status === 'failed') && { completed_at: now }),
+      })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  /**
+   * Move the named processing step of every member sample at once
+   */
+  async advanceSteps(sampleIds: string[], stepName: string, stepStatus: 'in_progress' | 'completed' | 'failed'): Promise<number> {
+    if (sampleIds.length === 0) {
+      return 0
+    }
+
+    const now = new Date()
+    const result = await this.db
+      .updateTable('nanopore_processing_steps')
+      .set({
+        step_status: stepStatus,
+        updated_at: now,
+        ...(stepStatus === 'in_progress' && { started_at: now }),
+        ...(stepStatus === 'completed' && { completed_at: now }),
+      })
+      .where('sample_id', 'in', sampleIds)
+      .where('step_name', '=', stepName)
+      .where('step_status', 'not in', ['completed', 'skipped'])
+      .executeTakeFirst()
+
+    return Number(result.numUpdatedRows)
+  }
+}
@@ -0,0 +1,49 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+
+export interface SampleQcResult {
+  qc_passed: boolean | null
+  qc_notes: string | null
+}
+
+export class QcResultRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findBySample(sampleId: string): Promise<SampleQcResult | null> {
+    const result = await this.db
+      .selectFrom('nanopore_sample_details')
+      .select(['qc_passed', 'qc_notes'])
+      .where('sample_id', '=', sampleId)
+      .executeTakeFirst()
+
+    return result || null
+  }
+
+  /**
+   * Record the QC verdict on the sample's details, creating the details row if the sample has none
+   */
+  async save(sampleId: string, passed: boolean, notes: string): Promise<void> {
+    const now = new Date()
+
+    const updated = await this.db
+      .updateTable('nanopore_sample_details')
+      .set({ qc_passed: passed, qc_notes: notes, updated_at: now })
+      .where('sample_id', '=', sampleId)
+      .executeTakeFirst()
+
+    if (Number(updated.numUpdatedRows) > 0) return
+
+    await this.db
+      .insertInto('nanopore_sample_details')
+      .values({
+        id: crypto.randomUUID(),
+        sample_id: sampleId,
+        barcoding_required: false,
+        qc_passed: passed,
+        qc_notes: notes,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute()
+  }
+}
@@ -0,0 +1,294 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '../lib/database'
+import type { NoteVisibility } from '../lib/notes/SampleNotes'
+import { NotFoundError } from '../middleware/errors/ErrorTypes'
+
+type NoteRow = Database['sample_notes']
+
+export interface NoteAttachment {
+  id: string
+  fileName: string
+  fileType: string | null
+  fileSizeBytes: number | null
+}
+
+export interface SampleNote {
+  id: string
+  sampleId: string
+  parentId: string | null
+  author: string
+  body: string
+  visibility: NoteVisibility
+  mentions: string[]
+  attachments: NoteAttachment[]
+  editedAt: Date | null
+  createdAt: Date
+}
+
+export interface NoteRevision {
+  id: string
+  noteId: string
+  body: string
+  visibility: NoteVisibility
+  editedBy: string
+  createdAt: Date
+}
+
+export interface CreateNoteData {
+  sampleId: string
+  parentId: string | null
+  author: string
+  body: string
+  visibility: NoteVisibility
+  mentions: string[]
+  attachmentIds: string[]
+}
+
+export interface UpdateNoteData {
+  body: string
+  visibility: NoteVisibility
+  mentions: string[]
+  // Omitted to keep the current attachments
+  attachmentIds?: string[] | undefined
+}
+
+export class SampleNoteRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  /**
+   * Notes on a sample, oldest first. Submitters only ever see notes marked visible to them.
+   */
+  async listForSample(sampleId: string, includeInternal: boolean): Promise<SampleNote[]> {
+    let query = this.db
+      .selectFrom('sample_notes')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+    if (!includeInternal) {
+      query = query.where('visibility', '=', 'submitter')
+    }
+
+    const rows = await query.orderBy('created_at', 'asc').execute()
+    return await this.withAttachments(rows)
+  }
+
+  async findById(id: string): Promise<SampleNote | null> {
+    const row = await this.db
+      .selectFrom('sample_notes')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    return row ? (await this.withAttachments([row]))[0]! : null
+  }
+
+  /**
+   * Attachments uploaded for the sample, which notes may reference
+   */
+  async listSampleAttachments(sampleId: string): Promise<NoteAttachment[]> {
+    const rows = await this.db
+      .selectFrom('nanopore_attachments')
+      .select(['id', 'file_name', 'file_type', 'file_size_bytes'])
+      .where('sample_id', '=', sampleId)
+      .orderBy('uploaded_at', 'desc')
+      .execute()
+
+    return rows.map(row => ({
+      id: row.id,
+      fileName: row.file_name,
+      fileType: row.file_type,
+      fileSizeBytes: row.file_size_bytes,
+    }))
+  }
+
+  /**
+   * Store a note, its attachment references and a notification for each mentioned person
+   */
+  async create(data: CreateNoteData, notify: string[]): Promise<SampleNote> {
+    const id = await this.db.transaction().execute(async (trx) => {
+      const now = new Date()
+      const row = await trx
+        .insertInto('sample_notes')
+        .values({
+          id: crypto.randomUUID(),
+          sample_id: data.sampleId,
+          parent_id: data.parentId,
+          author: data.author,
+          body: data.body,
+          visibility: data.visibility,
+          mentions: data.mentions,
+          edited_at: null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      await this.replaceAttachments(trx, row.id, data.attachmentIds)
+      await this.notifyMentions(trx, row, notify, data.author)
+      return row.id
+    })
+
+    return (await this.findById(id))!
+  }
+
+  /**
+   * Keep the current version as a revision, then apply the edit
+   */
+  async update(id: string, editor: string, data: UpdateNoteData, notify: string[]): Promise<SampleNote> {
+    await this.db.transaction().execute(async (trx) => {
+      const current = await trx
+        .selectFrom('sample_notes')
+        .selectAll()
+        .where('id', '=', id)
+        .forUpdate()
+        .executeTakeFirst()
+
+      if (!current) {
+        throw new NotFoundError('Sample note', id)
+      }
+
+      const now = new Date()
+      await trx
+        .insertInto('sample_note_revisions')
+        .values({
+          id: crypto.randomUUID(),
+          note_id: id,
+          body: current.body,
+          visibility: current.visibility,
+          edited_by: editor,
+          created_at: now,
+        })
+        .execute()
+
+      const row = await trx
+        .updateTable('sample_notes')
+        .set({
+          body: data.body,
+          visibility: data.visibility,
+          mentions: data.mentions,
+          edited_at: now,
+          updated_at: now,
+        })
+        .where('id', '=', id)
+        .returningAll()
+        .executeTakeFirstOrThrow()
+
+      if (data.attachmentIds) {
+        await this.replaceAttachments(trx, id, data.attachmentIds)
+      }
+      await this.notifyMentions(trx, row, notify, editor)
+    })
+
+    return (await this.findById(id))!
+  }
+
+  async listRevisions(noteId: string): Promise<NoteRevision[]> {
+    const rows = await this.db
+      .selectFrom('sample_note_revisions')
+      .selectAll()
+      .where('note_id', '=', noteId)
+      .orderBy('created_at', 'desc')
+      .execute()
+
+    return rows.map(row => ({
+      id: row.id,
+      noteId: row.note_id,
+      body: row.body,
+      visibility: row.visibility,
+      editedBy: row.edited_by,
+      createdAt: row.created_at,
+    }))
+  }
+
+  /**
+   * Samples with a note whose body or author matches the term
+   */
+  async searchSampleIds(term: string, limit = 200): Promise<string[]> {
+    const pattern = `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`
+    const rows = await this.db
+      .selectFrom('sample_notes')
+      .select('sample_id')
+      .distinct()
+      .where((eb) => eb.or([
+        eb('body', 'ilike', pattern),
+        eb('author', 'ilike', pattern),
+      ]))
+      .limit(limit)
+      .execute()
+
+    return rows.map(row => row.sample_id)
+  }
+
+  private async replaceAttachments(trx: Transaction<Database>, noteId: string, attachmentIds: string[]): Promise<void> {
+    await trx.deleteFrom('sample_note_attachments').where('note_id', '=', noteId).execute()
+    if (attachmentIds.length === 0) return
+
+    await trx
+      .insertInto('sample_note_attachments')
+      .values(attachmentIds.map(attachmentId => ({ note_id: noteId, attachment_id: attachmentId })))
+      .execute()
+  }
+
+  private async notifyMentions(trx: Transaction<Database>, note: NoteRow, recipients: string[], mentionedBy: string): Promise<void> {
+    if (recipients.length === 0) return
+
+    const sample = await trx
+      .selectFrom('nanopore_samples')
+      .select('sample_name')
+      .where('id', '=', note.sample_id)
+      .executeTakeFirst()
+
+    const now = new Date()
+    await trx
+      .insertInto('notifications')
+      .values(recipients.map(recipient => ({
+        id: crypto.randomUUID(),
+        recipient,
+        type: 'note_mention',
+        title: `${mentionedBy} mentioned you on ${sample?.sample_name ?? 'a sample'}`,
+        body: note.body.slice(0, 500),
+        sample_id: note.sample_id,
+        note_id: note.id,
+        read_at: null,
+        created_at: now,
+      })))
+      .execute()
+  }
+
+  private async withAttachments(rows: NoteRow[]): Promise<SampleNote[]> {
+    if (rows.length === 0) return []
+
+    const links = await this.db
+      .selectFrom('sample_note_attachments')
+      .innerJoin('nanopore_attachments', 'nanopore_attachments.id', 'sample_note_attachments.attachment_id')
+      .select([
+        'sample_note_attachments.note_id',
+        'nanopore_attachments.id',
+        'nanopore_attachments.file_name',
+        'nanopore_attachments.file_type',
+        'nanopore_attachments.file_size_bytes',
+      ])
+      .where('sample_note_attachments.note_id', 'in', rows.map(row => row.id))
+      .execute()
+
+    return rows.map(row => ({
+      id: row.id,
+      sampleId: row.sample_id,
+      parentId: row.parent_id,
+      author: row.author,
+      body: row.body,
+      visibility: row.visibility,
+      mentions: row.mentions ?? [],
+      attachments: links
+        .filter(link => link.note_id === row.id)
+        .map(link => ({
+          id: link.id,
+          fileName: link.file_name,
+          fileType: link.file_type,
+          fileSizeBytes: link.file_size_bytes,
+        })),
+      editedAt: row.edited_at,
+      createdAt: row.created_at,
+    }))
+  }
+}
@@ -0,0 +1,159 @@
+import { sql, type Expression, type ExpressionBuilder, type Kysely, type RawBuilder, type SqlBool } from 'kysely'
+import type { Database } from '../lib/database'
+import {
+  SAMPLE_QUERY_FIELDS,
+  type SampleQueryFieldName,
+  type SampleQueryFilter,
+  type SampleQueryPlan,
+  type SampleQueryResult,
+  type SampleQueryRow,
+  type SampleQueryStepFilter,
+} from '../lib/ai/sample-query-plan'
+
+type SampleScope = ExpressionBuilder<Database & { s: Database['nanopore_samples'] }, 's'>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&')
+
+/**
+ * Runs query plans from the sample query assistant
+ * Column names come only from SAMPLE_QUERY_FIELDS and every value is a bound parameter. A sample's details are
+ * read from its latest details row, so samples are never counted twice.
+ */
+export class SampleQueryRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async run(plan: SampleQueryPlan, now: Date = new Date()): Promise<SampleQueryResult> {
+    const counted = await this.countQuery(plan, now).executeTakeFirst()
+    const total = Number(counted?.count ?? 0)
+
+    if (plan.output === 'count') {
+      return { output: 'count', total }
+    }
+    if (plan.output === 'groupBy' && plan.groupBy) {
+      const groups = await this.groupQuery(plan, plan.groupBy, now).execute()
+      return {
+        output: 'groupBy',
+        total,
+        groupBy: plan.groupBy,
+        groups: groups.map(group => ({
+          value: group.value === null ? null : String(group.value),
+          count: Number(group.count),
+        })),
+      }
+    }
+
+    const rows = await this.listQuery(plan, now).execute()
+    return { output: 'list', total, rows: rows as SampleQueryRow[] }
+  }
+
+  countQuery(plan: SampleQueryPlan, now: Date) {
+    return this.filtered(plan, now).select((eb) => eb.fn.countAll<string>().as('count'))
+  }
+
+  listQuery(plan: SampleQueryPlan, now: Date) {
+    const sort = plan.sort ?? { field: 'submittedAt', direction: 'desc' as const }
+    return this.filtered(plan, now)
+      .select([
+        's.id',
+        's.sample_name',
+        's.submitter_name',
+        's.lab_name',
+        's.sample_type',
+        's.status',
+        's.priority',
+        's.sla_risk',
+        's.assigned_to',
+        's.submitted_at',
+        's.started_at',
+      ])
+      .orderBy(this.column(sort.field), sort.direction)
+      .orderBy('s.id')
+      .limit(plan.limit)
+  }
+
+  groupQuery(plan: SampleQueryPlan, groupBy: SampleQueryFieldName, now: Date) {
+    const column = this.column(groupBy)
+    return this.filtered(plan, now)
+      .select((eb) => [column.as('value'), eb.fn.countAll<string>().as('count')])
+      .groupBy(column)
+      .orderBy('count', 'desc')
+      .limit(plan.limit)
+  }
+
+  private filtered(plan: SampleQueryPlan, now: Date) {
+    let query = this.db.selectFrom('nanopore_samples as s')
+
+    if (plan.filters.length > 0) {
+      query = query.where((eb) => eb.and(plan.filters.map(filter => this.condition(eb, filter, now))))
+    }
+    for (const step of plan.steps) {
+      query = query.where((eb) => eb.exists(this.stepQuery(eb, step)))
+    }
+    return query
+  }
+
+  private stepQuery(eb: SampleScope, step: SampleQueryStepFilter) {
+    let query = eb
+      .selectFrom('nanopore_processing_steps as p')
+      .select('p.id')
+      .whereRef('p.sample_id', '=', 's.id')
+    if (step.name !== undefined) {
+      query = query.where('p.step_name', 'ilike', `%${escapeLike(step.name)}%`)
+    }
+    if (step.status !== undefined) {
+      query = query.where('p.step_status', '=', step.status)
+    }
+    return query
+  }
+
+  private column(name: SampleQueryFieldName): RawBuilder<unknown> {
+    const field = SAMPLE_QUERY_FIELDS[name]
+    if (field.source === 'sample') {
+      return sql`${sql.ref(`s.${field.column}`)}`
+    }
+    return sql`(select ${sql.ref(`d.${field.column}`)} from nanopore_sample_details as d where d.sample_id = s.id order by d.created_at desc limit 1)`
+  }
+
+  private condition(eb: SampleScope, filter: SampleQueryFilter, now: Date): Expression<SqlBool> {
+    const field = SAMPLE_QUERY_FIELDS[filter.field]
+    const column = this.column(filter.field)
+    const { value } = filter
+    // Free text is compared without regard to case; enum values are already lower case
+    const text = field.type === 'text'
+    const lhs = text ? sql`lower(${column})` : column
+    const rhs = (item: unknown) => (text && typeof item === 'string' ? item.toLowerCase() : item)
+
+    switch (filter.op) {
+      case 'eq':
+        return eb(lhs, '=', rhs(value))
+      case 'neq':
+        return eb(lhs, 'is distinct from', rhs(value))
+      case 'in':
+        return eb(lhs, 'in', (value as string[]).map(rhs))
+      case 'contains':
+        return eb(column, 'ilike', `%${escapeLike(String(value))}%`)
+      case 'gt':
+        return eb(column, '>', value)
+      case 'gte':
+        return eb(column, '>=', value)
+      case 'lt':
+        return eb(column, '<', value)
+      case 'lte':
+        return eb(column, '<=', value)
+      case 'olderThanDays':
+        return eb(column, '<', new Date(now.getTime() - Number(value) * DAY_MS))
+      case 'withinDays':
+        return eb(column, '>=', new Date(now.getTime() - Number(value) * DAY_MS))
+      case 'before':
+        return eb(column, '<', new Date(String(value)))
+      case 'after':
+        return eb(column, '>', new Date(String(value)))
+      case 'isNull':
+        return eb(column, 'is', null)
+      case 'notNull':
+        return eb(column, 'is not', null)
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+
+type SampleRow = Database['nanopore_samples']
+type StepRow = Database['nanopore_processing_steps']
+type AttachmentRow = Database['nanopore_attachments']
+
+export class SampleTimelineRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findSample(sampleId: string): Promise<SampleRow | null> {
+    const row = await this.db
+      .selectFrom('nanopore_samples')
+      .selectAll()
+      .where('id', '=', sampleId)
+      .executeTakeFirst()
+
+    return row ?? null
+  }
+
+  async findSteps(sampleId: string): Promise<StepRow[]> {
+    return await this.db
+      .selectFrom('nanopore_processing_steps')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+      .orderBy('step_order', 'asc')
+      .execute()
+  }
+
+  async findAttachments(sampleId: string): Promise<AttachmentRow[]> {
+    return await this.db
+      .selectFrom('nanopore_attachments')
+      .selectAll()
+      .where('sample_id', '=', sampleId)
+      .orderBy('uploaded_at', 'asc')
+      .execute()
+  }
+}
@@ -0,0 +1,132 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { SampleStatus } from '@app/utils'
+import type { StepChange } from '../lib/workflow/WorkflowActions'
+import { NotFoundError } from '../middleware/errors/ErrorTypes'
+
+type SampleRow = Database['nanopore_samples']
+type StepRow = Database['nanopore_processing_steps']
+
+/**
+ * Everything one workflow action writes
+ */
+export interface WorkflowActionPlan {
+  stepChanges: StepChange[]
+  // Stored on the step the action targets, the last entry of stepChanges
+  results?: Record<string, any> | undefined
+  notes?: string | undefined
+  qc?: { passed: boolean; notes: string } | undefined
+  status?: SampleStatus | undefined
+}
+
+export interface AppliedWorkflowAction {
+  previous: SampleRow
+  sample: SampleRow
+  // Steps as they were before the action, keyed by id, and as written
+  previousSteps: Map<string, StepRow>
+  changedSteps: StepRow[]
+}
+
+export class SampleWorkflowRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  /**
+   * Lock the sample, let the planner inspect it and its steps, then write the plan in one transaction.
+   * Anything the planner throws rolls the whole action back.
+   */
+  async applyAction(
+    sampleId: string,
+    planner: (sample: SampleRow, steps: StepRow[]) => WorkflowActionPlan
+  ): Promise<AppliedWorkflowAction> {
+    return await this.db.transaction().execute(async (trx) => {
+      const previous = await trx
+        .selectFrom('nanopore_samples')
+        .selectAll()
+        .where('id', '=', sampleId)
+        .forUpdate()
+        .executeTakeFirst()
+
+      if (!previous) {
+        throw new NotFoundError('Sample', sampleId)
+      }
+
+      const steps = await trx
+        .selectFrom('nanopore_processing_steps')
+        .selectAll()
+        .where('sample_id', '=', sampleId)
+        .orderBy('step_order', 'asc')
+        .orderBy('created_at', 'asc')
+        .execute()
+
+      const plan = planner(previous, steps)
+      const now = new Date()
+      const targetId = plan.stepChanges[plan.stepChanges.length - 1]?.stepId
+      const changedSteps: StepRow[] = []
+
+      for (const change of plan.stepChanges) {
+        const isTarget = change.stepId === targetId
+        const step = steps.find(s => s.id === change.stepId)!
+
+        changedSteps.push(await trx
+          .updateTable('nanopore_processing_steps')
+          .set({
+            step_status: change.change === 'start' ? 'in_progress' : change.change === 'complete' ? 'completed' : 'failed',
+            // Steps completed in passing were never started on their own
+            started_at: step.started_at ?? now,
+            ...(change.change !== 'start' && { completed_at: now }),
+            ...(isTarget && plan.results && { results_data: plan.results }),
+            ...(isTarget && plan.notes && { notes: plan.notes }),
+            updated_at: now,
+          })
+          .where('id', '=', change.stepId)
+          .returningAll()
+          .executeTakeFirstOrThrow())
+      }
+
+      if (plan.qc) {
+        const updated = await trx
+          .updateTable('nanopore_sample_details')
+          .set({ qc_passed: plan.qc.passed, qc_notes: plan.qc.notes, updated_at: now })
+          .where('sample_id', '=', sampleId)
+          .executeTakeFirst()
+
+        if (Number(updated.numUpdatedRows) === 0) {
+          await trx
+            .insertInto('nanopore_sample_details')
+            .values({
+              id: crypto.randomUUID(),
+              sample_id: sampleId,
+              barcoding_required: false,
+              qc_passed: plan.qc.passed,
+              qc_notes: plan.qc.notes,
+              created_at: now,
+              updated_at: now,
+            })
+            .execute()
+        }
+      }
+
+      const sample = plan.status && plan.status !== previous.status
+        ? await trx
+            .updateTable('nanopore_samples')
+            .set({
+              status: plan.status,
+              // Same timestamps as a manual status change
+              ...(plan.status === 'prep' && { started_at: now }),
+              ...(plan.status === 'completed' && { completed_at: now }),
+              updated_at: now,
+            })
+            .where('id', '=', sampleId)
+            .returningAll()
+            .executeTakeFirstOrThrow()
+        : previous
+
+      return {
+        previous,
+        sample,
+        previousSteps: new Map(steps.map(step => [step.id, step])),
+        changedSteps,
+      }
+    })
+  }
+}
@@ -1,11 +1,16 @@
+import type { Kysely } from 'kysely'
 import type { ISampleRepository } from '../services/interfaces/ISampleRepository'
 import type { 
   Sample, 
   CreateSampleData, 
   UpdateSampleData, 
-  SearchCriteria 
+  SearchCriteria,
+  ProcessingStep
 } from '../services/interfaces/ISampleService'
+import type { SampleQueryPlan, SampleQueryResult } from '../lib/ai/sample-query-plan'
+import type { Database } from '../lib/database'
 import { samplesDb } from '../lib/database/service-databases'
+import { SampleQueryRepository } from './SampleQueryRepository'
 import { getComponentLogger } from '../lib/logging/StructuredLogger'
 
 const logger = getComponentLogger('SamplesRepository')
@@ -280,6 +285,15 @@ export class SamplesRepository implements ISampleRepository {
     return Number(result?.count || 0)
   }
 
+  async findProcessingSteps(sampleId: string): Promise<ProcessingStep[]> {
+    return await this.getProcessingSteps(sampleId)
+  }
+
+  async runQueryPlan(plan: SampleQueryPlan): Promise<SampleQueryResult> {
+    // The samples database is migrated with the same sample tables as the main one
+    return await new SampleQueryRepository(this.db as unknown as Kysely<Database>).run(plan)
+  }
+
   // Sample details operations
   async createSampleDetails(sampleId: string, details: any): Promise<any> {
     logger.info('Creating sample details', {
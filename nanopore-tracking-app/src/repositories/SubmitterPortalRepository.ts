@@ -0,0 +1,110 @@
+import { sql, type Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { PortalAttachment, PortalStep } from '../lib/portal/SubmitterPortal'
+
+type SampleRow = Database['nanopore_samples']
+
+export interface SharedAttachmentFile extends PortalAttachment {
+  filePath: string | null
+}
+
+export class SubmitterPortalRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  /**
+   * Samples the submitter created, or that staff entered under their email when it has been verified
+   */
+  async findSamplesForSubmitter(userId: string, verifiedEmail: string | null): Promise<SampleRow[]> {
+    return await this.db
+      .selectFrom('nanopore_samples')
+      .selectAll()
+      .where(eb => eb.or([
+        eb('created_by', '=', userId),
+        ...(verifiedEmail ? [eb(sql<string>`lower(submitter_email)`, '=', verifiedEmail.trim().toLowerCase())] : []),
+      ]))
+      .orderBy('submitted_at', 'desc')
+      .execute()
+  }
+
+  async hasSamplesForEmail(email: string): Promise<boolean> {
+    const row = await this.db
+      .selectFrom('nanopore_samples')
+      .select('id')
+      .where(sql<string>`lower(submitter_email)`, '=', email.trim().toLowerCase())
+      .limit(1)
+      .executeTakeFirst()
+
+    return !!row
+  }
+
+  /**
+   * Record a sign-in link as used. False when it already was; expired records are pruned on the way.
+   */
+  async redeemLink(tokenHash: string, email: string, expiresAt: Date, now = new Date()): Promise<boolean> {
+    await this.db
+      .deleteFrom('portal_link_redemptions')
+      .where('expires_at', '<', now)
+      .execute()
+
+    const row = await this.db
+      .insertInto('portal_link_redemptions')
+      .values({ token_hash: tokenHash, email, expires_at: expiresAt, redeemed_at: now })
+      .onConflict(oc => oc.column('token_hash').doNothing())
+      .returning('token_hash')
+      .executeTakeFirst()
+
+    return !!row
+  }
+
+  async findSteps(sampleIds: string[]): Promise<Map<string, PortalStep[]>> {
+    if (sampleIds.length === 0) return new Map()
+
+    const rows = await this.db
+      .selectFrom('nanopore_processing_steps')
+      .select(['sample_id', 'step_name', 'step_status'])
+      .where('sample_id', 'in', sampleIds)
+      .orderBy('step_order')
+      .execute()
+
+    const steps = new Map<string, PortalStep[]>()
+    for (const row of rows) {
+      const list = steps.get(row.sample_id) ?? []
+      list.push({ stepName: row.step_name, stepStatus: row.step_status })
+      steps.set(row.sample_id, list)
+    }
+    return steps
+  }
+
+  /**
+   * Attachments staff shared on a note visible to the submitter
+   */
+  async findSharedAttachments(sampleIds: string[]): Promise<SharedAttachmentFile[]> {
+    if (sampleIds.length === 0) return []
+
+    const rows = await this.db
+      .selectFrom('nanopore_attachments as attachment')
+      .innerJoin('sample_note_attachments as link', 'link.attachment_id', 'attachment.id')
+      .innerJoin('sample_notes as note', 'note.id', 'link.note_id')
+      .select([
+        'attachment.id',
+        'attachment.sample_id',
+        'attachment.file_name',
+        'attachment.file_type',
+        'attachment.file_size_bytes',
+        'attachment.file_path',
+      ])
+      .distinct()
+      .where('attachment.sample_id', 'in', sampleIds)
+      .where('note.visibility', '=', 'submitter')
+      .execute()
+
+    return rows.map(row => ({
+      id: row.id,
+      sampleId: row.sample_id,
+      fileName: row.file_name,
+      fileType: row.file_type,
+      fileSizeBytes: row.file_size_bytes,
+      filePath: row.file_path,
+    }))
+  }
+}
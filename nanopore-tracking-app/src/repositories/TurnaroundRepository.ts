@@ -0,0 +1,102 @@
+import { sql, type Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { ForecastSample, ForecastStep, SlaRisk, StepDurationStat } from '../lib/workflow/TurnaroundForecast'
+
+export interface ActiveSampleWithSteps extends ForecastSample {
+  sample_name: string
+  sla_risk: SlaRisk
+  steps: ForecastStep[]
+}
+
+const ACTIVE_STATUSES = ['submitted', 'prep', 'sequencing', 'analysis'] as const
+
+export class TurnaroundRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  /**
+   * Samples still in the lab together with their processing steps
+   */
+  async findActiveSamplesWithSteps(): Promise<ActiveSampleWithSteps[]> {
+    const samples = await this.db
+      .selectFrom('nanopore_samples')
+      .select(['id', 'sample_name', 'status', 'priority', 'sample_type', 'assigned_to', 'submitted_at', 'sla_risk'])
+      .where('status', 'in', ACTIVE_STATUSES)
+      .execute()
+
+    if (samples.length === 0) {
+      return []
+    }
+
+    const steps = await this.db
+      .selectFrom('nanopore_processing_steps')
+      .select(['sample_id', 'step_name', 'step_status', 'estimated_duration_hours', 'started_at'])
+      .where('sample_id', 'in', samples.map(s => s.id))
+      .execute()
+
+    return samples.map(sample => ({
+      ...sample,
+      steps: steps.filter(step => step.sample_id === sample.id)
+    }))
+  }
+
+  /**
+   * Average actual duration of completed steps per sample type and step name
+   */
+  async getStepDurationStats(): Promise<StepDurationStat[]> {
+    const rows = await this.db
+      .selectFrom('nanopore_processing_steps as step')
+      .innerJoin('nanopore_samples as sample', 'sample.id', 'step.sample_id')
+      .select([
+        'sample.sample_type as sampleType',
+        'step.step_name as stepName',
+        sql<number>`avg(extract(epoch from (step.completed_at - step.started_at)) / 3600)`.as('averageHours'),
+        sql<number>`count(*)`.as('sampleCount'),
+      ])
+      .where('step.step_status', '=', 'completed')
+      .where('step.started_at', 'is not', null)
+      .where('step.completed_at', 'is not', null)
+      .groupBy(['sample.sample_type', 'step.step_name'])
+      .execute()
+
+    return rows.map(row => ({
+      sampleType: row.sampleType,
+      stepName: row.stepName,
+      averageHours: Number(row.averageHours),
+      sampleCount: Number(row.sampleCount),
+    }))
+  }
+
+  /**
+   * Number of active samples assigned to each person
+   */
+  async getQueueDepthByAssignee(): Promise<Record<string, number>> {
+    const rows = await this.db
+      .selectFrom('nanopore_samples')
+      .select(['assigned_to', sql<number>`count(*)`.as('depth')])
+      .where('status', 'in', ACTIVE_STATUSES)
+      .where('assigned_to', 'is not', null)
+      .groupBy('assigned_to')
+      .execute()
+
+    return Object.fromEntries(rows.map(row => [row.assigned_to as string, Number(row.depth)]))
+  }
+
+  /**
+   * Store a forecast. A risk change is only recorded while the stored risk is still `previousRisk`;
+   * returns whether the risk this call read was replaced, which is false when another run got there first.
+   */
+  async saveForecast(sampleId: string, projectedCompletionAt: Date, risk: SlaRisk, previousRisk: SlaRisk): Promise<boolean> {
+    const riskChanged = risk !== previousRisk
+    const result = await this.db
+      .updateTable('nanopore_samples')
+      .set({
+        projected_completion_at: projectedCompletionAt,
+        ...(riskChanged && { sla_risk: risk, sla_risk_updated_at: new Date() }),
+      })
+      .where('id', '=', sampleId)
+      .$if(riskChanged, query => query.where('sla_risk', '=', previousRisk))
+      .executeTakeFirst()
+
+    return riskChanged && Number(result.numUpdatedRows) > 0
+  }
+}
@@ -0,0 +1,269 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '../lib/database'
+import type { ProcessingStep } from '../services/interfaces/ISampleService'
+import { getComponentLogger } from '../lib/logging/StructuredLogger'
+import { NotFoundError, ValidationError } from '../middleware/errors/ErrorTypes'
+import {
+  DEFAULT_WORKFLOW_STEPS,
+  selectWorkflowTemplate,
+  validateWorkflowSteps,
+  type TemplateSelectionCriteria,
+  type WorkflowStepDefinition,
+  type WorkflowTemplateDefinition
+} from '../lib/workflow/WorkflowTemplates'
+
+const logger = getComponentLogger('WorkflowTemplateRepository')
+
+export interface WorkflowTemplate extends WorkflowTemplateDefinition {
+  description: string | null
+  createdBy: string | null
+  retiredAt: Date | null
+  createdAt: Date
+}
+
+export interface CreateWorkflowTemplateData {
+  templateKey: string
+  name: string
+  description?: string | undefined
+  sampleType?: string | null | undefined
+  libraryPrepKitPattern?: string | null | undefined
+  barcodingRequired?: boolean | null | undefined
+  steps: WorkflowStepDefinition[]
+}
+
+export type CloneWorkflowTemplateData = {
+  [K in keyof CreateWorkflowTemplateData]?: CreateWorkflowTemplateData[K] | undefined
+}
+
+export class WorkflowTemplateRepository {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async findAll(includeRetired = false): Promise<WorkflowTemplate[]> {
+    let query = this.db.selectFrom('workflow_templates').selectAll()
+    if (!includeRetired) {
+      query = query.where('status', '=', 'active')
+    }
+
+    const templates = await query
+      .orderBy('template_key', 'asc')
+      .orderBy('version', 'desc')
+      .execute()
+
+    if (templates.length === 0) {
+      return []
+    }
+
+    const steps = await this.db
+      .selectFrom('workflow_template_steps')
+      .selectAll()
+      .where('template_id', 'in', templates.map(t => t.id))
+      .orderBy('step_order', 'asc')
+      .execute()
+
+    return templates.map(template => this.toTemplate(template, steps.filter(s => s.template_id === template.id)))
+  }
+
+  async findById(id: string): Promise<WorkflowTemplate | null> {
+    const template = await this.db
+      .selectFrom('workflow_templates')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst()
+
+    if (!template) {
+      return null
+    }
+
+    const steps = await this.db
+      .selectFrom('workflow_template_steps')
+      .selectAll()
+      .where('template_id', '=', id)
+      .orderBy('step_order', 'asc')
+      .execute()
+
+    return this.toTemplate(template, steps)
+  }
+
+  /**
+   * Create a template. Reusing an existing key creates the next version of it.
+   */
+  async create(data: CreateWorkflowTemplateData, createdBy: string): Promise<WorkflowTemplate> {
+    validateWorkflowSteps(data.steps)
+
+    const id = await this.db.transaction().execute(async (trx) => {
+      const latest = await trx
+        .selectFrom('workflow_templates')
+        .select((eb) => eb.fn.max('version').as('version'))
+        .where('template_key', '=', data.templateKey)
+        .executeTakeFirst()
+
+      const now = new Date()
+      const template = await trx
+        .insertInto('workflow_templates')
+        .values({
+          id: crypto.randomUUID(),
+          template_key: data.templateKey,
+          version: Number(latest?.version ?? 0) + 1,
+          name: data.name,
+          description: data.description ?? null,
+          sample_type: data.sampleType ?? null,
+          library_prep_kit_pattern: data.libraryPrepKitPattern ?? null,
+          barcoding_required: data.barcodingRequired ?? null,
+          status: 'active',
+          created_by: createdBy,
+          retired_at: null,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      await trx
+        .insertInto('workflow_template_steps')
+        .values(data.steps.map(step => ({
+          id: crypto.randomUUID(),
+          template_id: template.id,
+          step_order: step.stepOrder,
+          step_name: step.stepName,
+          estimated_duration_hours: step.estimatedDurationHours,
+          required_role: step.requiredRole,
+          depends_on: step.dependsOn,
+          created_at: now,
+        })))
+        .execute()
+
+      return template.id
+    })
+
+    logger.info('Workflow template created', {
+      action: 'workflow_template_created',
+      metadata: { templateId: id, templateKey: data.templateKey }
+    })
+
+    return (await this.findById(id))!
+  }
+
+  /**
+   * Copy a template with optional overrides. Keeping the key produces a new version.
+   */
+  async clone(id: string, overrides: CloneWorkflowTemplateData, createdBy: string): Promise<WorkflowTemplate> {
+    const source = await this.findById(id)
+    if (!source) {
+      throw new NotFoundError('Workflow template', id)
+    }
+
+    return await this.create({
+      templateKey: overrides.templateKey ?? source.templateKey,
+      name: overrides.name ?? source.name,
+      description: overrides.description ?? source.description ?? undefined,
+      sampleType: overrides.sampleType !== undefined ? overrides.sampleType : source.sampleType,
+      libraryPrepKitPattern: overrides.libraryPrepKitPattern !== undefined ? overrides.libraryPrepKitPattern : source.libraryPrepKitPattern,
+      barcodingRequired: overrides.barcodingRequired !== undefined ? overrides.barcodingRequired : source.barcodingRequired,
+      steps: overrides.steps ?? source.steps,
+    }, createdBy)
+  }
+
+  /**
+   * Retire a template version so it is no longer selected for new samples.
+   * Samples already created from it keep referencing it.
+   */
+  async retire(id: string): Promise<WorkflowTemplate> {
+    const result = await this.db
+      .updateTable('workflow_templates')
+      .set({ status: 'retired', retired_at: new Date(), updated_at: new Date() })
+      .where('id', '=', id)
+      .where('status', '=', 'active')
+      .executeTakeFirst()
+
+    if (Number(result.numUpdatedRows) === 0) {
+      const existing = await this.findById(id)
+      if (!existing) {
+        throw new NotFoundError('Workflow template', id)
+      }
+      throw new ValidationError(`Workflow template ${existing.templateKey} v${existing.version} is already retired`)
+    }
+
+    logger.info('Workflow template retired', {
+      action: 'workflow_template_retired',
+      metadata: { templateId: id }
+    })
+
+    return (await this.findById(id))!
+  }
+
+  async select(criteria: TemplateSelectionCriteria): Promise<WorkflowTemplate | null> {
+    return selectWorkflowTemplate(await this.findAll(), criteria)
+  }
+
+  /**
+   * Create a sample's processing steps from the best matching template.
+   * Construct the repository over a transaction to create them atomically with the sample.
+   */
+  async instantiateForSample(
+    sampleId: string,
+    criteria: TemplateSelectionCriteria
+  ): Promise<{ templateId: string | null; steps: ProcessingStep[] }> {
+    const template = await this.select(criteria)
+    const stepDefinitions = template?.steps ?? DEFAULT_WORKFLOW_STEPS
+    const now = new Date()
+
+    const steps = await this.db
+      .insertInto('nanopore_processing_steps')
+      .values(stepDefinitions.map(step => ({
+        id: crypto.randomUUID(),
+        sample_id: sampleId,
+        step_name: step.stepName,
+        step_status: 'pending' as const,
+        assigned_to: null,
+        started_at: null,
+        completed_at: null,
+        estimated_duration_hours: step.estimatedDurationHours,
+        notes: null,
+        results_data: null,
+        step_order: step.stepOrder,
+        required_role: step.requiredRole,
+        depends_on: step.dependsOn,
+        created_at: now,
+        updated_at: now,
+      })))
+      .returningAll()
+      .execute()
+
+    if (template) {
+      await this.db
+        .updateTable('nanopore_samples')
+        .set({ workflow_template_id: template.id })
+        .where('id', '=', sampleId)
+        .execute()
+    }
+
+    return { templateId: template?.id ?? null, steps: steps as ProcessingStep[] }
+  }
+
+  private toTemplate(
+    row: Database['workflow_templates'],
+    steps: Array<Database['workflow_template_steps']>
+  ): WorkflowTemplate {
+    return {
+      id: row.id,
+      templateKey: row.template_key,
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      sampleType: row.sample_type,
+      libraryPrepKitPattern: row.library_prep_kit_pattern,
+      barcodingRequired: row.barcoding_required,
+      status: row.status,
+      createdBy: row.created_by,
+      retiredAt: row.retired_at,
+      createdAt: row.created_at,
+      steps: steps.map(step => ({
+        stepOrder: step.step_order,
+        stepName: step.step_name,
+        estimatedDurationHours: step.estimated_duration_hours,
+        requiredRole: step.required_role,
+        dependsOn: step.depends_on ?? [],
+      })),
+    }
+  }
+}
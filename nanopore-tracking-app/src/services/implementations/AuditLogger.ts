@@ -1,8 +1,16 @@
 import type { IAuditLogger, AuditEvent } from '../interfaces/IAuditLogger'
+import type { AuditRepository, AuditLog } from '../../repositories/AuditRepository'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 export class AuditLogger implements IAuditLogger {
+  private readonly logger = getComponentLogger('AuditLogger')
+
+  // Without a repository events only go to the console
+  constructor(private readonly repository?: AuditRepository) {}
+
   async log(event: AuditEvent): Promise<void> {
-    // For now, log to console. In production, this would go to a database
     console.log(`[AUDIT] ${event.timestamp.toISOString()} - ${event.type}:`, {
       userId: event.userId,
       resourceType: event.resourceType,
@@ -12,6 +20,28 @@ export class AuditLogger implements IAuditLogger {
       ipAddress: event.ipAddress,
       userAgent: event.userAgent,
     })
+
+    if (!this.repository) return
+
+    try {
+      // audit_logs.user_id is a UUID; staff names and emails are kept in the details instead
+      const isUuid = UUID_PATTERN.test(event.userId)
+      await this.repository.createAuditLog({
+        ...event,
+        userId: isUuid ? event.userId : '',
+        details: isUuid ? event.details : { ...event.details, actor: event.userId },
+      })
+    } catch (error) {
+      // Auditing must never fail the change being audited
+      this.logger.warn('Failed to persist audit event', {
+        action: 'audit_persist_failed',
+        metadata: {
+          eventType: event.type,
+          resourceId: event.resourceId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      })
+    }
   }
 
   async logSampleCreated(sampleId: string, userId: string, details: Record<string, any>): Promise<void> {
@@ -75,8 +105,24 @@ export class AuditLogger implements IAuditLogger {
   }
 
   async getAuditTrail(resourceType: string, resourceId: string): Promise<AuditEvent[]> {
-    // For now, return empty array. In production, this would query the database
-    console.log(`[AUDIT] Getting audit trail for ${resourceType}:${resourceId}`)
-    return []
+    if (!this.repository) return []
+
+    const logs = await this.repository.getAuditTrail(resourceType, resourceId)
+    return logs.map(log => this.toEvent(log))
+  }
+
+  private toEvent(log: AuditLog): AuditEvent {
+    const { actor, ...details } = log.details ?? {}
+    return {
+      type: log.event_type,
+      userId: log.user_id ?? (typeof actor === 'string' ? actor : ''),
+      resourceType: log.resource_type,
+      resourceId: log.resource_id,
+      action: log.action,
+      details,
+      ...(log.ip_address && { ipAddress: log.ip_address }),
+      ...(log.user_agent && { userAgent: log.user_agent }),
+      timestamp: new Date(log.timestamp),
+    }
   }
 } 
\ No newline at end of file
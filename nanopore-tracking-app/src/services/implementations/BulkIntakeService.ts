@@ -0,0 +1,183 @@
+import type { LegacyQueryRunner } from './RunReportImportService'
+import type { IAuditLogger } from '../interfaces/IAuditLogger'
+import { createCompleteSample } from '../../lib/api/nanopore/setters'
+import { readSpreadsheet } from '../../lib/intake/SpreadsheetReader'
+import {
+  INTAKE_FIELDS,
+  INTAKE_FIELD_NAMES,
+  analyzeIntakeSheet,
+  buildIntakeErrorReport,
+  type ColumnMapping,
+  type IntakeAnalysis,
+  type IntakeField,
+  type IntakeSampleData
+} from '../../lib/intake/BulkIntake'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { cacheManager } from '../../lib/cache/CacheManager'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+// Submissions are usually 20-200 samples; anything far beyond that is likely the wrong file
+export const MAX_INTAKE_ROWS = 500
+
+// Demo user UUID from migration, as used for single-sample intake
+const INTAKE_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+export interface IntakePreview {
+  fileName: string
+  headers: string[]
+  mapping: ColumnMapping
+  fields: Array<{ field: IntakeField; label: string; required: boolean }>
+  unmappedRequired: IntakeField[]
+  rows: Array<{ rowNumber: number; values: Partial<Record<IntakeField, string>>; valid: boolean; errors: string[] }>
+  validCount: number
+  invalidCount: number
+  errorReport: string | null
+}
+
+export interface IntakeCommitResult {
+  created: Array<{ rowNumber: number; sampleId: string; sampleName: string }>
+  rejected: Array<{ rowNumber: number; errors: string[] }>
+  errorReport: string | null
+  errorReportFilename: string
+}
+
+export class BulkIntakeService {
+  private readonly logger = getComponentLogger('BulkIntakeService')
+
+  constructor(
+    private readonly runQuery: LegacyQueryRunner,
+    private readonly auditLogger: IAuditLogger
+  ) {}
+
+  /**
+   * Map and validate a spreadsheet without creating anything
+   */
+  preview(fileName: string, content: Buffer, mapping?: ColumnMapping): IntakePreview {
+    const analysis = this.analyze(fileName, content, mapping)
+    const rejected = analysis.rows.filter(row => !row.data)
+
+    return {
+      fileName,
+      headers: analysis.headers,
+      mapping: analysis.mapping,
+      fields: INTAKE_FIELD_NAMES.map(field => ({
+        field,
+        label: INTAKE_FIELDS[field].label,
+        required: INTAKE_FIELDS[field].required
+      })),
+      unmappedRequired: analysis.unmappedRequired,
+      rows: analysis.rows.map(row => ({
+        rowNumber: row.rowNumber,
+        values: Object.fromEntries(
+          Object.entries(analysis.mapping).map(([field, column]) => [field, row.cells[column] ?? ''])
+        ),
+        valid: row.data !== null,
+        errors: row.errors
+      })),
+      validCount: analysis.rows.length - rejected.length,
+      invalidCount: rejected.length,
+      errorReport: rejected.length > 0 ? buildIntakeErrorReport(analysis.headers, rejected) : null
+    }
+  }
+
+  /**
+   * Create every valid row in one transaction. Rejected rows are returned with an error report;
+   * if any insert fails, none of the rows are created.
+   */
+  async commit(fileName: string, content: Buffer, mapping?: ColumnMapping): Promise<IntakeCommitResult> {
+    const analysis = this.analyze(fileName, content, mapping)
+    const valid = analysis.rows.filter((row): row is typeof row & { data: IntakeSampleData } => row.data !== null)
+    const rejected = analysis.rows.filter(row => !row.data)
+
+    if (valid.length === 0) {
+      throw new ValidationError('No valid rows to import', 'file')
+    }
+
+    const created = await this.runQuery(db => db.transaction().execute(async trx => {
+      const results: IntakeCommitResult['created'] = []
+      for (const row of valid) {
+        const { sample } = await createCompleteSample(trx, this.toSampleInsert(row.data), {
+          sample_id: '', // set to the new sample's id by createCompleteSample
+          special_instructions: row.data.specialInstructions ?? null
+        })
+        results.push({ rowNumber: row.rowNumber, sampleId: sample.id, sampleName: sample.sample_name })
+      }
+      return results
+    }))
+
+    this.logger.info('Bulk intake created samples', {
+      action: 'bulk_intake',
+      metadata: { fileName, created: created.length, rejected: rejected.length }
+    })
+
+    for (const sample of created) {
+      await this.auditLogger.logSampleCreated(sample.sampleId, INTAKE_USER_ID, {
+        sampleName: sample.sampleName,
+        source: 'bulk_intake',
+        fileName,
+        rowNumber: sample.rowNumber
+      })
+    }
+
+    try {
+      await cacheManager.clear('samples:*')
+    } catch (error) {
+      this.logger.warn('Failed to invalidate sample cache after bulk intake', {
+        action: 'cache_invalidation_failed',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' }
+      })
+    }
+
+    return {
+      created,
+      rejected: rejected.map(row => ({ rowNumber: row.rowNumber, errors: row.errors })),
+      errorReport: rejected.length > 0 ? buildIntakeErrorReport(analysis.headers, rejected) : null,
+      errorReportFilename: `${fileName.replace(/\.[^.]+$/, '')}-rejected-rows.csv`
+    }
+  }
+
+  private analyze(fileName: string, content: Buffer, mapping?: ColumnMapping): IntakeAnalysis {
+    // The header row comes on top of the sample rows
+    const analysis = analyzeIntakeSheet(readSpreadsheet(fileName, content, { maxRows: MAX_INTAKE_ROWS + 1 }), mapping)
+
+    if (analysis.headers.length === 0) {
+      throw new ValidationError('Spreadsheet is empty', 'file')
+    }
+    if (analysis.rows.length > MAX_INTAKE_ROWS) {
+      throw new ValidationError(
+        `Spreadsheet has ${analysis.rows.length} rows; split it into files of at most ${MAX_INTAKE_ROWS}`,
+        'file'
+      )
+    }
+    const outOfRange = Object.entries(analysis.mapping).find(([, column]) => column >= analysis.headers.length)
+    if (outOfRange) {
+      throw new ValidationError(`Column ${outOfRange[1] + 1} mapped to ${outOfRange[0]} does not exist`, 'mapping')
+    }
+
+    return analysis
+  }
+
+  private toSampleInsert(data: IntakeSampleData) {
+    return {
+      sample_name: data.sampleName,
+      project_id: data.projectId || null,
+      submitter_name: data.submitterName,
+      submitter_email: data.submitterEmail,
+      lab_name: data.labName || null,
+      sample_type: data.sampleType,
+      sample_buffer: data.sampleBuffer || null,
+      concentration: data.concentration ?? null,
+      volume: data.volume ?? null,
+      total_amount: data.totalAmount ?? null,
+      flow_cell_type: data.flowCellType || null,
+      flow_cell_count: data.flowCellCount,
+      status: 'submitted' as const,
+      priority: data.priority,
+      assigned_to: data.assignedTo || null,
+      library_prep_by: data.libraryPrepBy || null,
+      chart_field: data.chartField,
+      created_by: INTAKE_USER_ID,
+      workflow_template_id: null
+    }
+  }
+}
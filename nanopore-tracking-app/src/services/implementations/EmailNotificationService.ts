@@ -0,0 +1,319 @@
+import type { EmailNotificationRepository, OutboxSummary } from '../../repositories/EmailNotificationRepository'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { BaseEvent, EventBus } from '../../lib/messaging/event-bus'
+import type { EmailTransport } from '../../lib/notifications/SmtpTransport'
+import { SampleEventType } from '../../lib/messaging/events/sample-events'
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_MILESTONES,
+  MAX_SEND_ATTEMPTS,
+  PORTAL_LINK_TEMPLATE_KEY,
+  SUBMITTER_MILESTONES,
+  isDigestDue,
+  milestoneForEvent,
+  renderDigest,
+  renderPortalLinkEmail,
+  renderTemplate,
+  retryDelayMs,
+  withUnsubscribeFooter,
+  type EmailMilestone,
+  type EmailTemplate,
+  type MilestoneMatch,
+  type TemplateVariables
+} from '../../lib/notifications/EmailNotifications'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface EmailNotificationOptions {
+  appUrl: string
+  // Lowercased staff name to address, for notifying assigned staff
+  staffEmails: Map<string, string>
+  digestIntervalHours: number
+}
+
+export interface EmailTemplateSummary extends EmailTemplate {
+  templateKey: EmailMilestone
+  label: string
+  customized: boolean
+  updatedBy: string | null
+  updatedAt: Date | null
+}
+
+type SampleEventLike = BaseEvent & { data: Record<string, any> }
+
+const NOTIFIED_EVENTS = [
+  SampleEventType.SAMPLE_CREATED,
+  SampleEventType.SAMPLE_STATUS_CHANGED,
+  SampleEventType.SAMPLE_ASSIGNED,
+  SampleEventType.SAMPLE_PROCESSING_COMPLETED,
+  SampleEventType.SAMPLE_PROCESSING_FAILED,
+]
+
+export class EmailNotificationService {
+  private readonly logger = getComponentLogger('EmailNotificationService')
+  private subscribed = false
+
+  constructor(
+    private readonly repository: EmailNotificationRepository,
+    private readonly sampleRepository: ISampleRepository,
+    // Null when email is disabled; messages are still queued so enabling it later sends them
+    private readonly transport: EmailTransport | null,
+    private readonly eventBus: EventBus,
+    private readonly options: EmailNotificationOptions
+  ) {}
+
+  /**
+   * Subscribe to sample events on the bus
+   */
+  start(): void {
+    if (this.subscribed) return
+    this.subscribed = true
+
+    // The bus can hand the same event over more than once; the outbox's event key makes that harmless
+    for (const eventType of NOTIFIED_EVENTS) {
+      this.eventBus.subscribe<SampleEventLike>(eventType, async (event) => {
+        try {
+          await this.handleEvent(event)
+        } catch (error) {
+          this.logger.error('Failed to queue notification emails', {
+            action: 'notification_emails_queue_failed',
+            metadata: {
+              eventType: event.type,
+              eventId: event.id,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            }
+          })
+        }
+      })
+    }
+  }
+
+  /**
+   * Queue the milestone email an event announces for each recipient who has not opted out
+   */
+  async handleEvent(event: SampleEventLike): Promise<number> {
+    const match = milestoneForEvent(event)
+    if (!match) return 0
+
+    const sample = await this.sampleRepository.findById(match.sampleId)
+    if (!sample) return 0
+
+    const template = await this.getTemplate(match.milestone)
+    const variables: TemplateVariables = {
+      sampleName: sample.sample_name,
+      sampleId: sample.id,
+      submitterName: sample.submitter_name,
+      projectId: sample.project_id,
+      status: sample.status,
+      assignedTo: match.assignedTo ?? sample.assigned_to,
+      notes: match.notes,
+      appUrl: this.options.appUrl,
+    }
+
+    let queued = 0
+    for (const recipient of this.recipientsFor(match, sample)) {
+      const preference = await this.repository.getPreference(recipient)
+      if (preference.opted_out) continue
+
+      const rendered = renderTemplate(template, variables)
+      const inserted = await this.repository.enqueue({
+        recipient: preference.email,
+        templateKey: match.milestone,
+        subject: rendered.subject,
+        body: rendered.body,
+        sampleId: sample.id,
+        eventId: event.id,
+        digest: preference.digest,
+      })
+      if (inserted) queued++
+    }
+
+    if (queued > 0) {
+      this.logger.info('Notification emails queued', {
+        action: 'notification_emails_queued',
+        sampleId: sample.id,
+        metadata: { milestone: match.milestone, eventId: event.id, queued }
+      })
+    }
+    return queued
+  }
+
+  /**
+   * Queue a submitter portal sign-in link; it goes out with the next dispatch
+   */
+  async sendPortalLink(email: string, url: string, ttlMinutes: number): Promise<void> {
+    const message = renderPortalLinkEmail(url, ttlMinutes)
+    await this.repository.enqueue({
+      recipient: email.trim().toLowerCase(),
+      templateKey: PORTAL_LINK_TEMPLATE_KEY,
+      subject: message.subject,
+      body: message.body,
+      sampleId: null,
+      eventId: null,
+      digest: false,
+    })
+  }
+
+  /**
+   * Send due outbox messages, rescheduling failures with backoff
+   */
+  async dispatchDue(limit = 20): Promise<{ sent: number; failed: number }> {
+    if (!this.transport) return { sent: 0, failed: 0 }
+
+    let sent = 0
+    let failed = 0
+    for (const message of await this.repository.claimDue(limit)) {
+      try {
+        // Preferences are checked again at send time; the footer link is added here so digests carry one
+        const preference = await this.repository.getPreference(message.recipient)
+        if (preference.opted_out && message.template_key !== PORTAL_LINK_TEMPLATE_KEY) {
+          await this.repository.markFailed(message.id, 'Recipient opted out', null)
+          continue
+        }
+
+        await this.transport.send({
+          to: message.recipient,
+          subject: message.subject,
+          text: withUnsubscribeFooter(message.body, this.unsubscribeUrl(preference.unsubscribe_token)),
+        })
+        await this.repository.markSent(message.id)
+        sent++
+      } catch (error) {
+        failed++
+        const retryAt = message.attempts < MAX_SEND_ATTEMPTS
+          ? new Date(Date.now() + retryDelayMs(message.attempts))
+          : null
+        await this.repository.markFailed(message.id, error instanceof Error ? error.message : 'Unknown error', retryAt)
+
+        this.logger.warn('Notification email send failed', {
+          action: 'notification_email_failed',
+          metadata: {
+            outboxId: message.id,
+            attempts: message.attempts,
+            willRetry: retryAt !== null,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }
+        })
+      }
+    }
+    return { sent, failed }
+  }
+
+  /**
+   * Fold held messages into one digest per recipient once their oldest has waited long enough
+   */
+  async flushDigests(now = new Date()): Promise<number> {
+    let digests = 0
+    for (const [recipient, items] of await this.repository.findDigestQueue()) {
+      if (!isDigestDue(items[0]!.created_at, now, this.options.digestIntervalHours)) continue
+
+      const digest = renderDigest(items.map(item => ({
+        subject: item.subject,
+        body: item.body,
+        createdAt: item.created_at,
+      })))
+
+      await this.repository.queueDigest(recipient, items.map(item => item.id), digest)
+      digests++
+    }
+    return digests
+  }
+
+  async listTemplates(): Promise<EmailTemplateSummary[]> {
+    const stored = new Map((await this.repository.findTemplates()).map(template => [template.templateKey, template]))
+    return EMAIL_MILESTONES.map(templateKey => {
+      const custom = stored.get(templateKey)
+      const defaults = DEFAULT_EMAIL_TEMPLATES[templateKey]
+      return {
+        templateKey,
+        label: defaults.label,
+        subject: custom?.subject ?? defaults.subject,
+        body: custom?.body ?? defaults.body,
+        customized: custom !== undefined,
+        updatedBy: custom?.updatedBy ?? null,
+        updatedAt: custom?.updatedAt ?? null,
+      }
+    })
+  }
+
+  async updateTemplate(templateKey: EmailMilestone, template: EmailTemplate, updatedBy: string): Promise<void> {
+    await this.repository.saveTemplate(templateKey, template, updatedBy)
+    this.logger.info('Email template updated', {
+      action: 'email_template_updated',
+      metadata: { templateKey, updatedBy }
+    })
+  }
+
+  async resetTemplate(templateKey: EmailMilestone): Promise<void> {
+    await this.repository.deleteTemplate(templateKey)
+  }
+
+  /**
+   * Render a template against an existing sample, or placeholder values without one
+   */
+  async previewTemplate(template: EmailTemplate, sampleId?: string): Promise<EmailTemplate> {
+    const sample = sampleId ? await this.sampleRepository.findById(sampleId) : null
+    return renderTemplate(template, {
+      sampleName: sample?.sample_name ?? 'NANO-0001',
+      sampleId: sample?.id ?? '00000000-0000-0000-0000-000000000000',
+      submitterName: sample?.submitter_name ?? 'Jane Submitter',
+      projectId: sample?.project_id ?? 'HTSF-1234',
+      status: sample?.status ?? 'prep',
+      assignedTo: sample?.assigned_to ?? 'Grey',
+      notes: 'Notes recorded with the milestone appear here.',
+      appUrl: this.options.appUrl,
+    })
+  }
+
+  async getPreference(email: string) {
+    return await this.repository.getPreference(email)
+  }
+
+  async setPreference(email: string, changes: { optedOut?: boolean | undefined; digest?: boolean | undefined }) {
+    return await this.repository.updatePreference(email, changes)
+  }
+
+  async unsubscribe(token: string): Promise<string> {
+    const preference = await this.repository.optOutByToken(token)
+    if (!preference) {
+      throw new ValidationError('This unsubscribe link is not valid', 'token')
+    }
+
+    this.logger.info('Recipient unsubscribed from notification emails', {
+      action: 'notification_email_unsubscribed',
+      metadata: { email: preference.email }
+    })
+    return preference.email
+  }
+
+  async outbox(): Promise<OutboxSummary> {
+    return await this.repository.summarize()
+  }
+
+  async retry(id: string): Promise<void> {
+    await this.repository.retry(id)
+  }
+
+  private async getTemplate(milestone: EmailMilestone): Promise<EmailTemplate> {
+    const stored = (await this.repository.findTemplates()).find(template => template.templateKey === milestone)
+    return stored ?? DEFAULT_EMAIL_TEMPLATES[milestone]
+  }
+
+  private recipientsFor(match: MilestoneMatch, sample: { submitter_email: string; assigned_to: string | null }): string[] {
+    const recipients = new Set<string>()
+    if (SUBMITTER_MILESTONES.has(match.milestone) && sample.submitter_email) {
+      recipients.add(sample.submitter_email.toLowerCase())
+    }
+
+    const assignee = match.assignedTo ?? sample.assigned_to
+    const staffEmail = assignee ? this.options.staffEmails.get(assignee.toLowerCase()) : undefined
+    if (staffEmail) {
+      recipients.add(staffEmail.toLowerCase())
+    }
+    return [...recipients]
+  }
+
+  private unsubscribeUrl(token: string): string {
+    return `${this.options.appUrl.replace(/\/$/, '')}/api/email-unsubscribe?token=${token}`
+  }
+}
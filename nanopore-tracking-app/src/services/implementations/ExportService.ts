@@ -0,0 +1,87 @@
+import type { ExportRepository } from '../../repositories/ExportRepository'
+import type { ExportPresetRepository, ExportPreset, SaveExportPresetData } from '../../repositories/ExportPresetRepository'
+import { NotFoundError } from '../../middleware/errors/ErrorTypes'
+import {
+  EXPORT_FORMAT_INFO,
+  columnsNeedDetails,
+  columnsNeedSteps,
+  exportFilename,
+  exportFiltersSchema,
+  exportRequestSchema,
+  resolveExportColumns,
+  serializeExport,
+  type ExportFilters,
+  type ExportRequest
+} from '../../lib/export/ExportEngine'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface PreparedExport {
+  filename: string
+  mimeType: string
+  chunks: AsyncGenerator<string | Uint8Array>
+}
+
+export class ExportService {
+  private readonly logger = getComponentLogger('ExportService')
+
+  constructor(
+    private readonly exportRepository: ExportRepository,
+    private readonly presetRepository: ExportPresetRepository
+  ) {}
+
+  /**
+   * Validate an export request and return a lazily-evaluated stream of file chunks.
+   * Column and filter errors surface here, before any bytes are sent.
+   */
+  prepareExport(request: ExportRequest, name?: string): PreparedExport {
+    const columns = resolveExportColumns(request.columns)
+    const rows = this.exportRepository.streamRows(request.filters, {
+      includeDetails: columnsNeedDetails(columns),
+      includeSteps: columnsNeedSteps(columns),
+    })
+
+    this.logger.info('Sample export started', {
+      action: 'export_started',
+      metadata: { format: request.format, columnCount: columns.length, filters: request.filters, preset: name }
+    })
+
+    return {
+      filename: exportFilename(request.format, name),
+      mimeType: EXPORT_FORMAT_INFO[request.format].mimeType,
+      chunks: serializeExport(request.format, columns, rows),
+    }
+  }
+
+  async prepareExportFromPreset(presetId: string): Promise<PreparedExport> {
+    const preset = await this.presetRepository.findById(presetId)
+    if (!preset) {
+      throw new NotFoundError('Export preset', presetId)
+    }
+
+    return this.prepareExport(exportRequestSchema.parse({
+      columns: preset.columns,
+      filters: preset.filters,
+      format: preset.format,
+    }), preset.name)
+  }
+
+  async countMatching(filters: ExportFilters): Promise<number> {
+    return await this.exportRepository.count(exportFiltersSchema.parse(filters))
+  }
+
+  async listPresets(): Promise<ExportPreset[]> {
+    return await this.presetRepository.findAll()
+  }
+
+  async savePreset(data: SaveExportPresetData): Promise<ExportPreset> {
+    // Reject unknown columns at save time rather than when the preset is run
+    resolveExportColumns(data.columns)
+    return await this.presetRepository.save(data)
+  }
+
+  async deletePreset(id: string): Promise<void> {
+    if (!await this.presetRepository.delete(id)) {
+      throw new NotFoundError('Export preset', id)
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import type {
+  ExtractionReview,
+  ExtractionReviewDetail,
+  ExtractionReviewField,
+  ExtractionReviewRepository,
+  ExtractionReviewStatus,
+  ExtractionReviewSummary
+} from '../../repositories/ExtractionReviewRepository'
+import type { ISampleService } from '../interfaces/ISampleService'
+import type { AccessUser } from '../../lib/auth/SampleAccess'
+import {
+  REQUIRED_REVIEW_FIELDS,
+  REVIEW_FIELD_LABELS,
+  correctionExamples,
+  reviewedValues,
+  scoreExtractedFields,
+  type ReviewDecision
+} from '../../lib/ai/extraction-review'
+import type { TemplateFormField } from '../../lib/ai/form-template-registry'
+import type { PdfPageLayout } from '../../lib/ai/pdf-text-layout'
+import { nanoporeFormService } from '../../lib/ai/nanopore-llm-service'
+import { pdfTextService } from '../../lib/ai/pdf-text-extraction'
+import { formDefaultsFromPdf } from '../../lib/portal/SubmitterPortal'
+import { aiEventPublisher } from '../messaging/AIEventPublisher'
+import { NotFoundError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+// Same limit as sample attachments
+const MAX_FORM_BYTES = 10 * 1024 * 1024
+// Corrections loaded for each extraction; the prompt keeps a few per field
+const EXAMPLES_LOADED = 50
+
+export interface ExtractionReviewOptions {
+  // Forms are kept here and attached to the sample once it is created
+  uploadDir: string
+  // Fields extracted below this confidence wait for a reviewer
+  confidenceThreshold: number
+}
+
+export type ExtractionReviewView = Omit<ExtractionReviewDetail, 'filePath'>
+
+/**
+ * Holds PDF submission forms for review before their sample is created.
+ * Confident fields are accepted on arrival; the rest wait for a reviewer to accept, edit or reject them.
+ * Edits and rejections are kept as examples for the LLM on later extractions.
+ */
+export class ExtractionReviewService {
+  private readonly logger = getComponentLogger('ExtractionReviewService')
+
+  constructor(
+    private readonly repository: ExtractionReviewRepository,
+    private readonly sampleService: ISampleService,
+    private readonly options: ExtractionReviewOptions
+  ) {}
+
+  /**
+   * Extract a submission form and queue it for review
+   */
+  async submit(fileName: string, content: Buffer, user: AccessUser): Promise<ExtractionReviewView> {
+    if (content.length > MAX_FORM_BYTES) {
+      throw new ValidationError(`Submission forms are limited to ${MAX_FORM_BYTES / 1024 / 1024}MB`, 'file')
+    }
+    if (content.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new ValidationError('Only PDF submission forms can be reviewed', 'file')
+    }
+
+    const examples = await this.repository.findRecentExamples(EXAMPLES_LOADED)
+    const extraction = await nanoporeFormService.extractFormData(
+      new File([new Uint8Array(content)], fileName, { type: 'application/pdf' }),
+      { examples }
+    )
+    if (!extraction.success || !extraction.data) {
+      throw new ValidationError(extraction.error || 'Could not read this PDF', 'file')
+    }
+    const data = extraction.data
+
+    const pages = await pdfTextService.extractLayout(content)
+    const fields = scoreExtractedFields(data, pages).map(field => ({
+      ...field,
+      decision: field.value !== null && field.confidence >= this.options.confidenceThreshold ? 'accepted' as const : 'pending' as const,
+    }))
+
+    const directory = path.join(this.options.uploadDir, 'reviews')
+    const filePath = path.join(directory, `${crypto.randomUUID()}.pdf`)
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(filePath, content)
+
+    let review: ExtractionReviewDetail
+    try {
+      review = await this.repository.create({
+        fileName,
+        filePath,
+        pageCount: Math.max(pages.length, 1),
+        extractionMethod: data.extractionMethod,
+        confidence: Math.round(data.confidence * 1000) / 1000,
+        formTemplateId: data.formTemplate?.id ?? null,
+        issues: data.issues ?? [],
+        submittedBy: user.name || user.email,
+        fields,
+      })
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => undefined)
+      throw error
+    }
+
+    const uncertain = fields.filter(field => field.decision === 'pending')
+    this.logger.info('Extraction queued for review', {
+      action: 'extraction_review_created',
+      metadata: { reviewId: review.id, fileName, method: data.extractionMethod, uncertainFields: uncertain.length }
+    })
+
+    if (uncertain.length > 0) {
+      await aiEventPublisher.publishExtractionConfidenceLow(
+        review.id,
+        undefined,
+        fileName,
+        Math.min(...uncertain.map(field => field.confidence)),
+        this.options.confidenceThreshold,
+        data.extractionMethod as 'template' | 'llm' | 'pattern' | 'hybrid' | 'rag',
+        uncertain.map(field => `${REVIEW_FIELD_LABELS[field.fieldName]} ${field.value === null ? 'not found' : 'uncertain'}`),
+        user.id
+      ).catch(error => {
+        this.logger.warn('Failed to announce extraction review', {
+          action: 'extraction_review_event_failed',
+          metadata: { reviewId: review.id, error: error instanceof Error ? error.message : 'Unknown error' }
+        })
+      })
+    }
+
+    return this.withoutPath(review)
+  }
+
+  async list(status: ExtractionReviewStatus = 'pending', limit = 50): Promise<ExtractionReviewSummary[]> {
+    return await this.repository.findByStatus(status, limit)
+  }
+
+  async get(id: string): Promise<ExtractionReviewView> {
+    return this.withoutPath(await this.find(id))
+  }
+
+  /**
+   * Text positions of one page of the form, for showing a field where it was read from
+   */
+  async pageLayout(id: string, pageNumber: number): Promise<PdfPageLayout> {
+    const review = await this.find(id)
+    const pages = await pdfTextService.extractLayout(await fs.readFile(review.filePath))
+    const page = pages.find(candidate => candidate.pageNumber === pageNumber)
+    if (!page) {
+      throw new NotFoundError('Page', String(pageNumber))
+    }
+    return page
+  }
+
+  async readDocument(id: string): Promise<{ fileName: string; content: Buffer }> {
+    const review = await this.find(id)
+    return { fileName: review.fileName, content: await fs.readFile(review.filePath) }
+  }
+
+  async decideField(
+    id: string,
+    fieldName: string,
+    decision: Exclude<ReviewDecision, 'pending'>,
+    value: string | undefined,
+    user: AccessUser
+  ): Promise<ExtractionReviewField> {
+    const review = await this.find(id)
+    const field = review.fields.find(candidate => candidate.fieldName === fieldName)
+    if (!field) {
+      throw new NotFoundError('Extraction review field', fieldName)
+    }
+
+    const label = REVIEW_FIELD_LABELS[fieldName as TemplateFormField] ?? fieldName
+    if (decision === 'edited' && !value?.trim()) {
+      throw new ValidationError(`Enter a value for ${label}`, fieldName)
+    }
+    if (decision === 'accepted' && field.extractedValue === null) {
+      throw new ValidationError(`${label} was not found on the form; enter it instead`, fieldName)
+    }
+    if (decision === 'rejected' && REQUIRED_REVIEW_FIELDS.includes(fieldName as TemplateFormField)) {
+      throw new ValidationError(`${label} is needed to create the sample; correct it instead`, fieldName)
+    }
+
+    return await this.repository.decideField(
+      id,
+      fieldName,
+      decision,
+      decision === 'edited' ? value!.trim() : null,
+      user.name || user.email
+    )
+  }
+
+  /**
+   * Create the sample from the reviewed values, attach the form to it and keep the corrections
+   */
+  async approve(id: string, chartField: string, user: AccessUser): Promise<{ review: ExtractionReview; sampleId: string }> {
+    const review = await this.find(id)
+    if (review.status !== 'pending') {
+      throw new ValidationError(`This review has already been ${review.status}`)
+    }
+
+    const undecided = review.fields.filter(field => field.decision === 'pending')
+    if (undecided.length > 0) {
+      throw new ValidationError(`Review ${undecided.map(field => REVIEW_FIELD_LABELS[field.fieldName as TemplateFormField] ?? field.fieldName).join(', ')} first`)
+    }
+
+    const values = formDefaultsFromPdf({
+      ...reviewedValues(review.fields),
+      extractionMethod: review.extractionMethod,
+      confidence: review.confidence,
+    })
+    if (!values.sampleName || !values.submitterName || !values.submitterEmail) {
+      throw new ValidationError('Sample name, submitter name and submitter email are needed to create the sample')
+    }
+    if (!values.sampleType) {
+      throw new ValidationError('The form does not say whether this is a DNA or RNA sample; edit the sample type', 'sampleType')
+    }
+
+    const sample = await this.sampleService.createSample({
+      sampleName: values.sampleName,
+      projectId: values.projectId,
+      submitterName: values.submitterName,
+      submitterEmail: values.submitterEmail,
+      labName: values.labName,
+      sampleType: values.sampleType,
+      concentration: values.concentration ? parseFloat(values.concentration) : undefined,
+      volume: values.volume ? parseFloat(values.volume) : undefined,
+      flowCellType: values.flowCellType,
+      priority: values.priority,
+      chartField,
+    })
+
+    const examples = correctionExamples(review.fields)
+    const { size } = await fs.stat(review.filePath)
+    const completed = await this.repository.complete(id, {
+      status: 'approved',
+      reviewedBy: user.name || user.email,
+      sampleId: sample.id,
+      attachment: { fileName: review.fileName, filePath: review.filePath, fileSizeBytes: size },
+      examples,
+    })
+
+    this.logger.info('Extraction review approved', {
+      action: 'extraction_review_approved',
+      sampleId: sample.id,
+      metadata: { reviewId: id, corrections: examples.length, reviewer: user.name || user.email }
+    })
+
+    return { review: completed, sampleId: sample.id }
+  }
+
+  /**
+   * Close a review without creating a sample, e.g. for a form that is not a submission
+   */
+  async reject(id: string, user: AccessUser): Promise<ExtractionReview> {
+    const review = await this.repository.complete(id, {
+      status: 'rejected',
+      reviewedBy: user.name || user.email,
+      examples: [],
+    })
+
+    this.logger.info('Extraction review rejected', {
+      action: 'extraction_review_rejected',
+      metadata: { reviewId: id, reviewer: user.name || user.email }
+    })
+
+    return review
+  }
+
+  private async find(id: string): Promise<ExtractionReviewDetail> {
+    const review = await this.repository.findById(id)
+    if (!review) {
+      throw new NotFoundError('Extraction review', id)
+    }
+    return review
+  }
+
+  private withoutPath({ filePath: _filePath, ...review }: ExtractionReviewDetail): ExtractionReviewView {
+    return review
+  }
+}
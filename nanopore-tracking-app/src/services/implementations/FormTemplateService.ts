@@ -0,0 +1,140 @@
+import type { FormTemplateRepository, StoredFormTemplate } from '../../repositories/FormTemplateRepository'
+import { BUILTIN_FORM_TEMPLATES } from '../../lib/ai/builtin-form-templates'
+import {
+  draftTemplateFromText,
+  extractWithTemplate,
+  formTemplateRegistry,
+  type FormDocument,
+  type FormTemplate,
+  type FormTemplateDefinition,
+  type TemplateExtraction
+} from '../../lib/ai/form-template-registry'
+import { pdfTextService } from '../../lib/ai/pdf-text-extraction'
+import { ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface FormTemplateSummary extends FormTemplate {
+  status: 'active' | 'retired'
+  createdBy: string | null
+  createdAt: Date | null
+}
+
+export interface FormTemplateDraft {
+  fileName: string
+  pageCount: number
+  definition: FormTemplateDefinition
+  // Values the draft reads from the sample PDF, so the admin can check the field layout
+  preview: TemplateExtraction
+  // Existing template that already recognises this PDF, if any
+  matchedTemplate: { id: string; name: string; version: number; score: number } | null
+}
+
+export class FormTemplateService {
+  private readonly logger = getComponentLogger('FormTemplateService')
+
+  constructor(private readonly repository: FormTemplateRepository) {}
+
+  /**
+   * Builtin templates followed by registered ones, retired versions included
+   */
+  async list(): Promise<FormTemplateSummary[]> {
+    const stored = await this.repository.findAll(true)
+    this.syncRegistry(stored)
+
+    return [
+      ...BUILTIN_FORM_TEMPLATES.map(template => ({
+        ...template,
+        status: 'active' as const,
+        createdBy: null,
+        createdAt: null,
+      })),
+      ...stored.map(({ retiredAt: _retiredAt, ...template }) => template),
+    ]
+  }
+
+  /**
+   * Load active registered templates into the process-wide registry
+   */
+  async loadRegistered(): Promise<void> {
+    this.syncRegistry(await this.repository.findAll())
+  }
+
+  /**
+   * Propose a template from a blank or filled sample of a new form
+   */
+  async draftFromPdf(fileName: string, content: Buffer): Promise<FormTemplateDraft> {
+    const document = await this.readPdf(fileName, content)
+    const definition = draftTemplateFromText(document)
+
+    if (definition.fingerprint.fieldLabels.length === 0) {
+      throw new ValidationError('No form field labels were found in this PDF', 'file')
+    }
+
+    const detection = formTemplateRegistry.detect(document)
+    return {
+      fileName,
+      pageCount: document.pageCount ?? 1,
+      definition,
+      preview: definition.fields.length > 0
+        ? extractWithTemplate(this.asTemplate(definition), document)
+        : { fields: {}, issues: ['No fields could be matched to sample form fields'] },
+      matchedTemplate: detection
+        ? {
+            id: detection.template.id,
+            name: detection.template.name,
+            version: detection.template.version,
+            score: detection.score,
+          }
+        : null,
+    }
+  }
+
+  /**
+   * Store a template and make it available for detection. Reusing a key adds a new version.
+   */
+  async register(
+    data: { templateKey: string; name: string; definition: FormTemplateDefinition },
+    createdBy: string
+  ): Promise<StoredFormTemplate> {
+    if (BUILTIN_FORM_TEMPLATES.some(template => template.templateKey === data.templateKey)) {
+      throw new ValidationError(`Template key ${data.templateKey} is reserved for a builtin form`, 'templateKey')
+    }
+
+    const template = await this.repository.create(data, createdBy)
+    formTemplateRegistry.register(template)
+
+    this.logger.info('PDF form template registered', {
+      action: 'pdf_form_template_registered',
+      metadata: { templateId: template.id, templateKey: template.templateKey, version: template.version, createdBy }
+    })
+
+    return template
+  }
+
+  async retire(id: string): Promise<StoredFormTemplate> {
+    const template = await this.repository.retire(id)
+    formTemplateRegistry.unregister(id)
+    return template
+  }
+
+  private syncRegistry(stored: StoredFormTemplate[]): void {
+    formTemplateRegistry.replaceRegistered(stored.filter(template => template.status === 'active'))
+  }
+
+  private async readPdf(fileName: string, content: Buffer): Promise<FormDocument> {
+    const file = new File([content], fileName, { type: 'application/pdf' })
+    const result = await pdfTextService.extractText(file)
+    if (!result.success || !result.data) {
+      throw new ValidationError(result.error || 'Could not read text from this PDF', 'file')
+    }
+    if (!result.data.rawText.trim()) {
+      throw new ValidationError('This PDF has no text layer; scanned forms cannot be used as templates', 'file')
+    }
+
+    return { text: result.data.rawText, pageCount: result.data.pageCount }
+  }
+
+  private asTemplate(definition: FormTemplateDefinition): FormTemplate {
+    return { ...definition, id: 'draft', templateKey: 'draft', version: 0, name: 'Draft', source: 'registered' }
+  }
+}
@@ -0,0 +1,159 @@
+import type { InboxNotification, NotificationRepository } from '../../repositories/NotificationRepository'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { BaseEvent, EventBus } from '../../lib/messaging/event-bus'
+import type { NotificationHub } from '../../lib/notifications/NotificationHub'
+import { SampleEventType } from '../../lib/messaging/events/sample-events'
+import { AIEventType } from '../../lib/messaging/events/ai-events'
+import {
+  NOTIFICATION_TYPES,
+  acceptingRecipients,
+  findOverdueSteps,
+  notificationForEvent,
+  overdueStepNotification,
+  sampleChangeForEvent,
+  type NotificationDraft,
+  type NotificationType
+} from '../../lib/notifications/NotificationCenter'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+import { cacheManager } from '../../lib/cache/CacheManager'
+
+type BusEvent = BaseEvent & { data: Record<string, any> }
+
+export interface NotificationPreferences {
+  mutedTypes: NotificationType[]
+}
+
+const INBOX_EVENTS: string[] = [
+  SampleEventType.SAMPLE_ASSIGNED,
+  SampleEventType.SAMPLE_CREATED,
+  AIEventType.EXTRACTION_CONFIDENCE_LOW,
+]
+
+// Every sample event that changes what the dashboard list shows
+const SAMPLE_LIST_EVENTS: string[] = [
+  SampleEventType.SAMPLE_CREATED,
+  SampleEventType.SAMPLE_UPDATED,
+  SampleEventType.SAMPLE_DELETED,
+  SampleEventType.SAMPLE_ASSIGNED,
+  SampleEventType.SAMPLE_STATUS_CHANGED,
+  SampleEventType.SAMPLE_PROCESSING_STARTED,
+  SampleEventType.SAMPLE_PROCESSING_COMPLETED,
+  SampleEventType.SAMPLE_PROCESSING_FAILED,
+]
+
+export class NotificationCenterService {
+  private readonly logger = getComponentLogger('NotificationCenterService')
+  private subscribed = false
+
+  constructor(
+    private readonly repository: NotificationRepository,
+    private readonly sampleRepository: ISampleRepository,
+    private readonly eventBus: EventBus,
+    private readonly hub: NotificationHub
+  ) {}
+
+  /**
+   * Subscribe to the bus: inbox events are stored, sample events are streamed to open dashboards
+   */
+  start(): void {
+    if (this.subscribed) return
+    this.subscribed = true
+
+    for (const eventType of new Set([...INBOX_EVENTS, ...SAMPLE_LIST_EVENTS])) {
+      this.eventBus.subscribe<BusEvent>(eventType, async (event) => {
+        const change = sampleChangeForEvent(event)
+        if (change) {
+          // The sample list is cached; drop it so the refetch this triggers sees the change
+          await cacheManager.clear('samples:*')
+          this.hub.broadcastSampleChange(change)
+        }
+
+        if (!INBOX_EVENTS.includes(event.type)) return
+        try {
+          await this.handleEvent(event)
+        } catch (error) {
+          this.logger.error('Failed to store notification', {
+            action: 'notification_store_failed',
+            metadata: {
+              eventType: event.type,
+              eventId: event.id,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            }
+          })
+        }
+      })
+    }
+  }
+
+  async handleEvent(event: BusEvent): Promise<number> {
+    // Assignment events carry only the sample id
+    if (event.type === SampleEventType.SAMPLE_ASSIGNED && !event.data.sampleName) {
+      const sample = await this.sampleRepository.findById(event.data.sampleId)
+      event = { ...event, data: { ...event.data, sampleName: sample?.sample_name } }
+    }
+
+    const draft = notificationForEvent(event)
+    return draft ? await this.notify(draft) : 0
+  }
+
+  /**
+   * Store a notification for recipients who have not muted its type and push it to their open dashboards
+   */
+  async notify(draft: NotificationDraft): Promise<number> {
+    const recipients = await this.filterRecipients(draft.recipients, draft.type)
+    const delivered = await this.repository.create(draft, recipients)
+    this.announce(delivered)
+    return delivered.length
+  }
+
+  /**
+   * Notify about steps that have run past their estimate; each step is notified once
+   */
+  async checkOverdueSteps(now = new Date()): Promise<number> {
+    let notified = 0
+    for (const step of findOverdueSteps(await this.repository.findRunningSteps(), now)) {
+      notified += await this.notify(overdueStepNotification(step))
+    }
+
+    if (notified > 0) {
+      this.logger.info('Overdue step notifications sent', {
+        action: 'overdue_steps_notified',
+        metadata: { notified }
+      })
+    }
+    return notified
+  }
+
+  async filterRecipients(recipients: string[], type: NotificationType): Promise<string[]> {
+    return acceptingRecipients(recipients, type, await this.repository.getMutedTypes(recipients))
+  }
+
+  // For notifications written elsewhere, such as note mentions stored with the note
+  announce(recipients: string[]): void {
+    this.hub.notifyRecipients(recipients)
+  }
+
+  async list(recipient: string, limit = 30): Promise<{ notifications: InboxNotification[]; unread: number }> {
+    const [notifications, unread] = await Promise.all([
+      this.repository.listForRecipient(recipient, limit),
+      this.repository.countUnread(recipient),
+    ])
+    return { notifications, unread }
+  }
+
+  async markRead(recipient: string, ids?: string[]): Promise<number> {
+    const updated = await this.repository.markRead(recipient, ids)
+    this.announce([recipient])
+    return updated
+  }
+
+  async getPreferences(recipient: string): Promise<NotificationPreferences> {
+    const muted = (await this.repository.getMutedTypes([recipient])).get(recipient.trim().toLowerCase()) ?? []
+    return { mutedTypes: NOTIFICATION_TYPES.filter(type => muted.includes(type)) }
+  }
+
+  async setPreferences(recipient: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    await this.repository.setMutedTypes(recipient, [...new Set(preferences.mutedTypes)])
+    return await this.getPreferences(recipient)
+  }
+}
@@ -0,0 +1,69 @@
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { QcResultRepository } from '../../repositories/QcResultRepository'
+import { NotFoundError } from '../../middleware/errors/ErrorTypes'
+import { extractRunReports } from '../../lib/reports/RunReportParser'
+import {
+  buildQcReport,
+  getQcThresholds,
+  renderQcReportHtml,
+  type QcThresholdOverrides,
+  type SampleQcReport
+} from '../../lib/reports/QcReport'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export class QcReportService {
+  private readonly logger = getComponentLogger('QcReportService')
+
+  constructor(
+    private readonly sampleRepository: ISampleRepository,
+    private readonly qcResultRepository: QcResultRepository
+  ) {}
+
+  /**
+   * Build the QC report from run metrics already stored on the sample's steps
+   */
+  async buildReport(sampleId: string, overrides?: QcThresholdOverrides): Promise<SampleQcReport> {
+    const sample = await this.sampleRepository.findById(sampleId)
+    if (!sample) {
+      throw new NotFoundError('Sample', sampleId)
+    }
+
+    const steps = await this.sampleRepository.findProcessingSteps(sampleId)
+    return buildQcReport(sample, extractRunReports(steps), getQcThresholds(overrides))
+  }
+
+  /**
+   * Build the report and record its verdict as the sample's qc_passed/qc_notes
+   */
+  async evaluateSample(sampleId: string, overrides?: QcThresholdOverrides): Promise<SampleQcReport> {
+    const report = await this.buildReport(sampleId, overrides)
+    if (report.passed === null) {
+      return report
+    }
+
+    await this.qcResultRepository.save(sampleId, report.passed, report.notes)
+
+    this.logger.info('Sample QC evaluated', {
+      action: 'qc_evaluated',
+      sampleId,
+      metadata: { passed: report.passed, failedChecks: report.checks.filter(c => !c.passed).map(c => c.name) }
+    })
+
+    return report
+  }
+
+  async exportHtml(sampleId: string, overrides?: QcThresholdOverrides): Promise<{
+    data: string
+    filename: string
+    mimeType: string
+  }> {
+    const report = await this.buildReport(sampleId, overrides)
+    const safeName = report.sampleName.replace(/[^a-zA-Z0-9.-]/g, '_')
+
+    return {
+      data: renderQcReportHtml(report),
+      filename: `qc-report-${safeName}.html`,
+      mimeType: 'text/html'
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { createReadStream, promises as fs } from 'node:fs'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+import type { Kysely } from 'kysely'
+import type { DB, NanoporeProcessingStep } from '../../lib/db/types'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { QcReportService } from './QcReportService'
+import { completeProcessingStep } from '../../lib/api/nanopore/setters'
+import { getProcessingStepsForSample } from '../../lib/api/nanopore/getters'
+import { getFileAttachment } from '../../lib/api/nanopore/file-storage'
+import { NotFoundError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import {
+  REPORT_TARGET_STEP,
+  detectReportType,
+  extractRunReports,
+  parseRunReport,
+  runReportResultsSchema,
+  type RunReportResults,
+  type StepRunReport
+} from '../../lib/reports/RunReportParser'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export type LegacyQueryRunner = <T>(queryFn: (db: Kysely<DB>) => Promise<T>) => Promise<T>
+
+export interface ImportedRunReport {
+  sampleId: string
+  stepId: string
+  stepName: string
+  results: RunReportResults
+}
+
+export class RunReportImportService {
+  private readonly logger = getComponentLogger('RunReportImportService')
+
+  constructor(
+    private readonly runQuery: LegacyQueryRunner,
+    private readonly sampleRepository: ISampleRepository,
+    private readonly qcReportService?: QcReportService
+  ) {}
+
+  /**
+   * Parse a report file on disk and complete the processing step it belongs to
+   */
+  async importFile(sampleId: string, filePath: string, fileName = path.basename(filePath)): Promise<ImportedRunReport> {
+    const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity })
+    try {
+      return await this.importLines(sampleId, fileName, lines)
+    } finally {
+      lines.close()
+    }
+  }
+
+  /**
+   * Import report content posted directly, e.g. a final_summary pasted or uploaded from the browser
+   */
+  async importContent(sampleId: string, fileName: string, content: string): Promise<ImportedRunReport> {
+    return await this.importLines(sampleId, fileName, content.split(/\r?\n/))
+  }
+
+  /**
+   * Import a report that was uploaded as a sample attachment
+   */
+  async importAttachment(attachmentId: string): Promise<ImportedRunReport> {
+    const attachment = await this.runQuery(db => getFileAttachment(db, attachmentId))
+    if (!attachment) {
+      throw new NotFoundError('Attachment', attachmentId)
+    }
+    if (!attachment.file_path) {
+      throw new ValidationError(`Attachment ${attachment.file_name} has no stored file`, 'attachmentId')
+    }
+
+    return await this.importFile(attachment.sample_id, attachment.file_path, attachment.file_name)
+  }
+
+  /**
+   * Import a report found in the watched MinKNOW output directory.
+   * The sample comes from final_summary's sample_id, otherwise from the nearest
+   * directory between the file and the watch root that is named after a sample.
+   */
+  async importFromWatchDirectory(watchRoot: string, filePath: string): Promise<ImportedRunReport | null> {
+    const candidates = path.relative(watchRoot, path.dirname(filePath)).split(path.sep).filter(Boolean).reverse()
+
+    if (detectReportType(filePath) === 'minknow_final_summary') {
+      const content = await fs.readFile(filePath, 'utf8')
+      const sampleId = content.match(/^sample_id=(.+)$/m)?.[1]?.trim()
+      if (sampleId) candidates.unshift(sampleId)
+    }
+
+    for (const name of candidates) {
+      const sample = await this.runQuery(db => db
+        .selectFrom('nanopore_samples')
+        .select('id')
+        .where('sample_name', '=', name)
+        .executeTakeFirst())
+      if (sample) {
+        return await this.importFile(sample.id, filePath)
+      }
+    }
+
+    this.logger.warn('No sample matches run report', {
+      action: 'run_report_unmatched',
+      metadata: { filePath, candidates }
+    })
+    return null
+  }
+
+  /**
+   * Run reports already attached to a sample's processing steps
+   */
+  async getSampleRunReports(sampleId: string): Promise<StepRunReport[]> {
+    return extractRunReports(await this.sampleRepository.findProcessingSteps(sampleId))
+  }
+
+  private async importLines(
+    sampleId: string,
+    fileName: string,
+    lines: Iterable<string> | AsyncIterable<string>
+  ): Promise<ImportedRunReport> {
+    if (!detectReportType(fileName)) {
+      throw new ValidationError(`Unsupported run report file: ${fileName}`, 'file')
+    }
+
+    const report = await parseRunReport(fileName, lines)
+    const stepName = REPORT_TARGET_STEP[report.reportType]
+    const results = runReportResultsSchema.parse({
+      ...report,
+      sourceFile: fileName,
+      importedAt: new Date().toISOString()
+    })
+
+    const step = await this.runQuery(async (db) => {
+      const steps = await getProcessingStepsForSample(db, sampleId)
+      const target = findTargetStep(steps, stepName)
+      if (!target) {
+        throw new NotFoundError('Processing step', `${stepName} for sample ${sampleId}`)
+      }
+      return await completeProcessingStep(db, target.id, results)
+    })
+
+    this.logger.info('Run report imported', {
+      action: 'run_report_imported',
+      sampleId,
+      metadata: { stepId: step.id, stepName, reportType: report.reportType, sourceFile: fileName }
+    })
+
+    // New metrics re-run QC; a QC failure must not undo the import
+    if (this.qcReportService && results.metrics) {
+      await this.qcReportService.evaluateSample(sampleId).catch((error: Error) => {
+        this.logger.warn('QC evaluation after import failed', {
+          action: 'qc_evaluation_failed',
+          sampleId,
+          metadata: { error: error.message }
+        })
+      })
+    }
+
+    return { sampleId, stepId: step.id, stepName, results }
+  }
+}
+
+/**
+ * Step a report belongs to; a sample may have repeated a step, so prefer the latest unfinished one
+ */
+function findTargetStep(
+  steps: NanoporeProcessingStep[],
+  stepName: string
+): NanoporeProcessingStep | undefined {
+  const matching = steps.filter(step => step.step_name === stepName)
+  return matching.filter(step => step.step_status !== 'completed').pop() ?? matching.pop()
+}
@@ -0,0 +1,127 @@
+import type { SampleNoteRepository, NoteAttachment, NoteRevision, SampleNote } from '../../repositories/SampleNoteRepository'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { NotificationCenterService } from './NotificationCenterService'
+import {
+  newMentions,
+  parseMentions,
+  type CreateNoteInput,
+  type EditNoteInput
+} from '../../lib/notes/SampleNotes'
+import { BusinessLogicError, NotFoundError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export class SampleNoteService {
+  private readonly logger = getComponentLogger('SampleNoteService')
+
+  constructor(
+    private readonly repository: SampleNoteRepository,
+    private readonly sampleRepository: ISampleRepository,
+    // Applies muted notification types to mentions and pushes them to open dashboards
+    private readonly notificationCenter?: NotificationCenterService
+  ) {}
+
+  async listForSample(sampleId: string, includeInternal = true): Promise<SampleNote[]> {
+    return await this.repository.listForSample(sampleId, includeInternal)
+  }
+
+  async listAttachments(sampleId: string): Promise<NoteAttachment[]> {
+    return await this.repository.listSampleAttachments(sampleId)
+  }
+
+  async create(input: CreateNoteInput, author: string): Promise<SampleNote> {
+    const sample = await this.sampleRepository.findById(input.sampleId)
+    if (!sample) {
+      throw new NotFoundError('Sample', input.sampleId)
+    }
+
+    if (input.parentId) {
+      const parent = await this.repository.findById(input.parentId)
+      if (!parent || parent.sampleId !== input.sampleId) {
+        throw new ValidationError('Replies must belong to a note on the same sample', 'parentId')
+      }
+    }
+    await this.checkAttachments(input.sampleId, input.attachmentIds)
+
+    const mentions = parseMentions(input.body)
+    const notify = await this.mentionRecipients(mentions.filter(name => !sameName(name, author)))
+    const note = await this.repository.create({
+      sampleId: input.sampleId,
+      parentId: input.parentId ?? null,
+      author,
+      body: input.body,
+      visibility: input.visibility,
+      mentions,
+      attachmentIds: input.attachmentIds,
+    }, notify)
+    this.notificationCenter?.announce(notify)
+
+    this.logger.info('Sample note added', {
+      action: 'sample_note_added',
+      sampleId: input.sampleId,
+      metadata: { noteId: note.id, author: note.author, visibility: note.visibility, mentions }
+    })
+
+    return note
+  }
+
+  /**
+   * Edit a note as its author. Only people newly mentioned by the edit are notified.
+   */
+  async update(input: EditNoteInput, editor: string): Promise<SampleNote> {
+    const note = await this.repository.findById(input.id)
+    if (!note) {
+      throw new NotFoundError('Sample note', input.id)
+    }
+    if (!sameName(note.author, editor)) {
+      throw new BusinessLogicError('Only the author of a note can edit it')
+    }
+    if (input.attachmentIds) {
+      await this.checkAttachments(note.sampleId, input.attachmentIds)
+    }
+
+    const notify = await this.mentionRecipients(newMentions(note.body, input.body).filter(name => !sameName(name, editor)))
+    const updated = await this.repository.update(input.id, editor, {
+      body: input.body,
+      visibility: input.visibility ?? note.visibility,
+      mentions: parseMentions(input.body),
+      attachmentIds: input.attachmentIds,
+    }, notify)
+    this.notificationCenter?.announce(notify)
+
+    this.logger.info('Sample note edited', {
+      action: 'sample_note_edited',
+      sampleId: note.sampleId,
+      metadata: { noteId: note.id, editor, visibility: updated.visibility }
+    })
+
+    return updated
+  }
+
+  async sampleIdOf(noteId: string): Promise<string | null> {
+    return (await this.repository.findById(noteId))?.sampleId ?? null
+  }
+
+  async history(noteId: string): Promise<NoteRevision[]> {
+    return await this.repository.listRevisions(noteId)
+  }
+
+  async searchSampleIds(term: string): Promise<string[]> {
+    return await this.repository.searchSampleIds(term.trim())
+  }
+
+  private async mentionRecipients(names: string[]): Promise<string[]> {
+    return this.notificationCenter ? await this.notificationCenter.filterRecipients(names, 'note_mention') : names
+  }
+
+  private async checkAttachments(sampleId: string, attachmentIds: string[]): Promise<void> {
+    if (attachmentIds.length === 0) return
+
+    const available = new Set((await this.repository.listSampleAttachments(sampleId)).map(attachment => attachment.id))
+    const unknown = attachmentIds.filter(id => !available.has(id))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Attachments ${unknown.join(', ')} do not belong to this sample`, 'attachmentIds')
+    }
+  }
+}
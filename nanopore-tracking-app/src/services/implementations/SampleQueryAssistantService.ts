@@ -0,0 +1,83 @@
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import { LLMOutputError, parseJsonOutput } from '../../lib/ai/llm-provider'
+import { QueryPlanClient, type SampleQueryPlanner } from '../../lib/ai/query-plan-client'
+import {
+  describeQueryFields,
+  describeQueryPlan,
+  sampleQueryPlanSchema,
+  type SampleQueryPlan,
+  type SampleQueryResult
+} from '../../lib/ai/sample-query-plan'
+import { aiConfig } from '../../lib/config'
+import { ConfigurationError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface InterpretedQuestion {
+  question: string
+  plan: SampleQueryPlan
+  // What the plan will look for, for the user to confirm before it runs
+  conditions: string[]
+  prompt: string
+}
+
+export interface SampleQueryAnswer {
+  plan: SampleQueryPlan
+  conditions: string[]
+  result: SampleQueryResult
+}
+
+/**
+ * Answers questions about samples in two steps.
+ * The AI processing service's planning endpoint turns the question into a query plan, the user checks
+ * the interpreted conditions, and the confirmed plan runs through the sample repository. The model never sees
+ * sample data and never writes SQL.
+ */
+export class SampleQueryAssistantService {
+  private readonly logger = getComponentLogger('SampleQueryAssistantService')
+
+  constructor(
+    private readonly repository: ISampleRepository,
+    private readonly planner: SampleQueryPlanner = new QueryPlanClient(),
+    private readonly enabled: boolean = aiConfig.enabled
+  ) {}
+
+  async interpret(question: string, today: Date = new Date()): Promise<InterpretedQuestion> {
+    if (!this.enabled) {
+      throw new ConfigurationError('AI features are disabled; set ENABLE_AI_FEATURES=true to use the query assistant')
+    }
+
+    try {
+      const response = await this.planner.plan({
+        question,
+        today: today.toISOString().slice(0, 10),
+        fields: describeQueryFields(),
+      })
+      const plan = parseJsonOutput(response.answer, sampleQueryPlanSchema, response.prompt)
+      return {
+        question,
+        plan,
+        conditions: describeQueryPlan(plan),
+        prompt: response.prompt,
+      }
+    } catch (error) {
+      // An answer outside the whitelist is the question's problem as far as the user is concerned
+      if (error instanceof LLMOutputError) {
+        this.logger.warn('Query plan rejected', {
+          action: 'interpret_sample_question',
+          metadata: { question, error: error.message, output: error.output.slice(0, 500) },
+        })
+        throw new ValidationError('Could not turn the question into a query over the sample fields; try rephrasing it', 'question', error)
+      }
+      throw error
+    }
+  }
+
+  async run(plan: SampleQueryPlan): Promise<SampleQueryAnswer> {
+    const result = await this.repository.runQueryPlan(plan)
+    this.logger.info('Sample query plan run', {
+      action: 'run_sample_query',
+      metadata: { output: plan.output, filters: plan.filters.length, steps: plan.steps.length, total: result.total },
+    })
+    return { plan, conditions: describeQueryPlan(plan), result }
+  }
+}
@@ -8,18 +8,38 @@ import type {
 import type { ISampleRepository } from '../interfaces/ISampleRepository'
 import type { IAuditLogger } from '../interfaces/IAuditLogger'
 import type { IEventEmitter } from '../interfaces/IEventEmitter'
-import { ValidationError, NotFoundError, BusinessLogicError } from '../../middleware/errors/ErrorTypes'
+import type { IFlowCellRepository } from '../interfaces/IFlowCellRepository'
+import type { BaseEvent, EventBus } from '../../lib/messaging/event-bus'
+import { SampleEventFactory } from '../../lib/messaging/events/sample-events'
+import { ValidationError, NotFoundError, BusinessLogicError, StatusTransitionError } from '../../middleware/errors/ErrorTypes'
+import { evaluateStatusTransition, type SampleStatus } from '@app/utils'
+import { normalizeFlowCellType } from '../../lib/inventory/FlowCellInventory'
 import { getComponentLogger } from '../../lib/logging/StructuredLogger'
 import { applicationMetrics } from '../../lib/monitoring/MetricsCollector'
 import { withCache, cacheManager } from '../../lib/cache/CacheManager'
 
+/**
+ * Repositories that share one database transaction
+ */
+export interface SampleRepositories {
+  samples: ISampleRepository
+  flowCells?: IFlowCellRepository
+}
+
+export type SampleTransactionRunner = <T>(work: (repositories: SampleRepositories) => Promise<T>) => Promise<T>
+
 export class SampleService implements ISampleService {
   private readonly logger = getComponentLogger('SampleService')
 
   constructor(
     private readonly sampleRepository: ISampleRepository,
     private readonly auditLogger: IAuditLogger,
-    private readonly eventEmitter: IEventEmitter
+    private readonly eventEmitter: IEventEmitter,
+    private readonly flowCellRepository?: IFlowCellRepository,
+    // Cross-service subscribers such as email notifications listen here
+    private readonly eventBus?: EventBus,
+    // Status checks, flow cell reservations and the update commit or roll back together through this
+    private readonly runInTransaction?: SampleTransactionRunner
   ) {}
 
   async createSample(data: CreateSampleData): Promise<Sample> {
@@ -71,6 +91,17 @@ export class SampleService implements ISampleService {
       
       // Emit domain event
       this.eventEmitter.emitSampleCreated(sample)
+      await this.publish(SampleEventFactory.createSampleCreatedEvent({
+        sampleId: sample.id,
+        userId: sample.created_by,
+        sampleName: sample.sample_name,
+        submitterName: sample.submitter_name,
+        submitterEmail: sample.submitter_email,
+        sampleType: sample.sample_type,
+        priority: sample.priority as NonNullable<CreateSampleData['priority']>,
+        ...(sample.project_id && { projectId: sample.project_id }),
+        ...(sample.lab_name && { labName: sample.lab_name }),
+      }, sample.id))
       
       // Invalidate cache
       await this.invalidateSampleCache()
@@ -93,24 +124,58 @@ export class SampleService implements ISampleService {
     }
   }
 
-  async updateSample(id: string, data: UpdateSampleData): Promise<Sample> {
-    // Get existing sample for comparison
-    const existingSample = await this.sampleRepository.findById(id)
-    if (!existingSample) {
-      throw new Error('Sample not found')
-    }
-    
-    // Update the sample
-    const updatedSample = await this.sampleRepository.update(id, data)
+  async updateSample(id: string, data: UpdateSampleData, actor: string): Promise<Sample> {
+    const { existingSample, updatedSample, statusChanged } = await this.transact(async ({ samples, flowCells }) => {
+      // Get existing sample for comparison
+      const existingSample = await samples.findById(id)
+      if (!existingSample) {
+        throw new Error('Sample not found')
+      }
+      
+      // Status changes must go through the transition table; guards see the sample
+      // as it will be saved, so a flow cell type set in the same update counts
+      const statusChanged = data.status !== undefined && data.status !== existingSample.status
+      if (statusChanged) {
+        const updated = { ...existingSample, ...this.pickFlowCellFields(data) }
+        await this.assertStatusTransition(samples, updated, data.status!)
+        await this.syncFlowCellReservations(flowCells, updated, data.status!)
+      }
+      
+      return { existingSample, statusChanged, updatedSample: await samples.update(id, data) }
+    })
     
     // Calculate changes for audit
     const changes = this.calculateChanges(existingSample, data)
     
     // Log the action
-    await this.auditLogger.logSampleUpdated(id, updatedSample.created_by, changes)
+    await this.auditLogger.logSampleUpdated(id, actor, changes)
     
     // Emit domain event
     this.eventEmitter.emitSampleUpdated(updatedSample, changes)
+    if (Object.keys(changes).length > 0) {
+      await this.publish(SampleEventFactory.createSampleUpdatedEvent({
+        sampleId: id,
+        userId: actor,
+        changes: Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, { oldValue: change.from, newValue: change.to }])),
+        updatedFields: Object.keys(changes),
+      }, id))
+    }
+    if (statusChanged) {
+      await this.publish(SampleEventFactory.createSampleStatusChangedEvent({
+        sampleId: id,
+        userId: actor,
+        oldStatus: existingSample.status as SampleStatus,
+        newStatus: data.status!,
+      }, id))
+    }
+    if (data.assignedTo && data.assignedTo !== existingSample.assigned_to) {
+      await this.publish(SampleEventFactory.createSampleAssignedEvent({
+        sampleId: id,
+        userId: actor,
+        assignedTo: data.assignedTo,
+        ...(existingSample.assigned_to && { previousAssignee: existingSample.assigned_to }),
+      }, id))
+    }
     
     return updatedSample
   }
@@ -162,7 +227,7 @@ export class SampleService implements ISampleService {
     }
   }
 
-  async deleteSample(id: string): Promise<{ success: boolean }> {
+  async deleteSample(id: string, actor: string): Promise<{ success: boolean }> {
     if (!id?.trim()) {
       throw new ValidationError('Sample ID is required', 'id')
     }
@@ -175,15 +240,21 @@ export class SampleService implements ISampleService {
     await this.sampleRepository.delete(id)
     
     // Log the action
-    await this.auditLogger.logSampleDeleted(id, existingSample.created_by)
+    await this.auditLogger.logSampleDeleted(id, actor)
     
     // Emit domain event
     this.eventEmitter.emitSampleDeleted(id)
+    await this.publish(SampleEventFactory.createSampleDeletedEvent({
+      sampleId: id,
+      userId: actor,
+      sampleName: existingSample.sample_name,
+      deletedAt: new Date(),
+    }, id))
     
     return { success: true }
   }
 
-  async assignSample(id: string, assignedTo: string, libraryPrepBy?: string): Promise<Sample> {
+  async assignSample(id: string, assignedTo: string, libraryPrepBy: string | undefined, actor: string): Promise<Sample> {
     const existingSample = await this.sampleRepository.findById(id)
     if (!existingSample) {
       throw new Error('Sample not found')
@@ -192,31 +263,58 @@ export class SampleService implements ISampleService {
     const updatedSample = await this.sampleRepository.assign(id, assignedTo, libraryPrepBy)
     
     // Log the action
-    await this.auditLogger.logSampleAssigned(id, updatedSample.created_by, assignedTo)
+    await this.auditLogger.logSampleAssigned(id, actor, assignedTo)
     
     // Emit domain event
     this.eventEmitter.emitSampleAssigned(updatedSample, assignedTo)
+    await this.publish(SampleEventFactory.createSampleAssignedEvent({
+      sampleId: id,
+      userId: actor,
+      assignedTo,
+      ...(libraryPrepBy && { libraryPrepBy }),
+      ...(existingSample.assigned_to && { previousAssignee: existingSample.assigned_to }),
+    }, id))
     
     return updatedSample
   }
 
   async updateSampleStatus(
     id: string, 
-    status: 'submitted' | 'prep' | 'sequencing' | 'analysis' | 'completed' | 'archived'
+    status: 'submitted' | 'prep' | 'sequencing' | 'analysis' | 'completed' | 'archived',
+    actor: string
   ): Promise<Sample> {
-    const existingSample = await this.sampleRepository.findById(id)
-    if (!existingSample) {
-      throw new Error('Sample not found')
+    const { existingSample, updatedSample } = await this.transact(async ({ samples, flowCells }) => {
+      const existingSample = await samples.findById(id)
+      if (!existingSample) {
+        throw new Error('Sample not found')
+      }
+      
+      // Asking for the current status changes nothing, as in updateSample
+      if (existingSample.status === status) {
+        return { existingSample, updatedSample: null }
+      }
+      
+      await this.assertStatusTransition(samples, existingSample, status)
+      await this.syncFlowCellReservations(flowCells, existingSample, status)
+      return { existingSample, updatedSample: await samples.updateStatus(id, status) }
+    })
+    if (!updatedSample) {
+      return existingSample
     }
     
     const oldStatus = existingSample.status
-    const updatedSample = await this.sampleRepository.updateStatus(id, status)
     
     // Log the action
-    await this.auditLogger.logStatusChange(id, updatedSample.created_by, oldStatus, status)
+    await this.auditLogger.logStatusChange(id, actor, oldStatus, status)
     
     // Emit domain event
     this.eventEmitter.emitStatusChanged(updatedSample, oldStatus, status)
+    await this.publish(SampleEventFactory.createSampleStatusChangedEvent({
+      sampleId: id,
+      userId: actor,
+      oldStatus: oldStatus as SampleStatus,
+      newStatus: status,
+    }, id))
     
     return updatedSample
   }
@@ -229,6 +327,91 @@ export class SampleService implements ISampleService {
     return await this.sampleRepository.findByUser(userId)
   }
 
+  /**
+   * Publish to the event bus; the change is already saved, so a bus failure is only logged
+   */
+  private async publish(event: BaseEvent): Promise<void> {
+    if (!this.eventBus) return
+    try {
+      await this.eventBus.publish(event)
+    } catch (error) {
+      this.logger.warn('Failed to publish sample event', {
+        action: 'sample_event_publish_failed',
+        metadata: {
+          eventType: event.type,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      })
+    }
+  }
+
+  /**
+   * Run work in one transaction when a runner is configured, otherwise straight against the repositories
+   */
+  private async transact<T>(work: (repositories: SampleRepositories) => Promise<T>): Promise<T> {
+    if (this.runInTransaction) {
+      return await this.runInTransaction(work)
+    }
+    return await work({ samples: this.sampleRepository, ...(this.flowCellRepository && { flowCells: this.flowCellRepository }) })
+  }
+
+  /**
+   * Reject status changes that are not in the transition table or whose guards fail
+   */
+  private async assertStatusTransition(samples: ISampleRepository, sample: Sample, status: SampleStatus): Promise<void> {
+    const processingSteps = await samples.findProcessingSteps(sample.id)
+    const evaluation = evaluateStatusTransition(status, { sample, processingSteps })
+    
+    if (!evaluation.allowed) {
+      this.logger.warn('Status transition rejected', {
+        sampleId: sample.id,
+        action: 'status_transition_rejected',
+        metadata: {
+          from: evaluation.from,
+          to: evaluation.to,
+          unmetPreconditions: evaluation.unmetPreconditions.map(p => p.guard)
+        }
+      })
+      
+      throw new StatusTransitionError(evaluation.from, evaluation.to, evaluation.unmetPreconditions)
+    }
+  }
+
+  /**
+   * Reserve flow cells when a sample moves to sequencing, and hand unused
+   * reservations back when it is sent back to an earlier stage
+   */
+  private async syncFlowCellReservations(flowCells: IFlowCellRepository | undefined, sample: Sample, status: SampleStatus): Promise<void> {
+    if (!flowCells) return
+
+    if (status === 'sequencing') {
+      // Samples on a multiplexed run already share the run's flow cell
+      const existing = await flowCells.findActiveUsagesBySample(sample.id)
+      if (existing.length > 0) return
+
+      const flowCellType = normalizeFlowCellType(sample.flow_cell_type)
+      if (!flowCellType) {
+        throw new BusinessLogicError(`Flow cell type '${sample.flow_cell_type}' is not tracked in inventory`)
+      }
+
+      const usages = await flowCells.reserveForSample(sample.id, flowCellType, sample.flow_cell_count || 1)
+      this.logger.info('Flow cells reserved for sample', {
+        sampleId: sample.id,
+        action: 'flow_cells_reserved',
+        metadata: { flowCellIds: usages.map(u => u.flow_cell_id) }
+      })
+    } else if (status === 'prep' || status === 'submitted') {
+      await flowCells.releaseForSample(sample.id)
+    }
+  }
+
+  private pickFlowCellFields(data: UpdateSampleData): Partial<Sample> {
+    return {
+      ...(data.flowCellType !== undefined && { flow_cell_type: data.flowCellType }),
+      ...(data.flowCellCount !== undefined && { flow_cell_count: data.flowCellCount }),
+    }
+  }
+
   private validateCreateData(data: CreateSampleData): void {
     const errors: string[] = []
     
@@ -279,7 +462,10 @@ export class SampleService implements ISampleService {
     const changes: Record<string, any> = {}
     
     Object.entries(updates).forEach(([key, value]) => {
-      const existingValue = (existing as any)[key]
+      if (value === undefined) return
+      // Update fields are camelCase, sample columns snake_case
+      const column = key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`)
+      const existingValue = (existing as any)[column]
       if (existingValue !== value) {
         changes[key] = {
           from: existingValue,
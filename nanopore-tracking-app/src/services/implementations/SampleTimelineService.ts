@@ -0,0 +1,120 @@
+import type { SampleTimelineRepository } from '../../repositories/SampleTimelineRepository'
+import type { SampleNoteRepository } from '../../repositories/SampleNoteRepository'
+import type { IAuditLogger } from '../interfaces/IAuditLogger'
+import {
+  buildSampleTimeline,
+  renderChainOfCustodyCsv,
+  renderChainOfCustodyHtml,
+  type ChainOfCustodyReport,
+  type TimelineEntry,
+  type TimelineSources
+} from '../../lib/audit/SampleTimeline'
+import { NotFoundError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface SampleTimeline {
+  sampleId: string
+  sampleName: string
+  entries: TimelineEntry[]
+  unavailableSources: string[]
+}
+
+const AUDIT_SERVICE_TIMEOUT_MS = 5000
+
+export class SampleTimelineService {
+  private readonly logger = getComponentLogger('SampleTimelineService')
+
+  constructor(
+    private readonly repository: SampleTimelineRepository,
+    private readonly noteRepository: SampleNoteRepository,
+    private readonly auditLogger: IAuditLogger,
+    // Audit service base URL; its events are merged in when configured
+    private readonly auditServiceUrl: string | undefined = process.env.AUDIT_SERVICE_URL
+  ) {}
+
+  async getTimeline(sampleId: string): Promise<SampleTimeline> {
+    const report = await this.buildReport(sampleId)
+    return {
+      sampleId,
+      sampleName: report.sampleName,
+      entries: report.entries,
+      unavailableSources: report.unavailableSources,
+    }
+  }
+
+  async exportChainOfCustody(sampleId: string, format: 'html' | 'csv'): Promise<{
+    data: string
+    filename: string
+    mimeType: string
+  }> {
+    const report = await this.buildReport(sampleId)
+    const safeName = report.sampleName.replace(/[^a-zA-Z0-9.-]/g, '_')
+
+    this.logger.info('Chain-of-custody report exported', {
+      action: 'chain_of_custody_exported',
+      sampleId,
+      metadata: { format, entries: report.entries.length, unavailableSources: report.unavailableSources }
+    })
+
+    return format === 'csv'
+      ? { data: renderChainOfCustodyCsv(report), filename: `chain-of-custody-${safeName}.csv`, mimeType: 'text/csv' }
+      : { data: renderChainOfCustodyHtml(report), filename: `chain-of-custody-${safeName}.html`, mimeType: 'text/html' }
+  }
+
+  private async buildReport(sampleId: string): Promise<ChainOfCustodyReport> {
+    const sample = await this.repository.findSample(sampleId)
+    if (!sample) {
+      throw new NotFoundError('Sample', sampleId)
+    }
+
+    const unavailableSources: string[] = []
+    // Audit history lives outside the samples database; a missing source is reported, not fatal
+    const optional = async <T>(source: string, load: () => Promise<T[]>): Promise<T[]> => {
+      try {
+        return await load()
+      } catch (error) {
+        unavailableSources.push(source)
+        this.logger.warn('Timeline source unavailable', {
+          action: 'timeline_source_unavailable',
+          sampleId,
+          metadata: { source, error: error instanceof Error ? error.message : 'Unknown error' }
+        })
+        return []
+      }
+    }
+
+    const [steps, attachments, notes, auditEvents, serviceEvents] = await Promise.all([
+      this.repository.findSteps(sampleId),
+      this.repository.findAttachments(sampleId),
+      this.noteRepository.listForSample(sampleId, true),
+      optional('audit log', () => this.auditLogger.getAuditTrail('sample', sampleId)),
+      this.auditServiceUrl
+        ? optional('audit service', () => this.fetchServiceEvents(sampleId))
+        : Promise.resolve([]),
+    ])
+
+    return {
+      sampleId,
+      sampleName: sample.sample_name,
+      submitter: `${sample.submitter_name} <${sample.submitter_email}>`,
+      status: sample.status,
+      generatedAt: new Date().toISOString(),
+      entries: buildSampleTimeline({ sample, steps, attachments, notes, auditEvents, serviceEvents }),
+      unavailableSources,
+    }
+  }
+
+  private async fetchServiceEvents(sampleId: string): Promise<TimelineSources['serviceEvents']> {
+    const url = new URL('/api/events', this.auditServiceUrl)
+    url.searchParams.set('resourceId', sampleId)
+    url.searchParams.set('limit', '100')
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(AUDIT_SERVICE_TIMEOUT_MS) })
+    if (!response.ok) {
+      throw new Error(`Audit service responded ${response.status}`)
+    }
+
+    const body = await response.json() as { success: boolean; data?: { events?: TimelineSources['serviceEvents'] } }
+    return body.data?.events ?? []
+  }
+}
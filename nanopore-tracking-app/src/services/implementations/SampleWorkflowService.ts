@@ -0,0 +1,232 @@
+import type { SampleWorkflowRepository, AppliedWorkflowAction, WorkflowActionPlan } from '../../repositories/SampleWorkflowRepository'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { IFlowCellRepository } from '../interfaces/IFlowCellRepository'
+import type { IAuditLogger } from '../interfaces/IAuditLogger'
+import type { EventBus } from '../../lib/messaging/event-bus'
+import { SampleEventFactory } from '../../lib/messaging/events/sample-events'
+import { BusinessLogicError, NotFoundError, StatusTransitionError } from '../../middleware/errors/ErrorTypes'
+import { evaluateStatusTransition, type SampleStatus } from '@app/utils'
+import {
+  WORKFLOW_ACTIONS,
+  applyStepChanges,
+  planWorkflowAction,
+  type WorkflowAction
+} from '../../lib/workflow/WorkflowActions'
+import { normalizeFlowCellType } from '../../lib/inventory/FlowCellInventory'
+import { cacheManager } from '../../lib/cache/CacheManager'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface WorkflowActionResult {
+  sampleId: string
+  action: WorkflowAction
+  status: SampleStatus
+  previousStatus: SampleStatus
+  steps: Array<{ id: string; stepName: string; stepStatus: string }>
+}
+
+interface ActionOptions {
+  performedBy?: string | undefined
+  outcome?: 'pass' | 'fail'
+  results?: Record<string, any>
+  notes?: string | undefined
+  qc?: { passed: boolean; notes: string }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export class SampleWorkflowService {
+  private readonly logger = getComponentLogger('SampleWorkflowService')
+
+  constructor(
+    private readonly workflowRepository: SampleWorkflowRepository,
+    private readonly sampleRepository: ISampleRepository,
+    private readonly flowCellRepository: IFlowCellRepository,
+    private readonly auditLogger: IAuditLogger,
+    private readonly eventBus: EventBus
+  ) {}
+
+  /**
+   * Record the QC verdict. A pass completes "Sample QC" and moves the sample to prep;
+   * a fail marks the step failed and leaves the sample where it is.
+   */
+  async recordQcResult(sampleId: string, passed: boolean, notes: string, performedBy?: string): Promise<WorkflowActionResult> {
+    const qcNotes = notes.trim() || (passed ? 'QC passed' : 'QC failed')
+    return await this.perform('record_qc_result', sampleId, {
+      performedBy,
+      outcome: passed ? 'pass' : 'fail',
+      results: { qcPassed: passed, notes: qcNotes },
+      notes: qcNotes,
+      qc: { passed, notes: qcNotes },
+    })
+  }
+
+  async startLibraryPrep(sampleId: string, performedBy?: string): Promise<WorkflowActionResult> {
+    return await this.perform('start_library_prep', sampleId, { performedBy })
+  }
+
+  async startSequencingRun(sampleId: string, performedBy?: string): Promise<WorkflowActionResult> {
+    return await this.perform('start_sequencing_run', sampleId, { performedBy })
+  }
+
+  async generateReport(sampleId: string, performedBy?: string): Promise<WorkflowActionResult> {
+    return await this.perform('generate_report', sampleId, { performedBy })
+  }
+
+  async deliverResults(sampleId: string, performedBy?: string, notes?: string): Promise<WorkflowActionResult> {
+    return await this.perform('deliver_results', sampleId, {
+      performedBy,
+      notes,
+      results: { deliveredAt: new Date().toISOString(), ...(notes && { notes }) },
+    })
+  }
+
+  private async perform(action: WorkflowAction, sampleId: string, options: ActionOptions): Promise<WorkflowActionResult> {
+    const definition = WORKFLOW_ACTIONS[action]
+    const outcome = options.outcome ?? 'pass'
+    // A failed QC result records the failure without moving the sample
+    const targetStatus = outcome === 'pass' ? definition.status : undefined
+
+    const sample = await this.sampleRepository.findById(sampleId)
+    if (!sample) {
+      throw new NotFoundError('Sample', sampleId)
+    }
+
+    const reserved = targetStatus === 'sequencing' && sample.status !== 'sequencing'
+      ? await this.reserveFlowCells(sample.id, sample.flow_cell_type, sample.flow_cell_count)
+      : false
+
+    let applied: AppliedWorkflowAction
+    try {
+      applied = await this.workflowRepository.applyAction(sampleId, (current, steps): WorkflowActionPlan => {
+        const stepChanges = planWorkflowAction(steps, definition, outcome)
+
+        // Status guards are evaluated against the steps as this action leaves them
+        if (targetStatus && current.status !== targetStatus) {
+          const evaluation = evaluateStatusTransition(targetStatus, {
+            sample: current,
+            processingSteps: applyStepChanges(steps, stepChanges),
+          })
+          if (!evaluation.allowed) {
+            throw new StatusTransitionError(evaluation.from, evaluation.to, evaluation.unmetPreconditions)
+          }
+        }
+
+        return {
+          stepChanges,
+          results: options.results,
+          notes: options.notes,
+          qc: options.qc,
+          status: targetStatus,
+        }
+      })
+    } catch (error) {
+      if (reserved) {
+        await this.flowCellRepository.releaseForSample(sampleId)
+      }
+      throw error
+    }
+
+    const userId = options.performedBy ?? applied.previous.created_by
+    await this.publishEvents(action, applied, userId, options)
+
+    this.logger.info('Workflow action applied', {
+      sampleId,
+      action: 'workflow_action_applied',
+      metadata: {
+        workflowAction: action,
+        steps: applied.changedSteps.map(step => `${step.step_name}:${step.step_status}`),
+        from: applied.previous.status,
+        to: applied.sample.status,
+      }
+    })
+
+    try {
+      await cacheManager.clear('samples:*')
+    } catch (error) {
+      this.logger.warn('Failed to invalidate sample cache after workflow action', {
+        action: 'cache_invalidation_failed',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' }
+      })
+    }
+
+    return {
+      sampleId,
+      action,
+      status: applied.sample.status,
+      previousStatus: applied.previous.status,
+      steps: applied.changedSteps.map(step => ({ id: step.id, stepName: step.step_name, stepStatus: step.step_status })),
+    }
+  }
+
+  private async publishEvents(
+    action: WorkflowAction,
+    applied: AppliedWorkflowAction,
+    userId: string,
+    options: ActionOptions
+  ): Promise<void> {
+    const sampleId = applied.sample.id
+    const target = applied.changedSteps[applied.changedSteps.length - 1]
+
+    for (const step of applied.changedSteps) {
+      if (step.step_status === 'in_progress') {
+        await this.eventBus.publish(SampleEventFactory.createSampleProcessingStartedEvent({
+          sampleId,
+          userId,
+          processingStep: step.step_name,
+          ...(step.assigned_to && { assignedTo: step.assigned_to }),
+          ...(step.estimated_duration_hours !== null && { estimatedDuration: step.estimated_duration_hours }),
+        }, sampleId))
+      } else if (step.step_status === 'completed') {
+        const startedAt = applied.previousSteps.get(step.id)?.started_at ?? step.started_at
+        await this.eventBus.publish(SampleEventFactory.createSampleProcessingCompletedEvent({
+          sampleId,
+          userId,
+          processingStep: step.step_name,
+          completedBy: userId,
+          // Hours, like the step estimates
+          duration: startedAt && step.completed_at
+            ? Math.round((new Date(step.completed_at).getTime() - new Date(startedAt).getTime()) / HOUR_MS * 100) / 100
+            : 0,
+          ...(step === target && options.results && { results: options.results }),
+        }, sampleId))
+      } else if (step.step_status === 'failed') {
+        await this.eventBus.publish(SampleEventFactory.createSampleProcessingFailedEvent({
+          sampleId,
+          userId,
+          processingStep: step.step_name,
+          error: options.notes ?? `${WORKFLOW_ACTIONS[action].label} failed`,
+          retryCount: 0,
+          maxRetries: 0,
+        }, sampleId))
+      }
+    }
+
+    if (applied.sample.status !== applied.previous.status) {
+      await this.auditLogger.logStatusChange(sampleId, userId, applied.previous.status, applied.sample.status)
+      await this.eventBus.publish(SampleEventFactory.createSampleStatusChangedEvent({
+        sampleId,
+        userId,
+        oldStatus: applied.previous.status,
+        newStatus: applied.sample.status,
+        reason: WORKFLOW_ACTIONS[action].label,
+      }, sampleId))
+    }
+  }
+
+  /**
+   * Reserve flow cells the way a manual move to sequencing does. Returns whether anything was reserved.
+   */
+  private async reserveFlowCells(sampleId: string, flowCellType: string | null, flowCellCount: number | null): Promise<boolean> {
+    // Samples on a multiplexed run already share the run's flow cell
+    const existing = await this.flowCellRepository.findActiveUsagesBySample(sampleId)
+    if (existing.length > 0) return false
+
+    const type = normalizeFlowCellType(flowCellType)
+    if (!type) {
+      throw new BusinessLogicError(`Flow cell type '${flowCellType}' is not tracked in inventory`)
+    }
+
+    await this.flowCellRepository.reserveForSample(sampleId, type, flowCellCount || 1)
+    return true
+  }
+}
@@ -0,0 +1,168 @@
+import type { ISequencingRunRepository, SequencingRunWithMembers, CreateSequencingRunData } from '../interfaces/ISequencingRunRepository'
+import type { IFlowCellRepository } from '../interfaces/IFlowCellRepository'
+import type { ISampleRepository } from '../interfaces/ISampleRepository'
+import type { ISampleService } from '../interfaces/ISampleService'
+import type { EventBus } from '../../lib/messaging/event-bus'
+import { SampleEventFactory } from '../../lib/messaging/events/sample-events'
+import { BusinessLogicError, ConflictError, NotFoundError, StatusTransitionError } from '../../middleware/errors/ErrorTypes'
+import { evaluateStatusTransition, type SampleStatus } from '@app/utils'
+import { RUN_SETUP_STEP, RUN_STEP, validateRunMembers } from '../../lib/workflow/SequencingRuns'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export class SequencingRunService {
+  private readonly logger = getComponentLogger('SequencingRunService')
+
+  constructor(
+    private readonly runRepository: ISequencingRunRepository,
+    private readonly flowCellRepository: IFlowCellRepository,
+    private readonly sampleRepository: ISampleRepository,
+    private readonly sampleService: ISampleService,
+    private readonly eventBus: EventBus
+  ) {}
+
+  /**
+   * Plan a run: validate barcodes, then reserve the flow cell for every member sample
+   */
+  async createRun(data: CreateSequencingRunData): Promise<SequencingRunWithMembers> {
+    const sampleIds = data.members.map(m => m.sampleId)
+    const details = await this.runRepository.findMemberDetails(sampleIds)
+
+    const missing = sampleIds.filter(id => !details.some(d => d.sample_id === id))
+    if (missing.length > 0) {
+      throw new NotFoundError('Sample', missing[0])
+    }
+
+    const members = validateRunMembers(data.barcodeKit, data.members, details.map(d => ({
+      sampleId: d.sample_id,
+      sampleName: d.sample_name,
+      barcodingRequired: Boolean(d.barcoding_required),
+      barcodeKit: d.barcode_kit
+    })))
+
+    const openRuns = await this.runRepository.findOpenRunIdsForSamples(sampleIds)
+    if (openRuns.length > 0) {
+      throw new ConflictError(`Samples already on an open run: ${openRuns.map(r => r.sample_id).join(', ')}`)
+    }
+
+    await this.flowCellRepository.reserveForSamples(data.flowCellId, sampleIds)
+
+    try {
+      const run = await this.runRepository.create({ ...data, members })
+
+      this.logger.info('Sequencing run planned', {
+        action: 'run_created',
+        metadata: { runId: run.id, flowCellId: data.flowCellId, sampleCount: members.length }
+      })
+
+      return run
+    } catch (error) {
+      await Promise.all(sampleIds.map(id => this.flowCellRepository.releaseForSample(id)))
+      throw error
+    }
+  }
+
+  /**
+   * Load the flow cell and move every member sample into sequencing together
+   */
+  async startRun(runId: string, actor: string): Promise<SequencingRunWithMembers> {
+    const run = await this.getRunOrThrow(runId)
+    if (run.status !== 'planned') {
+      throw new BusinessLogicError(`Run ${run.run_name} cannot be started from ${run.status}`)
+    }
+
+    // Check every member before changing anything so the run moves as a unit
+    await this.assertMembersCanMove(run, 'sequencing')
+
+    await this.flowCellRepository.markInUse(run.flow_cell_id)
+    const sampleIds = run.members.map(m => m.sample_id)
+    await this.runRepository.advanceSteps(sampleIds, RUN_SETUP_STEP, 'completed')
+    await this.runRepository.advanceSteps(sampleIds, RUN_STEP, 'in_progress')
+    await this.runRepository.updateStatus(runId, 'running')
+    await this.moveMembers(run, 'sequencing', `Sequencing run ${run.run_name} started`, actor)
+
+    return (await this.runRepository.findById(runId))!
+  }
+
+  /**
+   * Finish a running run. Successful runs move members to analysis; failed runs send them back to prep.
+   */
+  async completeRun(
+    runId: string,
+    outcome: 'completed' | 'failed',
+    flowCellOutcome: 'washed' | 'spent',
+    actor: string
+  ): Promise<SequencingRunWithMembers> {
+    const run = await this.getRunOrThrow(runId)
+    if (run.status !== 'running') {
+      throw new BusinessLogicError(`Run ${run.run_name} is not running`)
+    }
+
+    const nextStatus: SampleStatus = outcome === 'completed' ? 'analysis' : 'prep'
+    await this.assertMembersCanMove(run, nextStatus)
+
+    const sampleIds = run.members.map(m => m.sample_id)
+    await this.runRepository.advanceSteps(sampleIds, RUN_STEP, outcome === 'completed' ? 'completed' : 'failed')
+    await this.flowCellRepository.finishRun(run.flow_cell_id, flowCellOutcome)
+    await this.runRepository.updateStatus(runId, outcome)
+    await this.moveMembers(run, nextStatus, `Sequencing run ${run.run_name} ${outcome}`, actor)
+
+    return (await this.runRepository.findById(runId))!
+  }
+
+  /**
+   * Cancel a planned run and return its flow cell to stock
+   */
+  async cancelRun(runId: string): Promise<SequencingRunWithMembers> {
+    const run = await this.getRunOrThrow(runId)
+    if (run.status !== 'planned') {
+      throw new BusinessLogicError(`Only planned runs can be cancelled, ${run.run_name} is ${run.status}`)
+    }
+
+    for (const member of run.members) {
+      await this.flowCellRepository.releaseForSample(member.sample_id)
+    }
+    await this.runRepository.updateStatus(runId, 'cancelled')
+
+    return (await this.runRepository.findById(runId))!
+  }
+
+  private async assertMembersCanMove(run: SequencingRunWithMembers, to: SampleStatus): Promise<void> {
+    for (const member of run.members) {
+      if (member.status === to) continue
+
+      const sample = await this.sampleRepository.findById(member.sample_id)
+      if (!sample) {
+        throw new NotFoundError('Sample', member.sample_id)
+      }
+
+      const processingSteps = await this.sampleRepository.findProcessingSteps(sample.id)
+      const evaluation = evaluateStatusTransition(to, { sample, processingSteps })
+      if (!evaluation.allowed) {
+        throw new StatusTransitionError(evaluation.from, evaluation.to, evaluation.unmetPreconditions)
+      }
+    }
+  }
+
+  private async moveMembers(run: SequencingRunWithMembers, to: SampleStatus, reason: string, actor: string): Promise<void> {
+    for (const member of run.members) {
+      if (member.status === to) continue
+
+      await this.sampleService.updateSampleStatus(member.sample_id, to, actor)
+      await this.eventBus.publish(SampleEventFactory.createSampleStatusChangedEvent({
+        sampleId: member.sample_id,
+        userId: actor,
+        oldStatus: member.status as SampleStatus,
+        newStatus: to,
+        reason
+      }, run.id))
+    }
+  }
+
+  private async getRunOrThrow(runId: string): Promise<SequencingRunWithMembers> {
+    const run = await this.runRepository.findById(runId)
+    if (!run) {
+      throw new NotFoundError('Sequencing run', runId)
+    }
+    return run
+  }
+}
@@ -0,0 +1,168 @@
+import type { SubmitterPortalRepository, SharedAttachmentFile } from '../../repositories/SubmitterPortalRepository'
+import type { ISampleService, CreateSampleData, Sample } from '../interfaces/ISampleService'
+import type { SampleNote } from '../../repositories/SampleNoteRepository'
+import type { SampleNoteService } from './SampleNoteService'
+import type { EmailNotificationService } from './EmailNotificationService'
+import type { NotificationCenterService } from './NotificationCenterService'
+import { actorName, isOwnedBy, recordedOwner, type AccessUser } from '../../lib/auth/SampleAccess'
+import { portalProgress, type PortalSample } from '../../lib/portal/SubmitterPortal'
+import { PORTAL_LINK_TTL_MS, createPortalToken, portalLinkUrl, portalTokenHash, verifyPortalToken } from '../../lib/portal/PortalLinks'
+import { NotFoundError, ValidationError } from '../../middleware/errors/ErrorTypes'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export interface SubmitterPortalOptions {
+  appUrl: string
+  // Signs magic links; changing it invalidates links already sent
+  linkSecret: string
+}
+
+/**
+ * The submitter's view of the facility: their own samples, shared results and questions from staff.
+ * Everything staff-owned (assignments, internal notes, workflow) is read-only or hidden here.
+ */
+export class SubmitterPortalService {
+  private readonly logger = getComponentLogger('SubmitterPortalService')
+
+  constructor(
+    private readonly repository: SubmitterPortalRepository,
+    private readonly sampleService: ISampleService,
+    private readonly noteService: SampleNoteService,
+    private readonly emailService: EmailNotificationService,
+    private readonly notificationCenter: NotificationCenterService,
+    private readonly options: SubmitterPortalOptions
+  ) {}
+
+  async listSamples(user: AccessUser): Promise<PortalSample[]> {
+    const samples = await this.repository.findSamplesForSubmitter(user.id, user.emailVerified ? user.email : null)
+    const ids = samples.map(sample => sample.id)
+    const [steps, attachments] = await Promise.all([
+      this.repository.findSteps(ids),
+      this.repository.findSharedAttachments(ids),
+    ])
+
+    return samples.map(sample => ({
+      id: sample.id,
+      sampleName: sample.sample_name,
+      projectId: sample.project_id,
+      sampleType: sample.sample_type,
+      priority: sample.priority,
+      status: sample.status,
+      submittedAt: sample.submitted_at,
+      progress: portalProgress(sample.status, steps.get(sample.id)),
+      attachments: attachments
+        .filter(attachment => attachment.sampleId === sample.id)
+        .map(({ filePath: _filePath, ...attachment }) => attachment),
+    }))
+  }
+
+  /**
+   * Submit a sample as its owner, under the signed-in email. Assignment is left to the lab.
+   */
+  async submitSample(user: AccessUser, data: CreateSampleData): Promise<{ id: string; sampleName: string }> {
+    const sample = await this.sampleService.createSample({
+      ...data,
+      submitterEmail: user.email || data.submitterEmail,
+      assignedTo: undefined,
+      libraryPrepBy: undefined,
+      createdBy: recordedOwner(user),
+    })
+
+    this.logger.info('Sample submitted through the portal', {
+      action: 'portal_sample_submitted',
+      sampleId: sample.id,
+      metadata: { submitter: user.email }
+    })
+    return { id: sample.id, sampleName: sample.sample_name }
+  }
+
+  /**
+   * Notes staff made visible to the submitter, including QC questions awaiting an answer
+   */
+  async listQuestions(user: AccessUser, sampleId: string): Promise<SampleNote[]> {
+    await this.ownSample(user, sampleId)
+    return await this.noteService.listForSample(sampleId, false)
+  }
+
+  /**
+   * Reply to a submitter-visible note; its author is notified
+   */
+  async answerQuestion(user: AccessUser, sampleId: string, noteId: string, body: string): Promise<SampleNote> {
+    const sample = await this.ownSample(user, sampleId)
+    const question = (await this.noteService.listForSample(sampleId, false)).find(note => note.id === noteId)
+    if (!question) {
+      throw new NotFoundError('Sample note', noteId)
+    }
+
+    const author = actorName(user)
+    const reply = await this.noteService.create({
+      sampleId,
+      parentId: question.parentId ?? question.id,
+      body,
+      visibility: 'submitter',
+      attachmentIds: [],
+    }, author)
+
+    await this.notificationCenter.notify({
+      recipients: [question.author].filter(recipient => recipient !== author),
+      type: 'note_mention',
+      title: `${author} replied on ${sample.sample_name}`,
+      body: body.slice(0, 280),
+      sampleId,
+      dedupeKey: `portal_reply:${reply.id}`,
+    })
+    return reply
+  }
+
+  /**
+   * A shared attachment on one of the submitter's samples, for download
+   */
+  async getAttachment(user: AccessUser, attachmentId: string): Promise<SharedAttachmentFile> {
+    const samples = await this.repository.findSamplesForSubmitter(user.id, user.emailVerified ? user.email : null)
+    const attachment = (await this.repository.findSharedAttachments(samples.map(sample => sample.id)))
+      .find(candidate => candidate.id === attachmentId)
+    if (!attachment || !attachment.filePath) {
+      throw new NotFoundError('Attachment', attachmentId)
+    }
+    return attachment
+  }
+
+  /**
+   * Email a sign-in link when the address has submitted samples. Callers get the same answer either way.
+   */
+  async requestLink(email: string, now = new Date()): Promise<void> {
+    if (!(await this.repository.hasSamplesForEmail(email))) {
+      this.logger.info('Portal link requested for an address without samples', {
+        action: 'portal_link_unknown_email'
+      })
+      return
+    }
+
+    const token = createPortalToken(email, this.options.linkSecret, now)
+    await this.emailService.sendPortalLink(email, portalLinkUrl(this.options.appUrl, token), PORTAL_LINK_TTL_MS / 60000)
+  }
+
+  /**
+   * The email a sign-in link was sent to. Each link signs in once.
+   */
+  async redeemLink(token: string, now = new Date()): Promise<string> {
+    const email = verifyPortalToken(token, this.options.linkSecret, now)
+    if (!email) {
+      throw new ValidationError('This sign-in link is invalid or has expired', 'token')
+    }
+
+    const expiresAt = new Date(now.getTime() + PORTAL_LINK_TTL_MS)
+    if (!(await this.repository.redeemLink(portalTokenHash(token), email, expiresAt, now))) {
+      throw new ValidationError('This sign-in link has already been used', 'token')
+    }
+    return email
+  }
+
+  // Samples belonging to someone else are reported as missing rather than forbidden
+  private async ownSample(user: AccessUser, sampleId: string): Promise<Sample> {
+    const sample = await this.sampleService.getSampleById(sampleId)
+    if (!sample || !isOwnedBy(user, sample)) {
+      throw new NotFoundError('Sample', sampleId)
+    }
+    return sample
+  }
+}
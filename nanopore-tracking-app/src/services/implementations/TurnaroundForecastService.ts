@@ -0,0 +1,75 @@
+import type { TurnaroundRepository } from '../../repositories/TurnaroundRepository'
+import type { EventBus } from '../../lib/messaging/event-bus'
+import { SampleEventFactory } from '../../lib/messaging/events/sample-events'
+import {
+  forecastSample,
+  isRiskEscalation,
+  type SampleForecast
+} from '../../lib/workflow/TurnaroundForecast'
+import { getComponentLogger } from '../../lib/logging/StructuredLogger'
+
+export class TurnaroundForecastService {
+  private readonly logger = getComponentLogger('TurnaroundForecastService')
+
+  constructor(
+    private readonly turnaroundRepository: TurnaroundRepository,
+    private readonly eventBus: EventBus
+  ) {}
+
+  /**
+   * Forecast all active samples without changing anything, for dashboards to poll
+   */
+  async getForecasts(now: Date = new Date()): Promise<SampleForecast[]> {
+    const { samples, context } = await this.loadForecastInputs(now)
+    return samples.map(sample => forecastSample(sample, sample.steps, context))
+  }
+
+  /**
+   * Forecast all active samples, persist the projections and raise an event for every
+   * sample whose SLA risk escalated since the last run. Run on a schedule, not per request.
+   */
+  async refreshForecasts(now: Date = new Date()): Promise<SampleForecast[]> {
+    const { samples, context } = await this.loadForecastInputs(now)
+    const forecasts: SampleForecast[] = []
+
+    for (const sample of samples) {
+      const forecast = forecastSample(sample, sample.steps, context)
+
+      // Only the run that records the new risk raises the event, so overlapping runs alert once
+      const riskRecorded = await this.turnaroundRepository.saveForecast(sample.id, forecast.projectedCompletionAt, forecast.risk, sample.sla_risk)
+
+      if (riskRecorded && forecast.risk !== 'on_track' && isRiskEscalation(sample.sla_risk, forecast.risk)) {
+        this.logger.warn('Sample SLA at risk', {
+          action: 'sla_at_risk',
+          metadata: { sampleId: sample.id, previousRisk: sample.sla_risk, risk: forecast.risk, slackHours: forecast.slackHours }
+        })
+
+        await this.eventBus.publish(SampleEventFactory.createSampleSlaAtRiskEvent({
+          sampleId: sample.id,
+          sampleName: sample.sample_name,
+          priority: forecast.priority,
+          previousRisk: sample.sla_risk,
+          risk: forecast.risk,
+          projectedCompletionAt: forecast.projectedCompletionAt,
+          slaDeadline: forecast.slaDeadline,
+          slackHours: forecast.slackHours,
+          ...(sample.assigned_to && { assignedTo: sample.assigned_to })
+        }))
+      }
+
+      forecasts.push(forecast)
+    }
+
+    return forecasts
+  }
+
+  private async loadForecastInputs(now: Date) {
+    const [samples, stepDurations, queueDepthByAssignee] = await Promise.all([
+      this.turnaroundRepository.findActiveSamplesWithSteps(),
+      this.turnaroundRepository.getStepDurationStats(),
+      this.turnaroundRepository.getQueueDepthByAssignee()
+    ])
+
+    return { samples, context: { now, stepDurations, queueDepthByAssignee } }
+  }
+}
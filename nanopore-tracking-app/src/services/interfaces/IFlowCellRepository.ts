@@ -0,0 +1,60 @@
+import type { FlowCellStatus, FlowCellType } from '../../lib/inventory/FlowCellInventory'
+
+export interface FlowCell {
+  id: string
+  serial_number: string
+  lot_number: string
+  flow_cell_type: FlowCellType
+  expiry_date: Date
+  status: FlowCellStatus
+  last_pore_count: number | null
+  last_pore_check_at: Date | null
+  wash_count: number
+  notes: string | null
+  received_at: Date
+  created_at: Date
+  updated_at: Date
+}
+
+export interface FlowCellUsage {
+  id: string
+  flow_cell_id: string
+  sample_id: string
+  wash_cycle: number
+  status: 'reserved' | 'in_use' | 'completed' | 'released'
+  reserved_at: Date
+  started_at: Date | null
+  ended_at: Date | null
+}
+
+export interface FlowCellPoreCheck {
+  id: string
+  flow_cell_id: string
+  pore_count: number
+  passed: boolean
+  checked_by: string | null
+  checked_at: Date
+}
+
+export interface CreateFlowCellData {
+  serialNumber: string
+  lotNumber: string
+  flowCellType: FlowCellType
+  expiryDate: Date
+  notes?: string | undefined
+}
+
+export interface IFlowCellRepository {
+  create(data: CreateFlowCellData): Promise<FlowCell>
+  findById(id: string): Promise<FlowCell | null>
+  findAll(status?: FlowCellStatus): Promise<FlowCell[]>
+  findUsagesByFlowCell(flowCellId: string): Promise<FlowCellUsage[]>
+  findActiveUsagesBySample(sampleId: string): Promise<FlowCellUsage[]>
+  recordPoreCheck(flowCellId: string, poreCount: number, checkedBy?: string): Promise<FlowCellPoreCheck>
+  reserveForSample(sampleId: string, flowCellType: FlowCellType, count: number, flowCellIds?: string[]): Promise<FlowCellUsage[]>
+  reserveForSamples(flowCellId: string, sampleIds: string[]): Promise<FlowCellUsage[]>
+  releaseForSample(sampleId: string): Promise<number>
+  markInUse(flowCellId: string): Promise<FlowCell>
+  finishRun(flowCellId: string, outcome: 'washed' | 'spent'): Promise<FlowCell>
+  retire(flowCellId: string): Promise<FlowCell>
+}
@@ -1,4 +1,5 @@
-import type { Sample, CreateSampleData, UpdateSampleData, SearchCriteria } from './ISampleService'
+import type { Sample, CreateSampleData, UpdateSampleData, SearchCriteria, ProcessingStep } from './ISampleService'
+import type { SampleQueryPlan, SampleQueryResult } from '../../lib/ai/sample-query-plan'
 
 export interface ISampleRepository {
   create(data: CreateSampleData): Promise<Sample>
@@ -15,4 +16,6 @@ export interface ISampleRepository {
   count(): Promise<number>
   countByStatus(status: string): Promise<number>
   countByPriority(priority: string): Promise<number>
+  findProcessingSteps(sampleId: string): Promise<ProcessingStep[]>
+  runQueryPlan(plan: SampleQueryPlan): Promise<SampleQueryResult>
 } 
\ No newline at end of file
@@ -15,6 +15,11 @@ export interface CreateSampleData {
   assignedTo?: string | undefined
   libraryPrepBy?: string | undefined
   chartField: string
+  // Recorded in the sample details and used to pick the workflow template
+  libraryPrepKit?: string | undefined
+  barcodingRequired?: boolean | undefined
+  // Submitting user; samples from unauthenticated sources belong to the demo user
+  createdBy?: string | undefined
 }
 
 export interface UpdateSampleData {
@@ -61,6 +66,28 @@ export interface Sample {
   created_at: Date
   updated_at: Date
   created_by: string
+  workflow_template_id?: string | null
+  projected_completion_at?: Date | null
+  sla_risk?: 'on_track' | 'at_risk' | 'breached'
+  sla_risk_updated_at?: Date | null
+}
+
+export interface ProcessingStep {
+  id: string
+  sample_id: string
+  step_name: string
+  step_status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped'
+  assigned_to: string | null
+  started_at: Date | null
+  completed_at: Date | null
+  estimated_duration_hours: number | null
+  notes: string | null
+  results_data: Record<string, any> | null
+  step_order: number | null
+  required_role: string | null
+  depends_on: string[]
+  created_at: Date
+  updated_at: Date
 }
 
 export interface SearchCriteria {
@@ -77,13 +104,14 @@ export interface SearchCriteria {
 
 export interface ISampleService {
   createSample(data: CreateSampleData): Promise<Sample>
-  updateSample(id: string, data: UpdateSampleData): Promise<Sample>
+  // actor is the name of the user making the change, recorded in the audit log and events
+  updateSample(id: string, data: UpdateSampleData, actor: string): Promise<Sample>
   getSampleById(id: string): Promise<Sample | null>
   getAllSamples(): Promise<Sample[]>
   searchSamples(criteria: SearchCriteria): Promise<Sample[]>
-  deleteSample(id: string): Promise<{ success: boolean }>
-  assignSample(id: string, assignedTo: string, libraryPrepBy?: string): Promise<Sample>
-  updateSampleStatus(id: string, status: 'submitted' | 'prep' | 'sequencing' | 'analysis' | 'completed' | 'archived'): Promise<Sample>
+  deleteSample(id: string, actor: string): Promise<{ success: boolean }>
+  assignSample(id: string, assignedTo: string, libraryPrepBy: string | undefined, actor: string): Promise<Sample>
+  updateSampleStatus(id: string, status: 'submitted' | 'prep' | 'sequencing' | 'analysis' | 'completed' | 'archived', actor: string): Promise<Sample>
   getSamplesByStatus(status: string): Promise<Sample[]>
   getSamplesByUser(userId: string): Promise<Sample[]>
 } 
\ No newline at end of file
@@ -0,0 +1,54 @@
+import type { SequencingRunStatus } from '../../lib/workflow/SequencingRuns'
+
+export interface SequencingRun {
+  id: string
+  run_name: string
+  flow_cell_id: string
+  device_id: string
+  device_position: string | null
+  barcode_kit: string
+  status: SequencingRunStatus
+  started_at: Date | null
+  completed_at: Date | null
+  notes: string | null
+  created_by: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface SequencingRunMember {
+  sample_id: string
+  sample_name: string
+  barcode: string
+  status: string
+}
+
+export interface SequencingRunWithMembers extends SequencingRun {
+  members: SequencingRunMember[]
+}
+
+export interface CreateSequencingRunData {
+  runName: string
+  flowCellId: string
+  deviceId: string
+  devicePosition?: string | undefined
+  barcodeKit: string
+  notes?: string | undefined
+  createdBy?: string | undefined
+  members: Array<{ sampleId: string; barcode: string }>
+}
+
+export interface ISequencingRunRepository {
+  create(data: CreateSequencingRunData): Promise<SequencingRunWithMembers>
+  findById(id: string): Promise<SequencingRunWithMembers | null>
+  findAll(status?: SequencingRunStatus): Promise<SequencingRun[]>
+  findOpenRunIdsForSamples(sampleIds: string[]): Promise<Array<{ sample_id: string; run_id: string }>>
+  findMemberDetails(sampleIds: string[]): Promise<Array<{
+    sample_id: string
+    sample_name: string
+    barcoding_required: boolean | null
+    barcode_kit: string | null
+  }>>
+  updateStatus(id: string, status: SequencingRunStatus): Promise<SequencingRun>
+  advanceSteps(sampleIds: string[], stepName: string, stepStatus: 'in_progress' | 'completed' | 'failed'): Promise<number>
+}
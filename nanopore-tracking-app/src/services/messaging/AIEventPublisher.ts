@@ -154,11 +154,11 @@ export class AIEventPublisher {
    */
   async publishExtractionConfidenceLow(
     extractionResultId: string,
-    sampleId: string,
+    sampleId: string | undefined,
     fileName: string,
     confidenceScore: number,
     threshold: number,
-    extractionMethod: 'llm' | 'pattern' | 'hybrid' | 'rag',
+    extractionMethod: 'template' | 'llm' | 'pattern' | 'hybrid' | 'rag',
     issues: string[],
     userId?: string,
     correlationId?: string
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import { parseDelimited, readSpreadsheet, readXlsx } from '../../src/lib/intake/SpreadsheetReader'
+import {
+  analyzeIntakeSheet,
+  autoMapColumns,
+  buildIntakeErrorReport,
+  validateIntakeRow,
+} from '../../src/lib/intake/BulkIntake'
+import { writeXlsx, type XlsxCellValue } from '../../src/lib/export/XlsxWriter'
+import { ZipFormatError, ZipReader } from '../../src/lib/zip/ZipArchive'
+import { ValidationError } from '../../src/middleware/errors/ErrorTypes'
+
+const headers = ['Sample ID', 'Submitter', 'E-mail', 'Type', 'Conc (ng/uL)', 'Volume (uL)', 'Flowcell', 'Chart String', 'Notes']
+
+async function xlsxBuffer(rows: XlsxCellValue[][]): Promise<Buffer> {
+  async function* single() {
+    yield rows
+  }
+  const parts: Buffer[] = []
+  for await (const chunk of writeXlsx('Samples', single())) {
+    parts.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(parts)
+}
+
+describe('parseDelimited', () => {
+  it('should handle quoted delimiters, escaped quotes and embedded newlines', () => {
+    const rows = parseDelimited('﻿name,notes\r\n"S1","a, ""b""\nc"\r\n\r\nS2,plain\n')
+
+    expect(rows).toEqual([
+      ['name', 'notes'],
+      ['S1', 'a, "b"\nc'],
+      [],
+      ['S2', 'plain'],
+    ])
+  })
+
+  it('should split tab-separated text', () => {
+    expect(parseDelimited('a\tb\n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
+
+describe('readXlsx', () => {
+  it('should read the first sheet of a workbook, keeping blank cells in place', async () => {
+    const buffer = await xlsxBuffer([
+      ['Sample Name', 'Concentration', 'Barcoded'],
+      ['S1 & <co>', 12.5, true],
+      ['S2', null, false],
+    ])
+
+    expect(readXlsx(buffer)).toEqual([
+      ['Sample Name', 'Concentration', 'Barcoded'],
+      ['S1 & <co>', '12.5', 'TRUE'],
+      ['S2', '', 'FALSE'],
+    ])
+  })
+
+  it('should reject files that are not zip archives', () => {
+    expect(() => readSpreadsheet('samples.xlsx', Buffer.from('not a workbook'))).toThrow(ValidationError)
+  })
+
+  it('should reject unsupported file types', () => {
+    expect(() => readSpreadsheet('samples.pdf', Buffer.from(''))).toThrow(ValidationError)
+  })
+
+  it('should report truncated and corrupt archives as invalid files', async () => {
+    const buffer = await xlsxBuffer([['Sample Name'], ['S1']])
+    // Point the central directory past the end of the file
+    const corrupt = Buffer.from(buffer)
+    corrupt.writeUInt32LE(0xffffff00, corrupt.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06])) + 16)
+
+    expect(() => readXlsx(corrupt)).toThrow(ValidationError)
+    expect(() => readXlsx(buffer.subarray(0, 200))).toThrow(ValidationError)
+  })
+
+  it('should refuse rows past the limit while reading', async () => {
+    const buffer = await xlsxBuffer([['Sample Name'], ['S1'], ['S2']])
+
+    expect(readXlsx(buffer, { maxRows: 3 })).toHaveLength(3)
+    expect(() => readXlsx(buffer, { maxRows: 2 })).toThrow('past row 2')
+  })
+})
+
+describe('ZipReader', () => {
+  it('should refuse entries that inflate past the size limit', async () => {
+    const zip = new ZipReader(await xlsxBuffer([['x'.repeat(5000)]]))
+
+    expect(zip.read('xl/worksheets/sheet1.xml', 1_000_000)?.toString('utf8')).toContain('x'.repeat(5000))
+    expect(() => zip.read('xl/worksheets/sheet1.xml', 1000)).toThrow(ZipFormatError)
+    expect(zip.read('missing.xml', 1000)).toBeUndefined()
+  })
+})
+
+describe('autoMapColumns', () => {
+  it('should match submitter headers to sample fields', () => {
+    expect(autoMapColumns(headers)).toEqual({
+      sampleName: 0,
+      submitterName: 1,
+      submitterEmail: 2,
+      sampleType: 3,
+      concentration: 4,
+      volume: 5,
+      flowCellType: 6,
+      chartField: 7,
+      specialInstructions: 8,
+    })
+  })
+
+  it('should tolerate small misspellings but leave unrelated headers unmapped', () => {
+    const mapping = autoMapColumns(['Sampel Name', 'Priorty', 'Freezer Box'])
+
+    expect(mapping.sampleName).toBe(0)
+    expect(mapping.priority).toBe(1)
+    expect(Object.values(mapping)).not.toContain(2)
+  })
+})
+
+describe('validateIntakeRow', () => {
+  const mapping = autoMapColumns(headers)
+
+  it('should normalize spreadsheet values into a valid sample', () => {
+    const { data, errors } = validateIntakeRow(
+      ['NANO-S1', 'Jane Doe', 'jane@example.edu', 'Genomic DNA', '12.5 ng/uL', '20', '10.4.1', 'nano-001', 'Keep cold'],
+      mapping
+    )
+
+    expect(errors).toEqual([])
+    expect(data).toMatchObject({
+      sampleName: 'NANO-S1',
+      sampleType: 'DNA',
+      concentration: 12.5,
+      volume: 20,
+      flowCellType: 'R10.4.1',
+      chartField: 'NANO-001',
+      priority: 'normal',
+      specialInstructions: 'Keep cold',
+    })
+  })
+
+  it('should report every problem on the row', () => {
+    const { data, errors } = validateIntakeRow(
+      ['NANO-S2', 'Jane Doe', 'not-an-email', 'DNA', 'lots', '20', '', 'ACCT-9', ''],
+      mapping
+    )
+
+    expect(data).toBeNull()
+    expect(errors).toContain("Concentration: 'lots' is not a number")
+    expect(errors.some(error => error.startsWith('Submitter Email:'))).toBe(true)
+    expect(errors.some(error => error.startsWith('Chart Field:'))).toBe(true)
+  })
+})
+
+describe('analyzeIntakeSheet', () => {
+  const rows = [
+    [],
+    headers,
+    ['S1', 'Jane Doe', 'jane@example.edu', 'DNA', '10', '20', '', 'NANO-001', ''],
+    [],
+    ['S1', 'Jane Doe', 'jane@example.edu', 'DNA', '10', '20', '', 'NANO-001', ''],
+    ['S3', '', 'jane@example.edu', 'RNA', '', '', '', 'SEQ-002', 'note, with comma'],
+  ]
+
+  it('should use spreadsheet row numbers and flag duplicate sample names', () => {
+    const analysis = analyzeIntakeSheet(rows)
+
+    expect(analysis.unmappedRequired).toEqual([])
+    expect(analysis.rows.map(row => row.rowNumber)).toEqual([3, 5, 6])
+    expect(analysis.rows[0]!.data).not.toBeNull()
+    expect(analysis.rows[1]!.errors).toEqual(["Sample Name: 'S1' duplicates row 3"])
+    expect(analysis.rows[2]!.errors[0]).toMatch(/^Submitter Name:/)
+  })
+
+  it('should list required fields without a mapped column', () => {
+    const analysis = analyzeIntakeSheet([['Sample Name'], ['S1']])
+
+    expect(analysis.unmappedRequired).toEqual(['submitterName', 'submitterEmail', 'sampleType', 'chartField'])
+    expect(analysis.rows[0]!.data).toBeNull()
+  })
+
+  it('should build an error report of rejected rows with their original cells', () => {
+    const analysis = analyzeIntakeSheet(rows)
+    const report = buildIntakeErrorReport(analysis.headers, analysis.rows.filter(row => !row.data))
+    const lines = report.trim().split('\n')
+
+    expect(lines[0]).toBe(`Row,${headers.join(',')},Errors`)
+    expect(lines).toHaveLength(3)
+    expect(lines[2]).toContain('"note, with comma"')
+  })
+})
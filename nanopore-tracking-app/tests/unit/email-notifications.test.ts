@@ -0,0 +1,221 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  emailTemplateSchema,
+  isDigestDue,
+  milestoneForEvent,
+  parseStaffEmails,
+  renderDigest,
+  renderTemplate,
+  retryDelayMs,
+  unknownPlaceholders
+} from '../../src/lib/notifications/EmailNotifications'
+import { QC_STEP } from '../../src/lib/workflow/WorkflowActions'
+import { createSmtpTransport } from '../../src/lib/notifications/SmtpTransport'
+import { EmailNotificationService } from '../../src/services/implementations/EmailNotificationService'
+import type { EmailNotificationRepository } from '../../src/repositories/EmailNotificationRepository'
+import type { EmailConfig } from '../../src/lib/config/ConfigManager'
+import { startSmtpStandIn, type SmtpStandIn } from '../utils/smtp-stand-in'
+
+describe('milestoneForEvent', () => {
+  it('maps sample events to milestones', () => {
+    expect(milestoneForEvent({ type: 'sample.created', data: { sampleId: 's1' } })?.milestone).toBe('sample_received')
+    expect(milestoneForEvent({ type: 'sample.status_changed', data: { sampleId: 's1', newStatus: 'sequencing' } })?.milestone)
+      .toBe('sequencing_started')
+    expect(milestoneForEvent({ type: 'sample.status_changed', data: { sampleId: 's1', newStatus: 'completed' } })?.milestone)
+      .toBe('data_delivered')
+    expect(milestoneForEvent({ type: 'sample.assigned', data: { sampleId: 's1', assignedTo: 'Grey' } }))
+      .toEqual({ milestone: 'sample_assigned', sampleId: 's1', assignedTo: 'Grey' })
+  })
+
+  it('only treats failed QC as a QC milestone', () => {
+    expect(milestoneForEvent({
+      type: 'sample.processing_completed',
+      data: { sampleId: 's1', processingStep: QC_STEP, results: { qcPassed: false, notes: 'Low yield' } },
+    })).toEqual({ milestone: 'qc_failed', sampleId: 's1', notes: 'Low yield' })
+    expect(milestoneForEvent({
+      type: 'sample.processing_completed',
+      data: { sampleId: 's1', processingStep: QC_STEP, results: { qcPassed: true } },
+    })).toBeNull()
+    expect(milestoneForEvent({ type: 'sample.status_changed', data: { sampleId: 's1', newStatus: 'prep' } })).toBeNull()
+  })
+})
+
+describe('templates', () => {
+  it('fills placeholders and collapses the gaps missing values leave', () => {
+    const rendered = renderTemplate(DEFAULT_EMAIL_TEMPLATES.data_delivered, {
+      sampleName: 'NANO-001',
+      submitterName: 'Dana',
+    })
+
+    expect(rendered.subject).toBe('Data delivered for NANO-001')
+    expect(rendered.body).toBe('Hello Dana,\n\nSequencing data for NANO-001 has been delivered.')
+  })
+
+  it('rejects unknown placeholders', () => {
+    expect(unknownPlaceholders('{{sampleName}} {{ labName }}')).toEqual(['labName'])
+    const result = emailTemplateSchema.safeParse({ subject: 'Hi {{foo}}', body: 'Body' })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('delivery helpers', () => {
+  it('backs off exponentially with a cap', () => {
+    expect(retryDelayMs(1)).toBe(60_000)
+    expect(retryDelayMs(3)).toBe(240_000)
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000)
+  })
+
+  it('parses staff addresses by lowercased name', () => {
+    const emails = parseStaffEmails('Grey = grey@lab.org, broken, Stuart=stuart@lab.org')
+    expect([...emails]).toEqual([['grey', 'grey@lab.org'], ['stuart', 'stuart@lab.org']])
+  })
+
+  it('combines digest items oldest first once the interval has passed', () => {
+    const digest = renderDigest([
+      { subject: 'Second', body: 'b', createdAt: '2025-07-01T10:00:00Z' },
+      { subject: 'First', body: 'a', createdAt: '2025-07-01T09:00:00Z' },
+    ])
+
+    expect(digest.subject).toBe('Sample updates: 2 notifications')
+    expect(digest.body.indexOf('First')).toBeLessThan(digest.body.indexOf('Second'))
+    expect(isDigestDue('2025-07-01T09:00:00Z', new Date('2025-07-02T08:59:00Z'), 24)).toBe(false)
+    expect(isDigestDue('2025-07-01T09:00:00Z', new Date('2025-07-02T09:00:00Z'), 24)).toBe(true)
+  })
+})
+
+// Just the repository methods the service uses, kept in memory
+function createMemoryRepository() {
+  const outbox: any[] = []
+  const preferences = new Map<string, any>()
+
+  const repository = {
+    outbox,
+    findTemplates: async () => [],
+    getPreference: async (email: string) => {
+      const address = email.toLowerCase()
+      if (!preferences.has(address)) {
+        preferences.set(address, { email: address, opted_out: false, digest: false, unsubscribe_token: `token${preferences.size + 1}` })
+      }
+      return preferences.get(address)
+    },
+    updatePreference: async (email: string, changes: { optedOut?: boolean; digest?: boolean }) => {
+      const preference = await repository.getPreference(email)
+      if (changes.optedOut !== undefined) preference.opted_out = changes.optedOut
+      if (changes.digest !== undefined) preference.digest = changes.digest
+      return preference
+    },
+    enqueue: async (data: any) => {
+      if (outbox.some(row => row.event_id === data.eventId && row.recipient === data.recipient)) return false
+      outbox.push({
+        id: `msg-${outbox.length + 1}`,
+        recipient: data.recipient,
+        subject: data.subject,
+        body: data.body,
+        event_id: data.eventId,
+        status: data.digest ? 'digest' : 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: new Date(0),
+        created_at: new Date(),
+      })
+      return true
+    },
+    claimDue: async () => {
+      const due = outbox.filter(row => row.status === 'pending' && row.next_attempt_at <= new Date())
+      due.forEach(row => {
+        row.attempts++
+        row.next_attempt_at = new Date(Date.now() + 60_000)
+      })
+      return due
+    },
+    markSent: async (id: string) => {
+      outbox.find(row => row.id === id).status = 'sent'
+    },
+    markFailed: async (id: string, error: string, retryAt: Date | null) => {
+      const row = outbox.find(row => row.id === id)
+      row.status = retryAt ? 'pending' : 'failed'
+      row.last_error = error
+      if (retryAt) row.next_attempt_at = retryAt
+    },
+  }
+  return repository
+}
+
+describe('EmailNotificationService over SMTP', () => {
+  let smtp: SmtpStandIn
+
+  beforeAll(async () => {
+    smtp = await startSmtpStandIn()
+  })
+
+  afterAll(async () => {
+    await smtp.close()
+  })
+
+  const sample = {
+    id: 'sample-1',
+    sample_name: 'NANO-001',
+    submitter_name: 'Dana Smith',
+    submitter_email: 'Dana@Example.com',
+    project_id: 'HTSF-1',
+    status: 'sequencing',
+    assigned_to: 'Grey',
+  }
+
+  const buildService = (repository: ReturnType<typeof createMemoryRepository>) => {
+    const transport = createSmtpTransport({
+      smtp: { host: '127.0.0.1', port: smtp.port, secure: false, username: '', password: '' },
+      templates: {},
+      fromAddress: 'facility@lab.org',
+      adminEmails: [],
+    } as unknown as EmailConfig)
+
+    return new EmailNotificationService(
+      repository as unknown as EmailNotificationRepository,
+      { findById: async () => sample } as any,
+      transport,
+      {} as any,
+      { appUrl: 'https://lab.org', staffEmails: parseStaffEmails('Grey=grey@lab.org'), digestIntervalHours: 24 }
+    )
+  }
+
+  it('queues once per recipient and delivers with an unsubscribe link', async () => {
+    smtp.received.length = 0
+    const repository = createMemoryRepository()
+    const service = buildService(repository)
+    const event = { id: 'event-1', type: 'sample.status_changed', data: { sampleId: 'sample-1', newStatus: 'sequencing' } }
+
+    expect(await service.handleEvent(event as any)).toBe(2)
+    expect(await service.handleEvent(event as any)).toBe(0)
+
+    expect(await service.dispatchDue()).toEqual({ sent: 2, failed: 0 })
+    expect(smtp.received.map(email => email.to[0]).sort()).toEqual(['dana@example.com', 'grey@lab.org'])
+    const submitterEmail = smtp.received.find(email => email.to[0] === 'dana@example.com')!
+    expect(submitterEmail.from).toBe('facility@lab.org')
+    expect(submitterEmail.data).toContain('Subject: Sequencing started for NANO-001')
+    // Bodies arrive quoted-printable
+    const body = submitterEmail.data.replace(/=\r\n/g, '').replace(/=3D/g, '=')
+    expect(body).toMatch(/https:\/\/lab\.org\/api\/email-unsubscribe\?token=token\d/)
+  })
+
+  it('reschedules a rejected send and skips opted-out recipients', async () => {
+    smtp.received.length = 0
+    const repository = createMemoryRepository()
+    const service = buildService(repository)
+    await repository.updatePreference('grey@lab.org', { optedOut: true })
+
+    await service.handleEvent({ id: 'event-2', type: 'sample.created', data: { sampleId: 'sample-1' } } as any)
+    smtp.failNext(1)
+
+    expect(await service.dispatchDue()).toEqual({ sent: 0, failed: 1 })
+    expect(repository.outbox[0]).toMatchObject({ status: 'pending', attempts: 1 })
+    expect(repository.outbox[0].next_attempt_at.getTime()).toBeGreaterThan(Date.now())
+
+    repository.outbox[0].next_attempt_at = new Date(0)
+    expect(await service.dispatchDue()).toEqual({ sent: 1, failed: 0 })
+    expect(smtp.received).toHaveLength(1)
+    expect(smtp.received[0]!.to).toEqual(['dana@example.com'])
+  })
+})
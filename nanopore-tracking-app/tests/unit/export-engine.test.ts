@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import { inflateRawSync } from 'node:zlib'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  escapeDelimitedField,
+  exportFilename,
+  resolveExportColumns,
+  serializeExport,
+  type ExportRow,
+} from '../../src/lib/export/ExportEngine'
+import { ValidationError } from '../../src/middleware/errors/ErrorTypes'
+
+const rows: ExportRow[] = [
+  {
+    sample: { id: 's1', sample_name: 'Sample, "one"', status: 'sequencing', concentration: 12.5 },
+    details: { organism: 'E. coli', qc_passed: true },
+    steps: [
+      {
+        step_name: 'Library Preparation',
+        step_status: 'completed',
+        started_at: new Date('2025-01-01T08:00:00Z'),
+        completed_at: new Date('2025-01-01T12:30:00Z'),
+      },
+      {
+        step_name: 'Sequencing Run',
+        step_status: 'in_progress',
+        started_at: new Date('2025-01-01T13:00:00Z'),
+        completed_at: null,
+      },
+    ],
+  },
+  {
+    sample: { id: 's2', sample_name: 'Line\nbreak', status: 'submitted', concentration: null },
+    details: null,
+    steps: [],
+  },
+]
+
+async function* batchesOf(...batches: ExportRow[][]) {
+  yield* batches
+}
+
+async function collect(generator: AsyncGenerator<string | Uint8Array>): Promise<Buffer> {
+  const parts: Buffer[] = []
+  for await (const chunk of generator) {
+    parts.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk))
+  }
+  return Buffer.concat(parts)
+}
+
+describe('resolveExportColumns', () => {
+  it('should resolve sample, detail and summary columns in request order', () => {
+    const columns = resolveExportColumns(['sample_name', 'details.organism', 'steps.completed'])
+
+    expect(columns.map(column => column.key)).toEqual(['sample_name', 'details.organism', 'steps.completed'])
+    expect(columns.map(column => column.value(rows[0]!))).toEqual(['Sample, "one"', 'E. coli', 1])
+  })
+
+  it('should resolve step columns for any step name', () => {
+    const [status, duration, missing] = resolveExportColumns([
+      'step:Sequencing Run:status',
+      'step:Library Preparation:duration_hours',
+      'step:Custom Step:status',
+    ])
+
+    expect(status!.value(rows[0]!)).toBe('in_progress')
+    expect(duration!.value(rows[0]!)).toBe(4.5)
+    expect(missing!.value(rows[0]!)).toBeNull()
+  })
+
+  it('should reject unknown columns', () => {
+    expect(() => resolveExportColumns(['sample_name', 'password'])).toThrow(ValidationError)
+  })
+
+  it('should default to the 22 legacy CSV columns', () => {
+    expect(DEFAULT_EXPORT_COLUMNS).toHaveLength(22)
+    expect(DEFAULT_EXPORT_COLUMNS[0]).toBe('id')
+    expect(resolveExportColumns(DEFAULT_EXPORT_COLUMNS)).toHaveLength(22)
+  })
+})
+
+describe('escapeDelimitedField', () => {
+  it('should quote CSV fields containing separators or quotes', () => {
+    expect(escapeDelimitedField('plain', ',')).toBe('plain')
+    expect(escapeDelimitedField('a,b', ',')).toBe('"a,b"')
+    expect(escapeDelimitedField('say "hi"', ',')).toBe('"say ""hi"""')
+  })
+
+  it('should replace tabs and newlines in TSV fields', () => {
+    expect(escapeDelimitedField('a\tb\r\nc', '\t')).toBe('a b c')
+  })
+})
+
+describe('serializeExport', () => {
+  const columns = resolveExportColumns(['id', 'sample_name', 'concentration', 'details.qc_passed'])
+
+  it('should write CSV with a header row and escaped values', async () => {
+    const output = (await collect(serializeExport('csv', columns, batchesOf([rows[0]!], [rows[1]!])))).toString('utf8')
+
+    expect(output.split('\n')[0]).toBe('ID,Sample Name,Concentration,QC Passed')
+    expect(output).toContain('s1,"Sample, ""one""",12.5,true\n')
+    expect(output).toContain('s2,"Line\nbreak",,\n')
+  })
+
+  it('should write TSV without quoting', async () => {
+    const output = (await collect(serializeExport('tsv', columns, batchesOf(rows)))).toString('utf8')
+
+    expect(output.split('\n')).toEqual([
+      'ID\tSample Name\tConcentration\tQC Passed',
+      's1\tSample, "one"\t12.5\ttrue',
+      's2\tLine break\t\t',
+      '',
+    ])
+  })
+
+  it('should write one JSON object per line keyed by column', async () => {
+    const output = (await collect(serializeExport('ndjson', columns, batchesOf(rows)))).toString('utf8')
+    const lines = output.trim().split('\n').map(line => JSON.parse(line))
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toEqual({ id: 's1', sample_name: 'Sample, "one"', concentration: 12.5, 'details.qc_passed': true })
+    expect(lines[1]['details.qc_passed']).toBeNull()
+  })
+
+  it('should write a zip package whose sheet holds every row', async () => {
+    const output = await collect(serializeExport('xlsx', columns, batchesOf([rows[0]!], [rows[1]!])))
+
+    expect(output.subarray(0, 2).toString('latin1')).toBe('PK')
+
+    // Walk the central directory to find each entry
+    const endOffset = output.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+    const entryCount = output.readUInt16LE(endOffset + 10)
+    let offset = output.readUInt32LE(endOffset + 16)
+    const entries: Record<string, Buffer> = {}
+
+    for (let i = 0; i < entryCount; i++) {
+      expect(output.readUInt32LE(offset)).toBe(0x02014b50)
+      const method = output.readUInt16LE(offset + 10)
+      const compressedSize = output.readUInt32LE(offset + 20)
+      const nameLength = output.readUInt16LE(offset + 28)
+      const localOffset = output.readUInt32LE(offset + 42)
+      const name = output.subarray(offset + 46, offset + 46 + nameLength).toString('utf8')
+
+      const dataStart = localOffset + 30 + output.readUInt16LE(localOffset + 26)
+      const data = output.subarray(dataStart, dataStart + compressedSize)
+      entries[name] = method === 8 ? inflateRawSync(data) : data
+      offset += 46 + nameLength
+    }
+
+    expect(Object.keys(entries)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ])
+
+    const sheet = entries['xl/worksheets/sheet1.xml']!.toString('utf8')
+    expect(sheet).toContain('<row r="1">')
+    expect(sheet).toContain('<row r="3">')
+    expect(sheet).toContain('Sample, &quot;one&quot;')
+    expect(sheet).toContain('<c><v>12.5</v></c>')
+    expect(sheet).toContain('<c t="b"><v>1</v></c>')
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true)
+  })
+})
+
+describe('exportFilename', () => {
+  it('should build a safe dated filename with the format extension', () => {
+    expect(exportFilename('xlsx', 'Weekly Report!', new Date('2025-03-04T10:00:00Z'))).toBe('weekly-report-2025-03-04.xlsx')
+    expect(exportFilename('csv', undefined, new Date('2025-03-04T10:00:00Z'))).toBe('nanopore-samples-2025-03-04.csv')
+  })
+})
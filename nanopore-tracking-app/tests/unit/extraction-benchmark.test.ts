@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import pdfParse from 'pdf-parse/lib/pdf-parse.js'
+import {
+  formatBenchmarkReport,
+  loadBenchmarkCorpus,
+  normalizeFieldValue,
+  runExtractionBenchmark,
+  type BenchmarkCase,
+  type BenchmarkReport,
+} from '../../src/lib/ai/extraction-benchmark'
+import { NanoporeFormExtractionService } from '../../src/lib/ai/nanopore-llm-service'
+import { ReplayLLMProvider } from '../../src/lib/ai/replay-provider'
+import { TEMPLATE_FORM_FIELDS } from '../../src/lib/ai/form-template-registry'
+
+// Synthetic intake forms plus the blank HTSF DNA export, each with the values a person reads from it
+const CORPUS = fileURLToPath(new URL('../fixtures/extraction-benchmark', import.meta.url))
+
+// Answers an LLM gave for each form, replayed so the LLM path runs without a model server
+function recordedLLM(cases: BenchmarkCase[], prompts: string[]): ReplayLLMProvider {
+  return new ReplayLLMProvider({
+    respond: (request) => {
+      prompts.push(request.messages.at(-1)?.content ?? '')
+      const benchmarkCase = cases.find(candidate => candidate.text === request.prompt?.variables.text)
+      return benchmarkCase && readFileSync(`${CORPUS}/llm-responses/${benchmarkCase.name}.json`, 'utf8')
+    },
+  })
+}
+
+// Replays one fixed answer, for checking the scoring itself
+function fixedLLM(answer: Record<string, string | null>): ReplayLLMProvider {
+  return new ReplayLLMProvider({ respond: () => JSON.stringify(answer) })
+}
+
+let cases: BenchmarkCase[]
+const prompts: string[] = []
+let report: BenchmarkReport
+
+const combination = (label: string) => report.combinations.find(candidate => candidate.label === label)!
+
+// Current scores of each strategy on the corpus, rounded down; raise them when extraction improves
+const FLOORS: Record<string, { precision: number; recall: number; normalizedMatch: number }> = {
+  'template': { precision: 1, recall: 0.13, normalizedMatch: 0.13 },
+  'pattern': { precision: 0.6, recall: 0.55, normalizedMatch: 0.5 },
+  'llm': { precision: 0.9, recall: 1, normalizedMatch: 0.9 },
+  'template+pattern': { precision: 0.75, recall: 0.7, normalizedMatch: 0.65 },
+  'template+llm+pattern': { precision: 0.8, recall: 1, normalizedMatch: 0.8 },
+  // RAG's alias matching currently maps projectName and labName onto sampleName
+  'template+llm+pattern+rag': { precision: 0.75, recall: 0.9, normalizedMatch: 0.75 },
+}
+
+beforeAll(async () => {
+  // pdf.js reads the whole underlying ArrayBuffer, so small forms are passed as their own array rather than a pooled Buffer
+  cases = await loadBenchmarkCorpus(CORPUS, async (file) => {
+    const parsed = await pdfParse(new Uint8Array(await file.arrayBuffer()))
+    return { text: parsed.text, pageCount: parsed.numpages }
+  })
+  report = await runExtractionBenchmark(cases, { service: new NanoporeFormExtractionService(recordedLLM(cases, prompts)) })
+})
+
+describe('extraction benchmark', () => {
+  it('loads every form that has ground truth', () => {
+    expect(cases.map(benchmarkCase => benchmarkCase.name)).toEqual(['abbreviated-request', 'htsf-dna-blank', 'labelled-intake'])
+    expect(cases[2]!.expected).toMatchObject({ sampleName: 'JD-GDNA-014', concentration: '45.2 ng/ul' })
+  })
+
+  it('normalizes case, spacing, units and trailing punctuation', () => {
+    expect(normalizeFieldValue('120 ng/µl')).toBe(normalizeFieldValue('120ng/μL'))
+    expect(normalizeFieldValue('  High   Accuracy. ')).toBe('high accuracy')
+    expect(normalizeFieldValue('Smith Lab')).not.toBe(normalizeFieldValue('Smith Labs'))
+  })
+
+  it('scores values as matched, wrong, missing or spurious', async () => {
+    const scoring = await runExtractionBenchmark(
+      [{ name: 'form', text: 'Sample: S1', pageCount: 1, expected: { sampleName: 'S1', submitterName: 'Ann Lee', volume: '10 µL' } }],
+      {
+        combinations: [['llm']],
+        service: new NanoporeFormExtractionService(fixedLLM({ sampleName: 'S1', submitterName: 'Bob Ray', volume: '10ul', labName: 'Ray Lab' })),
+      },
+    )
+    const [result] = scoring.combinations
+
+    expect(result!.overall).toMatchObject({
+      support: 4,
+      truePositives: 2,
+      falsePositives: 2,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.667,
+      exactMatch: 0.25,
+      normalizedMatch: 0.5,
+    })
+    expect(result!.fields.find(score => score.field === 'volume')).toMatchObject({ exactMatch: 0, normalizedMatch: 1 })
+    expect(result!.cases[0]!.mismatches).toEqual([
+      { field: 'submitterName', expected: 'Ann Lee', actual: 'Bob Ray' },
+      { field: 'labName', expected: null, actual: 'Ray Lab' },
+    ])
+    expect(formatBenchmarkReport(scoring)).toContain('form submitterName: expected "Ann Lee", got "Bob Ray"')
+  })
+
+  it('asks the LLM for every field that is scored', () => {
+    expect(prompts.length).toBeGreaterThan(0)
+    for (const field of TEMPLATE_FORM_FIELDS) {
+      expect(prompts[0]).toContain(`"${field}"`)
+    }
+  })
+
+  it.each(Object.entries(FLOORS))('keeps %s at or above its recorded accuracy', (label, floor) => {
+    const { overall } = combination(label)
+    const details = formatBenchmarkReport({ caseCount: report.caseCount, combinations: [combination(label)] })
+
+    expect(overall.precision, details).toBeGreaterThanOrEqual(floor.precision)
+    expect(overall.recall, details).toBeGreaterThanOrEqual(floor.recall)
+    expect(overall.normalizedMatch, details).toBeGreaterThanOrEqual(floor.normalizedMatch)
+  })
+
+  it('extracts every form in the full pipeline and times it', () => {
+    const full = combination('template+llm+pattern+rag')
+
+    expect(full.cases.map(result => result.error)).toEqual([null, null, null])
+    expect(full.cases.map(result => result.extractionMethod)).toEqual(['rag', 'hybrid', 'rag'])
+    expect(full.latency.maxMs).toBeGreaterThan(0)
+    expect(full.latency.p95Ms).toBeLessThanOrEqual(full.latency.maxMs)
+  })
+})
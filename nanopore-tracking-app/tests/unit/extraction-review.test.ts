@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { locateText, toPageLayout, type PdfPageLayout } from '../../src/lib/ai/pdf-text-layout'
+import {
+  buildFewShotPrompt,
+  correctionExamples,
+  reviewedValues,
+  scoreExtractedFields,
+  type ReviewedField,
+} from '../../src/lib/ai/extraction-review'
+import type { NanoporeFormData } from '../../src/lib/ai/nanopore-llm-service'
+
+// A US letter page with two lines of form text, as pdf.js reports it (points from the bottom left)
+const page: PdfPageLayout = toPageLayout(1, { width: 612, height: 792 }, [
+  { str: 'Sample Name:', transform: [12, 0, 0, 12, 72, 700], width: 72, height: 12 },
+  { str: 'ABC-123', transform: [12, 0, 0, 12, 150, 700], width: 42, height: 12 },
+  { str: 'Email: jane.doe@unc.edu', transform: [12, 0, 0, 12, 72, 680], width: 138, height: 12 },
+  { str: '  ', transform: [12, 0, 0, 12, 300, 680], width: 6, height: 12 },
+])
+
+const reviewed = (overrides: Partial<ReviewedField>): ReviewedField => ({
+  fieldName: 'sampleName',
+  extractedValue: 'ABC-123',
+  context: 'Sample Name: ABC-123',
+  decision: 'accepted',
+  finalValue: null,
+  ...overrides,
+})
+
+describe('extraction review', () => {
+  it('converts pdf.js positions to page fractions from the top left', () => {
+    expect(page.items).toHaveLength(3)
+    expect(page.items[1]).toEqual({ text: 'ABC-123', x: 0.2451, y: 0.101, width: 0.0686, height: 0.0152 })
+  })
+
+  it('locates a value on its line and boxes only the matching text', () => {
+    const sample = locateText([page], 'abc-123')
+    expect(sample).toMatchObject({ pageNumber: 1, context: 'Sample Name: ABC-123' })
+    expect(sample!.boundingBox.x).toBeCloseTo(150 / 612, 3)
+
+    // Part of an item is boxed by its share of the characters
+    const email = locateText([page], 'jane.doe@unc.edu')!
+    expect(email.boundingBox.x).toBeGreaterThan(72 / 612)
+    expect(email.boundingBox.x + email.boundingBox.width).toBeCloseTo(210 / 612, 3)
+
+    expect(locateText([page], 'XYZ-999')).toBeNull()
+  })
+
+  it('scores fields by source and lowers values that are not on the form or fail validation', () => {
+    const data: NanoporeFormData = {
+      sampleName: 'ABC-123',
+      submitterEmail: 'jane.doe@unc.edu',
+      labName: 'Smith Lab',
+      sampleType: 'Genomic DNA',
+      extractionMethod: 'hybrid',
+      confidence: 0.9,
+      fieldConfidence: { sampleName: 0.95 },
+      issues: ['Invalid email format'],
+    }
+
+    const fields = scoreExtractedFields(data, [page])
+    const byName = Object.fromEntries(fields.map(field => [field.fieldName, field]))
+
+    expect(byName.sampleName).toMatchObject({ confidence: 0.95, source: 'template', pageNumber: 1 })
+    expect(byName.submitterEmail).toMatchObject({ confidence: 0.63, source: 'hybrid' })
+    // Not on the page, so possibly invented
+    expect(byName.labName).toMatchObject({ confidence: 0.54, pageNumber: null, boundingBox: null })
+    // Required fields that were not extracted are still put to the reviewer
+    expect(byName.submitterName).toMatchObject({ value: null, confidence: 0, source: 'missing' })
+    expect(byName.projectName).toBeUndefined()
+  })
+
+  it('settles on accepted and edited values and keeps corrections as examples', () => {
+    const fields = [
+      reviewed({}),
+      reviewed({ fieldName: 'submitterName', extractedValue: 'Jane Doe PhD', context: 'PI: Jane Doe PhD', decision: 'edited', finalValue: 'Jane Doe' }),
+      reviewed({ fieldName: 'flowCellType', extractedValue: 'MinION', context: null, decision: 'rejected' }),
+      // Re-entering the same value is not a correction
+      reviewed({ fieldName: 'labName', extractedValue: 'Smith Lab', decision: 'edited', finalValue: ' Smith Lab ' }),
+    ]
+
+    expect(reviewedValues(fields)).toEqual({ sampleName: 'ABC-123', submitterName: 'Jane Doe', labName: 'Smith Lab' })
+    expect(correctionExamples(fields)).toEqual([
+      { fieldName: 'submitterName', context: 'PI: Jane Doe PhD', extractedValue: 'Jane Doe PhD', correctedValue: 'Jane Doe' },
+      { fieldName: 'flowCellType', context: null, extractedValue: 'MinION', correctedValue: null },
+    ])
+  })
+
+  it('builds a few-shot prompt with a few recent corrections per field', () => {
+    expect(buildFewShotPrompt([])).toBe('')
+
+    const prompt = buildFewShotPrompt([
+      { fieldName: 'submitterName', context: 'PI: Jane Doe PhD', extractedValue: 'Jane Doe PhD', correctedValue: 'Jane Doe' },
+      { fieldName: 'submitterName', context: null, extractedValue: 'Dr Lee', correctedValue: 'Ann Lee' },
+      { fieldName: 'submitterName', context: null, extractedValue: 'Old', correctedValue: 'Older' },
+      { fieldName: 'flowCellType', context: null, extractedValue: 'MinION', correctedValue: null },
+    ])
+
+    expect(prompt).toContain('submitterName: an earlier extraction read "Jane Doe PhD" from the line "PI: Jane Doe PhD"; the correct value is "Jane Doe"')
+    expect(prompt).toContain('flowCellType: an earlier extraction read "MinION"; the form does not give this field')
+    expect(prompt).not.toContain('Older')
+  })
+})
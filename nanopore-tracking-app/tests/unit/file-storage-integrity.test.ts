@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  fetchFileStorageIntegrity,
+  fileStorageIntegrityAlerts,
+} from '../../src/lib/monitoring/FileStorageIntegrity'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+const statsResponse = (integrity: unknown, status = 200) =>
+  (async () => new Response(JSON.stringify({ success: true, data: { totalFiles: 3, integrity } }), { status })) as unknown as typeof fetch
+
+const report = {
+  status: 'degraded',
+  blobs: { unverified: 1, ok: 40, corrupt: 1, missing: 1 },
+  unhashedFiles: 2,
+  deduplicatedBytes: 2048,
+  problems: [
+    { sha256: 'a'.repeat(64), status: 'corrupt', fileIds: ['file-1', 'file-2'] },
+    { sha256: 'b'.repeat(64), status: 'missing', fileIds: ['file-2'] },
+  ],
+  lastRun: { startedAt: '2026-10-19T02:00:00Z', finishedAt: '2026-10-19T02:05:00Z', blobsChecked: 43, filesMissing: 0 },
+}
+
+describe('file storage integrity', () => {
+  it('summarises the integrity section of the service statistics', async () => {
+    let authorization: string | undefined
+    const fetchImpl = (async (_url: string, init: RequestInit) => {
+      authorization = (init.headers as Record<string, string>).Authorization
+      return new Response(JSON.stringify({ success: true, data: { integrity: report } }))
+    }) as unknown as typeof fetch
+
+    const integrity = await fetchFileStorageIntegrity({ baseUrl: 'http://files', token: 'secret', fetchImpl })
+
+    expect(authorization).toBe('Bearer secret')
+    expect(integrity.status).toBe('degraded')
+    expect(integrity.blobs).toEqual({ unverified: 1, ok: 40, corrupt: 1, missing: 1 })
+    expect(integrity.affectedFileIds).toEqual(['file-1', 'file-2'])
+    expect(integrity.lastScrub).toMatchObject({ blobsChecked: 43, error: null })
+  })
+
+  it('reports the service as unavailable instead of throwing', async () => {
+    const refused = (async () => { throw new Error('connect ECONNREFUSED') }) as unknown as typeof fetch
+
+    expect(await fetchFileStorageIntegrity({ fetchImpl: refused })).toMatchObject({ status: 'unavailable', error: 'connect ECONNREFUSED' })
+    expect(await fetchFileStorageIntegrity({ fetchImpl: statsResponse(report, 401) })).toMatchObject({ status: 'unavailable' })
+    expect(await fetchFileStorageIntegrity({ fetchImpl: statsResponse(undefined) })).toMatchObject({ status: 'unavailable' })
+  })
+
+  it('raises a critical alert for corrupt or missing content', async () => {
+    const integrity = await fetchFileStorageIntegrity({ fetchImpl: statsResponse(report) })
+
+    const alerts = fileStorageIntegrityAlerts(integrity, NOW)
+
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0]).toMatchObject({ level: 'critical', component: 'file-storage' })
+    expect(alerts[0]!.message).toContain('2 attachments')
+  })
+
+  it('warns when scrubs fail or stop running', async () => {
+    const healthy = {
+      ...report,
+      status: 'healthy',
+      blobs: { unverified: 0, ok: 43, corrupt: 0, missing: 0 },
+      problems: [],
+    }
+    const current = await fetchFileStorageIntegrity({ fetchImpl: statsResponse(healthy) })
+    const failed = await fetchFileStorageIntegrity({ fetchImpl: statsResponse({ ...healthy, lastRun: { ...healthy.lastRun, error: 'permission denied' } }) })
+    const stale = await fetchFileStorageIntegrity({ fetchImpl: statsResponse({ ...healthy, lastRun: { ...healthy.lastRun, startedAt: '2026-10-10T02:00:00Z' } }) })
+
+    expect(fileStorageIntegrityAlerts(current, NOW)).toEqual([])
+    expect(fileStorageIntegrityAlerts(failed, NOW).map(alert => alert.level)).toEqual(['error'])
+    expect(fileStorageIntegrityAlerts(stale, NOW).map(alert => alert.level)).toEqual(['warning'])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assertFlowCellStatusTransition,
+  normalizeFlowCellType,
+  passesPoreCheck,
+  sortForReservation,
+  summarizeInventory,
+  type InventoryFlowCell
+} from '../../src/lib/inventory/FlowCellInventory'
+
+const now = new Date('2025-07-15T00:00:00Z')
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+const buildFlowCell = (overrides: Partial<InventoryFlowCell> = {}): InventoryFlowCell => ({
+  id: crypto.randomUUID(),
+  serial_number: 'FAX00001',
+  flow_cell_type: 'R10.4.1',
+  status: 'in_stock',
+  expiry_date: daysFromNow(120),
+  ...overrides
+})
+
+describe('Flow cell inventory', () => {
+  it('should map free-text sample flow cell types onto inventory types', () => {
+    expect(normalizeFlowCellType('r10.4.1')).toBe('R10.4.1')
+    expect(normalizeFlowCellType('flongle')).toBe('Flongle')
+    expect(normalizeFlowCellType('R10.5.1')).toBeNull()
+    expect(normalizeFlowCellType(null)).toBeNull()
+  })
+
+  it('should only allow washed or fresh cells to be reserved', () => {
+    expect(() => assertFlowCellStatusTransition('washed', 'reserved')).not.toThrow()
+    expect(() => assertFlowCellStatusTransition('spent', 'reserved')).toThrow(/cannot move/)
+    expect(() => assertFlowCellStatusTransition('in_use', 'reserved')).toThrow(/cannot move/)
+  })
+
+  it('should check pore counts against the per-type minimum', () => {
+    expect(passesPoreCheck('R10.4.1', 1200)).toBe(true)
+    expect(passesPoreCheck('R10.4.1', 500)).toBe(false)
+    expect(passesPoreCheck('Flongle', 60)).toBe(true)
+  })
+
+  it('should reserve the soonest-expiring cells first', () => {
+    const later = buildFlowCell({ id: 'later', expiry_date: daysFromNow(90) })
+    const sooner = buildFlowCell({ id: 'sooner', expiry_date: daysFromNow(10) })
+
+    expect(sortForReservation([later, sooner]).map(c => c.id)).toEqual(['sooner', 'later'])
+  })
+
+  it('should warn about low stock and cells near expiry', () => {
+    const summary = summarizeInventory([
+      buildFlowCell({ serial_number: 'FAX1', expiry_date: daysFromNow(5) }),
+      buildFlowCell({ serial_number: 'FAX2', expiry_date: daysFromNow(-1) }),
+      buildFlowCell({ serial_number: 'FAX3', status: 'spent', expiry_date: daysFromNow(-10) })
+    ], now)
+
+    expect(summary.availableByType['R10.4.1']).toBe(1)
+    expect(summary.lowStock.find(w => w.flowCellType === 'R10.4.1')?.available).toBe(1)
+    expect(summary.nearExpiry.map(w => w.serialNumber)).toEqual(['FAX2', 'FAX1'])
+    expect(summary.nearExpiry[0]?.expired).toBe(true)
+  })
+})
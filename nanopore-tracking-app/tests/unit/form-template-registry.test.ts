@@ -0,0 +1,130 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import pdfParse from 'pdf-parse/lib/pdf-parse.js'
+import {
+  FormTemplateRegistry,
+  draftTemplateFromText,
+  extractWithTemplate,
+  formTemplateDefinitionSchema,
+  formTemplateRegistry,
+  type FormDocument,
+  type FormTemplate,
+} from '../../src/lib/ai/form-template-registry'
+import { BUILTIN_FORM_TEMPLATES } from '../../src/lib/ai/builtin-form-templates'
+
+// Blank iLab export of the HTSF Nanopore DNA submission form
+const FIXTURE = fileURLToPath(new URL('../../../custom_forms_11069137_1751931713 (1).pdf', import.meta.url))
+
+let blankForm: FormDocument
+
+// Fill in the blank form the way a completed export prints it
+function fillForm(text: string): string {
+  const check = (option: string) => text.includes(`\n ${option}`)
+  expect(['Rapid Sequencing (SQK-RAD114)', 'cDNA', 'PromethION Flow Cell', 'SUP ('].every(check)).toBe(true)
+
+  return text
+    .replace('\n Rapid Sequencing (SQK-RAD114)', '\n☒ Rapid Sequencing (SQK-RAD114)')
+    .replace('\n cDNA', '\n☒ cDNA')
+    .replace('\n PromethION Flow Cell', '\n☒ PromethION Flow Cell')
+    .replace('\n SUP (', '\n☒ SUP (')
+    .replace(/\n ratio\n/, '\n ratio\nJC-cDNA-01 25 48.2 51.0 1.85 2.05\n')
+    .replace('Data Delivery Notification email addresses:', 'Data Delivery Notification email addresses: jones.lab@unc.edu')
+}
+
+beforeAll(async () => {
+  const parsed = await pdfParse(readFileSync(FIXTURE))
+  blankForm = { text: parsed.text, pageCount: parsed.numpages }
+})
+
+describe('form template detection', () => {
+  it('should recognise the builtin HTSF DNA form', () => {
+    const detection = formTemplateRegistry.detect(blankForm)
+
+    expect(detection?.template.id).toBe('builtin:htsf-nanopore-dna:1')
+    expect(detection!.score).toBeGreaterThanOrEqual(0.9)
+    expect(detection!.matchedLabels).toBe(BUILTIN_FORM_TEMPLATES[0]!.fingerprint.fieldLabels.length)
+  })
+
+  it('should not match unrelated documents', () => {
+    const invoice = { text: 'Invoice\nBill to: Jones Lab\nAmount due: 120.00\nSample Name: S1', pageCount: 1 }
+
+    expect(formTemplateRegistry.detect(invoice)).toBeNull()
+  })
+
+  it('should only use the newest version of a template key', () => {
+    const builtin = BUILTIN_FORM_TEMPLATES[0]!
+    const registry = new FormTemplateRegistry(BUILTIN_FORM_TEMPLATES)
+    registry.register({ ...builtin, id: 'v2', version: 2, source: 'registered', constants: { sequencingType: 'cDNA' } })
+
+    expect(registry.detect(blankForm)?.template.id).toBe('v2')
+
+    registry.replaceRegistered([])
+    expect(registry.detect(blankForm)?.template.id).toBe(builtin.id)
+  })
+})
+
+describe('extractWithTemplate', () => {
+  it('should only read header values and constants from a blank form', () => {
+    const { fields, issues } = extractWithTemplate(BUILTIN_FORM_TEMPLATES[0]!, blankForm)
+    const values = Object.fromEntries(Object.entries(fields).map(([field, extracted]) => [field, extracted!.value]))
+
+    expect(values).toEqual({
+      sequencingType: 'DNA',
+      projectName: 'HTSF--CJ-[CID]',
+      submitterName: 'Corbin Jones',
+      labName: 'Jones, Corbin (UNC) Lab',
+    })
+    expect(issues).toEqual([])
+  })
+
+  it('should read checked options and the sample table from a filled form', () => {
+    const filled = { ...blankForm, text: fillForm(blankForm.text) }
+    const { fields } = extractWithTemplate(BUILTIN_FORM_TEMPLATES[0]!, filled)
+
+    expect(fields.libraryType?.value).toBe('Rapid (SQK-RAD114)')
+    expect(fields.sampleType?.value).toBe('cDNA')
+    expect(fields.flowCellType?.value).toBe('PromethION')
+    expect(fields.basecalling?.value).toBe('Super Accuracy')
+    expect(fields.dataDelivery).toBeUndefined()
+    expect(fields.sampleName?.value).toBe('JC-cDNA-01')
+    expect(fields.volume?.value).toBe('25 μL')
+    expect(fields.concentration?.value).toBe('48.2 ng/μL')
+    expect(fields.purity?.value).toBe('1.85')
+    expect(fields.submitterEmail?.value).toBe('jones.lab@unc.edu')
+  })
+
+  it('should warn when a form lists more than one sample', () => {
+    const filled = fillForm(blankForm.text).replace('JC-cDNA-01 25', 'JC-cDNA-02 30 12.0 11.8 1.90 2.10\nJC-cDNA-01 25')
+    const { fields, issues } = extractWithTemplate(BUILTIN_FORM_TEMPLATES[0]!, { ...blankForm, text: filled })
+
+    expect(fields.sampleName?.value).toBe('JC-cDNA-02')
+    expect(issues).toEqual(['Form lists 2 samples; only the first was extracted'])
+  })
+})
+
+describe('draftTemplateFromText', () => {
+  it('should draft a valid template that recognises its sample PDF', () => {
+    const definition = draftTemplateFromText(blankForm)
+
+    expect(formTemplateDefinitionSchema.safeParse(definition).success).toBe(true)
+    expect(definition.fingerprint).toMatchObject({ titles: ['HTSF Nanopore Submission Form DNA'], pageCount: 2 })
+    expect(definition.fields.map(field => field.field)).toEqual(
+      expect.arrayContaining(['libraryType', 'flowCellType', 'basecalling', 'submitterEmail'])
+    )
+
+    const draft: FormTemplate = { ...definition, id: 'draft', templateKey: 'htsf-draft', version: 1, name: 'Draft', source: 'registered' }
+    const registry = new FormTemplateRegistry([draft])
+    expect(registry.detect(blankForm)?.template.id).toBe('draft')
+  })
+
+  it('should reject invalid field patterns', () => {
+    const definition = {
+      fingerprint: { titles: ['Form'], fieldLabels: ['Name:'] },
+      fields: [{ kind: 'text', field: 'sampleName', label: 'Name:', pattern: '([a-z' }],
+    }
+
+    expect(formTemplateDefinitionSchema.safeParse(definition).success).toBe(false)
+  })
+})
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { extractJson, LLMOutputError, parseJsonOutput } from '../../src/lib/ai/llm-provider'
+import { hashEmbedding, recordingKey, ReplayLLMProvider } from '../../src/lib/ai/replay-provider'
+import {
+  completeJson,
+  nanoporeFormExtractionPrompt,
+  renderPrompt,
+  sampleValidationPrompt,
+} from '../../src/lib/ai/prompt-templates'
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i]!, 0)
+
+describe('extractJson', () => {
+  it('reads JSON wrapped in prose and code fences', () => {
+    expect(extractJson('Here you go:\n```json\n{"sampleName": "S1"}\n```\nAnything else?')).toEqual({ sampleName: 'S1' })
+  })
+
+  it('repairs trailing commas and smart quotes', () => {
+    expect(extractJson('{“issues”: ["low volume",], "isValid": false,}')).toEqual({ issues: ['low volume'], isValid: false })
+  })
+
+  it('rejects answers without JSON', () => {
+    expect(() => extractJson('I could not find any fields')).toThrow('No JSON found')
+  })
+})
+
+describe('parseJsonOutput', () => {
+  const schema = z.object({ isValid: z.boolean() })
+
+  it('returns the value once it matches the schema', () => {
+    expect(parseJsonOutput('{"isValid": true}', schema, 'check@1')).toEqual({ isValid: true })
+  })
+
+  it('names the prompt and the failing field when the shape is wrong', () => {
+    try {
+      parseJsonOutput('{"isValid": "yes"}', schema, 'check@1')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(LLMOutputError)
+      expect((error as LLMOutputError).message).toMatch(/^check@1: .*isValid/)
+      expect((error as LLMOutputError).output).toBe('{"isValid": "yes"}')
+    }
+  })
+})
+
+describe('prompt templates', () => {
+  it('renders a JSON request tagged with the prompt id and version', () => {
+    const request = renderPrompt(sampleValidationPrompt, { sample: { sampleName: 'S1' } }, { model: 'llama3.2' })
+
+    expect(request.json).toBe(true)
+    expect(request.model).toBe('llama3.2')
+    expect(request.prompt).toMatchObject({ id: 'sample-validation', version: 1 })
+    expect(request.messages.at(-1)?.content).toContain('"sampleName": "S1"')
+  })
+
+  it('normalizes form answers from the model', async () => {
+    const provider = new ReplayLLMProvider({
+      respond: () => '{"sampleName": " S1 ", "concentration": 42, "volume": "null", "demultiplexing": "true"}',
+    })
+    const answer = await completeJson(provider, nanoporeFormExtractionPrompt, { text: 'Sample: S1', examples: [] })
+
+    expect(answer.sampleName).toBe('S1')
+    expect(answer.concentration).toBe('42')
+    expect(answer.volume).toBeUndefined()
+    expect(answer.demultiplexing).toBe(true)
+  })
+})
+
+describe('ReplayLLMProvider', () => {
+  it('keys recordings on prompt and variables, not on the model', () => {
+    const request = renderPrompt(sampleValidationPrompt, { sample: { a: 1, b: 2 } })
+
+    expect(recordingKey({ ...request, model: 'other' })).toBe(recordingKey(request))
+    expect(recordingKey(renderPrompt(sampleValidationPrompt, { sample: { b: 2, a: 1 } }))).toBe(recordingKey(request))
+    expect(recordingKey(renderPrompt(sampleValidationPrompt, { sample: { a: 2 } }))).not.toBe(recordingKey(request))
+  })
+
+  it('replays recordings before asking the responder', async () => {
+    const request = renderPrompt(sampleValidationPrompt, { sample: { sampleName: 'S1' } })
+    const provider = new ReplayLLMProvider({
+      recordings: [{ key: recordingKey(request), prompt: 'sample-validation@1', response: 'recorded' }],
+      respond: () => 'responded',
+    })
+
+    expect((await provider.chat(request)).content).toBe('recorded')
+    expect((await provider.chat({ messages: [{ role: 'user', content: 'hi' }] })).content).toBe('responded')
+  })
+
+  it('records answers from a live provider on a miss', async () => {
+    const live = new ReplayLLMProvider({ respond: () => '{"isValid": true}' })
+    const provider = new ReplayLLMProvider({ record: live })
+
+    await completeJson(provider, sampleValidationPrompt, { sample: { sampleName: 'S1' } })
+
+    expect(provider.recorded).toEqual([expect.objectContaining({ prompt: 'sample-validation@1', response: '{"isValid": true}' })])
+    const replayed = new ReplayLLMProvider({ recordings: provider.recorded })
+    await expect(completeJson(replayed, sampleValidationPrompt, { sample: { sampleName: 'S1' } }))
+      .resolves.toEqual({ isValid: true, issues: [], suggestions: [] })
+  })
+
+  it('fails on a request it has no answer for', async () => {
+    const provider = new ReplayLLMProvider()
+
+    await expect(provider.chat(renderPrompt(sampleValidationPrompt, { sample: {} }))).rejects.toThrow('sample-validation@1')
+  })
+
+  it('embeds texts that share words closer together', async () => {
+    const [flowCell, sameFlowCell, library] = await new ReplayLLMProvider().embed([
+      'PromethION flow cell R10.4.1',
+      'flow cell for PromethION',
+      'ligation library kit',
+    ])
+
+    expect(cosine(flowCell!, flowCell!)).toBeCloseTo(1)
+    expect(cosine(flowCell!, sameFlowCell!)).toBeGreaterThan(cosine(flowCell!, library!))
+    expect(hashEmbedding('flow cell', 16)).toHaveLength(16)
+  })
+})
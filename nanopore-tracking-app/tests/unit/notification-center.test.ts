@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  acceptingRecipients,
+  findOverdueSteps,
+  formatSseMessage,
+  notificationForEvent,
+  overdueStepNotification,
+  sampleChangeForEvent,
+  type RunningStep
+} from '../../src/lib/notifications/NotificationCenter'
+import { NotificationHub, type HubMessage } from '../../src/lib/notifications/NotificationHub'
+
+const staff = ['Grey', 'Tara']
+
+describe('notificationForEvent', () => {
+  it('notifies the assignee, keyed by event', () => {
+    const draft = notificationForEvent({
+      id: 'event-1',
+      type: 'sample.assigned',
+      data: { sampleId: 's1', sampleName: 'NANO-001', assignedTo: 'Grey', previousAssignee: 'Tara' },
+    }, staff)
+
+    expect(draft).toMatchObject({
+      recipients: ['Grey'],
+      type: 'sample_assigned',
+      title: 'NANO-001 was assigned to you',
+      body: 'Previously assigned to Tara',
+      sampleId: 's1',
+      dedupeKey: 'event:event-1',
+    })
+  })
+
+  it('only tells all staff about urgent submissions', () => {
+    const event = (priority: string) => ({
+      id: 'event-2',
+      type: 'sample.created',
+      data: { sampleId: 's1', sampleName: 'NANO-002', submitterName: 'Dana', priority },
+    })
+
+    expect(notificationForEvent(event('normal'), staff)).toBeNull()
+    expect(notificationForEvent(event('urgent'), staff)).toMatchObject({
+      recipients: staff,
+      type: 'urgent_submitted',
+      title: 'Urgent sample NANO-002 submitted',
+    })
+  })
+
+  it('asks staff to review low-confidence extractions', () => {
+    const draft = notificationForEvent({
+      id: 'event-3',
+      type: 'ai.extraction_confidence_low',
+      data: { sampleId: 's1', fileName: 'form.pdf', confidenceScore: 0.42, threshold: 0.7, issues: ['No chart field'] },
+    }, staff)
+
+    expect(draft?.type).toBe('extraction_review')
+    expect(draft?.body).toBe('Confidence 42% is below 70%: No chart field')
+  })
+})
+
+describe('overdue steps', () => {
+  const step = (overrides: Partial<RunningStep> = {}): RunningStep => ({
+    stepId: 'step-1',
+    stepName: 'Library Preparation',
+    sampleId: 's1',
+    sampleName: 'NANO-001',
+    assignedTo: null,
+    startedAt: '2025-07-01T08:00:00Z',
+    estimatedDurationHours: 4,
+    ...overrides,
+  })
+
+  it('finds steps past their estimate', () => {
+    const now = new Date('2025-07-01T12:30:00Z')
+    const steps = [step(), step({ stepId: 'step-2', estimatedDurationHours: 6 }), step({ stepId: 'step-3', estimatedDurationHours: null })]
+
+    expect(findOverdueSteps(steps, now).map(s => s.stepId)).toEqual(['step-1'])
+  })
+
+  it('goes to the assignee, or everyone when unassigned, once per step', () => {
+    expect(overdueStepNotification(step({ assignedTo: 'Tara' }), staff)).toMatchObject({
+      recipients: ['Tara'],
+      title: 'Library Preparation is overdue for NANO-001',
+      dedupeKey: 'step_overdue:step-1',
+    })
+    expect(overdueStepNotification(step(), staff).recipients).toEqual(staff)
+  })
+})
+
+describe('acceptingRecipients', () => {
+  it('drops muted types and duplicate names', () => {
+    const muted = new Map([['tara', ['urgent_submitted']]])
+    expect(acceptingRecipients(['Grey', 'Tara', 'grey'], 'urgent_submitted', muted)).toEqual(['Grey'])
+    expect(acceptingRecipients(['Grey', 'Tara'], 'sample_assigned', muted)).toEqual(['Grey', 'Tara'])
+  })
+})
+
+describe('live sample updates', () => {
+  it('maps sample events to list changes', () => {
+    expect(sampleChangeForEvent({ id: 'e', type: 'sample.created', data: { sampleId: 's1' } })).toEqual({ sampleId: 's1', kind: 'created' })
+    expect(sampleChangeForEvent({ id: 'e', type: 'sample.status_changed', data: { sampleId: 's1' } })).toEqual({ sampleId: 's1', kind: 'updated' })
+    expect(sampleChangeForEvent({ id: 'e', type: 'ai.extraction_confidence_low', data: { sampleId: 's1' } })).toBeNull()
+  })
+
+  it('formats server-sent events', () => {
+    expect(formatSseMessage('sample', { sampleId: 's1' })).toBe('event: sample\ndata: {"sampleId":"s1"}\n\n')
+  })
+
+  it('routes inbox updates by recipient and sample changes to everyone', () => {
+    const hub = new NotificationHub()
+    const grey: HubMessage[] = []
+    const tara: HubMessage[] = []
+    const stopGrey = hub.subscribe('Grey', message => grey.push(message))
+    hub.subscribe('tara', message => tara.push(message))
+
+    hub.notifyRecipients(['grey'])
+    hub.broadcastSampleChange({ sampleId: 's1', kind: 'updated' })
+    stopGrey()
+    hub.notifyRecipients(['Grey', 'Tara'])
+
+    expect(grey).toEqual([{ type: 'notifications' }, { type: 'sample', change: { sampleId: 's1', kind: 'updated' } }])
+    expect(tara).toEqual([{ type: 'sample', change: { sampleId: 's1', kind: 'updated' } }, { type: 'notifications' }])
+    expect(hub.connectionCount()).toBe(1)
+  })
+})
@@ -0,0 +1,24 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { hashPassword, verifyPassword } from '../../src/lib/auth/Passwords'
+
+describe('passwords', () => {
+  it('verifies the password a hash was made from', async () => {
+    const hash = await hashPassword('correct horse battery')
+
+    expect(hash).toMatch(/^scrypt\$[^$]+\$[^$]+$/)
+    expect(await verifyPassword('correct horse battery', hash)).toBe(true)
+    expect(await verifyPassword('correct horse batterY', hash)).toBe(false)
+  })
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('same password')).not.toBe(await hashPassword('same password'))
+  })
+
+  it('never matches accounts without a usable hash', async () => {
+    expect(await verifyPassword('demo', null)).toBe(false)
+    expect(await verifyPassword('demo', undefined)).toBe(false)
+    expect(await verifyPassword('demo', '')).toBe(false)
+    expect(await verifyPassword('demo', 'demo')).toBe(false)
+  })
+})
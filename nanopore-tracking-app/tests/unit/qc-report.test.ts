@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { buildQcReport, getQcThresholds, renderQcReportHtml } from '../../src/lib/reports/QcReport'
+import type { StepRunReport } from '../../src/lib/reports/RunReportParser'
+
+const sample = { id: 'sample-1', sample_name: 'NANO <001>' }
+const thresholds = { minYieldBases: 1000, minN50: 2000, minMeanQScore: 10 }
+
+const metrics = {
+  readCount: 4,
+  totalBases: 8000,
+  n50: 4000,
+  meanQScore: 10.5,
+  passReadCount: 3,
+  failReadCount: 1,
+  passRatio: 0.75
+}
+
+const sequencingSummary: StepRunReport = {
+  stepId: 'step-basecalling',
+  stepName: 'Basecalling',
+  stepStatus: 'completed',
+  results: {
+    reportType: 'sequencing_summary',
+    sourceFile: 'sequencing_summary_FAX1.txt',
+    importedAt: '2026-01-01T10:00:00.000Z',
+    metrics,
+    distributions: {
+      readLengthHistogram: [{ binStart: 0, binEnd: 1000, reads: 4, bases: 8000 }],
+      qScoreHistogram: [{ qScore: 10, reads: 4 }],
+      yieldOverTime: [{ hour: 0, reads: 2, bases: 3000 }, { hour: 1, reads: 2, bases: 5000 }]
+    }
+  }
+}
+
+const pycoqc: StepRunReport = {
+  stepId: 'step-qa',
+  stepName: 'Quality Assessment',
+  stepStatus: 'completed',
+  results: {
+    reportType: 'pycoqc_json',
+    sourceFile: 'pycoQC.json',
+    importedAt: '2026-01-02T10:00:00.000Z',
+    metrics: { ...metrics, n50: 1500 }
+  }
+}
+
+describe('QC report', () => {
+  afterEach(() => {
+    delete process.env.QC_MIN_N50
+  })
+
+  it('should pass when every threshold is met', () => {
+    const report = buildQcReport(sample, [sequencingSummary], thresholds)
+
+    expect(report.passed).toBe(true)
+    expect(report.checks.every(check => check.passed)).toBe(true)
+    expect(report.cumulativeYield.map(point => point.cumulativeBases)).toEqual([3000, 8000])
+  })
+
+  it('should prefer read-level summaries over newer aggregate reports', () => {
+    const report = buildQcReport(sample, [pycoqc, sequencingSummary], thresholds)
+    expect(report.source?.sourceFile).toBe('sequencing_summary_FAX1.txt')
+  })
+
+  it('should fail and explain which threshold was missed', () => {
+    const report = buildQcReport(sample, [pycoqc], thresholds)
+
+    expect(report.passed).toBe(false)
+    expect(report.checks.find(check => check.name === 'n50')?.passed).toBe(false)
+    expect(report.notes).toContain('N50 1.5 kb < 2.0 kb')
+  })
+
+  it('should leave the verdict open until metrics are imported', () => {
+    const report = buildQcReport(sample, [], thresholds)
+    expect(report.passed).toBeNull()
+    expect(report.checks).toEqual([])
+  })
+
+  it('should resolve thresholds from overrides, then environment, then defaults', () => {
+    process.env.QC_MIN_N50 = '8000'
+    const resolved = getQcThresholds({ minMeanQScore: 12 })
+
+    expect(resolved.minN50).toBe(8000)
+    expect(resolved.minMeanQScore).toBe(12)
+    expect(resolved.minYieldBases).toBe(1_000_000_000)
+  })
+
+  it('should render a standalone HTML document with escaped sample names', () => {
+    const html = renderQcReportHtml(buildQcReport(sample, [sequencingSummary], thresholds))
+
+    expect(html).toContain('<!DOCTYPE html>')
+    expect(html).toContain('NANO &lt;001&gt;')
+    expect(html).toContain('<svg')
+  })
+})
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto'
+import { describe, it, expect } from 'vitest'
+import {
+  fileFingerprint,
+  loadPendingUploads,
+  missingParts,
+  partRange,
+  uploadResumable,
+  type UploadStorage
+} from '../../src/lib/uploads/ResumableUpload'
+
+const MB = 1024 * 1024
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex')
+
+const memoryStorage = (): UploadStorage => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value) },
+  }
+}
+
+/**
+ * Just enough of the file-storage upload routes to drive the client
+ */
+function fakeUploadService(options: { corruptOnce?: number[]; failAfterParts?: number } = {}) {
+  const uploads = new Map<string, { sizeBytes: number; partSize: number; totalParts: number; status: string; parts: Map<number, Buffer> }>()
+  const corrupt = new Set(options.corruptOnce ?? [])
+  let partRequests = 0
+  let nextId = 1
+
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+  const view = (id: string) => {
+    const upload = uploads.get(id)!
+    const parts = [...upload.parts].map(([partNumber, data]) => ({ partNumber, sizeBytes: data.length }))
+    return { uploadId: id, ...upload, parts, uploadedBytes: parts.reduce((total, part) => total + part.sizeBytes, 0) }
+  }
+
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    const [, id, action, partNumber] = url.replace('/api/uploads', '').split('/')
+    if (!id && init.method === 'POST') {
+      const { sizeBytes } = JSON.parse(init.body as string)
+      const uploadId = `00000000-0000-0000-0000-${String(nextId++).padStart(12, '0')}`
+      uploads.set(uploadId, { sizeBytes, partSize: MB, totalParts: Math.ceil(sizeBytes / MB), status: 'active', parts: new Map() })
+      return json(201, { success: true, data: view(uploadId) })
+    }
+    const upload = id ? uploads.get(id) : undefined
+    if (!upload) return json(404, { success: false, error: 'Upload not found' })
+
+    if (action === 'parts') {
+      if (options.failAfterParts !== undefined && partRequests >= options.failAfterParts) {
+        throw new TypeError('Failed to fetch')
+      }
+      partRequests++
+      const data = Buffer.from(init.body as ArrayBuffer)
+      const number = Number(partNumber)
+      const checksum = sha256(data)
+      if (corrupt.delete(number) || checksum !== (init.headers as Record<string, string>)['X-Checksum-SHA256']) {
+        return json(400, { success: false, error: 'Checksum mismatch' })
+      }
+      upload.parts.set(number, data)
+      return json(200, { success: true, data: { partNumber: number, sizeBytes: data.length, checksumSha256: checksum } })
+    }
+    if (action === 'complete') {
+      upload.status = 'completed'
+      const content = Buffer.concat([...upload.parts.entries()].sort(([a], [b]) => a - b).map(([, data]) => data))
+      return json(201, { success: true, data: { file: { id: 'file-1', originalName: 'reads.fastq.gz', sizeBytes: content.length, contentHash: sha256(content) } } })
+    }
+    return json(200, { success: true, data: view(id!) })
+  }) as unknown as typeof fetch
+
+  return { fetchImpl, uploads, partRequests: () => partRequests }
+}
+
+const makeFile = (sizeBytes: number) => {
+  const bytes = new Uint8Array(sizeBytes).map((_, index) => index % 251)
+  return { file: new File([bytes], 'reads.fastq.gz', { lastModified: 1_700_000_000_000 }), bytes }
+}
+
+describe('part helpers', () => {
+  it('splits a file into parts with a shorter last part', () => {
+    expect(partRange(1, MB, 2.5 * MB)).toEqual({ start: 0, end: MB })
+    expect(partRange(3, MB, 2.5 * MB)).toEqual({ start: 2 * MB, end: 2.5 * MB })
+  })
+
+  it('lists the parts still to send', () => {
+    expect(missingParts({ totalParts: 4, parts: [{ partNumber: 1, sizeBytes: 1 }, { partNumber: 3, sizeBytes: 1 }] })).toEqual([2, 4])
+  })
+})
+
+describe('uploadResumable', () => {
+  it('sends every part with its checksum and reports progress', async () => {
+    const service = fakeUploadService()
+    const storage = memoryStorage()
+    const { file, bytes } = makeFile(2.5 * MB)
+    const progress: number[] = []
+
+    const uploaded = await uploadResumable(file, {
+      storage,
+      fetchImpl: service.fetchImpl,
+      onProgress: (uploadedBytes) => progress.push(uploadedBytes),
+    })
+
+    expect(uploaded.contentHash).toBe(sha256(bytes))
+    expect(progress).toEqual([0, MB, 2 * MB, 2.5 * MB])
+    expect(loadPendingUploads(storage)).toEqual({})
+  })
+
+  it('resends a part rejected for a bad checksum', async () => {
+    const service = fakeUploadService({ corruptOnce: [2] })
+    const { file } = makeFile(2 * MB)
+
+    await uploadResumable(file, { storage: memoryStorage(), fetchImpl: service.fetchImpl })
+
+    expect(service.partRequests()).toBe(3)
+  })
+
+  it('resumes after an interruption without sending received parts again', async () => {
+    const service = fakeUploadService({ failAfterParts: 2 })
+    const storage = memoryStorage()
+    const { file, bytes } = makeFile(3.5 * MB)
+
+    await expect(uploadResumable(file, { storage, fetchImpl: service.fetchImpl })).rejects.toThrow('Failed to fetch')
+    const pending = loadPendingUploads(storage)[fileFingerprint(file)]
+    expect(pending).toMatchObject({ fileName: 'reads.fastq.gz', uploadedBytes: 2 * MB })
+
+    // A reload gives a fresh File for the same data; the stored upload id carries over
+    const retry = fakeUploadService()
+    retry.uploads.set(pending!.uploadId, service.uploads.get(pending!.uploadId)!)
+    const progress: number[] = []
+    const uploaded = await uploadResumable(new File([bytes], 'reads.fastq.gz', { lastModified: file.lastModified }), {
+      storage,
+      fetchImpl: retry.fetchImpl,
+      onProgress: (uploadedBytes) => progress.push(uploadedBytes),
+    })
+
+    expect(retry.partRequests()).toBe(2)
+    expect(progress[0]).toBe(2 * MB)
+    expect(uploaded.contentHash).toBe(sha256(bytes))
+  })
+
+  it('starts over when the service no longer has the upload', async () => {
+    const service = fakeUploadService({ failAfterParts: 1 })
+    const storage = memoryStorage()
+    const { file } = makeFile(2 * MB)
+    await expect(uploadResumable(file, { storage, fetchImpl: service.fetchImpl })).rejects.toThrow()
+
+    const fresh = fakeUploadService()
+    await uploadResumable(file, { storage, fetchImpl: fresh.fetchImpl })
+
+    expect(fresh.partRequests()).toBe(2)
+    expect(loadPendingUploads(storage)).toEqual({})
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateN50,
+  detectReportType,
+  parseFinalSummary,
+  parseRunReport,
+  parseSequencingSummary
+} from '../../src/lib/reports/RunReportParser'
+
+const sequencingSummary = [
+  'read_id\tpasses_filtering\tsequence_length_template\tmean_qscore_template\tbarcode_arrangement',
+  'r1\tTRUE\t1000\t12\tbarcode01',
+  'r2\tTRUE\t4000\t14\tbarcode01',
+  'r3\tFALSE\t500\t6\tbarcode02',
+  'r4\tTRUE\t2500\t10\tbarcode02'
+]
+
+describe('Run report parser', () => {
+  it('should detect report types from MinKNOW and Dorado file names', () => {
+    expect(detectReportType('final_summary_FAX12345_abcd1234.txt')).toBe('minknow_final_summary')
+    expect(detectReportType('/data/run/sequencing_summary_FAX12345_abcd1234.txt')).toBe('sequencing_summary')
+    expect(detectReportType('pycoQC_report.json')).toBe('pycoqc_json')
+    expect(detectReportType('summary.json', '{"All Reads": {}}')).toBe('pycoqc_json')
+    expect(detectReportType('dorado_summary.json')).toBe('dorado_json')
+    expect(detectReportType('notes.pdf')).toBeNull()
+  })
+
+  it('should calculate N50 from read lengths', () => {
+    expect(calculateN50([1000, 4000, 500, 2500])).toBe(4000)
+    expect(calculateN50([1000, 3000, 500, 2500])).toBe(2500)
+    expect(calculateN50([])).toBe(0)
+  })
+
+  it('should summarize a sequencing_summary overall and per barcode', async () => {
+    const report = await parseSequencingSummary(sequencingSummary)
+
+    expect(report.metrics).toEqual({
+      readCount: 4,
+      totalBases: 8000,
+      n50: 4000,
+      meanQScore: 10.5,
+      passReadCount: 3,
+      failReadCount: 1,
+      passRatio: 0.75
+    })
+    expect(report.metricsByBarcode?.['barcode02']?.passRatio).toBe(0.5)
+    expect(report.distributions?.readLengthHistogram.slice(0, 4).map(bin => bin.reads)).toEqual([1, 1, 2, 0])
+    expect(report.distributions?.qScoreHistogram).toEqual([
+      { qScore: 6, reads: 1 },
+      { qScore: 10, reads: 1 },
+      { qScore: 12, reads: 1 },
+      { qScore: 14, reads: 1 }
+    ])
+  })
+
+  it('should reject a sequencing_summary without read lengths', async () => {
+    await expect(parseSequencingSummary(['read_id\tmean_qscore_template', 'r1\t10']))
+      .rejects.toThrow(/sequence_length_template/)
+  })
+
+  it('should read run details from final_summary', () => {
+    const report = parseFinalSummary([
+      'instrument=MN12345',
+      'position=MN12345',
+      'flow_cell_id=FAX12345',
+      'sample_id=NANO-001',
+      'protocol_group_id=PG1',
+      'acquisition_run_id=abcd1234',
+      'started=2026-01-01T10:00:00Z'
+    ].join('\n'))
+
+    expect(report.run).toMatchObject({ flowCellId: 'FAX12345', sampleId: 'NANO-001', acquisitionRunId: 'abcd1234' })
+  })
+
+  it('should parse pycoQC and Dorado JSON reports', async () => {
+    const pycoqc = await parseRunReport('pycoQC.json', [JSON.stringify({
+      'All Reads': { basecall: { reads_number: 200, bases_number: 500000, N50: 3200.4, qual_score_mean: 11.2 } },
+      'Pass Reads': { basecall: { reads_number: 150 } }
+    })])
+    expect(pycoqc.metrics).toMatchObject({ readCount: 200, n50: 3200, failReadCount: 50, passRatio: 0.75 })
+
+    const dorado = await parseRunReport('dorado_summary.json', [JSON.stringify({
+      read_count: 10, total_bases: 20000, n50: 2100, mean_qscore: 15
+    })])
+    expect(dorado.metrics).toMatchObject({ readCount: 10, passReadCount: 10, meanQScore: 15 })
+  })
+})
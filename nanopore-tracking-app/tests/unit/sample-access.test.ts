@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import {
+  authorizeSampleAccess,
+  filterVisibleSamples,
+  requiredPermissions,
+  sampleIdFromInput,
+  type AccessUser
+} from '../../src/lib/auth/SampleAccess'
+
+const SUBMITTER_ID = '11111111-1111-4111-8111-111111111111'
+const OTHER_ID = '22222222-2222-4222-8222-222222222222'
+const SAMPLE_ID = '33333333-3333-4333-8333-333333333333'
+
+const submitter: AccessUser = { id: SUBMITTER_ID, name: 'Sam', email: 'sam@lab.org', role: 'submitter' }
+const technician: AccessUser = { id: OTHER_ID, name: 'Grey', email: 'grey@lab.org', role: 'technician' }
+const labManager: AccessUser = { id: OTHER_ID, name: 'Tara', email: 'tara@lab.org', role: 'lab_manager' }
+
+const ownSample = { created_by: SUBMITTER_ID, assigned_to: 'grey', library_prep_by: null, priority: 'normal', status: 'prep' }
+const otherSample = { created_by: OTHER_ID, assigned_to: 'Tara', library_prep_by: null, priority: 'normal', status: 'prep' }
+
+describe('authorizeSampleAccess', () => {
+  it('limits submitters to reading samples they created', () => {
+    expect(authorizeSampleAccess(submitter, 'sample:read', ownSample).allowed).toBe(true)
+    expect(authorizeSampleAccess(submitter, 'sample:read', otherSample).allowed).toBe(false)
+    expect(authorizeSampleAccess(submitter, 'sample:create').allowed).toBe(true)
+    expect(authorizeSampleAccess(submitter, 'sample:update', ownSample)).toEqual({
+      allowed: false,
+      reason: 'Submitter role cannot update samples',
+    })
+  })
+
+  it('lets technicians update steps only on samples assigned to them, matching names without case', () => {
+    expect(authorizeSampleAccess(technician, 'sample:update_steps', ownSample).allowed).toBe(true)
+    expect(authorizeSampleAccess(technician, 'sample:update_steps', otherSample).reason).toBe('This sample is not assigned to you')
+    expect(authorizeSampleAccess(technician, 'sample:delete', ownSample).allowed).toBe(false)
+    expect(authorizeSampleAccess(technician, 'sample:assign', ownSample).allowed).toBe(false)
+  })
+
+  it('refuses own and assigned scopes when no sample was found', () => {
+    expect(authorizeSampleAccess(submitter, 'sample:read')).toEqual({
+      allowed: false,
+      reason: 'No sample found to check your access against',
+    })
+    expect(authorizeSampleAccess(technician, 'sample:update_steps').allowed).toBe(false)
+    expect(authorizeSampleAccess(technician, 'sample:read').allowed).toBe(true)
+  })
+
+  it('keeps extraction review to lab staff', () => {
+    expect(authorizeSampleAccess(submitter, 'intake:review')).toEqual({
+      allowed: false,
+      reason: 'Submitter role cannot review extracted submission forms',
+    })
+    expect(authorizeSampleAccess(technician, 'intake:review').allowed).toBe(true)
+  })
+
+  it('keeps the query assistant to lab staff', () => {
+    expect(authorizeSampleAccess(submitter, 'sample:query').reason).toBe('Submitter role cannot use the sample query assistant')
+    expect(authorizeSampleAccess(technician, 'sample:query').allowed).toBe(true)
+  })
+
+  it('lets lab managers and admins act on any sample', () => {
+    for (const permission of ['sample:assign', 'sample:reprioritize', 'sample:delete'] as const) {
+      expect(authorizeSampleAccess(labManager, permission, otherSample).allowed).toBe(true)
+      expect(authorizeSampleAccess({ ...submitter, role: 'admin' }, permission, otherSample).allowed).toBe(true)
+    }
+  })
+})
+
+describe('requiredPermissions', () => {
+  it('adds assign, reprioritize and step permissions for the fields an update changes', () => {
+    expect(requiredPermissions('sample:update', {
+      id: SAMPLE_ID,
+      data: { sampleName: 'Renamed', priority: 'urgent', assignedTo: 'Tara', status: 'sequencing' },
+    }, ownSample)).toEqual(['sample:update', 'sample:assign', 'sample:reprioritize', 'sample:update_steps'])
+  })
+
+  it('ignores fields an edit form resends unchanged', () => {
+    expect(requiredPermissions('sample:update', {
+      id: SAMPLE_ID,
+      data: { sampleName: 'Renamed', priority: 'normal', assignedTo: 'grey', libraryPrepBy: '', status: 'prep' },
+    }, ownSample)).toEqual(['sample:update'])
+  })
+
+  it('requires assign when a sample is created with an assignee', () => {
+    expect(requiredPermissions('sample:create', { sampleName: 'NANO-1', assignedTo: 'Grey' })).toEqual(['sample:create', 'sample:assign'])
+    expect(requiredPermissions('sample:delete', SAMPLE_ID)).toEqual(['sample:delete'])
+  })
+})
+
+describe('sampleIdFromInput', () => {
+  it('reads the sample from a bare id, id or sampleId', () => {
+    expect(sampleIdFromInput(SAMPLE_ID)).toBe(SAMPLE_ID)
+    expect(sampleIdFromInput({ id: SAMPLE_ID, data: {} })).toBe(SAMPLE_ID)
+    expect(sampleIdFromInput({ sampleId: SAMPLE_ID, passed: true })).toBe(SAMPLE_ID)
+    expect(sampleIdFromInput({ sampleName: 'NANO-1' })).toBeNull()
+    expect(sampleIdFromInput('not-a-uuid')).toBeNull()
+  })
+})
+
+describe('filterVisibleSamples', () => {
+  it('shows submitters their own samples and staff everything', () => {
+    expect(filterVisibleSamples(submitter, [ownSample, otherSample])).toEqual([ownSample])
+    expect(filterVisibleSamples(technician, [ownSample, otherSample])).toHaveLength(2)
+  })
+})
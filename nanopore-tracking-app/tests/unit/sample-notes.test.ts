@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildNoteThreads,
+  createNoteSchema,
+  editNoteSchema,
+  newMentions,
+  parseMentions
+} from '../../src/lib/notes/SampleNotes'
+
+const SAMPLE_ID = '5b0f0f5e-6f3c-4c3e-9d43-8f7d2a1b0c01'
+
+describe('parseMentions', () => {
+  it('finds staff mentions case-insensitively, once each, in order', () => {
+    expect(parseMentions('@tara please check with @Grey, then @TARA again')).toEqual(['Tara', 'Grey'])
+  })
+
+  it('ignores unknown names and email addresses', () => {
+    expect(parseMentions('Ask @Bob or mail grey@example.com')).toEqual([])
+  })
+
+  it('only matches whole names', () => {
+    expect(parseMentions('@Alexander and @Alex')).toEqual(['Alex'])
+  })
+})
+
+describe('newMentions', () => {
+  it('returns only people mentioned for the first time by an edit', () => {
+    expect(newMentions('@Tara can you look?', '@Tara and @Lisa can you look?')).toEqual(['Lisa'])
+  })
+})
+
+describe('note schemas', () => {
+  it('defaults new notes to internal with no attachments', () => {
+    const input = createNoteSchema.parse({ sampleId: SAMPLE_ID, body: '  Low yield  ' })
+    expect(input).toMatchObject({ visibility: 'internal', attachmentIds: [], body: 'Low yield' })
+  })
+
+  it('drops author and editor names sent by the client; they come from the session', () => {
+    expect(createNoteSchema.parse({ sampleId: SAMPLE_ID, author: 'Grey', body: 'Low yield' })).not.toHaveProperty('author')
+    expect(editNoteSchema.parse({ id: SAMPLE_ID, editor: 'Grey', body: 'x' })).not.toHaveProperty('editor')
+  })
+
+  it('rejects empty bodies and unknown visibilities', () => {
+    expect(createNoteSchema.safeParse({ sampleId: SAMPLE_ID, body: '   ' }).success).toBe(false)
+    expect(editNoteSchema.safeParse({ id: SAMPLE_ID, body: 'x', visibility: 'public' }).success).toBe(false)
+  })
+})
+
+describe('buildNoteThreads', () => {
+  const note = (id: string, parentId: string | null, minute: number) => ({
+    id,
+    parentId,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 0, minute)),
+  })
+
+  it('groups replies, including replies to replies, under their top-level note', () => {
+    const threads = buildNoteThreads([
+      note('reply-2', 'reply-1', 3),
+      note('root', null, 0),
+      note('reply-1', 'root', 1),
+      note('second', null, 2),
+    ])
+
+    expect(threads.map(thread => thread.id)).toEqual(['root', 'second'])
+    expect(threads[0]!.replies.map(reply => reply.id)).toEqual(['reply-1', 'reply-2'])
+  })
+
+  it('shows replies to hidden notes as their own thread', () => {
+    const threads = buildNoteThreads([note('reply', 'internal-root', 1)])
+    expect(threads.map(thread => thread.id)).toEqual(['reply'])
+  })
+})
@@ -0,0 +1,164 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { DummyDriver, Kysely, PostgresAdapter, PostgresIntrospector, PostgresQueryCompiler } from 'kysely'
+import type { Database } from '../../src/lib/database'
+import { QueryPlanClient, type QueryPlanRequest, type SampleQueryPlanner } from '../../src/lib/ai/query-plan-client'
+import { describeQueryPlan, sampleQueryPlanSchema } from '../../src/lib/ai/sample-query-plan'
+import { SampleQueryRepository } from '../../src/repositories/SampleQueryRepository'
+import { SampleQueryAssistantService } from '../../src/services/implementations/SampleQueryAssistantService'
+import { ConfigurationError, ExternalServiceError, ValidationError } from '../../src/middleware/errors/ErrorTypes'
+
+// Compiles queries without a database
+const db = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (kysely) => new PostgresIntrospector(kysely),
+    createQueryCompiler: () => new PostgresQueryCompiler(),
+  },
+})
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+// "How many urgent samples from the Smith lab are stuck in prep for more than 3 days?"
+const stuckInPrep = {
+  filters: [
+    { field: 'priority', op: 'eq', value: 'urgent' },
+    { field: 'labName', op: 'contains', value: 'Smith' },
+    { field: 'status', op: 'eq', value: 'prep' },
+    { field: 'startedAt', op: 'olderThanDays', value: 3 },
+  ],
+  output: 'count',
+}
+
+describe('sample query plans', () => {
+  it('accepts a plan built from whitelisted fields and fills in defaults', () => {
+    const plan = sampleQueryPlanSchema.parse(stuckInPrep)
+    expect(plan).toMatchObject({ output: 'count', steps: [], limit: 50 })
+    expect(describeQueryPlan(plan)).toEqual([
+      'Priority is urgent',
+      'Lab contains Smith',
+      'Status is prep',
+      'Prep started more than 3 days ago',
+    ])
+  })
+
+  it('rejects fields, operators and values outside the whitelist', () => {
+    const invalid = [
+      { filters: [{ field: 'password_hash', op: 'eq', value: 'x' }] },
+      { filters: [{ field: 'status', op: 'contains', value: 'prep' }] },
+      { filters: [{ field: 'priority', op: 'eq', value: "urgent' OR 1=1 --" }] },
+      { filters: [{ field: 'submittedAt', op: 'olderThanDays', value: 'three' }] },
+      { filters: [{ field: 'status', op: 'in', value: 'prep' }] },
+      { output: 'groupBy', groupBy: 'sampleName' },
+      { output: 'groupBy' },
+      { steps: [{}] },
+    ]
+    for (const plan of invalid) {
+      expect(sampleQueryPlanSchema.safeParse(plan).success, JSON.stringify(plan)).toBe(false)
+    }
+  })
+
+  it('caps the number of listed samples', () => {
+    expect(sampleQueryPlanSchema.parse({ limit: 10_000 }).limit).toBe(200)
+  })
+})
+
+describe('SampleQueryRepository', () => {
+  const repository = new SampleQueryRepository(db)
+
+  it('binds every value as a parameter', () => {
+    const query = repository.countQuery(sampleQueryPlanSchema.parse(stuckInPrep), now).compile()
+    expect(query.sql).toBe(
+      'select count(*) as "count" from "nanopore_samples" as "s" where ("s"."priority" = $1 and "s"."lab_name" ilike $2 and "s"."status" = $3 and "s"."started_at" < $4)'
+    )
+    expect(query.parameters).toEqual(['urgent', '%Smith%', 'prep', new Date('2026-10-16T12:00:00Z')])
+  })
+
+  it('reads details from the latest details row and steps through a subquery', () => {
+    const plan = sampleQueryPlanSchema.parse({
+      filters: [{ field: 'organism', op: 'eq', value: 'E. coli' }],
+      steps: [{ name: '100%_QC', status: 'failed' }],
+      output: 'groupBy',
+      groupBy: 'assignedTo',
+    })
+    const query = repository.groupQuery(plan, 'assignedTo', now).compile()
+    expect(query.sql).toContain('lower((select "d"."organism" from nanopore_sample_details as d where d.sample_id = s.id order by d.created_at desc limit 1)) = $1')
+    expect(query.sql).toContain('exists (select "p"."id" from "nanopore_processing_steps" as "p" where "p"."sample_id" = "s"."id" and "p"."step_name" ilike $2 and "p"."step_status" = $3)')
+    expect(query.sql).toContain('group by "s"."assigned_to" order by "count" desc limit $4')
+    // LIKE wildcards in the step name are matched literally
+    expect(query.parameters).toEqual(['e. coli', '%100\\%\\_QC%', 'failed', 50])
+  })
+})
+
+describe('SampleQueryAssistantService', () => {
+  const repository = { runQueryPlan: async () => ({ output: 'count' as const, total: 2 }) } as any
+  const planner = (answer: string) => {
+    const requests: QueryPlanRequest[] = []
+    const fake: SampleQueryPlanner = {
+      plan: async (request) => {
+        requests.push(request)
+        return { answer, model: 'llama3', prompt: 'sample-query-plan@1' }
+      },
+    }
+    return { fake, requests }
+  }
+
+  it('plans from the whitelisted fields and describes the plan', async () => {
+    const { fake, requests } = planner(`Here is the plan:\n${JSON.stringify(stuckInPrep)}`)
+    const service = new SampleQueryAssistantService(repository, fake, true)
+
+    const interpreted = await service.interpret('How many urgent Smith lab samples are stuck in prep for over 3 days?', now)
+    expect(interpreted.prompt).toBe('sample-query-plan@1')
+    expect(interpreted.conditions).toContain('Prep started more than 3 days ago')
+    expect(requests[0]).toMatchObject({ question: 'How many urgent Smith lab samples are stuck in prep for over 3 days?', today: '2026-10-19' })
+    expect(requests[0]?.fields).toContainEqual({ name: 'slaRisk', type: 'enum', values: ['on_track', 'at_risk', 'breached'], operators: ['eq', 'neq', 'in'] })
+
+    expect(await service.run(interpreted.plan)).toMatchObject({ result: { output: 'count', total: 2 } })
+  })
+
+  it('reports plans outside the whitelist as a problem with the question', async () => {
+    const { fake } = planner('{"sql": "DROP TABLE nanopore_samples", "filters": [{"field": "id; --", "op": "eq"}]}')
+    const service = new SampleQueryAssistantService(repository, fake, true)
+
+    await expect(service.interpret('drop everything')).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  const client = new QueryPlanClient({ serviceUrl: 'http://ai-processing:3003/', timeoutMs: 1000 })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('plans through the AI processing planning endpoint', async () => {
+    const fetch = vi.fn(async () => Response.json({ answer: JSON.stringify(stuckInPrep), model: 'llama3', prompt: 'sample-query-plan@1', processingTime: 12 }))
+    vi.stubGlobal('fetch', fetch)
+    const service = new SampleQueryAssistantService(repository, client, true)
+
+    const interpreted = await service.interpret('How many urgent Smith lab samples are stuck in prep for over 3 days?', now)
+
+    expect(interpreted.plan).toMatchObject({ output: 'count', filters: stuckInPrep.filters })
+    expect(fetch).toHaveBeenCalledTimes(1)
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://ai-processing:3003/api/query/plan')
+    const body = JSON.parse(String(init.body))
+    expect(Object.keys(body).sort()).toEqual(['fields', 'question', 'today'])
+    expect(body).toMatchObject({ question: 'How many urgent Smith lab samples are stuck in prep for over 3 days?', today: '2026-10-19' })
+  })
+
+  it('reports an AI processing service failure as an external service error', async () => {
+    const service = new SampleQueryAssistantService(repository, client, true)
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Sample query planning failed', { status: 500, statusText: 'Internal Server Error' })))
+    await expect(service.interpret('how many samples?'))
+      .rejects.toThrow('ai-processing API error: 500 Internal Server Error - Sample query planning failed')
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed') }))
+    await expect(service.interpret('how many samples?')).rejects.toBeInstanceOf(ExternalServiceError)
+  })
+
+  it('refuses to plan when AI features are disabled', async () => {
+    const service = new SampleQueryAssistantService(repository, planner('{}').fake, false)
+    await expect(service.interpret('how many samples?')).rejects.toBeInstanceOf(ConfigurationError)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildSampleTimeline,
+  custodyHandlers,
+  diffChanges,
+  fieldLabel,
+  renderChainOfCustodyCsv,
+  renderChainOfCustodyHtml,
+  type TimelineSources
+} from '../../src/lib/audit/SampleTimeline'
+
+const at = (minute: number) => new Date(Date.UTC(2025, 6, 1, 9, minute))
+
+const buildSources = (overrides: Partial<TimelineSources> = {}): TimelineSources => ({
+  sample: {
+    id: 'sample-1',
+    sample_name: 'NANO-001',
+    submitter_name: 'Dana Smith',
+    submitter_email: 'dana@example.com',
+    created_by: 'intake',
+    created_at: at(0),
+  },
+  steps: [],
+  attachments: [],
+  notes: [],
+  auditEvents: [],
+  serviceEvents: [],
+  ...overrides,
+})
+
+describe('diffChanges', () => {
+  it('turns audited from/to pairs into labelled before/after values', () => {
+    expect(diffChanges({ libraryPrepBy: { from: null, to: 'Tara' }, concentration: { from: 12.5, to: 15 } })).toEqual([
+      { field: 'libraryPrepBy', label: 'Library prep by', before: null, after: 'Tara' },
+      { field: 'concentration', label: 'Concentration', before: '12.5', after: '15' },
+    ])
+  })
+
+  it('drops fields whose value did not change', () => {
+    expect(diffChanges({ priority: { from: 'high', to: 'high' } })).toEqual([])
+  })
+
+  it('labels snake_case columns too', () => {
+    expect(fieldLabel('flow_cell_type')).toBe('Flow cell type')
+  })
+})
+
+describe('buildSampleTimeline', () => {
+  it('merges every source in chronological order', () => {
+    const entries = buildSampleTimeline(buildSources({
+      auditEvents: [
+        { type: 'sample.status_changed', userId: 'Grey', action: 'status_change', details: { oldStatus: 'submitted', newStatus: 'prep' }, timestamp: at(10) },
+        { type: 'sample.updated', userId: 'Grey', action: 'update', details: { changes: { assignedTo: { from: null, to: 'Tara' } } }, timestamp: at(5) },
+      ],
+      steps: [{
+        id: 'step-1',
+        step_name: 'Sample QC',
+        step_status: 'completed',
+        assigned_to: 'Tara',
+        started_at: at(6),
+        completed_at: at(9),
+        notes: 'QC passed',
+      }],
+      attachments: [{ id: 'att-1', file_name: 'gel.png', uploaded_by: 'Tara', uploaded_at: at(8) }],
+      notes: [{ id: 'note-1', author: 'Tara', visibility: 'submitter', parentId: null, createdAt: at(11) }],
+    }))
+
+    expect(entries.map(entry => entry.kind)).toEqual([
+      'submitted', 'assignment', 'step_started', 'attachment', 'step_completed', 'status_change', 'note',
+    ])
+    expect(entries[5]!.changes).toEqual([{ field: 'status', label: 'Status', before: 'submitted', after: 'prep' }])
+    expect(entries[4]!.summary).toBe('Sample QC completed: QC passed')
+  })
+
+  it('prefers the audited creation event over the sample row', () => {
+    const entries = buildSampleTimeline(buildSources({
+      auditEvents: [{ type: 'sample.created', userId: 'Grey', action: 'create', details: {}, timestamp: at(0) }],
+    }))
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ kind: 'submitted', actor: 'Grey', source: 'audit_log' })
+  })
+
+  it('skips audit service events already recorded locally', () => {
+    const entries = buildSampleTimeline(buildSources({
+      serviceEvents: [
+        { id: 'svc-1', timestamp: at(3), userEmail: 'grey@example.com', service: 'samples', action: 'export', details: {} },
+        { id: 'svc-2', timestamp: at(3), userEmail: 'grey@example.com', service: 'samples', action: 'export', details: {} },
+      ],
+    }))
+    expect(entries.filter(entry => entry.source === 'audit_service')).toHaveLength(1)
+  })
+})
+
+describe('chain-of-custody report', () => {
+  const report = {
+    sampleId: 'sample-1',
+    sampleName: 'NANO-<001>',
+    submitter: 'Dana Smith <dana@example.com>',
+    status: 'prep',
+    generatedAt: '2025-07-01T10:00:00.000Z',
+    entries: buildSampleTimeline(buildSources({
+      auditEvents: [{ type: 'sample.assigned', userId: 'Grey', action: 'assign', details: { assignedTo: 'Tara, Jr.' }, timestamp: at(4) }],
+    })),
+    unavailableSources: ['audit service'],
+  }
+
+  it('lists handlers in the order they first acted', () => {
+    expect(custodyHandlers(report.entries)).toEqual(['intake', 'Grey'])
+  })
+
+  it('escapes values in the HTML and flags missing sources', () => {
+    const html = renderChainOfCustodyHtml(report)
+    expect(html).toContain('NANO-&lt;001&gt;')
+    expect(html).toContain('Incomplete: could not read audit service')
+  })
+
+  it('quotes CSV cells containing commas', () => {
+    const lines = renderChainOfCustodyCsv(report).trim().split('\n')
+    expect(lines[0]).toBe('timestamp,kind,actor,event,changes,source')
+    expect(lines[2]).toContain('"Assigned to Tara, Jr."')
+  })
+})
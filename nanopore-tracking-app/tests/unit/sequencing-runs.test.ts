@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findBarcodeCollisions,
+  normalizeBarcode,
+  validateRunMembers,
+  type RunMemberDetails
+} from '../../src/lib/workflow/SequencingRuns'
+
+const details: RunMemberDetails[] = [
+  { sampleId: 's1', sampleName: 'Sample 1', barcodingRequired: true, barcodeKit: 'SQK-NBD114.24' },
+  { sampleId: 's2', sampleName: 'Sample 2', barcodingRequired: true, barcodeKit: null },
+  { sampleId: 's3', sampleName: 'Sample 3', barcodingRequired: false, barcodeKit: null }
+]
+
+describe('Sequencing runs', () => {
+  it('should normalize barcode labels to the MinKNOW form', () => {
+    expect(normalizeBarcode('7')).toBe('barcode07')
+    expect(normalizeBarcode('NB07')).toBe('barcode07')
+    expect(normalizeBarcode('barcode12')).toBe('barcode12')
+    expect(() => normalizeBarcode('unclassified')).toThrow(/Invalid barcode/)
+  })
+
+  it('should reject barcode collisions within a run', () => {
+    const members = [
+      { sampleId: 's1', barcode: 'NB01' },
+      { sampleId: 's2', barcode: 'barcode01' }
+    ]
+
+    expect(findBarcodeCollisions(members)).toEqual([{ barcode: 'barcode01', sampleIds: ['s1', 's2'] }])
+    expect(() => validateRunMembers('SQK-NBD114.24', members, details)).toThrow(/Barcode collision/)
+  })
+
+  it('should reject barcodes outside the kit and samples not prepared for it', () => {
+    expect(() => validateRunMembers('SQK-NBD114.24', [{ sampleId: 's1', barcode: '25' }], details)).toThrow(/not part of/)
+    expect(() => validateRunMembers('SQK-RBK114.24', [{ sampleId: 's1', barcode: '1' }], details)).toThrow(/prepared with/)
+    expect(() => validateRunMembers('SQK-NBD114.24', [{ sampleId: 's3', barcode: '3' }], details)).toThrow(/not marked for barcoding/)
+  })
+
+  it('should return members with normalized barcodes', () => {
+    const members = validateRunMembers('SQK-NBD114.24', [
+      { sampleId: 's1', barcode: '1' },
+      { sampleId: 's2', barcode: 'NB02' }
+    ], details)
+
+    expect(members).toEqual([
+      { sampleId: 's1', barcode: 'barcode01' },
+      { sampleId: 's2', barcode: 'barcode02' }
+    ])
+  })
+})
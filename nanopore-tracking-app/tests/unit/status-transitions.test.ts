@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  evaluateStatusTransition,
+  getAllowedTransitions,
+  type TransitionContext
+} from '@app/utils'
+import { SampleService, type SampleRepositories, type SampleTransactionRunner } from '../../src/services/implementations/SampleService'
+import { StatusTransitionError } from '../../src/middleware/errors/ErrorTypes'
+import type { ISampleRepository } from '../../src/services/interfaces/ISampleRepository'
+import type { IAuditLogger } from '../../src/services/interfaces/IAuditLogger'
+import type { IEventEmitter } from '../../src/services/interfaces/IEventEmitter'
+import type { IFlowCellRepository } from '../../src/services/interfaces/IFlowCellRepository'
+import type { Sample, UpdateSampleData } from '../../src/services/interfaces/ISampleService'
+import {
+  assertStatusTransition as assertServiceStatusTransition,
+  getUnmetPreconditions as getServiceUnmetPreconditions
+} from '../../services/sample-management/src/services/statusTransitions'
+import {
+  FlowCellType,
+  ProcessingStepStatus,
+  SamplePriority,
+  SampleStatus as ServiceSampleStatus,
+  SampleType,
+  StatusTransitionError as ServiceStatusTransitionError,
+  type Sample as ServiceSample
+} from '../../services/sample-management/src/types/sample'
+
+const buildContext = (overrides: Partial<TransitionContext['sample']> = {}, steps: TransitionContext['processingSteps'] = []): TransitionContext => ({
+  sample: {
+    id: 'sample-1',
+    status: 'submitted',
+    flow_cell_type: null,
+    ...overrides
+  },
+  processingSteps: steps
+})
+
+describe('Sample status transitions', () => {
+  it('should reject jumping from submitted straight to completed', () => {
+    const result = evaluateStatusTransition('completed', buildContext())
+
+    expect(result.allowed).toBe(false)
+    expect(result.unmetPreconditions[0]?.guard).toBe('transition_allowed')
+  })
+
+  it('should not allow archived samples to change status', () => {
+    expect(getAllowedTransitions('archived')).toEqual([])
+
+    const result = evaluateStatusTransition('submitted', buildContext({ status: 'archived' }))
+    expect(result.allowed).toBe(false)
+  })
+
+  it('should require Sample QC to be completed before prep', () => {
+    const blocked = evaluateStatusTransition('prep', buildContext({}, [
+      { step_name: 'Sample QC', step_status: 'in_progress' }
+    ]))
+    expect(blocked.allowed).toBe(false)
+    expect(blocked.unmetPreconditions.map(p => p.guard)).toEqual(['step_completed:Sample QC'])
+
+    const allowed = evaluateStatusTransition('prep', buildContext({}, [
+      { step_name: 'Sample QC', step_status: 'completed' }
+    ]))
+    expect(allowed.allowed).toBe(true)
+  })
+
+  it('should require a flow cell type before sequencing', () => {
+    const blocked = evaluateStatusTransition('sequencing', buildContext({ status: 'prep' }))
+    expect(blocked.allowed).toBe(false)
+    expect(blocked.unmetPreconditions[0]?.guard).toBe('flow_cell_type_assigned')
+
+    const allowed = evaluateStatusTransition('sequencing', buildContext({ status: 'prep', flow_cell_type: 'R10.4.1' }))
+    expect(allowed.allowed).toBe(true)
+  })
+})
+
+describe('SampleService status changes', () => {
+  const sample = {
+    id: 'sample-1',
+    sample_name: 'S1',
+    status: 'prep',
+    flow_cell_type: null,
+    flow_cell_count: 1,
+    assigned_to: null,
+    created_by: 'user-1',
+  } as unknown as Sample
+
+  const buildService = () => {
+    const update = vi.fn(async (_id: string, data: UpdateSampleData) => ({ ...sample, ...data }) as unknown as Sample)
+    const updateStatus = vi.fn(async () => sample)
+    const repository = {
+      findById: async () => sample,
+      findProcessingSteps: async () => [],
+      update,
+      updateStatus,
+    } as unknown as ISampleRepository
+    const logSampleUpdated = vi.fn(async () => {})
+    const auditLogger = { logSampleUpdated } as unknown as IAuditLogger
+    const eventEmitter = { emitSampleUpdated: () => {} } as unknown as IEventEmitter
+    return { service: new SampleService(repository, auditLogger, eventEmitter), update, updateStatus, logSampleUpdated }
+  }
+
+  it('should check guards against the sample as it will be saved', async () => {
+    const { service, update } = buildService()
+
+    await service.updateSample('sample-1', { status: 'sequencing', flowCellType: 'R10.4.1' }, 'Grey')
+    expect(update).toHaveBeenCalledOnce()
+  })
+
+  it('should still reject the move when the update leaves the guard unmet', async () => {
+    const { service, update } = buildService()
+
+    await expect(service.updateSample('sample-1', { status: 'sequencing' }, 'Grey')).rejects.toBeInstanceOf(StatusTransitionError)
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('should treat a request for the current status as a no-op in both update paths', async () => {
+    const { service, update, updateStatus } = buildService()
+
+    await service.updateSample('sample-1', { status: 'prep' }, 'Grey')
+    expect(update).toHaveBeenCalledOnce()
+
+    await expect(service.updateSampleStatus('sample-1', 'prep', 'Grey')).resolves.toBe(sample)
+    expect(updateStatus).not.toHaveBeenCalled()
+  })
+
+  it('should audit the change under the acting user rather than the sample creator', async () => {
+    const { service, logSampleUpdated } = buildService()
+
+    await service.updateSample('sample-1', { sampleName: 'S1-renamed' }, 'Grey')
+    expect(logSampleUpdated).toHaveBeenCalledWith('sample-1', 'Grey', { sampleName: { from: 'S1', to: 'S1-renamed' } })
+  })
+
+  it('should reserve flow cells and update the sample through the same transaction', async () => {
+    const update = vi.fn(async () => { throw new Error('connection lost') })
+    const samples = { findById: async () => sample, findProcessingSteps: async () => [], update } as unknown as ISampleRepository
+    const reserveForSample = vi.fn(async () => [])
+    const releaseForSample = vi.fn(async () => {})
+    const flowCells = { findActiveUsagesBySample: async () => [], reserveForSample, releaseForSample } as unknown as IFlowCellRepository
+    const runInTransaction = vi.fn(async (work: (repositories: SampleRepositories) => Promise<unknown>) => await work({ samples, flowCells }))
+    const service = new SampleService(
+      {} as ISampleRepository,
+      {} as IAuditLogger,
+      {} as IEventEmitter,
+      undefined,
+      undefined,
+      runInTransaction as SampleTransactionRunner
+    )
+
+    await expect(service.updateSample('sample-1', { status: 'sequencing', flowCellType: 'R10.4.1' }, 'Grey')).rejects.toThrow('connection lost')
+    expect(runInTransaction).toHaveBeenCalledOnce()
+    expect(reserveForSample).toHaveBeenCalledWith('sample-1', 'R10.4.1', 1)
+    // Rolling back the transaction drops the reservation; nothing is released by hand
+    expect(releaseForSample).not.toHaveBeenCalled()
+  })
+})
+
+describe('Sample management service transitions', () => {
+  const serviceSample = (overrides: Partial<ServiceSample> = {}): ServiceSample => ({
+    id: 'sample-1',
+    sampleName: 'S1',
+    projectId: 'P1',
+    submitterName: 'Ada',
+    submitterEmail: 'ada@example.com',
+    labName: 'Lab',
+    sampleType: SampleType.DNA,
+    sampleBuffer: 'TE',
+    concentration: 10,
+    volume: 20,
+    totalAmount: 200,
+    flowCellType: FlowCellType.FLO_MIN106,
+    flowCellCount: 1,
+    status: ServiceSampleStatus.SUBMITTED,
+    priority: SamplePriority.MEDIUM,
+    chartField: 'HTSF-001',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  })
+
+  it('should apply the shared Sample QC guard', () => {
+    expect(getServiceUnmetPreconditions(serviceSample(), [], ServiceSampleStatus.PREP).map(p => p.guard))
+      .toEqual(['step_completed:Sample QC'])
+
+    const steps = [{ stepName: 'Sample QC', stepStatus: ProcessingStepStatus.COMPLETED, updatedAt: new Date() }]
+    expect(() => assertServiceStatusTransition(serviceSample(), steps, ServiceSampleStatus.PREP)).not.toThrow()
+  })
+
+  it('should reject transitions missing from the shared table', () => {
+    expect(() => assertServiceStatusTransition(serviceSample(), [], ServiceSampleStatus.COMPLETED))
+      .toThrow(ServiceStatusTransitionError)
+  })
+})
@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { formDefaultsFromPdf, portalProgress } from '../../src/lib/portal/SubmitterPortal'
+import { createPortalToken, verifyPortalToken } from '../../src/lib/portal/PortalLinks'
+import { authorizeSampleAccess, type AccessUser } from '../../src/lib/auth/SampleAccess'
+import { SubmitterPortalService } from '../../src/services/implementations/SubmitterPortalService'
+import { ValidationError } from '../../src/middleware/errors/ErrorTypes'
+
+const SECRET = 'test-secret'
+
+describe('portalProgress', () => {
+  it('marks earlier stages done and counts completed steps', () => {
+    const progress = portalProgress('sequencing', [
+      { stepName: 'Sample QC', stepStatus: 'completed' },
+      { stepName: 'Library Preparation', stepStatus: 'completed' },
+      { stepName: 'Sequencing Run', stepStatus: 'in_progress' },
+      { stepName: 'Basecalling', stepStatus: 'pending' },
+      { stepName: 'Barcoding', stepStatus: 'skipped' },
+    ])
+
+    expect(progress.stages.map(stage => stage.state)).toEqual(['done', 'done', 'current', 'upcoming', 'upcoming'])
+    expect(progress.percent).toBe(50)
+    expect(progress.currentStep).toBe('Sequencing Run')
+    expect(progress.onHold).toBe(false)
+  })
+
+  it('falls back to the stage position without steps and flags failed steps', () => {
+    expect(portalProgress('submitted').percent).toBe(0)
+    expect(portalProgress('analysis').percent).toBe(75)
+    expect(portalProgress('prep', [{ stepName: 'Sample QC', stepStatus: 'failed' }]).onHold).toBe(true)
+  })
+
+  it('shows archived samples as delivered', () => {
+    const progress = portalProgress('archived', [{ stepName: 'Sample QC', stepStatus: 'failed' }])
+    expect(progress.stages.every(stage => stage.state === 'done')).toBe(true)
+    expect(progress).toMatchObject({ percent: 100, currentStep: null, onHold: false })
+  })
+})
+
+describe('portal links', () => {
+  const now = new Date('2026-03-01T10:00:00Z')
+
+  it('round-trips the email until the link expires', () => {
+    const token = createPortalToken(' Ada@Lab.org ', SECRET, now)
+    expect(verifyPortalToken(token, SECRET, new Date(now.getTime() + 29 * 60 * 1000))).toBe('ada@lab.org')
+    expect(verifyPortalToken(token, SECRET, new Date(now.getTime() + 31 * 60 * 1000))).toBeNull()
+  })
+
+  it('rejects tampered tokens and other secrets', () => {
+    const token = createPortalToken('ada@lab.org', SECRET, now)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from(JSON.stringify({ email: 'eve@lab.org', expiresAt: now.getTime() + 60000 })).toString('base64url')}.${signature}`
+
+    expect(verifyPortalToken(forged, SECRET, now)).toBeNull()
+    expect(verifyPortalToken(token, 'other-secret', now)).toBeNull()
+    expect(verifyPortalToken('not-a-token', SECRET, now)).toBeNull()
+  })
+})
+
+describe('formDefaultsFromPdf', () => {
+  it('maps extracted intake fields onto the sample form', () => {
+    expect(formDefaultsFromPdf({
+      sampleName: 'ECOLI-7',
+      submitterEmail: 'ada@lab.org',
+      projectName: 'P-100',
+      sampleType: 'Total RNA',
+      concentration: '45.5 ng/uL',
+      volume: '20 uL',
+      flowCellType: 'PromethION R10.4.1',
+      priority: 'Rush',
+      extractionMethod: 'template',
+      confidence: 0.9,
+    })).toMatchObject({
+      sampleName: 'ECOLI-7',
+      projectId: 'P-100',
+      sampleType: 'RNA',
+      concentration: '45.5',
+      volume: '20',
+      flowCellType: 'R10.4.1',
+      priority: 'urgent',
+    })
+  })
+})
+
+describe('submitter ownership', () => {
+  const sample = { created_by: 'staff', submitter_email: 'Ada@Lab.org', assigned_to: null }
+
+  it('counts samples entered by staff under a verified submitter email as their own', () => {
+    const submitter: AccessUser = { id: 'u1', name: 'ada', email: 'ada@lab.org', role: 'submitter', emailVerified: true }
+
+    expect(authorizeSampleAccess(submitter, 'sample:read', sample).allowed).toBe(true)
+    expect(authorizeSampleAccess(submitter, 'sample:read', { ...sample, submitter_email: 'eve@lab.org' }).allowed).toBe(false)
+  })
+
+  it('ignores the email of a session that never proved it', () => {
+    const submitter: AccessUser = { id: 'u1', name: 'ada', email: 'ada@lab.org', role: 'submitter' }
+
+    expect(authorizeSampleAccess(submitter, 'sample:read', sample).allowed).toBe(false)
+    expect(authorizeSampleAccess(submitter, 'sample:read', { ...sample, created_by: 'u1' }).allowed).toBe(true)
+  })
+})
+
+describe('SubmitterPortalService links', () => {
+  const now = new Date('2026-03-01T10:00:00Z')
+
+  // Stands in for the portal_link_redemptions table
+  const redeemed = new Set<string>()
+  const repository = {
+    redeemLink: async (tokenHash: string) => !redeemed.has(tokenHash) && !!redeemed.add(tokenHash),
+  } as any
+  const service = new SubmitterPortalService(repository, {} as any, {} as any, {} as any, {} as any, {
+    appUrl: 'https://lab.example',
+    linkSecret: SECRET,
+  })
+
+  it('signs in once per link', async () => {
+    const token = createPortalToken('ada@lab.org', SECRET, now)
+
+    await expect(service.redeemLink(token, now)).resolves.toBe('ada@lab.org')
+    await expect(service.redeemLink(token, now)).rejects.toThrow('already been used')
+    // A second link sent at the same moment is still good
+    await expect(service.redeemLink(createPortalToken('ada@lab.org', SECRET, now), now)).resolves.toBe('ada@lab.org')
+  })
+
+  it('refuses invalid links before recording anything', async () => {
+    await expect(service.redeemLink('not-a-token', now)).rejects.toBeInstanceOf(ValidationError)
+  })
+})
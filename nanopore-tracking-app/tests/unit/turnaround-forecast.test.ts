@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  forecastSample,
+  getExpectedStepHours,
+  isRiskEscalation,
+  type ForecastSample,
+  type ForecastStep,
+  type SlaRisk
+} from '../../src/lib/workflow/TurnaroundForecast'
+import { TurnaroundForecastService } from '../../src/services/implementations/TurnaroundForecastService'
+import type { TurnaroundRepository } from '../../src/repositories/TurnaroundRepository'
+import type { EventBus } from '../../src/lib/messaging/event-bus'
+
+const now = new Date('2025-07-15T12:00:00Z')
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+const buildSample = (overrides: Partial<ForecastSample> = {}): ForecastSample => ({
+  id: 'sample-1',
+  status: 'submitted',
+  priority: 'normal',
+  sample_type: 'DNA',
+  assigned_to: null,
+  submitted_at: hoursAgo(0),
+  ...overrides
+})
+
+const pendingSteps: ForecastStep[] = [
+  { step_name: 'Sample QC', step_status: 'pending', estimated_duration_hours: 1, started_at: null },
+  { step_name: 'Sequencing Run', step_status: 'pending', estimated_duration_hours: 48, started_at: null }
+]
+
+describe('Turnaround forecast', () => {
+  it('should sum remaining step estimates', () => {
+    const forecast = forecastSample(buildSample(), pendingSteps, { now, stepDurations: [], queueDepthByAssignee: {} })
+
+    expect(forecast.remainingWorkHours).toBe(49)
+    expect(forecast.projectedCompletionAt.getTime()).toBe(now.getTime() + 49 * 60 * 60 * 1000)
+    expect(forecast.risk).toBe('on_track')
+  })
+
+  it('should prefer historical durations once enough runs exist', () => {
+    const step = pendingSteps[1]!
+    expect(getExpectedStepHours(step, 'DNA', [
+      { sampleType: 'DNA', stepName: 'Sequencing Run', averageHours: 60, sampleCount: 1 }
+    ])).toBe(48)
+    expect(getExpectedStepHours(step, 'DNA', [
+      { sampleType: 'DNA', stepName: 'Sequencing Run', averageHours: 60, sampleCount: 5 }
+    ])).toBe(60)
+  })
+
+  it('should add queue wait for unstarted samples, less for urgent ones', () => {
+    const context = { now, stepDurations: [], queueDepthByAssignee: { alice: 6 } }
+    const normal = forecastSample(buildSample({ assigned_to: 'alice' }), pendingSteps, context)
+    const urgent = forecastSample(buildSample({ assigned_to: 'alice', priority: 'urgent' }), pendingSteps, context)
+
+    expect(normal.queueWaitHours).toBeGreaterThan(urgent.queueWaitHours)
+    expect(urgent.queueWaitHours).toBeGreaterThan(0)
+  })
+
+  it('should flag urgent samples projected past the three day SLA', () => {
+    const forecast = forecastSample(buildSample({ priority: 'urgent', submitted_at: hoursAgo(48) }), pendingSteps, {
+      now, stepDurations: [], queueDepthByAssignee: {}
+    })
+
+    expect(forecast.slaHours).toBe(72)
+    expect(forecast.risk).toBe('at_risk')
+
+    const late = forecastSample(buildSample({ priority: 'urgent', submitted_at: hoursAgo(80) }), pendingSteps, {
+      now, stepDurations: [], queueDepthByAssignee: {}
+    })
+    expect(late.risk).toBe('breached')
+  })
+
+  it('should only treat worsening risk as an escalation', () => {
+    expect(isRiskEscalation('on_track', 'at_risk')).toBe(true)
+    expect(isRiskEscalation('at_risk', 'breached')).toBe(true)
+    expect(isRiskEscalation('at_risk', 'at_risk')).toBe(false)
+    expect(isRiskEscalation('breached', 'on_track')).toBe(false)
+  })
+})
+
+describe('TurnaroundForecastService', () => {
+  // One urgent sample projected past its SLA, stored as on track
+  function createMemoryRepository() {
+    const stored: { risk: SlaRisk; saves: number } = { risk: 'on_track', saves: 0 }
+    const repository = {
+      stored,
+      findActiveSamplesWithSteps: async () => [{
+        ...buildSample({ priority: 'urgent', submitted_at: hoursAgo(80) }),
+        sample_name: 'NANO-1',
+        sla_risk: stored.risk,
+        steps: pendingSteps,
+      }],
+      getStepDurationStats: async () => [],
+      getQueueDepthByAssignee: async () => ({}),
+      saveForecast: async (_id: string, _at: Date, risk: SlaRisk, previousRisk: SlaRisk) => {
+        stored.saves++
+        if (risk === previousRisk || stored.risk !== previousRisk) return false
+        stored.risk = risk
+        return true
+      },
+    }
+    return repository
+  }
+
+  const buildService = (repository: ReturnType<typeof createMemoryRepository>) => {
+    const published: unknown[] = []
+    const eventBus = { publish: async (event: unknown) => { published.push(event) } }
+    return { service: new TurnaroundForecastService(repository as unknown as TurnaroundRepository, eventBus as unknown as EventBus), published }
+  }
+
+  it('should read forecasts without storing them or raising alerts', async () => {
+    const repository = createMemoryRepository()
+    const { service, published } = buildService(repository)
+
+    const [forecast] = await service.getForecasts(now)
+
+    expect(forecast?.risk).toBe('breached')
+    expect(repository.stored).toEqual({ risk: 'on_track', saves: 0 })
+    expect(published).toHaveLength(0)
+  })
+
+  it('should raise an escalation once across overlapping refreshes', async () => {
+    const repository = createMemoryRepository()
+    const { service, published } = buildService(repository)
+
+    // Both runs read the sample as on track before either stores the new risk
+    await Promise.all([service.refreshForecasts(now), service.refreshForecasts(now)])
+    await service.refreshForecasts(now)
+
+    expect(repository.stored.risk).toBe('breached')
+    expect(published).toHaveLength(1)
+    expect(published[0]).toMatchObject({ data: { sampleId: 'sample-1', previousRisk: 'on_track', risk: 'breached' } })
+  })
+})
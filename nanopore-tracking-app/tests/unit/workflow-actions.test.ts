@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_WORKFLOW_STEPS } from '../../src/lib/workflow/WorkflowTemplates'
+import { evaluateStatusTransition } from '@app/utils'
+import {
+  WORKFLOW_ACTIONS,
+  applyStepChanges,
+  planWorkflowAction,
+  type PlannableStep,
+} from '../../src/lib/workflow/WorkflowActions'
+
+type StepStatus = PlannableStep['step_status']
+
+const buildSteps = (statuses: Record<string, StepStatus> = {}): PlannableStep[] =>
+  DEFAULT_WORKFLOW_STEPS.map(step => ({
+    id: `step-${step.stepOrder}`,
+    step_name: step.stepName,
+    step_status: statuses[step.stepName] ?? 'pending',
+    depends_on: step.dependsOn,
+    step_order: step.stepOrder,
+  }))
+
+describe('Workflow actions', () => {
+  it('should complete Sample QC on a passing QC result', () => {
+    const changes = planWorkflowAction(buildSteps(), WORKFLOW_ACTIONS.record_qc_result)
+
+    expect(changes).toEqual([{ stepId: 'step-1', stepName: 'Sample QC', change: 'complete' }])
+  })
+
+  it('should fail Sample QC on a failing QC result and leave other steps alone', () => {
+    const changes = planWorkflowAction(buildSteps({ 'Sample QC': 'in_progress' }), WORKFLOW_ACTIONS.record_qc_result, 'fail')
+
+    expect(changes).toEqual([{ stepId: 'step-1', stepName: 'Sample QC', change: 'fail' }])
+  })
+
+  it('should complete unfinished prerequisites before starting the sequencing run', () => {
+    const steps = buildSteps({ 'Sample QC': 'completed', 'Library Preparation': 'in_progress' })
+    const changes = planWorkflowAction(steps, WORKFLOW_ACTIONS.start_sequencing_run)
+
+    expect(changes.map(c => `${c.stepName}:${c.change}`)).toEqual([
+      'Library Preparation:complete',
+      'Library QC:complete',
+      'Sequencing Setup:complete',
+      'Sequencing Run:start',
+    ])
+  })
+
+  it('should not continue past a failed step', () => {
+    const steps = buildSteps({ 'Sample QC': 'failed' })
+
+    expect(() => planWorkflowAction(steps, WORKFLOW_ACTIONS.start_library_prep)).toThrow(/failed step 'Sample QC'/)
+  })
+
+  it('should reject starting a step twice or finishing a finished one', () => {
+    const steps = buildSteps({ 'Sample QC': 'completed', 'Library Preparation': 'in_progress' })
+
+    expect(() => planWorkflowAction(steps, WORKFLOW_ACTIONS.start_library_prep)).toThrow(/already in progress/)
+    expect(() => planWorkflowAction(steps, WORKFLOW_ACTIONS.record_qc_result)).toThrow(/already completed/)
+  })
+
+  it('should use the latest unfinished step when a step was repeated', () => {
+    const steps: PlannableStep[] = [
+      ...buildSteps({ 'Sample QC': 'failed' }),
+      { id: 'qc-retry', step_name: 'Sample QC', step_status: 'pending', depends_on: [], step_order: 1 },
+    ]
+
+    expect(planWorkflowAction(steps, WORKFLOW_ACTIONS.record_qc_result)[0]?.stepId).toBe('qc-retry')
+  })
+
+  it('should reject templates that lack the target step', () => {
+    const steps = buildSteps().filter(step => step.step_name !== 'Data Delivery')
+
+    expect(() => planWorkflowAction(steps, WORKFLOW_ACTIONS.deliver_results)).toThrow(/Data Delivery/)
+  })
+
+  it('should let the status guard see the steps the action completes', () => {
+    const steps = buildSteps()
+    const changes = planWorkflowAction(steps, WORKFLOW_ACTIONS.record_qc_result)
+    const sample = { id: 'sample-1', status: 'submitted', flow_cell_type: 'MinION' }
+
+    expect(evaluateStatusTransition('prep', { sample, processingSteps: steps }).allowed).toBe(false)
+    expect(evaluateStatusTransition('prep', { sample, processingSteps: applyStepChanges(steps, changes) }).allowed).toBe(true)
+  })
+
+  it('should block delivery while the report step is still running', () => {
+    const inAnalysis = buildSteps(Object.fromEntries(
+      DEFAULT_WORKFLOW_STEPS.slice(0, 6).map(step => [step.stepName, 'completed' as const])
+    ))
+    const reporting = applyStepChanges(inAnalysis, planWorkflowAction(inAnalysis, WORKFLOW_ACTIONS.generate_report))
+    expect(reporting.find(step => step.step_name === 'Quality Assessment')?.step_status).toBe('in_progress')
+
+    const delivered = applyStepChanges(reporting, planWorkflowAction(reporting, WORKFLOW_ACTIONS.deliver_results))
+    const sample = { id: 'sample-1', status: 'analysis', flow_cell_type: 'MinION' }
+
+    expect(evaluateStatusTransition('completed', { sample, processingSteps: reporting }).allowed).toBe(false)
+    expect(evaluateStatusTransition('completed', { sample, processingSteps: delivered }).allowed).toBe(true)
+  })
+})
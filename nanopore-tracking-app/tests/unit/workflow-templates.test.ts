@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import { Kysely, PostgresAdapter, PostgresIntrospector, PostgresQueryCompiler, type CompiledQuery, type QueryResult } from 'kysely'
+import type { Database } from '../../src/lib/database'
+import { PostgreSQLSampleRepository } from '../../src/repositories/PostgreSQLSampleRepository'
+import {
+  DEFAULT_WORKFLOW_STEPS,
+  selectWorkflowTemplate,
+  validateWorkflowSteps,
+  getBlockingDependencies,
+  type WorkflowTemplateDefinition
+} from '../../src/lib/workflow/WorkflowTemplates'
+
+const buildTemplate = (overrides: Partial<WorkflowTemplateDefinition>): WorkflowTemplateDefinition => ({
+  id: 'template-1',
+  templateKey: 'standard',
+  version: 1,
+  name: 'Standard',
+  sampleType: null,
+  libraryPrepKitPattern: null,
+  barcodingRequired: null,
+  status: 'active',
+  steps: DEFAULT_WORKFLOW_STEPS,
+  ...overrides
+})
+
+describe('Workflow templates', () => {
+  const standard = buildTemplate({})
+  const ligation = buildTemplate({ id: 'ligation-1', templateKey: 'ligation', sampleType: 'DNA', libraryPrepKitPattern: 'SQK-LSK%' })
+  const ligationV2 = buildTemplate({ ...ligation, id: 'ligation-2', version: 2 })
+
+  it('should prefer the most specific matching template', () => {
+    const selected = selectWorkflowTemplate([standard, ligation], { sampleType: 'DNA', libraryPrepKit: 'SQK-LSK114' })
+    expect(selected?.id).toBe('ligation-1')
+  })
+
+  it('should fall back to a generic template when the kit does not match', () => {
+    const selected = selectWorkflowTemplate([standard, ligation], { sampleType: 'DNA', libraryPrepKit: 'SQK-RAD004' })
+    expect(selected?.id).toBe('template-1')
+  })
+
+  it('should break ties between equally specific templates by key, whatever their order', () => {
+    const rapid = buildTemplate({ id: 'rapid-1', templateKey: 'rapid', sampleType: 'DNA' })
+    const amplicon = buildTemplate({ id: 'amplicon-1', templateKey: 'amplicon', sampleType: 'DNA' })
+
+    expect(selectWorkflowTemplate([rapid, amplicon], { sampleType: 'DNA' })?.id).toBe('amplicon-1')
+    expect(selectWorkflowTemplate([amplicon, rapid], { sampleType: 'DNA' })?.id).toBe('amplicon-1')
+  })
+
+  it('should pick the latest active version and skip retired ones', () => {
+    expect(selectWorkflowTemplate([ligation, ligationV2], { sampleType: 'DNA', libraryPrepKit: 'SQK-LSK114' })?.id).toBe('ligation-2')
+
+    const retired = { ...ligationV2, status: 'retired' as const }
+    expect(selectWorkflowTemplate([ligation, retired], { sampleType: 'DNA', libraryPrepKit: 'SQK-LSK114' })?.id).toBe('ligation-1')
+  })
+
+  it('should not fall back to an older version that matched more closely', () => {
+    const broadened = buildTemplate({ ...ligation, id: 'ligation-2', version: 2, libraryPrepKitPattern: null })
+    const rapid = buildTemplate({ id: 'rapid-1', templateKey: 'rapid', sampleType: 'DNA', libraryPrepKitPattern: 'SQK-LSK%' })
+
+    expect(selectWorkflowTemplate([ligation, broadened], { sampleType: 'DNA', libraryPrepKit: 'SQK-LSK114' })?.id).toBe('ligation-2')
+    expect(selectWorkflowTemplate([ligation, broadened, rapid], { sampleType: 'DNA', libraryPrepKit: 'SQK-LSK114' })?.id).toBe('rapid-1')
+  })
+
+  it('should reject unknown dependencies and cycles', () => {
+    expect(() => validateWorkflowSteps(DEFAULT_WORKFLOW_STEPS)).not.toThrow()
+    expect(() => validateWorkflowSteps([
+      { stepOrder: 1, stepName: 'A', estimatedDurationHours: 1, requiredRole: null, dependsOn: ['Missing'] }
+    ])).toThrow(/unknown step/)
+    expect(() => validateWorkflowSteps([
+      { stepOrder: 1, stepName: 'A', estimatedDurationHours: 1, requiredRole: null, dependsOn: ['B'] },
+      { stepOrder: 2, stepName: 'B', estimatedDurationHours: 1, requiredRole: null, dependsOn: ['A'] }
+    ])).toThrow(/cycle/)
+  })
+
+  it('should report dependencies that are not yet done', () => {
+    const blocking = getBlockingDependencies({ depends_on: ['Sample QC'] }, [
+      { step_name: 'Sample QC', step_status: 'in_progress' }
+    ])
+    expect(blocking).toEqual(['Sample QC'])
+  })
+})
+
+describe('PostgreSQLSampleRepository.create', () => {
+  const now = new Date('2026-03-01T10:00:00Z')
+  const templateRow = (id: string, key: string, overrides: Partial<Database['workflow_templates']> = {}) => ({
+    id,
+    template_key: key,
+    version: 1,
+    name: key,
+    description: null,
+    sample_type: null,
+    library_prep_kit_pattern: null,
+    barcoding_required: null,
+    status: 'active',
+    created_by: null,
+    retired_at: null,
+    created_at: now,
+    ...overrides,
+  })
+  const templates = [
+    templateRow('standard-1', 'standard'),
+    templateRow('ligation-1', 'ligation', { sample_type: 'DNA', library_prep_kit_pattern: 'SQK-LSK%' }),
+  ]
+
+  // Answers the queries create() runs, keyed by the statement they start with
+  const createRepository = () => {
+    const executed: CompiledQuery[] = []
+    const respond = (query: CompiledQuery): unknown[] => {
+      if (query.sql.startsWith('insert into "nanopore_samples"')) {
+        return [{ id: 'sample-1', sample_name: 'S1', sample_type: 'DNA', workflow_template_id: null }]
+      }
+      if (query.sql.startsWith('select * from "workflow_templates"')) return templates
+      if (query.sql.startsWith('select * from "workflow_template_steps"')) {
+        return templates.map(template => ({
+          id: `${template.id}-step`,
+          template_id: template.id,
+          step_order: 1,
+          step_name: 'Sample QC',
+          estimated_duration_hours: 1,
+          required_role: null,
+          depends_on: [],
+        }))
+      }
+      return []
+    }
+
+    const db = new Kysely<Database>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createIntrospector: (kysely) => new PostgresIntrospector(kysely),
+        createQueryCompiler: () => new PostgresQueryCompiler(),
+        createDriver: () => ({
+          init: async () => {},
+          destroy: async () => {},
+          beginTransaction: async () => {},
+          commitTransaction: async () => {},
+          rollbackTransaction: async () => {},
+          releaseConnection: async () => {},
+          acquireConnection: async () => ({
+            executeQuery: async <R>(query: CompiledQuery): Promise<QueryResult<R>> => {
+              executed.push(query)
+              return { rows: respond(query) as R[] }
+            },
+            streamQuery: () => { throw new Error('not supported') },
+          }),
+        }),
+      },
+    })
+    return { repository: new PostgreSQLSampleRepository(db), executed }
+  }
+
+  const sampleData = {
+    sampleName: 'S1',
+    submitterName: 'Ada',
+    submitterEmail: 'ada@lab.org',
+    sampleType: 'DNA',
+    chartField: 'NANO-001',
+  }
+
+  it('should pick the kit-specific template and record the kit in the sample details', async () => {
+    const { repository, executed } = createRepository()
+
+    const sample = await repository.create({ ...sampleData, libraryPrepKit: 'SQK-LSK114', barcodingRequired: false })
+
+    expect(sample.workflow_template_id).toBe('ligation-1')
+    const details = executed.find(query => query.sql.startsWith('insert into "nanopore_sample_details"'))
+    expect(details?.parameters).toContain('SQK-LSK114')
+  })
+
+  it('should use the generic template when no kit is given', async () => {
+    const { repository, executed } = createRepository()
+
+    expect((await repository.create(sampleData)).workflow_template_id).toBe('standard-1')
+    expect(executed.some(query => query.sql.startsWith('insert into "nanopore_sample_details"'))).toBe(false)
+  })
+})
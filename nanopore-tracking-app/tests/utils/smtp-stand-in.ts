@@ -0,0 +1,90 @@
+import net from 'node:net'
+
+export interface ReceivedEmail {
+  from: string
+  to: string[]
+  data: string
+}
+
+export interface SmtpStandIn {
+  port: number
+  received: ReceivedEmail[]
+  // Reject the next n messages with a 451 after DATA
+  failNext(count: number): void
+  close(): Promise<void>
+}
+
+/**
+ * Just enough of SMTP for nodemailer to deliver plain-text messages to, without TLS or auth
+ */
+export async function startSmtpStandIn(): Promise<SmtpStandIn> {
+  const received: ReceivedEmail[] = []
+  let failures = 0
+
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    let current: ReceivedEmail = { from: '', to: [], data: '' }
+
+    socket.write('220 localhost SMTP stand-in\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) return
+          current.data = buffer.slice(0, end)
+          buffer = buffer.slice(end + 5)
+          inData = false
+
+          if (failures > 0) {
+            failures--
+            socket.write('451 Temporary failure\r\n')
+          } else {
+            received.push(current)
+            socket.write('250 Queued\r\n')
+          }
+          current = { from: '', to: [], data: '' }
+          continue
+        }
+
+        const lineEnd = buffer.indexOf('\r\n')
+        if (lineEnd === -1) return
+        const line = buffer.slice(0, lineEnd)
+        buffer = buffer.slice(lineEnd + 2)
+        const command = line.slice(0, 4).toUpperCase()
+
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n')
+        } else if (command === 'MAIL') {
+          current.from = line.replace(/^MAIL FROM:\s*<?([^>]*)>?.*$/i, '$1')
+          socket.write('250 OK\r\n')
+        } else if (command === 'RCPT') {
+          current.to.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, '$1'))
+          socket.write('250 OK\r\n')
+        } else if (command === 'DATA') {
+          inData = true
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n')
+          return
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const address = server.address() as net.AddressInfo
+
+  return {
+    port: address.port,
+    received,
+    failNext(count) {
+      failures = count
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  }
+}
@@ -8,6 +8,8 @@ import type {
 } from '@app/db/types'
 import type { Selectable, Insertable, Updateable, Kysely } from 'kysely'
 
+import { assertStatusTransition, type SampleStatus } from './status-transitions'
+
 export interface CreateNanoporeSampleInput extends Insertable<NanoporeSample> {}
 export interface CreateNanoporeSampleDetailInput
   extends Insertable<NanoporeSampleDetail> {}
@@ -76,13 +78,39 @@ export async function updateNanoporeSample(
   userId: string,
   updateData: UpdateNanoporeSampleInput,
 ): Promise<Selectable<NanoporeSample>> {
-  return await db
-    .updateTable('nanoporeSamples')
-    .set(updateData)
-    .where('id', '=', sampleId)
-    .where('createdBy', '=', userId)
-    .returningAll()
-    .executeTakeFirstOrThrow()
+  if (updateData.status === undefined) {
+    return await db
+      .updateTable('nanoporeSamples')
+      .set(updateData)
+      .where('id', '=', sampleId)
+      .where('createdBy', '=', userId)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  }
+
+  return await db.transaction().execute(async (trx) => {
+    const current = await trx
+      .selectFrom('nanoporeSamples')
+      .select('status')
+      .where('id', '=', sampleId)
+      .executeTakeFirstOrThrow()
+
+    if (current.status !== updateData.status) {
+      await assertStatusTransition(
+        trx,
+        sampleId,
+        updateData.status as SampleStatus,
+      )
+    }
+
+    return await trx
+      .updateTable('nanoporeSamples')
+      .set(updateData)
+      .where('id', '=', sampleId)
+      .where('createdBy', '=', userId)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  })
 }
 
 /**
@@ -92,7 +120,7 @@ export async function updateNanoporeSampleStatus(
   db: Kysely<DB>,
   sampleId: string,
   userId: string,
-  status: string,
+  status: SampleStatus,
 ): Promise<Selectable<NanoporeSample>> {
   const updateData: UpdateNanoporeSampleInput = {
     status,
@@ -100,13 +128,29 @@ export async function updateNanoporeSampleStatus(
     ...(status === 'completed' && { completedAt: new Date() }),
   }
 
-  return await db
-    .updateTable('nanoporeSamples')
-    .set(updateData)
-    .where('id', '=', sampleId)
-    .where('createdBy', '=', userId)
-    .returningAll()
-    .executeTakeFirstOrThrow()
+  return await db.transaction().execute(async (trx) => {
+    const current = await trx
+      .selectFrom('nanoporeSamples')
+      .selectAll()
+      .where('id', '=', sampleId)
+      .where('createdBy', '=', userId)
+      .executeTakeFirstOrThrow()
+
+    // Asking for the current status changes nothing, as in updateNanoporeSample
+    if (current.status === status) {
+      return current
+    }
+
+    await assertStatusTransition(trx, sampleId, status)
+
+    return await trx
+      .updateTable('nanoporeSamples')
+      .set(updateData)
+      .where('id', '=', sampleId)
+      .where('createdBy', '=', userId)
+      .returningAll()
+      .executeTakeFirstOrThrow()
+  })
 }
 
 /**
@@ -0,0 +1,71 @@
+import type { DB } from '@app/db/types'
+import {
+  evaluateStatusTransition,
+  type SampleStatus,
+  type TransitionStepState,
+  type UnmetPrecondition,
+} from '@app/utils'
+import type { Kysely } from 'kysely'
+
+export type { SampleStatus, UnmetPrecondition } from '@app/utils'
+
+/**
+ * Raised when a requested status change is not allowed
+ */
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: SampleStatus,
+    public readonly unmetPreconditions: UnmetPrecondition[],
+  ) {
+    super(
+      `Cannot change status from '${from}' to '${to}': ${unmetPreconditions
+        .map((p) => p.message)
+        .join('; ')}`,
+    )
+    this.name = 'StatusTransitionError'
+  }
+}
+
+/**
+ * Load the sample and its steps and throw if the transition is not allowed
+ */
+export async function assertStatusTransition(
+  db: Kysely<DB>,
+  sampleId: string,
+  to: SampleStatus,
+): Promise<void> {
+  const sample = await db
+    .selectFrom('nanoporeSamples')
+    .selectAll()
+    .where('id', '=', sampleId)
+    .executeTakeFirstOrThrow()
+
+  const processingSteps = await db
+    .selectFrom('nanoporeProcessingSteps')
+    .select(['stepName', 'stepStatus'])
+    .where('sampleId', '=', sampleId)
+    .execute()
+
+  const evaluation = evaluateStatusTransition(to, {
+    sample: {
+      id: sample.id,
+      status: sample.status ?? 'submitted',
+      flow_cell_type: sample.flowCellType,
+      assigned_to: sample.assignedTo,
+    },
+    processingSteps: processingSteps.map((step) => ({
+      step_name: step.stepName,
+      step_status: (step.stepStatus ??
+        'pending') as TransitionStepState['step_status'],
+    })),
+  })
+
+  if (!evaluation.allowed) {
+    throw new StatusTransitionError(
+      evaluation.from,
+      to,
+      evaluation.unmetPreconditions,
+    )
+  }
+}
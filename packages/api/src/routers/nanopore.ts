@@ -4,6 +4,7 @@ import { z } from 'zod'
 import * as fileStorage from '../actions/nanopore/file-storage'
 import * as nanoporeGetters from '../actions/nanopore/getters'
 import * as nanoporeSetters from '../actions/nanopore/setters'
+import { StatusTransitionError } from '../actions/nanopore/status-transitions'
 import * as nanoporeExport from '../actions/nanopore/export'
 import { router, publicProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
@@ -19,6 +20,18 @@ function validateChartField(chartField: string): boolean {
   return VALID_CHART_FIELDS.includes(chartField)
 }
 
+// Report rejected status transitions as a typed client error
+function toStatusTransitionTRPCError(error: unknown): unknown {
+  if (error instanceof StatusTransitionError) {
+    return new TRPCError({
+      code: 'UNPROCESSABLE_CONTENT',
+      message: error.message,
+      cause: error,
+    })
+  }
+  return error
+}
+
 const createNanoporeSampleSchema = z.object({
   sampleName: z.string().min(1, 'Sample name is required').max(255),
   projectId: z.string().optional(),
@@ -240,12 +253,16 @@ export const nanoporeRouter = router({
       }),
     )
     .mutation(async ({ input, ctx }) => {
-      return await nanoporeSetters.updateNanoporeSample(
-        ctx.db,
-        input.id,
-        'demo-user',
-        input.data,
-      )
+      try {
+        return await nanoporeSetters.updateNanoporeSample(
+          ctx.db,
+          input.id,
+          'demo-user',
+          input.data,
+        )
+      } catch (error) {
+        throw toStatusTransitionTRPCError(error)
+      }
     }),
 
   // Update nanopore sample status
@@ -264,12 +281,16 @@ export const nanoporeRouter = router({
       }),
     )
     .mutation(async ({ input, ctx }) => {
-      return await nanoporeSetters.updateNanoporeSampleStatus(
-        ctx.db,
-        input.id,
-        'demo-user',
-        input.status,
-      )
+      try {
+        return await nanoporeSetters.updateNanoporeSampleStatus(
+          ctx.db,
+          input.id,
+          'demo-user',
+          input.status,
+        )
+      } catch (error) {
+        throw toStatusTransitionTRPCError(error)
+      }
     }),
 
   // Assign sample to team member
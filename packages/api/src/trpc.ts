@@ -1,6 +1,7 @@
 import { initTRPC, TRPCError } from '@trpc/server'
 import superjson from 'superjson'
 
+import { StatusTransitionError } from './actions/nanopore/status-transitions'
 import type { Context } from './context'
 
 /**
@@ -9,6 +10,23 @@ import type { Context } from './context'
  */
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Unmet preconditions of a rejected sample status change
+        statusTransition:
+          error.cause instanceof StatusTransitionError
+            ? {
+                from: error.cause.from,
+                to: error.cause.to,
+                unmetPreconditions: error.cause.unmetPreconditions,
+              }
+            : null,
+      },
+    }
+  },
 })
 
 // Middleware for logging
@@ -11,4 +11,18 @@ export {
 export { isError } from './is-error'
 export { noop } from './noop'
 export { isNotEmpty } from './not-empty'
+export {
+  SAMPLE_STATUSES,
+  SAMPLE_STATUS_TRANSITIONS,
+  evaluateStatusTransition,
+  getAllowedTransitions,
+  isSampleStatus,
+  transitionGuards,
+  type SampleStatus,
+  type TransitionContext,
+  type TransitionEvaluation,
+  type TransitionGuard,
+  type TransitionStepState,
+  type UnmetPrecondition,
+} from './sample-status'
 export { sleep } from './sleep'
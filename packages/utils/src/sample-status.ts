@@ -0,0 +1,196 @@
+/**
+ * Sample status state machine
+ * Declarative transition table with per-transition guards for nanopore samples.
+ * The only copy of the rules, shared by the tracking app, packages/api and the sample-management service.
+ */
+
+export type SampleStatus =
+  | 'submitted'
+  | 'prep'
+  | 'sequencing'
+  | 'analysis'
+  | 'completed'
+  | 'archived'
+
+export const SAMPLE_STATUSES: readonly SampleStatus[] = [
+  'submitted',
+  'prep',
+  'sequencing',
+  'analysis',
+  'completed',
+  'archived',
+]
+
+/**
+ * Minimal view of a processing step needed to evaluate guards
+ */
+export interface TransitionStepState {
+  step_name: string
+  step_status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped'
+}
+
+/**
+ * Data a guard can inspect when deciding whether a transition is allowed
+ */
+export interface TransitionContext {
+  sample: {
+    id: string
+    status: string
+    flow_cell_type: string | null
+    assigned_to?: string | null
+  }
+  processingSteps: TransitionStepState[]
+}
+
+/**
+ * A single precondition attached to a transition
+ */
+export interface TransitionGuard {
+  id: string
+  description: string
+  check: (context: TransitionContext) => boolean
+}
+
+/**
+ * A precondition that was not satisfied
+ */
+export interface UnmetPrecondition {
+  guard: string
+  message: string
+}
+
+/**
+ * Result of evaluating a requested transition
+ */
+export interface TransitionEvaluation {
+  from: SampleStatus
+  to: SampleStatus
+  allowed: boolean
+  unmetPreconditions: UnmetPrecondition[]
+}
+
+function stepCompleted(stepName: string): TransitionGuard {
+  return {
+    id: `step_completed:${stepName}`,
+    description: `"${stepName}" step must be completed`,
+    check: ({ processingSteps }) =>
+      processingSteps.some(
+        (step) =>
+          step.step_name === stepName && step.step_status === 'completed',
+      ),
+  }
+}
+
+/**
+ * Reusable transition guards
+ */
+export const transitionGuards = {
+  sampleQcCompleted: stepCompleted('Sample QC'),
+  flowCellTypeAssigned: {
+    id: 'flow_cell_type_assigned',
+    description: 'A flow cell type must be set before sequencing',
+    check: ({ sample }) => Boolean(sample.flow_cell_type?.trim()),
+  } satisfies TransitionGuard,
+  noStepInProgress: {
+    id: 'no_step_in_progress',
+    description: 'No processing step may still be in progress',
+    check: ({ processingSteps }) =>
+      !processingSteps.some((step) => step.step_status === 'in_progress'),
+  } satisfies TransitionGuard,
+}
+
+/**
+ * Allowed transitions keyed by current status, with the guards each one requires.
+ * Any transition not listed here is rejected.
+ */
+export const SAMPLE_STATUS_TRANSITIONS: Record<
+  SampleStatus,
+  Partial<Record<SampleStatus, TransitionGuard[]>>
+> = {
+  submitted: {
+    prep: [transitionGuards.sampleQcCompleted],
+    archived: [],
+  },
+  prep: {
+    sequencing: [transitionGuards.flowCellTypeAssigned],
+    submitted: [],
+  },
+  sequencing: {
+    analysis: [],
+    prep: [],
+    submitted: [],
+  },
+  analysis: {
+    completed: [transitionGuards.noStepInProgress],
+    submitted: [],
+  },
+  completed: {
+    archived: [],
+  },
+  archived: {},
+}
+
+export function isSampleStatus(value: string): value is SampleStatus {
+  return (SAMPLE_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Statuses reachable from the given status, ignoring guards
+ */
+export function getAllowedTransitions(from: SampleStatus): SampleStatus[] {
+  return Object.keys(SAMPLE_STATUS_TRANSITIONS[from]) as SampleStatus[]
+}
+
+/**
+ * Evaluate a transition against the table and its guards
+ */
+export function evaluateStatusTransition(
+  to: SampleStatus,
+  context: TransitionContext,
+): TransitionEvaluation {
+  const from = context.sample.status as SampleStatus
+
+  if (!isSampleStatus(from)) {
+    return {
+      from,
+      to,
+      allowed: false,
+      unmetPreconditions: [
+        {
+          guard: 'known_status',
+          message: `Unknown current status '${context.sample.status}'`,
+        },
+      ],
+    }
+  }
+
+  const guards = SAMPLE_STATUS_TRANSITIONS[from][to]
+  if (!guards) {
+    const allowed = getAllowedTransitions(from)
+    return {
+      from,
+      to,
+      allowed: false,
+      unmetPreconditions: [
+        {
+          guard: 'transition_allowed',
+          message:
+            allowed.length > 0
+              ? `Cannot move from '${from}' to '${to}'. Allowed: ${allowed.join(', ')}`
+              : `Samples in '${from}' cannot change status`,
+        },
+      ],
+    }
+  }
+
+  const unmetPreconditions = guards
+    .filter((guard) => !guard.check(context))
+    .map((guard) => ({ guard: guard.id, message: guard.description }))
+
+  return {
+    from,
+    to,
+    allowed: unmetPreconditions.length === 0,
+    unmetPreconditions,
+  }
+}